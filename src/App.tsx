@@ -3,6 +3,7 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AuthProvider } from "./hooks/useAuth";
 import { ActiveRoleProvider } from "./hooks/useActiveRole";
+import { ActiveCompanyProvider } from "./components/ActiveCompanyProvider";
 import { ProtectedRoute } from "./components/ProtectedRoute";
 import { AuthGuard } from "./components/AuthGuard";
 import { RootRedirect } from "./components/RootRedirect";
@@ -10,6 +11,8 @@ import { ErrorBoundary } from "./components/ErrorBoundary";
 import { ThemeProvider } from "./components/theme-provider";
 import { PWAInstallBanner } from "./components/PWAInstallBanner";
 import { HTTPSWarning } from "./components/pwa/HTTPSWarning";
+import { OfflineQueueSync } from "./components/pwa/OfflineQueueSync";
+import { OfflineApprovalCache } from "./components/pwa/OfflineApprovalCache";
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
@@ -32,6 +35,7 @@ const HRDashboard = lazy(() => import("./pages/hr/HRDashboard"));
 const SupervisorDashboard = lazy(() => import("./pages/supervisor/SupervisorDashboard"));
 const ManagementDashboard = lazy(() => import("./pages/management/ManagementDashboard"));
 const AdminDashboard = lazy(() => import("./pages/admin/AdminDashboard"));
+const InventoryAccess = lazy(() => import("./pages/admin/InventoryAccess"));
 const Dashboard = lazy(() => import("./pages/Dashboard"));
 
 // Lazy load shared routes
@@ -50,13 +54,21 @@ const VerifyOT = lazy(() => import("./pages/supervisor/VerifyOT"));
 const ApproveOT = lazy(() => import("./pages/hr/ApproveOT"));
 const Employees = lazy(() => import("./pages/hr/Employees"));
 const ArchivedEmployees = lazy(() => import("./pages/hr/ArchivedEmployees"));
+const OrgChart = lazy(() => import("./pages/hr/OrgChart"));
 const Departments = lazy(() => import("./pages/hr/Departments"));
+const Attendance = lazy(() => import("./pages/hr/Attendance"));
+const ShiftRosters = lazy(() => import("./pages/hr/ShiftRosters"));
 const HRSettings = lazy(() => import("./pages/hr/Settings"));
 const OTReports = lazy(() => import("./pages/hr/OTReports"));
 
 const ReviewOT = lazy(() => import("./pages/management/ReviewOT"));
 const ManagementApproveOT = lazy(() => import("./pages/management/ApproveOT"));
 
+const DepartmentApproveOT = lazy(() => import("./pages/department/ApproveOT"));
+
+// Store counter kiosk, used without a sign-in
+const InventoryKiosk = lazy(() => import("./pages/kiosk/InventoryKiosk"));
+
 const queryClient = createQueryClient();
 
 const App = () => (
@@ -67,9 +79,12 @@ const App = () => (
           <HTTPSWarning />
           <BrowserRouter>
             <AuthProvider>
+              <ActiveCompanyProvider>
               <ActiveRoleProvider>
                 <AuthGuard>
                   <PWAInstallBanner />
+                  <OfflineQueueSync />
+                  <OfflineApprovalCache />
                   <Suspense fallback={<ContentLoadingSkeleton />}>
                 <Routes>
                 <Route path="/" element={<RootRedirect />} />
@@ -79,9 +94,11 @@ const App = () => (
                 <Route path="/change-password" element={<ChangePassword />} />
                 <Route path="/reset-password" element={<ResetPassword />} />
                 <Route path="/unauthorized" element={<Unauthorized />} />
+                <Route path="/kiosk/inventory" element={<InventoryKiosk />} />
                 
                 {/* Role-specific dashboards */}
                 <Route path="/admin/dashboard" element={<ProtectedRoute requiredRole="admin"><AdminDashboard /></ProtectedRoute>} />
+                <Route path="/admin/inventory-access" element={<ProtectedRoute requiredRole="admin"><InventoryAccess /></ProtectedRoute>} />
                 <Route path="/hr/dashboard" element={<ProtectedRoute requiredRole={['hr', 'admin']}><HRDashboard /></ProtectedRoute>} />
                 <Route path="/supervisor/dashboard" element={<ProtectedRoute requiredRole="supervisor"><SupervisorDashboard /></ProtectedRoute>} />
                 <Route path="/employee/dashboard" element={<ProtectedRoute requiredRole="employee"><EmployeeDashboard /></ProtectedRoute>} />
@@ -100,20 +117,26 @@ const App = () => (
                 <Route path="/ot/history" element={<ProtectedRoute requiredRole="employee"><OTHistory /></ProtectedRoute>} />
                 
                 {/* Supervisor routes */}
-                <Route path="/supervisor/verify" element={<ProtectedRoute requiredRole="supervisor"><VerifyOT /></ProtectedRoute>} />
+                <Route path="/supervisor/verify" element={<ProtectedRoute requiredRole="supervisor" delegableRole="supervisor"><VerifyOT /></ProtectedRoute>} />
                 
                 {/* HR routes */}
-                <Route path="/hr/approve" element={<ProtectedRoute requiredRole={['hr', 'admin']}><ApproveOT /></ProtectedRoute>} />
+                <Route path="/hr/approve" element={<ProtectedRoute requiredRole={['hr', 'admin']} delegableRole="hr"><ApproveOT /></ProtectedRoute>} />
                 <Route path="/hr/employees" element={<ProtectedRoute requiredRole={['hr', 'admin']}><Employees /></ProtectedRoute>} />
                 <Route path="/hr/employees/archived" element={<ProtectedRoute requiredRole={['hr', 'admin']}><ArchivedEmployees /></ProtectedRoute>} />
+                <Route path="/hr/org-chart" element={<ProtectedRoute requiredRole={['hr', 'admin']}><OrgChart /></ProtectedRoute>} />
                 <Route path="/hr/departments" element={<ProtectedRoute requiredRole={['hr', 'admin']}><Departments /></ProtectedRoute>} />
+                <Route path="/hr/attendance" element={<ProtectedRoute requiredRole={['hr', 'admin']}><Attendance /></ProtectedRoute>} />
+                <Route path="/hr/shifts" element={<ProtectedRoute requiredRole={['hr', 'admin']}><ShiftRosters /></ProtectedRoute>} />
                 <Route path="/hr/holidays" element={<ProtectedRoute requiredRole={['hr', 'admin']}><HolidayManagement /></ProtectedRoute>} />
                 <Route path="/hr/settings" element={<ProtectedRoute requiredRole={['hr', 'admin']}><HRSettings /></ProtectedRoute>} />
                 <Route path="/hr/ot-reports" element={<ProtectedRoute requiredRole={['hr', 'admin']}><OTReports /></ProtectedRoute>} />
 
                 {/* Management routes */}
-                <Route path="/management/approve" element={<ProtectedRoute requiredRole={['management', 'admin']}><ManagementApproveOT /></ProtectedRoute>} />
+                <Route path="/management/approve" element={<ProtectedRoute requiredRole={['management', 'admin']} delegableRole="management"><ManagementApproveOT /></ProtectedRoute>} />
                 <Route path="/management/report" element={<ProtectedRoute requiredRole={['management', 'admin']}><ReviewOT /></ProtectedRoute>} />
+
+                {/* Department head routes (access is by departments.head_id, not by role) */}
+                <Route path="/department/approve" element={<ProtectedRoute><DepartmentApproveOT /></ProtectedRoute>} />
                 
                 <Route path="*" element={<NotFound />} />
                 </Routes>
@@ -122,6 +145,7 @@ const App = () => (
                   <Sonner />
                 </AuthGuard>
               </ActiveRoleProvider>
+              </ActiveCompanyProvider>
             </AuthProvider>
           </BrowserRouter>
         </TooltipProvider>
@@ -0,0 +1,53 @@
+import { ReactNode } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { CompanyMembership } from '@/types/otms';
+import { useAuth } from '@/hooks/useAuth';
+import { ActiveCompanyContext, ActiveCompanyContextType } from '@/hooks/useActiveCompany';
+
+interface ActiveCompanyProviderProps {
+  children: ReactNode;
+}
+
+export function ActiveCompanyProvider({ children }: ActiveCompanyProviderProps) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: companies = [] } = useQuery({
+    queryKey: ['my-companies', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_my_companies');
+      if (error) throw error;
+      return (data as CompanyMembership[]) || [];
+    },
+    enabled: !!user?.id,
+    staleTime: 1000 * 60 * 5,
+  });
+
+  const switchCompany = useMutation({
+    mutationFn: async (companyId: string) => {
+      const { error } = await supabase.rpc('set_active_company', { p_company_id: companyId });
+      if (error) throw error;
+      return companyId;
+    },
+    onSuccess: (companyId) => {
+      // Roles, policies and every list now answer for the other company
+      queryClient.invalidateQueries();
+      const company = companies.find((c) => c.id === companyId);
+      toast.success(`Switched to ${company?.name ?? 'company'}`);
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to switch company', { description: error.message });
+    },
+  });
+
+  const value: ActiveCompanyContextType = {
+    companies,
+    activeCompany: companies.find((c) => c.is_active) || null,
+    setActiveCompany: (companyId) => switchCompany.mutate(companyId),
+    isSwitching: switchCompany.isPending,
+  };
+
+  return <ActiveCompanyContext.Provider value={value}>{children}</ActiveCompanyContext.Provider>;
+}
@@ -2,6 +2,8 @@ import { ReactNode, useState } from 'react';
 import { useNavigate, useLocation, NavLink } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { useActiveRole } from '@/hooks/useActiveRole';
+import { useHeadedDepartments } from '@/hooks/useHeadedDepartments';
+import { useActiveDelegations } from '@/hooks/useActiveDelegations';
 import { useIsMobile, useIsTablet, useDeviceType } from '@/hooks/use-mobile';
 import {
   Sidebar,
@@ -40,6 +42,7 @@ import {
 import { NotificationBell } from '@/components/NotificationBell';
 import { ThemeToggle } from '@/components/ThemeToggle';
 import { DashboardSwitcher } from '@/components/DashboardSwitcher';
+import { CompanySwitcher } from '@/components/CompanySwitcher';
 import { 
   LayoutDashboard, 
   PlusCircle, 
@@ -47,13 +50,17 @@ import {
   CheckCircle, 
   Users, 
   Building2,
+  Fingerprint,
+  CalendarClock,
   Settings, 
   FileText,
   Eye,
   User,
   LogOut,
   Calendar,
-  Home
+  Home,
+  Network,
+  QrCode
 } from 'lucide-react';
 import { AppRole } from '@/types/otms';
 
@@ -69,6 +76,12 @@ function AppSidebar({ activeRole }: AppSidebarProps) {
   const { open } = useSidebar();
   const location = useLocation();
   const currentPath = location.pathname;
+  const { data: headedDepartments = [] } = useHeadedDepartments();
+  const isDepartmentHead = headedDepartments.length > 0;
+  const { data: activeDelegations = [] } = useActiveDelegations();
+  const delegatedRoles = new Set<string>(activeDelegations.map(d => d.role));
+  const isDelegatedItem = (item: { path: string; delegableRole?: string }) =>
+    !!item.delegableRole && delegatedRoles.has(item.delegableRole);
 
   const getNavCls = ({ isActive }: { isActive: boolean }) =>
     isActive ? "bg-sidebar-accent text-sidebar-accent-foreground font-medium" : "hover:bg-sidebar-accent/50";
@@ -87,7 +100,8 @@ function AppSidebar({ activeRole }: AppSidebarProps) {
     if (currentPath.includes('/dashboard')) return 'dashboards';
     if (currentPath.includes('/ot/') || currentPath.includes('/verify') || 
         currentPath.includes('/approve') || currentPath.includes('/certify')) return 'otManagement';
-    if (currentPath.includes('/employees') || currentPath.includes('/departments')) return 'hrManagement';
+    if (currentPath.includes('/employees') || currentPath.includes('/departments') || currentPath.includes('/attendance') ||
+        currentPath.includes('/shifts')) return 'hrManagement';
     if (currentPath.includes('/report')) return 'reports';
     return 'general';
   };
@@ -114,16 +128,20 @@ function AppSidebar({ activeRole }: AppSidebarProps) {
       items: [
         { path: '/ot/submit', label: 'Submit OT', icon: PlusCircle, roles: ['employee'] },
         { path: '/ot/history', label: 'OT History', icon: History, roles: ['employee'] },
-        { path: '/supervisor/verify', label: 'Verify OT', icon: CheckCircle, roles: ['supervisor', 'admin'] },
-        { path: '/hr/approve', label: 'Certify OT', icon: CheckCircle, roles: ['hr', 'admin'] },
-        { path: '/management/approve', label: 'Approve OT', icon: CheckCircle, roles: ['management', 'admin'] },
+        { path: '/supervisor/verify', label: 'Verify OT', icon: CheckCircle, roles: ['supervisor', 'admin'], delegableRole: 'supervisor' },
+        { path: '/hr/approve', label: 'Certify OT', icon: CheckCircle, roles: ['hr', 'admin'], delegableRole: 'hr' },
+        { path: '/management/approve', label: 'Approve OT', icon: CheckCircle, roles: ['management', 'admin'], delegableRole: 'management' },
+        { path: '/department/approve', label: 'Department Approvals', icon: CheckCircle, roles: ['admin', 'hr', 'supervisor', 'employee', 'management'], departmentHeadOnly: true },
       ],
     },
     hrManagement: {
       label: 'HR Management',
       items: [
         { path: '/hr/employees', label: 'Employees', icon: Users, roles: ['hr', 'admin'] },
+        { path: '/hr/org-chart', label: 'Org Chart', icon: Network, roles: ['hr', 'admin'] },
         { path: '/hr/departments', label: 'Departments', icon: Building2, roles: ['hr', 'admin'] },
+        { path: '/hr/attendance', label: 'Attendance', icon: Fingerprint, roles: ['hr', 'admin'] },
+        { path: '/hr/shifts', label: 'Shift Rosters', icon: CalendarClock, roles: ['hr', 'admin'] },
       ],
     },
     reports: {
@@ -137,6 +155,7 @@ function AppSidebar({ activeRole }: AppSidebarProps) {
       label: 'General',
       items: [
         { path: getCalendarPath(activeRole), label: 'Calendar', icon: Calendar, roles: ['admin', 'hr', 'supervisor', 'employee', 'management'] },
+        { path: '/admin/inventory-access', label: 'Inventory Access', icon: QrCode, roles: ['admin'] },
         { path: '/settings', label: 'Settings', icon: Settings, roles: ['admin', 'hr', 'supervisor', 'employee', 'management'] },
       ],
     },
@@ -157,8 +176,13 @@ function AppSidebar({ activeRole }: AppSidebarProps) {
       <SidebarContent>
         {Object.entries(menuGroups).map(([groupKey, group]) => {
           // Only show items that match the currently active role
+          // Delegates also see the approval screens of whoever they are covering for
           const filteredItems = group.items.filter(item =>
-            activeRole && item.roles.includes(activeRole as AppRole)
+            activeRole && (
+              item.roles.includes(activeRole as AppRole) ||
+              isDelegatedItem(item)
+            ) &&
+            (!('departmentHeadOnly' in item) || isDepartmentHead)
           );
           
           // Skip rendering empty groups
@@ -291,6 +315,7 @@ export function AppLayout({ children }: AppLayoutProps) {
           `}>
             <div className="flex items-center gap-2">
               <SidebarTrigger />
+              <CompanySwitcher />
               <DashboardSwitcher />
               
               <Breadcrumb className="hidden md:flex ml-4">
@@ -18,7 +18,10 @@ export function AuthGuard({ children }: AuthGuardProps) {
   // If user is not authenticated and not on auth-related pages, redirect to auth
   const isAuthPage = ['/auth', '/set-password', '/setup-password', '/change-password', '/reset-password'].includes(location.pathname);
 
-  if (!user && !isAuthPage) {
+  // Kiosks authenticate with their own key
+  const isKioskPage = location.pathname.startsWith('/kiosk/');
+
+  if (!user && !isAuthPage && !isKioskPage) {
     return <Navigate to="/auth" replace />;
   }
 
@@ -0,0 +1,57 @@
+import { useActiveCompany } from '@/hooks/useActiveCompany';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+  DropdownMenuSeparator,
+} from '@/components/ui/dropdown-menu';
+import { Building2, ChevronDown } from 'lucide-react';
+
+export function CompanySwitcher() {
+  const { companies, activeCompany, setActiveCompany, isSwitching } = useActiveCompany();
+
+  // Only show switcher if user works in several companies
+  if (companies.length <= 1) {
+    return null;
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className="gap-1 text-xs"
+          title="Switch company"
+          disabled={isSwitching}
+        >
+          <Building2 className="h-4 w-4" />
+          <span className="max-w-[10rem] truncate">{activeCompany?.code || 'Company'}</span>
+          <ChevronDown className="h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-64">
+        <div className="px-2 py-1.5 text-xs font-semibold text-muted-foreground">
+          Switch Company
+        </div>
+        <DropdownMenuSeparator />
+        {companies.map((company) => (
+          <DropdownMenuItem
+            key={company.id}
+            onClick={() => !company.is_active && setActiveCompany(company.id)}
+            className={company.is_active ? 'bg-accent' : ''}
+          >
+            <div className="flex flex-col">
+              <span>{company.name}</span>
+              {company.roles.length > 0 && (
+                <span className="text-xs capitalize text-muted-foreground">{company.roles.join(', ')}</span>
+              )}
+            </div>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
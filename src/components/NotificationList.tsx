@@ -15,6 +15,7 @@ export function NotificationList() {
   const getNotificationIcon = (type: string) => {
     switch (type) {
       case 'ot_pending_confirmation':
+      case 'ot_approval_overdue':
         return <AlertCircle className="h-4 w-4 text-amber-500" />;
       case 'ot_supervisor_confirmed':
         return <CheckCircle className="h-4 w-4 text-green-500" />;
@@ -1,19 +1,25 @@
 import { Navigate, useLocation } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { LoadingSkeleton } from '@/components/LoadingSkeleton';
-import { AppRole } from '@/types/otms';
+import { useActiveDelegations } from '@/hooks/useActiveDelegations';
+import { AppRole, DelegationRole } from '@/types/otms';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
   requiredRole?: AppRole | AppRole[];
+  /** Also admit users currently covering this role for someone out of office */
+  delegableRole?: DelegationRole;
 }
 
-export function ProtectedRoute({ children, requiredRole }: ProtectedRouteProps) {
+export function ProtectedRoute({ children, requiredRole, delegableRole }: ProtectedRouteProps) {
   const { user, roles, profileStatus, isLoadingRoles, isLoadingProfile } = useAuth();
+  const { data: activeDelegations = [], isLoading: isLoadingDelegations } = useActiveDelegations({
+    enabled: !!delegableRole,
+  });
   const location = useLocation();
 
-  // Wait for server state (roles, profile) to load
-  const isLoading = isLoadingRoles || isLoadingProfile;
+  // Wait for server state (roles, profile, delegations) to load
+  const isLoading = isLoadingRoles || isLoadingProfile || (!!delegableRole && !!user && isLoadingDelegations);
 
   // Precompute required roles array for diagnostics
   const requiredRoles = requiredRole
@@ -47,7 +53,8 @@ export function ProtectedRoute({ children, requiredRole }: ProtectedRouteProps)
   // Check role-based access if required (for non-admins)
   if (requiredRoles && requiredRoles.length > 0) {
     const hasRequiredRole = requiredRoles.some((role) => roles.includes(role));
-    if (!hasRequiredRole) {
+    const isDelegate = !!delegableRole && activeDelegations.some((d) => d.role === delegableRole);
+    if (!hasRequiredRole && !isDelegate) {
       // Pass context for better diagnostics
       return (
         <Navigate
@@ -0,0 +1,169 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Copy, MonitorSmartphone, Plus } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import {
+  useInventoryKiosks,
+  useRegisterInventoryKiosk,
+  useSetInventoryKioskActive,
+} from '@/hooks/useInventoryKiosks';
+
+/** Store counter scanners; each signs in to /kiosk/inventory with its own key */
+export function InventoryKiosksCard() {
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [issuedKey, setIssuedKey] = useState<string | null>(null);
+  const { data: kiosks = [], isLoading } = useInventoryKiosks();
+  const registerKiosk = useRegisterInventoryKiosk();
+  const setKioskActive = useSetInventoryKioskActive();
+
+  const openDialog = () => {
+    setName('');
+    setIssuedKey(null);
+    setDialogOpen(true);
+  };
+
+  const handleRegister = () => {
+    registerKiosk.mutate(name.trim(), {
+      onSuccess: (result) => setIssuedKey(result.kiosk_key),
+    });
+  };
+
+  const copyKey = async () => {
+    if (!issuedKey) return;
+    await navigator.clipboard.writeText(issuedKey);
+    toast({ title: 'Copied', description: 'Kiosk key copied to the clipboard' });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <MonitorSmartphone className="h-5 w-5" />
+            Kiosks
+          </CardTitle>
+          <CardDescription>
+            Open {window.location.origin}/kiosk/inventory on the store counter device and enter its key.
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={openDialog}>
+          <Plus className="h-4 w-4 mr-1" />
+          Register Kiosk
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading kiosks...</p>
+        ) : kiosks.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No kiosks registered.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Last scan</TableHead>
+                <TableHead>Registered</TableHead>
+                <TableHead className="text-right">Active</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {kiosks.map((kiosk) => (
+                <TableRow key={kiosk.id}>
+                  <TableCell className="font-medium">
+                    {kiosk.name}
+                    {!kiosk.is_active && (
+                      <Badge variant="secondary" className="ml-2">
+                        Inactive
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {kiosk.last_seen_at ? format(parseISO(kiosk.last_seen_at), 'dd MMM yyyy, HH:mm') : 'Never'}
+                  </TableCell>
+                  <TableCell>{format(parseISO(kiosk.created_at), 'dd MMM yyyy')}</TableCell>
+                  <TableCell className="text-right">
+                    <Switch
+                      checked={kiosk.is_active}
+                      disabled={setKioskActive.isPending}
+                      onCheckedChange={(isActive) => setKioskActive.mutate({ kioskId: kiosk.id, isActive })}
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Register Kiosk</DialogTitle>
+            <DialogDescription>
+              {issuedKey
+                ? 'Enter this key on the kiosk. It is shown only once; register the kiosk again if it is lost.'
+                : 'Name the counter the scanner is at.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          {issuedKey ? (
+            <div className="space-y-3">
+              <div className="flex gap-2">
+                <Input value={issuedKey} readOnly className="font-mono text-sm" />
+                <Button variant="outline" size="icon" onClick={copyKey} aria-label="Copy kiosk key">
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+              <Alert>
+                <AlertDescription>Anyone with this key can verify badges as this kiosk.</AlertDescription>
+              </Alert>
+            </div>
+          ) : (
+            <div className="grid gap-2">
+              <Label htmlFor="kiosk_name">Name</Label>
+              <Input
+                id="kiosk_name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Main store counter"
+              />
+            </div>
+          )}
+
+          <DialogFooter>
+            {issuedKey ? (
+              <Button onClick={() => setDialogOpen(false)}>Done</Button>
+            ) : (
+              <>
+                <Button variant="outline" onClick={() => setDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button onClick={handleRegister} disabled={!name.trim() || registerKiosk.isPending}>
+                  {registerKiosk.isPending ? 'Registering...' : 'Register'}
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
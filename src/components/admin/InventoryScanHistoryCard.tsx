@@ -0,0 +1,86 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { ScanLine } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useInventoryAccessScans } from '@/hooks/useInventoryKiosks';
+import { SCAN_RESULT_LABELS } from '@/lib/inventoryAccess';
+import { InventoryScanResult } from '@/types/otms';
+
+/** Every badge scan at the company's kiosks, granted or not */
+export function InventoryScanHistoryCard() {
+  const [resultFilter, setResultFilter] = useState<InventoryScanResult | 'all'>('all');
+  const { data: scans = [], isLoading } = useInventoryAccessScans();
+
+  const shown = resultFilter === 'all' ? scans : scans.filter((scan) => scan.result === resultFilter);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <ScanLine className="h-5 w-5" />
+            Scan History
+          </CardTitle>
+          <CardDescription>The latest badge scans, including refused ones.</CardDescription>
+        </div>
+        <Select value={resultFilter} onValueChange={(value) => setResultFilter(value as InventoryScanResult | 'all')}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All results</SelectItem>
+            {(Object.keys(SCAN_RESULT_LABELS) as InventoryScanResult[]).map((result) => (
+              <SelectItem key={result} value={result}>
+                {SCAN_RESULT_LABELS[result].title}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading scans...</p>
+        ) : shown.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No scans recorded.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Time</TableHead>
+                <TableHead>Kiosk</TableHead>
+                <TableHead>Employee</TableHead>
+                <TableHead>Result</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {shown.map((scan) => (
+                <TableRow key={scan.id}>
+                  <TableCell>{format(parseISO(scan.scanned_at), 'dd MMM yyyy, HH:mm:ss')}</TableCell>
+                  <TableCell>{scan.inventory_kiosks?.name || 'Removed kiosk'}</TableCell>
+                  <TableCell>
+                    {scan.profiles ? (
+                      <>
+                        <div className="font-medium">{scan.profiles.full_name}</div>
+                        <div className="text-xs text-muted-foreground">{scan.profiles.employee_id}</div>
+                      </>
+                    ) : (
+                      <span className="text-muted-foreground">-</span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={scan.result === 'granted' ? 'default' : 'destructive'}>
+                      {SCAN_RESULT_LABELS[scan.result].title}
+                    </Badge>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
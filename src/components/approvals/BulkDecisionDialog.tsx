@@ -0,0 +1,252 @@
+import { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { CheckCircle2, Loader2, XCircle } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Textarea } from '@/components/ui/textarea';
+import { useBulkOTDecisions } from '@/hooks/useBulkOTDecisions';
+import { describeBulkDecisions, expandRowDecisions } from '@/lib/bulkOTDecisions';
+import { formatHours } from '@/lib/otCalculations';
+import { ApprovalRole, BulkOTDecision, GroupedOTRequest } from '@/types/otms';
+
+type RowDecision = Omit<BulkOTDecision, 'request_id'>;
+
+interface BulkDecisionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  role: ApprovalRole;
+  /** Queue rows to decide (an employee's sessions on a date) */
+  requests: GroupedOTRequest[];
+  /** Called once the decisions were sent, whatever their outcome */
+  onDecided?: () => void;
+}
+
+/** Approve or reject many queue rows at once and see how each request fared */
+export function BulkDecisionDialog({ open, onOpenChange, role, requests, onDecided }: BulkDecisionDialogProps) {
+  const [decisions, setDecisions] = useState<Record<string, RowDecision>>({});
+  const [approvalRemarks, setApprovalRemarks] = useState('');
+  const { decide, report, reset, isDeciding } = useBulkOTDecisions(role);
+  const rejectLabel = role === 'management' ? 'Send back' : 'Reject';
+
+  useEffect(() => {
+    if (open) {
+      setDecisions({});
+      setApprovalRemarks('');
+      reset();
+    }
+  }, [open, reset]);
+
+  const decisionFor = (row: GroupedOTRequest): RowDecision => decisions[row.id] || { decision: 'approve' };
+
+  const rowsByRequestId = useMemo(
+    () =>
+      new Map(
+        requests.flatMap((row) => (row.request_ids?.length ? row.request_ids : [row.id]).map((id) => [id, row]))
+      ),
+    [requests]
+  );
+
+  const dates = requests.map((r) => r.ot_date).sort();
+  const employeeCount = new Set(requests.map((r) => r.employee_id)).size;
+  const totalHours = requests.reduce((sum, r) => sum + (r.total_hours || 0), 0);
+  const rejecting = requests.filter((row) => decisionFor(row).decision === 'reject');
+  const missingRemarks = rejecting.some((row) => !decisionFor(row).remarks?.trim());
+
+  const setRowDecision = (row: GroupedOTRequest, next: Partial<RowDecision>) =>
+    setDecisions((prev) => ({ ...prev, [row.id]: { ...decisionFor(row), ...next } }));
+
+  const handleSubmit = async () => {
+    const rowDecisions = Object.fromEntries(
+      requests.map((row) => {
+        const decision = decisionFor(row);
+        return [
+          row.id,
+          decision.decision === 'approve' ? { decision: 'approve', remarks: approvalRemarks.trim() || undefined } : decision,
+        ];
+      })
+    ) as Record<string, RowDecision>;
+
+    try {
+      await decide(expandRowDecisions(requests, rowDecisions));
+      onDecided?.();
+    } catch {
+      // Reported by the hook; the dialog stays open to retry
+    }
+  };
+
+  const failures = report?.results.filter((r) => !r.ok) || [];
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isDeciding && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{report ? 'Bulk Review Results' : `Review ${requests.length} OT Requests`}</DialogTitle>
+          <DialogDescription>
+            {report
+              ? describeBulkDecisions(report)
+              : 'Each request is checked and decided on its own. Employees get one notification for all of their requests.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {report ? (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="secondary" className="gap-1">
+                <CheckCircle2 className="h-3 w-3" />
+                {report.approved} approved
+              </Badge>
+              <Badge variant="secondary" className="gap-1">
+                <XCircle className="h-3 w-3" />
+                {report.rejected} {role === 'management' ? 'sent back' : 'rejected'}
+              </Badge>
+              {report.failed > 0 && <Badge variant="destructive">{report.failed} failed</Badge>}
+            </div>
+
+            {failures.length > 0 && (
+              <ScrollArea className="max-h-[50vh]">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Ticket</TableHead>
+                      <TableHead>Employee</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Reason</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {failures.map((result) => {
+                      const row = rowsByRequestId.get(result.request_id);
+                      return (
+                        <TableRow key={result.request_id}>
+                          <TableCell className="font-mono text-sm">{row?.ticket_number || '-'}</TableCell>
+                          <TableCell>{row?.profiles?.full_name || 'N/A'}</TableCell>
+                          <TableCell>{row ? format(new Date(row.ot_date), 'dd MMM yyyy') : '-'}</TableCell>
+                          <TableCell className="text-sm text-destructive">{result.error}</TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </ScrollArea>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-4 rounded-lg border bg-muted/40 p-4 text-sm">
+              <div>
+                <div className="text-muted-foreground">Employees</div>
+                <div className="font-semibold">{employeeCount}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Dates</div>
+                <div className="font-semibold">
+                  {dates.length > 0 &&
+                    `${format(new Date(dates[0]), 'dd MMM yyyy')} - ${format(new Date(dates[dates.length - 1]), 'dd MMM yyyy')}`}
+                </div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Total hours</div>
+                <div className="font-semibold">{formatHours(totalHours)}</div>
+              </div>
+            </div>
+
+            <ScrollArea className="h-[40vh]">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Employee</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Hours</TableHead>
+                    <TableHead>Decision</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {requests.map((row) => {
+                    const decision = decisionFor(row);
+                    return (
+                      <TableRow key={row.id}>
+                        <TableCell>
+                          <div className="font-medium">{row.profiles?.full_name || 'N/A'}</div>
+                          <div className="text-xs text-muted-foreground">{row.profiles?.employee_id}</div>
+                        </TableCell>
+                        <TableCell>{format(new Date(row.ot_date), 'dd MMM yyyy')}</TableCell>
+                        <TableCell>{formatHours(row.total_hours)}</TableCell>
+                        <TableCell className="space-y-2">
+                          <div className="flex gap-1">
+                            <Button
+                              size="sm"
+                              variant={decision.decision === 'approve' ? 'default' : 'outline'}
+                              onClick={() => setRowDecision(row, { decision: 'approve' })}
+                            >
+                              Approve
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant={decision.decision === 'reject' ? 'destructive' : 'outline'}
+                              onClick={() => setRowDecision(row, { decision: 'reject' })}
+                            >
+                              {rejectLabel}
+                            </Button>
+                          </div>
+                          {decision.decision === 'reject' && (
+                            <Input
+                              value={decision.remarks || ''}
+                              onChange={(e) => setRowDecision(row, { remarks: e.target.value })}
+                              placeholder="Reason (required)"
+                              maxLength={500}
+                            />
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+
+            <div className="grid gap-2">
+              <Label htmlFor="bulk_approval_remarks">Remarks for approvals (optional)</Label>
+              <Textarea
+                id="bulk_approval_remarks"
+                value={approvalRemarks}
+                onChange={(e) => setApprovalRemarks(e.target.value)}
+                maxLength={500}
+                rows={2}
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {report ? (
+            <Button onClick={() => onOpenChange(false)}>Close</Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isDeciding}>
+                Cancel
+              </Button>
+              <Button onClick={handleSubmit} disabled={requests.length === 0 || missingRemarks || isDeciding}>
+                {isDeciding && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {isDeciding
+                  ? 'Submitting...'
+                  : `Submit (${requests.length - rejecting.length} approve, ${rejecting.length} ${rejectLabel.toLowerCase()})`}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
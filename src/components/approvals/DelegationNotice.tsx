@@ -0,0 +1,30 @@
+import { format, parseISO } from 'date-fns';
+import { UserCheck } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ApprovalDelegation, DelegationRole } from '@/types/otms';
+
+interface DelegationNoticeProps {
+  delegations: ApprovalDelegation[];
+  role: DelegationRole;
+}
+
+/**
+ * Tells a delegate whose approvals they are currently handling on this screen
+ */
+export function DelegationNotice({ delegations, role }: DelegationNoticeProps) {
+  const covering = delegations.filter((d) => d.role === role);
+  if (covering.length === 0) return null;
+
+  return (
+    <Alert>
+      <UserCheck className="h-4 w-4" />
+      <AlertDescription>
+        You are covering for{' '}
+        {covering
+          .map((d) => `${d.delegator?.full_name || 'Unknown'} (until ${format(parseISO(d.ends_on), 'dd MMM yyyy')})`)
+          .join(', ')}
+        . Actions you take are recorded on their behalf.
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -10,13 +10,17 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { StatusBadge } from '@/components/StatusBadge';
+import { OTRequestTimeline } from '@/components/ot/OTRequestTimeline';
 import { GroupedOTRequest } from '@/types/otms';
-import { formatCurrency, formatHours, formatTime12Hour } from '@/lib/otCalculations';
+import { formatCurrency, formatHours, formatTimeRange } from '@/lib/otCalculations';
 import { getStatusTooltip } from '@/lib/otStatusTooltip';
 import { useOTDailySessions } from '@/hooks/useOTDailySessions';
+import { PunchComparison } from './PunchComparison';
+import { formatLimitViolation, getLimitViolations } from '@/lib/otLimits';
+import { formatCostShares } from '@/lib/costAllocation';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 
-type ApprovalRole = 'supervisor' | 'hr' | 'management';
+type ApprovalRole = 'supervisor' | 'department_head' | 'hr' | 'management';
 
 interface OTApprovalDetailsSheetProps {
   request: GroupedOTRequest | null;
@@ -24,6 +28,8 @@ interface OTApprovalDetailsSheetProps {
   onOpenChange: (open: boolean) => void;
   role: ApprovalRole;
   currentUserId?: string;
+  /** Supervisors the current user is covering for (out of office delegation) */
+  delegatorIds?: string[];
   onApprove?: (request: GroupedOTRequest, sessionIds: string[]) => void;
   onReject?: (request: GroupedOTRequest, sessionIds: string[]) => void;
   onConfirm?: (requestIds: string[], remarks?: string) => Promise<void>;
@@ -44,6 +50,7 @@ export function OTApprovalDetailsSheet({
   onOpenChange,
   role,
   currentUserId,
+  delegatorIds = [],
   onApprove,
   onReject,
   onConfirm,
@@ -79,19 +86,29 @@ export function OTApprovalDetailsSheet({
   if (!request) return null;
 
   // Calculate daily totals from ALL sessions
-  const dailyTotalHours = allDailySessions.reduce((sum, s) => sum + s.total_hours, 0);
-  const dailyTotalAmount = allDailySessions.reduce((sum, s) => sum + (s.ot_amount || 0), 0);
+  // Sessions past midnight count only the hours worked on this day
+  const dailyTotalHours = allDailySessions.reduce((sum, s) => sum + s.date_hours, 0);
+  const dailyTotalAmount = allDailySessions.reduce(
+    (sum, s) => sum + (s.total_hours > 0 ? ((s.ot_amount || 0) * s.date_hours) / s.total_hours : 0),
+    0
+  );
   const currentSessionIds = request.sessions.map(s => s.id);
   const otherSessions = allDailySessions.filter(s => !currentSessionIds.includes(s.id));
 
   const profile = (request as any).profiles;
 
-  const hasThresholdViolations = request.threshold_violations &&
-    Object.keys(request.threshold_violations).length > 0;
+  const limitViolations = getLimitViolations(request.threshold_violations);
 
   const canApproveOrReject = (req: GroupedOTRequest) => {
     if (role === 'supervisor') return req.status === 'pending_verification';
-    if (role === 'hr') return req.status === 'supervisor_verified' || req.status === 'supervisor_confirmed' || req.status === 'respective_supervisor_confirmed';
+    if (role === 'department_head') {
+      return !!req.approval_steps?.includes('department_head') &&
+        (req.status === 'supervisor_verified' || req.status === 'supervisor_confirmed' || req.status === 'respective_supervisor_confirmed');
+    }
+    if (role === 'hr') {
+      if (req.approval_steps?.includes('department_head')) return req.status === 'department_head_approved';
+      return req.status === 'supervisor_verified' || req.status === 'supervisor_confirmed' || req.status === 'respective_supervisor_confirmed';
+    }
     if (role === 'management') return req.status === 'hr_certified';
     return false;
   };
@@ -99,7 +116,8 @@ export function OTApprovalDetailsSheet({
   const canConfirmAsRespectiveSupervisor = (req: GroupedOTRequest) => {
     return req.status === 'pending_respective_supervisor_confirmation' &&
            req.respective_supervisor_id && // Must have respective supervisor assigned
-           req.respective_supervisor_id === currentUserId && // Must be the actual respective supervisor
+           // Must be the actual respective supervisor or their delegate
+           (req.respective_supervisor_id === currentUserId || delegatorIds.includes(req.respective_supervisor_id)) &&
            onConfirmRespectiveSupervisor && onDenyRespectiveSupervisor; // Must have callbacks provided
   };
 
@@ -223,7 +241,7 @@ export function OTApprovalDetailsSheet({
                       <div className="flex-1 bg-muted/50 p-3 rounded space-y-2">
                         <div className="flex items-center justify-between">
                           <div className="text-sm font-medium">
-                            {formatTime12Hour(session.start_time)} - {formatTime12Hour(session.end_time)}
+                            {formatTimeRange(session.start_time, session.end_time)}
                             <span className="ml-2 text-muted-foreground">
                               ({formatHours(session.total_hours)} hours)
                             </span>
@@ -237,6 +255,13 @@ export function OTApprovalDetailsSheet({
                             <span>{session.reason}</span>
                           </div>
                         )}
+
+                        {session.cost_allocations && session.cost_allocations.length > 0 && (
+                          <div className="text-sm">
+                            <span className="font-medium text-muted-foreground">Charged to: </span>
+                            <span>{formatCostShares(session.cost_allocations)}</span>
+                          </div>
+                        )}
                         
                         {session.attachment_urls && session.attachment_urls.length > 0 && (
                           <div className="flex gap-1 flex-wrap">
@@ -268,6 +293,15 @@ export function OTApprovalDetailsSheet({
                 )}
               </div>
 
+              {/* Punches are visible to the employee's supervisors and HR only */}
+              {(role === 'supervisor' || role === 'hr') && (
+                <PunchComparison
+                  employeeId={request.employee_id}
+                  otDate={request.ot_date}
+                  sessions={request.sessions}
+                />
+              )}
+
               {/* Other Sessions on Same Day */}
               {otherSessions.length > 0 && (
                 <Collapsible open={showDailyContext} onOpenChange={setShowDailyContext}>
@@ -280,7 +314,7 @@ export function OTApprovalDetailsSheet({
                       <div key={session.id} className="bg-muted/30 p-3 rounded border border-dashed space-y-2">
                         <div className="flex items-center justify-between">
                           <div className="text-sm">
-                            {formatTime12Hour(session.start_time)} - {formatTime12Hour(session.end_time)}
+                            {formatTimeRange(session.start_time, session.end_time)}
                             <span className="ml-2 text-muted-foreground">
                               ({formatHours(session.total_hours)} hours)
                             </span>
@@ -361,15 +395,16 @@ export function OTApprovalDetailsSheet({
           )}
 
           {/* Threshold Violations */}
-          {hasThresholdViolations && (
+          {limitViolations.length > 0 && (
             <Alert variant="destructive">
               <AlertCircle className="h-4 w-4" />
               <AlertDescription>
                 <p className="font-semibold mb-2">Threshold Violations Detected</p>
                 <div className="text-sm space-y-1">
-                  {request.threshold_violations.violations?.map((v: any, idx: number) => (
-                    <div key={idx}>
-                      • {v.type}: Exceeded by {v.exceeded_by} (Limit: {v.limit}, Current: {v.current})
+                  {limitViolations.map((violation) => (
+                    <div key={violation.type}>
+                      • {formatLimitViolation(violation)}
+                      {violation.hard ? ' (blocks approval)' : ' (soft limit)'}
                     </div>
                   ))}
                 </div>
@@ -380,104 +415,20 @@ export function OTApprovalDetailsSheet({
           {/* Audit Trail */}
           <div className="space-y-3">
             <h3 className="font-semibold text-lg">Audit Trail</h3>
-
-            {request.supervisor_remarks && (
-              <div className="bg-muted/50 p-3 rounded-md space-y-1">
-                <div className="flex items-center gap-2">
-                  <CheckCircle2 className="h-4 w-4 text-green-600" />
-                  <span className="font-medium text-sm">Supervisor Verification</span>
-                  {request.supervisor_verified_at && (
-                    <span className="text-xs text-muted-foreground">
-                      {format(new Date(request.supervisor_verified_at), 'dd MMM yyyy HH:mm')}
-                    </span>
-                  )}
-                </div>
-                <p className="text-sm pl-6">{request.supervisor_remarks}</p>
-              </div>
-            )}
-
-            {request.respective_supervisor_remarks && (
-              <div className="bg-muted/50 p-3 rounded-md space-y-1">
-                <div className="flex items-center gap-2">
-                  <CheckCircle2 className="h-4 w-4 text-indigo-600" />
-                  <span className="font-medium text-sm">Respective Supervisor Confirmation</span>
-                  {request.respective_supervisor_confirmed_at && (
-                    <span className="text-xs text-muted-foreground">
-                      {format(new Date(request.respective_supervisor_confirmed_at), 'dd MMM yyyy HH:mm')}
-                    </span>
-                  )}
-                </div>
-                <p className="text-sm pl-6">{request.respective_supervisor_remarks}</p>
-              </div>
-            )}
-
-            {request.respective_supervisor_denial_remarks && (
-              <div className="bg-muted/50 p-3 rounded-md space-y-1 border border-destructive/50">
-                <div className="flex items-center gap-2">
-                  <XCircle className="h-4 w-4 text-destructive" />
-                  <span className="font-medium text-sm">Respective Supervisor Denial</span>
-                  {request.respective_supervisor_denied_at && (
-                    <span className="text-xs text-muted-foreground">
-                      {format(new Date(request.respective_supervisor_denied_at), 'dd MMM yyyy HH:mm')}
-                    </span>
-                  )}
-                </div>
-                <p className="text-sm pl-6">{request.respective_supervisor_denial_remarks}</p>
-              </div>
-            )}
-
-            {request.supervisor_confirmation_remarks && (
-              <div className="bg-muted/50 p-3 rounded-md space-y-1">
-                <div className="flex items-center gap-2">
-                  <CheckCircle2 className="h-4 w-4 text-blue-600" />
-                  <span className="font-medium text-sm">Supervisor Confirmation</span>
-                  {request.supervisor_confirmation_at && (
-                    <span className="text-xs text-muted-foreground">
-                      {format(new Date(request.supervisor_confirmation_at), 'dd MMM yyyy HH:mm')}
-                    </span>
-                  )}
-                </div>
-                <p className="text-sm pl-6">{request.supervisor_confirmation_remarks}</p>
-              </div>
-            )}
-
-            {request.hr_remarks && (
-              <div className="bg-muted/50 p-3 rounded-md space-y-1">
-                <div className="flex items-center gap-2">
-                  <CheckCircle2 className="h-4 w-4 text-cyan-600" />
-                  <span className="font-medium text-sm">HR Certification</span>
-                  {request.hr_approved_at && (
-                    <span className="text-xs text-muted-foreground">
-                      {format(new Date(request.hr_approved_at), 'dd MMM yyyy HH:mm')}
-                    </span>
-                  )}
-                </div>
-                <p className="text-sm pl-6">{request.hr_remarks}</p>
-              </div>
-            )}
-
-            {request.management_remarks && (
-              <div className="bg-muted/50 p-3 rounded-md space-y-1">
-                <div className="flex items-center gap-2">
-                  <CheckCircle2 className="h-4 w-4 text-purple-600" />
-                  <span className="font-medium text-sm">Management Review</span>
-                  {request.management_reviewed_at && (
-                    <span className="text-xs text-muted-foreground">
-                      {format(new Date(request.management_reviewed_at), 'dd MMM yyyy HH:mm')}
-                    </span>
-                  )}
-                </div>
-                <p className="text-sm pl-6">{request.management_remarks}</p>
-              </div>
-            )}
-
-            {!request.supervisor_remarks && !request.respective_supervisor_remarks &&
-             !request.respective_supervisor_denial_remarks && !request.supervisor_confirmation_remarks &&
-             !request.hr_remarks && !request.management_remarks && (
-              <div className="text-sm text-muted-foreground italic">
-                No audit trail entries yet
-              </div>
-            )}
+            <OTRequestTimeline
+              requestIds={request.request_ids}
+              enabled={open}
+              sessionLabels={
+                request.sessions.length > 1
+                  ? Object.fromEntries(
+                      request.sessions.map((session) => [
+                        session.id,
+                        formatTimeRange(session.start_time, session.end_time),
+                      ])
+                    )
+                  : undefined
+              }
+            />
           </div>
 
           {/* Action Buttons Footer - For Approve/Reject */}
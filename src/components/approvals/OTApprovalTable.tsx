@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { format } from 'date-fns';
 import { CheckCircle, XCircle, CheckCheck } from 'lucide-react';
 import { Button } from '@/components/ui/button';
@@ -7,17 +7,24 @@ import { StatusBadge } from '@/components/StatusBadge';
 import { GroupedOTRequest } from '@/types/otms';
 import { formatTime12Hour, formatHours } from '@/lib/otCalculations';
 import { getStatusTooltip } from '@/lib/otStatusTooltip';
+import { formatWaitingTime, getSlaState } from '@/lib/approvalSla';
+import { useApprovalSlas } from '@/hooks/useApprovalSlas';
+import { getLimitViolations } from '@/lib/otLimits';
+import { useOTBudgetStatus } from '@/hooks/useOTBudgetStatus';
+import { findBudgetWarnings, formatBudgetWarning } from '@/lib/otBudget';
 import { OTApprovalDetailsSheet } from './OTApprovalDetailsSheet';
 import { RejectOTModal } from './RejectOTModal';
 import { Badge } from '@/components/ui/badge';
 
-type ApprovalRole = 'supervisor' | 'hr' | 'management';
+type ApprovalRole = 'supervisor' | 'department_head' | 'hr' | 'management';
 
 interface OTApprovalTableProps {
   requests: GroupedOTRequest[];
   isLoading: boolean;
   role: ApprovalRole;
   currentUserId?: string;
+  /** Supervisors the current user is covering for (out of office delegation) */
+  delegatorIds?: string[];
   approveRequest?: (requestIds: string[], remarks?: string) => Promise<void>;
   rejectRequest?: (requestIds: string[], remarks: string) => Promise<void>;
   confirmRequest?: (requestIds: string[], remarks?: string) => Promise<void>;
@@ -40,6 +47,7 @@ export function OTApprovalTable({
   isLoading,
   role,
   currentUserId,
+  delegatorIds = [],
   approveRequest,
   rejectRequest,
   confirmRequest,
@@ -60,6 +68,26 @@ export function OTApprovalTable({
   const [rejectingRequest, setRejectingRequest] = useState<{ request: GroupedOTRequest; sessionIds: string[] } | null>(null);
   const [confirmingRequest, setConfirmingRequest] = useState<GroupedOTRequest | null>(null);
   const [approvingRequestId, setApprovingRequestId] = useState<string | null>(null);
+  const { data: slas = [] } = useApprovalSlas();
+
+  // Budgets for the months the listed requests fall in
+  const [budgetFrom, budgetTo] = useMemo(() => {
+    const dates = requests.map((request) => request.ot_date).sort();
+    return [dates[0], dates[dates.length - 1]];
+  }, [requests]);
+  const { data: budgets = [] } = useOTBudgetStatus(budgetFrom, budgetTo);
+
+  const getBudgetWarnings = (request: GroupedOTRequest) =>
+    findBudgetWarnings(
+      {
+        ot_date: request.ot_date,
+        ot_amount: request.ot_amount,
+        status: request.status,
+        department_id: request.profiles?.department_id,
+        company_id: request.profiles?.company_id,
+      },
+      budgets
+    );
 
   // Auto-open request from parent component
   useEffect(() => {
@@ -132,9 +160,20 @@ export function OTApprovalTable({
     return role === 'supervisor' && request.status === 'pending_supervisor_verification' && request.respective_supervisor_id;
   };
 
-  // HR Certification (supervisor_confirmed or supervisor_verified → hr_certified)
+  // Department head approval, when the request's approval chain has the step
+  // (supervisor_confirmed, supervisor_verified or respective_supervisor_confirmed → department_head_approved)
+  const canDepartmentHeadApprove = (request: GroupedOTRequest) => {
+    return role === 'department_head' &&
+           !!request.approval_steps?.includes('department_head') &&
+           ['supervisor_confirmed', 'supervisor_verified', 'respective_supervisor_confirmed'].includes(request.status);
+  };
+
+  // HR Certification (supervisor_confirmed or supervisor_verified → hr_certified,
+  // or department_head_approved → hr_certified when the chain has a department head step)
   const canHRCertify = (request: GroupedOTRequest) => {
-    return role === 'hr' && (request.status === 'supervisor_confirmed' || request.status === 'supervisor_verified');
+    if (role !== 'hr') return false;
+    if (request.approval_steps?.includes('department_head')) return request.status === 'department_head_approved';
+    return request.status === 'supervisor_confirmed' || request.status === 'supervisor_verified';
   };
 
   // HR Rejection (hr_certified → pending_verification or pending_respective_supervisor_confirmation)
@@ -164,12 +203,30 @@ export function OTApprovalTable({
       return false;
     }
     if (role === 'supervisor') return canApproveSupervisor(request) || canVerifySupervisor(request);
+    if (role === 'department_head') return canDepartmentHeadApprove(request);
     if (role === 'hr') return canHRCertify(request) || canHRReject(request);
     if (role === 'management') return canManagementApprove(request) || canManagementReject(request);
     return false;
   };
 
   // Helper to format approval history
+  // Name of the absent supervisor whose request a delegate is handling
+  const getCoveringFor = (request: GroupedOTRequest): string | null => {
+    if (role !== 'supervisor' || delegatorIds.length === 0) return null;
+    const req = request as GroupedOTRequest & {
+      supervisor?: { full_name: string } | null;
+      respective_supervisor?: { full_name: string } | null;
+    };
+    if (req.respective_supervisor_id && req.respective_supervisor_id !== currentUserId &&
+        delegatorIds.includes(req.respective_supervisor_id) && req.status === 'pending_respective_supervisor_confirmation') {
+      return req.respective_supervisor?.full_name || 'Unknown';
+    }
+    if (req.supervisor_id !== currentUserId && delegatorIds.includes(req.supervisor_id)) {
+      return req.supervisor?.full_name || 'Unknown';
+    }
+    return null;
+  };
+
   const renderApprovalHistory = (request: GroupedOTRequest) => {
     const steps: { stage: string; timestamp: string | null; remarks: string | null; approver: string | null }[] = [];
     const req = request as any;
@@ -202,6 +259,16 @@ export function OTApprovalTable({
       });
     }
 
+    // Department head approval
+    if (req.department_head_approved_at) {
+      steps.push({
+        stage: 'Dept. Head Approved',
+        timestamp: req.department_head_approved_at,
+        remarks: req.department_head_remarks,
+        approver: 'Department Head'
+      });
+    }
+
     // HR certification
     if (req.hr_approved_at) {
       steps.push({
@@ -288,6 +355,8 @@ export function OTApprovalTable({
               const profile = (request as any).profiles;
               const isPendingSupervisorVerification = request.status === 'pending_supervisor_verification';
               const isPendingRespectiveSupervisorConfirmation = request.status === 'pending_respective_supervisor_confirmation';
+              const slaState = getSlaState(request, slas);
+              const budgetWarnings = getBudgetWarnings(request);
               return (
                 <TableRow
                   key={request.id}
@@ -312,6 +381,11 @@ export function OTApprovalTable({
                     >
                       {profile?.full_name || 'N/A'}
                     </div>
+                    {getCoveringFor(request) && (
+                      <div className="text-xs text-muted-foreground">
+                        Covering for {getCoveringFor(request)}
+                      </div>
+                    )}
                   </TableCell>
                   <TableCell>
                     <div className="text-sm text-muted-foreground">
@@ -347,12 +421,28 @@ export function OTApprovalTable({
                         rejectionStage={request.rejection_stage}
                         tooltip={getStatusTooltip(request)}
                       />
-                      {request.threshold_violations && Object.keys(request.threshold_violations).length > 0 && (
+                      {getLimitViolations(request.threshold_violations).length > 0 && (
                         <Badge variant="destructive" className="text-xs">
                           Violation
                         </Badge>
                       )}
+                      {slaState?.overdue && (
+                        <Badge
+                          variant="destructive"
+                          className="text-xs"
+                          title={`Waiting ${formatWaitingTime(slaState.hoursWaiting)} (SLA ${slaState.slaHours} hours)`}
+                        >
+                          Overdue
+                        </Badge>
+                      )}
                     </div>
+                    {budgetWarnings.length > 0 && (
+                      <div className="mt-1 space-y-0.5 text-xs text-amber-700">
+                        {budgetWarnings.map((warning) => (
+                          <div key={warning.budget.budget_id}>Over budget if approved · {formatBudgetWarning(warning)}</div>
+                        ))}
+                      </div>
+                    )}
                   </TableCell>
                   {showApprovalHistory && (
                     <TableCell>
@@ -427,6 +517,7 @@ export function OTApprovalTable({
         onOpenChange={(open) => !open && setSelectedRequest(null)}
         role={role}
         currentUserId={currentUserId}
+        delegatorIds={delegatorIds}
         onApprove={approveRequest ? handleApprove : undefined}
         onReject={rejectRequest ? handleReject : undefined}
         onConfirm={confirmRequest ? handleConfirmSubmit : undefined}
@@ -0,0 +1,76 @@
+import { useMemo } from 'react';
+import { Fingerprint, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { useAttendancePunches } from '@/hooks/useAttendancePunches';
+import { PUNCH_DISCREPANCY_TOLERANCE_MINUTES, getUnpunchedMinutes, pairPunches } from '@/lib/attendance';
+import { formatTimeRange } from '@/lib/otCalculations';
+
+interface PunchComparisonProps {
+  employeeId: string;
+  otDate: string;
+  sessions: Array<{ id: string; start_time: string; end_time: string }>;
+}
+
+const formatPunchedAt = (punchedAt: string, otDate: string) => {
+  const time = punchedAt.slice(11, 16);
+  const date = punchedAt.slice(0, 10);
+  if (date === otDate) return time;
+  return `${time} (${date < otDate ? 'previous day' : 'next day'})`;
+};
+
+/** Claimed sessions against the employee's attendance punches, flagging time that was not punched */
+export function PunchComparison({ employeeId, otDate, sessions }: PunchComparisonProps) {
+  const { data: punches = [], isLoading } = useAttendancePunches({ employeeId, otDate });
+
+  const intervals = useMemo(() => pairPunches(punches), [punches]);
+  const relevantIntervals = intervals.filter(
+    (interval) => interval.start.slice(0, 10) <= otDate && interval.end.slice(0, 10) >= otDate
+  );
+
+  if (isLoading) return null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <Fingerprint className="h-4 w-4 text-muted-foreground" />
+        Claimed vs. Punched
+      </div>
+      <div className="ml-6 space-y-2 text-sm">
+        {punches.length === 0 ? (
+          <p className="text-muted-foreground">No attendance punches imported for this day.</p>
+        ) : (
+          <>
+            <div>
+              <span className="text-muted-foreground">Punched: </span>
+              {relevantIntervals.length === 0
+                ? 'No complete clock-in/clock-out on this day'
+                : relevantIntervals
+                    .map((interval) => `${formatPunchedAt(interval.start, otDate)} – ${formatPunchedAt(interval.end, otDate)}`)
+                    .join(', ')}
+            </div>
+            {sessions.map((session) => {
+              const unpunched = getUnpunchedMinutes({ ot_date: otDate, ...session }, intervals);
+              const flagged = unpunched > PUNCH_DISCREPANCY_TOLERANCE_MINUTES;
+              return (
+                <div key={session.id} className="flex items-center justify-between">
+                  <span>{formatTimeRange(session.start_time, session.end_time)}</span>
+                  {flagged ? (
+                    <Badge variant="destructive" className="gap-1">
+                      <AlertTriangle className="h-3 w-3" />
+                      {unpunched} min not punched
+                    </Badge>
+                  ) : (
+                    <Badge variant="outline" className="gap-1">
+                      <CheckCircle2 className="h-3 w-3" />
+                      Matches punches
+                    </Badge>
+                  )}
+                </div>
+              );
+            })}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { format, parseISO } from 'date-fns';
+import { CloudOff, RefreshCw, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  useDiscardQueuedOTDecision,
+  useRetryQueuedOTDecision,
+} from '@/hooks/useQueuedOTDecisions';
+import { DECISION_ACTION_LABELS } from '@/lib/offlineApprovals';
+import { QueuedOTDecision, QueuedOTDecisionStatus } from '@/types/otms';
+
+const STATUS_BADGES: Record<QueuedOTDecisionStatus, { label: string; className: string }> = {
+  pending: { label: 'Pending sync', className: 'bg-amber-100 text-amber-800 border-amber-200' },
+  syncing: { label: 'Syncing', className: 'bg-blue-100 text-blue-800 border-blue-200' },
+  stale: { label: 'Changed since', className: 'bg-destructive/10 text-destructive border-destructive/20' },
+  failed: { label: 'Not applied', className: 'bg-destructive/10 text-destructive border-destructive/20' },
+};
+
+interface QueuedOTDecisionsCardProps {
+  approverId: string | undefined;
+  decisions: QueuedOTDecision[];
+}
+
+/** Decisions made offline and still on this device, with any the server refused */
+export function QueuedOTDecisionsCard({ approverId, decisions }: QueuedOTDecisionsCardProps) {
+  const retryDecision = useRetryQueuedOTDecision();
+  const discardDecision = useDiscardQueuedOTDecision();
+
+  if (!approverId || decisions.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <CloudOff className="h-5 w-5" />
+          Decisions Waiting to Sync
+        </CardTitle>
+        <CardDescription>
+          Made while offline and saved on this device. They are sent in order when you are back online. A decision is
+          not applied if the request changed in the meantime; dismiss it and review the request again.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {decisions.map((decision) => {
+          const badge = STATUS_BADGES[decision.status];
+          const refused = decision.status === 'stale' || decision.status === 'failed';
+
+          return (
+            <div key={decision.id} className="flex flex-wrap items-start justify-between gap-3 rounded-lg border p-3">
+              <div className="space-y-1 text-sm">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{decision.ticket_number}</span>
+                  <Badge variant="outline" className={badge.className}>
+                    {badge.label}
+                  </Badge>
+                </div>
+                <div className="text-muted-foreground">
+                  {DECISION_ACTION_LABELS[decision.action]} · {decision.employee_name || 'Unknown employee'} ·{' '}
+                  {format(parseISO(decision.ot_date), 'dd MMM yyyy')}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  Decided {format(new Date(decision.queued_at), 'dd MMM, HH:mm')}
+                  {decision.remarks && ` · "${decision.remarks}"`}
+                </div>
+                {decision.error && <p className="text-xs font-medium text-destructive">{decision.error}</p>}
+              </div>
+              <div className="flex gap-2">
+                {decision.status !== 'stale' && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => retryDecision.mutate({ id: decision.id, approverId })}
+                    disabled={retryDecision.isPending || decision.status === 'syncing'}
+                  >
+                    <RefreshCw className="h-4 w-4 mr-1" />
+                    {decision.status === 'pending' ? 'Sync Now' : 'Retry'}
+                  </Button>
+                )}
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  aria-label={refused ? 'Dismiss decision' : 'Discard queued decision'}
+                  onClick={() => discardDecision.mutate(decision.id)}
+                  disabled={discardDecision.isPending || decision.status === 'syncing'}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -13,6 +13,8 @@ import {
 import { EventBlock } from "./EventBlock";
 import { HolidayItem } from "@/hooks/useHolidayCalendarView";
 import { EventTypeFilters } from "./EventTypeFilter";
+import { formatRosterShift } from "@/lib/shiftRoster";
+import { RosterDay } from "@/types/otms";
 
 interface MonthlyGridViewProps {
   selectedDate: Date;
@@ -20,6 +22,8 @@ interface MonthlyGridViewProps {
   filters: EventTypeFilters;
   onDateClick: (date: Date) => void;
   onEventClick: (holiday: HolidayItem, date: Date) => void;
+  /** The viewer's rostered days, shown under each date */
+  roster?: RosterDay[];
 }
 
 export function MonthlyGridView({
@@ -28,6 +32,7 @@ export function MonthlyGridView({
   filters,
   onDateClick,
   onEventClick,
+  roster = [],
 }: MonthlyGridViewProps) {
   // Get the start and end of the month
   const monthStart = startOfMonth(selectedDate);
@@ -86,6 +91,7 @@ export function MonthlyGridView({
             const isCurrentMonth = isSameMonth(day, selectedDate);
             const isTodayDate = isToday(day);
             const dayHolidays = getHolidaysForDay(day);
+            const rosterDay = roster.find((entry) => entry.roster_date === format(day, "yyyy-MM-dd"));
 
             return (
               <button
@@ -115,6 +121,16 @@ export function MonthlyGridView({
                   {format(day, "d")}
                 </div>
 
+                {rosterDay && (
+                  <div
+                    className={`mb-1 truncate text-[10px] font-medium ${
+                      rosterDay.day_kind === "work" ? "text-primary" : "text-muted-foreground"
+                    }`}
+                  >
+                    {formatRosterShift(rosterDay)}
+                  </div>
+                )}
+
                 {/* Holiday events */}
                 <div className="flex-1 space-y-0.5 overflow-hidden flex flex-col">
                   {dayHolidays.slice(0, 2).map((holiday) => (
@@ -3,6 +3,8 @@ import { useState, useEffect } from "react";
 import { EventBlock } from "./EventBlock";
 import { HolidayItem } from "@/hooks/useHolidayCalendarView";
 import { EventTypeFilters } from "./EventTypeFilter";
+import { ROSTER_DAY_KIND_LABELS, getShiftRangesForDate } from "@/lib/shiftRoster";
+import { RosterDay } from "@/types/otms";
 
 const useIsMobile = () => {
   const [isMobile, setIsMobile] = useState(false);
@@ -23,6 +25,8 @@ interface TimeGridViewProps {
   onEventClick: (holiday: HolidayItem, date: Date) => void;
   startHour?: number;
   endHour?: number;
+  /** The viewer's rostered days; their shift hours are shaded */
+  roster?: RosterDay[];
 }
 
 export function TimeGridView({
@@ -33,6 +37,7 @@ export function TimeGridView({
   onEventClick,
   startHour = 8,
   endHour = 19,
+  roster = [],
 }: TimeGridViewProps) {
   const isMobile = useIsMobile();
 
@@ -62,7 +67,17 @@ export function TimeGridView({
     );
   };
 
-  const hours = Array.from({ length: endHour - startHour }, (_, i) => startHour + i);
+  const getRosterDay = (day: Date): RosterDay | undefined =>
+    roster.find((rosterDay) => rosterDay.roster_date === format(day, "yyyy-MM-dd"));
+
+  const getShiftRanges = (day: Date) => getShiftRangesForDate(format(day, "yyyy-MM-dd"), roster);
+
+  // Widen the grid so night and early shifts are visible
+  const shiftRanges = days.flatMap(getShiftRanges);
+  const firstHour = Math.min(startHour, ...shiftRanges.map((range) => Math.floor(range.start)));
+  const lastHour = Math.max(endHour, ...shiftRanges.map((range) => Math.ceil(range.end)));
+
+  const hours = Array.from({ length: lastHour - firstHour }, (_, i) => firstHour + i);
 
   return (
     <div className="flex-1 overflow-hidden flex flex-col bg-background">
@@ -80,6 +95,11 @@ export function TimeGridView({
             <div className={`font-bold leading-tight ${isSameDay(day, new Date()) ? "text-primary" : "text-foreground"} ${isMobile ? "text-base sm:text-sm" : "text-sm"}`}>
               {format(day, "d")}
             </div>
+            {getRosterDay(day) && (
+              <div className={`text-primary font-medium truncate ${isMobile ? "text-[7px]" : "text-[9px]"}`}>
+                {getRosterDay(day).shift_name ?? ROSTER_DAY_KIND_LABELS[getRosterDay(day).day_kind]}
+              </div>
+            )}
             {getHolidaysForDay(day).length > 0 && (
               <div className={`text-orange-600 dark:text-orange-400 font-medium ${isMobile ? "text-[7px]" : "text-[9px]"}`}>
                 {isMobile ? getHolidaysForDay(day).length : `${getHolidaysForDay(day).length} holiday`}
@@ -118,7 +138,9 @@ export function TimeGridView({
               {hours.map((hour) => (
                 <div
                   key={`${day.toISOString()}-${hour}`}
-                  className={`flex-1 border-b border-border/50 hover:bg-primary/5 transition-colors relative ${isMobile ? "min-h-[50px]" : ""}`}
+                  className={`flex-1 border-b border-border/50 hover:bg-primary/5 transition-colors relative ${isMobile ? "min-h-[50px]" : ""} ${
+                    getShiftRanges(day).some((range) => range.start < hour + 1 && range.end > hour) ? "bg-primary/10" : ""
+                  }`}
                 >
                   {/* Holiday block if exists */}
                   {getHolidaysForDay(day).length > 0 && hour === hours[0] && (
@@ -0,0 +1,75 @@
+import { format, parseISO } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { useAttendanceImportBatches } from '@/hooks/hr/useAttendanceImportBatches';
+
+export function AttendanceImportBatches() {
+  const { data: batches = [], isLoading } = useAttendanceImportBatches();
+
+  if (isLoading) {
+    return <Skeleton className="h-48 w-full" />;
+  }
+
+  if (batches.length === 0) {
+    return (
+      <p className="py-8 text-center text-sm text-muted-foreground">
+        No attendance has been imported yet.
+      </p>
+    );
+  }
+
+  return (
+    <TooltipProvider>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Imported</TableHead>
+            <TableHead>File</TableHead>
+            <TableHead>Imported By</TableHead>
+            <TableHead className="text-right">Punches</TableHead>
+            <TableHead className="text-right">Duplicates</TableHead>
+            <TableHead className="text-right">OT Drafts</TableHead>
+            <TableHead>Skipped Rows</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {batches.map((batch) => (
+            <TableRow key={batch.id}>
+              <TableCell>{format(parseISO(batch.created_at), 'dd MMM yyyy, HH:mm')}</TableCell>
+              <TableCell className="font-medium">
+                {batch.file_name}
+                <Badge variant="outline" className="ml-2 uppercase">
+                  {batch.format}
+                </Badge>
+              </TableCell>
+              <TableCell>{batch.profiles?.full_name ?? '—'}</TableCell>
+              <TableCell className="text-right">{batch.punch_count}</TableCell>
+              <TableCell className="text-right">{batch.duplicate_count}</TableCell>
+              <TableCell className="text-right">{batch.draft_count}</TableCell>
+              <TableCell>
+                {batch.errors.length === 0 ? (
+                  <span className="text-muted-foreground">None</span>
+                ) : (
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Badge variant="destructive">{batch.errors.length}</Badge>
+                    </TooltipTrigger>
+                    <TooltipContent className="max-w-sm">
+                      {batch.errors.slice(0, 10).map((error) => (
+                        <div key={`${error.row}-${error.error}`}>
+                          Row {error.row}: {error.error}
+                        </div>
+                      ))}
+                    </TooltipContent>
+                  </Tooltip>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </TooltipProvider>
+  );
+}
@@ -0,0 +1,124 @@
+import { useEffect, useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useImportAttendance } from '@/hooks/hr/useImportAttendance';
+import { AttendanceFileFormat, PunchParseResult, parsePunchFile } from '@/lib/attendance';
+
+interface AttendanceImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/** Errors shown before the rest are summarised as a count */
+const ERROR_PREVIEW_LIMIT = 5;
+
+export function AttendanceImportDialog({ open, onOpenChange }: AttendanceImportDialogProps) {
+  const [file, setFile] = useState<{ name: string; format: AttendanceFileFormat } | null>(null);
+  const [parsed, setParsed] = useState<PunchParseResult | null>(null);
+  const importAttendance = useImportAttendance();
+
+  useEffect(() => {
+    if (!open) {
+      setFile(null);
+      setParsed(null);
+    }
+  }, [open]);
+
+  const handleFileChange = async (selected: File | undefined) => {
+    if (!selected) return;
+    const fileFormat: AttendanceFileFormat = selected.name.toLowerCase().endsWith('.json') ? 'json' : 'csv';
+    setFile({ name: selected.name, format: fileFormat });
+    setParsed(parsePunchFile(await selected.text(), fileFormat));
+  };
+
+  const summary = useMemo(() => {
+    if (!parsed || parsed.punches.length === 0) return null;
+    const dates = parsed.punches.map((punch) => punch.punched_at.slice(0, 10)).sort();
+    return {
+      employees: new Set(parsed.punches.map((punch) => punch.employee_no)).size,
+      from: format(parseISO(dates[0]), 'dd MMM yyyy'),
+      to: format(parseISO(dates[dates.length - 1]), 'dd MMM yyyy'),
+    };
+  }, [parsed]);
+
+  const handleImport = () => {
+    if (!file || !parsed) return;
+    importAttendance.mutate(
+      { fileName: file.name, format: file.format, parsed },
+      { onSuccess: () => onOpenChange(false) }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Import Attendance</DialogTitle>
+          <DialogDescription>
+            Upload a CSV or JSON punch export from the biometric terminals. Time punched beyond the scheduled shift
+            becomes OT drafts for employees to justify.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="attendance-file">Punch Export *</Label>
+            <Input
+              id="attendance-file"
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              onChange={(e) => handleFileChange(e.target.files?.[0])}
+            />
+          </div>
+
+          {summary && (
+            <div className="rounded-lg border p-3 text-sm space-y-1">
+              <div className="font-medium">
+                {parsed.punches.length} punches for {summary.employees} employees
+              </div>
+              <div className="text-muted-foreground">
+                {summary.from} – {summary.to}
+              </div>
+            </div>
+          )}
+
+          {parsed && parsed.errors.length > 0 && (
+            <Alert variant={parsed.punches.length === 0 ? 'destructive' : 'default'}>
+              <AlertDescription>
+                <ul className="space-y-1 text-sm">
+                  {parsed.errors.slice(0, ERROR_PREVIEW_LIMIT).map((error) => (
+                    <li key={`${error.row}-${error.error}`}>
+                      Row {error.row}: {error.error}
+                    </li>
+                  ))}
+                </ul>
+                {parsed.errors.length > ERROR_PREVIEW_LIMIT && (
+                  <p className="mt-1 text-sm">
+                    and {parsed.errors.length - ERROR_PREVIEW_LIMIT} more rows that will be skipped
+                  </p>
+                )}
+              </AlertDescription>
+            </Alert>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            className="bg-[#5F26B4] hover:bg-[#5F26B4]/90"
+            onClick={handleImport}
+            disabled={!parsed || parsed.punches.length === 0 || importAttendance.isPending}
+          >
+            {importAttendance.isPending ? 'Importing...' : 'Import'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
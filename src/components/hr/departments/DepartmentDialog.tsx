@@ -20,8 +20,12 @@ import {
 } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useCreateDepartment } from '@/hooks/hr/useCreateDepartment';
 import { useUpdateDepartment } from '@/hooks/hr/useUpdateDepartment';
+import { useEmployees } from '@/hooks/hr/useEmployees';
+
+const NO_HEAD = 'none';
 
 const departmentSchema = z.object({
   code: z
@@ -35,6 +39,7 @@ const departmentSchema = z.object({
     .min(2, 'Name must be at least 2 characters')
     .max(100, 'Name must not exceed 100 characters')
     .trim(),
+  head_id: z.string(),
 });
 
 type DepartmentFormValues = z.infer<typeof departmentSchema>;
@@ -46,18 +51,21 @@ interface DepartmentDialogProps {
     id: string;
     code: string;
     name: string;
+    head_id?: string | null;
   } | null;
 }
 
 export function DepartmentDialog({ open, onOpenChange, department }: DepartmentDialogProps) {
   const createDepartment = useCreateDepartment();
   const updateDepartment = useUpdateDepartment();
+  const { data: employees = [] } = useEmployees();
 
   const form = useForm<DepartmentFormValues>({
     resolver: zodResolver(departmentSchema),
     defaultValues: {
       code: department?.code || '',
       name: department?.name || '',
+      head_id: department?.head_id || NO_HEAD,
     },
   });
 
@@ -66,26 +74,32 @@ export function DepartmentDialog({ open, onOpenChange, department }: DepartmentD
       form.reset({
         code: department.code,
         name: department.name,
+        head_id: department.head_id || NO_HEAD,
       });
     } else if (open && !department) {
       form.reset({
         code: '',
         name: '',
+        head_id: NO_HEAD,
       });
     }
   }, [department, open, form]);
 
   const onSubmit = async (data: DepartmentFormValues) => {
+    const headId = data.head_id === NO_HEAD ? null : data.head_id;
+
     if (department) {
       await updateDepartment.mutateAsync({
         id: department.id,
         code: data.code,
         name: data.name,
+        head_id: headId,
       });
     } else {
       await createDepartment.mutateAsync({
         code: data.code,
         name: data.name,
+        head_id: headId,
       });
     }
     onOpenChange(false);
@@ -146,6 +160,32 @@ export function DepartmentDialog({ open, onOpenChange, department }: DepartmentD
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="head_id"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Department Head</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="No department head" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={NO_HEAD}>No department head</SelectItem>
+                      {employees.map((employee) => (
+                        <SelectItem key={employee.id} value={employee.id}>
+                          {employee.full_name} ({employee.employee_id})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <DialogFooter>
               <Button type="button" variant="outline" onClick={handleClose}>
                 Cancel
@@ -0,0 +1,146 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Building2, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useCompanies } from '@/hooks/hr/useCompanies';
+import { useCompanyRoles, useSetCompanyRoles } from '@/hooks/hr/useCompanyRoles';
+import { useActiveCompany } from '@/hooks/useActiveCompany';
+import { useAuth } from '@/hooks/useAuth';
+import { AppRole } from '@/types/otms';
+
+const COMPANY_ROLES: { value: AppRole; label: string }[] = [
+  { value: 'employee', label: 'Employee' },
+  { value: 'supervisor', label: 'Supervisor' },
+  { value: 'hr', label: 'HR' },
+  { value: 'management', label: 'Management' },
+];
+
+interface CompanyRolesEditorProps {
+  userId: string;
+  /** The employee's own company, whose roles also show as their main roles */
+  homeCompanyId: string | null;
+}
+
+/** An employee's roles in each legal entity, editable by HR of that entity */
+export function CompanyRolesEditor({ userId, homeCompanyId }: CompanyRolesEditorProps) {
+  const { hasRole } = useAuth();
+  const { companies: myCompanies } = useActiveCompany();
+  const { data: companies = [] } = useCompanies();
+  const { data: companyRoles = [], isLoading } = useCompanyRoles(userId);
+  const setCompanyRoles = useSetCompanyRoles();
+
+  const savedRoles = useMemo(() => {
+    const byCompany = new Map<string, AppRole[]>();
+    companyRoles.forEach((row) => {
+      byCompany.set(row.company_id, [...(byCompany.get(row.company_id) || []), row.role]);
+    });
+    return byCompany;
+  }, [companyRoles]);
+
+  const [draftRoles, setDraftRoles] = useState<Map<string, AppRole[]>>(new Map());
+  const [addedCompanyIds, setAddedCompanyIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    setDraftRoles(new Map(savedRoles));
+    setAddedCompanyIds([]);
+  }, [savedRoles]);
+
+  const isAdmin = hasRole('admin');
+  const canManage = (companyId: string) =>
+    isAdmin || myCompanies.some((c) => c.id === companyId && c.roles.includes('hr'));
+
+  const shownCompanyIds = Array.from(
+    new Set([...(homeCompanyId ? [homeCompanyId] : []), ...savedRoles.keys(), ...addedCompanyIds])
+  );
+  const addableCompanies = companies.filter((c) => !shownCompanyIds.includes(c.id) && canManage(c.id));
+
+  const toggleRole = (companyId: string, role: AppRole) => {
+    setDraftRoles((prev) => {
+      const next = new Map(prev);
+      const current = next.get(companyId) || [];
+      next.set(companyId, current.includes(role) ? current.filter((r) => r !== role) : [...current, role]);
+      return next;
+    });
+  };
+
+  const isChanged = (companyId: string) => {
+    const saved = savedRoles.get(companyId) || [];
+    const draft = draftRoles.get(companyId) || [];
+    return saved.length !== draft.length || draft.some((role) => !saved.includes(role));
+  };
+
+  if (isLoading) {
+    return <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />;
+  }
+
+  return (
+    <div className="space-y-3">
+      {shownCompanyIds.map((companyId) => {
+        const company = companies.find((c) => c.id === companyId);
+        const editable = canManage(companyId);
+        const roles = draftRoles.get(companyId) || [];
+
+        return (
+          <div key={companyId} className="rounded-lg border p-3 space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2 text-sm font-medium">
+                <Building2 className="h-4 w-4 text-muted-foreground" />
+                {company?.name || 'Unknown company'}
+                {companyId === homeCompanyId && (
+                  <span className="text-xs font-normal text-muted-foreground">(own company)</span>
+                )}
+              </div>
+              {editable && isChanged(companyId) && (
+                <Button
+                  size="sm"
+                  onClick={() => setCompanyRoles.mutate({ userId, companyId, roles })}
+                  disabled={setCompanyRoles.isPending}
+                >
+                  Save
+                </Button>
+              )}
+            </div>
+            <div className="flex flex-wrap gap-4">
+              {COMPANY_ROLES.map((role) => (
+                <div key={role.value} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`${companyId}-${role.value}`}
+                    checked={roles.includes(role.value)}
+                    onCheckedChange={() => toggleRole(companyId, role.value)}
+                    disabled={!editable}
+                  />
+                  <Label htmlFor={`${companyId}-${role.value}`} className="text-sm font-normal">
+                    {role.label}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+
+      {addableCompanies.length > 0 && (
+        <Select value="" onValueChange={(companyId) => setAddedCompanyIds((prev) => [...prev, companyId])}>
+          <SelectTrigger className="w-64">
+            <SelectValue placeholder="Add roles in another company" />
+          </SelectTrigger>
+          <SelectContent>
+            {addableCompanies.map((company) => (
+              <SelectItem key={company.id} value={company.id}>
+                {company.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  );
+}
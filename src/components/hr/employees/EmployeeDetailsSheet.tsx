@@ -28,6 +28,7 @@ import { Profile, AppRole } from '@/types/otms';
 import { useUpdateEmployee } from '@/hooks/hr/useUpdateEmployee';
 import { useDepartments } from '@/hooks/hr/useDepartments';
 import { useEmployees } from '@/hooks/hr/useEmployees';
+import { getReportIds } from '@/lib/orgChart';
 import { usePositions } from '@/hooks/hr/usePositions';
 import { useCompanies } from '@/hooks/hr/useCompanies';
 import { useCompanyLocations } from '@/hooks/hr/useCompanyLocations';
@@ -36,6 +37,8 @@ import { useAuth } from '@/hooks/useAuth';
 import { formatCurrency } from '@/lib/otCalculations';
 import { KeyRound, AlertTriangle, Copy, Check } from 'lucide-react';
 import { RoleSelector } from '@/components/RoleSelector';
+import { CompanyRolesEditor } from './CompanyRolesEditor';
+import { EmploymentHistoryPanel } from './EmploymentHistoryPanel';
 import { StateSelector } from '@/components/hr/StateSelector';
 
 interface EmployeeDetailsSheetProps {
@@ -95,6 +98,8 @@ export function EmployeeDetailsSheet({
 
   if (!employee) return null;
 
+  const reportIds = getReportIds(employees, employee.id);
+
   const handleSave = () => {
     // Validate supervisor_id is required for non-admin/management roles
     if (supervisorRequired && !formData.supervisor_id) {
@@ -511,6 +516,8 @@ export function EmployeeDetailsSheet({
                     <SelectContent>
                       {employees
                         .filter(emp => emp.user_roles?.some(r => ['supervisor', 'hr', 'admin'].includes(r.role)))
+                        // Neither themselves nor anyone below them, which would make a loop
+                        .filter(emp => emp.id !== employee.id && !reportIds.has(emp.id))
                         .map((emp) => (
                           <SelectItem key={emp.id} value={emp.id}>
                             {emp.full_name}
@@ -583,6 +590,15 @@ export function EmployeeDetailsSheet({
               )}
             </div>
 
+            {/* Roles per company (Full Width) */}
+            <div className="grid gap-2 col-span-2">
+              <Label>Roles by Company</Label>
+              <CompanyRolesEditor userId={employee.id} homeCompanyId={employee.company_id} />
+            </div>
+
+            {/* Salary, department and location changes with the dates they take effect */}
+            {!isEditing && <EmploymentHistoryPanel employee={employee} />}
+
             {/* Row 10: OT Eligible (Full Width) */}
             <div className="grid gap-2 col-span-2">
               <Label htmlFor="is_ot_eligible">OT Eligible</Label>
@@ -0,0 +1,448 @@
+import { useEffect, useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { AlertTriangle, CheckCircle2, Loader2, XCircle } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useCompanyLocations } from '@/hooks/hr/useCompanyLocations';
+import { useDepartments } from '@/hooks/hr/useDepartments';
+import {
+  useCancelEmployeeImport,
+  useCreateEmployeeImport,
+  useEmployeeImportIssues,
+  useEmployeeImportJobs,
+  useRunEmployeeImport,
+} from '@/hooks/hr/useEmployeeImport';
+import { useEmployees } from '@/hooks/hr/useEmployees';
+import { usePositions } from '@/hooks/hr/usePositions';
+import {
+  EMPLOYEE_IMPORT_FIELDS,
+  EmployeeImportMapping,
+  EmployeeImportPreview,
+  getUnmappedRequiredFields,
+  guessEmployeeColumnMapping,
+  validateEmployeeImport,
+} from '@/lib/employeeImport';
+import { parseCsvTable, readXlsxTable, SpreadsheetTable } from '@/lib/spreadsheet';
+import { EmployeeImportJob, EmployeeImportProgress } from '@/types/otms';
+
+interface EmployeeImportWizardProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type WizardStep = 'upload' | 'mapping' | 'preview' | 'import';
+
+const STEP_TITLES: Record<WizardStep, string> = {
+  upload: 'Upload',
+  mapping: 'Match Columns',
+  preview: 'Check Rows',
+  import: 'Import',
+};
+
+const NOT_MAPPED = 'none';
+
+const progressOf = (job: EmployeeImportJob): EmployeeImportProgress => ({
+  job_id: job.id,
+  status: job.status,
+  total: job.total_rows,
+  imported: job.imported_count,
+  failed: job.failed_count,
+  pending: job.total_rows - job.imported_count - job.failed_count,
+});
+
+/**
+ * Onboards many employees from a CSV or Excel sheet: upload, match columns to
+ * profile fields, check every row, then import the valid rows in batches.
+ */
+export function EmployeeImportWizard({ open, onOpenChange }: EmployeeImportWizardProps) {
+  const [step, setStep] = useState<WizardStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [table, setTable] = useState<SpreadsheetTable | null>(null);
+  const [readError, setReadError] = useState<string | null>(null);
+  const [mapping, setMapping] = useState<EmployeeImportMapping>({});
+  const [sendInvites, setSendInvites] = useState(true);
+  const [progress, setProgress] = useState<EmployeeImportProgress | null>(null);
+
+  const { data: employees = [] } = useEmployees();
+  const { data: departments = [] } = useDepartments();
+  const { data: positions = [] } = usePositions();
+  const { data: locations = [] } = useCompanyLocations();
+  const { data: jobs = [] } = useEmployeeImportJobs();
+  const { data: issues = [] } = useEmployeeImportIssues(step === 'import' ? progress?.job_id : undefined);
+  const createImport = useCreateEmployeeImport();
+  const runImport = useRunEmployeeImport();
+  const cancelImport = useCancelEmployeeImport();
+
+  useEffect(() => {
+    if (!open) {
+      setStep('upload');
+      setFileName('');
+      setTable(null);
+      setReadError(null);
+      setMapping({});
+      setSendInvites(true);
+      setProgress(null);
+    }
+  }, [open]);
+
+  const unfinishedJobs = jobs.filter((job) => job.status === 'pending' || job.status === 'running');
+  const unmappedRequired = getUnmappedRequiredFields(mapping);
+
+  const preview: EmployeeImportPreview | null = useMemo(() => {
+    if (!table || step === 'upload' || step === 'mapping') return null;
+    return validateEmployeeImport(table, mapping, {
+      employees: employees.map((employee) => ({
+        id: employee.id,
+        employee_id: employee.employee_id,
+        email: employee.email,
+        roles: employee.user_roles?.map((r) => r.role),
+      })),
+      departments,
+      positions,
+      locations,
+    });
+  }, [table, mapping, step, employees, departments, positions, locations]);
+
+  const handleFileChange = async (selected: File | undefined) => {
+    if (!selected) return;
+    setReadError(null);
+    try {
+      const parsed = selected.name.toLowerCase().endsWith('.xlsx')
+        ? await readXlsxTable(await selected.arrayBuffer())
+        : parseCsvTable(await selected.text());
+      if (parsed.rows.length === 0) {
+        throw new Error('The file has a header but no employees');
+      }
+      setFileName(selected.name);
+      setTable(parsed);
+      setMapping(guessEmployeeColumnMapping(parsed.headers));
+    } catch (error) {
+      setTable(null);
+      setReadError(error instanceof Error ? error.message : 'The file could not be read');
+    }
+  };
+
+  const run = (jobId: string) => {
+    runImport.mutate({ jobId, onProgress: setProgress });
+  };
+
+  const handleStart = () => {
+    if (!preview) return;
+    createImport.mutate(
+      { fileName, preview, sendInvites },
+      {
+        onSuccess: (job) => {
+          setProgress(progressOf(job));
+          setStep('import');
+          run(job.id);
+        },
+      }
+    );
+  };
+
+  const handleResume = (job: EmployeeImportJob) => {
+    setFileName(job.file_name);
+    setProgress(progressOf(job));
+    setStep('import');
+    run(job.id);
+  };
+
+  const isRunning = runImport.isPending;
+  const isFinished = progress?.status === 'completed' || progress?.status === 'cancelled';
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isRunning && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Import Employees · {STEP_TITLES[step]}</DialogTitle>
+          <DialogDescription>
+            Onboard staff from a CSV or Excel (.xlsx) sheet, one employee per row. Rows are checked against
+            existing employees, departments, positions and locations before anyone is created.
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="employee-import-file">Employee Sheet *</Label>
+              <Input
+                id="employee-import-file"
+                type="file"
+                accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                onChange={(e) => handleFileChange(e.target.files?.[0])}
+              />
+            </div>
+
+            {table && (
+              <div className="rounded-lg border p-3 text-sm">
+                <span className="font-medium">{table.rows.length} rows</span>
+                <span className="text-muted-foreground"> · {table.headers.length} columns in {fileName}</span>
+              </div>
+            )}
+
+            {readError && (
+              <Alert variant="destructive">
+                <AlertDescription>{readError}</AlertDescription>
+              </Alert>
+            )}
+
+            {unfinishedJobs.length > 0 && (
+              <div className="space-y-2">
+                <Label>Unfinished Imports</Label>
+                {unfinishedJobs.map((job) => (
+                  <div key={job.id} className="flex items-center justify-between rounded-lg border p-3 text-sm">
+                    <div>
+                      <div className="font-medium">{job.file_name}</div>
+                      <div className="text-muted-foreground">
+                        {format(parseISO(job.created_at), 'dd MMM yyyy HH:mm')} · {job.imported_count + job.failed_count} of{' '}
+                        {job.total_rows} rows done
+                      </div>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="sm" onClick={() => cancelImport.mutate(job.id)}>
+                        Cancel
+                      </Button>
+                      <Button size="sm" onClick={() => handleResume(job)}>
+                        Resume
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {step === 'mapping' && table && (
+          <div className="space-y-4">
+            <ScrollArea className="h-[420px] pr-4">
+              <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+                {EMPLOYEE_IMPORT_FIELDS.map((definition) => (
+                  <div key={definition.field}>
+                    <Label>
+                      {definition.label}
+                      {definition.required && ' *'}
+                    </Label>
+                    <Select
+                      value={mapping[definition.field] !== undefined ? String(mapping[definition.field]) : NOT_MAPPED}
+                      onValueChange={(value) =>
+                        setMapping((prev) => ({
+                          ...prev,
+                          [definition.field]: value === NOT_MAPPED ? undefined : Number(value),
+                        }))
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NOT_MAPPED}>Not in the file</SelectItem>
+                        {table.headers.map((header, index) => (
+                          <SelectItem key={index} value={String(index)}>
+                            {header || `Column ${index + 1}`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+
+            {unmappedRequired.length > 0 && (
+              <Alert variant="destructive">
+                <AlertDescription>
+                  Choose a column for {unmappedRequired.map((definition) => definition.label).join(', ')}
+                </AlertDescription>
+              </Alert>
+            )}
+          </div>
+        )}
+
+        {step === 'preview' && preview && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge variant="outline" className="gap-1">
+                <CheckCircle2 className="h-3 w-3 text-green-600" />
+                {preview.validCount} ready
+              </Badge>
+              <Badge variant="outline" className="gap-1">
+                <XCircle className="h-3 w-3 text-destructive" />
+                {preview.errorCount} with errors, to be skipped
+              </Badge>
+            </div>
+
+            <ScrollArea className="h-[360px]">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Row</TableHead>
+                    <TableHead>Employee No</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Check</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.rows.map((row) => (
+                    <TableRow key={row.row}>
+                      <TableCell>{row.row}</TableCell>
+                      <TableCell>{row.employee_no || '—'}</TableCell>
+                      <TableCell>{row.full_name || '—'}</TableCell>
+                      <TableCell className="text-sm">
+                        {row.errors.length === 0 && row.warnings.length === 0 && (
+                          <span className="text-green-600">Ready</span>
+                        )}
+                        {row.errors.map((error) => (
+                          <div key={error} className="text-destructive">
+                            {error}
+                          </div>
+                        ))}
+                        {row.warnings.map((warning) => (
+                          <div key={warning} className="flex items-center gap-1 text-amber-600">
+                            <AlertTriangle className="h-3 w-3" />
+                            {warning}
+                          </div>
+                        ))}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="employee-import-invites"
+                checked={sendInvites}
+                onCheckedChange={(checked) => setSendInvites(checked === true)}
+              />
+              <Label htmlFor="employee-import-invites" className="text-sm font-normal">
+                Email an activation link to each imported employee with an email address
+              </Label>
+            </div>
+          </div>
+        )}
+
+        {step === 'import' && progress && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <span className="font-medium">{fileName}</span>
+                <span className="text-muted-foreground">
+                  {progress.imported + progress.failed} of {progress.total} rows
+                </span>
+              </div>
+              <Progress value={progress.total ? ((progress.imported + progress.failed) / progress.total) * 100 : 0} />
+              <div className="flex gap-4 text-sm">
+                <span className="text-green-600">{progress.imported} imported</span>
+                <span className="text-destructive">{progress.failed} failed</span>
+                <span className="text-muted-foreground">{progress.pending} to go</span>
+                {isRunning && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+              </div>
+            </div>
+
+            {progress.status === 'cancelled' && (
+              <Alert>
+                <AlertDescription>
+                  This import was cancelled. Employees imported before then have been kept.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {issues.length > 0 && (
+              <ScrollArea className="h-[240px]">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-16">Row</TableHead>
+                      <TableHead>Employee No</TableHead>
+                      <TableHead>Problem</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {issues.map((issue) => (
+                      <TableRow key={issue.id}>
+                        <TableCell>{issue.row_number}</TableCell>
+                        <TableCell>{issue.employee_no}</TableCell>
+                        <TableCell
+                          className={issue.status === 'failed' ? 'text-sm text-destructive' : 'text-sm text-amber-600'}
+                        >
+                          {issue.error}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </ScrollArea>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === 'upload' && (
+            <>
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                Close
+              </Button>
+              <Button onClick={() => setStep('mapping')} disabled={!table}>
+                Next
+              </Button>
+            </>
+          )}
+          {step === 'mapping' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('upload')}>
+                Back
+              </Button>
+              <Button onClick={() => setStep('preview')} disabled={unmappedRequired.length > 0}>
+                Check Rows
+              </Button>
+            </>
+          )}
+          {step === 'preview' && preview && (
+            <>
+              <Button variant="outline" onClick={() => setStep('mapping')}>
+                Back
+              </Button>
+              <Button
+                className="bg-[#5F26B4] hover:bg-[#5F26B4]/90"
+                onClick={handleStart}
+                disabled={preview.validCount === 0 || createImport.isPending}
+              >
+                {createImport.isPending ? 'Starting...' : `Import ${preview.validCount} Employees`}
+              </Button>
+            </>
+          )}
+          {step === 'import' && progress && (
+            <>
+              {isRunning && (
+                <Button
+                  variant="outline"
+                  onClick={() => cancelImport.mutate(progress.job_id)}
+                  disabled={cancelImport.isPending}
+                >
+                  Cancel Import
+                </Button>
+              )}
+              {!isRunning && !isFinished && <Button onClick={() => run(progress.job_id)}>Resume</Button>}
+              {!isRunning && (
+                <Button variant={isFinished ? 'default' : 'outline'} onClick={() => onOpenChange(false)}>
+                  Close
+                </Button>
+              )}
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,132 @@
+import { useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { History, Loader2, Plus } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { useDepartments } from '@/hooks/hr/useDepartments';
+import { useCompanyLocations } from '@/hooks/hr/useCompanyLocations';
+import { useEmploymentHistory } from '@/hooks/hr/useEmploymentHistory';
+import { EMPLOYMENT_EVENT_LABELS } from '@/lib/employmentHistory';
+import { formatCurrency } from '@/lib/otCalculations';
+import { EmploymentDetails, EmploymentHistoryRecord, Profile } from '@/types/otms';
+import { RecordEmploymentChangeDialog } from './RecordEmploymentChangeDialog';
+
+const FIELD_LABELS: Record<keyof EmploymentDetails, string> = {
+  basic_salary: 'Basic salary',
+  ot_base: 'OT base',
+  department_id: 'Department',
+  position_id: 'Position',
+  position: 'Position',
+  work_location: 'Location',
+  state: 'State',
+  employment_type: 'Employment type',
+};
+
+/** position_id goes with the position title, shown instead */
+const SHOWN_FIELDS: Array<keyof EmploymentDetails> = [
+  'basic_salary',
+  'ot_base',
+  'department_id',
+  'position',
+  'work_location',
+  'state',
+  'employment_type',
+];
+
+interface EmploymentHistoryPanelProps {
+  employee: Profile;
+}
+
+/** An employee's salary revisions, transfers, promotions and location moves */
+export function EmploymentHistoryPanel({ employee }: EmploymentHistoryPanelProps) {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const { data: history, isLoading } = useEmploymentHistory(employee.id);
+  const { data: departments = [] } = useDepartments();
+  const { data: locations = [] } = useCompanyLocations();
+
+  const records = useMemo(() => history || [], [history]);
+
+  const current: EmploymentDetails = useMemo(
+    () => ({
+      basic_salary: employee.basic_salary,
+      ot_base: employee.ot_base ?? null,
+      department_id: employee.department_id ?? null,
+      position_id: employee.position_id ?? null,
+      position: employee.position ?? null,
+      work_location: employee.work_location ?? null,
+      state: employee.state ?? null,
+      employment_type: employee.employment_type ?? null,
+    }),
+    [employee]
+  );
+
+  const describe = (field: keyof EmploymentDetails, value: EmploymentDetails[keyof EmploymentDetails]) => {
+    if (value === null || value === undefined || value === '') {
+      return field === 'ot_base' ? 'Basic salary' : '-';
+    }
+    switch (field) {
+      case 'basic_salary':
+      case 'ot_base':
+        return formatCurrency(Number(value));
+      case 'department_id':
+        return departments.find((d) => d.id === value)?.name || 'Unknown department';
+      case 'work_location': {
+        const location = locations.find((l) => l.id === value);
+        return location ? `${location.location_name} (${location.state_code})` : String(value);
+      }
+      default:
+        return String(value);
+    }
+  };
+
+  const summarize = (record: EmploymentHistoryRecord) =>
+    SHOWN_FIELDS.filter((field) => field in record.changes)
+      // A location already shows its state
+      .filter((field) => field !== 'state' || !('work_location' in record.changes))
+      .map((field) => `${FIELD_LABELS[field]}: ${describe(field, record.changes[field] ?? null)}`)
+      .join(' · ');
+
+  return (
+    <div className="grid gap-2 col-span-2">
+      <div className="flex items-center justify-between">
+        <Label className="flex items-center gap-2">
+          <History className="h-4 w-4" />
+          Employment History
+        </Label>
+        <Button variant="outline" size="sm" onClick={() => setDialogOpen(true)}>
+          <Plus className="h-4 w-4 mr-1" />
+          Record Change
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      ) : records.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No employment changes recorded.</p>
+      ) : (
+        <ol className="space-y-2 border-l pl-4">
+          {records.map((record) => (
+            <li key={record.id} className="text-sm">
+              <div className="flex items-center gap-2">
+                <span className="font-medium">{format(parseISO(record.effective_from), 'dd MMM yyyy')}</span>
+                <Badge variant="secondary">{EMPLOYMENT_EVENT_LABELS[record.event_type]}</Badge>
+              </div>
+              <div className="text-muted-foreground">{summarize(record)}</div>
+              {record.remarks && <div className="text-xs text-muted-foreground italic">{record.remarks}</div>}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <RecordEmploymentChangeDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        employeeId={employee.id}
+        employeeName={employee.full_name}
+        current={current}
+        history={records}
+      />
+    </div>
+  );
+}
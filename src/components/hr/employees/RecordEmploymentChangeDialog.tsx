@@ -0,0 +1,277 @@
+import { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useDepartments } from '@/hooks/hr/useDepartments';
+import { usePositions } from '@/hooks/hr/usePositions';
+import { useCompanyLocations } from '@/hooks/hr/useCompanyLocations';
+import { useRecordEmploymentChange } from '@/hooks/hr/useEmploymentHistory';
+import { EMPLOYMENT_TYPES } from '@/lib/employeeImport';
+import {
+  EMPLOYMENT_EVENT_FIELDS,
+  EMPLOYMENT_EVENT_LABELS,
+  getEmploymentChanges,
+  resolveEmploymentAsOf,
+} from '@/lib/employmentHistory';
+import { EmploymentDetails, EmploymentHistoryRecord } from '@/types/otms';
+
+type RecordedEventType = keyof typeof EMPLOYMENT_EVENT_FIELDS;
+
+interface RecordEmploymentChangeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  employeeId: string;
+  employeeName: string;
+  /** The details on the profile today */
+  current: EmploymentDetails;
+  history: EmploymentHistoryRecord[];
+}
+
+/** Records a change from a date; OT from that date is recalculated */
+export function RecordEmploymentChangeDialog({
+  open,
+  onOpenChange,
+  employeeId,
+  employeeName,
+  current,
+  history,
+}: RecordEmploymentChangeDialogProps) {
+  const [eventType, setEventType] = useState<RecordedEventType>('salary_revision');
+  const [effectiveFrom, setEffectiveFrom] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [remarks, setRemarks] = useState('');
+  const [details, setDetails] = useState<EmploymentDetails>(current);
+  const recordChange = useRecordEmploymentChange();
+  const { data: departments = [] } = useDepartments();
+  const { data: positions = [] } = usePositions(details.department_id || undefined);
+  const { data: locations = [] } = useCompanyLocations();
+
+  // Changes are made against the details in effect on the chosen date
+  const baseline = useMemo(
+    () => resolveEmploymentAsOf(history, effectiveFrom, current),
+    [history, effectiveFrom, current]
+  );
+
+  useEffect(() => {
+    if (open) {
+      setEventType('salary_revision');
+      setEffectiveFrom(format(new Date(), 'yyyy-MM-dd'));
+      setRemarks('');
+    }
+  }, [open]);
+
+  useEffect(() => {
+    setDetails(baseline);
+  }, [baseline, eventType]);
+
+  const fields = EMPLOYMENT_EVENT_FIELDS[eventType];
+  const changes = getEmploymentChanges(
+    baseline,
+    Object.fromEntries(fields.map((field) => [field, details[field]])) as Partial<EmploymentDetails>
+  );
+  const hasChanges = Object.keys(changes).length > 0;
+  const salaryInvalid = fields.includes('basic_salary') && !(details.basic_salary > 0);
+
+  const handleSubmit = () => {
+    recordChange.mutate(
+      { employeeId, eventType, effectiveFrom, changes, remarks },
+      { onSuccess: () => onOpenChange(false) }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Record Employment Change</DialogTitle>
+          <DialogDescription>
+            {employeeName}'s OT from the effective date is recalculated with the new details, except in frozen payroll
+            periods.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label>Change</Label>
+              <Select value={eventType} onValueChange={(value) => setEventType(value as RecordedEventType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(EMPLOYMENT_EVENT_FIELDS) as RecordedEventType[]).map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {EMPLOYMENT_EVENT_LABELS[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="effective_from">Effective From</Label>
+              <Input
+                id="effective_from"
+                type="date"
+                value={effectiveFrom}
+                onChange={(e) => e.target.value && setEffectiveFrom(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {fields.includes('department_id') && (
+            <div className="grid gap-2">
+              <Label>Department</Label>
+              <Select
+                value={details.department_id || undefined}
+                onValueChange={(value) =>
+                  setDetails({ ...details, department_id: value, position_id: null, position: null })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select department" />
+                </SelectTrigger>
+                <SelectContent>
+                  {departments.map((department) => (
+                    <SelectItem key={department.id} value={department.id}>
+                      {department.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {fields.includes('position_id') && (
+            <div className="grid gap-2">
+              <Label>Position</Label>
+              <Select
+                value={details.position_id || undefined}
+                onValueChange={(value) =>
+                  setDetails({
+                    ...details,
+                    position_id: value,
+                    position: positions.find((p) => p.id === value)?.title || null,
+                  })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder={details.department_id ? 'Select position' : 'Select department first'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {positions.map((position) => (
+                    <SelectItem key={position.id} value={position.id}>
+                      {position.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {fields.includes('basic_salary') && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="change_basic_salary">Basic Salary (RM)</Label>
+                <Input
+                  id="change_basic_salary"
+                  type="number"
+                  step="0.01"
+                  value={details.basic_salary || ''}
+                  onChange={(e) => setDetails({ ...details, basic_salary: parseFloat(e.target.value) })}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="change_ot_base">OT Base Salary (RM)</Label>
+                <Input
+                  id="change_ot_base"
+                  type="number"
+                  step="0.01"
+                  value={details.ot_base ?? ''}
+                  onChange={(e) =>
+                    setDetails({ ...details, ot_base: e.target.value ? parseFloat(e.target.value) : null })
+                  }
+                  placeholder="Uses Basic Salary if empty"
+                />
+              </div>
+            </div>
+          )}
+
+          {fields.includes('employment_type') && (
+            <div className="grid gap-2">
+              <Label>Employment Type</Label>
+              <Select
+                value={details.employment_type || undefined}
+                onValueChange={(value) => setDetails({ ...details, employment_type: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select employment type" />
+                </SelectTrigger>
+                <SelectContent>
+                  {EMPLOYMENT_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {type}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {fields.includes('work_location') && (
+            <div className="grid gap-2">
+              <Label>Work Location</Label>
+              <Select
+                value={details.work_location || undefined}
+                onValueChange={(value) =>
+                  setDetails({
+                    ...details,
+                    work_location: value,
+                    state: locations.find((location) => location.id === value)?.state_code ?? details.state,
+                  })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select work location" />
+                </SelectTrigger>
+                <SelectContent>
+                  {locations.map((location) => (
+                    <SelectItem key={location.id} value={location.id}>
+                      {location.location_name} ({location.state_code})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="grid gap-2">
+            <Label htmlFor="change_remarks">Remarks</Label>
+            <Textarea
+              id="change_remarks"
+              value={remarks}
+              onChange={(e) => setRemarks(e.target.value)}
+              placeholder="e.g. Annual increment"
+              rows={2}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            className="bg-[#5F26B4] hover:bg-[#5F26B4]/90"
+            onClick={handleSubmit}
+            disabled={!hasChanges || salaryInvalid || recordChange.isPending}
+          >
+            {recordChange.isPending ? 'Recording...' : 'Record Change'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
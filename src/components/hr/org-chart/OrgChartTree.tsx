@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import { AlertTriangle, ChevronDown, ChevronRight, GripVertical, Users } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { OrgChartNode } from '@/lib/orgChart';
+
+interface OrgChartTreeProps {
+  nodes: OrgChartNode[];
+  expandedIds: Set<string>;
+  onToggle: (employeeId: string) => void;
+  /** Employees with a hierarchy problem */
+  flaggedIds: Set<string>;
+  onDrop: (employeeId: string, supervisorId: string) => void;
+  onReassignReports: (node: OrgChartNode) => void;
+  depth?: number;
+}
+
+const DRAG_TYPE = 'application/x-otms-employee';
+
+/** One level of the chart; cards are dragged onto a new supervisor */
+export function OrgChartTree({
+  nodes,
+  expandedIds,
+  onToggle,
+  flaggedIds,
+  onDrop,
+  onReassignReports,
+  depth = 0,
+}: OrgChartTreeProps) {
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+
+  return (
+    <ul className={cn('space-y-2', depth > 0 && 'ml-6 border-l pl-4')}>
+      {nodes.map((node) => {
+        const { employee } = node;
+        const expanded = expandedIds.has(employee.id);
+
+        return (
+          <li key={employee.id}>
+            <div
+              draggable
+              onDragStart={(e) => {
+                e.stopPropagation();
+                e.dataTransfer.setData(DRAG_TYPE, employee.id);
+                e.dataTransfer.effectAllowed = 'move';
+              }}
+              onDragOver={(e) => {
+                if (!e.dataTransfer.types.includes(DRAG_TYPE)) return;
+                e.preventDefault();
+                e.stopPropagation();
+                setDropTargetId(employee.id);
+              }}
+              onDragLeave={() => setDropTargetId((current) => (current === employee.id ? null : current))}
+              onDrop={(e) => {
+                e.preventDefault();
+                e.stopPropagation();
+                setDropTargetId(null);
+                const droppedId = e.dataTransfer.getData(DRAG_TYPE);
+                if (droppedId && droppedId !== employee.id) onDrop(droppedId, employee.id);
+              }}
+              className={cn(
+                'flex items-center gap-2 rounded-lg border bg-card p-3 cursor-grab active:cursor-grabbing',
+                flaggedIds.has(employee.id) && 'border-amber-500',
+                dropTargetId === employee.id && 'ring-2 ring-[#5F26B4]'
+              )}
+            >
+              <GripVertical className="h-4 w-4 shrink-0 text-muted-foreground" />
+              {node.reports.length > 0 ? (
+                <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => onToggle(employee.id)}>
+                  {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                </Button>
+              ) : (
+                <span className="w-6" />
+              )}
+              <div className="min-w-0 flex-1">
+                <div className="flex items-center gap-2 text-sm font-medium">
+                  <span className="truncate">{employee.full_name}</span>
+                  {flaggedIds.has(employee.id) && <AlertTriangle className="h-4 w-4 shrink-0 text-amber-500" />}
+                </div>
+                <div className="truncate text-xs text-muted-foreground">
+                  {employee.employee_id}
+                  {employee.position ? ` · ${employee.position}` : ''}
+                </div>
+              </div>
+              {node.teamSize > 0 && (
+                <Badge variant="secondary" className="gap-1">
+                  <Users className="h-3 w-3" />
+                  {node.reports.length}
+                  {node.teamSize > node.reports.length && ` / ${node.teamSize}`}
+                </Badge>
+              )}
+              {node.reports.length > 0 && (
+                <Button variant="outline" size="sm" onClick={() => onReassignReports(node)}>
+                  Reassign Reports
+                </Button>
+              )}
+            </div>
+
+            {expanded && node.reports.length > 0 && (
+              <div className="mt-2">
+                <OrgChartTree
+                  nodes={node.reports}
+                  expandedIds={expandedIds}
+                  onToggle={onToggle}
+                  flaggedIds={flaggedIds}
+                  onDrop={onDrop}
+                  onReassignReports={onReassignReports}
+                  depth={depth + 1}
+                />
+              </div>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,153 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useReassignSupervisor, useSupervisorReassignmentImpact } from '@/hooks/hr/useSupervisorReassignment';
+import { getReassignmentError, getReportIds, OrgChartEmployee, SUPERVISING_ROLES } from '@/lib/orgChart';
+
+interface ReassignSupervisorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  employees: OrgChartEmployee[];
+  /** Employees to move, all ticked to begin with */
+  employeeIds: string[];
+  /** Set when an employee was dropped onto a supervisor */
+  supervisorId?: string | null;
+  title: string;
+}
+
+/** Confirms moving employees to a new supervisor, with their unverified requests */
+export function ReassignSupervisorDialog({
+  open,
+  onOpenChange,
+  employees,
+  employeeIds,
+  supervisorId: initialSupervisorId,
+  title,
+}: ReassignSupervisorDialogProps) {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [supervisorId, setSupervisorId] = useState<string>('');
+  const [movePendingRequests, setMovePendingRequests] = useState(true);
+  const reassign = useReassignSupervisor();
+  const { data: impact = [] } = useSupervisorReassignmentImpact(open ? selectedIds : []);
+
+  useEffect(() => {
+    if (open) {
+      setSelectedIds(employeeIds);
+      setSupervisorId(initialSupervisorId || '');
+      setMovePendingRequests(true);
+    }
+  }, [open, employeeIds, initialSupervisorId]);
+
+  const byId = useMemo(() => new Map(employees.map((employee) => [employee.id, employee])), [employees]);
+
+  // Nobody moving, nor anyone below them, can take them on
+  const candidates = useMemo(() => {
+    const excluded = new Set(selectedIds);
+    selectedIds.forEach((id) => getReportIds(employees, id).forEach((reportId) => excluded.add(reportId)));
+    return employees
+      .filter((employee) => !excluded.has(employee.id))
+      .filter((employee) => employee.roles.some((role) => SUPERVISING_ROLES.includes(role)))
+      .sort((a, b) => a.full_name.localeCompare(b.full_name));
+  }, [employees, selectedIds]);
+
+  const errors = supervisorId
+    ? selectedIds.map((id) => getReassignmentError(employees, id, supervisorId)).filter(Boolean)
+    : [];
+  const pendingCount = impact.reduce((total, row) => total + row.pending_verification_count, 0);
+
+  const toggle = (id: string) =>
+    setSelectedIds((prev) => (prev.includes(id) ? prev.filter((selected) => selected !== id) : [...prev, id]));
+
+  const handleConfirm = () => {
+    reassign.mutate(
+      { employeeIds: selectedIds, supervisorId, movePendingRequests },
+      { onSuccess: () => onOpenChange(false) }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            The ticked employees will report to the new supervisor from now on.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {employeeIds.length > 1 && (
+            <ScrollArea className="max-h-48 rounded-lg border p-3">
+              <div className="space-y-2">
+                {employeeIds.map((id) => (
+                  <div key={id} className="flex items-center space-x-2">
+                    <Checkbox id={`reassign-${id}`} checked={selectedIds.includes(id)} onCheckedChange={() => toggle(id)} />
+                    <Label htmlFor={`reassign-${id}`} className="text-sm font-normal">
+                      {byId.get(id)?.full_name}
+                      <span className="text-muted-foreground"> · {byId.get(id)?.employee_id}</span>
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          )}
+
+          <div>
+            <Label>New Supervisor *</Label>
+            <Select value={supervisorId} onValueChange={setSupervisorId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select supervisor" />
+              </SelectTrigger>
+              <SelectContent>
+                {candidates.map((employee) => (
+                  <SelectItem key={employee.id} value={employee.id}>
+                    {employee.full_name}
+                    {employee.position ? ` · ${employee.position}` : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {errors.length > 0 && (
+            <Alert variant="destructive">
+              <AlertDescription>{errors[0]}</AlertDescription>
+            </Alert>
+          )}
+
+          {pendingCount > 0 && (
+            <div className="flex items-start space-x-2 rounded-lg border p-3">
+              <Checkbox
+                id="move-pending-requests"
+                checked={movePendingRequests}
+                onCheckedChange={(checked) => setMovePendingRequests(checked === true)}
+              />
+              <Label htmlFor="move-pending-requests" className="text-sm font-normal leading-snug">
+                Move {pendingCount} OT request(s) waiting for verification to the new supervisor. Otherwise the current
+                supervisor still verifies them.
+              </Label>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            className="bg-[#5F26B4] hover:bg-[#5F26B4]/90"
+            onClick={handleConfirm}
+            disabled={!supervisorId || selectedIds.length === 0 || errors.length > 0 || reassign.isPending}
+          >
+            {reassign.isPending ? 'Reassigning...' : 'Reassign'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,180 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Ban, Download } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useRecordPayrollExportDownload } from '@/hooks/hr/useRecordPayrollExportDownload';
+import { useVoidPayrollExportBatch } from '@/hooks/hr/useVoidPayrollExportBatch';
+import { PayrollSourceRow, buildPayrollExportFile } from '@/lib/payrollExport';
+import { downloadFile } from '@/lib/exportUtils';
+import { formatCurrency, formatHours } from '@/lib/otCalculations';
+import { toast } from '@/hooks/use-toast';
+import { PayrollExportBatch } from '@/types/otms';
+
+interface PayrollExportBatchesProps {
+  batches: PayrollExportBatch[];
+  /** The period's approved requests and payroll adjustments from useHRReportData */
+  rows: PayrollSourceRow[];
+}
+
+/** Payroll exports for the period, with re-export and void */
+export function PayrollExportBatches({ batches, rows }: PayrollExportBatchesProps) {
+  const recordDownload = useRecordPayrollExportDownload();
+  const voidBatch = useVoidPayrollExportBatch();
+  const [batchToVoid, setBatchToVoid] = useState<PayrollExportBatch | null>(null);
+  const [voidReason, setVoidReason] = useState('');
+
+  const handleReExport = (batch: PayrollExportBatch) => {
+    let file;
+    try {
+      file = buildPayrollExportFile(batch.payroll_export_layouts!, batch, rows);
+    } catch (error) {
+      toast({
+        title: 'Re-export failed',
+        description: error instanceof Error ? error.message : String(error),
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    recordDownload.mutate(batch.id, {
+      onSuccess: () => downloadFile(file.content, file.filename, file.mimeType),
+    });
+  };
+
+  const handleVoid = () => {
+    if (!batchToVoid) return;
+    voidBatch.mutate(
+      { batchId: batchToVoid.id, reason: voidReason },
+      {
+        onSuccess: () => {
+          setBatchToVoid(null);
+          setVoidReason('');
+        },
+      }
+    );
+  };
+
+  if (batches.length === 0) {
+    return <p className="text-sm text-muted-foreground">No payroll exports for this period yet.</p>;
+  }
+
+  return (
+    <>
+      <div className="rounded-md border overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Batch</TableHead>
+              <TableHead>Layout</TableHead>
+              <TableHead className="text-right">Requests</TableHead>
+              <TableHead className="text-right">Hours</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+              <TableHead>Exported</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {batches.map((batch) => (
+              <TableRow key={batch.id}>
+                <TableCell className="font-mono">{batch.batch_no}</TableCell>
+                <TableCell>{batch.payroll_export_layouts?.name || '-'}</TableCell>
+                <TableCell className="text-right">
+                  {batch.request_count}
+                  {batch.adjustment_count > 0 && (
+                    <div className="text-xs text-muted-foreground">+ {batch.adjustment_count} adjustment(s)</div>
+                  )}
+                </TableCell>
+                <TableCell className="text-right">{formatHours(Number(batch.total_hours))}</TableCell>
+                <TableCell className="text-right">{formatCurrency(Number(batch.total_amount))}</TableCell>
+                <TableCell>
+                  {format(new Date(batch.exported_at), 'dd/MM/yyyy HH:mm')}
+                  {batch.download_count > 1 && (
+                    <div className="text-xs text-muted-foreground">Downloaded {batch.download_count} times</div>
+                  )}
+                </TableCell>
+                <TableCell>
+                  {batch.status === 'voided' ? (
+                    <div>
+                      <Badge variant="destructive">Voided</Badge>
+                      <div className="text-xs text-muted-foreground mt-1">{batch.void_reason}</div>
+                    </div>
+                  ) : (
+                    <Badge variant="secondary">Exported</Badge>
+                  )}
+                </TableCell>
+                <TableCell className="text-right whitespace-nowrap">
+                  {batch.status === 'exported' && (
+                    <>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleReExport(batch)}
+                        disabled={recordDownload.isPending}
+                        title="Download again"
+                      >
+                        <Download className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => setBatchToVoid(batch)} title="Void batch">
+                        <Ban className="h-4 w-4" />
+                      </Button>
+                    </>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <AlertDialog
+        open={!!batchToVoid}
+        onOpenChange={(open) => {
+          if (!open) {
+            setBatchToVoid(null);
+            setVoidReason('');
+          }
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Void {batchToVoid?.batch_no}</AlertDialogTitle>
+            <AlertDialogDescription>
+              Only void a batch payroll did not process. Its {batchToVoid?.request_count} request(s) and{' '}
+              {batchToVoid?.adjustment_count} adjustment(s) will be included in the next export.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="void-reason">Reason *</Label>
+            <Textarea
+              id="void-reason"
+              value={voidReason}
+              onChange={(e) => setVoidReason(e.target.value)}
+              placeholder="e.g., Payroll rejected the file"
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleVoid} disabled={!voidReason.trim() || voidBatch.isPending}>
+              Void Batch
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,182 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { usePayrollExportLayouts } from '@/hooks/hr/usePayrollExportLayouts';
+import { useCreatePayrollExportBatch } from '@/hooks/hr/useCreatePayrollExportBatch';
+import { PayrollSourceRow, buildPayrollExportFile, getPayrollRowKey } from '@/lib/payrollExport';
+import { downloadFile } from '@/lib/exportUtils';
+import { formatCurrency, formatHours } from '@/lib/otCalculations';
+import { toast } from '@/hooks/use-toast';
+
+const ALL = 'all';
+
+interface PayrollExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  periodStart: string;
+  periodEnd: string;
+  periodLabel: string;
+  /** The period's approved requests and payroll adjustments from useHRReportData */
+  rows: PayrollSourceRow[];
+  /** Keys (getPayrollRowKey) of the rows already in a live batch */
+  exportedRowKeys: Set<string>;
+  companies: { id: string; name: string; code: string }[];
+}
+
+export function PayrollExportDialog({
+  open,
+  onOpenChange,
+  periodStart,
+  periodEnd,
+  periodLabel,
+  rows,
+  exportedRowKeys,
+  companies,
+}: PayrollExportDialogProps) {
+  const { data: layouts = [] } = usePayrollExportLayouts();
+  const createBatch = useCreatePayrollExportBatch();
+  const [layoutId, setLayoutId] = useState('');
+  const [companyId, setCompanyId] = useState(ALL);
+
+  const activeLayouts = layouts.filter((layout) => layout.is_active);
+
+  useEffect(() => {
+    if (!layoutId && activeLayouts.length > 0) setLayoutId(activeLayouts[0].id);
+  }, [layoutId, activeLayouts]);
+
+  const pending = useMemo(
+    () =>
+      rows.filter(
+        (row) => !exportedRowKeys.has(getPayrollRowKey(row)) && (companyId === ALL || row.company_id === companyId)
+      ),
+    [rows, exportedRowKeys, companyId]
+  );
+  const pendingAdjustments = pending.filter((row) => row.adjustment_id).length;
+
+  const handleExport = () => {
+    createBatch.mutate(
+      {
+        layout_id: layoutId,
+        period_start: periodStart,
+        period_end: periodEnd,
+        company_id: companyId === ALL ? null : companyId,
+      },
+      {
+        onSuccess: (batch) => {
+          try {
+            const file = buildPayrollExportFile(batch.payroll_export_layouts!, batch, rows);
+            downloadFile(file.content, file.filename, file.mimeType);
+            toast({
+              title: 'Payroll export created',
+              description:
+                `Batch ${batch.batch_no}: ${batch.request_count} request(s)` +
+                (batch.adjustment_count > 0 ? `, ${batch.adjustment_count} adjustment(s)` : '') +
+                `, ${formatCurrency(Number(batch.total_amount))}`,
+            });
+            onOpenChange(false);
+          } catch (error) {
+            toast({
+              title: `Batch ${batch.batch_no} was recorded but its file could not be built`,
+              description: error instanceof Error ? error.message : String(error),
+              variant: 'destructive',
+            });
+          }
+        },
+      }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Export to Payroll</DialogTitle>
+          <DialogDescription>
+            Management-approved OT for {periodLabel}, and the payroll adjustments paid in it, that have not been
+            exported yet. Each is exported once; void a batch to export its contents again.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="payroll-layout">Layout</Label>
+            <Select value={layoutId} onValueChange={setLayoutId}>
+              <SelectTrigger id="payroll-layout">
+                <SelectValue placeholder="Select layout" />
+              </SelectTrigger>
+              <SelectContent>
+                {activeLayouts.map((layout) => (
+                  <SelectItem key={layout.id} value={layout.id}>
+                    {layout.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="payroll-company">Company</Label>
+            <Select value={companyId} onValueChange={setCompanyId}>
+              <SelectTrigger id="payroll-company">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All companies</SelectItem>
+                {companies.map((company) => (
+                  <SelectItem key={company.id} value={company.id}>
+                    {company.name} ({company.code})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {activeLayouts.length === 0 ? (
+            <Alert variant="destructive">
+              <AlertDescription>
+                No active payroll export layouts. Add one under HR Settings → Payroll Export.
+              </AlertDescription>
+            </Alert>
+          ) : (
+            <div className="rounded-lg border p-3 text-sm grid grid-cols-3 gap-2">
+              <div>
+                <div className="text-muted-foreground">Requests</div>
+                <div className="font-semibold">{pending.length - pendingAdjustments}</div>
+                {pendingAdjustments > 0 && (
+                  <div className="text-xs text-muted-foreground">+ {pendingAdjustments} adjustment(s)</div>
+                )}
+              </div>
+              <div>
+                <div className="text-muted-foreground">Hours</div>
+                <div className="font-semibold">{formatHours(pending.reduce((sum, row) => sum + row.hours, 0))}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Amount</div>
+                <div className="font-semibold">
+                  {formatCurrency(pending.reduce((sum, row) => sum + row.amount, 0))}
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            className="bg-[#5F26B4] hover:bg-[#5F26B4]/90"
+            onClick={handleExport}
+            disabled={!layoutId || pending.length === 0 || createBatch.isPending}
+          >
+            {createBatch.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,83 @@
+import { ArrowRight, Edit, Trash2 } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { ApprovalChain, APPROVAL_STEP_ORDER } from '@/types/otms';
+import { APPROVAL_STEP_LABELS, SKIP_RULE_LABELS, describeApprovalCondition } from '@/lib/approvalChain';
+import { useUpdateApprovalChain } from '@/hooks/hr/useUpdateApprovalChain';
+
+interface ApprovalChainCardProps {
+  chain: ApprovalChain;
+  departmentNames: Record<string, string>;
+  onEdit: (chain: ApprovalChain) => void;
+  onDelete: (chain: ApprovalChain) => void;
+}
+
+export function ApprovalChainCard({ chain, departmentNames, onEdit, onDelete }: ApprovalChainCardProps) {
+  const updateChain = useUpdateApprovalChain();
+
+  const handleToggle = (checked: boolean) => {
+    updateChain.mutate({
+      id: chain.id,
+      is_active: checked,
+    });
+  };
+
+  const steps = [...chain.approval_chain_steps].sort(
+    (a, b) => APPROVAL_STEP_ORDER.indexOf(a.role) - APPROVAL_STEP_ORDER.indexOf(b.role)
+  );
+
+  return (
+    <Card className="p-6">
+      <div className="flex justify-between items-start mb-4">
+        <div className="space-y-1">
+          <h4 className="text-base font-semibold text-foreground">{chain.name}</h4>
+          <p className="text-sm text-muted-foreground">
+            {chain.companies?.name || 'All companies'} · {chain.departments?.name || 'All departments'}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Badge variant={chain.is_active ? 'default' : 'secondary'}>
+            {chain.is_active ? 'Active' : 'Inactive'}
+          </Badge>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => onEdit(chain)}
+          >
+            <Edit className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => onDelete(chain)}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+          <Switch
+            checked={chain.is_active}
+            onCheckedChange={handleToggle}
+            disabled={updateChain.isPending}
+          />
+        </div>
+      </div>
+      <div className="flex flex-wrap items-start gap-2">
+        <Badge variant="outline">Supervisor</Badge>
+        {steps.map((step) => (
+          <div key={step.id} className="flex items-start gap-2">
+            <ArrowRight className="h-4 w-4 mt-0.5 text-muted-foreground" />
+            <div>
+              <Badge variant="outline">{APPROVAL_STEP_LABELS[step.role]}</Badge>
+              {step.skip_rule !== 'never' && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  {SKIP_RULE_LABELS[step.skip_rule]}: {describeApprovalCondition(step.condition, departmentNames)}
+                </p>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+}
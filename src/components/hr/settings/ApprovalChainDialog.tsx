@@ -0,0 +1,384 @@
+import { useState, useEffect } from 'react';
+import { ArrowRight } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useCompanies } from '@/hooks/hr/useCompanies';
+import { useDepartments } from '@/hooks/hr/useDepartments';
+import { useCreateApprovalChain, ApprovalChainStepInput } from '@/hooks/hr/useCreateApprovalChain';
+import { useUpdateApprovalChain } from '@/hooks/hr/useUpdateApprovalChain';
+import {
+  APPROVAL_STEP_ORDER,
+  ApprovalChain,
+  ApprovalStepCondition,
+  ApprovalStepRole,
+  ApprovalStepSkipRule,
+  DayType,
+} from '@/types/otms';
+import { APPROVAL_STEP_LABELS, SKIP_RULE_LABELS, resolveApprovalSteps } from '@/lib/approvalChain';
+import { getDayTypeLabel } from '@/lib/otCalculations';
+
+const ALL = 'all';
+const DAY_TYPES: DayType[] = ['weekday', 'saturday', 'sunday', 'public_holiday'];
+
+interface StepFormState {
+  enabled: boolean;
+  skip_rule: ApprovalStepSkipRule;
+  condition: ApprovalStepCondition;
+}
+
+type StepsFormState = Record<ApprovalStepRole, StepFormState>;
+
+const emptySteps = (): StepsFormState => ({
+  department_head: { enabled: false, skip_rule: 'never', condition: {} },
+  hr: { enabled: true, skip_rule: 'never', condition: {} },
+  management: { enabled: true, skip_rule: 'never', condition: {} },
+});
+
+interface ApprovalChainDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  chain?: ApprovalChain | null;
+}
+
+export function ApprovalChainDialog({ open, onOpenChange, chain }: ApprovalChainDialogProps) {
+  const [formData, setFormData] = useState({
+    name: '',
+    company_id: ALL,
+    department_id: ALL,
+    is_active: true,
+  });
+  const [steps, setSteps] = useState<StepsFormState>(emptySteps);
+  const [preview, setPreview] = useState({ total_hours: 4, ot_amount: 100, day_type: 'weekday' as DayType });
+
+  const { data: companies = [] } = useCompanies();
+  const { data: departments = [] } = useDepartments();
+  const createChain = useCreateApprovalChain();
+  const updateChain = useUpdateApprovalChain();
+
+  useEffect(() => {
+    if (chain) {
+      setFormData({
+        name: chain.name,
+        company_id: chain.company_id || ALL,
+        department_id: chain.department_id || ALL,
+        is_active: chain.is_active,
+      });
+      const next = emptySteps();
+      // Only the chain's own steps are enabled (HR always is)
+      next.management.enabled = false;
+      chain.approval_chain_steps.forEach((step) => {
+        next[step.role] = { enabled: true, skip_rule: step.skip_rule, condition: step.condition || {} };
+      });
+      next.hr.enabled = true;
+      setSteps(next);
+    } else if (!open) {
+      setFormData({ name: '', company_id: ALL, department_id: ALL, is_active: true });
+      setSteps(emptySteps());
+    }
+  }, [chain, open]);
+
+  const updateStep = (role: ApprovalStepRole, patch: Partial<StepFormState>) => {
+    setSteps((prev) => ({ ...prev, [role]: { ...prev[role], ...patch } }));
+  };
+
+  const updateCondition = (role: ApprovalStepRole, patch: Partial<ApprovalStepCondition>) => {
+    setSteps((prev) => {
+      const condition = { ...prev[role].condition, ...patch };
+      // Drop cleared fields so the stored condition only holds what HR set
+      (Object.keys(condition) as (keyof ApprovalStepCondition)[]).forEach((key) => {
+        const value = condition[key];
+        if (value === undefined || (Array.isArray(value) && value.length === 0)) delete condition[key];
+      });
+      return { ...prev, [role]: { ...prev[role], condition } };
+    });
+  };
+
+  const toggleListValue = (role: ApprovalStepRole, key: 'day_types' | 'department_ids', value: string) => {
+    const current = (steps[role].condition[key] || []) as string[];
+    const next = current.includes(value) ? current.filter((v) => v !== value) : [...current, value];
+    updateCondition(role, { [key]: next } as Partial<ApprovalStepCondition>);
+  };
+
+  const stepInputs: ApprovalChainStepInput[] = APPROVAL_STEP_ORDER
+    .filter((role) => steps[role].enabled)
+    .map((role) => ({
+      role,
+      // Conditions only matter when a skip rule refers to them
+      condition: steps[role].skip_rule === 'never' ? {} : steps[role].condition,
+      skip_rule: role === 'hr' ? 'never' : steps[role].skip_rule,
+    }));
+
+  const previewSteps = resolveApprovalSteps(
+    { approval_chain_steps: stepInputs.map((step) => ({ ...step, id: step.role, chain_id: '', created_at: '' })) },
+    {
+      ...preview,
+      department_id: formData.department_id === ALL ? null : formData.department_id,
+      has_department_head: formData.department_id === ALL
+        ? undefined
+        : Boolean(departments.find((department) => department.id === formData.department_id)?.head_id),
+    }
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const payload = {
+      name: formData.name.trim(),
+      company_id: formData.company_id === ALL ? null : formData.company_id,
+      department_id: formData.department_id === ALL ? null : formData.department_id,
+      is_active: formData.is_active,
+      steps: stepInputs,
+    };
+
+    if (chain) {
+      await updateChain.mutateAsync({ id: chain.id, ...payload });
+    } else {
+      await createChain.mutateAsync(payload);
+    }
+
+    onOpenChange(false);
+  };
+
+  const parseOptionalNumber = (value: string) => (value === '' ? undefined : parseFloat(value));
+
+  const isLoading = createChain.isPending || updateChain.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[95vw] sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-lg sm:text-xl">{chain ? 'Edit' : 'Add'} Approval Chain</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-3 sm:space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="chain_name" className="text-xs sm:text-sm">Chain Name</Label>
+            <Input
+              id="chain_name"
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              placeholder="e.g., Subsidiary - skip management under RM 200"
+              className="h-10 sm:h-9 text-base sm:text-sm"
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
+            <div className="space-y-2">
+              <Label className="text-xs sm:text-sm">Company</Label>
+              <Select value={formData.company_id} onValueChange={(value) => setFormData({ ...formData, company_id: value })}>
+                <SelectTrigger className="h-10 sm:h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All companies</SelectItem>
+                  {companies.map((company) => (
+                    <SelectItem key={company.id} value={company.id}>{company.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label className="text-xs sm:text-sm">Department</Label>
+              <Select value={formData.department_id} onValueChange={(value) => setFormData({ ...formData, department_id: value })}>
+                <SelectTrigger className="h-10 sm:h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All departments</SelectItem>
+                  {departments.map((department) => (
+                    <SelectItem key={department.id} value={department.id}>{department.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-xs sm:text-sm">Steps after supervisor verification</Label>
+            {APPROVAL_STEP_ORDER.map((role) => {
+              const step = steps[role];
+              const isHR = role === 'hr';
+
+              return (
+                <div key={role} className="rounded-lg border p-3 sm:p-4 space-y-3">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm font-medium">{APPROVAL_STEP_LABELS[role]}</p>
+                      {isHR && (
+                        <p className="text-xs text-muted-foreground">HR certification is always required</p>
+                      )}
+                      {role === 'department_head' && (
+                        <p className="text-xs text-muted-foreground">Head of the employee's department (set in Departments)</p>
+                      )}
+                    </div>
+                    <Switch
+                      checked={step.enabled}
+                      disabled={isHR}
+                      onCheckedChange={(checked) => updateStep(role, { enabled: checked })}
+                    />
+                  </div>
+
+                  {step.enabled && !isHR && (
+                    <>
+                      <Select
+                        value={step.skip_rule}
+                        onValueChange={(value) => updateStep(role, { skip_rule: value as ApprovalStepSkipRule })}
+                      >
+                        <SelectTrigger className="h-10 sm:h-9">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(SKIP_RULE_LABELS) as ApprovalStepSkipRule[]).map((rule) => (
+                            <SelectItem key={rule} value={rule}>{SKIP_RULE_LABELS[rule]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+
+                      {step.skip_rule !== 'never' && (
+                        <div className="space-y-3">
+                          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                            <Input
+                              type="number"
+                              step="0.5"
+                              placeholder="Min hours"
+                              value={step.condition.min_hours ?? ''}
+                              onChange={(e) => updateCondition(role, { min_hours: parseOptionalNumber(e.target.value) })}
+                            />
+                            <Input
+                              type="number"
+                              step="0.5"
+                              placeholder="Max hours"
+                              value={step.condition.max_hours ?? ''}
+                              onChange={(e) => updateCondition(role, { max_hours: parseOptionalNumber(e.target.value) })}
+                            />
+                            <Input
+                              type="number"
+                              step="0.01"
+                              placeholder="Min RM"
+                              value={step.condition.min_amount ?? ''}
+                              onChange={(e) => updateCondition(role, { min_amount: parseOptionalNumber(e.target.value) })}
+                            />
+                            <Input
+                              type="number"
+                              step="0.01"
+                              placeholder="Max RM"
+                              value={step.condition.max_amount ?? ''}
+                              onChange={(e) => updateCondition(role, { max_amount: parseOptionalNumber(e.target.value) })}
+                            />
+                          </div>
+                          <div className="flex flex-wrap gap-3">
+                            {DAY_TYPES.map((dayType) => (
+                              <label key={dayType} className="flex items-center gap-2 text-xs sm:text-sm">
+                                <Checkbox
+                                  checked={step.condition.day_types?.includes(dayType) || false}
+                                  onCheckedChange={() => toggleListValue(role, 'day_types', dayType)}
+                                />
+                                {getDayTypeLabel(dayType)}
+                              </label>
+                            ))}
+                          </div>
+                          {formData.department_id === ALL && departments.length > 0 && (
+                            <div className="flex flex-wrap gap-3">
+                              {departments.map((department) => (
+                                <label key={department.id} className="flex items-center gap-2 text-xs sm:text-sm">
+                                  <Checkbox
+                                    checked={step.condition.department_ids?.includes(department.id) || false}
+                                    onCheckedChange={() => toggleListValue(role, 'department_ids', department.id)}
+                                  />
+                                  {department.name}
+                                </label>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      )}
+                    </>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="rounded-lg border bg-muted/40 p-3 sm:p-4 space-y-3">
+            <p className="text-sm font-medium">Preview</p>
+            <div className="grid grid-cols-3 gap-2">
+              <Input
+                type="number"
+                step="0.5"
+                value={preview.total_hours}
+                onChange={(e) => setPreview({ ...preview, total_hours: parseFloat(e.target.value) || 0 })}
+                aria-label="Preview hours"
+              />
+              <Input
+                type="number"
+                step="0.01"
+                value={preview.ot_amount}
+                onChange={(e) => setPreview({ ...preview, ot_amount: parseFloat(e.target.value) || 0 })}
+                aria-label="Preview amount"
+              />
+              <Select value={preview.day_type} onValueChange={(value) => setPreview({ ...preview, day_type: value as DayType })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DAY_TYPES.map((dayType) => (
+                    <SelectItem key={dayType} value={dayType}>{getDayTypeLabel(dayType)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <Badge variant="outline">Supervisor</Badge>
+              {previewSteps.map((role) => (
+                <span key={role} className="flex items-center gap-2">
+                  <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                  <Badge variant="outline">{APPROVAL_STEP_LABELS[role]}</Badge>
+                </span>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 sm:gap-0 rounded-lg border p-3 sm:p-4">
+            <div className="space-y-0.5">
+              <Label htmlFor="chain_is_active" className="text-xs sm:text-sm font-medium">Active</Label>
+              <p className="text-xs sm:text-sm text-muted-foreground">
+                Applies to requests submitted or edited from now on
+              </p>
+            </div>
+            <Switch
+              id="chain_is_active"
+              checked={formData.is_active}
+              onCheckedChange={(checked) => setFormData({ ...formData, is_active: checked })}
+            />
+          </div>
+
+          <DialogFooter className="flex flex-col-reverse sm:flex-row gap-2 sm:gap-3 pt-4">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isLoading}
+              className="w-full sm:w-auto h-10 sm:h-9 text-base sm:text-sm"
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={isLoading}
+              className="w-full sm:w-auto h-10 sm:h-9 text-base sm:text-sm"
+            >
+              {isLoading ? 'Saving...' : chain ? 'Update' : 'Create'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,116 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Plus } from 'lucide-react';
+import { useApprovalChains } from '@/hooks/hr/useApprovalChains';
+import { useDeleteApprovalChain } from '@/hooks/hr/useDeleteApprovalChain';
+import { useDepartments } from '@/hooks/hr/useDepartments';
+import { ApprovalChain } from '@/types/otms';
+import { ApprovalChainCard } from './ApprovalChainCard';
+import { ApprovalChainDialog } from './ApprovalChainDialog';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+
+export function ApprovalChainsTab() {
+  const { data: chains, isLoading } = useApprovalChains();
+  const { data: departments = [] } = useDepartments();
+  const deleteChain = useDeleteApprovalChain();
+  const [chainToDelete, setChainToDelete] = useState<ApprovalChain | null>(null);
+  const [chainToEdit, setChainToEdit] = useState<ApprovalChain | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  const departmentNames = Object.fromEntries(departments.map((d) => [d.id, d.name]));
+
+  const handleDelete = () => {
+    if (chainToDelete) {
+      deleteChain.mutate(chainToDelete.id);
+      setChainToDelete(null);
+    }
+  };
+
+  const handleEdit = (chain: ApprovalChain) => {
+    setChainToEdit(chain);
+    setIsDialogOpen(true);
+  };
+
+  const handleAdd = () => {
+    setChainToEdit(null);
+    setIsDialogOpen(true);
+  };
+
+  const handleDialogClose = () => {
+    setIsDialogOpen(false);
+    setChainToEdit(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-semibold">Approval Chains</h3>
+          <p className="text-sm text-muted-foreground">
+            Define who approves OT after the supervisor, per company or department.
+            Without a matching chain, requests go to HR and then management.
+          </p>
+        </div>
+        <Button className="bg-[#5F26B4] hover:bg-[#5F26B4]/90" onClick={handleAdd}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Chain
+        </Button>
+      </div>
+
+      <div className="space-y-4">
+        {isLoading ? (
+          <>
+            <Skeleton className="h-32 w-full" />
+            <Skeleton className="h-32 w-full" />
+          </>
+        ) : chains && chains.length > 0 ? (
+          chains.map((chain) => (
+            <ApprovalChainCard
+              key={chain.id}
+              chain={chain}
+              departmentNames={departmentNames}
+              onEdit={handleEdit}
+              onDelete={setChainToDelete}
+            />
+          ))
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">
+            No approval chains found. Click "Add Chain" to create one.
+          </div>
+        )}
+      </div>
+
+      <ApprovalChainDialog
+        open={isDialogOpen}
+        onOpenChange={handleDialogClose}
+        chain={chainToEdit}
+      />
+
+      <AlertDialog open={!!chainToDelete} onOpenChange={() => setChainToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Approval Chain</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete "{chainToDelete?.name}"? Requests already past the supervisor
+              stage keep their current approval steps. This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
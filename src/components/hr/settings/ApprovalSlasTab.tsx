@@ -0,0 +1,149 @@
+import { useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useApprovalSlas } from '@/hooks/useApprovalSlas';
+import { useUpdateApprovalSla } from '@/hooks/hr/useUpdateApprovalSla';
+import {
+  SLA_ESCALATION_LABELS,
+  SLA_STAGE_LABELS,
+  SUPERVISOR_SLA_STAGES,
+  parseReminderHours,
+} from '@/lib/approvalSla';
+import { OTApprovalSla, SlaEscalationTarget } from '@/types/otms';
+
+function ApprovalSlaCard({ sla }: { sla: OTApprovalSla }) {
+  const updateSla = useUpdateApprovalSla();
+  const [reminders, setReminders] = useState(sla.reminder_hours.join(', '));
+  const [slaHours, setSlaHours] = useState(String(sla.sla_hours));
+  const [escalateTo, setEscalateTo] = useState<SlaEscalationTarget>(sla.escalate_to);
+
+  const parsedSlaHours = Number(slaHours);
+  const isSlaValid = Number.isInteger(parsedSlaHours) && parsedSlaHours > 0;
+  const parsedReminders = isSlaValid ? parseReminderHours(reminders, parsedSlaHours) : null;
+  const escalationTargets = (Object.keys(SLA_ESCALATION_LABELS) as SlaEscalationTarget[]).filter(
+    (target) => target !== 'supervisor_manager' || SUPERVISOR_SLA_STAGES.includes(sla.status)
+  );
+
+  const isDirty =
+    reminders !== sla.reminder_hours.join(', ') ||
+    slaHours !== String(sla.sla_hours) ||
+    escalateTo !== sla.escalate_to;
+
+  const handleSave = () => {
+    if (!parsedReminders) return;
+    updateSla.mutate({
+      id: sla.id,
+      reminder_hours: parsedReminders,
+      sla_hours: parsedSlaHours,
+      escalate_to: escalateTo,
+    });
+  };
+
+  return (
+    <Card className="p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="font-medium">{SLA_STAGE_LABELS[sla.status] || sla.status}</p>
+          <p className="text-xs text-muted-foreground">Clock starts when the request enters this stage</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Label htmlFor={`sla-active-${sla.id}`} className="text-sm">Active</Label>
+          <Switch
+            id={`sla-active-${sla.id}`}
+            checked={sla.is_active}
+            onCheckedChange={(checked) => updateSla.mutate({ id: sla.id, is_active: checked })}
+            disabled={updateSla.isPending}
+          />
+        </div>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-3">
+        <div className="space-y-2">
+          <Label htmlFor={`sla-reminders-${sla.id}`}>Remind after (hours)</Label>
+          <Input
+            id={`sla-reminders-${sla.id}`}
+            placeholder="e.g. 24, 48"
+            value={reminders}
+            onChange={(e) => setReminders(e.target.value)}
+          />
+          {isSlaValid && !parsedReminders && (
+            <p className="text-xs text-destructive">Whole hours below the SLA, separated by commas</p>
+          )}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`sla-hours-${sla.id}`}>SLA (hours)</Label>
+          <Input
+            id={`sla-hours-${sla.id}`}
+            type="number"
+            min={1}
+            value={slaHours}
+            onChange={(e) => setSlaHours(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Escalate to</Label>
+          <Select value={escalateTo} onValueChange={(value) => setEscalateTo(value as SlaEscalationTarget)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {escalationTargets.map((target) => (
+                <SelectItem key={target} value={target}>
+                  {SLA_ESCALATION_LABELS[target]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {isDirty && (
+        <div className="flex justify-end">
+          <Button
+            className="bg-[#5F26B4] hover:bg-[#5F26B4]/90"
+            onClick={handleSave}
+            disabled={!parsedReminders || updateSla.isPending}
+          >
+            {updateSla.isPending ? 'Saving...' : 'Save'}
+          </Button>
+        </div>
+      )}
+    </Card>
+  );
+}
+
+export function ApprovalSlasTab() {
+  const { data: slas, isLoading } = useApprovalSlas();
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold">Approval SLAs</h3>
+        <p className="text-sm text-muted-foreground">
+          Remind approvers when a request has waited too long, and escalate once the SLA is breached.
+          Overdue requests are flagged in the approval queues.
+        </p>
+      </div>
+
+      <div className="space-y-4">
+        {isLoading ? (
+          <>
+            <Skeleton className="h-32 w-full" />
+            <Skeleton className="h-32 w-full" />
+          </>
+        ) : slas && slas.length > 0 ? (
+          slas.map((sla) => <ApprovalSlaCard key={`${sla.id}-${sla.updated_at}`} sla={sla} />)
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">
+            No approval SLAs configured.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useEmployees } from '@/hooks/hr/useEmployees';
+import { useRequestOTCapException } from '@/hooks/hr/useRequestOTCapException';
+
+const MIN_JUSTIFICATION_LENGTH = 20;
+
+interface CapExceptionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function CapExceptionDialog({ open, onOpenChange }: CapExceptionDialogProps) {
+  const [employeeId, setEmployeeId] = useState('');
+  const [month, setMonth] = useState(format(new Date(), 'yyyy-MM'));
+  const [extraHours, setExtraHours] = useState('');
+  const [justification, setJustification] = useState('');
+
+  const { data: employees = [] } = useEmployees();
+  const requestException = useRequestOTCapException();
+
+  useEffect(() => {
+    if (!open) {
+      setEmployeeId('');
+      setMonth(format(new Date(), 'yyyy-MM'));
+      setExtraHours('');
+      setJustification('');
+    }
+  }, [open]);
+
+  const hours = parseFloat(extraHours);
+  const canSubmit =
+    !!employeeId &&
+    !!month &&
+    Number.isFinite(hours) &&
+    hours > 0 &&
+    justification.trim().length >= MIN_JUSTIFICATION_LENGTH;
+
+  const handleSubmit = () => {
+    requestException.mutate(
+      { employee_id: employeeId, month: `${month}-01`, extra_hours: hours, justification: justification.trim() },
+      { onSuccess: () => onOpenChange(false) }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Request Cap Exception</DialogTitle>
+          <DialogDescription>
+            Lets one employee claim more OT hours in a month than the monthly limits allow. It takes effect once
+            another HR or management user approves it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label>Employee *</Label>
+            <Select value={employeeId} onValueChange={setEmployeeId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select an employee" />
+              </SelectTrigger>
+              <SelectContent>
+                {employees.map((employee) => (
+                  <SelectItem key={employee.id} value={employee.id}>
+                    {employee.full_name} ({employee.employee_id})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="exception-month">Month *</Label>
+              <Input id="exception-month" type="month" value={month} onChange={(e) => setMonth(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="exception-hours">Extra Hours *</Label>
+              <Input
+                id="exception-hours"
+                type="number"
+                step="0.5"
+                min="0.5"
+                value={extraHours}
+                onChange={(e) => setExtraHours(e.target.value)}
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="exception-justification">Justification *</Label>
+            <Textarea
+              id="exception-justification"
+              value={justification}
+              onChange={(e) => setJustification(e.target.value)}
+              placeholder="Why this employee must work beyond the cap, e.g. the plant shutdown and who approved the extra shifts"
+              rows={4}
+            />
+            <p className="mt-1 text-xs text-muted-foreground">At least {MIN_JUSTIFICATION_LENGTH} characters.</p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            className="bg-[#5F26B4] hover:bg-[#5F26B4]/90"
+            onClick={handleSubmit}
+            disabled={!canSubmit || requestException.isPending}
+          >
+            {requestException.isPending ? 'Requesting...' : 'Request Exception'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
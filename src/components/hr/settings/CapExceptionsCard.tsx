@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Check, Plus, X } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useAuth } from '@/hooks/useAuth';
+import { useOTCapExceptions } from '@/hooks/hr/useOTCapExceptions';
+import { useDecideOTCapException } from '@/hooks/hr/useDecideOTCapException';
+import { formatHours } from '@/lib/otCalculations';
+import { OTCapExceptionStatus } from '@/types/otms';
+import { CapExceptionDialog } from './CapExceptionDialog';
+
+const STATUS_VARIANTS: Record<OTCapExceptionStatus, 'default' | 'secondary' | 'destructive'> = {
+  pending: 'secondary',
+  approved: 'default',
+  rejected: 'destructive',
+};
+
+interface CapExceptionsCardProps {
+  /** Show only exceptions waiting for a decision, without the request button */
+  pendingOnly?: boolean;
+}
+
+/** Requests to let an employee exceed the monthly OT limits, and their decisions */
+export function CapExceptionsCard({ pendingOnly = false }: CapExceptionsCardProps) {
+  const { user } = useAuth();
+  const { data: exceptions = [], isLoading } = useOTCapExceptions();
+  const decideException = useDecideOTCapException();
+  const [showDialog, setShowDialog] = useState(false);
+
+  const visible = pendingOnly ? exceptions.filter((exception) => exception.status === 'pending') : exceptions;
+
+  if (pendingOnly && visible.length === 0) return null;
+
+  return (
+    <Card className="p-4 space-y-4">
+      <div className="flex justify-between items-center gap-3">
+        <div>
+          <h4 className="text-base font-semibold">Cap Exceptions</h4>
+          <p className="text-sm text-muted-foreground">
+            Extra monthly OT hours for one employee. Someone other than the requester must approve.
+          </p>
+        </div>
+        {!pendingOnly && (
+          <Button variant="outline" onClick={() => setShowDialog(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Request Exception
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-20 w-full" />
+      ) : visible.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No exceptions requested.</p>
+      ) : (
+        <div className="space-y-2">
+          {visible.map((exception) => (
+            <div key={exception.id} className="rounded-lg border p-3 text-sm space-y-1">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="font-medium">
+                  {exception.employee?.full_name} ({exception.employee?.employee_id}) · +
+                  {formatHours(exception.extra_hours)} hours in {format(parseISO(exception.month), 'MMMM yyyy')}
+                </div>
+                <Badge variant={STATUS_VARIANTS[exception.status]} className="capitalize">
+                  {exception.status}
+                </Badge>
+              </div>
+              <p className="text-muted-foreground">{exception.justification}</p>
+              <p className="text-xs text-muted-foreground">
+                Requested by {exception.requester?.full_name} on {format(parseISO(exception.created_at), 'dd MMM yyyy')}
+                {exception.decided_at &&
+                  ` · ${exception.status} by ${exception.decider?.full_name} on ${format(parseISO(exception.decided_at), 'dd MMM yyyy')}`}
+              </p>
+              {exception.status === 'pending' && exception.requested_by !== user?.id && (
+                <div className="flex gap-2 pt-1">
+                  <Button
+                    size="sm"
+                    onClick={() => decideException.mutate({ id: exception.id, approve: true })}
+                    disabled={decideException.isPending}
+                  >
+                    <Check className="h-4 w-4 mr-1" />
+                    Approve
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => decideException.mutate({ id: exception.id, approve: false })}
+                    disabled={decideException.isPending}
+                  >
+                    <X className="h-4 w-4 mr-1" />
+                    Reject
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <CapExceptionDialog open={showDialog} onOpenChange={setShowDialog} />
+    </Card>
+  );
+}
@@ -0,0 +1,129 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useCreateCostCentre } from '@/hooks/hr/useCreateCostCentre';
+import { useUpdateCostCentre } from '@/hooks/hr/useUpdateCostCentre';
+import { COST_CENTRE_KIND_LABELS } from '@/lib/costAllocation';
+import { CostCentre, CostCentreKind } from '@/types/otms';
+
+interface CostCentreDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  costCentre?: CostCentre | null;
+}
+
+export function CostCentreDialog({ open, onOpenChange, costCentre }: CostCentreDialogProps) {
+  const [code, setCode] = useState('');
+  const [name, setName] = useState('');
+  const [kind, setKind] = useState<CostCentreKind>('cost_centre');
+  const [clientName, setClientName] = useState('');
+  const [isActive, setIsActive] = useState(true);
+
+  const createCostCentre = useCreateCostCentre();
+  const updateCostCentre = useUpdateCostCentre();
+  const isSaving = createCostCentre.isPending || updateCostCentre.isPending;
+
+  useEffect(() => {
+    if (!open) return;
+    setCode(costCentre?.code ?? '');
+    setName(costCentre?.name ?? '');
+    setKind(costCentre?.kind ?? 'cost_centre');
+    setClientName(costCentre?.client_name ?? '');
+    setIsActive(costCentre?.is_active ?? true);
+  }, [open, costCentre]);
+
+  const handleSubmit = () => {
+    const data = {
+      code: code.trim().toUpperCase(),
+      name: name.trim(),
+      kind,
+      client_name: clientName.trim() || null,
+      is_active: isActive,
+    };
+    const options = { onSuccess: () => onOpenChange(false) };
+
+    if (costCentre) {
+      updateCostCentre.mutate({ id: costCentre.id, ...data }, options);
+    } else {
+      createCostCentre.mutate(data, options);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{costCentre ? 'Edit Cost Centre' : 'Add Cost Centre'}</DialogTitle>
+          <DialogDescription>
+            Employees charge OT sessions to active codes. Deactivate a code instead of removing it so past OT keeps
+            its allocation.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="cost-centre-code">Code *</Label>
+              <Input
+                id="cost-centre-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="e.g. PRJ-1024"
+                className="font-mono"
+              />
+            </div>
+            <div>
+              <Label>Type *</Label>
+              <Select value={kind} onValueChange={(value) => setKind(value as CostCentreKind)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(COST_CENTRE_KIND_LABELS) as CostCentreKind[]).map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {COST_CENTRE_KIND_LABELS[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="cost-centre-name">Name *</Label>
+            <Input id="cost-centre-name" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="cost-centre-client">Client</Label>
+            <Input
+              id="cost-centre-client"
+              value={clientName}
+              onChange={(e) => setClientName(e.target.value)}
+              placeholder="For client cost centres"
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="cost-centre-active" checked={isActive} onCheckedChange={setIsActive} />
+            <Label htmlFor="cost-centre-active">Active</Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            className="bg-[#5F26B4] hover:bg-[#5F26B4]/90"
+            onClick={handleSubmit}
+            disabled={!code.trim() || !name.trim() || isSaving}
+          >
+            {isSaving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
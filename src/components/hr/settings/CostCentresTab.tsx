@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import { Edit, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Switch } from '@/components/ui/switch';
+import { useCostCentres } from '@/hooks/useCostCentres';
+import { useUpdateCostCentre } from '@/hooks/hr/useUpdateCostCentre';
+import { COST_CENTRE_KIND_LABELS } from '@/lib/costAllocation';
+import { CostCentre } from '@/types/otms';
+import { CostCentreDialog } from './CostCentreDialog';
+
+export function CostCentresTab() {
+  const { data: costCentres, isLoading } = useCostCentres();
+  const updateCostCentre = useUpdateCostCentre();
+  const [costCentreToEdit, setCostCentreToEdit] = useState<CostCentre | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  const handleEdit = (costCentre: CostCentre) => {
+    setCostCentreToEdit(costCentre);
+    setIsDialogOpen(true);
+  };
+
+  const handleAdd = () => {
+    setCostCentreToEdit(null);
+    setIsDialogOpen(true);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-semibold">Cost Centres & Projects</h3>
+          <p className="text-sm text-muted-foreground">
+            Codes OT sessions are charged to. Once any are active, every session must be tagged, optionally split
+            across several codes by hours.
+          </p>
+        </div>
+        <Button className="bg-[#5F26B4] hover:bg-[#5F26B4]/90" onClick={handleAdd}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Cost Centre
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : costCentres && costCentres.length > 0 ? (
+          costCentres.map((costCentre) => (
+            <Card key={costCentre.id} className="p-4 flex flex-wrap items-center justify-between gap-4">
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="font-mono font-semibold">{costCentre.code}</span>
+                  <span>{costCentre.name}</span>
+                  <Badge variant="secondary">{COST_CENTRE_KIND_LABELS[costCentre.kind]}</Badge>
+                </div>
+                {costCentre.client_name && (
+                  <p className="text-sm text-muted-foreground">Client: {costCentre.client_name}</p>
+                )}
+              </div>
+              <div className="flex items-center gap-3">
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id={`cost-centre-active-${costCentre.id}`}
+                    checked={costCentre.is_active}
+                    onCheckedChange={(checked) => updateCostCentre.mutate({ id: costCentre.id, is_active: checked })}
+                    disabled={updateCostCentre.isPending}
+                  />
+                  <label htmlFor={`cost-centre-active-${costCentre.id}`} className="text-sm">
+                    Active
+                  </label>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => handleEdit(costCentre)}>
+                  <Edit className="h-4 w-4" />
+                </Button>
+              </div>
+            </Card>
+          ))
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">
+            No cost centres yet. OT is not charged to projects until you add one.
+          </div>
+        )}
+      </div>
+
+      <CostCentreDialog open={isDialogOpen} onOpenChange={setIsDialogOpen} costCentre={costCentreToEdit} />
+    </div>
+  );
+}
@@ -1,37 +1,33 @@
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Edit, Trash2, Copy, Calculator } from 'lucide-react';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Edit, Trash2, Copy, Calculator, ChevronDown, History } from 'lucide-react';
 import { format } from 'date-fns';
-
-interface RateFormula {
-  id: string;
-  formula_name: string;
-  day_type: string;
-  orp_definition?: string;
-  hrp_definition?: string;
-  multiplier: number;
-  base_formula: string;
-  is_active: boolean;
-  effective_from: string;
-  effective_to: string | null;
-  employee_category: string;
-}
+import { RateFormula } from '@/types/otms';
 
 interface FormulaCardProps {
+  /** Latest version */
   formula: RateFormula;
+  /** Earlier versions, newest first */
+  history?: RateFormula[];
   onEdit: (formula: RateFormula) => void;
   onDelete: (formula: RateFormula) => void;
   onDuplicate: (formula: RateFormula) => void;
 }
 
-export function FormulaCard({ formula, onEdit, onDelete, onDuplicate }: FormulaCardProps) {
+export function FormulaCard({ formula, history = [], onEdit, onDelete, onDuplicate }: FormulaCardProps) {
   const formatDayType = (dayType: string) => {
     return dayType.replace('_', ' ').replace(/\b\w/g, l => l.toUpperCase());
   };
 
-  const buildFormulaExpression = () => {
-    return `(${formula.base_formula}) × ${formula.multiplier}`;
+  const buildFormulaExpression = (version: RateFormula = formula) => {
+    return `(${version.base_formula}) × ${version.multiplier}`;
+  };
+
+  const formatEffectiveRange = (version: RateFormula) => {
+    const from = format(new Date(version.effective_from), 'dd MMM yyyy');
+    return version.effective_to ? `${from} – ${format(new Date(version.effective_to), 'dd MMM yyyy')}` : `${from} onwards`;
   };
 
   return (
@@ -40,6 +36,7 @@ export function FormulaCard({ formula, onEdit, onDelete, onDuplicate }: FormulaC
       <div className="flex justify-between items-center">
         <h4 className="text-base font-semibold text-foreground">
           {formula.formula_name}
+          <Badge variant="outline" className="ml-2 align-middle">v{formula.version}</Badge>
         </h4>
         <Badge 
           variant={formula.is_active ? 'default' : 'secondary'}
@@ -76,12 +73,36 @@ export function FormulaCard({ formula, onEdit, onDelete, onDuplicate }: FormulaC
 
       {/* Effective Date */}
       <div className="flex justify-between items-center text-sm">
-        <span className="text-muted-foreground">Effective From:</span>
+        <span className="text-muted-foreground">Effective:</span>
         <span className="font-semibold text-foreground">
-          {format(new Date(formula.effective_from), 'dd MMM yyyy')}
+          {formatEffectiveRange(formula)}
         </span>
       </div>
 
+      {/* Earlier Versions */}
+      {history.length > 0 && (
+        <Collapsible>
+          <CollapsibleTrigger asChild>
+            <Button variant="ghost" size="sm" className="px-0 text-muted-foreground">
+              <History className="h-4 w-4 mr-2" />
+              {history.length} earlier version(s)
+              <ChevronDown className="h-4 w-4 ml-1" />
+            </Button>
+          </CollapsibleTrigger>
+          <CollapsibleContent className="space-y-2 pt-2">
+            {history.map((version) => (
+              <div key={version.id} className="flex flex-wrap items-center justify-between gap-2 rounded-md border p-3 text-sm">
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline">v{version.version}</Badge>
+                  <code className="text-xs font-mono">{buildFormulaExpression(version)}</code>
+                </div>
+                <span className="text-muted-foreground">{formatEffectiveRange(version)}</span>
+              </div>
+            ))}
+          </CollapsibleContent>
+        </Collapsible>
+      )}
+
       {/* Action Buttons */}
       <div className="flex justify-end gap-2">
         <Button
@@ -96,7 +117,7 @@ export function FormulaCard({ formula, onEdit, onDelete, onDuplicate }: FormulaC
           variant="ghost"
           size="icon"
           onClick={() => onEdit(formula)}
-          title="Edit Formula"
+          title="Publish New Version"
         >
           <Edit className="h-4 w-4" />
         </Button>
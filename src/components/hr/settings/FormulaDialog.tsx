@@ -20,7 +20,6 @@ import {
   FormMessage,
 } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
-import { Textarea } from '@/components/ui/textarea';
 import {
   Select,
   SelectContent,
@@ -29,14 +28,17 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Switch } from '@/components/ui/switch';
-import { Label } from '@/components/ui/label';
 import { useCreateRateFormula } from '@/hooks/hr/useCreateRateFormula';
-import { useUpdateRateFormula } from '@/hooks/hr/useUpdateRateFormula';
-import { validateFormulaSyntax, evaluateFormula } from '@/lib/formulaValidator';
+import { usePublishRateFormulaVersion } from '@/hooks/hr/usePublishRateFormulaVersion';
+import { validateFormulaSyntax } from '@/lib/formulaValidator';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { AlertCircle, CheckCircle2 } from 'lucide-react';
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { FormDescription } from '@/components/ui/form';
+import { FormulaInput } from './FormulaInput';
+import { FormulaPreviewCard } from './FormulaPreviewCard';
+import { FormulaImpactPreview } from './FormulaImpactPreview';
+import { RateFormula } from '@/types/otms';
+import { addDays, format, parseISO } from 'date-fns';
 
 const formulaSchema = z.object({
   formula_name: z.string().min(1, 'Formula name is required').max(100),
@@ -51,22 +53,27 @@ const formulaSchema = z.object({
 
 type FormulaFormValues = z.infer<typeof formulaSchema>;
 
+/** Earliest start for the next version: today, or the day after the latest version starts */
+function nextVersionStart(latest: RateFormula): string {
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const afterLatest = format(addDays(parseISO(latest.effective_from), 1), 'yyyy-MM-dd');
+  return afterLatest > today ? afterLatest : today;
+}
+
 interface FormulaDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  formula?: any;
+  /** Latest version of the formula to publish a new version of */
+  formula?: RateFormula | null;
   onSuccess?: () => void;
 }
 
 export function FormulaDialog({ open, onOpenChange, formula, onSuccess }: FormulaDialogProps) {
   const isEditing = !!formula;
   const createFormula = useCreateRateFormula();
-  const updateFormula = useUpdateRateFormula();
+  const publishVersion = usePublishRateFormulaVersion();
   
   const [formulaValidation, setFormulaValidation] = useState<{ isValid: boolean; errors: string[] }>({ isValid: true, errors: [] });
-  const [previewBasicSalary, setPreviewBasicSalary] = useState<string>('3000');
-  const [previewHours, setPreviewHours] = useState<string>('4');
-  const [previewResult, setPreviewResult] = useState<any>(null);
 
   const form = useForm<FormulaFormValues>({
     resolver: zodResolver(formulaSchema),
@@ -92,7 +99,7 @@ export function FormulaDialog({ open, onOpenChange, formula, onSuccess }: Formul
         multiplier: formula.multiplier,
         base_formula: formula.base_formula,
         is_active: formula.is_active,
-        effective_from: formula.effective_from,
+        effective_from: nextVersionStart(formula),
       });
     } else {
       form.reset({
@@ -110,8 +117,17 @@ export function FormulaDialog({ open, onOpenChange, formula, onSuccess }: Formul
 
   const onSubmit = async (data: FormulaFormValues) => {
     if (isEditing) {
-      updateFormula.mutate(
-        { id: formula.id, ...data },
+      publishVersion.mutate(
+        {
+          formula_id: formula.id,
+          formula_name: data.formula_name,
+          orp_definition: data.orp_definition,
+          hrp_definition: data.hrp_definition,
+          multiplier: data.multiplier,
+          base_formula: data.base_formula,
+          is_active: data.is_active,
+          effective_from: data.effective_from,
+        },
         {
           onSuccess: () => {
             onSuccess?.();
@@ -144,7 +160,6 @@ export function FormulaDialog({ open, onOpenChange, formula, onSuccess }: Formul
   const handleClose = () => {
     form.reset();
     setFormulaValidation({ isValid: true, errors: [] });
-    setPreviewResult(null);
     onOpenChange(false);
   };
 
@@ -153,33 +168,14 @@ export function FormulaDialog({ open, onOpenChange, formula, onSuccess }: Formul
     setFormulaValidation(validation);
   };
 
-  const handlePreview = () => {
-    const baseFormula = form.getValues('base_formula');
-    const multiplier = form.getValues('multiplier');
-    const basicSalary = parseFloat(previewBasicSalary);
-    const hours = parseFloat(previewHours);
-
-    if (!basicSalary || !hours || basicSalary <= 0 || hours <= 0) {
-      setPreviewResult({ error: 'Please enter valid positive numbers for salary and hours' });
-      return;
-    }
-
-    try {
-      const result = evaluateFormula(baseFormula, basicSalary, hours, multiplier);
-      setPreviewResult(result);
-    } catch (e: any) {
-      setPreviewResult({ error: e.message });
-    }
-  };
-
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="w-[95vw] sm:max-w-2xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle className="text-lg sm:text-xl">{isEditing ? 'Edit Rate Formula' : 'Add Rate Formula'}</DialogTitle>
+          <DialogTitle className="text-lg sm:text-xl">{isEditing ? `Publish Version ${formula.version + 1}` : 'Add Rate Formula'}</DialogTitle>
           <DialogDescription className="text-xs sm:text-sm">
             {isEditing
-              ? 'Update the rate formula details below.'
+              ? `Changes take effect as a new version from the date below. OT before that date keeps version ${formula.version}.`
               : 'Create a new rate formula for OT calculations.'}
           </DialogDescription>
         </DialogHeader>
@@ -211,7 +207,7 @@ export function FormulaDialog({ open, onOpenChange, formula, onSuccess }: Formul
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel className="text-xs sm:text-sm">Day Type *</FormLabel>
-                    <Select onValueChange={field.onChange} value={field.value}>
+                    <Select onValueChange={field.onChange} value={field.value} disabled={isEditing}>
                       <FormControl>
                         <SelectTrigger className="h-10 sm:h-9 text-base sm:text-sm">
                           <SelectValue placeholder="Select day type" />
@@ -258,6 +254,7 @@ export function FormulaDialog({ open, onOpenChange, formula, onSuccess }: Formul
                     <FormControl>
                       <Input
                         type="date"
+                        min={isEditing ? nextVersionStart(formula) : undefined}
                         className="h-10 sm:h-9 text-base sm:text-sm"
                         {...field}
                       />
@@ -339,18 +336,22 @@ export function FormulaDialog({ open, onOpenChange, formula, onSuccess }: Formul
                 <FormItem>
                   <FormLabel>Base Formula *</FormLabel>
                   <FormControl>
-                    <Textarea
-                      placeholder="e.g., HRP * Hours or IF(Hours <= 4, 0.5 * ORP, 1 * ORP)"
-                      className="min-h-[100px]"
-                      {...field}
-                      onBlur={(e) => {
+                    <FormulaInput
+                      ref={field.ref}
+                      value={field.value}
+                      onChange={field.onChange}
+                      onBlur={(value) => {
                         field.onBlur();
-                        handleFormulaValidation(e.target.value);
+                        handleFormulaValidation(value);
                       }}
+                      placeholder="e.g., HRP * Hours or IF(DayType = 'sunday', MIN(Hours, 8) * 2 * HRP, 1.5 * HRP * Hours)"
+                      className="min-h-[100px]"
                     />
                   </FormControl>
                   <FormDescription className="text-xs">
-                    Allowed variables: Hours, ORP, HRP, Basic. Use IF(condition, true_value, false_value) for conditional logic.
+                    Start typing for variables and functions: Hours, ORP, HRP, Basic, OTBase, DayType, IsStateHoliday,
+                    HoursBeyondNormal, NightHours, EmploymentType, MonthHoursToDate. Use IF(condition, true_value,
+                    false_value) for conditional logic and quote text, e.g. DayType = 'sunday'.
                   </FormDescription>
                   {!formulaValidation.isValid && (
                     <Alert variant="destructive" className="mt-2">
@@ -376,59 +377,19 @@ export function FormulaDialog({ open, onOpenChange, formula, onSuccess }: Formul
             />
 
             {/* Formula Preview Section */}
-            <Card className="mt-4">
-              <CardHeader>
-                <CardTitle className="text-sm">Formula Preview & Testing</CardTitle>
-                <CardDescription>Test your formula with sample values</CardDescription>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                <div className="grid grid-cols-2 gap-4">
-                  <div>
-                    <Label htmlFor="preview-salary">Sample Basic Salary (RM)</Label>
-                    <Input
-                      id="preview-salary"
-                      type="number"
-                      value={previewBasicSalary}
-                      onChange={(e) => setPreviewBasicSalary(e.target.value)}
-                      placeholder="3000"
-                    />
-                  </div>
-                  <div>
-                    <Label htmlFor="preview-hours">Sample Hours Worked</Label>
-                    <Input
-                      id="preview-hours"
-                      type="number"
-                      step="0.5"
-                      value={previewHours}
-                      onChange={(e) => setPreviewHours(e.target.value)}
-                      placeholder="4"
-                    />
-                  </div>
-                </div>
-                <Button type="button" variant="outline" onClick={handlePreview} className="w-full">
-                  Preview Result
-                </Button>
-                {previewResult && (
-                  <div className="mt-4">
-                    {previewResult.error ? (
-                      <Alert variant="destructive">
-                        <AlertCircle className="h-4 w-4" />
-                        <AlertDescription>{previewResult.error}</AlertDescription>
-                      </Alert>
-                    ) : (
-                      <Alert className="border-blue-500 bg-blue-50 dark:bg-blue-950">
-                        <CheckCircle2 className="h-4 w-4 text-blue-600" />
-                        <AlertDescription>
-                          <div className="space-y-1 text-sm whitespace-pre-line font-mono text-blue-800 dark:text-blue-200">
-                            {previewResult.breakdown}
-                          </div>
-                        </AlertDescription>
-                      </Alert>
-                    )}
-                  </div>
-                )}
-              </CardContent>
-            </Card>
+            <FormulaPreviewCard
+              formula={form.watch('base_formula') || ''}
+              multiplier={Number(form.watch('multiplier')) || 0}
+              dayType={form.watch('day_type')}
+            />
+
+            <FormulaImpactPreview
+              formula={form.watch('base_formula') || ''}
+              multiplier={Number(form.watch('multiplier')) || 0}
+              dayType={form.watch('day_type')}
+              employeeCategory={formula?.employee_category || 'All'}
+              effectiveFrom={form.watch('effective_from')}
+            />
 
             <DialogFooter>
               <Button type="button" variant="outline" onClick={handleClose}>
@@ -437,12 +398,12 @@ export function FormulaDialog({ open, onOpenChange, formula, onSuccess }: Formul
               <Button
                 type="submit"
                 className="bg-[#5F26B4] hover:bg-[#5F26B4]/90"
-                disabled={createFormula.isPending || updateFormula.isPending}
+                disabled={createFormula.isPending || publishVersion.isPending}
               >
-                {createFormula.isPending || updateFormula.isPending
+                {createFormula.isPending || publishVersion.isPending
                   ? 'Saving...'
                   : isEditing
-                  ? 'Update Formula'
+                  ? 'Publish Version'
                   : 'Create Formula'}
               </Button>
             </DialogFooter>
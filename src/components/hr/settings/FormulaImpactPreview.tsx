@@ -0,0 +1,158 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { AlertCircle, Loader2 } from 'lucide-react';
+import { useFormulaVersionImpact } from '@/hooks/hr/useFormulaVersionImpact';
+import { summarizeFormulaImpact } from '@/lib/formulaVersions';
+import { formatCurrency } from '@/lib/otCalculations';
+import { DayType } from '@/types/otms';
+
+interface FormulaImpactPreviewProps {
+  formula: string;
+  multiplier: number;
+  dayType: DayType;
+  employeeCategory: string;
+  effectiveFrom: string;
+}
+
+const deltaClass = (delta: number) =>
+  delta > 0 ? 'text-green-600' : delta < 0 ? 'text-destructive' : 'text-muted-foreground';
+
+/**
+ * What-if for a draft version: recalculates existing OT in a date range with
+ * the draft and shows the change per employee and month. Nothing is saved.
+ */
+export function FormulaImpactPreview({
+  formula,
+  multiplier,
+  dayType,
+  employeeCategory,
+  effectiveFrom,
+}: FormulaImpactPreviewProps) {
+  const impact = useFormulaVersionImpact();
+  const [from, setFrom] = useState(effectiveFrom);
+  const [to, setTo] = useState('');
+
+  useEffect(() => {
+    setFrom(effectiveFrom);
+  }, [effectiveFrom]);
+
+  const rows = impact.data || [];
+  const totals = summarizeFormulaImpact(rows);
+
+  const runPreview = () => {
+    impact.mutate({
+      day_type: dayType,
+      employee_category: employeeCategory,
+      base_formula: formula,
+      multiplier,
+      from,
+      to: to || null,
+    });
+  };
+
+  return (
+    <Card className="mt-4">
+      <CardHeader>
+        <CardTitle className="text-sm">Impact on Existing OT</CardTitle>
+        <CardDescription>
+          Applies this version to {dayType.replace('_', ' ')} OT already submitted in the range and compares it with
+          the amounts calculated so far
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 items-end">
+          <div>
+            <Label htmlFor="impact-from">From</Label>
+            <Input id="impact-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="impact-to">To</Label>
+            <Input id="impact-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={runPreview}
+            disabled={!formula.trim() || !from || impact.isPending}
+          >
+            {impact.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Preview Impact
+          </Button>
+        </div>
+
+        {impact.error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{impact.error.message}</AlertDescription>
+          </Alert>
+        )}
+
+        {impact.isSuccess && rows.length === 0 && (
+          <p className="text-sm text-muted-foreground">No OT in this range would be affected.</p>
+        )}
+
+        {rows.length > 0 && (
+          <>
+            <div className="max-h-72 overflow-y-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Employee</TableHead>
+                    <TableHead>Month</TableHead>
+                    <TableHead className="text-right">Hours</TableHead>
+                    <TableHead className="text-right">Current</TableHead>
+                    <TableHead className="text-right">Proposed</TableHead>
+                    <TableHead className="text-right">Change</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row) => (
+                    <TableRow key={`${row.employee_id}-${row.month}`}>
+                      <TableCell>{row.employee_name}</TableCell>
+                      <TableCell>{row.month}</TableCell>
+                      <TableCell className="text-right">{Number(row.total_hours)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(Number(row.current_amount))}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(Number(row.proposed_amount))}</TableCell>
+                      <TableCell className={`text-right ${deltaClass(Number(row.delta))}`}>
+                        {formatCurrency(Number(row.delta))}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+                <TableFooter>
+                  <TableRow>
+                    <TableCell colSpan={2}>{totals.employees} employee(s)</TableCell>
+                    <TableCell className="text-right">{totals.totalHours}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(totals.currentAmount)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(totals.proposedAmount)}</TableCell>
+                    <TableCell className={`text-right ${deltaClass(totals.delta)}`}>
+                      {formatCurrency(totals.delta)}
+                    </TableCell>
+                  </TableRow>
+                </TableFooter>
+              </Table>
+            </div>
+            {totals.failedDays > 0 && (
+              <p className="text-xs text-destructive">
+                The formula could not be evaluated for {totals.failedDays} day(s); their current amounts are kept.
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,119 @@
+import { forwardRef, KeyboardEvent, useImperativeHandle, useRef, useState } from 'react';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { FormulaCompletionResult, getFormulaCompletions } from '@/lib/formulaValidator';
+
+interface FormulaInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  onBlur?: (value: string) => void;
+  placeholder?: string;
+  className?: string;
+}
+
+/**
+ * Formula textarea that suggests variables and functions for the word at the
+ * caret. Arrow keys move through suggestions, Enter or Tab inserts one.
+ */
+export const FormulaInput = forwardRef<HTMLTextAreaElement, FormulaInputProps>(
+  ({ value, onChange, onBlur, placeholder, className }, ref) => {
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+    useImperativeHandle(ref, () => textareaRef.current as HTMLTextAreaElement);
+
+    const [completions, setCompletions] = useState<FormulaCompletionResult | null>(null);
+    const [activeIndex, setActiveIndex] = useState(0);
+
+    const updateCompletions = (text: string, caret: number) => {
+      setCompletions(getFormulaCompletions(text, caret));
+      setActiveIndex(0);
+    };
+
+    const applyCompletion = (index: number) => {
+      if (!completions) return;
+      const { insertText } = completions.suggestions[index];
+      const next = value.slice(0, completions.from) + insertText + value.slice(completions.to);
+      const caret = completions.from + insertText.length;
+
+      onChange(next);
+      setCompletions(null);
+      requestAnimationFrame(() => {
+        textareaRef.current?.focus();
+        textareaRef.current?.setSelectionRange(caret, caret);
+      });
+    };
+
+    const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+      if (!completions) return;
+      const count = completions.suggestions.length;
+
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        setActiveIndex((index) => (index + (e.key === 'ArrowDown' ? 1 : count - 1)) % count);
+      } else if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        applyCompletion(activeIndex);
+      } else if (e.key === 'Escape') {
+        e.preventDefault();
+        setCompletions(null);
+      }
+    };
+
+    return (
+      <div className="relative">
+        <Textarea
+          ref={textareaRef}
+          value={value}
+          placeholder={placeholder}
+          className={cn('font-mono', className)}
+          spellCheck={false}
+          onChange={(e) => {
+            onChange(e.target.value);
+            updateCompletions(e.target.value, e.target.selectionStart);
+          }}
+          onKeyDown={handleKeyDown}
+          onClick={(e) => updateCompletions(value, e.currentTarget.selectionStart)}
+          onBlur={(e) => {
+            setCompletions(null);
+            onBlur?.(e.target.value);
+          }}
+          aria-autocomplete="list"
+          aria-expanded={!!completions}
+        />
+        {completions && (
+          <ul
+            role="listbox"
+            className="absolute z-50 mt-1 max-h-56 w-full overflow-y-auto rounded-md border bg-popover p-1 text-popover-foreground shadow-md"
+          >
+            {completions.suggestions.map((suggestion, index) => (
+              <li
+                key={suggestion.label}
+                role="option"
+                aria-selected={index === activeIndex}
+                className={cn(
+                  'flex cursor-pointer items-center justify-between gap-2 rounded-sm px-2 py-1.5 text-sm',
+                  index === activeIndex && 'bg-accent text-accent-foreground'
+                )}
+                // mousedown so the textarea keeps focus until the text is inserted
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  applyCompletion(index);
+                }}
+                onMouseEnter={() => setActiveIndex(index)}
+              >
+                <span className="font-mono">{suggestion.label}</span>
+                <span className="flex items-center gap-2 truncate text-xs text-muted-foreground">
+                  <span className="truncate">{suggestion.description}</span>
+                  <Badge variant="outline" className="text-[10px]">
+                    {suggestion.kind}
+                  </Badge>
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+  }
+);
+FormulaInput.displayName = 'FormulaInput';
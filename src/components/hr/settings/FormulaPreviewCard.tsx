@@ -0,0 +1,225 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AlertCircle, CheckCircle2 } from 'lucide-react';
+import { useEmployees } from '@/hooks/hr/useEmployees';
+import { useMonthOTHoursToDate } from '@/hooks/hr/useMonthOTHoursToDate';
+import { useEmployeeRoster } from '@/hooks/useEmployeeRoster';
+import { evaluateFormula } from '@/lib/formulaValidator';
+import { OTFormulaDayType, getNightHours, getSessionHours } from '@/lib/formulaEngine';
+
+const CUSTOM_SAMPLE = 'custom';
+const EMPLOYMENT_TYPES = ['Permanent', 'Contract', 'Internship'];
+
+interface FormulaPreviewCardProps {
+  formula: string;
+  multiplier: number;
+  dayType: OTFormulaDayType;
+}
+
+/**
+ * Live preview of a rate formula against a sample employee and OT session.
+ * Picking an employee fills in their salary, OT base, employment type, OT
+ * hours earlier in the month and rostered normal hours on the date; every
+ * value can still be edited.
+ */
+export function FormulaPreviewCard({ formula, multiplier, dayType }: FormulaPreviewCardProps) {
+  const { data: employees = [] } = useEmployees();
+
+  const [employeeId, setEmployeeId] = useState(CUSTOM_SAMPLE);
+  const [otDate, setOtDate] = useState(new Date().toISOString().split('T')[0]);
+  const [basicSalary, setBasicSalary] = useState('3000');
+  const [otBase, setOtBase] = useState('');
+  const [employmentType, setEmploymentType] = useState('Permanent');
+  const [startTime, setStartTime] = useState('18:00');
+  const [endTime, setEndTime] = useState('22:00');
+  const [isStateHoliday, setIsStateHoliday] = useState(false);
+  const [monthHoursToDate, setMonthHoursToDate] = useState('0');
+  const [normalHours, setNormalHours] = useState('8');
+
+  const sampleEmployeeId = employeeId === CUSTOM_SAMPLE ? undefined : employeeId;
+  const { data: employeeMonthHours } = useMonthOTHoursToDate(sampleEmployeeId, otDate);
+  const { data: employeeRoster } = useEmployeeRoster(sampleEmployeeId, otDate, otDate);
+
+  useEffect(() => {
+    const employee = employees.find((e) => e.id === sampleEmployeeId);
+    if (!employee) return;
+    setBasicSalary(String(employee.basic_salary ?? 0));
+    setOtBase(employee.ot_base != null ? String(employee.ot_base) : '');
+    setEmploymentType(employee.employment_type || '');
+  }, [employees, sampleEmployeeId]);
+
+  useEffect(() => {
+    if (employeeMonthHours !== undefined) setMonthHoursToDate(String(employeeMonthHours));
+  }, [employeeMonthHours]);
+
+  // Unrostered dates fall back to an 8-hour day, like ot_formula_day_variables
+  useEffect(() => {
+    if (employeeRoster) setNormalHours(String(employeeRoster[0]?.normal_hours ?? 8));
+  }, [employeeRoster]);
+
+  const hours = startTime && endTime ? getSessionHours(startTime, endTime) : 0;
+  const nightHours = startTime && endTime ? getNightHours(startTime, endTime) : 0;
+
+  const preview = useMemo(() => {
+    if (!formula.trim()) return null;
+
+    const basic = parseFloat(basicSalary);
+    if (!basic || basic <= 0 || hours <= 0) {
+      return { error: 'Enter a positive salary and a start and end time' };
+    }
+
+    try {
+      return evaluateFormula(
+        formula,
+        {
+          basicSalary: basic,
+          otBase: otBase ? parseFloat(otBase) : null,
+          hours,
+          dayType,
+          isStateHoliday,
+          nightHours,
+          normalHours: parseFloat(normalHours) || null,
+          employmentType,
+          monthHoursToDate: parseFloat(monthHoursToDate) || 0,
+        },
+        multiplier
+      );
+    } catch (e) {
+      return { error: e instanceof Error ? e.message : String(e) };
+    }
+  }, [formula, multiplier, dayType, basicSalary, otBase, hours, nightHours, isStateHoliday, normalHours, employmentType, monthHoursToDate]);
+
+  return (
+    <Card className="mt-4">
+      <CardHeader>
+        <CardTitle className="text-sm">Formula Preview & Testing</CardTitle>
+        <CardDescription>
+          Live result for a sample {dayType.replace('_', ' ')} OT session
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="sm:col-span-2">
+            <Label htmlFor="preview-employee">Sample Employee</Label>
+            <Select value={employeeId} onValueChange={setEmployeeId}>
+              <SelectTrigger id="preview-employee">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={CUSTOM_SAMPLE}>Custom values</SelectItem>
+                {employees.map((employee) => (
+                  <SelectItem key={employee.id} value={employee.id}>
+                    {employee.full_name} ({employee.employee_id})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="preview-salary">Basic Salary (RM)</Label>
+            <Input
+              id="preview-salary"
+              type="number"
+              value={basicSalary}
+              onChange={(e) => setBasicSalary(e.target.value)}
+              placeholder="3000"
+            />
+          </div>
+          <div>
+            <Label htmlFor="preview-ot-base">OT Base (RM)</Label>
+            <Input
+              id="preview-ot-base"
+              type="number"
+              value={otBase}
+              onChange={(e) => setOtBase(e.target.value)}
+              placeholder="Same as basic"
+            />
+          </div>
+          <div>
+            <Label htmlFor="preview-employment-type">Employment Type</Label>
+            <Select value={employmentType} onValueChange={setEmploymentType}>
+              <SelectTrigger id="preview-employment-type">
+                <SelectValue placeholder="Select Type" />
+              </SelectTrigger>
+              <SelectContent>
+                {EMPLOYMENT_TYPES.map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {type}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="preview-date">OT Date</Label>
+            <Input id="preview-date" type="date" value={otDate} onChange={(e) => setOtDate(e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="preview-start">Start Time</Label>
+            <Input id="preview-start" type="time" value={startTime} onChange={(e) => setStartTime(e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="preview-end">End Time</Label>
+            <Input id="preview-end" type="time" value={endTime} onChange={(e) => setEndTime(e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="preview-month-hours">OT Hours Earlier This Month</Label>
+            <Input
+              id="preview-month-hours"
+              type="number"
+              step="0.5"
+              value={monthHoursToDate}
+              onChange={(e) => setMonthHoursToDate(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="preview-normal-hours">Normal Hours</Label>
+            <Input
+              id="preview-normal-hours"
+              type="number"
+              step="0.5"
+              value={normalHours}
+              onChange={(e) => setNormalHours(e.target.value)}
+            />
+          </div>
+          <div className="flex items-center justify-between rounded-lg border px-3 py-2">
+            <Label htmlFor="preview-state-holiday">State Holiday</Label>
+            <Switch id="preview-state-holiday" checked={isStateHoliday} onCheckedChange={setIsStateHoliday} />
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {+hours.toFixed(2)} hour(s), {+nightHours.toFixed(2)} of them between 22:00 and 06:00
+        </p>
+
+        {preview && (
+          'error' in preview ? (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{preview.error}</AlertDescription>
+            </Alert>
+          ) : (
+            <Alert className="border-blue-500 bg-blue-50 dark:bg-blue-950">
+              <CheckCircle2 className="h-4 w-4 text-blue-600" />
+              <AlertDescription>
+                <div className="space-y-1 text-sm whitespace-pre-line font-mono text-blue-800 dark:text-blue-200">
+                  {preview.breakdown}
+                </div>
+              </AlertDescription>
+            </Alert>
+          )
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -5,6 +5,8 @@ import { useRateFormulas } from '@/hooks/hr/useRateFormulas';
 import { useDeleteRateFormula } from '@/hooks/hr/useDeleteRateFormula';
 import { useCreateRateFormula } from '@/hooks/hr/useCreateRateFormula';
 import { FormulaCard } from './FormulaCard';
+import { groupFormulaVersions } from '@/lib/formulaVersions';
+import { RateFormula } from '@/types/otms';
 import { FormulaDialog } from './FormulaDialog';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
@@ -23,19 +25,19 @@ export function FormulasTab() {
   const { data: formulas, isLoading } = useRateFormulas();
   const deleteFormula = useDeleteRateFormula();
   const createFormula = useCreateRateFormula();
-  const [formulaToDelete, setFormulaToDelete] = useState<any>(null);
-  const [formulaToEdit, setFormulaToEdit] = useState<any>(null);
+  const [formulaToDelete, setFormulaToDelete] = useState<RateFormula | null>(null);
+  const [formulaToEdit, setFormulaToEdit] = useState<RateFormula | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [activeDayType, setActiveDayType] = useState<string>('weekday');
 
   const handleDelete = () => {
     if (formulaToDelete) {
-      deleteFormula.mutate(formulaToDelete.id);
+      deleteFormula.mutate(formulaToDelete);
       setFormulaToDelete(null);
     }
   };
 
-  const handleEdit = (formula: any) => {
+  const handleEdit = (formula: RateFormula) => {
     setFormulaToEdit(formula);
     setIsDialogOpen(true);
   };
@@ -45,7 +47,7 @@ export function FormulasTab() {
     setIsDialogOpen(true);
   };
 
-  const handleDuplicate = (formula: any) => {
+  const handleDuplicate = (formula: RateFormula) => {
     createFormula.mutate({
       formula_name: `${formula.formula_name} (Copy)`,
       day_type: formula.day_type,
@@ -60,7 +62,7 @@ export function FormulasTab() {
     });
   };
 
-  const filteredFormulas = formulas?.filter(f => f.day_type === activeDayType) || [];
+  const filteredFormulas = groupFormulaVersions(formulas?.filter(f => f.day_type === activeDayType) || []);
 
   const formatTabLabel = (dayType: string) => {
     return dayType === 'public_holiday' ? 'Public Holiday' : 
@@ -121,10 +123,11 @@ export function FormulasTab() {
             <Skeleton className="h-48 w-full" />
           </>
         ) : filteredFormulas.length > 0 ? (
-          filteredFormulas.map((formula) => (
+          filteredFormulas.map((group) => (
             <FormulaCard
-              key={formula.id}
-              formula={formula}
+              key={group.groupId}
+              formula={group.latest}
+              history={group.versions.slice(1)}
               onEdit={handleEdit}
               onDelete={setFormulaToDelete}
               onDuplicate={handleDuplicate}
@@ -153,7 +156,9 @@ export function FormulasTab() {
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Rate Formula</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete "{formulaToDelete?.formula_name}"? This action cannot be undone.
+              Are you sure you want to delete version {formulaToDelete?.version} of "{formulaToDelete?.formula_name}"?
+              {formulaToDelete?.supersedes_id && ' The previous version will apply again from its start date.'} This
+              action cannot be undone.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -0,0 +1,236 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useCompanies } from '@/hooks/hr/useCompanies';
+import { useDepartments } from '@/hooks/hr/useDepartments';
+import { useCreateOTReason } from '@/hooks/hr/useCreateOTReason';
+import { useUpdateOTReason } from '@/hooks/hr/useUpdateOTReason';
+import { OTReason } from '@/types/otms';
+
+const ALL = 'all';
+
+const RULES = [
+  {
+    key: 'requires_details',
+    label: 'Employee must explain',
+    hint: 'Asks for a written reason of at least 10 characters',
+  },
+  {
+    key: 'requires_attachment',
+    label: 'Attachment required',
+    hint: 'At least one supporting document',
+  },
+  {
+    key: 'requires_respective_supervisor',
+    label: 'Instructing supervisor required',
+    hint: 'The request follows Route B through the supervisor who instructed it',
+  },
+  {
+    key: 'counts_toward_limits',
+    label: 'Counts toward OT limits',
+    hint: 'Off for OT exempt from the statutory cap and the configured limits',
+  },
+] as const;
+
+type RuleKey = (typeof RULES)[number]['key'];
+
+interface OTReasonDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  reason?: OTReason | null;
+}
+
+export function OTReasonDialog({ open, onOpenChange, reason }: OTReasonDialogProps) {
+  const [label, setLabel] = useState('');
+  const [description, setDescription] = useState('');
+  const [companyId, setCompanyId] = useState(ALL);
+  const [departmentIds, setDepartmentIds] = useState<string[]>([]);
+  const [rules, setRules] = useState<Record<RuleKey, boolean>>({
+    requires_details: false,
+    requires_attachment: false,
+    requires_respective_supervisor: false,
+    counts_toward_limits: true,
+  });
+  const [maxHours, setMaxHours] = useState('');
+  const [sortOrder, setSortOrder] = useState('0');
+  const [isActive, setIsActive] = useState(true);
+
+  const { data: companies = [] } = useCompanies();
+  const { data: departments = [] } = useDepartments();
+  const createReason = useCreateOTReason();
+  const updateReason = useUpdateOTReason();
+  const isSaving = createReason.isPending || updateReason.isPending;
+
+  useEffect(() => {
+    if (!open) return;
+    setLabel(reason?.label ?? '');
+    setDescription(reason?.description ?? '');
+    setCompanyId(reason?.company_id ?? ALL);
+    setDepartmentIds(reason?.applies_to_department_ids ?? []);
+    setRules({
+      requires_details: reason?.requires_details ?? false,
+      requires_attachment: reason?.requires_attachment ?? false,
+      requires_respective_supervisor: reason?.requires_respective_supervisor ?? false,
+      counts_toward_limits: reason?.counts_toward_limits ?? true,
+    });
+    setMaxHours(reason?.max_hours != null ? String(reason.max_hours) : '');
+    setSortOrder(String(reason?.sort_order ?? 0));
+    setIsActive(reason?.is_active ?? true);
+  }, [open, reason]);
+
+  const toggleDepartment = (departmentId: string) => {
+    setDepartmentIds((current) =>
+      current.includes(departmentId) ? current.filter((id) => id !== departmentId) : [...current, departmentId]
+    );
+  };
+
+  const parsedMaxHours = maxHours.trim() ? Number(maxHours) : null;
+  const isMaxHoursValid = parsedMaxHours === null || parsedMaxHours > 0;
+
+  const handleSubmit = () => {
+    const data = {
+      label: label.trim(),
+      description: description.trim() || null,
+      company_id: companyId === ALL ? null : companyId,
+      applies_to_department_ids: departmentIds,
+      ...rules,
+      max_hours: parsedMaxHours,
+      sort_order: Number(sortOrder) || 0,
+      is_active: isActive,
+    };
+    const options = { onSuccess: () => onOpenChange(false) };
+
+    if (reason) {
+      updateReason.mutate({ id: reason.id, ...data }, options);
+    } else {
+      createReason.mutate(data, options);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{reason ? 'Edit OT Reason' : 'Add OT Reason'}</DialogTitle>
+          <DialogDescription>
+            Employees pick a reason when they submit OT. Deactivate a reason instead of removing it so past requests
+            keep it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="ot-reason-label">Label *</Label>
+            <Input id="ot-reason-label" value={label} onChange={(e) => setLabel(e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="ot-reason-description">Guidance</Label>
+            <Textarea
+              id="ot-reason-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Shown to employees under the reason"
+              className="resize-none"
+            />
+          </div>
+          <div>
+            <Label>Company</Label>
+            <Select value={companyId} onValueChange={setCompanyId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All companies</SelectItem>
+                {companies.map((company) => (
+                  <SelectItem key={company.id} value={company.id}>
+                    {company.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {departments.length > 0 && (
+            <div className="space-y-2">
+              <Label>Departments</Label>
+              <p className="text-xs text-muted-foreground">Offered to every department when none are ticked</p>
+              <div className="flex flex-wrap gap-3">
+                {departments.map((department) => (
+                  <label key={department.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={departmentIds.includes(department.id)}
+                      onCheckedChange={() => toggleDepartment(department.id)}
+                    />
+                    {department.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-3">
+            {RULES.map((rule) => (
+              <div key={rule.key} className="flex items-start gap-2">
+                <Switch
+                  id={`ot-reason-${rule.key}`}
+                  checked={rules[rule.key]}
+                  onCheckedChange={(checked) => setRules({ ...rules, [rule.key]: checked })}
+                />
+                <div>
+                  <Label htmlFor={`ot-reason-${rule.key}`}>{rule.label}</Label>
+                  <p className="text-xs text-muted-foreground">{rule.hint}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="ot-reason-max-hours">Max hours a session</Label>
+              <Input
+                id="ot-reason-max-hours"
+                type="number"
+                min="0"
+                step="0.5"
+                value={maxHours}
+                onChange={(e) => setMaxHours(e.target.value)}
+                placeholder="No limit"
+              />
+            </div>
+            <div>
+              <Label htmlFor="ot-reason-sort-order">Order</Label>
+              <Input
+                id="ot-reason-sort-order"
+                type="number"
+                value={sortOrder}
+                onChange={(e) => setSortOrder(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="ot-reason-active" checked={isActive} onCheckedChange={setIsActive} />
+            <Label htmlFor="ot-reason-active">Active</Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            className="bg-[#5F26B4] hover:bg-[#5F26B4]/90"
+            onClick={handleSubmit}
+            disabled={!label.trim() || !isMaxHoursValid || isSaving}
+          >
+            {isSaving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
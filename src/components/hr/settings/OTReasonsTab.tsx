@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import { Edit, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Switch } from '@/components/ui/switch';
+import { useOTReasons } from '@/hooks/useOTReasons';
+import { useUpdateOTReason } from '@/hooks/hr/useUpdateOTReason';
+import { useCompanies } from '@/hooks/hr/useCompanies';
+import { useDepartments } from '@/hooks/hr/useDepartments';
+import { describeReasonRules } from '@/lib/otReasons';
+import { OTReason } from '@/types/otms';
+import { OTReasonDialog } from './OTReasonDialog';
+
+export function OTReasonsTab() {
+  const { data: reasons, isLoading } = useOTReasons();
+  const { data: companies = [] } = useCompanies();
+  const { data: departments = [] } = useDepartments();
+  const updateReason = useUpdateOTReason();
+  const [reasonToEdit, setReasonToEdit] = useState<OTReason | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  const handleEdit = (reason: OTReason) => {
+    setReasonToEdit(reason);
+    setIsDialogOpen(true);
+  };
+
+  const handleAdd = () => {
+    setReasonToEdit(null);
+    setIsDialogOpen(true);
+  };
+
+  const describeScope = (reason: OTReason) => {
+    const company = reason.company_id
+      ? companies.find((candidate) => candidate.id === reason.company_id)?.name || 'One company'
+      : 'All companies';
+    const departmentNames = reason.applies_to_department_ids
+      .map((id) => departments.find((department) => department.id === id)?.name)
+      .filter(Boolean);
+    return departmentNames.length > 0 ? `${company} · ${departmentNames.join(', ')}` : company;
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-semibold">OT Reasons</h3>
+          <p className="text-sm text-muted-foreground">
+            Reasons employees choose from when submitting OT, each with the rules a request under it must meet.
+          </p>
+        </div>
+        <Button className="bg-[#5F26B4] hover:bg-[#5F26B4]/90" onClick={handleAdd}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Reason
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : reasons && reasons.length > 0 ? (
+          reasons.map((reason) => (
+            <Card key={reason.id} className="p-4 flex flex-wrap items-center justify-between gap-4">
+              <div className="space-y-1">
+                <div className="font-semibold">{reason.label}</div>
+                <p className="text-sm text-muted-foreground">{describeScope(reason)}</p>
+                {describeReasonRules(reason).length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {describeReasonRules(reason).map((rule) => (
+                      <Badge key={rule} variant="secondary">
+                        {rule}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <div className="flex items-center gap-3">
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id={`ot-reason-active-${reason.id}`}
+                    checked={reason.is_active}
+                    onCheckedChange={(checked) => updateReason.mutate({ id: reason.id, is_active: checked })}
+                    disabled={updateReason.isPending}
+                  />
+                  <label htmlFor={`ot-reason-active-${reason.id}`} className="text-sm">
+                    Active
+                  </label>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => handleEdit(reason)}>
+                  <Edit className="h-4 w-4" />
+                </Button>
+              </div>
+            </Card>
+          ))
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">
+            No OT reasons yet. Employees can't submit OT until you add one.
+          </div>
+        )}
+      </div>
+
+      <OTReasonDialog open={isDialogOpen} onOpenChange={setIsDialogOpen} reason={reasonToEdit} />
+    </div>
+  );
+}
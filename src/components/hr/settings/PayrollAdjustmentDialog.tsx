@@ -0,0 +1,143 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useOTRequestByTicket } from '@/hooks/hr/useOTRequestByTicket';
+import { useCreatePayrollAdjustment } from '@/hooks/hr/useCreatePayrollAdjustment';
+import { findFrozenPeriod } from '@/lib/payrollPeriods';
+import { formatCurrency, formatHours } from '@/lib/otCalculations';
+import { PayrollPeriod } from '@/types/otms';
+
+interface PayrollAdjustmentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Periods of the selected company */
+  periods: PayrollPeriod[];
+}
+
+export function PayrollAdjustmentDialog({ open, onOpenChange, periods }: PayrollAdjustmentDialogProps) {
+  const [ticketNumber, setTicketNumber] = useState('');
+  const [hoursDelta, setHoursDelta] = useState('0');
+  const [amountDelta, setAmountDelta] = useState('');
+  const [reason, setReason] = useState('');
+
+  const { data: request, isFetching } = useOTRequestByTicket(ticketNumber);
+  const createAdjustment = useCreatePayrollAdjustment();
+
+  useEffect(() => {
+    if (!open) {
+      setTicketNumber('');
+      setHoursDelta('0');
+      setAmountDelta('');
+      setReason('');
+    }
+  }, [open]);
+
+  const frozenPeriod = request ? findFrozenPeriod(periods, request.ot_date) : undefined;
+  const hours = parseFloat(hoursDelta) || 0;
+  const amount = parseFloat(amountDelta) || 0;
+  const canSubmit = !!request && !!frozenPeriod && (hours !== 0 || amount !== 0) && reason.trim().length > 0;
+
+  const handleSubmit = () => {
+    if (!request) return;
+    createAdjustment.mutate(
+      { ot_request_id: request.id, hours_delta: hours, amount_delta: amount, reason: reason.trim() },
+      { onSuccess: () => onOpenChange(false) }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Record Payroll Adjustment</DialogTitle>
+          <DialogDescription>
+            Corrects OT in a locked period. The adjustment is paid in the company's next open period.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="adjustment-ticket">OT Ticket Number *</Label>
+            <Input
+              id="adjustment-ticket"
+              value={ticketNumber}
+              onChange={(e) => setTicketNumber(e.target.value)}
+              placeholder="e.g., OT-20260105-0001"
+            />
+          </div>
+
+          {request && (
+            <div className="rounded-lg border p-3 text-sm space-y-1">
+              <div className="font-medium">
+                {request.profiles?.full_name} ({request.profiles?.employee_id})
+              </div>
+              <div className="text-muted-foreground">
+                {request.ot_date} · {formatHours(request.total_hours)} · {formatCurrency(request.ot_amount)}
+              </div>
+            </div>
+          )}
+          {ticketNumber.trim().length >= 4 && !isFetching && !request && (
+            <p className="text-sm text-muted-foreground">No OT request with this ticket number.</p>
+          )}
+          {request && !frozenPeriod && (
+            <Alert>
+              <AlertDescription>
+                This request is not in a locked period of the selected company; correct the request itself.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="adjustment-hours">Hours Change</Label>
+              <Input
+                id="adjustment-hours"
+                type="number"
+                step="0.25"
+                value={hoursDelta}
+                onChange={(e) => setHoursDelta(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="adjustment-amount">Amount Change (RM) *</Label>
+              <Input
+                id="adjustment-amount"
+                type="number"
+                step="0.01"
+                value={amountDelta}
+                onChange={(e) => setAmountDelta(e.target.value)}
+                placeholder="Negative to recover an overpayment"
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="adjustment-reason">Reason *</Label>
+            <Textarea
+              id="adjustment-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g., End time recorded as 21:00 instead of 23:00"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            className="bg-[#5F26B4] hover:bg-[#5F26B4]/90"
+            onClick={handleSubmit}
+            disabled={!canSubmit || createAdjustment.isPending}
+          >
+            {createAdjustment.isPending ? 'Saving...' : 'Record Adjustment'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
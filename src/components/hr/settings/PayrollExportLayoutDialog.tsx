@@ -0,0 +1,390 @@
+import { useEffect, useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  useCreatePayrollExportLayout,
+  PayrollExportLayoutInput,
+} from '@/hooks/hr/useCreatePayrollExportLayout';
+import { useUpdatePayrollExportLayout } from '@/hooks/hr/useUpdatePayrollExportLayout';
+import {
+  DayType,
+  PayrollExportColumn,
+  PayrollExportField,
+  PayrollExportFormat,
+  PayrollExportLayout,
+} from '@/types/otms';
+import {
+  PAYROLL_EXPORT_FIELD_LABELS,
+  buildPayrollRecords,
+  renderPayrollExport,
+  validatePayrollExportLayout,
+} from '@/lib/payrollExport';
+import { getDayTypeLabel } from '@/lib/otCalculations';
+
+const DAY_TYPES: DayType[] = ['weekday', 'saturday', 'sunday', 'public_holiday'];
+const FIELDS = Object.keys(PAYROLL_EXPORT_FIELD_LABELS) as PayrollExportField[];
+
+const emptyLayout = (): PayrollExportLayoutInput => ({
+  name: '',
+  format: 'csv',
+  columns: [
+    { field: 'employee_no', header: 'Employee No' },
+    { field: 'pay_code', header: 'Pay Code' },
+    { field: 'hours', header: 'Hours', decimals: 2 },
+    { field: 'amount', header: 'Amount', decimals: 2 },
+  ],
+  pay_codes: {},
+  date_format: 'yyyy-MM-dd',
+  delimiter: ',',
+  include_header: true,
+  group_by: 'request',
+  is_active: true,
+});
+
+/** Two sample requests, enough to show grouping and formatting */
+const SAMPLE_ROWS = [
+  { request_id: 'sample-1', employee_id: 'e1', employee_no: 'EMP001', employee_name: 'Nur Aisyah', department: 'Operations', company_id: 'c1', company_code: 'HQ', ot_date: '2026-01-05', day_type: 'weekday' as DayType, hours: 3, amount: 81.73 },
+  { request_id: 'sample-2', employee_id: 'e1', employee_no: 'EMP001', employee_name: 'Nur Aisyah', department: 'Operations', company_id: 'c1', company_code: 'HQ', ot_date: '2026-01-11', day_type: 'sunday' as DayType, hours: 8, amount: 290.6 },
+];
+
+interface PayrollExportLayoutDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  layout?: PayrollExportLayout | null;
+}
+
+export function PayrollExportLayoutDialog({ open, onOpenChange, layout }: PayrollExportLayoutDialogProps) {
+  const [formData, setFormData] = useState<PayrollExportLayoutInput>(emptyLayout);
+  const createLayout = useCreatePayrollExportLayout();
+  const updateLayout = useUpdatePayrollExportLayout();
+
+  useEffect(() => {
+    if (layout) {
+      const { id: _id, created_at: _createdAt, updated_at: _updatedAt, ...input } = layout;
+      setFormData(input);
+    } else if (!open) {
+      setFormData(emptyLayout());
+    }
+  }, [layout, open]);
+
+  const errors = validatePayrollExportLayout(formData);
+
+  const sample = useMemo(() => {
+    if (errors.length > 0) return '';
+    try {
+      const previewLayout = { ...formData, id: '', created_at: '', updated_at: '' };
+      const batch = { batch_no: 'PX-202601-001', period_start: '2026-01-01', period_end: '2026-01-31' };
+      return renderPayrollExport(previewLayout, buildPayrollRecords(previewLayout, batch, SAMPLE_ROWS));
+    } catch (e) {
+      return e instanceof Error ? e.message : String(e);
+    }
+  }, [formData, errors.length]);
+
+  const updateColumn = (index: number, patch: Partial<PayrollExportColumn>) => {
+    setFormData((prev) => ({
+      ...prev,
+      columns: prev.columns.map((column, i) => (i === index ? { ...column, ...patch } : column)),
+    }));
+  };
+
+  const moveColumn = (index: number, offset: number) => {
+    setFormData((prev) => {
+      const columns = [...prev.columns];
+      const [column] = columns.splice(index, 1);
+      columns.splice(index + offset, 0, column);
+      return { ...prev, columns };
+    });
+  };
+
+  const handleSubmit = () => {
+    const options = { onSuccess: () => onOpenChange(false) };
+    if (layout) {
+      updateLayout.mutate({ id: layout.id, ...formData }, options);
+    } else {
+      createLayout.mutate(formData, options);
+    }
+  };
+
+  const isFixedWidth = formData.format === 'fixed_width';
+  const isPending = createLayout.isPending || updateLayout.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[95vw] sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{layout ? 'Edit Payroll Export Layout' : 'Add Payroll Export Layout'}</DialogTitle>
+          <DialogDescription>
+            Map OT data to the columns, codes and formats your payroll system imports.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="layout-name">Name *</Label>
+              <Input
+                id="layout-name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="e.g., SQL Payroll import"
+              />
+            </div>
+            <div>
+              <Label htmlFor="layout-format">Format</Label>
+              <Select
+                value={formData.format}
+                onValueChange={(value) => setFormData({ ...formData, format: value as PayrollExportFormat })}
+              >
+                <SelectTrigger id="layout-format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="csv">CSV (delimited)</SelectItem>
+                  <SelectItem value="fixed_width">Fixed-width text</SelectItem>
+                  <SelectItem value="json">JSON</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="layout-date-format">Date Format</Label>
+              <Input
+                id="layout-date-format"
+                value={formData.date_format}
+                onChange={(e) => setFormData({ ...formData, date_format: e.target.value })}
+                placeholder="yyyy-MM-dd, dd/MM/yyyy, yyyyMMdd"
+              />
+            </div>
+            {formData.format === 'csv' && (
+              <div>
+                <Label htmlFor="layout-delimiter">Delimiter</Label>
+                <Select
+                  value={formData.delimiter}
+                  onValueChange={(value) => setFormData({ ...formData, delimiter: value })}
+                >
+                  <SelectTrigger id="layout-delimiter">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value=",">Comma (,)</SelectItem>
+                    <SelectItem value=";">Semicolon (;)</SelectItem>
+                    <SelectItem value="|">Pipe (|)</SelectItem>
+                    <SelectItem value={'\t'}>Tab</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div>
+              <Label htmlFor="layout-group-by">Records</Label>
+              <Select
+                value={formData.group_by}
+                onValueChange={(value) =>
+                  setFormData({ ...formData, group_by: value as PayrollExportLayout['group_by'] })
+                }
+              >
+                <SelectTrigger id="layout-group-by">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="request">One per OT request</SelectItem>
+                  <SelectItem value="employee_pay_code">One per employee and pay code</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {formData.format !== 'json' && (
+              <div className="flex items-center justify-between rounded-lg border px-3 py-2">
+                <Label htmlFor="layout-header">Header Row</Label>
+                <Switch
+                  id="layout-header"
+                  checked={formData.include_header}
+                  onCheckedChange={(checked) => setFormData({ ...formData, include_header: checked })}
+                />
+              </div>
+            )}
+            <div className="flex items-center justify-between rounded-lg border px-3 py-2">
+              <Label htmlFor="layout-active">Active</Label>
+              <Switch
+                id="layout-active"
+                checked={formData.is_active}
+                onCheckedChange={(checked) => setFormData({ ...formData, is_active: checked })}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Pay Codes</Label>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              {DAY_TYPES.map((dayType) => (
+                <div key={dayType}>
+                  <Label htmlFor={`pay-code-${dayType}`} className="text-xs text-muted-foreground">
+                    {getDayTypeLabel(dayType)}
+                  </Label>
+                  <Input
+                    id={`pay-code-${dayType}`}
+                    value={formData.pay_codes[dayType] || ''}
+                    onChange={(e) =>
+                      setFormData({ ...formData, pay_codes: { ...formData.pay_codes, [dayType]: e.target.value } })
+                    }
+                    placeholder={dayType}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Columns</Label>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  setFormData({ ...formData, columns: [...formData.columns, { field: 'employee_no', header: '' }] })
+                }
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Column
+              </Button>
+            </div>
+            {formData.columns.map((column, index) => (
+              <div key={index} className="flex flex-wrap items-center gap-2 rounded-md border p-2">
+                <Select
+                  value={column.field}
+                  onValueChange={(value) => updateColumn(index, { field: value as PayrollExportField })}
+                >
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {FIELDS.map((field) => (
+                      <SelectItem key={field} value={field}>
+                        {PAYROLL_EXPORT_FIELD_LABELS[field]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  className="w-36"
+                  value={column.header}
+                  onChange={(e) => updateColumn(index, { header: e.target.value })}
+                  placeholder={formData.format === 'json' ? 'Key' : 'Header'}
+                />
+                {isFixedWidth && (
+                  <>
+                    <Input
+                      className="w-20"
+                      type="number"
+                      min={1}
+                      value={column.width ?? ''}
+                      onChange={(e) => updateColumn(index, { width: parseInt(e.target.value) || undefined })}
+                      placeholder="Width"
+                    />
+                    <Select
+                      value={column.align || 'left'}
+                      onValueChange={(value) => updateColumn(index, { align: value as 'left' | 'right' })}
+                    >
+                      <SelectTrigger className="w-24">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="left">Left</SelectItem>
+                        <SelectItem value="right">Right</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      className="w-16"
+                      maxLength={1}
+                      value={column.pad ?? ''}
+                      onChange={(e) => updateColumn(index, { pad: e.target.value || undefined })}
+                      placeholder="Pad"
+                    />
+                  </>
+                )}
+                {(column.field === 'hours' || column.field === 'amount') && (
+                  <Input
+                    className="w-20"
+                    type="number"
+                    min={0}
+                    max={4}
+                    value={column.decimals ?? 2}
+                    onChange={(e) => updateColumn(index, { decimals: parseInt(e.target.value) || 0 })}
+                    title="Decimal places"
+                  />
+                )}
+                <div className="ml-auto flex">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    disabled={index === 0}
+                    onClick={() => moveColumn(index, -1)}
+                    title="Move up"
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    disabled={index === formData.columns.length - 1}
+                    onClick={() => moveColumn(index, 1)}
+                    title="Move down"
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() =>
+                      setFormData({ ...formData, columns: formData.columns.filter((_, i) => i !== index) })
+                    }
+                    title="Remove column"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {errors.length > 0 ? (
+            <Alert variant="destructive">
+              <AlertDescription>
+                {errors.map((error) => (
+                  <div key={error}>{error}</div>
+                ))}
+              </AlertDescription>
+            </Alert>
+          ) : (
+            <div className="space-y-2">
+              <Label>Sample Output</Label>
+              <pre className="max-h-48 overflow-auto rounded-md bg-muted p-3 text-xs font-mono whitespace-pre">
+                {sample}
+              </pre>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            className="bg-[#5F26B4] hover:bg-[#5F26B4]/90"
+            onClick={handleSubmit}
+            disabled={errors.length > 0 || isPending}
+          >
+            {isPending ? 'Saving...' : layout ? 'Update Layout' : 'Create Layout'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,125 @@
+import { useState } from 'react';
+import { Edit, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { usePayrollExportLayouts } from '@/hooks/hr/usePayrollExportLayouts';
+import { useDeletePayrollExportLayout } from '@/hooks/hr/useDeletePayrollExportLayout';
+import { PayrollExportLayout } from '@/types/otms';
+import { PayrollExportLayoutDialog } from './PayrollExportLayoutDialog';
+
+const FORMAT_LABELS: Record<PayrollExportLayout['format'], string> = {
+  csv: 'CSV',
+  fixed_width: 'Fixed-width',
+  json: 'JSON',
+};
+
+export function PayrollExportLayoutsTab() {
+  const { data: layouts, isLoading } = usePayrollExportLayouts();
+  const deleteLayout = useDeletePayrollExportLayout();
+  const [layoutToEdit, setLayoutToEdit] = useState<PayrollExportLayout | null>(null);
+  const [layoutToDelete, setLayoutToDelete] = useState<PayrollExportLayout | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  const handleEdit = (layout: PayrollExportLayout) => {
+    setLayoutToEdit(layout);
+    setIsDialogOpen(true);
+  };
+
+  const handleAdd = () => {
+    setLayoutToEdit(null);
+    setIsDialogOpen(true);
+  };
+
+  const handleDialogClose = () => {
+    setIsDialogOpen(false);
+    setLayoutToEdit(null);
+  };
+
+  const handleDelete = () => {
+    if (layoutToDelete) {
+      deleteLayout.mutate(layoutToDelete.id);
+      setLayoutToDelete(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-semibold">Payroll Export Layouts</h3>
+          <p className="text-sm text-muted-foreground">
+            File layouts for exporting approved OT to payroll from OT Reports.
+          </p>
+        </div>
+        <Button className="bg-[#5F26B4] hover:bg-[#5F26B4]/90" onClick={handleAdd}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Layout
+        </Button>
+      </div>
+
+      <div className="space-y-4">
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : layouts && layouts.length > 0 ? (
+          layouts.map((layout) => (
+            <Card key={layout.id} className="p-4 flex flex-wrap items-center justify-between gap-4">
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <h4 className="font-semibold">{layout.name}</h4>
+                  <Badge variant="outline">{FORMAT_LABELS[layout.format]}</Badge>
+                  <Badge variant={layout.is_active ? 'default' : 'secondary'}>
+                    {layout.is_active ? 'Active' : 'Inactive'}
+                  </Badge>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {layout.columns.map((column) => column.header || column.field).join(' · ')}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="ghost" size="icon" onClick={() => handleEdit(layout)} title="Edit Layout">
+                  <Edit className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => setLayoutToDelete(layout)} title="Delete Layout">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </Card>
+          ))
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">
+            No payroll export layouts found. Click "Add Layout" to create one.
+          </div>
+        )}
+      </div>
+
+      <PayrollExportLayoutDialog open={isDialogOpen} onOpenChange={handleDialogClose} layout={layoutToEdit} />
+
+      <AlertDialog open={!!layoutToDelete} onOpenChange={() => setLayoutToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Payroll Export Layout</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete "{layoutToDelete?.name}"? This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
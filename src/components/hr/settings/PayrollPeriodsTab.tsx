@@ -0,0 +1,250 @@
+import { useEffect, useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Lock, LockOpen, Plus, Archive, Trash2, FilePlus2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useCompanies } from '@/hooks/hr/useCompanies';
+import { usePayrollPeriods } from '@/hooks/usePayrollPeriods';
+import { useCreatePayrollPeriod } from '@/hooks/hr/useCreatePayrollPeriod';
+import { useUpdatePayrollPeriodStatus } from '@/hooks/hr/useUpdatePayrollPeriodStatus';
+import { useDeletePayrollPeriod } from '@/hooks/hr/useDeletePayrollPeriod';
+import { usePayrollAdjustments } from '@/hooks/hr/usePayrollAdjustments';
+import {
+  PAYROLL_PERIOD_STATUS_LABELS,
+  PAYROLL_PERIOD_TRANSITIONS,
+  getNextPayrollPeriodRange,
+} from '@/lib/payrollPeriods';
+import { formatCurrency } from '@/lib/otCalculations';
+import { PayrollPeriod, PayrollPeriodStatus } from '@/types/otms';
+import { PayrollAdjustmentDialog } from './PayrollAdjustmentDialog';
+
+const STATUS_BADGE: Record<PayrollPeriodStatus, 'default' | 'secondary' | 'destructive'> = {
+  open: 'default',
+  locked: 'secondary',
+  closed: 'destructive',
+};
+
+const ACTION_LABELS: Record<PayrollPeriodStatus, string> = {
+  open: 'Reopen',
+  locked: 'Lock',
+  closed: 'Close',
+};
+
+const ACTION_DESCRIPTIONS: Record<PayrollPeriodStatus, string> = {
+  open: 'Employees, approvers and HR will be able to change OT dated in this period again.',
+  locked: 'OT dated in this period can no longer be submitted, edited, approved or recalculated. Corrections must be recorded as adjustments.',
+  closed: 'Closing is final: the period can never be reopened.',
+};
+
+const formatRange = (period: PayrollPeriod) =>
+  `${format(parseISO(period.period_start), 'dd MMM yyyy')} – ${format(parseISO(period.period_end), 'dd MMM yyyy')}`;
+
+export function PayrollPeriodsTab() {
+  const { data: companies = [] } = useCompanies();
+  const [companyId, setCompanyId] = useState<string>('');
+  const { data: periods = [], isLoading } = usePayrollPeriods(companyId);
+  const createPeriod = useCreatePayrollPeriod();
+  const updateStatus = useUpdatePayrollPeriodStatus();
+  const deletePeriod = useDeletePayrollPeriod();
+  const [pendingAction, setPendingAction] = useState<{ period: PayrollPeriod; status: PayrollPeriodStatus } | null>(null);
+  const [periodToDelete, setPeriodToDelete] = useState<PayrollPeriod | null>(null);
+  const [isAdjustmentOpen, setIsAdjustmentOpen] = useState(false);
+
+  useEffect(() => {
+    if (!companyId && companies.length > 0) setCompanyId(companies[0].id);
+  }, [companyId, companies]);
+
+  const periodIds = useMemo(() => periods.map((period) => period.id), [periods]);
+  const { data: adjustments = [] } = usePayrollAdjustments(periodIds);
+
+  const adjustmentTotals = useMemo(() => {
+    const totals = new Map<string, { count: number; amount: number }>();
+    adjustments.forEach((adjustment) => {
+      const total = totals.get(adjustment.target_period_id) || { count: 0, amount: 0 };
+      totals.set(adjustment.target_period_id, {
+        count: total.count + 1,
+        amount: total.amount + Number(adjustment.amount_delta),
+      });
+    });
+    return totals;
+  }, [adjustments]);
+
+  const nextRange = getNextPayrollPeriodRange(periods);
+
+  const handleConfirmAction = () => {
+    if (pendingAction) {
+      updateStatus.mutate({ id: pendingAction.period.id, status: pendingAction.status });
+      setPendingAction(null);
+    }
+  };
+
+  const handleDelete = () => {
+    if (periodToDelete) {
+      deletePeriod.mutate(periodToDelete.id);
+      setPeriodToDelete(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap justify-between items-center gap-4">
+        <div>
+          <h3 className="text-lg font-semibold">Payroll Periods</h3>
+          <p className="text-sm text-muted-foreground">
+            Lock a period once payroll has run. OT dated in locked periods is frozen; corrections are carried into
+            the next open period as adjustments.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setIsAdjustmentOpen(true)} disabled={!companyId}>
+            <FilePlus2 className="h-4 w-4 mr-2" />
+            Add Adjustment
+          </Button>
+          <Button
+            className="bg-[#5F26B4] hover:bg-[#5F26B4]/90"
+            onClick={() => createPeriod.mutate({ company_id: companyId, ...nextRange })}
+            disabled={!companyId || createPeriod.isPending}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add {format(parseISO(nextRange.period_start), 'MMM yyyy')}
+          </Button>
+        </div>
+      </div>
+
+      <div className="max-w-xs">
+        <Label htmlFor="payroll-period-company">Company</Label>
+        <Select value={companyId} onValueChange={setCompanyId}>
+          <SelectTrigger id="payroll-period-company">
+            <SelectValue placeholder="Select company" />
+          </SelectTrigger>
+          <SelectContent>
+            {companies.map((company) => (
+              <SelectItem key={company.id} value={company.id}>
+                {company.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-32 w-full" />
+      ) : periods.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">
+          No payroll periods for this company. OT can be changed in any month until a period is locked.
+        </div>
+      ) : (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Period</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Adjustments</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {periods.map((period) => {
+                const totals = adjustmentTotals.get(period.id);
+                return (
+                  <TableRow key={period.id}>
+                    <TableCell className="font-medium">{formatRange(period)}</TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_BADGE[period.status]}>{PAYROLL_PERIOD_STATUS_LABELS[period.status]}</Badge>
+                      {period.locked_at && (
+                        <div className="text-xs text-muted-foreground mt-1">
+                          Locked {format(new Date(period.locked_at), 'dd/MM/yyyy HH:mm')}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {totals ? `${totals.count} · ${formatCurrency(totals.amount)}` : '-'}
+                    </TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      {PAYROLL_PERIOD_TRANSITIONS[period.status].map((status) => (
+                        <Button
+                          key={status}
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setPendingAction({ period, status })}
+                        >
+                          {status === 'locked' ? (
+                            <Lock className="h-4 w-4 mr-1" />
+                          ) : status === 'open' ? (
+                            <LockOpen className="h-4 w-4 mr-1" />
+                          ) : (
+                            <Archive className="h-4 w-4 mr-1" />
+                          )}
+                          {ACTION_LABELS[status]}
+                        </Button>
+                      ))}
+                      {period.status === 'open' && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setPeriodToDelete(period)}
+                          title="Delete Period"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <PayrollAdjustmentDialog open={isAdjustmentOpen} onOpenChange={setIsAdjustmentOpen} periods={periods} />
+
+      <AlertDialog open={!!pendingAction} onOpenChange={() => setPendingAction(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingAction && `${ACTION_LABELS[pendingAction.status]} ${formatRange(pendingAction.period)}`}
+            </AlertDialogTitle>
+            <AlertDialogDescription>{pendingAction && ACTION_DESCRIPTIONS[pendingAction.status]}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmAction}>
+              {pendingAction && ACTION_LABELS[pendingAction.status]}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={!!periodToDelete} onOpenChange={() => setPeriodToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Payroll Period</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete the period {periodToDelete && formatRange(periodToDelete)}?
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { useEffect, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useStatutoryCapSettings, useUpdateStatutoryCapSettings } from '@/hooks/hr/useStatutoryCapSettings';
+
+/** The monthly OT cap every employee is held to, whatever their threshold */
+export function StatutoryCapCard() {
+  const { data: settings, isLoading, isError } = useStatutoryCapSettings();
+  const updateCap = useUpdateStatutoryCapSettings();
+  const [capHours, setCapHours] = useState('');
+
+  useEffect(() => {
+    if (settings) setCapHours(String(settings.statutory_monthly_cap_hours));
+  }, [settings]);
+
+  const parsed = parseFloat(capHours);
+  const isValid = Number.isFinite(parsed) && parsed > 0;
+  const isDirty = !!settings && parsed !== settings.statutory_monthly_cap_hours;
+
+  return (
+    <Card className="p-4">
+      {isLoading ? (
+        <Skeleton className="h-10 w-full" />
+      ) : (
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <div className="space-y-1">
+            <h4 className="text-base font-semibold">Statutory Monthly Cap</h4>
+            <p className="text-sm text-muted-foreground">
+              OT beyond this many hours a month is blocked at submission and approval, unless an exception is
+              approved. The Employment Act sets 104 hours.
+            </p>
+            {isError && <p className="text-sm text-destructive">Unable to load the statutory cap.</p>}
+          </div>
+
+          <div className="flex items-center gap-3">
+            <Input
+              type="number"
+              step="0.5"
+              min="0.5"
+              value={capHours}
+              onChange={(e) => setCapHours(e.target.value)}
+              className="w-24"
+              aria-label="Statutory monthly cap in hours"
+              disabled={!settings?.id}
+            />
+            <span className="text-sm text-muted-foreground">hours</span>
+            <Button
+              onClick={() => updateCap.mutate({ id: settings.id, capHours: parsed })}
+              disabled={updateCap.isPending || !settings?.id || !isValid || !isDirty}
+            >
+              Save
+            </Button>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+}
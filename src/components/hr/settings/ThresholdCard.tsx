@@ -5,6 +5,7 @@ import { Switch } from '@/components/ui/switch';
 import { Edit, Trash2 } from 'lucide-react';
 import { formatCurrency } from '@/lib/otCalculations';
 import { useUpdateApprovalThreshold } from '@/hooks/hr/useUpdateApprovalThreshold';
+import { OTLimitMode } from '@/types/otms';
 
 interface ApprovalThreshold {
   id: string;
@@ -14,6 +15,10 @@ interface ApprovalThreshold {
   monthly_limit_hours: number;
   max_claimable_amount: number;
   auto_block_enabled: boolean;
+  daily_limit_mode: OTLimitMode;
+  weekly_limit_mode: OTLimitMode;
+  monthly_limit_mode: OTLimitMode;
+  amount_limit_mode: OTLimitMode;
   is_active: boolean;
   applies_to_department_ids: string[];
   applies_to_role_ids: string[];
@@ -41,7 +46,7 @@ export function ThresholdCard({ threshold, onEdit, onDelete }: ThresholdCardProp
         <div className="space-y-1">
           <h4 className="text-base font-semibold text-foreground">{threshold.threshold_name}</h4>
           {threshold.auto_block_enabled && (
-            <Badge variant="destructive" className="text-xs">Auto-block Enabled</Badge>
+            <Badge variant="destructive" className="text-xs">Blocks on Hard Limits</Badge>
           )}
         </div>
         <div className="flex items-center gap-2">
@@ -72,21 +77,37 @@ export function ThresholdCard({ threshold, onEdit, onDelete }: ThresholdCardProp
       <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
         <div>
           <p className="text-xs text-muted-foreground">Daily Limit</p>
-          <p className="text-sm font-semibold">{threshold.daily_limit_hours} hours</p>
+          <p className="text-sm font-semibold">
+            {threshold.daily_limit_hours} hours <LimitModeBadge mode={threshold.daily_limit_mode} />
+          </p>
         </div>
         <div>
           <p className="text-xs text-muted-foreground">Weekly Limit</p>
-          <p className="text-sm font-semibold">{threshold.weekly_limit_hours} hours</p>
+          <p className="text-sm font-semibold">
+            {threshold.weekly_limit_hours} hours <LimitModeBadge mode={threshold.weekly_limit_mode} />
+          </p>
         </div>
         <div>
           <p className="text-xs text-muted-foreground">Monthly Limit</p>
-          <p className="text-sm font-semibold">{threshold.monthly_limit_hours} hours</p>
+          <p className="text-sm font-semibold">
+            {threshold.monthly_limit_hours} hours <LimitModeBadge mode={threshold.monthly_limit_mode} />
+          </p>
         </div>
         <div>
           <p className="text-xs text-muted-foreground">Max Claimable</p>
-          <p className="text-sm font-semibold">{formatCurrency(threshold.max_claimable_amount)}</p>
+          <p className="text-sm font-semibold">
+            {formatCurrency(threshold.max_claimable_amount)} <LimitModeBadge mode={threshold.amount_limit_mode} />
+          </p>
         </div>
       </div>
     </Card>
   );
 }
+
+function LimitModeBadge({ mode }: { mode: OTLimitMode }) {
+  return (
+    <Badge variant={mode === 'hard' ? 'destructive' : 'outline'} className="ml-1 px-1.5 py-0 text-[10px]">
+      {mode === 'hard' ? 'Hard' : 'Soft'}
+    </Badge>
+  );
+}
@@ -6,6 +6,7 @@ import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
 import { useCreateApprovalThreshold } from '@/hooks/hr/useCreateApprovalThreshold';
 import { useUpdateApprovalThreshold } from '@/hooks/hr/useUpdateApprovalThreshold';
+import { OTLimitMode } from '@/types/otms';
 
 interface ApprovalThreshold {
   id: string;
@@ -15,11 +16,22 @@ interface ApprovalThreshold {
   monthly_limit_hours: number;
   max_claimable_amount: number;
   auto_block_enabled: boolean;
+  daily_limit_mode: OTLimitMode;
+  weekly_limit_mode: OTLimitMode;
+  monthly_limit_mode: OTLimitMode;
+  amount_limit_mode: OTLimitMode;
   is_active: boolean;
   applies_to_department_ids?: string[];
   applies_to_role_ids?: string[];
 }
 
+const LIMIT_MODE_FIELDS = [
+  { field: 'daily_limit_mode', label: 'Daily limit' },
+  { field: 'weekly_limit_mode', label: 'Weekly limit' },
+  { field: 'monthly_limit_mode', label: 'Monthly limit' },
+  { field: 'amount_limit_mode', label: 'Max claimable amount' },
+] as const;
+
 interface ThresholdDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -33,7 +45,10 @@ export function ThresholdDialog({ open, onOpenChange, threshold }: ThresholdDial
     weekly_limit_hours: 0,
     monthly_limit_hours: 0,
     max_claimable_amount: 0,
-    auto_block_enabled: false,
+    daily_limit_mode: 'soft' as OTLimitMode,
+    weekly_limit_mode: 'soft' as OTLimitMode,
+    monthly_limit_mode: 'soft' as OTLimitMode,
+    amount_limit_mode: 'soft' as OTLimitMode,
     is_active: true,
   });
 
@@ -48,7 +63,10 @@ export function ThresholdDialog({ open, onOpenChange, threshold }: ThresholdDial
         weekly_limit_hours: threshold.weekly_limit_hours,
         monthly_limit_hours: threshold.monthly_limit_hours,
         max_claimable_amount: threshold.max_claimable_amount,
-        auto_block_enabled: threshold.auto_block_enabled,
+        daily_limit_mode: threshold.daily_limit_mode,
+        weekly_limit_mode: threshold.weekly_limit_mode,
+        monthly_limit_mode: threshold.monthly_limit_mode,
+        amount_limit_mode: threshold.amount_limit_mode,
         is_active: threshold.is_active,
       });
     } else if (!open) {
@@ -58,7 +76,10 @@ export function ThresholdDialog({ open, onOpenChange, threshold }: ThresholdDial
         weekly_limit_hours: 0,
         monthly_limit_hours: 0,
         max_claimable_amount: 0,
-        auto_block_enabled: false,
+        daily_limit_mode: 'soft',
+        weekly_limit_mode: 'soft',
+        monthly_limit_mode: 'soft',
+        amount_limit_mode: 'soft',
         is_active: true,
       });
     }
@@ -159,18 +180,26 @@ export function ThresholdDialog({ open, onOpenChange, threshold }: ThresholdDial
             />
           </div>
 
-          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 sm:gap-0 rounded-lg border p-3 sm:p-4">
+          <div className="space-y-3 rounded-lg border p-3 sm:p-4">
             <div className="space-y-0.5">
-              <Label htmlFor="auto_block_enabled" className="text-xs sm:text-sm font-medium">Auto-block on Exceed</Label>
+              <Label className="text-xs sm:text-sm font-medium">Hard Limits</Label>
               <p className="text-xs sm:text-sm text-muted-foreground">
-                Automatically block submissions exceeding limits
+                Hard limits block submissions and approvals that exceed them. Soft limits only flag the request to
+                approvers. The statutory monthly cap always blocks.
               </p>
             </div>
-            <Switch
-              id="auto_block_enabled"
-              checked={formData.auto_block_enabled}
-              onCheckedChange={(checked) => setFormData({ ...formData, auto_block_enabled: checked })}
-            />
+            <div className="grid grid-cols-2 gap-3">
+              {LIMIT_MODE_FIELDS.map(({ field, label }) => (
+                <div key={field} className="flex items-center justify-between gap-2">
+                  <Label htmlFor={field} className="text-xs sm:text-sm font-normal">{label}</Label>
+                  <Switch
+                    id={field}
+                    checked={formData[field] === 'hard'}
+                    onCheckedChange={(checked) => setFormData({ ...formData, [field]: checked ? 'hard' : 'soft' })}
+                  />
+                </div>
+              ))}
+            </div>
           </div>
 
           <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 sm:gap-0 rounded-lg border p-3 sm:p-4">
@@ -5,6 +5,8 @@ import { useApprovalThresholds } from '@/hooks/hr/useApprovalThresholds';
 import { useDeleteApprovalThreshold } from '@/hooks/hr/useDeleteApprovalThreshold';
 import { ThresholdCard } from './ThresholdCard';
 import { ThresholdDialog } from './ThresholdDialog';
+import { StatutoryCapCard } from './StatutoryCapCard';
+import { CapExceptionsCard } from './CapExceptionsCard';
 import { Skeleton } from '@/components/ui/skeleton';
 import {
   AlertDialog,
@@ -48,11 +50,13 @@ export function ThresholdsTab() {
 
   return (
     <div className="space-y-4">
+      <StatutoryCapCard />
+
       <div className="flex justify-between items-center">
         <div>
           <h3 className="text-lg font-semibold">Approval Thresholds</h3>
           <p className="text-sm text-muted-foreground">
-            Set daily, weekly, and monthly OT limits
+            Set daily, weekly, and monthly OT limits, each hard (blocks) or soft (flags)
           </p>
         </div>
         <Button className="bg-[#5F26B4] hover:bg-[#5F26B4]/90" onClick={handleAdd}>
@@ -83,6 +87,8 @@ export function ThresholdsTab() {
         )}
       </div>
 
+      <CapExceptionsCard />
+
       <ThresholdDialog
         open={isDialogOpen}
         onOpenChange={handleDialogClose}
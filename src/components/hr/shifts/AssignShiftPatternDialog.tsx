@@ -0,0 +1,165 @@
+import { useEffect, useState } from 'react';
+import { addDays, format, parseISO } from 'date-fns';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useEmployees } from '@/hooks/hr/useEmployees';
+import { useShiftPatterns } from '@/hooks/hr/useShiftPatterns';
+import { useAssignShiftPattern } from '@/hooks/hr/useAssignShiftPattern';
+import { getPatternDayIndex } from '@/lib/shiftRoster';
+
+/** Days of the roster previewed from the effective date */
+const PREVIEW_DAYS = 14;
+
+interface AssignShiftPatternDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function AssignShiftPatternDialog({ open, onOpenChange }: AssignShiftPatternDialogProps) {
+  const [employeeId, setEmployeeId] = useState('');
+  const [patternId, setPatternId] = useState('');
+  const [effectiveFrom, setEffectiveFrom] = useState('');
+  const [cycleStartDate, setCycleStartDate] = useState('');
+
+  const { data: employees = [] } = useEmployees();
+  const { data: patterns = [] } = useShiftPatterns();
+  const assignPattern = useAssignShiftPattern();
+
+  useEffect(() => {
+    if (!open) {
+      setEmployeeId('');
+      setPatternId('');
+      setEffectiveFrom('');
+      setCycleStartDate('');
+    }
+  }, [open]);
+
+  const pattern = patterns.find((candidate) => candidate.id === patternId);
+  const anchor = cycleStartDate || effectiveFrom;
+  const preview =
+    pattern && effectiveFrom && pattern.shift_pattern_days.length > 0
+      ? Array.from({ length: PREVIEW_DAYS }, (_, i) => {
+          const date = format(addDays(parseISO(effectiveFrom), i), 'yyyy-MM-dd');
+          const day = pattern.shift_pattern_days[getPatternDayIndex(date, anchor, pattern.cycle_length)];
+          return { date, day };
+        })
+      : [];
+
+  const canSubmit = !!employeeId && !!patternId && !!effectiveFrom;
+
+  const handleSubmit = () => {
+    assignPattern.mutate(
+      {
+        employee_id: employeeId,
+        pattern_id: patternId,
+        effective_from: effectiveFrom,
+        cycle_start_date: cycleStartDate || undefined,
+      },
+      { onSuccess: () => onOpenChange(false) }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Assign Roster</DialogTitle>
+          <DialogDescription>
+            The employee follows the pattern from the effective date; their current roster ends the day before. OT
+            from that date is recalculated, except in locked payroll periods.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label>Employee *</Label>
+            <Select value={employeeId} onValueChange={setEmployeeId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select an employee" />
+              </SelectTrigger>
+              <SelectContent>
+                {employees.map((employee) => (
+                  <SelectItem key={employee.id} value={employee.id}>
+                    {employee.full_name} ({employee.employee_id})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Shift Pattern *</Label>
+            <Select value={patternId} onValueChange={setPatternId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a pattern" />
+              </SelectTrigger>
+              <SelectContent>
+                {patterns.map((candidate) => (
+                  <SelectItem key={candidate.id} value={candidate.id}>
+                    {candidate.name} ({candidate.cycle_length}-day cycle)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="assignment-from">Effective From *</Label>
+              <Input
+                id="assignment-from"
+                type="date"
+                value={effectiveFrom}
+                onChange={(e) => setEffectiveFrom(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="assignment-cycle-start">Day 1 of Cycle</Label>
+              <Input
+                id="assignment-cycle-start"
+                type="date"
+                value={cycleStartDate}
+                onChange={(e) => setCycleStartDate(e.target.value)}
+                placeholder="Effective date"
+              />
+            </div>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Crews on the same pattern are staggered by starting their cycles on different dates.
+          </p>
+
+          {preview.length > 0 && (
+            <div className="rounded-lg border p-3">
+              <div className="mb-2 text-sm font-medium">First {PREVIEW_DAYS} days</div>
+              <div className="grid grid-cols-7 gap-1">
+                {preview.map(({ date, day }) => (
+                  <div key={date} className="text-center text-xs">
+                    <div className="text-muted-foreground">{format(parseISO(date), 'EEE d')}</div>
+                    <Badge variant={day?.day_kind === 'work' ? 'default' : 'outline'} className="mt-1 px-1">
+                      {day?.day_kind === 'work' ? day.shift_templates?.code : day?.day_kind === 'off' ? 'Off' : 'Rest'}
+                    </Badge>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            className="bg-[#5F26B4] hover:bg-[#5F26B4]/90"
+            onClick={handleSubmit}
+            disabled={!canSubmit || assignPattern.isPending}
+          >
+            {assignPattern.isPending ? 'Assigning...' : 'Assign Roster'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
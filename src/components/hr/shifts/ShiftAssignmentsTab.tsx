@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Plus, Search, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useShiftAssignments } from '@/hooks/hr/useShiftAssignments';
+import { useDeleteShiftAssignment } from '@/hooks/hr/useDeleteShiftAssignment';
+import { EmployeeShiftAssignment } from '@/types/otms';
+import { AssignShiftPatternDialog } from './AssignShiftPatternDialog';
+
+const formatDate = (date: string) => format(parseISO(date), 'dd MMM yyyy');
+
+export function ShiftAssignmentsTab() {
+  const { data: assignments = [], isLoading } = useShiftAssignments();
+  const deleteAssignment = useDeleteShiftAssignment();
+  const [searchQuery, setSearchQuery] = useState('');
+  const [showDialog, setShowDialog] = useState(false);
+  const [assignmentToDelete, setAssignmentToDelete] = useState<EmployeeShiftAssignment | null>(null);
+
+  const query = searchQuery.toLowerCase();
+  const filteredAssignments = assignments.filter(
+    (assignment) =>
+      assignment.profiles?.full_name.toLowerCase().includes(query) ||
+      assignment.profiles?.employee_id.toLowerCase().includes(query)
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row gap-4 justify-between">
+        <div className="relative flex-1 max-w-sm">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search employees..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+        <Button onClick={() => setShowDialog(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Assign Roster
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-48 w-full" />
+      ) : filteredAssignments.length === 0 ? (
+        <p className="py-8 text-center text-sm text-muted-foreground">
+          No rosters assigned. Employees without one work weekdays, 9:00 AM – 6:00 PM.
+        </p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Employee</TableHead>
+              <TableHead>Pattern</TableHead>
+              <TableHead>Effective</TableHead>
+              <TableHead>Day 1 of Cycle</TableHead>
+              <TableHead className="w-12" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {filteredAssignments.map((assignment) => (
+              <TableRow key={assignment.id}>
+                <TableCell>
+                  <div className="font-medium">{assignment.profiles?.full_name}</div>
+                  <div className="text-sm text-muted-foreground">{assignment.profiles?.employee_id}</div>
+                </TableCell>
+                <TableCell>{assignment.shift_patterns?.name}</TableCell>
+                <TableCell>
+                  {formatDate(assignment.effective_from)} –{' '}
+                  {assignment.effective_to ? formatDate(assignment.effective_to) : 'ongoing'}
+                </TableCell>
+                <TableCell>{formatDate(assignment.cycle_start_date)}</TableCell>
+                <TableCell>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label="Remove assignment"
+                    onClick={() => setAssignmentToDelete(assignment)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <AssignShiftPatternDialog open={showDialog} onOpenChange={setShowDialog} />
+
+      <AlertDialog open={!!assignmentToDelete} onOpenChange={(open) => !open && setAssignmentToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove roster assignment?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {assignmentToDelete?.profiles?.full_name}'s OT in this period will be recalculated on the standard
+              calendar, except in locked payroll periods.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (assignmentToDelete) deleteAssignment.mutate(assignmentToDelete.id);
+                setAssignmentToDelete(null);
+              }}
+            >
+              Remove
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
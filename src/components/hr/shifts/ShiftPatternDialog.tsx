@@ -0,0 +1,184 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useShiftTemplates } from '@/hooks/hr/useShiftTemplates';
+import { useCreateShiftPattern, ShiftPatternDayInput } from '@/hooks/hr/useCreateShiftPattern';
+import { useUpdateShiftPattern } from '@/hooks/hr/useUpdateShiftPattern';
+import { ROSTER_DAY_KIND_LABELS } from '@/lib/shiftRoster';
+import { formatTimeRange } from '@/lib/otCalculations';
+import { ShiftPattern } from '@/types/otms';
+
+const MAX_CYCLE_LENGTH = 56;
+
+/** Each day is edited as one select: a shift id, 'off' or 'rest' */
+type DayValue = string;
+
+const toDayValue = (day: ShiftPatternDayInput): DayValue =>
+  day.day_kind === 'work' ? day.shift_template_id : day.day_kind;
+
+const fromDayValue = (value: DayValue): ShiftPatternDayInput =>
+  value === 'off' || value === 'rest'
+    ? { day_kind: value, shift_template_id: null }
+    : { day_kind: 'work', shift_template_id: value };
+
+interface ShiftPatternDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  pattern?: ShiftPattern | null;
+  /** Assigned patterns keep their cycle; only the name and description change */
+  isAssigned?: boolean;
+}
+
+export function ShiftPatternDialog({ open, onOpenChange, pattern, isAssigned = false }: ShiftPatternDialogProps) {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [days, setDays] = useState<DayValue[]>([]);
+
+  const { data: templates = [] } = useShiftTemplates();
+  const createPattern = useCreateShiftPattern();
+  const updatePattern = useUpdateShiftPattern();
+
+  const defaultShiftId = templates.find((template) => template.is_active)?.id ?? '';
+
+  useEffect(() => {
+    if (pattern) {
+      setName(pattern.name);
+      setDescription(pattern.description || '');
+      setDays(pattern.shift_pattern_days.map(toDayValue));
+    } else if (!open) {
+      setName('');
+      setDescription('');
+      setDays([]);
+    }
+  }, [pattern, open]);
+
+  // A new pattern starts as a working week with Saturday off and Sunday rest
+  useEffect(() => {
+    if (open && !pattern && days.length === 0 && defaultShiftId) {
+      setDays([defaultShiftId, defaultShiftId, defaultShiftId, defaultShiftId, defaultShiftId, 'off', 'rest']);
+    }
+  }, [open, pattern, days.length, defaultShiftId]);
+
+  const setCycleLength = (length: number) => {
+    const clamped = Math.max(1, Math.min(MAX_CYCLE_LENGTH, length || 1));
+    setDays((current) =>
+      clamped <= current.length
+        ? current.slice(0, clamped)
+        : [...current, ...Array(clamped - current.length).fill('rest')]
+    );
+  };
+
+  const canSubmit = name.trim() !== '' && days.length > 0 && days.every((day) => !!day);
+  const isPending = createPattern.isPending || updatePattern.isPending;
+
+  const handleSubmit = () => {
+    const onSuccess = () => onOpenChange(false);
+    const data = { name: name.trim(), description: description.trim() || null };
+
+    if (pattern) {
+      updatePattern.mutate(
+        { id: pattern.id, ...data, ...(isAssigned ? {} : { days: days.map(fromDayValue) }) },
+        { onSuccess }
+      );
+    } else {
+      createPattern.mutate({ ...data, days: days.map(fromDayValue) }, { onSuccess });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{pattern ? 'Edit Shift Pattern' : 'New Shift Pattern'}</DialogTitle>
+          <DialogDescription>
+            A cycle of days that repeats from each employee's cycle start date. Off days are paid at the Saturday
+            rate and rest days at the Sunday rate.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="pattern-name">Name *</Label>
+            <Input
+              id="pattern-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., 4 on / 4 off – Days"
+            />
+          </div>
+          <div>
+            <Label htmlFor="pattern-description">Description</Label>
+            <Textarea
+              id="pattern-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="pattern-cycle">Cycle Length (days) *</Label>
+            <Input
+              id="pattern-cycle"
+              type="number"
+              min={1}
+              max={MAX_CYCLE_LENGTH}
+              value={days.length}
+              onChange={(e) => setCycleLength(parseInt(e.target.value, 10))}
+              disabled={isAssigned}
+            />
+            {isAssigned && (
+              <p className="mt-1 text-sm text-muted-foreground">
+                This pattern is assigned to employees, so its cycle is fixed. Create a new pattern and reassign them
+                from a date to change it.
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            {days.map((value, index) => (
+              <div key={index} className="flex items-center gap-3">
+                <span className="w-16 text-sm text-muted-foreground">Day {index + 1}</span>
+                <Select
+                  value={value}
+                  onValueChange={(next) => setDays((current) => current.map((day, i) => (i === index ? next : day)))}
+                  disabled={isAssigned}
+                >
+                  <SelectTrigger className="flex-1">
+                    <SelectValue placeholder="Select a shift" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {templates
+                      .filter((template) => template.is_active || template.id === value)
+                      .map((template) => (
+                        <SelectItem key={template.id} value={template.id}>
+                          {template.name} ({formatTimeRange(template.start_time.slice(0, 5), template.end_time.slice(0, 5))})
+                        </SelectItem>
+                      ))}
+                    <SelectItem value="off">{ROSTER_DAY_KIND_LABELS.off}</SelectItem>
+                    <SelectItem value="rest">{ROSTER_DAY_KIND_LABELS.rest}</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            className="bg-[#5F26B4] hover:bg-[#5F26B4]/90"
+            onClick={handleSubmit}
+            disabled={!canSubmit || isPending}
+          >
+            {isPending ? 'Saving...' : pattern ? 'Save Changes' : 'Create Pattern'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,138 @@
+import { useState } from 'react';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useShiftPatterns } from '@/hooks/hr/useShiftPatterns';
+import { useShiftAssignments } from '@/hooks/hr/useShiftAssignments';
+import { useDeleteShiftPattern } from '@/hooks/hr/useDeleteShiftPattern';
+import { ShiftPattern, ShiftPatternDay } from '@/types/otms';
+import { ShiftPatternDialog } from './ShiftPatternDialog';
+
+const dayCode = (day: ShiftPatternDay) =>
+  day.day_kind === 'work' ? day.shift_templates?.code ?? 'W' : day.day_kind === 'off' ? 'Off' : 'Rest';
+
+export function ShiftPatternsTab() {
+  const { data: patterns = [], isLoading } = useShiftPatterns();
+  const { data: assignments = [] } = useShiftAssignments();
+  const deletePattern = useDeleteShiftPattern();
+  const [showDialog, setShowDialog] = useState(false);
+  const [selectedPattern, setSelectedPattern] = useState<ShiftPattern | null>(null);
+  const [patternToDelete, setPatternToDelete] = useState<ShiftPattern | null>(null);
+
+  const assignedPatternIds = new Set(assignments.map((assignment) => assignment.pattern_id));
+
+  const openDialog = (pattern: ShiftPattern | null) => {
+    setSelectedPattern(pattern);
+    setShowDialog(true);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          Rotations of work, off and rest days, such as a 4-on/4-off crew or a week with a Friday rest day.
+        </p>
+        <Button onClick={() => openDialog(null)}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Pattern
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-48 w-full" />
+      ) : patterns.length === 0 ? (
+        <p className="py-8 text-center text-sm text-muted-foreground">No shift patterns defined yet.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Cycle</TableHead>
+              <TableHead>Days</TableHead>
+              <TableHead className="w-24" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {patterns.map((pattern) => (
+              <TableRow key={pattern.id}>
+                <TableCell>
+                  <div className="font-medium">{pattern.name}</div>
+                  {pattern.description && (
+                    <div className="text-sm text-muted-foreground">{pattern.description}</div>
+                  )}
+                </TableCell>
+                <TableCell>{pattern.cycle_length} days</TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    {pattern.shift_pattern_days.map((day) => (
+                      <Badge key={day.day_index} variant={day.day_kind === 'work' ? 'default' : 'outline'}>
+                        {dayCode(day)}
+                      </Badge>
+                    ))}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="icon" aria-label="Edit pattern" onClick={() => openDialog(pattern)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      aria-label="Delete pattern"
+                      onClick={() => setPatternToDelete(pattern)}
+                      disabled={assignedPatternIds.has(pattern.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <ShiftPatternDialog
+        open={showDialog}
+        onOpenChange={setShowDialog}
+        pattern={selectedPattern}
+        isAssigned={!!selectedPattern && assignedPatternIds.has(selectedPattern.id)}
+      />
+
+      <AlertDialog open={!!patternToDelete} onOpenChange={(open) => !open && setPatternToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete shift pattern?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{patternToDelete?.name}" is not assigned to anyone and will be removed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (patternToDelete) deletePattern.mutate(patternToDelete.id);
+                setPatternToDelete(null);
+              }}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
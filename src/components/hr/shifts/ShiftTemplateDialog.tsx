@@ -0,0 +1,167 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useCreateShiftTemplate } from '@/hooks/hr/useCreateShiftTemplate';
+import { useUpdateShiftTemplate } from '@/hooks/hr/useUpdateShiftTemplate';
+import { isOvernightSession } from '@/lib/otCalculations';
+import { ShiftTemplate } from '@/types/otms';
+
+interface ShiftTemplateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  template?: ShiftTemplate | null;
+}
+
+const emptyForm = {
+  name: '',
+  code: '',
+  start_time: '09:00',
+  end_time: '18:00',
+  normal_hours: '8',
+  is_active: true,
+};
+
+export function ShiftTemplateDialog({ open, onOpenChange, template }: ShiftTemplateDialogProps) {
+  const [formData, setFormData] = useState(emptyForm);
+  const createTemplate = useCreateShiftTemplate();
+  const updateTemplate = useUpdateShiftTemplate();
+
+  useEffect(() => {
+    if (template) {
+      setFormData({
+        name: template.name,
+        code: template.code,
+        start_time: template.start_time.slice(0, 5),
+        end_time: template.end_time.slice(0, 5),
+        normal_hours: String(template.normal_hours),
+        is_active: template.is_active,
+      });
+    } else if (!open) {
+      setFormData(emptyForm);
+    }
+  }, [template, open]);
+
+  const normalHours = parseFloat(formData.normal_hours);
+  const canSubmit =
+    formData.name.trim() !== '' &&
+    formData.code.trim() !== '' &&
+    formData.start_time !== formData.end_time &&
+    normalHours > 0 &&
+    normalHours <= 24;
+  const isPending = createTemplate.isPending || updateTemplate.isPending;
+
+  const handleSubmit = () => {
+    const data = {
+      name: formData.name.trim(),
+      code: formData.code.trim().toUpperCase(),
+      start_time: formData.start_time,
+      end_time: formData.end_time,
+      normal_hours: normalHours,
+      is_active: formData.is_active,
+    };
+    const onSuccess = () => onOpenChange(false);
+
+    if (template) {
+      updateTemplate.mutate({ id: template.id, ...data }, { onSuccess });
+    } else {
+      createTemplate.mutate(data, { onSuccess });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{template ? 'Edit Shift' : 'New Shift'}</DialogTitle>
+          <DialogDescription>
+            The hours of a shift that is already rostered cannot change; create a new shift instead.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="col-span-2">
+              <Label htmlFor="shift-name">Name *</Label>
+              <Input
+                id="shift-name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="e.g., Night"
+              />
+            </div>
+            <div>
+              <Label htmlFor="shift-code">Code *</Label>
+              <Input
+                id="shift-code"
+                value={formData.code}
+                onChange={(e) => setFormData({ ...formData, code: e.target.value })}
+                placeholder="e.g., N"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="shift-start">Start *</Label>
+              <Input
+                id="shift-start"
+                type="time"
+                value={formData.start_time}
+                onChange={(e) => setFormData({ ...formData, start_time: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="shift-end">End *</Label>
+              <Input
+                id="shift-end"
+                type="time"
+                value={formData.end_time}
+                onChange={(e) => setFormData({ ...formData, end_time: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="shift-normal-hours">Normal Hours *</Label>
+              <Input
+                id="shift-normal-hours"
+                type="number"
+                step="0.5"
+                min="0.5"
+                max="24"
+                value={formData.normal_hours}
+                onChange={(e) => setFormData({ ...formData, normal_hours: e.target.value })}
+              />
+            </div>
+          </div>
+          {formData.start_time && formData.end_time && isOvernightSession(formData.start_time, formData.end_time) && (
+            <p className="text-sm text-muted-foreground">This shift ends the next morning.</p>
+          )}
+
+          <div className="flex items-center gap-2">
+            <Switch
+              id="shift-active"
+              checked={formData.is_active}
+              onCheckedChange={(checked) => setFormData({ ...formData, is_active: checked })}
+            />
+            <Label htmlFor="shift-active">Available for new patterns</Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            className="bg-[#5F26B4] hover:bg-[#5F26B4]/90"
+            onClick={handleSubmit}
+            disabled={!canSubmit || isPending}
+          >
+            {isPending ? 'Saving...' : template ? 'Save Changes' : 'Create Shift'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
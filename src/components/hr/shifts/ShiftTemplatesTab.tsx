@@ -0,0 +1,76 @@
+import { useState } from 'react';
+import { Pencil, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useShiftTemplates } from '@/hooks/hr/useShiftTemplates';
+import { formatHours, formatTimeRange } from '@/lib/otCalculations';
+import { ShiftTemplate } from '@/types/otms';
+import { ShiftTemplateDialog } from './ShiftTemplateDialog';
+
+export function ShiftTemplatesTab() {
+  const { data: templates = [], isLoading } = useShiftTemplates();
+  const [showDialog, setShowDialog] = useState(false);
+  const [selectedTemplate, setSelectedTemplate] = useState<ShiftTemplate | null>(null);
+
+  const openDialog = (template: ShiftTemplate | null) => {
+    setSelectedTemplate(template);
+    setShowDialog(true);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          Working hours that patterns are built from. OT cannot be claimed inside a rostered shift.
+        </p>
+        <Button onClick={() => openDialog(null)}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Shift
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-48 w-full" />
+      ) : templates.length === 0 ? (
+        <p className="py-8 text-center text-sm text-muted-foreground">No shifts defined yet.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Code</TableHead>
+              <TableHead>Name</TableHead>
+              <TableHead>Hours</TableHead>
+              <TableHead>Normal Hours</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="w-12" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {templates.map((template) => (
+              <TableRow key={template.id}>
+                <TableCell className="font-mono">{template.code}</TableCell>
+                <TableCell className="font-medium">{template.name}</TableCell>
+                <TableCell>{formatTimeRange(template.start_time.slice(0, 5), template.end_time.slice(0, 5))}</TableCell>
+                <TableCell>{formatHours(template.normal_hours)}</TableCell>
+                <TableCell>
+                  <Badge variant={template.is_active ? 'default' : 'secondary'}>
+                    {template.is_active ? 'Active' : 'Inactive'}
+                  </Badge>
+                </TableCell>
+                <TableCell>
+                  <Button variant="ghost" size="icon" aria-label="Edit shift" onClick={() => openDialog(template)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <ShiftTemplateDialog open={showDialog} onOpenChange={setShowDialog} template={selectedTemplate} />
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useCompanies } from '@/hooks/hr/useCompanies';
+import { useDepartments } from '@/hooks/hr/useDepartments';
+import { useSaveOTBudget } from '@/hooks/useSaveOTBudget';
+import { OTBudgetStatus } from '@/types/otms';
+
+type BudgetScope = 'department' | 'company';
+
+interface BudgetDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** The month a new budget is for, YYYY-MM */
+  defaultMonth: string;
+  /** The budget to edit; a new budget is created without one */
+  budget?: OTBudgetStatus | null;
+}
+
+export function BudgetDialog({ open, onOpenChange, defaultMonth, budget }: BudgetDialogProps) {
+  const [scope, setScope] = useState<BudgetScope>('department');
+  const [scopeId, setScopeId] = useState('');
+  const [month, setMonth] = useState(defaultMonth);
+  const [amount, setAmount] = useState('');
+  const [notes, setNotes] = useState('');
+
+  const { data: departments = [] } = useDepartments();
+  const { data: companies = [] } = useCompanies();
+  const saveBudget = useSaveOTBudget();
+
+  useEffect(() => {
+    if (!open) return;
+    setScope(budget?.company_id ? 'company' : 'department');
+    setScopeId(budget?.company_id ?? budget?.department_id ?? '');
+    setMonth(budget ? budget.month.slice(0, 7) : defaultMonth);
+    setAmount(budget ? String(budget.budget_amount) : '');
+    setNotes(budget?.notes ?? '');
+  }, [open, budget, defaultMonth]);
+
+  const value = parseFloat(amount);
+  const canSubmit = !!scopeId && !!month && Number.isFinite(value) && value >= 0;
+  const options = scope === 'department' ? departments : companies;
+
+  const handleSubmit = () => {
+    saveBudget.mutate(
+      {
+        id: budget?.budget_id,
+        department_id: scope === 'department' ? scopeId : null,
+        company_id: scope === 'company' ? scopeId : null,
+        month: `${month}-01`,
+        amount: value,
+        notes: notes.trim() || null,
+      },
+      { onSuccess: () => onOpenChange(false) }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{budget ? 'Edit OT Budget' : 'Set OT Budget'}</DialogTitle>
+          <DialogDescription>
+            The OT amount a department or company may spend in a month. Approvers are warned before a decision takes
+            it over.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>Budget For *</Label>
+              <Select
+                value={scope}
+                onValueChange={(next) => {
+                  setScope(next as BudgetScope);
+                  setScopeId('');
+                }}
+                disabled={!!budget}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="department">Department</SelectItem>
+                  <SelectItem value="company">Company</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>{scope === 'department' ? 'Department' : 'Company'} *</Label>
+              <Select value={scopeId} onValueChange={setScopeId} disabled={!!budget}>
+                <SelectTrigger>
+                  <SelectValue placeholder={`Select a ${scope}`} />
+                </SelectTrigger>
+                <SelectContent>
+                  {options.map((option) => (
+                    <SelectItem key={option.id} value={option.id}>
+                      {option.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="budget-month">Month *</Label>
+              <Input
+                id="budget-month"
+                type="month"
+                value={month}
+                onChange={(e) => setMonth(e.target.value)}
+                disabled={!!budget}
+              />
+            </div>
+            <div>
+              <Label htmlFor="budget-amount">Amount (RM) *</Label>
+              <Input
+                id="budget-amount"
+                type="number"
+                step="100"
+                min="0"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="budget-notes">Notes</Label>
+            <Textarea
+              id="budget-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="e.g. Includes the year-end stock take"
+              rows={3}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            className="bg-[#5F26B4] hover:bg-[#5F26B4]/90"
+            onClick={handleSubmit}
+            disabled={!canSubmit || saveBudget.isPending}
+          >
+            {saveBudget.isPending ? 'Saving...' : 'Save Budget'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
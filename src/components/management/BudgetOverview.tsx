@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import { endOfMonth, format, startOfMonth } from 'date-fns';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useOTBudgetStatus } from '@/hooks/useOTBudgetStatus';
+import { useDeleteOTBudget } from '@/hooks/useDeleteOTBudget';
+import { BudgetState, getBudgetForecast } from '@/lib/otBudget';
+import { formatCurrency } from '@/lib/otCalculations';
+import { cn } from '@/lib/utils';
+import { OTBudgetStatus } from '@/types/otms';
+import { BudgetDialog } from './BudgetDialog';
+
+const STATE_BADGES: Record<BudgetState, { label: string; className: string }> = {
+  within: { label: 'On track', className: 'bg-success/10 text-success border-success/20' },
+  at_risk: { label: 'Forecast over', className: 'bg-amber-100 text-amber-800 border-amber-200' },
+  over: { label: 'Over budget', className: 'bg-destructive/10 text-destructive border-destructive/20' },
+};
+
+interface BudgetOverviewProps {
+  filterDate?: Date;
+}
+
+/** Monthly OT budgets against committed spend, with a month-end forecast */
+export function BudgetOverview({ filterDate = new Date() }: BudgetOverviewProps) {
+  const from = format(startOfMonth(filterDate), 'yyyy-MM-dd');
+  const to = format(endOfMonth(filterDate), 'yyyy-MM-dd');
+  const { data: budgets = [], isLoading } = useOTBudgetStatus(from, to);
+  const deleteBudget = useDeleteOTBudget();
+  const [showDialog, setShowDialog] = useState(false);
+  const [editing, setEditing] = useState<OTBudgetStatus | null>(null);
+
+  const openDialog = (budget: OTBudgetStatus | null) => {
+    setEditing(budget);
+    setShowDialog(true);
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-start gap-3 mb-4">
+        <div>
+          <h2 className="text-lg font-semibold mb-1">OT Budgets</h2>
+          <p className="text-sm text-muted-foreground">
+            Spend for {format(filterDate, 'MMMM yyyy')} across all requests not rejected, with the month-end forecast
+            at the current run rate
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => openDialog(null)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Set Budget
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-32 w-full" />
+      ) : budgets.length === 0 ? (
+        <Card className="p-4 text-sm text-muted-foreground">No OT budgets set for this month.</Card>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2">
+          {budgets.map((budget) => {
+            const { forecast, utilisation, state } = getBudgetForecast(budget);
+            const badge = STATE_BADGES[state];
+
+            return (
+              <Card key={budget.budget_id} className="p-4 space-y-3">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <div className="font-medium">{budget.scope_name}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {budget.company_id ? 'Company' : 'Department'} · Budget {formatCurrency(budget.budget_amount)}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Badge variant="outline" className={badge.className}>
+                      {badge.label}
+                    </Badge>
+                    <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => openDialog(budget)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-8 w-8"
+                      onClick={() => deleteBudget.mutate(budget.budget_id)}
+                      disabled={deleteBudget.isPending}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                <Progress
+                  value={Math.min(utilisation, 100)}
+                  className={cn(state === 'over' && '[&>div]:bg-destructive', state === 'at_risk' && '[&>div]:bg-amber-500')}
+                />
+
+                <div className="grid grid-cols-4 gap-2 text-sm">
+                  <div>
+                    <div className="text-xs text-muted-foreground">Approved</div>
+                    <div className="font-medium">{formatCurrency(budget.approved_amount)}</div>
+                  </div>
+                  <div>
+                    <div className="text-xs text-muted-foreground">Pending</div>
+                    <div className="font-medium">{formatCurrency(budget.pending_amount)}</div>
+                  </div>
+                  <div>
+                    <div className="text-xs text-muted-foreground">Committed</div>
+                    <div className="font-medium">{formatCurrency(budget.committed_amount)}</div>
+                  </div>
+                  <div>
+                    <div className="text-xs text-muted-foreground">Forecast</div>
+                    <div className={cn('font-medium', forecast > budget.budget_amount && 'text-destructive')}>
+                      {formatCurrency(forecast)}
+                    </div>
+                  </div>
+                </div>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <BudgetDialog
+        open={showDialog}
+        onOpenChange={setShowDialog}
+        defaultMonth={format(filterDate, 'yyyy-MM')}
+        budget={editing}
+      />
+    </div>
+  );
+}
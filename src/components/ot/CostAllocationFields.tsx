@@ -0,0 +1,95 @@
+import { Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CostAllocationInput } from '@/lib/costAllocation';
+import { CostCentre } from '@/types/otms';
+
+interface CostAllocationFieldsProps {
+  value: CostAllocationInput[];
+  onChange: (value: CostAllocationInput[]) => void;
+  costCentres: CostCentre[];
+  totalHours: number;
+  disabled?: boolean;
+}
+
+/**
+ * The cost centres an OT session is charged to. One code takes all the
+ * hours; splitting asks for the hours on each.
+ */
+export function CostAllocationFields({ value, onChange, costCentres, totalHours, disabled }: CostAllocationFieldsProps) {
+  const rows = value.length > 0 ? value : [{ cost_centre_id: '', hours: 0 }];
+  const isSplit = rows.length > 1;
+  const allocated = rows.reduce((sum, row) => sum + (row.hours || 0), 0);
+
+  const updateRow = (index: number, changes: Partial<CostAllocationInput>) =>
+    onChange(rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+
+  const addSplit = () => {
+    // The first code keeps the hours until they are divided
+    const first = { ...rows[0], hours: isSplit ? rows[0].hours : totalHours };
+    onChange([first, ...rows.slice(1), { cost_centre_id: '', hours: 0 }]);
+  };
+
+  const removeRow = (index: number) => onChange(rows.filter((_, i) => i !== index));
+
+  return (
+    <div className="space-y-2">
+      {rows.map((row, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <Select
+            value={row.cost_centre_id}
+            onValueChange={(costCentreId) => updateRow(index, { cost_centre_id: costCentreId })}
+            disabled={disabled}
+          >
+            <SelectTrigger className="flex-1 h-10 sm:h-9 text-base sm:text-sm">
+              <SelectValue placeholder="Select a cost centre or project" />
+            </SelectTrigger>
+            <SelectContent>
+              {costCentres.map((costCentre) => (
+                <SelectItem key={costCentre.id} value={costCentre.id}>
+                  {costCentre.code} · {costCentre.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {isSplit && (
+            <>
+              <Input
+                type="number"
+                step="0.25"
+                min="0"
+                value={row.hours || ''}
+                onChange={(e) => updateRow(index, { hours: parseFloat(e.target.value) || 0 })}
+                className="w-24 h-10 sm:h-9 text-base sm:text-sm"
+                aria-label="Hours"
+                disabled={disabled}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => removeRow(index)}
+                disabled={disabled}
+                aria-label="Remove split"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </>
+          )}
+        </div>
+      ))}
+      <div className="flex items-center justify-between gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={addSplit} disabled={disabled}>
+          <Plus className="h-4 w-4 mr-1" />
+          Split across codes
+        </Button>
+        {isSplit && (
+          <p className="text-xs sm:text-sm text-muted-foreground">
+            {allocated.toFixed(2)} of {totalHours.toFixed(2)} hrs allocated
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -18,6 +18,8 @@ export function EditOTForm({ request, onSuccess, onCancel }: EditOTFormProps) {
     start_time: request.start_time,
     end_time: request.end_time,
     reason: request.reason,
+    reason_id: request.reason_id || undefined,
+    respective_supervisor_id: request.respective_supervisor_id || 'none',
     attachment_urls: request.attachment_urls || [],
   };
   
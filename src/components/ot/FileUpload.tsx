@@ -1,6 +1,7 @@
 import { useState } from 'react';
-import { Upload, X, FileText, Eye } from 'lucide-react';
+import { Upload, X, FileText, Eye, CloudOff } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
@@ -10,6 +11,10 @@ interface FileUploadProps {
   onRemove: (index: number) => void;
   currentFiles?: string[];
   maxFiles?: number;
+  /** Files picked while offline, uploaded when the request is sent */
+  offlineFiles?: File[];
+  /** Set to keep files picked while offline instead of failing to upload them */
+  onOfflineFilesChange?: (files: File[]) => void;
 }
 
 interface UploadedFile {
@@ -23,7 +28,9 @@ export function FileUpload({
   onUploadComplete, 
   onRemove, 
   currentFiles = [], 
-  maxFiles = 5 
+  maxFiles = 5,
+  offlineFiles = [],
+  onOfflineFilesChange
 }: FileUploadProps) {
   const [uploading, setUploading] = useState(false);
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
@@ -49,11 +56,11 @@ export function FileUpload({
     if (files.length === 0) return;
 
     // Check total file count
-    const totalFiles = currentFiles.length + files.length;
+    const totalFiles = currentFiles.length + offlineFiles.length + files.length;
     if (totalFiles > maxFiles) {
       toast({
         title: 'Too many files',
-        description: `Maximum ${maxFiles} files allowed. You can upload ${maxFiles - currentFiles.length} more file(s).`,
+        description: `Maximum ${maxFiles} files allowed. You can upload ${maxFiles - currentFiles.length - offlineFiles.length} more file(s).`,
         variant: 'destructive',
       });
       return;
@@ -83,6 +90,17 @@ export function FileUpload({
       }
     }
 
+    // Offline: keep the files on the device and upload them with the request
+    if (onOfflineFilesChange && !navigator.onLine) {
+      onOfflineFilesChange([...offlineFiles, ...files]);
+      toast({
+        title: 'Saved offline',
+        description: `${files.length} file(s) will be uploaded when your request is sent`,
+      });
+      event.target.value = '';
+      return;
+    }
+
     setUploading(true);
     try {
       const { data: { user } } = await supabase.auth.getUser();
@@ -235,8 +253,39 @@ export function FileUpload({
         </div>
       )}
 
+      {/* Files waiting for a connection */}
+      {offlineFiles.length > 0 && (
+        <div className="space-y-2">
+          {offlineFiles.map((file, index) => (
+            <div
+              key={`${file.name}-${index}`}
+              className="flex items-center justify-between gap-2 border border-dashed border-border rounded-lg p-2"
+            >
+              <div className="flex items-center gap-2 min-w-0">
+                <FileText className="h-4 w-4 text-muted-foreground shrink-0" />
+                <span className="text-xs truncate font-medium">{file.name}</span>
+                <span className="text-xs text-muted-foreground shrink-0">{formatFileSize(file.size)}</span>
+                <Badge variant="outline" className="gap-1 text-xs font-normal shrink-0">
+                  <CloudOff className="h-3 w-3" />
+                  Uploads when online
+                </Badge>
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0"
+                onClick={() => onOfflineFilesChange?.(offlineFiles.filter((_, i) => i !== index))}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Upload area - only show if under max files */}
-      {currentFiles.length < maxFiles && (
+      {currentFiles.length + offlineFiles.length < maxFiles && (
         <div className="border-2 border-dashed border-border rounded-lg p-6 text-center hover:border-primary/50 transition-colors">
           <input
             type="file"
@@ -6,8 +6,9 @@ import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 import { StatusBadge } from '@/components/StatusBadge';
+import { OTRequestTimeline } from '@/components/ot/OTRequestTimeline';
 import { OTRequest } from '@/types/otms';
-import { formatCurrency, formatHours, getDayTypeCode, getDayTypeColor, getDayTypeLabel } from '@/lib/otCalculations';
+import { formatCurrency, formatHours, getDayTypeCode, getDayTypeColor, getDayTypeLabel, isOvernightSession } from '@/lib/otCalculations';
 import { getStatusTooltip } from '@/lib/otStatusTooltip';
 
 interface OTDetailsSheetProps {
@@ -98,12 +99,24 @@ export function OTDetailsSheet({ request, open, onOpenChange, onEdit }: OTDetail
             </div>
             <div>
               <p className="text-sm font-medium text-muted-foreground">End Time</p>
-              <p className="text-base font-medium">{request.end_time}</p>
+              <p className="text-base font-medium">
+                {request.end_time}
+                {isOvernightSession(request.start_time, request.end_time) && ' (next day)'}
+              </p>
             </div>
             <div>
               <p className="text-sm font-medium text-muted-foreground">Total Hours</p>
               <p className="text-base font-medium">{formatHours(request.total_hours)} hrs</p>
             </div>
+            {!!request.overnight_hours && request.overnight_hours > 0 && (
+              <div>
+                <p className="text-sm font-medium text-muted-foreground">After Midnight</p>
+                <p className="text-base font-medium">
+                  {formatHours(request.overnight_hours)} hrs
+                  {request.overnight_day_type && ` (${getDayTypeLabel(request.overnight_day_type)})`}
+                </p>
+              </div>
+            )}
           </div>
 
           <Separator />
@@ -183,50 +196,7 @@ export function OTDetailsSheet({ request, open, onOpenChange, onEdit }: OTDetail
           <Separator />
           <div>
             <p className="text-sm font-medium text-muted-foreground mb-3">Timeline</p>
-            <div className="space-y-3">
-              <div className="flex gap-3">
-                <div className="w-2 h-2 rounded-full bg-primary mt-1.5" />
-                <div>
-                  <p className="text-sm font-medium">Submitted</p>
-                  <p className="text-xs text-muted-foreground">
-                    {format(new Date(request.created_at), 'PPp')}
-                  </p>
-                </div>
-              </div>
-              {request.supervisor_verified_at && (
-                <div className="flex gap-3">
-                  <div className="w-2 h-2 rounded-full bg-primary mt-1.5" />
-                  <div>
-                    <p className="text-sm font-medium">Verified by Supervisor</p>
-                    <p className="text-xs text-muted-foreground">
-                      {format(new Date(request.supervisor_verified_at), 'PPp')}
-                    </p>
-                  </div>
-                </div>
-              )}
-              {request.hr_approved_at && (
-                <div className="flex gap-3">
-                  <div className="w-2 h-2 rounded-full bg-primary mt-1.5" />
-                  <div>
-                    <p className="text-sm font-medium">Approved by HR</p>
-                    <p className="text-xs text-muted-foreground">
-                      {format(new Date(request.hr_approved_at), 'PPp')}
-                    </p>
-                  </div>
-                </div>
-              )}
-              {request.management_reviewed_at && (
-                <div className="flex gap-3">
-                  <div className="w-2 h-2 rounded-full bg-primary mt-1.5" />
-                  <div>
-                    <p className="text-sm font-medium">Reviewed by Management</p>
-                    <p className="text-xs text-muted-foreground">
-                      {format(new Date(request.management_reviewed_at), 'PPp')}
-                    </p>
-                  </div>
-                </div>
-              )}
-            </div>
+            <OTRequestTimeline requestIds={[request.id]} enabled={open} />
           </div>
         </div>
       </SheetContent>
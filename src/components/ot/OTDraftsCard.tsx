@@ -0,0 +1,69 @@
+import { format, parseISO } from 'date-fns';
+import { Fingerprint, X } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { useOTRequestDrafts } from '@/hooks/useOTRequestDrafts';
+import { useResolveOTRequestDraft } from '@/hooks/useResolveOTRequestDraft';
+import { formatHours, formatTimeRange } from '@/lib/otCalculations';
+import { OTRequestDraft } from '@/types/otms';
+
+interface OTDraftsCardProps {
+  employeeId: string | undefined;
+  /** The draft currently loaded into the form */
+  selectedDraftId?: string;
+  onUse: (draft: OTRequestDraft) => void;
+}
+
+/** OT sessions found in the employee's attendance punches, ready to justify and submit */
+export function OTDraftsCard({ employeeId, selectedDraftId, onUse }: OTDraftsCardProps) {
+  const { data: drafts = [] } = useOTRequestDrafts(employeeId);
+  const resolveDraft = useResolveOTRequestDraft();
+
+  if (drafts.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Fingerprint className="h-5 w-5" />
+          OT from Attendance
+        </CardTitle>
+        <CardDescription>
+          You punched beyond your shift on these days. Use a draft to fill in the form and add the reason, or dismiss
+          it if it was not overtime.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {drafts.map((draft) => (
+          <div
+            key={draft.id}
+            className={`flex items-center justify-between rounded-lg border p-3 ${
+              draft.id === selectedDraftId ? 'border-primary bg-primary/5' : ''
+            }`}
+          >
+            <div className="text-sm">
+              <div className="font-medium">{format(parseISO(draft.ot_date), 'EEE, dd MMM yyyy')}</div>
+              <div className="text-muted-foreground">
+                {formatTimeRange(draft.start_time, draft.end_time)} · {formatHours(draft.total_hours)} hours
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button size="sm" variant="outline" onClick={() => onUse(draft)} disabled={draft.id === selectedDraftId}>
+                {draft.id === selectedDraftId ? 'In Form' : 'Use'}
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                aria-label="Dismiss draft"
+                onClick={() => resolveDraft.mutate({ id: draft.id, status: 'dismissed' })}
+                disabled={resolveDraft.isPending}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
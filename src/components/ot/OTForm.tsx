@@ -2,7 +2,7 @@ import { useEffect, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
-import { format } from 'date-fns';
+import { addDays, format, parseISO, subDays } from 'date-fns';
 import { CalendarIcon, AlertCircle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Calendar } from '@/components/ui/calendar';
@@ -17,13 +17,23 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { FileUpload } from './FileUpload';
 import { TimePickerInput } from './TimePickerInput';
-import { calculateTotalHours, getDayTypeCode, getDayTypeColor, getDayTypeLabel } from '@/lib/otCalculations';
+import { CostAllocationFields } from './CostAllocationFields';
+import { calculateTotalHours, getDayTypeCode, getDayTypeColor, getDayTypeLabel, isOvernightSession } from '@/lib/otCalculations';
+import { splitSessionByDate } from '@/lib/otSessions';
 import { cn } from '@/lib/utils';
 import { supabase } from '@/integrations/supabase/client';
 import { useSupervisors } from '@/hooks/useSupervisors';
-import { canSubmitOTForDate, validateOTTimeForWorkDay } from '@/utils/otValidation';
+import { canSubmitOTForDate, validateOTTimeForRoster, validateOTTimeForWorkDay } from '@/utils/otValidation';
 import { StateSelector } from '@/components/hr/StateSelector';
 import { useAuth } from '@/hooks/useAuth';
+import { usePayrollPeriods } from '@/hooks/usePayrollPeriods';
+import { useEmployeeRoster } from '@/hooks/useEmployeeRoster';
+import { findFrozenPeriod, frozenPeriodMessage } from '@/lib/payrollPeriods';
+import { formatRosterShift, getRosterDayType } from '@/lib/shiftRoster';
+import { useCostCentres } from '@/hooks/useCostCentres';
+import { CostAllocationInput, validateCostAllocations } from '@/lib/costAllocation';
+import { useOTReasons } from '@/hooks/useOTReasons';
+import { checkReasonRules, describeReasonRules, getAvailableReasons, getReasonText, ReasonRuleField } from '@/lib/otReasons';
 
 type OTSettingsRow = {
   ot_submission_cutoff_day: number | null;
@@ -49,42 +59,35 @@ const OTFormSchema = z.object({
     .max(5, 'Maximum 5 attachments allowed')
     .optional()
     .default([]),
-  reason_dropdown: z.enum([
-    'System maintenance',
-    'Project deadline',
-    'Unexpected breakdown',
-    'Client support',
-    'Staff shortage',
-    'Other'
-  ], {
+  reason_id: z.string({
     required_error: 'Please select a reason for overtime',
-  }),
+  }).min(1, 'Please select a reason for overtime'),
   respective_supervisor_id: z.string().uuid().optional().or(z.literal('none')),
+  cost_allocations: z.array(z.object({
+    cost_centre_id: z.string(),
+    hours: z.number(),
+  })).optional().default([]),
 }).refine((data) => {
-  if (data.reason_dropdown === 'Other') {
-    return data.reason && data.reason.trim().length >= 10;
-  }
-  return true;
-}, {
-  message: 'Please provide a detailed reason (minimum 10 characters)',
-  path: ['reason'],
-}).refine((data) => {
-  // Validate that end_time is after start_time
+  // An end time earlier than the start time runs past midnight into the next date
   if (data.start_time && data.end_time) {
-    const [startHour, startMinute] = data.start_time.split(':').map(Number);
-    const [endHour, endMinute] = data.end_time.split(':').map(Number);
-    const startTimeInMinutes = startHour * 60 + startMinute;
-    const endTimeInMinutes = endHour * 60 + endMinute;
-    return endTimeInMinutes > startTimeInMinutes;
+    return calculateTotalHours(data.start_time, data.end_time) > 0;
   }
   return true;
 }, {
-  message: 'End time must be after start time',
+  message: 'End time must be different from start time',
   path: ['end_time'],
 });
 
 type OTFormValues = z.infer<typeof OTFormSchema>;
 
+// Where each reason rule's message shows on the form
+const REASON_RULE_FIELDS: Record<ReasonRuleField, keyof OTFormValues> = {
+  details: 'reason',
+  attachment: 'attachment_urls',
+  respective_supervisor: 'respective_supervisor_id',
+  hours: 'end_time',
+};
+
 interface OTFormProps {
   onSubmit: (data: any) => void;
   isSubmitting: boolean;
@@ -92,21 +95,38 @@ interface OTFormProps {
   fullName: string;
   onCancel: () => void;
   defaultValues?: Partial<OTFormValues>;
+  /** Keep attachments picked offline, for a submission that can be queued */
+  allowOffline?: boolean;
 }
 
-export function OTForm({ onSubmit, isSubmitting, employeeId, fullName, onCancel, defaultValues }: OTFormProps) {
+export function OTForm({ onSubmit, isSubmitting, employeeId, fullName, onCancel, defaultValues, allowOffline }: OTFormProps) {
   const [totalHours, setTotalHours] = useState<number>(0);
-  const [dayType, setDayType] = useState<string>('weekday');
+  const [calendarDayType, setCalendarDayType] = useState<string>('weekday');
   const [holidayLabel, setHolidayLabel] = useState<string | null>(null);
+  const [nextCalendarDayType, setNextCalendarDayType] = useState<string>('weekday');
+  const [nextHolidayLabel, setNextHolidayLabel] = useState<string | null>(null);
   const [cutoffDay, setCutoffDay] = useState<number>(10);
   const [gracePeriodEnabled, setGracePeriodEnabled] = useState<boolean>(false);
   const [submissionError, setSubmissionError] = useState<string | null>(null);
   const [businessHoursError, setBusinessHoursError] = useState<string | null>(null);
-  const { profile: authProfile } = useAuth();
+  const [costAllocationError, setCostAllocationError] = useState<string | null>(null);
+  const [offlineFiles, setOfflineFiles] = useState<File[]>([]);
+  const { user, profile: authProfile } = useAuth();
+  const { data: payrollPeriods = [] } = usePayrollPeriods(authProfile?.company_id);
 
   // Use the custom hook to fetch supervisors, excluding the employee's direct supervisor
   const { data: supervisors = [] } = useSupervisors({ employeeId });
 
+  // Sessions must be charged to a cost centre once any are set up
+  const { data: costCentres = [] } = useCostCentres({ activeOnly: true });
+
+  // Reasons HR offers to the employee's company and department
+  const { data: reasonCatalogue = [] } = useOTReasons({ activeOnly: true });
+  const reasons = getAvailableReasons(reasonCatalogue, {
+    company_id: authProfile?.company_id,
+    department_id: authProfile?.department_id,
+  });
+
   // Fetch cutoff day from settings
   useEffect(() => {
     const fetchCutoffDay = async () => {
@@ -143,6 +163,7 @@ export function OTForm({ onSubmit, isSubmitting, employeeId, fullName, onCancel,
       reason: '',
       respective_supervisor_id: 'none',
       attachment_urls: [],
+      cost_allocations: [],
       ot_location_state: 'SGR',
       ...defaultValues,
     },
@@ -152,6 +173,7 @@ export function OTForm({ onSubmit, isSubmitting, employeeId, fullName, onCancel,
   const endTime = form.watch('end_time');
   const otDate = form.watch('ot_date');
   const otLocationState = form.watch('ot_location_state');
+  const selectedReason = reasons.find((reason) => reason.id === form.watch('reason_id'));
 
   useEffect(() => {
     const current = form.getValues('ot_location_state');
@@ -167,27 +189,68 @@ export function OTForm({ onSubmit, isSubmitting, employeeId, fullName, onCancel,
     }
   }, [startTime, endTime]);
 
+  const isOvernight = !!startTime && !!endTime && isOvernightSession(startTime, endTime);
+
+  // The previous date's roster too, for a night shift running into this date
+  const otDateStr = otDate ? format(otDate, 'yyyy-MM-dd') : '';
+  const nextDateStr = otDate ? format(addDays(otDate, 1), 'yyyy-MM-dd') : '';
+  const { data: roster = [] } = useEmployeeRoster(
+    user?.id,
+    otDate ? format(subDays(otDate, 1), 'yyyy-MM-dd') : '',
+    nextDateStr
+  );
+  const rosterDay = roster.find((day) => day.roster_date === otDateStr);
+  const dayType = getRosterDayType(rosterDay, calendarDayType);
+  const nextDayType = getRosterDayType(
+    roster.find((day) => day.roster_date === nextDateStr),
+    nextCalendarDayType
+  );
+
   useEffect(() => {
     if (otDate && otLocationState) {
-      determineDayType(otDate, otLocationState);
+      resolveDayType(otDate, otLocationState).then((resolved) => {
+        setCalendarDayType(resolved.dayType);
+        setHolidayLabel(resolved.holidayLabel);
+      });
     }
   }, [otDate, otLocationState]);
 
-  // Validate business hours restriction for work days
+  // Hours after midnight are paid at the next date's day type
   useEffect(() => {
-    if (startTime && endTime && dayType) {
-      const validation = validateOTTimeForWorkDay(startTime, endTime, dayType);
-      if (!validation.isAllowed) {
-        setBusinessHoursError(validation.message || 'Invalid time for work day');
-      } else {
-        setBusinessHoursError(null);
-      }
-    } else {
-      setBusinessHoursError(null);
+    if (otDate && otLocationState && isOvernight) {
+      resolveDayType(addDays(otDate, 1), otLocationState).then((resolved) => {
+        setNextCalendarDayType(resolved.dayType);
+        setNextHolidayLabel(resolved.holidayLabel);
+      });
     }
-  }, [startTime, endTime, dayType]);
+  }, [otDate, otLocationState, isOvernight]);
+
+  // OT may not overlap the rostered shift, or business hours on calendar work days
+  const validateWorkHours = (start: string, end: string) => {
+    if (!rosterDay) return validateOTTimeForWorkDay(start, end, dayType, nextDayType);
+    const holidays = new Set([
+      ...(calendarDayType === 'public_holiday' ? [otDateStr] : []),
+      ...(nextCalendarDayType === 'public_holiday' ? [nextDateStr] : []),
+    ]);
+    return validateOTTimeForRoster({ ot_date: otDateStr, start_time: start, end_time: end }, roster, (date) =>
+      holidays.has(date)
+    );
+  };
+
+  const workHoursValidation = startTime && endTime && dayType ? validateWorkHours(startTime, endTime) : null;
+  const workHoursMessage =
+    workHoursValidation && !workHoursValidation.isAllowed
+      ? workHoursValidation.message || 'Invalid time for work day'
+      : null;
+
+  useEffect(() => {
+    setBusinessHoursError(workHoursMessage);
+  }, [workHoursMessage]);
 
-  const determineDayType = async (date: Date, locationState: string) => {
+  const resolveDayType = async (
+    date: Date,
+    locationState: string
+  ): Promise<{ dayType: string; holidayLabel: string | null }> => {
     const dateStr = format(date, 'yyyy-MM-dd');
     const dayOfWeek = date.getDay();
 
@@ -199,9 +262,7 @@ export function OTForm({ onSubmit, isSubmitting, employeeId, fullName, onCancel,
       .single();
 
     if (override) {
-      setDayType('public_holiday');
-      setHolidayLabel('Public Holiday');
-      return;
+      return { dayType: 'public_holiday', holidayLabel: 'Public Holiday' };
     }
 
     // Check malaysian_holidays (includes federal and state-specific holidays)
@@ -216,31 +277,51 @@ export function OTForm({ onSubmit, isSubmitting, employeeId, fullName, onCancel,
     const isStateHoliday = holidayRows.some((h) => h.state === locationState);
 
     if (isFederalHoliday || isStateHoliday) {
-      setDayType('public_holiday');
-      setHolidayLabel(isFederalHoliday ? 'Public Holiday' : 'State Holiday');
+      return { dayType: 'public_holiday', holidayLabel: isFederalHoliday ? 'Public Holiday' : 'State Holiday' };
     } else if (dayOfWeek === 0) {
-      setDayType('sunday');
-      setHolidayLabel(null);
+      return { dayType: 'sunday', holidayLabel: null };
     } else if (dayOfWeek === 6) {
-      setDayType('saturday');
-      setHolidayLabel(null);
-    } else {
-      setDayType('weekday');
-      setHolidayLabel(null);
+      return { dayType: 'saturday', holidayLabel: null };
     }
+    return { dayType: 'weekday', holidayLabel: null };
   };
 
   const handleSubmit = (values: OTFormValues) => {
     // Validate business hours for work days
-    const timeValidation = validateOTTimeForWorkDay(values.start_time, values.end_time, dayType);
+    const timeValidation = validateWorkHours(values.start_time, values.end_time);
     if (!timeValidation.isAllowed) {
       setBusinessHoursError(timeValidation.message || 'Invalid time for work day');
       return; // Block submission
     }
 
-    const finalReason = values.reason_dropdown === 'Other'
-      ? values.reason?.trim() || 'Other'
-      : values.reason_dropdown;
+    // A single code takes all of the session's hours
+    let costAllocations: CostAllocationInput[] = [];
+    if (costCentres.length > 0) {
+      const rows = (values.cost_allocations || []) as CostAllocationInput[];
+      costAllocations = rows.length === 1 ? [{ ...rows[0], hours: totalHours }] : rows;
+      const allocationError = costAllocations.length === 0
+        ? 'Select the cost centre or project this OT is charged to'
+        : validateCostAllocations(costAllocations, totalHours);
+      setCostAllocationError(allocationError);
+      if (allocationError) return;
+    }
+
+    const reason = reasons.find((candidate) => candidate.id === values.reason_id);
+    if (!reason) {
+      form.setError('reason_id', { message: 'Please select a reason for overtime' });
+      return;
+    }
+    const respectiveSupervisorId = values.respective_supervisor_id === 'none' ? null : values.respective_supervisor_id;
+    const violations = checkReasonRules(reason, {
+      total_hours: totalHours,
+      details: values.reason,
+      attachment_count: (values.attachment_urls?.length || 0) + offlineFiles.length,
+      respective_supervisor_id: respectiveSupervisorId,
+    });
+    violations.forEach((violation) => {
+      form.setError(REASON_RULE_FIELDS[violation.field], { message: violation.message });
+    });
+    if (violations.length > 0) return;
 
     onSubmit({
       ot_date: format(values.ot_date, 'yyyy-MM-dd'),
@@ -249,14 +330,27 @@ export function OTForm({ onSubmit, isSubmitting, employeeId, fullName, onCancel,
       end_time: values.end_time,
       total_hours: totalHours,
       day_type: dayType,
-      reason: finalReason,
-      respective_supervisor_id: values.respective_supervisor_id === 'none' ? null : values.respective_supervisor_id,
+      next_day_type: isOvernightSession(values.start_time, values.end_time) ? nextDayType : undefined,
+      reason: getReasonText(reason, values.reason),
+      reason_id: reason.id,
+      respective_supervisor_id: respectiveSupervisorId,
       attachment_urls: values.attachment_urls,
+      cost_allocations: costAllocations,
+      offline_attachments: offlineFiles,
     });
   };
 
   const displayDayType = holidayLabel === 'State Holiday' ? 'state_holiday' : dayType;
   const dayTypeTooltip = getDayTypeLabel(displayDayType);
+  const displayNextDayType = nextHolidayLabel === 'State Holiday' ? 'state_holiday' : nextDayType;
+  const portions = isOvernight && otDate
+    ? splitSessionByDate({
+        ot_date: format(otDate, 'yyyy-MM-dd'),
+        start_time: startTime,
+        end_time: endTime,
+        total_hours: totalHours,
+      })
+    : [];
 
   return (
     <Form {...form}>
@@ -325,7 +419,10 @@ export function OTForm({ onSubmit, isSubmitting, employeeId, fullName, onCancel,
                       onSelect={(date) => {
                         if (date) {
                           const validation = canSubmitOTForDate(date, new Date(), cutoffDay, gracePeriodEnabled);
-                          if (validation.isAllowed) {
+                          const frozenPeriod = findFrozenPeriod(payrollPeriods, format(date, 'yyyy-MM-dd'));
+                          if (frozenPeriod) {
+                            setSubmissionError(frozenPeriodMessage(frozenPeriod));
+                          } else if (validation.isAllowed) {
                             field.onChange(date);
                             setSubmissionError(null);
                           } else {
@@ -335,7 +432,7 @@ export function OTForm({ onSubmit, isSubmitting, employeeId, fullName, onCancel,
                       }}
                       disabled={(date) => {
                         const validation = canSubmitOTForDate(date, new Date(), cutoffDay, gracePeriodEnabled);
-                        return !validation.isAllowed;
+                        return !validation.isAllowed || !!findFrozenPeriod(payrollPeriods, format(date, 'yyyy-MM-dd'));
                       }}
                       initialFocus
                       className="pointer-events-auto"
@@ -404,7 +501,6 @@ export function OTForm({ onSubmit, isSubmitting, employeeId, fullName, onCancel,
                   <TimePickerInput
                     value={field.value}
                     onChange={field.onChange}
-                    minTime={startTime}
                   />
                 </FormControl>
                 <FormMessage />
@@ -413,7 +509,7 @@ export function OTForm({ onSubmit, isSubmitting, employeeId, fullName, onCancel,
           />
         </div>
 
-        {businessHoursError && dayType === 'weekday' && (
+        {businessHoursError && (
           <Alert variant="destructive" className="col-span-1 md:col-span-2">
             <AlertCircle className="h-4 w-4" />
             <AlertDescription>{businessHoursError}</AlertDescription>
@@ -425,9 +521,22 @@ export function OTForm({ onSubmit, isSubmitting, employeeId, fullName, onCancel,
             <div>
               <p className="text-xs sm:text-sm font-medium text-muted-foreground">Total Hours</p>
               <p className="text-2xl sm:text-3xl font-bold text-primary">{totalHours.toFixed(1)} hrs</p>
+              {portions.length > 1 && (
+                <div className="mt-1 space-y-0.5 text-xs sm:text-sm text-muted-foreground">
+                  {portions.map((portion, index) => (
+                    <p key={portion.date}>
+                      {portion.hours.toFixed(2)} hrs on {format(parseISO(portion.date), 'EEE, d MMM')}
+                      {' '}({getDayTypeLabel(index === 0 ? displayDayType : displayNextDayType)})
+                    </p>
+                  ))}
+                </div>
+              )}
             </div>
             <div className="flex flex-col items-start sm:items-end">
               <p className="text-xs sm:text-sm font-medium text-muted-foreground mb-2">Day Type</p>
+              {rosterDay && (
+                <p className="text-xs text-muted-foreground mb-1">Roster: {formatRosterShift(rosterDay)}</p>
+              )}
               <Tooltip>
                 <TooltipTrigger asChild>
                   <Badge tabIndex={0} className={getDayTypeColor(displayDayType)}>
@@ -444,7 +553,7 @@ export function OTForm({ onSubmit, isSubmitting, employeeId, fullName, onCancel,
 
         <FormField
           control={form.control}
-          name="reason_dropdown"
+          name="reason_id"
           render={({ field }) => (
             <FormItem>
               <FormLabel>Reason Category *</FormLabel>
@@ -455,20 +564,31 @@ export function OTForm({ onSubmit, isSubmitting, employeeId, fullName, onCancel,
                   </SelectTrigger>
                 </FormControl>
                 <SelectContent>
-                  <SelectItem value="System maintenance">System maintenance</SelectItem>
-                  <SelectItem value="Project deadline">Project deadline</SelectItem>
-                  <SelectItem value="Unexpected breakdown">Unexpected breakdown</SelectItem>
-                  <SelectItem value="Client support">Client support</SelectItem>
-                  <SelectItem value="Staff shortage">Staff shortage</SelectItem>
-                  <SelectItem value="Other">Other</SelectItem>
+                  {reasons.map((reason) => (
+                    <SelectItem key={reason.id} value={reason.id}>
+                      {reason.label}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
+              {selectedReason?.description && (
+                <p className="text-xs sm:text-sm text-muted-foreground">{selectedReason.description}</p>
+              )}
+              {selectedReason && describeReasonRules(selectedReason).length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {describeReasonRules(selectedReason).map((rule) => (
+                    <Badge key={rule} variant="outline" className="text-xs font-normal">
+                      {rule}
+                    </Badge>
+                  ))}
+                </div>
+              )}
               <FormMessage />
             </FormItem>
           )}
         />
 
-        {form.watch('reason_dropdown') === 'Other' && (
+        {selectedReason?.requires_details && (
           <FormField
             control={form.control}
             name="reason"
@@ -491,12 +611,40 @@ export function OTForm({ onSubmit, isSubmitting, employeeId, fullName, onCancel,
           />
         )}
 
+        {costCentres.length > 0 && (
+          <FormField
+            control={form.control}
+            name="cost_allocations"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Cost Centre / Project *</FormLabel>
+                <CostAllocationFields
+                  value={(field.value || []) as CostAllocationInput[]}
+                  onChange={(value) => {
+                    field.onChange(value);
+                    setCostAllocationError(null);
+                  }}
+                  costCentres={costCentres}
+                  totalHours={totalHours}
+                  disabled={isSubmitting}
+                />
+                {costAllocationError && (
+                  <p className="text-sm font-medium text-destructive">{costAllocationError}</p>
+                )}
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
         <FormField
           control={form.control}
           name="respective_supervisor_id"
           render={({ field }) => (
             <FormItem>
-              <FormLabel>Instructed by Supervisor (Optional)</FormLabel>
+              <FormLabel>
+                Instructed by Supervisor {selectedReason?.requires_respective_supervisor ? '*' : '(Optional)'}
+              </FormLabel>
               <Select onValueChange={field.onChange} value={field.value || ''}>
                 <FormControl>
                   <SelectTrigger className="w-full h-10 sm:h-9 text-base sm:text-sm">
@@ -526,7 +674,7 @@ export function OTForm({ onSubmit, isSubmitting, employeeId, fullName, onCancel,
           render={({ field }) => (
             <FormItem>
               <FormLabel>
-                Attachments (Optional)
+                Attachments {selectedReason?.requires_attachment ? '*' : '(Optional)'}
               </FormLabel>
               <FormControl>
                 <FileUpload
@@ -538,6 +686,8 @@ export function OTForm({ onSubmit, isSubmitting, employeeId, fullName, onCancel,
                   }}
                   currentFiles={field.value || []}
                   maxFiles={5}
+                  offlineFiles={allowOffline ? offlineFiles : undefined}
+                  onOfflineFilesChange={allowOffline ? setOfflineFiles : undefined}
                 />
               </FormControl>
               <FormMessage />
@@ -0,0 +1,58 @@
+import { format, parseISO } from 'date-fns';
+import { Gauge } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { useOTHoursSummary } from '@/hooks/useOTHoursSummary';
+import { formatHours } from '@/lib/otCalculations';
+import { getMonthlyAllowance } from '@/lib/otLimits';
+
+interface OTHoursRemainingCardProps {
+  employeeId: string | undefined;
+  /** Any date in the month to show (YYYY-MM-DD) */
+  date: string;
+}
+
+/** OT hours claimed in a month against the cap that blocks further submissions */
+export function OTHoursRemainingCard({ employeeId, date }: OTHoursRemainingCardProps) {
+  const { data: summary } = useOTHoursSummary(employeeId, date);
+
+  if (!summary) return null;
+
+  const allowance = getMonthlyAllowance(summary);
+  const used = Math.min(100, (summary.used_hours / allowance.hardLimit) * 100);
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Gauge className="h-5 w-5" />
+          OT Hours for {format(parseISO(summary.month), 'MMMM yyyy')}
+        </CardTitle>
+        <CardDescription>
+          {formatHours(summary.used_hours)} of {formatHours(allowance.hardLimit)} hours claimed ·{' '}
+          <span className={allowance.remaining === 0 ? 'font-medium text-destructive' : 'font-medium text-foreground'}>
+            {formatHours(allowance.remaining)} hours remaining
+          </span>
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2 text-sm text-muted-foreground">
+        <Progress value={used} className="h-2" />
+        <p>
+          {allowance.hardLimitSource === 'statutory'
+            ? `OT is capped at ${formatHours(summary.statutory_cap_hours)} hours a month by law`
+            : `Your company limits OT to ${formatHours(summary.monthly_limit_hours)} hours a month`}
+          {summary.exception_hours > 0 && `, plus ${formatHours(summary.exception_hours)} approved exception hours`}.
+          Pending requests count until they are rejected.
+        </p>
+        {allowance.softLimit !== null && summary.used_hours < allowance.hardLimit && (
+          <p>Requests beyond {formatHours(allowance.softLimit)} hours are flagged to your approvers.</p>
+        )}
+        {allowance.remaining === 0 && (
+          <p className="text-destructive">
+            You cannot submit more OT for this month. HR or management can request an exception if it is needed.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,81 @@
+import { format } from 'date-fns';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useOTRequestEvents } from '@/hooks/useOTRequestEvents';
+import { getActorRoleLabel, getEventFieldChanges, getEventTitle } from '@/lib/otRequestEvents';
+import { cn } from '@/lib/utils';
+
+interface OTRequestTimelineProps {
+  requestIds: string[];
+  enabled?: boolean;
+  /** Prefix each entry with its session time when several requests share one timeline */
+  sessionLabels?: Record<string, string>;
+}
+
+export function OTRequestTimeline({ requestIds, enabled = true, sessionLabels }: OTRequestTimelineProps) {
+  const { data: events = [], isLoading } = useOTRequestEvents({ requestIds, enabled });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        <Skeleton className="h-10 w-full" />
+        <Skeleton className="h-10 w-full" />
+      </div>
+    );
+  }
+
+  if (events.length === 0) {
+    return <p className="text-sm text-muted-foreground">No history recorded yet.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {events.map((event) => {
+        const fieldChanges = getEventFieldChanges(event);
+        const isRejection = event.to_status === 'rejected';
+        const isEscalation = event.event_type === 'escalated';
+
+        return (
+          <div key={event.id} className="flex gap-3">
+            <div
+              className={cn(
+                'w-2 h-2 rounded-full mt-1.5 shrink-0',
+                isRejection ? 'bg-destructive' : isEscalation ? 'bg-amber-500' : 'bg-primary'
+              )}
+            />
+            <div className="min-w-0 space-y-0.5">
+              <p className="text-sm font-medium">
+                {sessionLabels?.[event.request_id] && (
+                  <span className="text-muted-foreground font-normal">
+                    {sessionLabels[event.request_id]} ·{' '}
+                  </span>
+                )}
+                {getEventTitle(event)}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {format(new Date(event.created_at), 'PPp')}
+                {event.actor?.full_name && (
+                  <> · {event.actor.full_name} ({getActorRoleLabel(event.actor_role)})</>
+                )}
+                {event.on_behalf_of && (
+                  <> on behalf of {event.principal?.full_name || 'an absent approver'}</>
+                )}
+              </p>
+              {event.remarks && (
+                <p className="text-sm bg-muted rounded px-2 py-1 mt-1">{event.remarks}</p>
+              )}
+              {fieldChanges.length > 0 && (
+                <ul className="text-xs text-muted-foreground mt-1 space-y-0.5">
+                  {fieldChanges.map((change) => (
+                    <li key={change.field}>
+                      {change.label}: <span className="line-through">{change.oldValue}</span> → {change.newValue}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
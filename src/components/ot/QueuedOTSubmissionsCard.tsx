@@ -0,0 +1,95 @@
+import { format, parseISO } from 'date-fns';
+import { CloudOff, RefreshCw, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  useDiscardQueuedOTSubmission,
+  useQueuedOTSubmissions,
+  useRetryQueuedOTSubmission,
+} from '@/hooks/useQueuedOTSubmissions';
+import { formatHours, formatTimeRange } from '@/lib/otCalculations';
+import { QueuedOTSubmissionStatus } from '@/types/otms';
+
+const STATUS_BADGES: Record<QueuedOTSubmissionStatus, { label: string; className: string }> = {
+  pending: { label: 'Pending sync', className: 'bg-amber-100 text-amber-800 border-amber-200' },
+  syncing: { label: 'Syncing', className: 'bg-blue-100 text-blue-800 border-blue-200' },
+  conflict: { label: 'Conflict', className: 'bg-destructive/10 text-destructive border-destructive/20' },
+  failed: { label: 'Not submitted', className: 'bg-destructive/10 text-destructive border-destructive/20' },
+};
+
+interface QueuedOTSubmissionsCardProps {
+  employeeId: string | undefined;
+}
+
+/** OT submitted offline and still on this device, with anything stopping it from syncing */
+export function QueuedOTSubmissionsCard({ employeeId }: QueuedOTSubmissionsCardProps) {
+  const { data: submissions = [] } = useQueuedOTSubmissions(employeeId);
+  const retrySubmission = useRetryQueuedOTSubmission();
+  const discardSubmission = useDiscardQueuedOTSubmission();
+
+  if (!employeeId || submissions.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <CloudOff className="h-5 w-5" />
+          Waiting to Sync
+        </CardTitle>
+        <CardDescription>
+          Submitted while offline and saved on this device. They are sent automatically when you are back online.
+          Requests with a conflict need you to fix the clash and retry, or discard them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {submissions.map((submission) => {
+          const badge = STATUS_BADGES[submission.status];
+          const { payload } = submission;
+
+          return (
+            <div key={submission.id} className="flex flex-wrap items-start justify-between gap-3 rounded-lg border p-3">
+              <div className="space-y-1 text-sm">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{format(parseISO(payload.ot_date), 'EEE, dd MMM yyyy')}</span>
+                  <Badge variant="outline" className={badge.className}>
+                    {badge.label}
+                  </Badge>
+                </div>
+                <div className="text-muted-foreground">
+                  {formatTimeRange(payload.start_time, payload.end_time)} · {formatHours(payload.total_hours)} hours ·{' '}
+                  {payload.reason}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  Saved {format(new Date(submission.queued_at), 'dd MMM, HH:mm')}
+                  {submission.attachments.length > 0 && ` · ${submission.attachments.length} file(s) to upload`}
+                </div>
+                {submission.error && <p className="text-xs font-medium text-destructive">{submission.error}</p>}
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => retrySubmission.mutate({ id: submission.id, employeeId })}
+                  disabled={retrySubmission.isPending || submission.status === 'syncing'}
+                >
+                  <RefreshCw className="h-4 w-4 mr-1" />
+                  {submission.status === 'pending' ? 'Sync Now' : 'Retry'}
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  aria-label="Discard queued request"
+                  onClick={() => discardSubmission.mutate(submission.id)}
+                  disabled={discardSubmission.isPending || submission.status === 'syncing'}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
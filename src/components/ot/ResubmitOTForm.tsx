@@ -18,6 +18,8 @@ export function ResubmitOTForm({ request, onSuccess }: ResubmitOTFormProps) {
     start_time: request.start_time,
     end_time: request.end_time,
     reason: request.reason,
+    reason_id: request.reason_id || undefined,
+    respective_supervisor_id: request.respective_supervisor_id || 'none',
     attachment_urls: request.attachment_urls || [],
   };
   
@@ -31,6 +33,8 @@ export function ResubmitOTForm({ request, onSuccess }: ResubmitOTFormProps) {
       total_hours: data.total_hours,
       day_type: data.day_type,
       reason: data.reason,
+      reason_id: data.reason_id,
+      respective_supervisor_id: data.respective_supervisor_id || undefined,
       attachment_urls: data.attachment_urls,
     }, {
       onSuccess
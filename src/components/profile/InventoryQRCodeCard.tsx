@@ -18,7 +18,7 @@ export function InventoryQRCodeCard({ profile }: InventoryQRCodeCardProps) {
     formatTimeRemaining,
     timeRemaining,
     generateQRCode
-  } = useInventoryQRCode(profile);
+  } = useInventoryQRCode();
 
   return (
     <Card className="md:col-span-2">
@@ -44,7 +44,7 @@ export function InventoryQRCodeCard({ profile }: InventoryQRCodeCardProps) {
           <Alert>
             <AlertCircle className="h-4 w-4" />
             <AlertDescription>
-              Show this QR code at the inventory room scanner. The code expires after 30 minutes for security.
+              Show this QR code at the inventory room scanner. It works once and expires after 30 minutes; generating a new one replaces it.
             </AlertDescription>
           </Alert>
 
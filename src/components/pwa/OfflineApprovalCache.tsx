@@ -0,0 +1,75 @@
+import { useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/useAuth';
+import { ENABLE_OFFLINE_MODE } from '@/config/features';
+import { collectAttachmentUrls, isOfflineApprovalQuery } from '@/lib/offlineApprovals';
+import {
+  cacheOTAttachments,
+  clearOfflineQueries,
+  restoreOfflineQueries,
+  saveOfflineQueries,
+} from '@/services/offline-query-cache';
+import { OTRequest } from '@/types/otms';
+
+/** Saves are batched, as a page load settles several queries together */
+const SAVE_DELAY_MS = 1000;
+
+/**
+ * OfflineApprovalCache - Keeps the approval queue available offline
+ *
+ * Renders nothing. While the app is open it:
+ * - restores the signed-in user's saved approval queries on start, so
+ *   VerifyOT opens without a connection
+ * - saves those queries to the device whenever they load
+ * - fetches the attachments of requests awaiting a decision into the
+ *   cache the service worker serves them from
+ * - removes the saved queries when the user signs out
+ */
+export function OfflineApprovalCache() {
+  const { user, isLoadingSession } = useAuth();
+  const queryClient = useQueryClient();
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!ENABLE_OFFLINE_MODE || isLoadingSession) return;
+
+    if (!userId) {
+      clearOfflineQueries().catch((error) => console.warn('[OfflineCache] Failed to clear saved queries:', error));
+      return;
+    }
+
+    restoreOfflineQueries(queryClient, userId).catch((error) =>
+      console.warn('[OfflineCache] Failed to restore saved queries:', error)
+    );
+  }, [userId, isLoadingSession, queryClient]);
+
+  useEffect(() => {
+    if (!ENABLE_OFFLINE_MODE || !userId) return;
+
+    let saveTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const unsubscribe = queryClient.getQueryCache().subscribe((event) => {
+      if (event.type !== 'updated' || event.action.type !== 'success') return;
+      if (!isOfflineApprovalQuery(event.query.queryKey)) return;
+
+      if (event.query.queryKey[0] === 'supervisor-ot-approvals') {
+        const urls = collectAttachmentUrls((event.query.state.data as OTRequest[]) || []);
+        cacheOTAttachments(urls).catch((error) => console.warn('[OfflineCache] Failed to cache attachments:', error));
+      }
+
+      clearTimeout(saveTimer);
+      saveTimer = setTimeout(() => {
+        saveOfflineQueries(queryClient, userId).catch((error) =>
+          console.warn('[OfflineCache] Failed to save queries:', error)
+        );
+      }, SAVE_DELAY_MS);
+    });
+
+    return () => {
+      clearTimeout(saveTimer);
+      unsubscribe();
+    };
+  }, [userId, queryClient]);
+
+  return null;
+}
@@ -0,0 +1,87 @@
+import { useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { useSyncQueuedOTSubmissions } from '@/hooks/useQueuedOTSubmissions';
+import { useSyncQueuedOTDecisions } from '@/hooks/useQueuedOTDecisions';
+import { ENABLE_BACKGROUND_SYNC, ENABLE_OFFLINE_MODE } from '@/config/features';
+import { OT_QUEUE_UPDATED_MESSAGE } from '@/lib/offlineQueue';
+import { describeStaleDecisions, OT_DECISIONS_UPDATED_MESSAGE } from '@/lib/offlineApprovals';
+import { DecisionSyncResult } from '@/services/offline-ot-decisions';
+import { clearSyncSession, saveSyncSession } from '@/services/offline-ot-queue';
+
+/**
+ * OfflineQueueSync - Sends OT and approval decisions queued offline once the app is online
+ *
+ * Renders nothing. While the app is open it:
+ * - keeps the signed-in user's access token where the service worker can use
+ *   it for Background Sync
+ * - replays the queues on start and whenever the device comes back online,
+ *   for browsers without Background Sync or when the worker's token expired
+ * - refreshes queued and submitted OT when the service worker has replayed,
+ *   and tells an approver about decisions refused because the request changed
+ */
+export function OfflineQueueSync() {
+  const { user, session } = useAuth();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { mutate: syncQueue } = useSyncQueuedOTSubmissions();
+  const { mutate: syncDecisions } = useSyncQueuedOTDecisions();
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!ENABLE_OFFLINE_MODE || !ENABLE_BACKGROUND_SYNC) return;
+
+    const update = session?.access_token && userId
+      ? saveSyncSession({ user_id: userId, access_token: session.access_token, expires_at: session.expires_at ?? 0 })
+      : clearSyncSession();
+    update.catch((error) => console.warn('[OfflineQueue] Failed to store sync session:', error));
+  }, [userId, session?.access_token, session?.expires_at]);
+
+  useEffect(() => {
+    if (!ENABLE_OFFLINE_MODE || !userId) return;
+
+    const handleOnline = () => {
+      syncQueue(userId);
+      syncDecisions(userId);
+    };
+    if (navigator.onLine) handleOnline();
+
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [userId, syncQueue, syncDecisions]);
+
+  useEffect(() => {
+    if (!ENABLE_OFFLINE_MODE || !('serviceWorker' in navigator)) return;
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === OT_QUEUE_UPDATED_MESSAGE) {
+        queryClient.invalidateQueries({ queryKey: ['offline-ot-queue'] });
+        queryClient.invalidateQueries({ queryKey: ['ot-requests'] });
+        queryClient.invalidateQueries({ queryKey: ['ot-hours-summary'] });
+        queryClient.invalidateQueries({ queryKey: ['ot-request-drafts'] });
+      }
+
+      if (event.data?.type === OT_DECISIONS_UPDATED_MESSAGE) {
+        queryClient.invalidateQueries({ queryKey: ['offline-ot-decisions'] });
+        queryClient.invalidateQueries({ queryKey: ['supervisor-ot-approvals'] });
+        queryClient.invalidateQueries({ queryKey: ['ot-requests'] });
+        queryClient.invalidateQueries({ queryKey: ['supervisor-dashboard-metrics'] });
+
+        const result = event.data.result as DecisionSyncResult;
+        if (result.stale > 0) {
+          toast({
+            title: 'Decisions not applied',
+            description: describeStaleDecisions(result.staleTickets),
+            variant: 'destructive',
+          });
+        }
+      }
+    };
+
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+  }, [queryClient, toast]);
+
+  return null;
+}
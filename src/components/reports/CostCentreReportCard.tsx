@@ -0,0 +1,58 @@
+import { Card } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CostCentreTotal } from '@/lib/costAllocation';
+import { formatCurrency, formatHours } from '@/lib/otCalculations';
+
+interface CostCentreReportCardProps {
+  totals: CostCentreTotal[];
+  periodLabel: string;
+}
+
+/** Approved OT cost allocated back to cost centres and projects */
+export function CostCentreReportCard({ totals, periodLabel }: CostCentreReportCardProps) {
+  const totalHours = totals.reduce((sum, total) => sum + total.hours, 0);
+  const totalAmount = totals.reduce((sum, total) => sum + total.amount, 0);
+
+  return (
+    <Card className="p-6 space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold">OT by Cost Centre</h2>
+        <p className="text-sm text-muted-foreground">
+          Approved OT for {periodLabel}, split by the hours each session was charged to
+        </p>
+      </div>
+
+      {totals.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No approved OT for this period.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Code</TableHead>
+              <TableHead>Name</TableHead>
+              <TableHead className="text-right">Hours</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {totals.map((total) => (
+              <TableRow key={total.code || 'unallocated'}>
+                <TableCell className="font-mono">{total.code || '—'}</TableCell>
+                <TableCell className={total.code ? '' : 'text-muted-foreground'}>{total.name}</TableCell>
+                <TableCell className="text-right">{formatHours(total.hours)}</TableCell>
+                <TableCell className="text-right">{formatCurrency(total.amount)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+          <TableFooter>
+            <TableRow>
+              <TableCell colSpan={2}>Total</TableCell>
+              <TableCell className="text-right">{formatHours(totalHours)}</TableCell>
+              <TableCell className="text-right">{formatCurrency(totalAmount)}</TableCell>
+            </TableRow>
+          </TableFooter>
+        </Table>
+      )}
+    </Card>
+  );
+}
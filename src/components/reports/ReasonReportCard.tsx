@@ -0,0 +1,65 @@
+import { Card } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ReasonTotal, UNCATALOGUED_REASON } from '@/lib/otReasons';
+import { formatCurrency, formatHours } from '@/lib/otCalculations';
+
+interface ReasonReportCardProps {
+  totals: ReasonTotal[];
+  periodLabel: string;
+}
+
+/** Approved OT by the reason employees gave for it */
+export function ReasonReportCard({ totals, periodLabel }: ReasonReportCardProps) {
+  const totalRequests = totals.reduce((sum, total) => sum + total.requests, 0);
+  const totalHours = totals.reduce((sum, total) => sum + total.hours, 0);
+  const totalAmount = totals.reduce((sum, total) => sum + total.amount, 0);
+
+  return (
+    <Card className="p-6 space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold">OT by Reason</h2>
+        <p className="text-sm text-muted-foreground">Approved OT for {periodLabel}, by the reason given</p>
+      </div>
+
+      {totals.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No approved OT for this period.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Reason</TableHead>
+              <TableHead className="text-right">Requests</TableHead>
+              <TableHead className="text-right">Hours</TableHead>
+              <TableHead className="text-right">Share of Hours</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {totals.map((total) => (
+              <TableRow key={total.label}>
+                <TableCell className={total.label === UNCATALOGUED_REASON ? 'text-muted-foreground' : ''}>
+                  {total.label}
+                </TableCell>
+                <TableCell className="text-right">{total.requests}</TableCell>
+                <TableCell className="text-right">{formatHours(total.hours)}</TableCell>
+                <TableCell className="text-right">
+                  {totalHours > 0 ? `${Math.round((total.hours / totalHours) * 100)}%` : '—'}
+                </TableCell>
+                <TableCell className="text-right">{formatCurrency(total.amount)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+          <TableFooter>
+            <TableRow>
+              <TableCell>Total</TableCell>
+              <TableCell className="text-right">{totalRequests}</TableCell>
+              <TableCell className="text-right">{formatHours(totalHours)}</TableCell>
+              <TableCell />
+              <TableCell className="text-right">{formatCurrency(totalAmount)}</TableCell>
+            </TableRow>
+          </TableFooter>
+        </Table>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,235 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { UserCheck, X } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/hooks/useAuth';
+import { useApprovalDelegations } from '@/hooks/useApprovalDelegations';
+import { useActiveDelegations } from '@/hooks/useActiveDelegations';
+import { useDelegateCandidates } from '@/hooks/useDelegateCandidates';
+import { useCreateApprovalDelegation } from '@/hooks/useCreateApprovalDelegation';
+import { useRevokeApprovalDelegation } from '@/hooks/useRevokeApprovalDelegation';
+import { DELEGATION_ROLE_LABELS, isDelegationActive, toDelegationDate } from '@/lib/approvalDelegation';
+import { ApprovalDelegation, DelegationRole } from '@/types/otms';
+
+const DELEGABLE_ROLES: DelegationRole[] = ['supervisor', 'hr', 'management'];
+
+function formatRange(delegation: Pick<ApprovalDelegation, 'starts_on' | 'ends_on'>) {
+  const start = format(parseISO(delegation.starts_on), 'dd MMM yyyy');
+  const end = format(parseISO(delegation.ends_on), 'dd MMM yyyy');
+  return start === end ? start : `${start} – ${end}`;
+}
+
+function getDelegationState(delegation: ApprovalDelegation): { label: string; variant: 'default' | 'secondary' | 'outline' } {
+  const today = toDelegationDate();
+  if (delegation.revoked_at) return { label: 'Revoked', variant: 'secondary' };
+  if (isDelegationActive(delegation, today)) return { label: 'Active', variant: 'default' };
+  if (delegation.starts_on > today) return { label: 'Scheduled', variant: 'outline' };
+  return { label: 'Ended', variant: 'secondary' };
+}
+
+/**
+ * Out of Office Section
+ *
+ * Lets supervisors, HR and management hand their approvals to a delegate for a
+ * date range, and shows whose approvals the current user is covering.
+ */
+export function DelegationSettingsSection() {
+  const { user, hasRole } = useAuth();
+  const ownRoles = DELEGABLE_ROLES.filter((role) => hasRole(role));
+  const canDelegate = ownRoles.length > 0;
+
+  const { data: delegations = [] } = useApprovalDelegations();
+  const { data: covering = [] } = useActiveDelegations();
+  const { data: candidates = [] } = useDelegateCandidates({ enabled: canDelegate });
+  const createDelegation = useCreateApprovalDelegation();
+  const revokeDelegation = useRevokeApprovalDelegation();
+
+  const today = toDelegationDate();
+  const [role, setRole] = useState<DelegationRole | ''>('');
+  const [delegateId, setDelegateId] = useState('');
+  const [startsOn, setStartsOn] = useState(today);
+  const [endsOn, setEndsOn] = useState(today);
+  const [reason, setReason] = useState('');
+
+  if (!canDelegate && covering.length === 0) {
+    return null;
+  }
+
+  const selectedRole = role || ownRoles[0];
+  const isValid = !!user && !!selectedRole && !!delegateId && !!startsOn && !!endsOn && endsOn >= startsOn;
+
+  const handleSubmit = () => {
+    if (!isValid) return;
+
+    createDelegation.mutate(
+      {
+        delegator_id: user.id,
+        delegate_id: delegateId,
+        role: selectedRole,
+        starts_on: startsOn,
+        ends_on: endsOn,
+        reason,
+      },
+      {
+        onSuccess: () => {
+          setDelegateId('');
+          setReason('');
+        },
+      }
+    );
+  };
+
+  // Hide long-finished delegations; revoked or ended ones from the last month stay for reference
+  const recentDelegations = delegations.filter(
+    (d) => d.ends_on >= toDelegationDate(new Date(Date.now() - 30 * 24 * 60 * 60 * 1000))
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <UserCheck className="h-5 w-5" />
+          Out of Office
+        </CardTitle>
+        <CardDescription>
+          Choose a delegate to verify and approve OT on your behalf while you are away
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {covering.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">You are covering for</p>
+            {covering.map((d) => (
+              <div key={d.id} className="flex items-center justify-between rounded-md border p-3 text-sm">
+                <span>
+                  {d.delegator?.full_name || 'Unknown'} · {DELEGATION_ROLE_LABELS[d.role]}
+                </span>
+                <span className="text-muted-foreground">until {format(parseISO(d.ends_on), 'dd MMM yyyy')}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {canDelegate && (
+          <>
+            <div className="grid gap-4 sm:grid-cols-2">
+              {ownRoles.length > 1 && (
+                <div className="space-y-2">
+                  <Label>Role</Label>
+                  <Select value={selectedRole} onValueChange={(value) => setRole(value as DelegationRole)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ownRoles.map((r) => (
+                        <SelectItem key={r} value={r}>
+                          {DELEGATION_ROLE_LABELS[r]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label>Delegate</Label>
+                <Select value={delegateId} onValueChange={setDelegateId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a colleague" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {candidates.map((candidate) => (
+                      <SelectItem key={candidate.id} value={candidate.id}>
+                        {candidate.full_name} ({candidate.employee_id})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="delegation-start">From</Label>
+                <Input
+                  id="delegation-start"
+                  type="date"
+                  min={today}
+                  value={startsOn}
+                  onChange={(e) => setStartsOn(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="delegation-end">Until</Label>
+                <Input
+                  id="delegation-end"
+                  type="date"
+                  min={startsOn || today}
+                  value={endsOn}
+                  onChange={(e) => setEndsOn(e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="delegation-reason">Reason (optional)</Label>
+              <Textarea
+                id="delegation-reason"
+                placeholder="e.g. Annual leave"
+                maxLength={500}
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+            </div>
+            <Button
+              onClick={handleSubmit}
+              disabled={!isValid || createDelegation.isPending}
+              className="w-full"
+            >
+              {createDelegation.isPending ? 'Saving...' : 'Assign Delegate'}
+            </Button>
+
+            {recentDelegations.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Your delegations</p>
+                {recentDelegations.map((d) => {
+                  const state = getDelegationState(d);
+                  const canRevoke = !d.revoked_at && d.ends_on >= today;
+
+                  return (
+                    <div key={d.id} className="flex items-center justify-between gap-2 rounded-md border p-3">
+                      <div className="min-w-0 text-sm">
+                        <p className="font-medium truncate">
+                          {d.delegate?.full_name || 'Unknown'} · {DELEGATION_ROLE_LABELS[d.role]}
+                        </p>
+                        <p className="text-muted-foreground">
+                          {formatRange(d)}
+                          {d.reason && ` · ${d.reason}`}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2 shrink-0">
+                        <Badge variant={state.variant}>{state.label}</Badge>
+                        {canRevoke && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Revoke"
+                            onClick={() => revokeDelegation.mutate(d.id)}
+                            disabled={revokeDelegation.isPending}
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
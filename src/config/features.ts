@@ -20,6 +20,32 @@
  */
 export const ENABLE_PUSH_NOTIFICATIONS = true;
 
+/**
+ * ENABLE_OFFLINE_MODE
+ *
+ * Controls queueing of OT submissions and approval decisions made without
+ * a connection
+ *
+ * ACTIVE: Submissions (attachments included) are saved in IndexedDB and
+ * replayed through submit-ot-request when connectivity returns. OT History
+ * shows them as pending sync, or as conflicts to resolve. Supervisors' approval
+ * queue and its attachments are kept on the device, and decisions made in
+ * VerifyOT offline are replayed in order, unless the request changed meanwhile.
+ */
+export const ENABLE_OFFLINE_MODE = true;
+
+/**
+ * ENABLE_BACKGROUND_SYNC
+ *
+ * Controls replaying the offline queue from the service worker
+ *
+ * ACTIVE: The service worker replays queued submissions and decisions on
+ * Background Sync, even with the app closed. Where Background Sync isn't supported, the app
+ * replays them when it is next open and online.
+ *
+ * Dependencies:
+ * - ENABLE_OFFLINE_MODE ✓
+ */
+export const ENABLE_BACKGROUND_SYNC = true;
+
 // Future feature flags can be added here
-// export const ENABLE_OFFLINE_MODE = false;
-// export const ENABLE_BACKGROUND_SYNC = false;
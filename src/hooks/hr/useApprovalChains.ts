@@ -0,0 +1,23 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { ApprovalChain } from '@/types/otms';
+
+export function useApprovalChains() {
+  return useQuery({
+    queryKey: ['approval-chains'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('approval_chains')
+        .select(`
+          *,
+          approval_chain_steps(*),
+          companies(name),
+          departments(name)
+        `)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data as ApprovalChain[];
+    },
+  });
+}
@@ -0,0 +1,49 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+
+interface AssignShiftPatternData {
+  employee_id: string;
+  pattern_id: string;
+  effective_from: string;
+  /** Day 1 of the cycle; defaults to effective_from */
+  cycle_start_date?: string;
+}
+
+/**
+ * Puts an employee on a pattern from a date. Their current roster ends the
+ * day before, and OT from that date is recalculated at the new day types.
+ */
+export function useAssignShiftPattern() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: AssignShiftPatternData) => {
+      const { data: assignmentId, error } = await supabase.rpc('assign_shift_pattern', {
+        p_employee_id: data.employee_id,
+        p_pattern_id: data.pattern_id,
+        p_effective_from: data.effective_from,
+        p_cycle_start_date: data.cycle_start_date ?? null,
+      });
+
+      if (error) throw error;
+      return assignmentId;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['shift-assignments'] });
+      queryClient.invalidateQueries({ queryKey: ['employee-roster'] });
+      toast({
+        title: 'Success',
+        description: 'Roster assigned successfully',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to assign roster: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+}
@@ -0,0 +1,20 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { AttendanceImportBatch } from '@/types/otms';
+
+/** Attendance imports, newest first */
+export function useAttendanceImportBatches() {
+  return useQuery({
+    queryKey: ['attendance-import-batches'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('attendance_import_batches')
+        .select('*, profiles!attendance_import_batches_imported_by_fkey(full_name)')
+        .order('created_at', { ascending: false })
+        .limit(50);
+
+      if (error) throw error;
+      return data as unknown as AttendanceImportBatch[];
+    },
+  });
+}
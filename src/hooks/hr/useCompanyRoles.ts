@@ -0,0 +1,62 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { AppRole, UserCompanyRole } from '@/types/otms';
+
+/** The roles a user holds in each company */
+export function useCompanyRoles(userId?: string) {
+  return useQuery({
+    queryKey: ['company-roles', userId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('user_company_roles')
+        .select('*')
+        .eq('user_id', userId!);
+
+      if (error) throw error;
+      return (data as UserCompanyRole[]) || [];
+    },
+    enabled: !!userId,
+  });
+}
+
+interface SetCompanyRolesInput {
+  userId: string;
+  companyId: string;
+  roles: AppRole[];
+}
+
+/** Replaces a user's roles in one company */
+export function useSetCompanyRoles() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ userId, companyId, roles }: SetCompanyRolesInput) => {
+      const { error } = await supabase.rpc('set_company_roles', {
+        p_user_id: userId,
+        p_company_id: companyId,
+        p_roles: roles,
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['company-roles'] });
+      queryClient.invalidateQueries({ queryKey: ['hr-employees'] });
+      queryClient.invalidateQueries({ queryKey: ['my-companies'] });
+      queryClient.invalidateQueries({ queryKey: ['auth', 'user', 'roles'] });
+      toast({
+        title: 'Success',
+        description: 'Company roles updated successfully',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to update company roles: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+}
@@ -0,0 +1,66 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { ApprovalChain, ApprovalStepCondition, ApprovalStepRole, ApprovalStepSkipRule } from '@/types/otms';
+
+export interface ApprovalChainStepInput {
+  role: ApprovalStepRole;
+  condition: ApprovalStepCondition;
+  skip_rule: ApprovalStepSkipRule;
+}
+
+export interface CreateApprovalChainData {
+  name: string;
+  company_id: string | null;
+  department_id: string | null;
+  is_active: boolean;
+  steps: ApprovalChainStepInput[];
+}
+
+export function useCreateApprovalChain() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ steps, ...chain }: CreateApprovalChainData) => {
+      const { data: result, error } = await supabase
+        .from('approval_chains')
+        .insert(chain)
+        .select()
+        .single();
+
+      if (error) throw error;
+      const created = result as ApprovalChain;
+
+      if (steps.length > 0) {
+        const { error: stepsError } = await supabase
+          .from('approval_chain_steps')
+          .insert(steps.map((step) => ({ ...step, condition: { ...step.condition }, chain_id: created.id })));
+
+        if (stepsError) {
+          // Don't leave a chain without its steps behind
+          await supabase.from('approval_chains').delete().eq('id', created.id);
+          throw stepsError;
+        }
+      }
+
+      return created;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['approval-chains'] });
+      toast({
+        title: 'Success',
+        description: 'Approval chain created successfully',
+      });
+    },
+    onError: (error: Error & { code?: string }) => {
+      toast({
+        title: 'Error',
+        description: error.code === '23505'
+          ? 'An active approval chain already exists for this company and department'
+          : error.message || 'Failed to create approval chain',
+        variant: 'destructive',
+      });
+    },
+  });
+}
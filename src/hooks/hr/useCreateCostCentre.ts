@@ -0,0 +1,37 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { CostCentre } from '@/types/otms';
+
+export type CostCentreInput = Pick<CostCentre, 'code' | 'name' | 'kind' | 'client_name' | 'is_active'>;
+
+export function useCreateCostCentre() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: CostCentreInput) => {
+      const { error } = await supabase
+        .from('cost_centres')
+        .insert(data);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['cost-centres'] });
+      toast({
+        title: 'Success',
+        description: 'Cost centre created successfully',
+      });
+    },
+    onError: (error: Error & { code?: string }) => {
+      toast({
+        title: 'Error',
+        description: error.code === '23505'
+          ? 'A cost centre with this code already exists'
+          : `Failed to create cost centre: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+}
@@ -5,6 +5,7 @@ import { toast } from 'sonner';
 interface CreateDepartmentData {
   code: string;
   name: string;
+  head_id?: string | null;
 }
 
 export function useCreateDepartment() {
@@ -19,6 +20,7 @@ export function useCreateDepartment() {
         .insert({
           code: data.code.toUpperCase(),
           name: data.name.trim(),
+          head_id: data.head_id ?? null,
         })
         .select()
         .single();
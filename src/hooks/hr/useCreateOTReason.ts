@@ -0,0 +1,35 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { OTReason } from '@/types/otms';
+
+export type OTReasonInput = Omit<OTReason, 'id' | 'created_at' | 'updated_at'>;
+
+export function useCreateOTReason() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: OTReasonInput) => {
+      const { error } = await supabase
+        .from('ot_reasons')
+        .insert(data);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['ot-reasons'] });
+      toast({
+        title: 'Success',
+        description: 'OT reason created successfully',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to create OT reason: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+}
@@ -0,0 +1,47 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+
+interface CreatePayrollAdjustmentData {
+  ot_request_id: string;
+  hours_delta: number;
+  amount_delta: number;
+  reason: string;
+}
+
+/**
+ * Records a correction to OT in a locked period; the server assigns it to the
+ * company's next open period
+ */
+export function useCreatePayrollAdjustment() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: CreatePayrollAdjustmentData) => {
+      const { data: adjustmentId, error } = await supabase.rpc('create_ot_payroll_adjustment', {
+        p_ot_request_id: data.ot_request_id,
+        p_hours_delta: data.hours_delta,
+        p_amount_delta: data.amount_delta,
+        p_reason: data.reason,
+      });
+
+      if (error) throw error;
+      return adjustmentId;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['payroll-adjustments'] });
+      toast({
+        title: 'Success',
+        description: 'Payroll adjustment recorded for the next open period',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to record payroll adjustment: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+}
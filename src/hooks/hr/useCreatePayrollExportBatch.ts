@@ -0,0 +1,56 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { PayrollExportBatch } from '@/types/otms';
+import { PAYROLL_BATCH_SELECT } from './usePayrollExportBatches';
+
+interface CreatePayrollExportBatchData {
+  layout_id: string;
+  period_start: string;
+  period_end: string;
+  company_id: string | null;
+}
+
+/**
+ * Records a batch of the period's approved OT and payroll adjustments that
+ * have not been exported yet and returns it with its lines, ready to be
+ * written to a file
+ */
+export function useCreatePayrollExportBatch() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: CreatePayrollExportBatchData) => {
+      const { data: batchId, error } = await supabase.rpc('create_payroll_export_batch', {
+        p_layout_id: data.layout_id,
+        p_period_start: data.period_start,
+        p_period_end: data.period_end,
+        p_company_id: data.company_id,
+      });
+
+      if (error) throw error;
+
+      const { data: batch, error: batchError } = await supabase
+        .from('payroll_export_batches')
+        .select(PAYROLL_BATCH_SELECT)
+        .eq('id', batchId)
+        .single();
+
+      if (batchError) throw batchError;
+      return batch as unknown as PayrollExportBatch;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['payroll-export-batches'] });
+    },
+    onError: (error: Error & { code?: string }) => {
+      toast({
+        title: 'Error',
+        description: error.code === 'P0002'
+          ? 'All approved OT and adjustments in this period have already been exported'
+          : `Failed to create payroll export: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+}
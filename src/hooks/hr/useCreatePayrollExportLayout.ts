@@ -0,0 +1,35 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { PayrollExportLayout } from '@/types/otms';
+
+export type PayrollExportLayoutInput = Omit<PayrollExportLayout, 'id' | 'created_at' | 'updated_at'>;
+
+export function useCreatePayrollExportLayout() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: PayrollExportLayoutInput) => {
+      const { error } = await supabase
+        .from('payroll_export_layouts')
+        .insert({ ...data, columns: data.columns.map((column) => ({ ...column })) });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['payroll-export-layouts'] });
+      toast({
+        title: 'Success',
+        description: 'Payroll export layout created successfully',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to create payroll export layout: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+}
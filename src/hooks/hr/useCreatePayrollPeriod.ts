@@ -0,0 +1,42 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+
+interface CreatePayrollPeriodData {
+  company_id: string;
+  period_start: string;
+  period_end: string;
+}
+
+export function useCreatePayrollPeriod() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: CreatePayrollPeriodData) => {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      const { error } = await supabase
+        .from('payroll_periods')
+        .insert({ ...data, created_by: user?.id });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['payroll-periods'] });
+      toast({
+        title: 'Success',
+        description: 'Payroll period created successfully',
+      });
+    },
+    onError: (error: Error & { code?: string }) => {
+      toast({
+        title: 'Error',
+        description: error.code === '23P01' || error.code === '23505'
+          ? 'This period overlaps an existing payroll period of the company'
+          : `Failed to create payroll period: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+}
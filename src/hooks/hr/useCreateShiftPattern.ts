@@ -0,0 +1,62 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { RosterDayKind, ShiftPattern } from '@/types/otms';
+
+export interface ShiftPatternDayInput {
+  day_kind: RosterDayKind;
+  shift_template_id: string | null;
+}
+
+export interface CreateShiftPatternData {
+  name: string;
+  description: string | null;
+  /** One entry per day of the cycle, in order */
+  days: ShiftPatternDayInput[];
+}
+
+export function useCreateShiftPattern() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ days, ...pattern }: CreateShiftPatternData) => {
+      const { data: result, error } = await supabase
+        .from('shift_patterns')
+        .insert({ ...pattern, cycle_length: days.length })
+        .select()
+        .single();
+
+      if (error) throw error;
+      const created = result as unknown as ShiftPattern;
+
+      const { error: daysError } = await supabase
+        .from('shift_pattern_days')
+        .insert(days.map((day, index) => ({ ...day, pattern_id: created.id, day_index: index })));
+
+      if (daysError) {
+        // Don't leave a pattern without its days behind
+        await supabase.from('shift_patterns').delete().eq('id', created.id);
+        throw daysError;
+      }
+
+      return created;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['shift-patterns'] });
+      toast({
+        title: 'Success',
+        description: 'Shift pattern created successfully',
+      });
+    },
+    onError: (error: Error & { code?: string }) => {
+      toast({
+        title: 'Error',
+        description: error.code === '23505'
+          ? 'A shift pattern with this name already exists'
+          : `Failed to create shift pattern: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+}
@@ -0,0 +1,40 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { ShiftTemplate } from '@/types/otms';
+
+export type ShiftTemplateInput = Pick<ShiftTemplate, 'name' | 'code' | 'start_time' | 'end_time' | 'normal_hours' | 'is_active'>;
+
+export function useCreateShiftTemplate() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: ShiftTemplateInput) => {
+      const { data: result, error } = await supabase
+        .from('shift_templates')
+        .insert(data)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return result as ShiftTemplate;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['shift-templates'] });
+      toast({
+        title: 'Success',
+        description: 'Shift created successfully',
+      });
+    },
+    onError: (error: Error & { code?: string }) => {
+      toast({
+        title: 'Error',
+        description: error.code === '23505'
+          ? 'A shift with this code already exists'
+          : `Failed to create shift: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+}
@@ -0,0 +1,41 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+
+export interface DecideOTCapExceptionData {
+  id: string;
+  approve: boolean;
+  note?: string;
+}
+
+export function useDecideOTCapException() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (data: DecideOTCapExceptionData) => {
+      const { error } = await supabase.rpc('decide_ot_cap_exception', {
+        p_exception_id: data.id,
+        p_approve: data.approve,
+        p_note: data.note ?? null,
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['ot-cap-exceptions'] });
+      queryClient.invalidateQueries({ queryKey: ['ot-hours-summary'] });
+      toast({
+        title: 'Success',
+        description: variables.approve ? 'Exception approved' : 'Exception rejected',
+      });
+    },
+    onError: (error: Error & { code?: string }) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to decide the exception',
+        variant: 'destructive',
+      });
+    },
+  });
+}
@@ -46,6 +46,11 @@ export function useDeleteEmployee() {
         if ((error as any)?.status === 403) {
           throw new Error('You do not have permission to delete employees.');
         }
+        const response = (error as Error & { context?: Response }).context;
+        if (response?.status === 409) {
+          const body = await response.json().catch(() => null);
+          throw new Error(body?.error || 'Reassign the employees reporting to this employee first.');
+        }
         throw new Error(message);
       }
 
@@ -0,0 +1,35 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+
+export function useDeletePayrollExportLayout() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('payroll_export_layouts')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['payroll-export-layouts'] });
+      toast({
+        title: 'Success',
+        description: 'Payroll export layout deleted successfully',
+      });
+    },
+    onError: (error: Error & { code?: string }) => {
+      toast({
+        title: 'Error',
+        description: error.code === '23503'
+          ? 'This layout has been used for payroll exports and cannot be deleted. Deactivate it instead.'
+          : `Failed to delete payroll export layout: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+}
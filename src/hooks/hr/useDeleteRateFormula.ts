@@ -1,19 +1,33 @@
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { RateFormula } from '@/types/otms';
 
+/**
+ * Deletes the latest version of a formula and reopens the version it
+ * superseded. Versions already used by OT requests cannot be deleted.
+ */
 export function useDeleteRateFormula() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (id: string) => {
+    mutationFn: async (formula: Pick<RateFormula, 'id' | 'supersedes_id'>) => {
       const { error } = await supabase
         .from('ot_rate_formulas')
         .delete()
-        .eq('id', id);
+        .eq('id', formula.id);
 
       if (error) throw error;
+
+      if (formula.supersedes_id) {
+        const { error: reopenError } = await supabase
+          .from('ot_rate_formulas')
+          .update({ effective_to: null })
+          .eq('id', formula.supersedes_id);
+
+        if (reopenError) throw reopenError;
+      }
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['rate-formulas'] });
@@ -22,10 +36,13 @@ export function useDeleteRateFormula() {
         description: 'Rate formula deleted successfully',
       });
     },
-    onError: (error) => {
+    onError: (error: Error & { code?: string }) => {
       toast({
         title: 'Error',
-        description: `Failed to delete rate formula: ${error.message}`,
+        description:
+          error.code === '23503'
+            ? 'This version has been used to calculate OT and cannot be deleted. Deactivate it instead.'
+            : `Failed to delete rate formula: ${error.message}`,
         variant: 'destructive',
       });
     },
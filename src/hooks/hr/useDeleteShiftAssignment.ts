@@ -0,0 +1,35 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+
+/** Removes a roster assignment; the employee's OT in its period falls back to the calendar */
+export function useDeleteShiftAssignment() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('employee_shift_assignments')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['shift-assignments'] });
+      queryClient.invalidateQueries({ queryKey: ['employee-roster'] });
+      toast({
+        title: 'Success',
+        description: 'Roster assignment removed',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to remove roster assignment: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+}
@@ -0,0 +1,35 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+
+export function useDeleteShiftPattern() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('shift_patterns')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['shift-patterns'] });
+      toast({
+        title: 'Success',
+        description: 'Shift pattern deleted successfully',
+      });
+    },
+    onError: (error: Error & { code?: string }) => {
+      toast({
+        title: 'Error',
+        description: error.code === '23503'
+          ? 'This pattern is assigned to employees and cannot be deleted'
+          : `Failed to delete shift pattern: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+}
@@ -5,6 +5,7 @@ export interface DepartmentWithCount {
   id: string;
   code: string;
   name: string;
+  head_id: string | null;
   created_at: string;
   employee_count: number;
   position_count: number;
@@ -30,6 +31,7 @@ export function useDepartments() {
         id: dept.id,
         code: dept.code,
         name: dept.name,
+        head_id: dept.head_id ?? null,
         created_at: dept.created_at,
         employee_count: dept.profiles?.[0]?.count || 0,
         position_count: dept.positions?.[0]?.count || 0,
@@ -0,0 +1,111 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { EmployeeImportPreview } from '@/lib/employeeImport';
+import {
+  cancelEmployeeImportJob,
+  createEmployeeImportJob,
+  listEmployeeImportIssues,
+  listEmployeeImportJobs,
+  runEmployeeImportJob,
+} from '@/services/employee-import';
+import { EmployeeImportProgress } from '@/types/otms';
+
+/** Employee imports of the active company, newest first */
+export function useEmployeeImportJobs() {
+  return useQuery({
+    queryKey: ['employee-import-jobs'],
+    queryFn: listEmployeeImportJobs,
+  });
+}
+
+/** Rows of an import that failed or carry a note */
+export function useEmployeeImportIssues(jobId?: string) {
+  return useQuery({
+    queryKey: ['employee-import-jobs', jobId, 'issues'],
+    queryFn: () => listEmployeeImportIssues(jobId!),
+    enabled: !!jobId,
+  });
+}
+
+interface CreateEmployeeImportData {
+  fileName: string;
+  preview: EmployeeImportPreview;
+  sendInvites: boolean;
+}
+
+/** Saves the valid rows of a checked file as an import job */
+export function useCreateEmployeeImport() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ fileName, preview, sendInvites }: CreateEmployeeImportData) =>
+      createEmployeeImportJob(fileName, preview, sendInvites),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['employee-import-jobs'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to start the import: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+}
+
+interface RunEmployeeImportData {
+  jobId: string;
+  onProgress?: (progress: EmployeeImportProgress) => void;
+}
+
+/** Imports a job's pending rows; also resumes an interrupted import */
+export function useRunEmployeeImport() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ jobId, onProgress }: RunEmployeeImportData) => runEmployeeImportJob(jobId, onProgress),
+    onSuccess: (progress) => {
+      toast({
+        title: 'Success',
+        description:
+          progress.status === 'cancelled'
+            ? `Import cancelled after ${progress.imported} employees`
+            : `Imported ${progress.imported} employees${progress.failed ? `, ${progress.failed} failed` : ''}`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: `Import stopped: ${error.message}. Resume it to carry on.`,
+        variant: 'destructive',
+      });
+    },
+    onSettled: (_progress, _error, { jobId }) => {
+      queryClient.invalidateQueries({ queryKey: ['employee-import-jobs'] });
+      queryClient.invalidateQueries({ queryKey: ['employee-import-jobs', jobId, 'issues'] });
+      queryClient.invalidateQueries({ queryKey: ['hr-employees'] });
+    },
+  });
+}
+
+/** Stops an import after its current batch */
+export function useCancelEmployeeImport() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: cancelEmployeeImportJob,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['employee-import-jobs'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to cancel the import: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+}
@@ -0,0 +1,70 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { EmploymentChangeResult, EmploymentDetails, EmploymentEventType, EmploymentHistoryRecord } from '@/types/otms';
+
+/** An employee's employment changes, latest first */
+export function useEmploymentHistory(employeeId?: string) {
+  return useQuery({
+    queryKey: ['employment-history', employeeId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('employment_history')
+        .select('*')
+        .eq('employee_id', employeeId!)
+        .order('effective_from', { ascending: false })
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return (data as unknown as EmploymentHistoryRecord[]) || [];
+    },
+    enabled: !!employeeId,
+  });
+}
+
+interface RecordEmploymentChangeInput {
+  employeeId: string;
+  eventType: Exclude<EmploymentEventType, 'hire' | 'profile_update'>;
+  effectiveFrom: string;
+  changes: Partial<EmploymentDetails>;
+  remarks?: string;
+}
+
+/** Records a salary revision, transfer, promotion or location move from a date */
+export function useRecordEmploymentChange() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ employeeId, eventType, effectiveFrom, changes, remarks }: RecordEmploymentChangeInput): Promise<EmploymentChangeResult> => {
+      const { data, error } = await supabase.rpc('record_employment_change', {
+        p_employee_id: employeeId,
+        p_event_type: eventType,
+        p_effective_from: effectiveFrom,
+        p_changes: { ...changes },
+        p_remarks: remarks || null,
+      });
+
+      if (error) throw error;
+      return data[0];
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['hr-employees'] });
+      queryClient.invalidateQueries({ queryKey: ['employment-history'] });
+      queryClient.invalidateQueries({ queryKey: ['ot-requests'] });
+      toast({
+        title: 'Success',
+        description:
+          'Employment change recorded' +
+          (result.recalculated_count ? `; ${result.recalculated_count} OT request(s) recalculated` : ''),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+}
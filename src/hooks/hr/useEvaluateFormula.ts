@@ -1,11 +1,9 @@
 import { useMutation } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import { FormulaStep, OTFormulaContext } from '@/lib/formulaEngine';
 
-interface EvaluateFormulaParams {
+interface EvaluateFormulaParams extends OTFormulaContext {
   formula: string;
-  basicSalary: number;
-  hours: number;
-  dayType: 'weekday' | 'saturday' | 'sunday' | 'public_holiday';
 }
 
 interface EvaluateFormulaResponse {
@@ -13,6 +11,7 @@ interface EvaluateFormulaResponse {
   orp?: number;
   hrp?: number;
   otAmount?: number;
+  steps?: FormulaStep[];
   error?: string;
 }
 
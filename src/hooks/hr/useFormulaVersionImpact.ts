@@ -0,0 +1,35 @@
+import { useMutation } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { DayType, FormulaImpactRow } from '@/types/otms';
+
+interface FormulaVersionImpactParams {
+  day_type: DayType;
+  employee_category: string;
+  base_formula: string;
+  multiplier: number;
+  from: string;
+  to?: string | null;
+}
+
+/**
+ * What-if for a draft formula version: per employee and month, the OT amount
+ * it would give for existing requests in the date range against the amount
+ * they were calculated with
+ */
+export function useFormulaVersionImpact() {
+  return useMutation({
+    mutationFn: async (params: FormulaVersionImpactParams): Promise<FormulaImpactRow[]> => {
+      const { data, error } = await supabase.rpc('preview_ot_formula_version_impact', {
+        p_day_type: params.day_type,
+        p_employee_category: params.employee_category,
+        p_base_formula: params.base_formula,
+        p_multiplier: params.multiplier,
+        p_from: params.from,
+        p_to: params.to || null,
+      });
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+}
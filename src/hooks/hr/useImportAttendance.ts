@@ -0,0 +1,37 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { AttendanceFileFormat, PunchParseResult } from '@/lib/attendance';
+import { importAttendancePunches } from '@/services/attendance-import';
+
+interface ImportAttendanceData {
+  fileName: string;
+  format: AttendanceFileFormat;
+  parsed: PunchParseResult;
+}
+
+/** Imports a terminal export and drafts OT from time beyond the shift */
+export function useImportAttendance() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ fileName, format, parsed }: ImportAttendanceData) =>
+      importAttendancePunches(fileName, format, parsed),
+    onSuccess: (batch) => {
+      queryClient.invalidateQueries({ queryKey: ['attendance-import-batches'] });
+      queryClient.invalidateQueries({ queryKey: ['attendance-punches'] });
+      queryClient.invalidateQueries({ queryKey: ['ot-request-drafts'] });
+      toast({
+        title: 'Success',
+        description: `Imported ${batch.punch_count} punches and drafted ${batch.draft_count} OT sessions`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to import attendance: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+}
@@ -0,0 +1,26 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+
+/**
+ * OT hours an employee worked earlier in the calendar month of `otDate`
+ * (non-rejected requests before that date), i.e. the formula variable
+ * MonthHoursToDate
+ */
+export function useMonthOTHoursToDate(employeeId: string | undefined, otDate: string) {
+  return useQuery({
+    queryKey: ['month-ot-hours-to-date', employeeId, otDate],
+    enabled: !!employeeId && !!otDate,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('ot_requests')
+        .select('total_hours')
+        .eq('employee_id', employeeId)
+        .gte('ot_date', `${otDate.slice(0, 7)}-01`)
+        .lt('ot_date', otDate)
+        .neq('status', 'rejected');
+
+      if (error) throw error;
+      return (data || []).reduce((total, row) => total + Number(row.total_hours || 0), 0);
+    },
+  });
+}
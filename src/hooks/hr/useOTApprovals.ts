@@ -2,6 +2,7 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { OTRequest, OTStatus } from '@/types/otms';
 import { useToast } from '@/hooks/use-toast';
+import { transitionOTRequests } from '@/services/ot-transition';
 
 interface UseOTApprovalsOptions {
   status?: string;
@@ -44,17 +45,7 @@ export function useOTApprovalAction() {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('Not authenticated');
 
-      const { error } = await supabase
-        .from('ot_requests')
-        .update({
-          status: 'hr_certified',
-          hr_id: user.id,
-          hr_approved_at: new Date().toISOString(),
-          hr_remarks: remarks,
-        })
-        .eq('id', requestId);
-
-      if (error) throw error;
+      await transitionOTRequests({ requestIds: [requestId], toStatus: 'hr_certified', remarks });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['hr-ot-approvals'] });
@@ -77,16 +68,7 @@ export function useOTApprovalAction() {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('Not authenticated');
 
-      const { error } = await supabase
-        .from('ot_requests')
-        .update({
-          status: 'rejected',
-          hr_id: user.id,
-          hr_remarks: remarks,
-        })
-        .eq('id', requestId);
-
-      if (error) throw error;
+      await transitionOTRequests({ requestIds: [requestId], toStatus: 'rejected', remarks });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['hr-ot-approvals'] });
@@ -0,0 +1,26 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { OTCapException } from '@/types/otms';
+
+export function useOTCapExceptions() {
+  return useQuery({
+    queryKey: ['ot-cap-exceptions'],
+    queryFn: async (): Promise<OTCapException[]> => {
+      const { data, error } = await supabase
+        .from('ot_cap_exceptions')
+        .select(`
+          *,
+          employee:profiles!ot_cap_exceptions_employee_id_fkey(full_name, employee_id),
+          requester:profiles!ot_cap_exceptions_requested_by_fkey(full_name),
+          decider:profiles!ot_cap_exceptions_decided_by_fkey(full_name)
+        `)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return (data as unknown as OTCapException[]).map((exception) => ({
+        ...exception,
+        extra_hours: Number(exception.extra_hours),
+      }));
+    },
+  });
+}
@@ -0,0 +1,42 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface OTRequestLookup {
+  id: string;
+  ticket_number: string;
+  employee_id: string;
+  ot_date: string;
+  total_hours: number;
+  ot_amount: number | null;
+  status: string;
+  profiles: { employee_id: string; full_name: string; company_id: string | null } | null;
+}
+
+/** Finds an OT request by its ticket number */
+export function useOTRequestByTicket(ticketNumber: string) {
+  const ticket = ticketNumber.trim();
+
+  return useQuery({
+    queryKey: ['ot-request-by-ticket', ticket],
+    enabled: ticket.length >= 4,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('ot_requests')
+        .select(`
+          id,
+          ticket_number,
+          employee_id,
+          ot_date,
+          total_hours,
+          ot_amount,
+          status,
+          profiles!ot_requests_employee_id_fkey(employee_id, full_name, company_id)
+        `)
+        .eq('ticket_number', ticket)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data as unknown as OTRequestLookup | null;
+    },
+  });
+}
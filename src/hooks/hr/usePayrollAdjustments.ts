@@ -0,0 +1,25 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { OTPayrollAdjustment } from '@/types/otms';
+
+/** Adjustments paid in the given payroll periods */
+export function usePayrollAdjustments(periodIds: string[]) {
+  return useQuery({
+    queryKey: ['payroll-adjustments', periodIds],
+    enabled: periodIds.length > 0,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('ot_payroll_adjustments')
+        .select(`
+          *,
+          ot_requests(ticket_number, ot_date),
+          profiles(employee_id, full_name)
+        `)
+        .in('target_period_id', periodIds)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data as OTPayrollAdjustment[];
+    },
+  });
+}
@@ -0,0 +1,28 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { PayrollExportBatch } from '@/types/otms';
+
+export const PAYROLL_BATCH_SELECT = `
+  *,
+  payroll_export_layouts(*),
+  payroll_export_batch_items(ot_request_id, hours, amount, voided),
+  payroll_export_batch_adjustments(adjustment_id, hours, amount, voided)
+`;
+
+/** Payroll export batches for a period, newest first */
+export function usePayrollExportBatches(periodStart: string, periodEnd: string) {
+  return useQuery({
+    queryKey: ['payroll-export-batches', periodStart, periodEnd],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('payroll_export_batches')
+        .select(PAYROLL_BATCH_SELECT)
+        .eq('period_start', periodStart)
+        .eq('period_end', periodEnd)
+        .order('exported_at', { ascending: false });
+
+      if (error) throw error;
+      return data as unknown as PayrollExportBatch[];
+    },
+  });
+}
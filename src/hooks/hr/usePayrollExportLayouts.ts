@@ -0,0 +1,18 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { PayrollExportLayout } from '@/types/otms';
+
+export function usePayrollExportLayouts() {
+  return useQuery({
+    queryKey: ['payroll-export-layouts'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('payroll_export_layouts')
+        .select('*')
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return data as unknown as PayrollExportLayout[];
+    },
+  });
+}
@@ -0,0 +1,56 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+
+interface PublishRateFormulaVersionData {
+  /** Any version of the formula; the new version always follows the latest */
+  formula_id: string;
+  formula_name: string;
+  orp_definition: string;
+  hrp_definition: string;
+  multiplier: number;
+  base_formula: string;
+  is_active: boolean;
+  effective_from: string;
+}
+
+/**
+ * Publishes a change to a rate formula as its next version. The previous
+ * version stays in place for OT dated before `effective_from`.
+ */
+export function usePublishRateFormulaVersion() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: PublishRateFormulaVersionData) => {
+      const { data: versionId, error } = await supabase.rpc('publish_ot_rate_formula_version', {
+        p_formula_id: data.formula_id,
+        p_formula_name: data.formula_name,
+        p_base_formula: data.base_formula,
+        p_multiplier: data.multiplier,
+        p_orp_definition: data.orp_definition,
+        p_hrp_definition: data.hrp_definition,
+        p_effective_from: data.effective_from,
+        p_is_active: data.is_active,
+      });
+
+      if (error) throw error;
+      return versionId;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['rate-formulas'] });
+      toast({
+        title: 'Success',
+        description: 'New formula version published',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to publish formula version: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+}
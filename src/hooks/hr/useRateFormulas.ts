@@ -1,5 +1,6 @@
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import { RateFormula } from '@/types/otms';
 
 export function useRateFormulas() {
   return useQuery({
@@ -8,10 +9,11 @@ export function useRateFormulas() {
       const { data, error } = await supabase
         .from('ot_rate_formulas')
         .select('*')
-        .order('day_type', { ascending: true });
+        .order('day_type', { ascending: true })
+        .order('version', { ascending: false });
 
       if (error) throw error;
-      return data;
+      return data as unknown as RateFormula[];
     },
   });
 }
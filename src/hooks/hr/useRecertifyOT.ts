@@ -2,6 +2,7 @@ import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { OTRequest } from '@/types/otms';
+import { transitionOTRequests } from '@/services/ot-transition';
 
 export function usePendingRecertifications() {
   return useQuery({
@@ -38,18 +39,8 @@ export function useRecertifyOTActions() {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('Not authenticated');
 
-      const { error } = await supabase
-        .from('ot_requests')
-        .update({
-          status: 'management_approved',
-          hr_id: user.id,
-          hr_approved_at: new Date().toISOString(),
-          hr_remarks: remarks,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', requestId);
-
-      if (error) throw error;
+      // Stays hr_certified; the engine clears management's send-back so it returns to their queue
+      await transitionOTRequests({ requestIds: [requestId], toStatus: 'hr_certified', remarks });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['hr-recertify-requests'] });
@@ -72,18 +63,12 @@ export function useRecertifyOTActions() {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('Not authenticated');
 
-      const { error } = await supabase
-        .from('ot_requests')
-        .update({
-          status: 'rejected',
-          hr_id: user.id,
-          hr_remarks: remarks,
-          rejection_stage: 'hr',
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', requestId);
-
-      if (error) throw error;
+      await transitionOTRequests({
+        requestIds: [requestId],
+        toStatus: 'rejected',
+        remarks,
+        rejectionStage: 'hr',
+      });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['hr-recertify-requests'] });
@@ -0,0 +1,27 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+
+/** Counts a re-download of a batch; voided batches cannot be downloaded */
+export function useRecordPayrollExportDownload() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (batchId: string) => {
+      const { error } = await supabase.rpc('record_payroll_export_download', { p_batch_id: batchId });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['payroll-export-batches'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to re-export batch: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+}
@@ -0,0 +1,43 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+
+export interface RequestOTCapExceptionData {
+  employee_id: string;
+  /** Any date in the month */
+  month: string;
+  extra_hours: number;
+  justification: string;
+}
+
+export function useRequestOTCapException() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (data: RequestOTCapExceptionData) => {
+      const { error } = await supabase.rpc('request_ot_cap_exception', {
+        p_employee_id: data.employee_id,
+        p_month: data.month,
+        p_extra_hours: data.extra_hours,
+        p_justification: data.justification,
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['ot-cap-exceptions'] });
+      toast({
+        title: 'Success',
+        description: 'Exception requested. Another HR or management user must approve it.',
+      });
+    },
+    onError: (error: Error & { code?: string }) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to request the exception',
+        variant: 'destructive',
+      });
+    },
+  });
+}
@@ -0,0 +1,23 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { EmployeeShiftAssignment } from '@/types/otms';
+
+/** Roster assignments, latest first */
+export function useShiftAssignments() {
+  return useQuery({
+    queryKey: ['shift-assignments'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('employee_shift_assignments')
+        .select(`
+          *,
+          shift_patterns(name, cycle_length),
+          profiles!employee_shift_assignments_employee_id_fkey(full_name, employee_id)
+        `)
+        .order('effective_from', { ascending: false });
+
+      if (error) throw error;
+      return data as EmployeeShiftAssignment[];
+    },
+  });
+}
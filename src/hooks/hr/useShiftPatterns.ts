@@ -0,0 +1,27 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { ShiftPattern } from '@/types/otms';
+
+export function useShiftPatterns() {
+  return useQuery({
+    queryKey: ['shift-patterns'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('shift_patterns')
+        .select(`
+          *,
+          shift_pattern_days(
+            *,
+            shift_templates(name, code, start_time, end_time)
+          )
+        `)
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return (data as ShiftPattern[]).map((pattern) => ({
+        ...pattern,
+        shift_pattern_days: [...pattern.shift_pattern_days].sort((a, b) => a.day_index - b.day_index),
+      }));
+    },
+  });
+}
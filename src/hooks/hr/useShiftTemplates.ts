@@ -0,0 +1,18 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { ShiftTemplate } from '@/types/otms';
+
+export function useShiftTemplates() {
+  return useQuery({
+    queryKey: ['shift-templates'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('shift_templates')
+        .select('*')
+        .order('start_time', { ascending: true });
+
+      if (error) throw error;
+      return data as ShiftTemplate[];
+    },
+  });
+}
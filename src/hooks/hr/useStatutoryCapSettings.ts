@@ -0,0 +1,55 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+
+type StatutoryCapSettings = {
+  id: string;
+  statutory_monthly_cap_hours: number;
+};
+
+export function useStatutoryCapSettings() {
+  return useQuery({
+    queryKey: ['statutory-cap-settings'],
+    queryFn: async (): Promise<StatutoryCapSettings> => {
+      const { data, error } = await supabase
+        .from('ot_settings')
+        .select('id, statutory_monthly_cap_hours')
+        .limit(1)
+        .single();
+
+      if (error) throw error;
+      return { ...data, statutory_monthly_cap_hours: Number(data.statutory_monthly_cap_hours) };
+    },
+  });
+}
+
+export function useUpdateStatutoryCapSettings() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: { id: string; capHours: number }) => {
+      const { data, error } = await supabase
+        .from('ot_settings')
+        .update({
+          statutory_monthly_cap_hours: params.capHours,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', params.id)
+        .select('id, statutory_monthly_cap_hours')
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['statutory-cap-settings'] });
+      queryClient.invalidateQueries({ queryKey: ['ot-hours-summary'] });
+      toast.success('Statutory monthly cap updated');
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to update the statutory monthly cap', {
+        description: error.message,
+      });
+    },
+  });
+}
@@ -0,0 +1,67 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { SupervisorReassignmentImpact, SupervisorReassignmentResult } from '@/types/otms';
+
+/** Requests that would follow these employees to a new supervisor */
+export function useSupervisorReassignmentImpact(employeeIds: string[]) {
+  return useQuery({
+    queryKey: ['supervisor-reassignment-impact', [...employeeIds].sort()],
+    queryFn: async (): Promise<SupervisorReassignmentImpact[]> => {
+      const { data, error } = await supabase.rpc('get_supervisor_reassignment_impact', {
+        p_employee_ids: employeeIds,
+      });
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: employeeIds.length > 0,
+  });
+}
+
+interface ReassignSupervisorInput {
+  employeeIds: string[];
+  supervisorId: string;
+  movePendingRequests: boolean;
+}
+
+/** Moves employees to a new supervisor, optionally with their unverified requests */
+export function useReassignSupervisor() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      employeeIds,
+      supervisorId,
+      movePendingRequests,
+    }: ReassignSupervisorInput): Promise<SupervisorReassignmentResult> => {
+      const { data, error } = await supabase.rpc('reassign_supervisor', {
+        p_employee_ids: employeeIds,
+        p_supervisor_id: supervisorId,
+        p_move_pending_requests: movePendingRequests,
+      });
+
+      if (error) throw error;
+      return data[0];
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['hr-employees'] });
+      queryClient.invalidateQueries({ queryKey: ['supervisor-reassignment-impact'] });
+      queryClient.invalidateQueries({ queryKey: ['ot-requests'] });
+      toast({
+        title: 'Success',
+        description:
+          `Reassigned ${result.reassigned_count} employee(s)` +
+          (result.moved_request_count ? ` and moved ${result.moved_request_count} request(s) awaiting verification` : ''),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+}
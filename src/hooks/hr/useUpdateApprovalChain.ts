@@ -0,0 +1,65 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { ApprovalChainStepInput } from './useCreateApprovalChain';
+
+interface UpdateApprovalChainData {
+  id: string;
+  name?: string;
+  company_id?: string | null;
+  department_id?: string | null;
+  is_active?: boolean;
+  /** When provided, replaces the chain's steps */
+  steps?: ApprovalChainStepInput[];
+}
+
+export function useUpdateApprovalChain() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: UpdateApprovalChainData) => {
+      const { id, steps, ...updateData } = data;
+
+      const { error } = await supabase
+        .from('approval_chains')
+        .update(updateData)
+        .eq('id', id);
+
+      if (error) throw error;
+
+      if (steps) {
+        const { error: deleteError } = await supabase
+          .from('approval_chain_steps')
+          .delete()
+          .eq('chain_id', id);
+
+        if (deleteError) throw deleteError;
+
+        if (steps.length > 0) {
+          const { error: insertError } = await supabase
+            .from('approval_chain_steps')
+            .insert(steps.map((step) => ({ ...step, condition: { ...step.condition }, chain_id: id })));
+
+          if (insertError) throw insertError;
+        }
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['approval-chains'] });
+      toast({
+        title: 'Success',
+        description: 'Approval chain updated successfully',
+      });
+    },
+    onError: (error: Error & { code?: string }) => {
+      toast({
+        title: 'Error',
+        description: error.code === '23505'
+          ? 'An active approval chain already exists for this company and department'
+          : `Failed to update approval chain: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+}
@@ -0,0 +1,46 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { SlaEscalationTarget } from '@/types/otms';
+
+interface UpdateApprovalSlaData {
+  id: string;
+  reminder_hours?: number[];
+  sla_hours?: number;
+  escalate_to?: SlaEscalationTarget;
+  is_active?: boolean;
+}
+
+export function useUpdateApprovalSla() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: UpdateApprovalSlaData) => {
+      const { id, ...updateData } = data;
+
+      const { error } = await supabase
+        .from('ot_approval_slas')
+        .update(updateData)
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['approval-slas'] });
+      toast({
+        title: 'Success',
+        description: 'Approval SLA updated successfully',
+      });
+    },
+    onError: (error: Error & { code?: string }) => {
+      toast({
+        title: 'Error',
+        description: error.code === '23514'
+          ? 'Reminders must come before the SLA, and only supervisor stages can escalate to the supervisor\'s manager'
+          : `Failed to update approval SLA: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+}
@@ -1,6 +1,7 @@
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { OTLimitMode } from '@/types/otms';
 
 interface UpdateApprovalThresholdData {
   id: string;
@@ -9,7 +10,12 @@ interface UpdateApprovalThresholdData {
   weekly_limit_hours?: number;
   monthly_limit_hours?: number;
   max_claimable_amount?: number;
+  /** Kept in sync with the limit modes by the database */
   auto_block_enabled?: boolean;
+  daily_limit_mode?: OTLimitMode;
+  weekly_limit_mode?: OTLimitMode;
+  monthly_limit_mode?: OTLimitMode;
+  amount_limit_mode?: OTLimitMode;
   is_active?: boolean;
   applies_to_department_ids?: string[];
   applies_to_role_ids?: string[];
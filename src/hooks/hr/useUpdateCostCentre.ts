@@ -0,0 +1,42 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { CostCentreInput } from './useCreateCostCentre';
+
+interface UpdateCostCentreData extends Partial<CostCentreInput> {
+  id: string;
+}
+
+export function useUpdateCostCentre() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: UpdateCostCentreData) => {
+      const { id, ...updateData } = data;
+
+      const { error } = await supabase
+        .from('cost_centres')
+        .update(updateData)
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['cost-centres'] });
+      toast({
+        title: 'Success',
+        description: 'Cost centre updated successfully',
+      });
+    },
+    onError: (error: Error & { code?: string }) => {
+      toast({
+        title: 'Error',
+        description: error.code === '23505'
+          ? 'A cost centre with this code already exists'
+          : `Failed to update cost centre: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+}
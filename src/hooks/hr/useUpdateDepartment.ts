@@ -6,18 +6,20 @@ interface UpdateDepartmentData {
   id: string;
   code: string;
   name: string;
+  head_id?: string | null;
 }
 
 export function useUpdateDepartment() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async ({ id, code, name }: UpdateDepartmentData) => {
+    mutationFn: async ({ id, code, name, head_id }: UpdateDepartmentData) => {
       const { data, error } = await supabase
         .from('departments')
         .update({
           code: code.toUpperCase(),
           name: name.trim(),
+          head_id: head_id ?? null,
         })
         .eq('id', id)
         .select()
@@ -138,8 +138,12 @@ export function useUpdateEmployee() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['hr-employees'] });
+      // Salary, department and location edits are recorded as employment changes
+      queryClient.invalidateQueries({ queryKey: ['employment-history'] });
       // Also invalidate auth-related queries in case the user's own roles changed
       queryClient.invalidateQueries({ queryKey: ['auth-roles'] });
+      // Main roles are the employee's roles in their own company
+      queryClient.invalidateQueries({ queryKey: ['company-roles'] });
       toast({
         title: 'Success',
         description: 'Employee updated successfully',
@@ -0,0 +1,40 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { OTReasonInput } from './useCreateOTReason';
+
+interface UpdateOTReasonData extends Partial<OTReasonInput> {
+  id: string;
+}
+
+export function useUpdateOTReason() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: UpdateOTReasonData) => {
+      const { id, ...updateData } = data;
+
+      const { error } = await supabase
+        .from('ot_reasons')
+        .update(updateData)
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['ot-reasons'] });
+      toast({
+        title: 'Success',
+        description: 'OT reason updated successfully',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to update OT reason: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+}
@@ -0,0 +1,40 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { PayrollExportLayoutInput } from './useCreatePayrollExportLayout';
+
+interface UpdatePayrollExportLayoutData extends Partial<PayrollExportLayoutInput> {
+  id: string;
+}
+
+export function useUpdatePayrollExportLayout() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: UpdatePayrollExportLayoutData) => {
+      const { id, ...updateData } = data;
+
+      const { error } = await supabase
+        .from('payroll_export_layouts')
+        .update({ ...updateData, columns: updateData.columns?.map((column) => ({ ...column })) })
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['payroll-export-layouts'] });
+      toast({
+        title: 'Success',
+        description: 'Payroll export layout updated successfully',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to update payroll export layout: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+}
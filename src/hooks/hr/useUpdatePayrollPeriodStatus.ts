@@ -0,0 +1,42 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { PayrollPeriodStatus } from '@/types/otms';
+
+const STATUS_MESSAGES: Record<PayrollPeriodStatus, string> = {
+  open: 'Payroll period reopened',
+  locked: 'Payroll period locked. OT in it can no longer change.',
+  closed: 'Payroll period closed',
+};
+
+/** Locks, reopens or closes a payroll period */
+export function useUpdatePayrollPeriodStatus() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: PayrollPeriodStatus }) => {
+      const { error } = await supabase
+        .from('payroll_periods')
+        .update({ status })
+        .eq('id', id);
+
+      if (error) throw error;
+      return status;
+    },
+    onSuccess: (status) => {
+      queryClient.invalidateQueries({ queryKey: ['payroll-periods'] });
+      toast({
+        title: 'Success',
+        description: STATUS_MESSAGES[status],
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to update payroll period: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+}
@@ -0,0 +1,61 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { ShiftPatternDayInput } from './useCreateShiftPattern';
+
+interface UpdateShiftPatternData {
+  id: string;
+  name?: string;
+  description?: string | null;
+  /** When provided, replaces the cycle; refused by the server once the pattern is assigned */
+  days?: ShiftPatternDayInput[];
+}
+
+export function useUpdateShiftPattern() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, days, ...updateData }: UpdateShiftPatternData) => {
+      if (days) {
+        const { error: deleteError } = await supabase
+          .from('shift_pattern_days')
+          .delete()
+          .eq('pattern_id', id);
+
+        if (deleteError) throw deleteError;
+      }
+
+      const { error } = await supabase
+        .from('shift_patterns')
+        .update(days ? { ...updateData, cycle_length: days.length } : updateData)
+        .eq('id', id);
+
+      if (error) throw error;
+
+      if (days) {
+        const { error: insertError } = await supabase
+          .from('shift_pattern_days')
+          .insert(days.map((day, index) => ({ ...day, pattern_id: id, day_index: index })));
+
+        if (insertError) throw insertError;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['shift-patterns'] });
+      toast({
+        title: 'Success',
+        description: 'Shift pattern updated successfully',
+      });
+    },
+    onError: (error: Error & { code?: string }) => {
+      toast({
+        title: 'Error',
+        description: error.code === '23505'
+          ? 'A shift pattern with this name already exists'
+          : `Failed to update shift pattern: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+}
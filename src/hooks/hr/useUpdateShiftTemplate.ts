@@ -0,0 +1,42 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { ShiftTemplateInput } from './useCreateShiftTemplate';
+
+interface UpdateShiftTemplateData extends Partial<ShiftTemplateInput> {
+  id: string;
+}
+
+/** Hours of a rostered shift are frozen by the server; only its name and status change */
+export function useUpdateShiftTemplate() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...updateData }: UpdateShiftTemplateData) => {
+      const { error } = await supabase
+        .from('shift_templates')
+        .update(updateData)
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['shift-templates'] });
+      queryClient.invalidateQueries({ queryKey: ['shift-patterns'] });
+      toast({
+        title: 'Success',
+        description: 'Shift updated successfully',
+      });
+    },
+    onError: (error: Error & { code?: string }) => {
+      toast({
+        title: 'Error',
+        description: error.code === '23505'
+          ? 'A shift with this code already exists'
+          : `Failed to update shift: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+}
@@ -0,0 +1,36 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+
+interface VoidPayrollExportBatchData {
+  batchId: string;
+  reason: string;
+}
+
+/** Voids a batch so its requests are included in the next export */
+export function useVoidPayrollExportBatch() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ batchId, reason }: VoidPayrollExportBatchData) => {
+      const { error } = await supabase.rpc('void_payroll_export_batch', { p_batch_id: batchId, p_reason: reason });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['payroll-export-batches'] });
+      toast({
+        title: 'Success',
+        description: 'Payroll export voided. Its requests will be included in the next export.',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to void payroll export: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+}
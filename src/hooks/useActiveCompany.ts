@@ -0,0 +1,19 @@
+import { createContext, useContext } from 'react';
+import { CompanyMembership } from '@/types/otms';
+
+export interface ActiveCompanyContextType {
+  companies: CompanyMembership[];
+  activeCompany: CompanyMembership | null;
+  setActiveCompany: (companyId: string) => void;
+  isSwitching: boolean;
+}
+
+export const ActiveCompanyContext = createContext<ActiveCompanyContextType | undefined>(undefined);
+
+export function useActiveCompany() {
+  const context = useContext(ActiveCompanyContext);
+  if (context === undefined) {
+    throw new Error('useActiveCompany must be used within an ActiveCompanyProvider');
+  }
+  return context;
+}
@@ -0,0 +1,18 @@
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/useAuth';
+import { fetchActiveDelegationsForDelegate } from '@/services/approval-delegation';
+
+/**
+ * Delegations the current user is covering today (they act for the delegator)
+ */
+export function useActiveDelegations(options: { enabled?: boolean } = {}) {
+  const { user } = useAuth();
+  const { enabled = true } = options;
+
+  return useQuery({
+    queryKey: ['approval-delegations', 'active', user?.id],
+    queryFn: () => fetchActiveDelegationsForDelegate(user!.id),
+    enabled: enabled && !!user?.id,
+    staleTime: 1000 * 60 * 5,
+  });
+}
@@ -0,0 +1,32 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { ApprovalDelegation } from '@/types/otms';
+
+/**
+ * Delegations the current user has handed out, newest first (revoked ones included)
+ */
+export function useApprovalDelegations() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['approval-delegations', 'mine', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('approval_delegations')
+        .select(`
+          *,
+          delegate:profiles!approval_delegations_delegate_id_fkey(
+            full_name,
+            employee_id
+          )
+        `)
+        .eq('delegator_id', user!.id)
+        .order('starts_on', { ascending: false });
+
+      if (error) throw error;
+      return data as ApprovalDelegation[];
+    },
+    enabled: !!user?.id,
+  });
+}
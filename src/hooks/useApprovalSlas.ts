@@ -0,0 +1,22 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { OTApprovalSla } from '@/types/otms';
+
+/**
+ * Per-stage approval SLAs (overdue badges and HR settings)
+ */
+export function useApprovalSlas() {
+  return useQuery({
+    queryKey: ['approval-slas'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('ot_approval_slas')
+        .select('*')
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data as OTApprovalSla[];
+    },
+    staleTime: 1000 * 60 * 5,
+  });
+}
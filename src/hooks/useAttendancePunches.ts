@@ -0,0 +1,33 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { nextDate, previousDate } from '@/lib/otSessions';
+import { AttendancePunch } from '@/types/otms';
+
+interface UseAttendancePunchesOptions {
+  employeeId: string;
+  otDate: string;
+  enabled?: boolean;
+}
+
+/**
+ * An employee's punches around a date: from the day before, for a clock-in
+ * the night before, to the day after, for an overnight session's clock-out
+ */
+export function useAttendancePunches({ employeeId, otDate, enabled = true }: UseAttendancePunchesOptions) {
+  return useQuery({
+    queryKey: ['attendance-punches', employeeId, otDate],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('attendance_punches')
+        .select('*')
+        .eq('employee_id', employeeId)
+        .gte('punched_at', `${previousDate(otDate)}T00:00:00`)
+        .lt('punched_at', `${nextDate(nextDate(otDate))}T00:00:00`)
+        .order('punched_at', { ascending: true });
+
+      if (error) throw error;
+      return data as AttendancePunch[];
+    },
+    enabled: enabled && !!employeeId && !!otDate,
+  });
+}
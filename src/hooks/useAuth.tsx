@@ -116,17 +116,15 @@ export function AuthProvider({ children }: AuthProviderProps) {
     queryFn: async () => {
       if (!session?.user?.id) return [];
       
-      const { data, error } = await supabase
-        .from('user_roles')
-        .select('role')
-        .eq('user_id', session.user.id);
-      
+      // Roles in the active company, plus admin
+      const { data, error } = await supabase.rpc('get_my_roles');
+
       if (error) {
         console.error('Roles Query Error:', error);
         throw error;
       }
-      
-      return (data || []).map(item => item.role as AppRole);
+
+      return ((data as AppRole[]) || []);
     },
     enabled: !!session?.user?.id,
     staleTime: 1000 * 60 * 5, // 5 minutes
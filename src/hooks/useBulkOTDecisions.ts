@@ -0,0 +1,41 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { decideOTRequests } from '@/services/ot-bulk-decisions';
+import { describeBulkDecisions } from '@/lib/bulkOTDecisions';
+import { ApprovalRole, BulkOTDecision } from '@/types/otms';
+
+/**
+ * Bulk approve/reject for an approval queue. Each request is decided on its
+ * own; the report says which ones went through and why the others didn't.
+ */
+export function useBulkOTDecisions(role: ApprovalRole) {
+  const queryClient = useQueryClient();
+
+  const decideMutation = useMutation({
+    mutationFn: (decisions: BulkOTDecision[]) => decideOTRequests({ role, decisions }),
+    onSuccess: (report) => {
+      queryClient.invalidateQueries({ queryKey: [`${role}-ot-approvals`] });
+      queryClient.invalidateQueries({ queryKey: ['ot-approval'] });
+      if (role === 'management') {
+        queryClient.invalidateQueries({ queryKey: ['management-report'] });
+      }
+
+      const summary = describeBulkDecisions(report);
+      if (report.failed > 0) {
+        toast.warning(`Bulk review: ${summary}`);
+      } else {
+        toast.success(`Bulk review: ${summary}`);
+      }
+    },
+    onError: (error) => {
+      toast.error(`Failed to submit decisions: ${error.message}`);
+    },
+  });
+
+  return {
+    decide: decideMutation.mutateAsync,
+    report: decideMutation.data,
+    reset: decideMutation.reset,
+    isDeciding: decideMutation.isPending,
+  };
+}
@@ -0,0 +1,23 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { CostCentre } from '@/types/otms';
+
+/**
+ * Cost centres, projects and work orders OT is charged to. Employees tag
+ * sessions with active ones; HR settings lists them all.
+ */
+export function useCostCentres({ activeOnly = false }: { activeOnly?: boolean } = {}) {
+  return useQuery({
+    queryKey: ['cost-centres', activeOnly],
+    queryFn: async () => {
+      let query = supabase.from('cost_centres').select('*').order('code', { ascending: true });
+      if (activeOnly) query = query.eq('is_active', true);
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      return data as CostCentre[];
+    },
+    staleTime: 1000 * 60 * 5,
+  });
+}
@@ -0,0 +1,38 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { DelegationRole } from '@/types/otms';
+
+export interface CreateApprovalDelegationInput {
+  delegator_id: string;
+  delegate_id: string;
+  role: DelegationRole;
+  starts_on: string;
+  ends_on: string;
+  reason?: string | null;
+}
+
+export function useCreateApprovalDelegation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: CreateApprovalDelegationInput) => {
+      const { error } = await supabase
+        .from('approval_delegations')
+        .insert({ ...input, reason: input.reason?.trim() || null });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['approval-delegations'] });
+      toast.success('Delegate assigned');
+    },
+    onError: (error: Error & { code?: string }) => {
+      toast.error(
+        error.code === '23P01'
+          ? 'You already have a delegate for this role on some of these dates'
+          : `Failed to assign delegate: ${error.message}`
+      );
+    },
+  });
+}
@@ -0,0 +1,25 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface DelegateCandidate {
+  id: string;
+  full_name: string;
+  employee_id: string;
+}
+
+/**
+ * Active colleagues that can be picked as an out-of-office delegate
+ */
+export function useDelegateCandidates(options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: ['delegate-candidates'],
+    queryFn: async (): Promise<DelegateCandidate[]> => {
+      const { data, error } = await supabase.rpc('get_delegate_candidates');
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: options.enabled ?? true,
+    staleTime: 1000 * 60 * 5,
+  });
+}
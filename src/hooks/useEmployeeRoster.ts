@@ -0,0 +1,11 @@
+import { useQuery } from '@tanstack/react-query';
+import { fetchEmployeeRoster } from '@/services/shift-roster';
+
+/** An employee's rostered days between two dates (YYYY-MM-DD), inclusive */
+export function useEmployeeRoster(employeeId: string | undefined, fromDate: string, toDate: string) {
+  return useQuery({
+    queryKey: ['employee-roster', employeeId, fromDate, toDate],
+    queryFn: () => fetchEmployeeRoster(employeeId, fromDate, toDate),
+    enabled: !!employeeId && !!fromDate && !!toDate,
+  });
+}
@@ -1,6 +1,39 @@
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { startOfMonth, endOfMonth, format } from 'date-fns';
+import { PayrollSourceRow } from '@/lib/payrollExport';
+import { toCostShares, totalByCostCentre } from '@/lib/costAllocation';
+import { totalByReason } from '@/lib/otReasons';
+import { EmploymentOnDate, loadEmploymentAsOf } from '@/services/employment-history';
+import { DayType, OTCostAllocation } from '@/types/otms';
+
+interface ReportRequest {
+  id: string;
+  employee_id: string;
+  ot_date: string;
+  day_type: DayType;
+  total_hours: number | null;
+  ot_amount: number | null;
+  ot_session_cost_allocations?: OTCostAllocation[] | null;
+  ot_reasons?: { label: string } | null;
+}
+
+interface ReportAdjustment {
+  id: string;
+  ot_request_id: string;
+  employee_id: string;
+  hours_delta: number;
+  amount_delta: number;
+  ot_requests?: { ot_date: string; day_type: DayType } | null;
+}
+
+interface ReportProfile {
+  employee_id: string;
+  full_name: string;
+  company_id: string | null;
+  departments?: { name: string } | null;
+  companies?: { code: string } | null;
+}
 
 interface EmployeeOTSummary {
   employee_id: string;
@@ -33,8 +66,11 @@ export function useHRReportData(selectedMonth?: Date) {
           ot_date,
           total_hours,
           ot_amount,
+          day_type,
           status,
-          threshold_violations
+          threshold_violations,
+          ot_session_cost_allocations(hours, cost_centres(code, name)),
+          ot_reasons(label)
         `)
         .gte('ot_date', startDate)
         .lte('ot_date', endDate)
@@ -60,38 +96,82 @@ export function useHRReportData(selectedMonth?: Date) {
 
       if (profileError) throw profileError;
 
+      // Corrections to OT frozen in earlier periods, paid in a period overlapping this month
+      const { data: periods, error: periodError } = await supabase
+        .from('payroll_periods')
+        .select('id')
+        .lte('period_start', endDate)
+        .gte('period_end', startDate);
+
+      if (periodError) throw periodError;
+
+      const { data: adjustmentData, error: adjustmentError } = await supabase
+        .from('ot_payroll_adjustments')
+        .select('id, ot_request_id, employee_id, hours_delta, amount_delta, ot_requests(ot_date, day_type)')
+        .in('target_period_id', (periods || []).map(period => period.id));
+
+      if (adjustmentError) throw adjustmentError;
+      const reportAdjustments = (adjustmentData || []) as ReportAdjustment[];
+
       // Create a map for quick lookup of current profile data
       const profileMap = new Map(currentProfiles?.map(p => [p.id, p]) || []);
 
-      // Aggregate by employee using current profile data
-      const aggregated = aggregateByEmployee(data || [], profileMap);
+      // Department and position as of each OT date
+      const employmentOn = await loadEmploymentAsOf([
+        ...(data || []).map(req => req.employee_id),
+        ...reportAdjustments.map(adjustment => adjustment.employee_id)
+      ]);
+
+      // Aggregate by employee, split where they moved department or position within the period
+      const aggregated = aggregateByEmployee(data || [], profileMap, employmentOn);
       
       // Calculate stats
       const stats = calculateStats(data || []);
 
+      const reportRequests = (data || []) as unknown as ReportRequest[];
+      const requests = mapRequestRows(reportRequests, profileMap, employmentOn);
+
       return {
         rawData: data || [],
         aggregated,
+        requests,
+        adjustments: mapAdjustmentRows(reportAdjustments, profileMap, employmentOn),
+        costCentres: totalByCostCentre(requests),
+        reasons: totalByReason(reportRequests.map(req => ({
+          reason_label: req.ot_reasons?.label,
+          hours: req.total_hours || 0,
+          amount: req.ot_amount || 0
+        }))),
         stats
       };
     }
   });
 }
 
-function aggregateByEmployee(requests: any[], profileMap: Map<string, any>): EmployeeOTSummary[] {
+type EmploymentLookup = (employeeId: string, date: string) => EmploymentOnDate | null;
+
+function aggregateByEmployee(
+  requests: any[],
+  profileMap: Map<string, any>,
+  employmentOn: EmploymentLookup
+): EmployeeOTSummary[] {
   const grouped = new Map<string, EmployeeOTSummary>();
   
   requests.forEach(req => {
     const empId = req.employee_id;
     const profile = profileMap.get(empId);
+    const employment = employmentOn(empId, req.ot_date);
+    const department = (employment ? employment.department : profile?.departments?.name) || 'N/A';
+    const position = (employment ? employment.position : profile?.positions?.title) || 'N/A';
+    const key = `${empId}|${department}|${position}`;
     
-    if (!grouped.has(empId)) {
-      grouped.set(empId, {
+    if (!grouped.has(key)) {
+      grouped.set(key, {
         employee_id: empId,
         employee_no: profile?.employee_id || empId,
         employee_name: profile?.full_name || 'Unknown',
-        department: profile?.departments?.name || 'N/A',
-        position: profile?.positions?.title || 'N/A',
+        department,
+        position,
         company_id: profile?.company_id || 'unknown',
         company_name: profile?.companies?.name || 'Unknown Company',
         company_code: profile?.companies?.code || 'N/A',
@@ -101,7 +181,7 @@ function aggregateByEmployee(requests: any[], profileMap: Map<string, any>): Emp
       });
     }
     
-    const emp = grouped.get(empId)!;
+    const emp = grouped.get(key)!;
     emp.total_ot_hours += req.total_hours || 0;
     emp.amount += req.ot_amount || 0;
     emp.monthly_total = emp.amount;
@@ -110,6 +190,61 @@ function aggregateByEmployee(requests: any[], profileMap: Map<string, any>): Emp
   return Array.from(grouped.values());
 }
 
+/** Per-request rows with the department on the OT date, for payroll exports */
+function mapRequestRows(
+  requests: ReportRequest[],
+  profileMap: Map<string, ReportProfile>,
+  employmentOn: EmploymentLookup
+): PayrollSourceRow[] {
+  return requests.map(req => {
+    const profile = profileMap.get(req.employee_id);
+    const employment = employmentOn(req.employee_id, req.ot_date);
+    return {
+      request_id: req.id,
+      employee_id: req.employee_id,
+      employee_no: profile?.employee_id || req.employee_id,
+      employee_name: profile?.full_name || 'Unknown',
+      department: (employment ? employment.department : profile?.departments?.name) || 'N/A',
+      company_id: profile?.company_id || 'unknown',
+      company_code: profile?.companies?.code || 'N/A',
+      ot_date: req.ot_date,
+      day_type: req.day_type,
+      hours: req.total_hours || 0,
+      amount: req.ot_amount || 0,
+      cost_allocations: toCostShares(req.ot_session_cost_allocations)
+    };
+  });
+}
+
+/** Adjustment rows, dated and coded like the request they correct */
+function mapAdjustmentRows(
+  adjustments: ReportAdjustment[],
+  profileMap: Map<string, ReportProfile>,
+  employmentOn: EmploymentLookup
+): PayrollSourceRow[] {
+  return adjustments
+    .filter(adjustment => adjustment.ot_requests)
+    .map(adjustment => {
+      const { ot_date, day_type } = adjustment.ot_requests!;
+      const profile = profileMap.get(adjustment.employee_id);
+      const employment = employmentOn(adjustment.employee_id, ot_date);
+      return {
+        request_id: adjustment.ot_request_id,
+        adjustment_id: adjustment.id,
+        employee_id: adjustment.employee_id,
+        employee_no: profile?.employee_id || adjustment.employee_id,
+        employee_name: profile?.full_name || 'Unknown',
+        department: (employment ? employment.department : profile?.departments?.name) || 'N/A',
+        company_id: profile?.company_id || 'unknown',
+        company_code: profile?.companies?.code || 'N/A',
+        ot_date,
+        day_type,
+        hours: Number(adjustment.hours_delta),
+        amount: Number(adjustment.amount_delta)
+      };
+    });
+}
+
 function calculateStats(requests: any[]) {
   return {
     pendingReview: requests.filter(r => r.status === 'supervisor_verified').length,
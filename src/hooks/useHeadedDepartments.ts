@@ -0,0 +1,25 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+
+/**
+ * Departments the current user heads (approval chains with a department head step)
+ */
+export function useHeadedDepartments() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['headed-departments', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('departments')
+        .select('id, code, name')
+        .eq('head_id', user!.id)
+        .order('name');
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user?.id,
+  });
+}
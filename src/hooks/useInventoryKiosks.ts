@@ -0,0 +1,97 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { InventoryAccessScan, InventoryKiosk } from '@/types/otms';
+
+/** How many recent scans the admin history shows */
+const SCAN_HISTORY_LIMIT = 200;
+
+/** The active company's inventory kiosks */
+export function useInventoryKiosks() {
+  return useQuery({
+    queryKey: ['inventory-kiosks'],
+    queryFn: async (): Promise<InventoryKiosk[]> => {
+      const { data, error } = await supabase
+        .from('inventory_kiosks')
+        .select('id, company_id, name, is_active, last_seen_at, created_at')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+}
+
+/** Registers a kiosk; resolves with the key, which is shown only this once */
+export function useRegisterInventoryKiosk() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (name: string) => {
+      const { data, error } = await supabase.rpc('register_inventory_kiosk', { p_name: name });
+
+      if (error) throw error;
+      return data[0];
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['inventory-kiosks'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+}
+
+/** Deactivating a kiosk refuses its key at once */
+export function useSetInventoryKioskActive() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ kioskId, isActive }: { kioskId: string; isActive: boolean }) => {
+      const { error } = await supabase
+        .from('inventory_kiosks')
+        .update({ is_active: isActive })
+        .eq('id', kioskId);
+
+      if (error) throw error;
+    },
+    onSuccess: (_, { isActive }) => {
+      queryClient.invalidateQueries({ queryKey: ['inventory-kiosks'] });
+      toast({
+        title: 'Success',
+        description: isActive ? 'Kiosk reactivated' : 'Kiosk deactivated',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+}
+
+/** Recent badge scans at the active company's kiosks, latest first */
+export function useInventoryAccessScans() {
+  return useQuery({
+    queryKey: ['inventory-access-scans'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('inventory_access_scans')
+        .select('id, kiosk_id, employee_id, result, scanned_at, inventory_kiosks(name), profiles(full_name, employee_id)')
+        .order('scanned_at', { ascending: false })
+        .limit(SCAN_HISTORY_LIMIT);
+
+      if (error) throw error;
+      return (data as InventoryAccessScan[]) || [];
+    },
+    refetchInterval: 30000,
+  });
+}
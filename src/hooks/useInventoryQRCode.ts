@@ -1,18 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
-import { v4 as uuidv4 } from 'uuid';
 
-interface QRCodeData {
-  userId: string;
-  employeeId: string;
-  fullName: string;
-  department: string;
-  generatedAt: number;
-  expiresAt: number;
-  token: string;
-}
-
-export function useInventoryQRCode(profile: any) {
+export function useInventoryQRCode() {
   const [qrData, setQrData] = useState<string | null>(null);
   const [expiresAt, setExpiresAt] = useState<number | null>(null);
   const [timeRemaining, setTimeRemaining] = useState<number>(0);
@@ -22,39 +11,20 @@ export function useInventoryQRCode(profile: any) {
   const generateQRCode = useCallback(async () => {
     setIsGenerating(true);
     try {
-      const now = Date.now();
-      const expires = now + (30 * 60 * 1000); // 30 minutes
-      const token = uuidv4();
-
-      const payload: QRCodeData = {
-        userId: profile.id,
-        employeeId: profile.employee_id,
-        fullName: profile.full_name,
-        department: profile.department?.name || 'N/A',
-        generatedAt: now,
-        expiresAt: expires,
-        token
-      };
-
-      // Save to database
-      const { error } = await supabase.from('inventory_access_tokens').insert({
-        user_id: profile.id,
-        token,
-        generated_at: new Date(now).toISOString(),
-        expires_at: new Date(expires).toISOString(),
-        is_active: true
-      });
+      // The QR holds only the token; kiosks look up who it belongs to
+      const { data, error } = await supabase.rpc('issue_inventory_access_token');
 
       if (error) throw error;
 
-      setQrData(JSON.stringify(payload));
-      setExpiresAt(expires);
+      const issued = data[0];
+      setQrData(issued.token);
+      setExpiresAt(new Date(issued.expires_at).getTime());
     } catch (error) {
       console.error('Error generating QR code:', error);
     } finally {
       setIsGenerating(false);
     }
-  }, [profile]);
+  }, []);
 
   // Calculate time remaining
   useEffect(() => {
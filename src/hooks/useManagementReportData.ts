@@ -1,6 +1,9 @@
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { startOfMonth, endOfMonth, format } from 'date-fns';
+import { toCostShares, totalByCostCentre } from '@/lib/costAllocation';
+import { EmploymentOnDate, loadEmploymentAsOf } from '@/services/employment-history';
+import { OTCostAllocation } from '@/types/otms';
 
 interface EmployeeOTSummary {
   employee_no: string;
@@ -15,6 +18,12 @@ interface EmployeeOTSummary {
   monthly_total: number;
 }
 
+interface CostedRequest {
+  total_hours: number | null;
+  ot_amount: number | null;
+  ot_session_cost_allocations?: OTCostAllocation[] | null;
+}
+
 export function useManagementReportData(selectedMonth?: Date) {
   const month = selectedMonth || new Date();
   const startDate = format(startOfMonth(month), 'yyyy-MM-dd');
@@ -33,6 +42,7 @@ export function useManagementReportData(selectedMonth?: Date) {
           ot_amount,
           status,
           threshold_violations,
+          ot_session_cost_allocations(hours, cost_centres(code, name)),
           profiles!ot_requests_employee_id_fkey(
             employee_id,
             full_name,
@@ -51,34 +61,52 @@ export function useManagementReportData(selectedMonth?: Date) {
 
       if (error) throw error;
 
-      // Aggregate by employee
-      const aggregated = aggregateByEmployee(data || []);
+      // Aggregate by employee, under the department and position held on each OT date
+      const employmentOn = await loadEmploymentAsOf((data || []).map(req => req.employee_id));
+      const aggregated = aggregateByEmployee(data || [], employmentOn);
 
       // Calculate stats
       const stats = calculateStats(data || []);
 
+      // OT cost per cost centre or project
+      const costCentres = totalByCostCentre(
+        ((data || []) as unknown as CostedRequest[]).map(req => ({
+          hours: req.total_hours || 0,
+          amount: req.ot_amount || 0,
+          cost_allocations: toCostShares(req.ot_session_cost_allocations),
+        }))
+      );
+
       return {
         rawData: data || [],
         aggregated,
+        costCentres,
         stats
       };
     }
   });
 }
 
-function aggregateByEmployee(requests: any[]): EmployeeOTSummary[] {
+function aggregateByEmployee(
+  requests: any[],
+  employmentOn: (employeeId: string, date: string) => EmploymentOnDate | null
+): EmployeeOTSummary[] {
   const grouped = new Map<string, EmployeeOTSummary>();
 
   requests.forEach(req => {
     const empId = req.employee_id;
     const profile = req.profiles;
+    const employment = employmentOn(empId, req.ot_date);
+    const department = (employment ? employment.department : profile?.departments?.name) || 'N/A';
+    const position = (employment ? employment.position : profile?.positions?.title) || 'N/A';
+    const key = `${empId}|${department}|${position}`;
 
-    if (!grouped.has(empId)) {
-      grouped.set(empId, {
+    if (!grouped.has(key)) {
+      grouped.set(key, {
         employee_no: profile?.employee_id || empId,
         employee_name: profile?.full_name || 'Unknown',
-        department: profile?.departments?.name || 'N/A',
-        position: profile?.positions?.title || 'N/A',
+        department,
+        position,
         company_id: profile?.company_id || '',
         company_name: profile?.companies?.name || 'N/A',
         company_code: profile?.companies?.code || 'N/A',
@@ -88,7 +116,7 @@ function aggregateByEmployee(requests: any[]): EmployeeOTSummary[] {
       });
     }
 
-    const emp = grouped.get(empId)!;
+    const emp = grouped.get(key)!;
     emp.total_ot_hours += req.total_hours || 0;
     emp.amount += req.ot_amount || 0;
     emp.monthly_total = emp.amount;
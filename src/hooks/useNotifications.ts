@@ -15,7 +15,8 @@ export interface Notification {
     | 'ot_requests_approved'
     | 'ot_requests_rejected'
     | 'ot_pending_confirmation'
-    | 'ot_supervisor_confirmed';
+    | 'ot_supervisor_confirmed'
+    | 'ot_approval_overdue';
   created_at: string;
 }
 
@@ -1,8 +1,13 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
-import { OTRequest, OTStatus, AppRole, GroupedOTRequest, ConfirmRequestInput, ConfirmRespectiveSupervisorInput, DenyRespectiveSupervisorInput, RequestRespectiveSupervisorConfirmationInput, getRequestRoute } from '@/types/otms';
+import { OTRequest, OTStatus, AppRole, GroupedOTRequest, ConfirmRequestInput, ConfirmRespectiveSupervisorInput, DenyRespectiveSupervisorInput, RequestRespectiveSupervisorConfirmationInput, OTDecisionAction, getRequestRoute } from '@/types/otms';
 import { toast } from 'sonner';
 import { validateRemarks } from '@/services/ot-workflow';
+import { transitionOTRequests } from '@/services/ot-transition';
+import { getActiveDelegatorIds } from '@/services/approval-delegation';
+import { toCostShares } from '@/lib/costAllocation';
+import { ENABLE_OFFLINE_MODE } from '@/config/features';
+import { QueueOTDecisionInput, useQueueOTDecisions } from './useQueuedOTDecisions';
 import { useRouteAApproval } from './useRouteAApproval';
 import { useRouteBApproval } from './useRouteBApproval';
 import { useOTApprovalShared } from './useOTApprovalShared';
@@ -58,7 +63,7 @@ async function sendManagementNotification(requestId: string): Promise<void> {
   console.log('Management notification sent:', response.data);
 }
 
-type ApprovalRole = 'supervisor' | 'hr' | 'management';
+type ApprovalRole = 'supervisor' | 'department_head' | 'hr' | 'management';
 
 interface UseOTApprovalOptions {
   role: ApprovalRole;
@@ -108,6 +113,7 @@ function groupOTRequestsByEmployee(requests: any[]): GroupedOTRequest[] {
       status: request.status,
       reason: request.reason,
       attachment_urls: request.attachment_urls,
+      cost_allocations: toCostShares(request.ot_session_cost_allocations),
     });
     group.total_hours += request.total_hours;
     group.request_ids.push(request.id);
@@ -121,21 +127,30 @@ function groupOTRequestsByEmployee(requests: any[]): GroupedOTRequest[] {
   return Array.from(grouped.values());
 }
 
+// Supervisor-stage end states; the department head (when the chain has one) or HR acts next
+const SUPERVISOR_COMPLETED_STATUSES: OTStatus[] = ['supervisor_confirmed', 'respective_supervisor_confirmed', 'supervisor_verified'];
+
 // Map roles to their respective status filters
 const getStatusFilter = (role: ApprovalRole, statusFilter?: string): OTStatus[] => {
   if (statusFilter && statusFilter !== 'all') {
+    // Department head tabs
+    if (role === 'department_head') {
+      if (statusFilter === 'pending') return SUPERVISOR_COMPLETED_STATUSES;
+      if (statusFilter === 'completed') return ['department_head_approved', 'hr_certified', 'management_approved'];
+      if (statusFilter === 'rejected') return ['rejected'];
+    }
     // Handle "completed" as a special case that includes multiple statuses
     if (statusFilter === 'completed') {
       return ['supervisor_verified', 'hr_certified', 'management_approved'];
     }
     // Handle "pending_certification" - HR's pending certification tab that shows all certifiable statuses
     if (statusFilter === 'pending_certification' && role === 'hr') {
-      return ['supervisor_verified', 'supervisor_confirmed', 'respective_supervisor_confirmed'];
+      return ['supervisor_verified', 'supervisor_confirmed', 'respective_supervisor_confirmed', 'department_head_approved'];
     }
     // Handle HR-specific tab names
     if (role === 'hr') {
       if (statusFilter === 'pending') {
-        return ['supervisor_confirmed', 'respective_supervisor_confirmed', 'supervisor_verified'];
+        return ['supervisor_confirmed', 'respective_supervisor_confirmed', 'supervisor_verified', 'department_head_approved'];
       }
       if (statusFilter === 'certified') {
         return ['hr_certified'];
@@ -166,11 +181,14 @@ const getStatusFilter = (role: ApprovalRole, statusFilter?: string): OTStatus[]
   // Handle "all" case specifically for each role
   if (statusFilter === 'all') {
     if (role === 'supervisor') {
-      return ['pending_verification', 'pending_supervisor_verification', 'pending_respective_supervisor_confirmation', 'supervisor_verified', 'supervisor_confirmed', 'respective_supervisor_confirmed', 'hr_certified', 'management_approved', 'rejected'];
+      return ['pending_verification', 'pending_supervisor_verification', 'pending_respective_supervisor_confirmation', 'supervisor_verified', 'supervisor_confirmed', 'respective_supervisor_confirmed', 'department_head_approved', 'hr_certified', 'management_approved', 'rejected'];
+    }
+    if (role === 'department_head') {
+      return [...SUPERVISOR_COMPLETED_STATUSES, 'department_head_approved', 'hr_certified', 'management_approved', 'rejected'];
     }
     if (role === 'hr') {
       // Show ALL statuses for HR "all" tab (full history view)
-      return ['pending_verification', 'pending_supervisor_verification', 'pending_respective_supervisor_confirmation', 'respective_supervisor_confirmed', 'supervisor_confirmed', 'supervisor_verified', 'hr_certified', 'management_approved', 'rejected'];
+      return ['pending_verification', 'pending_supervisor_verification', 'pending_respective_supervisor_confirmation', 'respective_supervisor_confirmed', 'supervisor_confirmed', 'supervisor_verified', 'department_head_approved', 'hr_certified', 'management_approved', 'rejected'];
     }
     if (role === 'management') {
       return ['hr_certified', 'management_approved', 'rejected'];
@@ -180,9 +198,12 @@ const getStatusFilter = (role: ApprovalRole, statusFilter?: string): OTStatus[]
   switch (role) {
     case 'supervisor':
       return ['pending_verification', 'pending_supervisor_verification'];
+    case 'department_head':
+      return SUPERVISOR_COMPLETED_STATUSES;
     case 'hr':
-      // HR sees supervisor-confirmed, respective supervisor confirmed, and legacy supervisor-verified requests
-      return ['supervisor_confirmed', 'respective_supervisor_confirmed', 'supervisor_verified'];
+      // HR sees supervisor-confirmed, respective supervisor confirmed, legacy supervisor-verified
+      // and department-head-approved requests
+      return [...SUPERVISOR_COMPLETED_STATUSES, 'department_head_approved'];
     case 'management':
       return ['hr_certified'];
     default:
@@ -196,6 +217,8 @@ const getApprovedStatus = (role: ApprovalRole): OTStatus => {
     case 'supervisor':
       // After supervisor verification, request is confirmed
       return 'supervisor_confirmed';
+    case 'department_head':
+      return 'department_head_approved';
     case 'hr':
       return 'hr_certified';
     case 'management':
@@ -205,48 +228,6 @@ const getApprovedStatus = (role: ApprovalRole): OTStatus => {
   }
 };
 
-// Map roles to their remarks field names
-const getRemarksField = (role: ApprovalRole): string => {
-  switch (role) {
-    case 'supervisor':
-      return 'supervisor_remarks';
-    case 'hr':
-      return 'hr_remarks';
-    case 'management':
-      return 'management_remarks';
-    default:
-      return 'hr_remarks';
-  }
-};
-
-// Map roles to their timestamp field names
-const getTimestampField = (role: ApprovalRole): string => {
-  switch (role) {
-    case 'supervisor':
-      return 'supervisor_verified_at';
-    case 'hr':
-      return 'hr_approved_at';
-    case 'management':
-      return 'management_reviewed_at';
-    default:
-      return 'hr_approved_at';
-  }
-};
-
-// Map roles to their ID field names
-const getIdField = (role: ApprovalRole): string | null => {
-  switch (role) {
-    case 'supervisor':
-      return 'supervisor_id';
-    case 'hr':
-      return 'hr_id';
-    case 'management':
-      return null; // Management doesn't have a dedicated ID field
-    default:
-      return null;
-  }
-};
-
 export function useOTApproval(options: UseOTApprovalOptions) {
   const queryClient = useQueryClient();
   const { role, status } = options;
@@ -265,6 +246,7 @@ export function useOTApproval(options: UseOTApprovalOptions) {
           employee_id,
           full_name,
           department_id,
+          company_id,
           basic_salary,
           departments(name)
         `
@@ -273,6 +255,7 @@ export function useOTApproval(options: UseOTApprovalOptions) {
           employee_id,
           full_name,
           department_id,
+          company_id,
           departments(name)
         `;
 
@@ -290,7 +273,8 @@ export function useOTApproval(options: UseOTApprovalOptions) {
             id,
             employee_id,
             full_name
-          )
+          ),
+          ot_session_cost_allocations(hours, cost_centres(code, name))
         `)
         .order('ot_date', { ascending: false });
 
@@ -298,7 +282,7 @@ export function useOTApproval(options: UseOTApprovalOptions) {
       const statuses = getStatusFilter(role, status);
       if (statuses.length > 0) {
         // Use .in() for multi-status filters ('completed', 'all' for supervisor, 'pending_certification' for HR)
-        if (status === 'completed' || (status === 'all' && role === 'supervisor') || (status === 'pending_certification' && role === 'hr')) {
+        if (status === 'completed' || (status === 'all' && role === 'supervisor') || (status === 'pending_certification' && role === 'hr') || role === 'department_head') {
           query = query.in('status', statuses);
         } else if (status && status !== 'all') {
           // Single status filter
@@ -315,15 +299,48 @@ export function useOTApproval(options: UseOTApprovalOptions) {
         query = query.is('management_remarks', null);
       }
 
+      // Requests whose approval chain has a department head step reach HR only once approved
+      if (role === 'hr' && (!status || status === 'pending' || status === 'pending_certification')) {
+        query = query.or('status.eq.department_head_approved,approval_steps.not.cs.{department_head}');
+      }
+
+      // Department heads see their departments' requests that have a department head step
+      if (role === 'department_head') {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (user) {
+          const { data: headedDepartments } = await supabase
+            .from('departments')
+            .select('id')
+            .eq('head_id', user.id);
+
+          const departmentIds = headedDepartments?.map(d => d.id) || [];
+          const { data: employees } = departmentIds.length > 0
+            ? await supabase.from('profiles').select('id').in('department_id', departmentIds)
+            : { data: [] };
+
+          const employeeIds = (employees || []).map(e => e.id).filter(id => id !== user.id);
+
+          query = query.contains('approval_steps', ['department_head']);
+          if (employeeIds.length > 0) {
+            query = query.in('employee_id', employeeIds);
+          } else {
+            query = query.filter('id', 'is', null);
+          }
+        }
+      }
+
       // Apply role-specific filters
       if (role === 'supervisor') {
         const { data: { user } } = await supabase.auth.getUser();
         if (user) {
+          // Supervisors act for themselves and anyone they are covering for (out of office delegation)
+          const supervisorIds = [user.id, ...await getActiveDelegatorIds(user.id, 'supervisor')];
+
           // Get employee IDs that this supervisor manages
           const { data: employees } = await supabase
             .from('profiles')
             .select('id')
-            .eq('supervisor_id', user.id);
+            .in('supervisor_id', supervisorIds);
 
           const employeeIds = employees?.map(e => e.id) || [];
 
@@ -332,7 +349,7 @@ export function useOTApproval(options: UseOTApprovalOptions) {
           // Note: RLS policy now restricts supervisors to only their direct reports or as respective supervisor
           if (status === 'pending_respective_supervisor_confirmation') {
             // Only show pending_respective_supervisor_confirmation for respective supervisors
-            query = query.eq('respective_supervisor_id', user.id);
+            query = query.in('respective_supervisor_id', supervisorIds);
           } else if (status === 'pending_supervisor_verification') {
             // Route B: Direct supervisors verifying after respective supervisor confirms
             if (employeeIds.length > 0) {
@@ -362,10 +379,10 @@ export function useOTApproval(options: UseOTApprovalOptions) {
             // 2. Requests where user is the respective supervisor
             if (employeeIds.length > 0) {
               const employeeFilter = employeeIds.map(id => `employee_id.eq.${id}`).join(',');
-              query = query.or(`${employeeFilter},respective_supervisor_id.eq.${user.id}`);
+              query = query.or(`${employeeFilter},respective_supervisor_id.in.(${supervisorIds.join(',')})`);
             } else {
               // No managed employees, but still show requests where user is the respective supervisor
-              query = query.eq('respective_supervisor_id', user.id);
+              query = query.in('respective_supervisor_id', supervisorIds);
             }
           }
         }
@@ -391,49 +408,11 @@ export function useOTApproval(options: UseOTApprovalOptions) {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('User not authenticated');
 
-      // For supervisor role in Flow A (no respective supervisor), do single-step approval
-      let targetStatus = getApprovedStatus(role);
-
-      if (role === 'supervisor') {
-        // Fetch requests to check if they have respective supervisors
-        const { data: requests, error: fetchError } = await supabase
-          .from('ot_requests')
-          .select('id, respective_supervisor_id, status')
-          .in('id', requestIds);
-
-        if (fetchError) throw fetchError;
-
-        // Check if all requests are Flow A (no respective supervisor and in pending_verification)
-        const allFlowA = requests?.every(
-          req => req.status === 'pending_verification' && !req.respective_supervisor_id
-        );
-
-        if (allFlowA) {
-          // Flow A: Single-step approval directly to supervisor_confirmed
-          targetStatus = 'supervisor_confirmed';
-        }
-        // Otherwise: Flow B - targetStatus already set by getApprovedStatus()
-      }
-
-      const updateData: any = {
-        status: targetStatus,
-        [getRemarksField(role)]: remarks || null,
-        [getTimestampField(role)]: new Date().toISOString(),
-      };
-
-      // Add ID field if applicable
-      const idField = getIdField(role);
-      if (idField) {
-        updateData[idField] = user.id;
-      }
-
-      // Batch update all request IDs
-      const { error } = await supabase
-        .from('ot_requests')
-        .update(updateData)
-        .in('id', requestIds);
+      // Route A (pending_verification) and Route B (pending_supervisor_verification)
+      // both land on supervisor_confirmed; the engine validates each request's route
+      const targetStatus = getApprovedStatus(role);
 
-      if (error) throw error;
+      const results = await transitionOTRequests({ requestIds, toStatus: targetStatus, remarks });
 
       // Send approval notifications to employees asynchronously (don't block approval workflow)
       requestIds.forEach(requestId => {
@@ -443,9 +422,10 @@ export function useOTApproval(options: UseOTApprovalOptions) {
         });
       });
 
-      // If HR is certifying, send notifications to management users
-      if (role === 'hr' && getApprovedStatus(role) === 'hr_certified') {
-        requestIds.forEach(requestId => {
+      // If HR is certifying, notify management for requests whose chain still needs them
+      // (chains without a management step are completed by HR certification)
+      if (role === 'hr') {
+        results.filter(r => r.to_status === 'hr_certified').forEach(({ request_id: requestId }) => {
           sendManagementNotification(requestId).catch((notifError) => {
             console.error('Failed to send management notification:', notifError);
             // Don't throw - notification failure should not prevent approval
@@ -457,7 +437,7 @@ export function useOTApproval(options: UseOTApprovalOptions) {
     },
     onSuccess: async (data) => {
       queryClient.invalidateQueries({ queryKey });
-      const actionLabel = role === 'supervisor' ? 'verified' : role === 'hr' ? 'approved' : 'reviewed';
+      const actionLabel = role === 'supervisor' ? 'verified' : role === 'management' ? 'reviewed' : 'approved';
       toast.success(`OT request ${actionLabel} successfully`);
 
       // For supervisor role: trigger verification notification (only for Flow B after respective SV confirms)
@@ -520,28 +500,14 @@ export function useOTApproval(options: UseOTApprovalOptions) {
       if (!user) throw new Error('User not authenticated');
 
       // Management rejection sends back to HR for recertification, others get final rejection
-      const status = role === 'management' ? 'hr_certified' : 'rejected';
-
-      const updateData: any = {
-        status: status,
-        [getRemarksField(role)]: remarks,
-        [getTimestampField(role)]: new Date().toISOString(),
-        rejection_stage: rejectionStage || role,
-      };
-
-      // Add ID field if applicable
-      const idField = getIdField(role);
-      if (idField) {
-        updateData[idField] = user.id;
-      }
+      const status: OTStatus = role === 'management' ? 'hr_certified' : 'rejected';
 
-      // Batch update all request IDs
-      const { error } = await supabase
-        .from('ot_requests')
-        .update(updateData)
-        .in('id', requestIds);
-
-      if (error) throw error;
+      await transitionOTRequests({
+        requestIds,
+        toStatus: status,
+        remarks,
+        rejectionStage: rejectionStage || role,
+      });
 
       // Send rejection notifications to employees asynchronously (don't block rejection workflow)
       requestIds.forEach(requestId => {
@@ -583,15 +549,11 @@ export function useOTApproval(options: UseOTApprovalOptions) {
         throw new Error('No requests found');
       }
 
-      // Requests are validated at the database level via RLS policies and constraints
+      // Requests are validated by the transition engine (role, assignment, transition table)
 
       // Perform batch confirmation with status determination per request
       // Multi-step flow (with respective supervisor already confirmed) → supervisor_verified
       // Single-step flow (no respective supervisor) → supervisor_confirmed
-      const baseUpdateData = {
-        supervisor_confirmation_at: new Date().toISOString(),
-        supervisor_confirmation_remarks: remarks || null,
-      };
 
       // Group requests by target status
       const multiStepRequests = requests.filter(
@@ -603,28 +565,20 @@ export function useOTApproval(options: UseOTApprovalOptions) {
 
       // Update multi-step requests to supervisor_verified
       if (multiStepRequests.length > 0) {
-        const { error } = await supabase
-          .from('ot_requests')
-          .update({
-            ...baseUpdateData,
-            status: 'supervisor_verified' as OTStatus,
-          })
-          .in('id', multiStepRequests.map(r => r.id));
-
-        if (error) throw error;
+        await transitionOTRequests({
+          requestIds: multiStepRequests.map(r => r.id),
+          toStatus: 'supervisor_verified',
+          remarks,
+        });
       }
 
       // Update single-step requests to supervisor_confirmed
       if (singleStepRequests.length > 0) {
-        const { error } = await supabase
-          .from('ot_requests')
-          .update({
-            ...baseUpdateData,
-            status: 'supervisor_confirmed' as OTStatus,
-          })
-          .in('id', singleStepRequests.map(r => r.id));
-
-        if (error) throw error;
+        await transitionOTRequests({
+          requestIds: singleStepRequests.map(r => r.id),
+          toStatus: 'supervisor_confirmed',
+          remarks,
+        });
       }
 
       return { requestIds, success: true };
@@ -753,16 +707,10 @@ export function useOTApproval(options: UseOTApprovalOptions) {
       }
 
       // Update status to pending_respective_supervisor_confirmation
-      const updateData = {
-        status: 'pending_respective_supervisor_confirmation' as OTStatus,
-      };
-
-      const { error } = await supabase
-        .from('ot_requests')
-        .update(updateData)
-        .in('id', requestIds);
-
-      if (error) throw error;
+      await transitionOTRequests({
+        requestIds,
+        toStatus: 'pending_respective_supervisor_confirmation',
+      });
 
       return { requestIds, success: true };
     },
@@ -842,18 +790,11 @@ export function useOTApproval(options: UseOTApprovalOptions) {
       }
 
       // Perform batch confirmation - transition to pending_supervisor_verification (Route B workflow)
-      const updateData = {
-        status: 'pending_supervisor_verification' as OTStatus,
-        respective_supervisor_confirmed_at: new Date().toISOString(),
-        respective_supervisor_remarks: remarks || null,
-      };
-
-      const { error } = await supabase
-        .from('ot_requests')
-        .update(updateData)
-        .in('id', requestIds);
-
-      if (error) throw error;
+      await transitionOTRequests({
+        requestIds,
+        toStatus: 'pending_supervisor_verification',
+        remarks,
+      });
 
       return { requestIds, success: true };
     },
@@ -938,19 +879,12 @@ export function useOTApproval(options: UseOTApprovalOptions) {
       }
 
       // Update status to rejected - employee will need to amend and resubmit
-      const updateData = {
-        status: 'rejected' as OTStatus,
-        rejection_stage: 'respective_supervisor_verification',
-        respective_supervisor_denied_at: new Date().toISOString(),
-        respective_supervisor_denial_remarks: denialRemarks,
-      };
-
-      const { error } = await supabase
-        .from('ot_requests')
-        .update(updateData)
-        .in('id', requestIds);
-
-      if (error) throw error;
+      await transitionOTRequests({
+        requestIds,
+        toStatus: 'rejected',
+        remarks: denialRemarks,
+        rejectionStage: 'respective_supervisor_verification',
+      });
 
       return { requestIds, success: true };
     },
@@ -1036,22 +970,12 @@ export function useOTApproval(options: UseOTApprovalOptions) {
       }
 
       // Update status back to pending_respective_supervisor_confirmation
-      // Keep the denial records for audit trail but add supervisor's revision remarks
-      const updateData: any = {
-        status: 'pending_respective_supervisor_confirmation' as OTStatus,
-      };
-
-      // If supervisor adds remarks about the revision, update supervisor_remarks
-      if (remarks) {
-        updateData.supervisor_remarks = remarks;
-      }
-
-      const { error } = await supabase
-        .from('ot_requests')
-        .update(updateData)
-        .in('id', requestIds);
-
-      if (error) throw error;
+      // Keep the denial records for audit trail; revision remarks go to supervisor_remarks
+      await transitionOTRequests({
+        requestIds,
+        toStatus: 'pending_respective_supervisor_confirmation',
+        remarks,
+      });
 
       return { requestIds, success: true };
     },
@@ -1125,17 +1049,7 @@ export function useOTApproval(options: UseOTApprovalOptions) {
       }
 
       // Perform batch verification - move to supervisor_confirmed
-      const updateData = {
-        status: 'supervisor_confirmed' as OTStatus,
-        supervisor_verified_at: new Date().toISOString(),
-      };
-
-      const { error } = await supabase
-        .from('ot_requests')
-        .update(updateData)
-        .in('id', requestIds);
-
-      if (error) throw error;
+      await transitionOTRequests({ requestIds, toStatus: 'supervisor_confirmed' });
 
       return { requestIds, success: true };
     },
@@ -1169,17 +1083,35 @@ export function useOTApproval(options: UseOTApprovalOptions) {
     },
   });
 
+  // Supervisors offline: decisions are saved on the device against the requests as
+  // last loaded, and replayed in order once back online
+  const queueDecisions = useQueueOTDecisions();
+  const queueWhenOffline = <T extends { requestIds: string[] }, R>(
+    action: OTDecisionAction,
+    decide: (input: T) => Promise<R>,
+    getRemarks: (input: T) => Pick<QueueOTDecisionInput, 'remarks' | 'rejectionStage'>
+  ) => async (input: T) => {
+    if (!ENABLE_OFFLINE_MODE || role !== 'supervisor' || navigator.onLine) {
+      return decide(input);
+    }
+    await queueDecisions.mutateAsync({
+      action,
+      requests: (data || []).filter(request => input.requestIds.includes(request.id)),
+      ...getRemarks(input),
+    });
+  };
+
   return {
     requests: groupOTRequestsByEmployee(data || []),
     isLoading,
     error,
-    approveRequest: approveMutation.mutateAsync,
-    rejectRequest: rejectMutation.mutateAsync,
-    confirmRequest: confirmMutation.mutateAsync,
+    approveRequest: queueWhenOffline('approve', approveMutation.mutateAsync, ({ remarks }) => ({ remarks })),
+    rejectRequest: queueWhenOffline('reject', rejectMutation.mutateAsync, ({ remarks, rejectionStage }) => ({ remarks, rejectionStage })),
+    confirmRequest: queueWhenOffline('confirm', confirmMutation.mutateAsync, ({ remarks }) => ({ remarks })),
     requestRespectiveSupervisorConfirmation: requestRespectiveSupervisorConfirmationMutation.mutateAsync,
-    confirmRespectiveSupervisor: confirmRespectiveSupervisorMutation.mutateAsync,
-    denyRespectiveSupervisor: denyRespectiveSupervisorMutation.mutateAsync,
-    reviseDeniedRequest: reviseDeniedRequestMutation.mutateAsync,
+    confirmRespectiveSupervisor: queueWhenOffline('confirm_respective', confirmRespectiveSupervisorMutation.mutateAsync, ({ remarks }) => ({ remarks })),
+    denyRespectiveSupervisor: queueWhenOffline('deny_respective', denyRespectiveSupervisorMutation.mutateAsync, ({ denialRemarks }) => ({ remarks: denialRemarks })),
+    reviseDeniedRequest: queueWhenOffline('revise', reviseDeniedRequestMutation.mutateAsync, ({ remarks }) => ({ remarks })),
     verifyOT: verifyOTMutation.mutateAsync,
     isApproving: approveMutation.isPending,
     isRejecting: rejectMutation.isPending,
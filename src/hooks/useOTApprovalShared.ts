@@ -16,6 +16,7 @@ import {
   validateManagementApproval,
   validateManagementRejection,
 } from '@/services/ot-workflow';
+import { transitionOTRequests } from '@/services/ot-transition';
 
 export function useOTApprovalShared() {
   const queryClient = useQueryClient();
@@ -159,16 +160,11 @@ export function useOTApprovalShared() {
       }
 
       // Update status
-      const { error } = await supabase
-        .from('ot_requests')
-        .update({
-          status: 'management_approved',
-          management_reviewed_at: new Date().toISOString(),
-          management_remarks: input.remarks,
-        })
-        .in('id', input.requestIds);
-
-      if (error) throw error;
+      await transitionOTRequests({
+        requestIds: input.requestIds,
+        toStatus: 'management_approved',
+        remarks: input.remarks,
+      });
 
       // Notify employee
       try {
@@ -212,15 +208,11 @@ export function useOTApprovalShared() {
       }
 
       // Reset to hr_certified for HR recertification
-      const { error } = await supabase
-        .from('ot_requests')
-        .update({
-          status: 'hr_certified',
-          management_remarks: input.remarks,
-        })
-        .in('id', input.requestIds);
-
-      if (error) throw error;
+      await transitionOTRequests({
+        requestIds: input.requestIds,
+        toStatus: 'hr_certified',
+        remarks: input.remarks,
+      });
 
       // Notify HR for recertification
       try {
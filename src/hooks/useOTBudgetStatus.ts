@@ -0,0 +1,24 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { OTBudgetStatus } from '@/types/otms';
+
+/** Budgets for the months from one date to another (YYYY-MM-DD), against their OT spend */
+export function useOTBudgetStatus(from: string | undefined, to: string | undefined) {
+  return useQuery({
+    queryKey: ['ot-budget-status', from, to],
+    queryFn: async (): Promise<OTBudgetStatus[]> => {
+      const { data, error } = await supabase.rpc('get_ot_budget_status', { p_from: from, p_to: to });
+
+      if (error) throw error;
+      return data.map((row) => ({
+        ...row,
+        budget_amount: Number(row.budget_amount),
+        approved_amount: Number(row.approved_amount),
+        pending_amount: Number(row.pending_amount),
+        committed_amount: Number(row.committed_amount),
+      }));
+    },
+    enabled: !!from && !!to,
+    staleTime: 1000 * 60,
+  });
+}
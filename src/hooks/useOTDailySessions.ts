@@ -1,5 +1,6 @@
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import { getSessionPortionOnDate, previousDate } from '@/lib/otSessions';
 import { OTRequest } from '@/types/otms';
 
 interface UseOTDailySessionsOptions {
@@ -8,6 +9,17 @@ interface UseOTDailySessionsOptions {
   enabled?: boolean;
 }
 
+/** A session worked on the day, with the hours that fall on it */
+export interface OTDailySession extends OTRequest {
+  date_hours: number;
+  /** Started the previous night and ran past midnight into this day */
+  from_previous_day: boolean;
+}
+
+/**
+ * Sessions worked on a day, including the after-midnight part of the
+ * previous night's sessions
+ */
 export function useOTDailySessions({ employeeId, otDate, enabled = true }: UseOTDailySessionsOptions) {
   return useQuery({
     queryKey: ['ot-daily-sessions', employeeId, otDate],
@@ -16,12 +28,20 @@ export function useOTDailySessions({ employeeId, otDate, enabled = true }: UseOT
         .from('ot_requests')
         .select('*')
         .eq('employee_id', employeeId)
-        .eq('ot_date', otDate)
+        .gte('ot_date', previousDate(otDate))
+        .lte('ot_date', otDate)
         .neq('status', 'rejected')
+        .order('ot_date', { ascending: true })
         .order('start_time', { ascending: true });
 
       if (error) throw error;
-      return data as OTRequest[];
+
+      return (data as OTRequest[]).flatMap((session): OTDailySession[] => {
+        const portion = getSessionPortionOnDate(session, otDate);
+        return portion
+          ? [{ ...session, date_hours: portion.hours, from_previous_day: session.ot_date !== otDate }]
+          : [];
+      });
     },
     enabled: enabled && !!employeeId && !!otDate,
   });
@@ -0,0 +1,27 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { OTHoursSummary } from '@/types/otms';
+
+/** An employee's OT hours for the month containing a date (YYYY-MM-DD), and the limits on them */
+export function useOTHoursSummary(employeeId: string | undefined, date: string) {
+  return useQuery({
+    queryKey: ['ot-hours-summary', employeeId, date.slice(0, 7)],
+    queryFn: async (): Promise<OTHoursSummary> => {
+      const { data, error } = await supabase.rpc('get_ot_hours_summary', {
+        p_employee_id: employeeId,
+        p_month: date,
+      });
+
+      if (error) throw error;
+      const [row] = data as OTHoursSummary[];
+      return {
+        ...row,
+        used_hours: Number(row.used_hours),
+        statutory_cap_hours: Number(row.statutory_cap_hours),
+        exception_hours: Number(row.exception_hours),
+        monthly_limit_hours: row.monthly_limit_hours === null ? null : Number(row.monthly_limit_hours),
+      };
+    },
+    enabled: !!employeeId && !!date,
+  });
+}
@@ -0,0 +1,30 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { OTReason } from '@/types/otms';
+
+/**
+ * The OT reason catalogue. Employees pick from active reasons offered to
+ * their company and department; HR settings lists them all.
+ */
+export function useOTReasons({ activeOnly = false }: { activeOnly?: boolean } = {}) {
+  return useQuery({
+    queryKey: ['ot-reasons', activeOnly],
+    queryFn: async () => {
+      let query = supabase
+        .from('ot_reasons')
+        .select('*')
+        .order('sort_order', { ascending: true })
+        .order('label', { ascending: true });
+      if (activeOnly) query = query.eq('is_active', true);
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      return (data as OTReason[]).map((reason) => ({
+        ...reason,
+        max_hours: reason.max_hours === null ? null : Number(reason.max_hours),
+      }));
+    },
+    staleTime: 1000 * 60 * 5,
+  });
+}
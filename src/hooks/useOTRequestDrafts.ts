@@ -0,0 +1,23 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { OTRequestDraft } from '@/types/otms';
+
+/** The employee's OT drafts from attendance that still need submitting or dismissing */
+export function useOTRequestDrafts(employeeId: string | undefined) {
+  return useQuery({
+    queryKey: ['ot-request-drafts', employeeId],
+    enabled: !!employeeId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('ot_request_drafts')
+        .select('*')
+        .eq('employee_id', employeeId)
+        .eq('status', 'pending')
+        .order('ot_date', { ascending: true })
+        .order('start_time', { ascending: true });
+
+      if (error) throw error;
+      return data as OTRequestDraft[];
+    },
+  });
+}
@@ -0,0 +1,36 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { OTRequestEvent } from '@/types/otms';
+
+interface UseOTRequestEventsOptions {
+  /** One or more OT request IDs (a grouped day view passes every session) */
+  requestIds: string[];
+  enabled?: boolean;
+}
+
+export function useOTRequestEvents({ requestIds, enabled = true }: UseOTRequestEventsOptions) {
+  return useQuery({
+    queryKey: ['ot-request-events', requestIds],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('ot_request_events')
+        .select(`
+          *,
+          actor:profiles!ot_request_events_actor_id_fkey(
+            full_name,
+            employee_id
+          ),
+          principal:profiles!ot_request_events_on_behalf_of_fkey(
+            full_name,
+            employee_id
+          )
+        `)
+        .in('request_id', requestIds)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data as OTRequestEvent[];
+    },
+    enabled: enabled && requestIds.length > 0,
+  });
+}
@@ -12,6 +12,7 @@ interface ResubmitData {
   total_hours: number;
   day_type: 'weekday' | 'saturday' | 'sunday' | 'public_holiday';
   reason: string;
+  reason_id?: string | null;
   attachment_urls: string[];
   respective_supervisor_id?: string;
 }
@@ -79,6 +80,7 @@ export function useOTResubmit() {
           total_hours: data.total_hours,
           day_type: data.day_type,
           reason: data.reason,
+          reason_id: data.reason_id || null,
           attachment_urls: data.attachment_urls,
           respective_supervisor_id: data.respective_supervisor_id || null,
           status: initialStatus
@@ -2,7 +2,14 @@ import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { format } from 'date-fns';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-import { canSubmitOTForDate, validateOTTimeForWorkDay } from '@/utils/otValidation';
+import { canSubmitOTForDate, validateOTTimeForRoster, validateOTTimeForWorkDay } from '@/utils/otValidation';
+import { findOverlappingSession, nextDate, previousDate } from '@/lib/otSessions';
+import { fetchEmployeeRoster } from '@/services/shift-roster';
+import { CostAllocationInput } from '@/lib/costAllocation';
+import { isNetworkError } from '@/lib/offlineQueue';
+import { queueOTSubmission, requestQueueSync } from '@/services/offline-ot-queue';
+import { ENABLE_OFFLINE_MODE } from '@/config/features';
+import { QueuedOTSubmission } from '@/types/otms';
 
 interface OTSubmitData {
   ot_date: string;
@@ -11,11 +18,25 @@ interface OTSubmitData {
   end_time: string;
   total_hours: number;
   day_type: 'weekday' | 'saturday' | 'sunday' | 'public_holiday';
+  /** Day type of the next date, for sessions past midnight */
+  next_day_type?: 'weekday' | 'saturday' | 'sunday' | 'public_holiday';
   reason: string;
+  /** The catalogue reason; reason holds its label or the employee's details */
+  reason_id?: string | null;
   respective_supervisor_id?: string | null;
   attachment_urls: string[];
+  /** Cost centres the session is charged to, by hours */
+  cost_allocations?: CostAllocationInput[];
+  /** Files picked while offline, uploaded with the request */
+  offline_attachments?: File[];
+  /** The attendance draft the request comes from, resolved when a queued request syncs */
+  draft_id?: string | null;
 }
 
+type OTSubmitResult =
+  | { request: { id: string; ticket_number: string }; queued: null }
+  | { request: null; queued: QueuedOTSubmission };
+
 /**
  * Send supervisor notification via Edge Function (initial supervisor alert)
  * Routes to respective supervisor if selected, otherwise to direct supervisor
@@ -45,132 +66,220 @@ async function sendSupervisorNotification(
   }
 }
 
-export function useOTSubmit() {
-  const { toast } = useToast();
-  const queryClient = useQueryClient();
+async function uploadAttachments(userId: string, files: File[]): Promise<string[]> {
+  const urls: string[] = [];
+  for (const file of files) {
+    const fileExt = file.name.split('.').pop();
+    const filePath = `${userId}/${Date.now()}-${Math.random().toString(36).substring(7)}.${fileExt}`;
 
-  return useMutation({
-    mutationFn: async (data: OTSubmitData) => {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error('Not authenticated');
-
-      // Get employee profile to get supervisor_id and check OT eligibility
-      const { data: profile, error: profileError } = await supabase
-        .from('profiles')
-        .select('supervisor_id, is_ot_eligible')
-        .eq('id', user.id)
-        .single();
-
-      if (profileError) throw profileError;
-
-      // Check if employee is eligible for OT
-      if (!profile.is_ot_eligible) {
-        throw new Error('You are not eligible to submit OT requests. Please contact HR.');
-      }
+    const { error } = await supabase.storage.from('ot-attachments').upload(filePath, file);
+    if (error) throw error;
 
-      // Get submission cutoff day from settings
-      const { data: settings, error: settingsError } = await supabase
-        .from('ot_settings')
-        .select('ot_submission_cutoff_day, grace_period_enabled')
-        .limit(1)
-        .single();
+    urls.push(supabase.storage.from('ot-attachments').getPublicUrl(filePath).data.publicUrl);
+  }
+  return urls;
+}
 
-      if (settingsError) {
-        // Continue with default cutoff day
-      }
+/**
+ * Saves the request on the device to be sent when connectivity returns.
+ * The queued id is the one the online attempt used, so a request that did
+ * reach the server isn't stored twice.
+ */
+async function queueSubmission(
+  data: OTSubmitData,
+  clientSubmissionId: string,
+  employeeId: string
+): Promise<OTSubmitResult> {
+  const { offline_attachments = [], draft_id, ...payload } = data;
+  const queued = await queueOTSubmission({
+    id: clientSubmissionId,
+    employee_id: employeeId,
+    payload,
+    attachments: offline_attachments.map((file) => ({ name: file.name, type: file.type, size: file.size, blob: file })),
+    draft_id,
+  });
+  await requestQueueSync();
+  return { request: null, queued };
+}
 
-      const cutoffDay = settings?.ot_submission_cutoff_day || 10;
-      const gracePeriodEnabled = settings?.grace_period_enabled ?? false;
+/** Validates and stores the request while online */
+async function submitOnline(data: OTSubmitData, clientSubmissionId: string) {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not authenticated');
 
-      // Validate OT date against submission deadline rules
-      const otDateObj = new Date(data.ot_date);
-      const validation = canSubmitOTForDate(otDateObj, new Date(), cutoffDay, gracePeriodEnabled);
-      if (!validation.isAllowed) {
-        throw new Error(validation.message || 'This date is not allowed for OT submission');
-      }
+  // Get employee profile to get supervisor_id and check OT eligibility
+  const { data: profile, error: profileError } = await supabase
+    .from('profiles')
+    .select('supervisor_id, is_ot_eligible')
+    .eq('id', user.id)
+    .single();
+
+  if (profileError) throw profileError;
+
+  // Check if employee is eligible for OT
+  if (!profile.is_ot_eligible) {
+    throw new Error('You are not eligible to submit OT requests. Please contact HR.');
+  }
+
+  // Get submission cutoff day from settings
+  const { data: settings, error: settingsError } = await supabase
+    .from('ot_settings')
+    .select('ot_submission_cutoff_day, grace_period_enabled')
+    .limit(1)
+    .single();
+
+  if (settingsError) {
+    // Continue with default cutoff day
+  }
+
+  const cutoffDay = settings?.ot_submission_cutoff_day || 10;
+  const gracePeriodEnabled = settings?.grace_period_enabled ?? false;
+
+  // Validate OT date against submission deadline rules
+  const otDateObj = new Date(data.ot_date);
+  const validation = canSubmitOTForDate(otDateObj, new Date(), cutoffDay, gracePeriodEnabled);
+  if (!validation.isAllowed) {
+    throw new Error(validation.message || 'This date is not allowed for OT submission');
+  }
+
+  // Validate against the rostered shift, or business hours on calendar work days
+  const roster = await fetchEmployeeRoster(user.id, previousDate(data.ot_date), nextDate(data.ot_date));
+  const nextOTDate = nextDate(data.ot_date);
+  const holidays = new Set([
+    ...(data.day_type === 'public_holiday' ? [data.ot_date] : []),
+    ...(data.next_day_type === 'public_holiday' ? [nextOTDate] : []),
+  ]);
+  const timeValidation = roster.some((day) => day.roster_date === data.ot_date)
+    ? validateOTTimeForRoster(data, roster, (date) => holidays.has(date))
+    : validateOTTimeForWorkDay(data.start_time, data.end_time, data.day_type, data.next_day_type);
+  if (!timeValidation.isAllowed) {
+    throw new Error(timeValidation.message || 'OT cannot be submitted during work hours on work days');
+  }
+
+  // Check for duplicate or overlapping OT requests, including sessions
+  // running past midnight from the previous date or into the next one
+  const { data: existingRequests, error: checkError } = await supabase
+    .from('ot_requests')
+    .select('id, ot_date, start_time, end_time, status')
+    .eq('employee_id', user.id)
+    .gte('ot_date', previousDate(data.ot_date))
+    .lte('ot_date', nextDate(data.ot_date))
+    .neq('status', 'rejected');
+
+  if (checkError) throw checkError;
 
-      // Validate business hours for work days (weekdays only)
-      const timeValidation = validateOTTimeForWorkDay(data.start_time, data.end_time, data.day_type);
-      if (!timeValidation.isAllowed) {
-        throw new Error(timeValidation.message || 'OT cannot be submitted during work hours on work days');
+  const overlapping = findOverlappingSession(data, existingRequests || []);
+  if (overlapping) {
+    throw new Error(
+      `You already have an OT request for ${overlapping.ot_date} from ${overlapping.start_time} to ${overlapping.end_time}. ` +
+      `Please cancel or modify the existing request before submitting a new one.`
+    );
+  }
+
+  // Determine initial status based on workflow route
+  // Route A (no respective SV): direct supervisor verifies first
+  // Route B (with respective SV): respective supervisor confirms first
+  const initialStatus = data.respective_supervisor_id
+    ? 'pending_respective_supervisor_confirmation'
+    : 'pending_verification';
+
+  // Generate ticket number: OT-YYYYMMDD-RANDOM
+  const dateStr = format(new Date(data.ot_date), 'yyyyMMdd');
+  const randomSuffix = Math.random().toString(36).substring(2, 6).toUpperCase();
+  const ticketNumber = `OT-${dateStr}-${randomSuffix}`;
+
+  const attachmentUrls = data.offline_attachments?.length
+    ? [...data.attachment_urls, ...(await uploadAttachments(user.id, data.offline_attachments))]
+    : data.attachment_urls;
+
+  const { data: otRequest, error } = await supabase
+    .from('ot_requests')
+    .insert([{
+      ticket_number: ticketNumber,
+      employee_id: user.id,
+      supervisor_id: profile.supervisor_id || null,
+      ot_date: data.ot_date,
+      ot_location_state: data.ot_location_state,
+      start_time: data.start_time,
+      end_time: data.end_time,
+      total_hours: data.total_hours,
+      day_type: data.day_type,
+      reason: data.reason,
+      reason_id: data.reason_id || null,
+      respective_supervisor_id: data.respective_supervisor_id || null,
+      attachment_urls: attachmentUrls,
+      status: initialStatus,
+      client_submission_id: clientSubmissionId,
+    }])
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  // Notify appropriate supervisor based on workflow route
+  // Route B: Notify respective supervisor if selected
+  // Route A: Notify direct supervisor if no respective supervisor
+  sendSupervisorNotification(otRequest.id, user.id, data.respective_supervisor_id).catch((notifError) => {
+    // Don't throw - notification failure should not prevent OT submission
+  });
+
+  if (data.cost_allocations && data.cost_allocations.length > 0) {
+    const { error: allocationError } = await supabase.rpc('set_ot_cost_allocations', {
+      p_request_id: otRequest.id,
+      p_allocations: data.cost_allocations.map(({ cost_centre_id, hours }) => ({ cost_centre_id, hours })),
+    });
+
+    if (allocationError) {
+      throw new Error(
+        `OT request ${otRequest.ticket_number} was submitted, but its cost centres could not be saved: ${allocationError.message}`
+      );
+    }
+  }
+
+  return otRequest;
+}
+
+export function useOTSubmit() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: OTSubmitData): Promise<OTSubmitResult> => {
+      // The cached session works offline, where getUser() would need the server
+      const { data: { session } } = await supabase.auth.getSession();
+      const employeeId = session?.user?.id;
+      if (!employeeId) throw new Error('Not authenticated');
+
+      const clientSubmissionId = crypto.randomUUID();
+      if (ENABLE_OFFLINE_MODE && !navigator.onLine) {
+        return queueSubmission(data, clientSubmissionId, employeeId);
       }
 
-      // Check for duplicate or overlapping OT requests
-      const { data: existingRequests, error: checkError } = await supabase
-        .from('ot_requests')
-        .select('id, start_time, end_time, status')
-        .eq('employee_id', user.id)
-        .eq('ot_date', data.ot_date)
-        .neq('status', 'rejected');
-
-      if (checkError) throw checkError;
-
-      if (existingRequests && existingRequests.length > 0) {
-        // Check for time overlap
-        for (const existing of existingRequests) {
-          const existingStart = existing.start_time;
-          const existingEnd = existing.end_time;
-          const newStart = data.start_time;
-          const newEnd = data.end_time;
-
-          // Overlap occurs if: (newStart < existingEnd) AND (newEnd > existingStart)
-          if (newStart < existingEnd && newEnd > existingStart) {
-            throw new Error(
-              `You already have an OT request for ${data.ot_date} from ${existingStart} to ${existingEnd}. ` +
-              `Please cancel or modify the existing request before submitting a new one.`
-            );
-          }
+      try {
+        const request = await submitOnline(data, clientSubmissionId);
+        return { request, queued: null };
+      } catch (error) {
+        if (ENABLE_OFFLINE_MODE && isNetworkError(error)) {
+          return queueSubmission(data, clientSubmissionId, employeeId);
         }
+        throw error;
       }
-
-      // Determine initial status based on workflow route
-      // Route A (no respective SV): direct supervisor verifies first
-      // Route B (with respective SV): respective supervisor confirms first
-      const initialStatus = data.respective_supervisor_id
-        ? 'pending_respective_supervisor_confirmation'
-        : 'pending_verification';
-
-      // Generate ticket number: OT-YYYYMMDD-RANDOM
-      const dateStr = format(new Date(data.ot_date), 'yyyyMMdd');
-      const randomSuffix = Math.random().toString(36).substring(2, 6).toUpperCase();
-      const ticketNumber = `OT-${dateStr}-${randomSuffix}`;
-
-      const { data: otRequest, error } = await supabase
-        .from('ot_requests')
-        .insert([{
-          ticket_number: ticketNumber,
-          employee_id: user.id,
-          supervisor_id: profile.supervisor_id || null,
-          ot_date: data.ot_date,
-          ot_location_state: data.ot_location_state,
-          start_time: data.start_time,
-          end_time: data.end_time,
-          total_hours: data.total_hours,
-          day_type: data.day_type,
-          reason: data.reason,
-          respective_supervisor_id: data.respective_supervisor_id || null,
-          attachment_urls: data.attachment_urls,
-          status: initialStatus,
-        }])
-        .select()
-        .single();
-
-      if (error) throw error;
-
-      // Notify appropriate supervisor based on workflow route
-      // Route B: Notify respective supervisor if selected
-      // Route A: Notify direct supervisor if no respective supervisor
-      sendSupervisorNotification(otRequest.id, user.id, data.respective_supervisor_id).catch((notifError) => {
-        // Don't throw - notification failure should not prevent OT submission
-      });
-
-      return otRequest;
     },
-    onSuccess: (data) => {
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['offline-ot-queue'] });
+      if (result.queued) {
+        toast({
+          title: 'Saved offline',
+          description: 'You are offline. Your OT request is saved on this device and will be submitted when you are back online.',
+        });
+        return;
+      }
+
       queryClient.invalidateQueries({ queryKey: ['ot-requests'] });
+      queryClient.invalidateQueries({ queryKey: ['ot-hours-summary'] });
       toast({
         title: 'Success',
-        description: `OT request ${data.ticket_number} submitted successfully`,
+        description: `OT request ${result.request.ticket_number} submitted successfully`,
       });
     },
     onError: (error: Error) => {
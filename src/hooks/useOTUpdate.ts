@@ -2,6 +2,7 @@ import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { canSubmitOTForDate } from '@/utils/otValidation';
+import { findOverlappingSession, nextDate, previousDate } from '@/lib/otSessions';
 
 interface UpdateOTParams {
   requestId: string;
@@ -13,6 +14,7 @@ interface UpdateOTParams {
     total_hours: number;
     day_type: 'weekday' | 'saturday' | 'sunday' | 'public_holiday';
     reason: string;
+    reason_id?: string | null;
     attachment_urls: string[];
     employee_id: string;
   };
@@ -49,17 +51,18 @@ export function useOTUpdate() {
       }
 
       // Check for overlapping requests (excluding the current one being edited)
-      const { data: overlapping, error: overlapError } = await supabase
+      const { data: nearbyRequests, error: overlapError } = await supabase
         .from('ot_requests')
-        .select('*')
+        .select('id, ot_date, start_time, end_time')
         .eq('employee_id', data.employee_id)
-        .eq('ot_date', data.ot_date)
+        .gte('ot_date', previousDate(data.ot_date))
+        .lte('ot_date', nextDate(data.ot_date))
         .neq('id', requestId)
-        .or(`and(start_time.lte.${data.end_time},end_time.gte.${data.start_time})`);
+        .neq('status', 'rejected');
 
       if (overlapError) throw overlapError;
 
-      if (overlapping && overlapping.length > 0) {
+      if (findOverlappingSession(data, nearbyRequests || [])) {
         throw new Error('This time slot overlaps with another OT request on the same date');
       }
 
@@ -74,6 +77,7 @@ export function useOTUpdate() {
           total_hours: data.total_hours,
           day_type: data.day_type,
           reason: data.reason,
+          reason_id: data.reason_id || null,
           attachment_urls: data.attachment_urls,
         })
         .eq('id', requestId)
@@ -0,0 +1,21 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { PayrollPeriod } from '@/types/otms';
+
+/** A company's payroll periods, newest first */
+export function usePayrollPeriods(companyId: string | null | undefined) {
+  return useQuery({
+    queryKey: ['payroll-periods', companyId],
+    enabled: !!companyId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('payroll_periods')
+        .select('*')
+        .eq('company_id', companyId)
+        .order('period_start', { ascending: false });
+
+      if (error) throw error;
+      return data as PayrollPeriod[];
+    },
+  });
+}
@@ -0,0 +1,136 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { ENABLE_OFFLINE_MODE } from '@/config/features';
+import { buildQueuedDecisions, describeStaleDecisions, OT_DECISION_SYNC_TAG } from '@/lib/offlineApprovals';
+import {
+  listQueuedOTDecisions,
+  queueOTDecisions,
+  removeQueuedOTDecision,
+  syncQueuedOTDecisions,
+  updateQueuedOTDecision,
+} from '@/services/offline-ot-decisions';
+import { requestQueueSync } from '@/services/offline-ot-queue';
+import { OTDecisionAction, OTRequest } from '@/types/otms';
+
+export interface QueueOTDecisionInput {
+  action: OTDecisionAction;
+  /** The requests as last loaded, from the saved approval queue */
+  requests: OTRequest[];
+  remarks?: string;
+  rejectionStage?: string;
+}
+
+/**
+ * Saves a supervisor's decision made offline, to be replayed once online
+ */
+export function useQueueOTDecisions() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ action, requests, remarks, rejectionStage }: QueueOTDecisionInput) => {
+      // Read from local storage, so available offline
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session?.user) throw new Error('User not authenticated');
+
+      const decisions = buildQueuedDecisions(action, requests, {
+        approverId: session.user.id,
+        remarks,
+        rejectionStage,
+      });
+      await queueOTDecisions(decisions);
+      await requestQueueSync(OT_DECISION_SYNC_TAG);
+      return decisions;
+    },
+    onSuccess: (decisions) => {
+      queryClient.invalidateQueries({ queryKey: ['offline-ot-decisions'] });
+      toast({
+        title: 'Saved offline',
+        description: `${decisions.length} decision${decisions.length > 1 ? 's' : ''} will be sent when you are back online`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to save decision: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+}
+
+/**
+ * Replays the approver's queued decisions from the app, telling them about
+ * any the server refused because the request had changed
+ */
+export function useSyncQueuedOTDecisions() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (approverId: string) => syncQueuedOTDecisions(supabase as unknown as SupabaseClient, approverId),
+    onSuccess: (result) => {
+      if (result.stale > 0) {
+        toast({
+          title: 'Decisions not applied',
+          description: describeStaleDecisions(result.staleTickets),
+          variant: 'destructive',
+        });
+      } else if (result.synced > 0) {
+        toast({
+          title: 'Success',
+          description: `${result.synced} offline decision${result.synced > 1 ? 's' : ''} sent`,
+        });
+      }
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['offline-ot-decisions'] });
+      queryClient.invalidateQueries({ queryKey: ['supervisor-ot-approvals'] });
+      queryClient.invalidateQueries({ queryKey: ['ot-requests'] });
+      queryClient.invalidateQueries({ queryKey: ['supervisor-dashboard-metrics'] });
+    },
+  });
+}
+
+/** Decisions made on this device and not yet applied by the server */
+export function useQueuedOTDecisions(approverId?: string) {
+  return useQuery({
+    queryKey: ['offline-ot-decisions', approverId],
+    queryFn: () => listQueuedOTDecisions(approverId!),
+    enabled: ENABLE_OFFLINE_MODE && !!approverId,
+  });
+}
+
+/** Sends a refused decision again, e.g. after a server error */
+export function useRetryQueuedOTDecision() {
+  const syncDecisions = useSyncQueuedOTDecisions();
+
+  return useMutation({
+    mutationFn: async ({ id, approverId }: { id: string; approverId: string }) => {
+      await updateQueuedOTDecision(id, { status: 'pending', error: null });
+      return syncDecisions.mutateAsync(approverId);
+    },
+  });
+}
+
+/** Drops a queued decision from the device, returning its request to the queue */
+export function useDiscardQueuedOTDecision() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => removeQueuedOTDecision(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['offline-ot-decisions'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to discard decision: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+}
@@ -0,0 +1,93 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { ENABLE_OFFLINE_MODE } from '@/config/features';
+import {
+  listQueuedOTSubmissions,
+  removeQueuedOTSubmission,
+  syncQueuedOTSubmissions,
+  updateQueuedOTSubmission,
+} from '@/services/offline-ot-queue';
+
+/**
+ * Replays the employee's queued OT submissions from the app, and refreshes
+ * everything a replay changes
+ */
+export function useSyncQueuedOTSubmissions() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (employeeId: string) => syncQueuedOTSubmissions(supabase as unknown as SupabaseClient, employeeId),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['offline-ot-queue'] });
+      queryClient.invalidateQueries({ queryKey: ['ot-requests'] });
+      queryClient.invalidateQueries({ queryKey: ['ot-hours-summary'] });
+      queryClient.invalidateQueries({ queryKey: ['ot-request-drafts'] });
+    },
+  });
+}
+
+/** OT submissions saved on this device and not yet accepted by the server */
+export function useQueuedOTSubmissions(employeeId?: string) {
+  return useQuery({
+    queryKey: ['offline-ot-queue', employeeId],
+    queryFn: () => listQueuedOTSubmissions(employeeId!),
+    enabled: ENABLE_OFFLINE_MODE && !!employeeId,
+  });
+}
+
+/** Sends a conflicting or refused submission again, e.g. after the employee resolved the clash */
+export function useRetryQueuedOTSubmission() {
+  const { toast } = useToast();
+  const syncQueue = useSyncQueuedOTSubmissions();
+
+  return useMutation({
+    mutationFn: async ({ id, employeeId }: { id: string; employeeId: string }) => {
+      await updateQueuedOTSubmission(id, { status: 'pending', conflict: null, error: null });
+      return syncQueue.mutateAsync(employeeId);
+    },
+    onSuccess: (result) => {
+      toast({
+        title: result.synced > 0 ? 'Success' : 'Not sent',
+        description: result.synced > 0
+          ? 'Queued OT request submitted successfully'
+          : result.pending > 0
+            ? 'Still offline. It will be sent when you are back online.'
+            : 'The OT request still can\'t be submitted. See the details on the request.',
+        variant: result.synced > 0 || result.pending > 0 ? 'default' : 'destructive',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to retry OT request: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+}
+
+/** Drops a queued submission from the device */
+export function useDiscardQueuedOTSubmission() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => removeQueuedOTSubmission(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['offline-ot-queue'] });
+      toast({
+        title: 'Success',
+        description: 'Queued OT request discarded',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to discard OT request: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+}
@@ -0,0 +1,40 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+
+type ResolveOTRequestDraftData =
+  | { id: string; status: 'dismissed' }
+  | { id: string; status: 'submitted'; ot_request_id: string };
+
+/** Marks an OT draft as submitted (linked to its request) or dismissed */
+export function useResolveOTRequestDraft() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...changes }: ResolveOTRequestDraftData) => {
+      const { error } = await supabase
+        .from('ot_request_drafts')
+        .update(changes)
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['ot-request-drafts'] });
+      if (variables.status === 'dismissed') {
+        toast({
+          title: 'Success',
+          description: 'OT draft dismissed',
+        });
+      }
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to update OT draft: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+}
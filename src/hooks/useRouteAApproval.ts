@@ -12,6 +12,8 @@ import { supabase } from '@/integrations/supabase/client';
 import { OTRequest } from '@/types/otms';
 import { toast } from 'sonner';
 import { validateSupervisorApproval, validateHRCertification, validateHRRejection, validateManagementApproval, validateManagementRejection } from '@/services/ot-workflow';
+import { transitionOTRequests } from '@/services/ot-transition';
+import { getActiveDelegatorIds } from '@/services/approval-delegation';
 
 interface UseRouteAApprovalOptions {
   requestIds?: string[];
@@ -61,20 +63,16 @@ export function useRouteAApproval(options?: UseRouteAApprovalOptions) {
         .single();
 
       const request = requestsData.data as OTRequest;
-      const validation = validateSupervisorApproval(request, session.user.id);
+      const delegatorIds = await getActiveDelegatorIds(session.user.id, 'supervisor');
+      const validation = validateSupervisorApproval(request, session.user.id, delegatorIds);
       if (!validation.valid) throw new Error(validation.error);
 
       // Update status
-      const { error } = await supabase
-        .from('ot_requests')
-        .update({
-          status: 'supervisor_confirmed',
-          supervisor_verified_at: new Date().toISOString(),
-          supervisor_remarks: input.remarks,
-        })
-        .in('id', input.requestIds);
-
-      if (error) throw error;
+      await transitionOTRequests({
+        requestIds: input.requestIds,
+        toStatus: 'supervisor_confirmed',
+        remarks: input.remarks,
+      });
 
       return { success: true };
     },
@@ -107,17 +105,11 @@ export function useRouteAApproval(options?: UseRouteAApprovalOptions) {
       }
 
       // Update status
-      const { error } = await supabase
-        .from('ot_requests')
-        .update({
-          status: 'hr_certified',
-          hr_id: session.user.id,
-          hr_approved_at: new Date().toISOString(),
-          hr_remarks: input.remarks,
-        })
-        .in('id', input.requestIds);
-
-      if (error) throw error;
+      await transitionOTRequests({
+        requestIds: input.requestIds,
+        toStatus: 'hr_certified',
+        remarks: input.remarks,
+      });
 
       // Notify management if enabled
       try {
@@ -159,15 +151,11 @@ export function useRouteAApproval(options?: UseRouteAApprovalOptions) {
       }
 
       // Reset to pending_verification for Route A
-      const { error } = await supabase
-        .from('ot_requests')
-        .update({
-          status: 'pending_verification',
-          hr_remarks: input.remarks,
-        })
-        .in('id', input.requestIds);
-
-      if (error) throw error;
+      await transitionOTRequests({
+        requestIds: input.requestIds,
+        toStatus: 'pending_verification',
+        remarks: input.remarks,
+      });
 
       // Notify employee
       try {
@@ -211,16 +199,11 @@ export function useRouteAApproval(options?: UseRouteAApprovalOptions) {
       }
 
       // Update status
-      const { error } = await supabase
-        .from('ot_requests')
-        .update({
-          status: 'management_approved',
-          management_reviewed_at: new Date().toISOString(),
-          management_remarks: input.remarks,
-        })
-        .in('id', input.requestIds);
-
-      if (error) throw error;
+      await transitionOTRequests({
+        requestIds: input.requestIds,
+        toStatus: 'management_approved',
+        remarks: input.remarks,
+      });
 
       // Notify employee of approval
       try {
@@ -264,15 +247,11 @@ export function useRouteAApproval(options?: UseRouteAApprovalOptions) {
       }
 
       // Reset to hr_certified for HR recertification
-      const { error } = await supabase
-        .from('ot_requests')
-        .update({
-          status: 'hr_certified',
-          management_remarks: input.remarks,
-        })
-        .in('id', input.requestIds);
-
-      if (error) throw error;
+      await transitionOTRequests({
+        requestIds: input.requestIds,
+        toStatus: 'hr_certified',
+        remarks: input.remarks,
+      });
 
       // Notify HR for recertification
       try {
@@ -21,6 +21,7 @@ import {
   validateHRCertification,
   validateHRRejection,
 } from '@/services/ot-workflow';
+import { transitionOTRequests } from '@/services/ot-transition';
 
 interface UseRouteBApprovalOptions {
   requestIds?: string[];
@@ -77,16 +78,11 @@ export function useRouteBApproval(options?: UseRouteBApprovalOptions) {
       }
 
       // Update status
-      const { error } = await supabase
-        .from('ot_requests')
-        .update({
-          status: 'respective_supervisor_confirmed',
-          respective_supervisor_confirmed_at: new Date().toISOString(),
-          respective_supervisor_remarks: input.remarks,
-        })
-        .in('id', input.requestIds);
-
-      if (error) throw error;
+      await transitionOTRequests({
+        requestIds: input.requestIds,
+        toStatus: 'respective_supervisor_confirmed',
+        remarks: input.remarks,
+      });
 
       // Notify direct supervisor for verification
       try {
@@ -130,16 +126,11 @@ export function useRouteBApproval(options?: UseRouteBApprovalOptions) {
       }
 
       // Update status to rejected
-      const { error } = await supabase
-        .from('ot_requests')
-        .update({
-          status: 'rejected',
-          respective_supervisor_denied_at: new Date().toISOString(),
-          respective_supervisor_denial_remarks: input.denialRemarks,
-        })
-        .in('id', input.requestIds);
-
-      if (error) throw error;
+      await transitionOTRequests({
+        requestIds: input.requestIds,
+        toStatus: 'rejected',
+        remarks: input.denialRemarks,
+      });
 
       // Notify employee to amend
       try {
@@ -183,16 +174,11 @@ export function useRouteBApproval(options?: UseRouteBApprovalOptions) {
       }
 
       // Update status
-      const { error } = await supabase
-        .from('ot_requests')
-        .update({
-          status: 'supervisor_verified',
-          supervisor_verified_at: new Date().toISOString(),
-          supervisor_remarks: input.remarks,
-        })
-        .in('id', input.requestIds);
-
-      if (error) throw error;
+      await transitionOTRequests({
+        requestIds: input.requestIds,
+        toStatus: 'supervisor_verified',
+        remarks: input.remarks,
+      });
 
       // Notify HR for certification
       try {
@@ -234,17 +220,11 @@ export function useRouteBApproval(options?: UseRouteBApprovalOptions) {
       }
 
       // Update status
-      const { error } = await supabase
-        .from('ot_requests')
-        .update({
-          status: 'hr_certified',
-          hr_id: session.user.id,
-          hr_approved_at: new Date().toISOString(),
-          hr_remarks: input.remarks,
-        })
-        .in('id', input.requestIds);
-
-      if (error) throw error;
+      await transitionOTRequests({
+        requestIds: input.requestIds,
+        toStatus: 'hr_certified',
+        remarks: input.remarks,
+      });
 
       // Notify management
       try {
@@ -290,15 +270,11 @@ export function useRouteBApproval(options?: UseRouteBApprovalOptions) {
       }
 
       // Reset to pending_respective_supervisor_confirmation for Route B
-      const { error } = await supabase
-        .from('ot_requests')
-        .update({
-          status: 'pending_respective_supervisor_confirmation',
-          hr_remarks: input.remarks,
-        })
-        .in('id', input.requestIds);
-
-      if (error) throw error;
+      await transitionOTRequests({
+        requestIds: input.requestIds,
+        toStatus: 'pending_respective_supervisor_confirmation',
+        remarks: input.remarks,
+      });
 
       // Notify employee
       try {
@@ -0,0 +1,55 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+
+export interface SaveOTBudgetInput {
+  /** Set to update an existing budget */
+  id?: string;
+  company_id: string | null;
+  department_id: string | null;
+  month: string; // YYYY-MM-01
+  amount: number;
+  notes?: string | null;
+}
+
+export function useSaveOTBudget() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: SaveOTBudgetInput) => {
+      const payload = {
+        company_id: input.company_id,
+        department_id: input.department_id,
+        month: input.month,
+        amount: input.amount,
+        notes: input.notes ?? null,
+      };
+
+      if (input.id) {
+        const { error } = await supabase.from('ot_budgets').update(payload).eq('id', input.id);
+        if (error) throw error;
+        return;
+      }
+
+      const { data: authData, error: authError } = await supabase.auth.getUser();
+      if (authError || !authData.user) throw authError || new Error('Not authenticated');
+
+      const { error } = await supabase
+        .from('ot_budgets')
+        .insert({ ...payload, created_by: authData.user.id });
+
+      if (error) {
+        if (error.code === '23505') throw new Error('A budget for this month already exists');
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['ot-budget-status'] });
+      toast.success('Budget saved');
+    },
+    onError: (error: unknown) => {
+      const message = error instanceof Error ? error.message : String(error);
+      toast.error(`Failed to save budget: ${message}`);
+    },
+  });
+}
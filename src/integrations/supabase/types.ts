@@ -58,6 +58,259 @@ export type Database = {
           },
         ]
       }
+      approval_chain_steps: {
+        Row: {
+          chain_id: string
+          condition: Json
+          created_at: string
+          id: string
+          role: string
+          skip_rule: string
+        }
+        Insert: {
+          chain_id: string
+          condition?: Json
+          created_at?: string
+          id?: string
+          role: string
+          skip_rule?: string
+        }
+        Update: {
+          chain_id?: string
+          condition?: Json
+          created_at?: string
+          id?: string
+          role?: string
+          skip_rule?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "approval_chain_steps_chain_id_fkey"
+            columns: ["chain_id"]
+            isOneToOne: false
+            referencedRelation: "approval_chains"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      approval_chains: {
+        Row: {
+          company_id: string | null
+          created_at: string
+          department_id: string | null
+          id: string
+          is_active: boolean
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          company_id?: string | null
+          created_at?: string
+          department_id?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          company_id?: string | null
+          created_at?: string
+          department_id?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "approval_chains_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "approval_chains_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      approval_delegations: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          delegate_id: string
+          delegator_id: string
+          ends_on: string
+          id: string
+          reason: string | null
+          revoked_at: string | null
+          role: string
+          starts_on: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          delegate_id: string
+          delegator_id: string
+          ends_on: string
+          id?: string
+          reason?: string | null
+          revoked_at?: string | null
+          role: string
+          starts_on: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          delegate_id?: string
+          delegator_id?: string
+          ends_on?: string
+          id?: string
+          reason?: string | null
+          revoked_at?: string | null
+          role?: string
+          starts_on?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "approval_delegations_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "approval_delegations_delegate_id_fkey"
+            columns: ["delegate_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "approval_delegations_delegator_id_fkey"
+            columns: ["delegator_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      attendance_import_batches: {
+        Row: {
+          company_id: string | null
+          created_at: string
+          draft_count: number
+          duplicate_count: number
+          errors: Json
+          file_name: string
+          format: string
+          id: string
+          imported_by: string | null
+          punch_count: number
+        }
+        Insert: {
+          company_id?: string | null
+          created_at?: string
+          draft_count?: number
+          duplicate_count?: number
+          errors?: Json
+          file_name: string
+          format: string
+          id?: string
+          imported_by?: string | null
+          punch_count?: number
+        }
+        Update: {
+          company_id?: string | null
+          created_at?: string
+          draft_count?: number
+          duplicate_count?: number
+          errors?: Json
+          file_name?: string
+          format?: string
+          id?: string
+          imported_by?: string | null
+          punch_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attendance_import_batches_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_import_batches_imported_by_fkey"
+            columns: ["imported_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      attendance_punches: {
+        Row: {
+          batch_id: string
+          company_id: string | null
+          created_at: string
+          device_id: string | null
+          direction: string | null
+          employee_id: string
+          id: string
+          punched_at: string
+        }
+        Insert: {
+          batch_id: string
+          company_id?: string | null
+          created_at?: string
+          device_id?: string | null
+          direction?: string | null
+          employee_id: string
+          id?: string
+          punched_at: string
+        }
+        Update: {
+          batch_id?: string
+          company_id?: string | null
+          created_at?: string
+          device_id?: string | null
+          direction?: string | null
+          employee_id?: string
+          id?: string
+          punched_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attendance_punches_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "attendance_import_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_punches_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_punches_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       companies: {
         Row: {
           address: string | null
@@ -157,6 +410,7 @@ export type Database = {
       company_profile: {
         Row: {
           address: string
+          company_id: string | null
           created_at: string | null
           id: string
           logo_url: string | null
@@ -167,6 +421,7 @@ export type Database = {
         }
         Insert: {
           address: string
+          company_id?: string | null
           created_at?: string | null
           id?: string
           logo_url?: string | null
@@ -177,6 +432,7 @@ export type Database = {
         }
         Update: {
           address?: string
+          company_id?: string | null
           created_at?: string | null
           id?: string
           logo_url?: string | null
@@ -185,93 +441,977 @@ export type Database = {
           registration_no?: string
           updated_at?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "company_profile_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: true
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cost_centres: {
+        Row: {
+          client_name: string | null
+          code: string
+          company_id: string | null
+          created_at: string
+          id: string
+          is_active: boolean
+          kind: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          client_name?: string | null
+          code: string
+          company_id?: string | null
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          kind?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          client_name?: string | null
+          code?: string
+          company_id?: string | null
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          kind?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cost_centres_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       departments: {
         Row: {
           code: string
+          company_id: string | null
           created_at: string | null
+          head_id: string | null
           id: string
           name: string
         }
         Insert: {
           code: string
+          company_id?: string | null
           created_at?: string | null
+          head_id?: string | null
           id?: string
           name: string
         }
         Update: {
           code?: string
+          company_id?: string | null
           created_at?: string | null
+          head_id?: string | null
           id?: string
           name?: string
         }
         Relationships: []
       }
-      ot_requests: {
+      employee_import_jobs: {
         Row: {
-          attachment_urls: string[]
-          created_at: string | null
-          day_type: Database["public"]["Enums"]["day_type"]
-          eligibility_rule_id: string | null
-          employee_id: string
-          end_time: string
-          formula_id: string | null
-          hr_approved_at: string | null
-          hr_id: string | null
-          hr_remarks: string | null
-          hrp: number | null
+          company_id: string
+          completed_at: string | null
+          created_at: string
+          created_by: string | null
+          failed_count: number
+          file_name: string
           id: string
-          is_resubmission: boolean | null
-          management_remarks: string | null
-          management_reviewed_at: string | null
-          orp: number | null
-          ot_amount: number | null
-          ot_date: string
-          ot_location_state: string | null
-          parent_request_id: string | null
-          reason: string
-          rejection_stage: string | null
-          respective_supervisor_confirmed_at: string | null
-          respective_supervisor_denial_remarks: string | null
-          respective_supervisor_denied_at: string | null
-          respective_supervisor_id: string | null
-          respective_supervisor_remarks: string | null
-          resubmission_count: number | null
-          start_time: string
-          status: Database["public"]["Enums"]["ot_status"]
-          supervisor_confirmation_at: string | null
-          supervisor_confirmation_remarks: string | null
-          supervisor_id: string | null
-          supervisor_remarks: string | null
-          supervisor_verified_at: string | null
-          threshold_violations: Json | null
-          ticket_number: string
-          total_hours: number
-          updated_at: string | null
+          imported_count: number
+          send_invites: boolean
+          status: string
+          total_rows: number
+          updated_at: string
         }
         Insert: {
-          attachment_urls?: string[]
-          created_at?: string | null
-          day_type: Database["public"]["Enums"]["day_type"]
-          eligibility_rule_id?: string | null
-          employee_id: string
-          end_time: string
-          formula_id?: string | null
-          hr_approved_at?: string | null
-          hr_id?: string | null
+          company_id?: string
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          failed_count?: number
+          file_name: string
+          id?: string
+          imported_count?: number
+          send_invites?: boolean
+          status?: string
+          total_rows?: number
+          updated_at?: string
+        }
+        Update: {
+          company_id?: string
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          failed_count?: number
+          file_name?: string
+          id?: string
+          imported_count?: number
+          send_invites?: boolean
+          status?: string
+          total_rows?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "employee_import_jobs_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      employee_import_rows: {
+        Row: {
+          claimed_at: string | null
+          employee_no: string
+          error: string | null
+          id: string
+          invite_sent_at: string | null
+          job_id: string
+          payload: Json
+          position: number
+          processed_at: string | null
+          row_number: number
+          status: string
+          user_id: string | null
+        }
+        Insert: {
+          claimed_at?: string | null
+          employee_no: string
+          error?: string | null
+          id?: string
+          invite_sent_at?: string | null
+          job_id: string
+          payload: Json
+          position: number
+          processed_at?: string | null
+          row_number: number
+          status?: string
+          user_id?: string | null
+        }
+        Update: {
+          claimed_at?: string | null
+          employee_no?: string
+          error?: string | null
+          id?: string
+          invite_sent_at?: string | null
+          job_id?: string
+          payload?: Json
+          position?: number
+          processed_at?: string | null
+          row_number?: number
+          status?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "employee_import_rows_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "employee_import_jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      employee_shift_assignments: {
+        Row: {
+          company_id: string | null
+          created_at: string
+          created_by: string | null
+          cycle_start_date: string
+          effective_from: string
+          effective_to: string | null
+          employee_id: string
+          id: string
+          pattern_id: string
+        }
+        Insert: {
+          company_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          cycle_start_date: string
+          effective_from: string
+          effective_to?: string | null
+          employee_id: string
+          id?: string
+          pattern_id: string
+        }
+        Update: {
+          company_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          cycle_start_date?: string
+          effective_from?: string
+          effective_to?: string | null
+          employee_id?: string
+          id?: string
+          pattern_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "employee_shift_assignments_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "employee_shift_assignments_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "employee_shift_assignments_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "employee_shift_assignments_pattern_id_fkey"
+            columns: ["pattern_id"]
+            isOneToOne: false
+            referencedRelation: "shift_patterns"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      employment_history: {
+        Row: {
+          changes: Json
+          company_id: string | null
+          created_at: string
+          created_by: string | null
+          effective_from: string
+          employee_id: string
+          event_type: string
+          id: string
+          remarks: string | null
+        }
+        Insert: {
+          changes: Json
+          company_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          effective_from: string
+          employee_id: string
+          event_type: string
+          id?: string
+          remarks?: string | null
+        }
+        Update: {
+          changes?: Json
+          company_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          effective_from?: string
+          employee_id?: string
+          event_type?: string
+          id?: string
+          remarks?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "employment_history_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      inventory_access_scans: {
+        Row: {
+          company_id: string
+          employee_id: string | null
+          id: string
+          kiosk_id: string | null
+          result: string
+          scanned_at: string
+          token_id: string | null
+        }
+        Insert: {
+          company_id: string
+          employee_id?: string | null
+          id?: string
+          kiosk_id?: string | null
+          result: string
+          scanned_at?: string
+          token_id?: string | null
+        }
+        Update: {
+          company_id?: string
+          employee_id?: string | null
+          id?: string
+          kiosk_id?: string | null
+          result?: string
+          scanned_at?: string
+          token_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inventory_access_scans_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_access_scans_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_access_scans_kiosk_id_fkey"
+            columns: ["kiosk_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_kiosks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      inventory_kiosks: {
+        Row: {
+          company_id: string
+          created_at: string
+          created_by: string | null
+          id: string
+          is_active: boolean
+          key_hash: string
+          last_seen_at: string | null
+          name: string
+        }
+        Insert: {
+          company_id?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          key_hash: string
+          last_seen_at?: string | null
+          name: string
+        }
+        Update: {
+          company_id?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          key_hash?: string
+          last_seen_at?: string | null
+          name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inventory_kiosks_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ot_approval_slas: {
+        Row: {
+          created_at: string
+          escalate_to: string
+          id: string
+          is_active: boolean
+          reminder_hours: number[]
+          sla_hours: number
+          status: Database["public"]["Enums"]["ot_status"]
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          escalate_to: string
+          id?: string
+          is_active?: boolean
+          reminder_hours?: number[]
+          sla_hours: number
+          status: Database["public"]["Enums"]["ot_status"]
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          escalate_to?: string
+          id?: string
+          is_active?: boolean
+          reminder_hours?: number[]
+          sla_hours?: number
+          status?: Database["public"]["Enums"]["ot_status"]
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      ot_budgets: {
+        Row: {
+          amount: number
+          company_id: string | null
+          created_at: string
+          created_by: string | null
+          department_id: string | null
+          id: string
+          month: string
+          notes: string | null
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          company_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          department_id?: string | null
+          id?: string
+          month: string
+          notes?: string | null
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          company_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          department_id?: string | null
+          id?: string
+          month?: string
+          notes?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ot_budgets_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ot_budgets_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ot_budgets_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ot_cap_exceptions: {
+        Row: {
+          company_id: string | null
+          created_at: string
+          decided_at: string | null
+          decided_by: string | null
+          decision_note: string | null
+          employee_id: string
+          extra_hours: number
+          id: string
+          justification: string
+          month: string
+          requested_by: string
+          status: string
+        }
+        Insert: {
+          company_id?: string | null
+          created_at?: string
+          decided_at?: string | null
+          decided_by?: string | null
+          decision_note?: string | null
+          employee_id: string
+          extra_hours: number
+          id?: string
+          justification: string
+          month: string
+          requested_by: string
+          status?: string
+        }
+        Update: {
+          company_id?: string | null
+          created_at?: string
+          decided_at?: string | null
+          decided_by?: string | null
+          decision_note?: string | null
+          employee_id?: string
+          extra_hours?: number
+          id?: string
+          justification?: string
+          month?: string
+          requested_by?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ot_cap_exceptions_decided_by_fkey"
+            columns: ["decided_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ot_cap_exceptions_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ot_cap_exceptions_requested_by_fkey"
+            columns: ["requested_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ot_payroll_adjustments: {
+        Row: {
+          amount_delta: number
+          created_at: string
+          created_by: string | null
+          employee_id: string
+          hours_delta: number
+          id: string
+          ot_request_id: string
+          reason: string
+          source_period_id: string
+          target_period_id: string
+        }
+        Insert: {
+          amount_delta: number
+          created_at?: string
+          created_by?: string | null
+          employee_id: string
+          hours_delta?: number
+          id?: string
+          ot_request_id: string
+          reason: string
+          source_period_id: string
+          target_period_id: string
+        }
+        Update: {
+          amount_delta?: number
+          created_at?: string
+          created_by?: string | null
+          employee_id?: string
+          hours_delta?: number
+          id?: string
+          ot_request_id?: string
+          reason?: string
+          source_period_id?: string
+          target_period_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ot_payroll_adjustments_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ot_payroll_adjustments_ot_request_id_fkey"
+            columns: ["ot_request_id"]
+            isOneToOne: false
+            referencedRelation: "ot_requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ot_payroll_adjustments_source_period_id_fkey"
+            columns: ["source_period_id"]
+            isOneToOne: false
+            referencedRelation: "payroll_periods"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ot_payroll_adjustments_target_period_id_fkey"
+            columns: ["target_period_id"]
+            isOneToOne: false
+            referencedRelation: "payroll_periods"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ot_rate_formulas: {
+        Row: {
+          base_formula: string
+          conditional_logic: Json | null
+          created_at: string | null
+          created_by: string | null
+          day_type: Database["public"]["Enums"]["day_type"]
+          effective_from: string
+          effective_to: string | null
+          employee_category: string
+          formula_name: string
+          hrp_definition: string | null
+          id: string
+          is_active: boolean | null
+          multiplier: number
+          orp_definition: string | null
+          supersedes_id: string | null
+          updated_at: string | null
+          version: number
+          version_group_id: string
+        }
+        Insert: {
+          base_formula: string
+          conditional_logic?: Json | null
+          created_at?: string | null
+          created_by?: string | null
+          day_type: Database["public"]["Enums"]["day_type"]
+          effective_from: string
+          effective_to?: string | null
+          employee_category?: string
+          formula_name: string
+          hrp_definition?: string | null
+          id?: string
+          is_active?: boolean | null
+          multiplier: number
+          orp_definition?: string | null
+          supersedes_id?: string | null
+          updated_at?: string | null
+          version?: number
+          version_group_id?: string
+        }
+        Update: {
+          base_formula?: string
+          conditional_logic?: Json | null
+          created_at?: string | null
+          created_by?: string | null
+          day_type?: Database["public"]["Enums"]["day_type"]
+          effective_from?: string
+          effective_to?: string | null
+          employee_category?: string
+          formula_name?: string
+          hrp_definition?: string | null
+          id?: string
+          is_active?: boolean | null
+          multiplier?: number
+          orp_definition?: string | null
+          supersedes_id?: string | null
+          updated_at?: string | null
+          version?: number
+          version_group_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ot_rate_formulas_supersedes_id_fkey"
+            columns: ["supersedes_id"]
+            isOneToOne: false
+            referencedRelation: "ot_rate_formulas"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ot_reasons: {
+        Row: {
+          applies_to_department_ids: string[]
+          company_id: string | null
+          counts_toward_limits: boolean
+          created_at: string
+          description: string | null
+          id: string
+          is_active: boolean
+          label: string
+          max_hours: number | null
+          requires_attachment: boolean
+          requires_details: boolean
+          requires_respective_supervisor: boolean
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          applies_to_department_ids?: string[]
+          company_id?: string | null
+          counts_toward_limits?: boolean
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          label: string
+          max_hours?: number | null
+          requires_attachment?: boolean
+          requires_details?: boolean
+          requires_respective_supervisor?: boolean
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          applies_to_department_ids?: string[]
+          company_id?: string | null
+          counts_toward_limits?: boolean
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          label?: string
+          max_hours?: number | null
+          requires_attachment?: boolean
+          requires_details?: boolean
+          requires_respective_supervisor?: boolean
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ot_reasons_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ot_request_drafts: {
+        Row: {
+          batch_id: string | null
+          company_id: string | null
+          created_at: string
+          employee_id: string
+          end_time: string
+          id: string
+          ot_date: string
+          ot_request_id: string | null
+          source: string
+          start_time: string
+          status: string
+          total_hours: number
+          updated_at: string
+        }
+        Insert: {
+          batch_id?: string | null
+          company_id?: string | null
+          created_at?: string
+          employee_id: string
+          end_time: string
+          id?: string
+          ot_date: string
+          ot_request_id?: string | null
+          source?: string
+          start_time: string
+          status?: string
+          total_hours: number
+          updated_at?: string
+        }
+        Update: {
+          batch_id?: string | null
+          company_id?: string | null
+          created_at?: string
+          employee_id?: string
+          end_time?: string
+          id?: string
+          ot_date?: string
+          ot_request_id?: string | null
+          source?: string
+          start_time?: string
+          status?: string
+          total_hours?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ot_request_drafts_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "attendance_import_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ot_request_drafts_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ot_request_drafts_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ot_request_drafts_ot_request_id_fkey"
+            columns: ["ot_request_id"]
+            isOneToOne: false
+            referencedRelation: "ot_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ot_request_events: {
+        Row: {
+          actor_id: string | null
+          actor_role: string
+          changes: Json
+          created_at: string
+          event_type: string
+          from_status: Database["public"]["Enums"]["ot_status"] | null
+          id: string
+          on_behalf_of: string | null
+          remarks: string | null
+          request_id: string
+          to_status: Database["public"]["Enums"]["ot_status"] | null
+        }
+        Insert: {
+          actor_id?: string | null
+          actor_role: string
+          changes?: Json
+          created_at?: string
+          event_type: string
+          from_status?: Database["public"]["Enums"]["ot_status"] | null
+          id?: string
+          on_behalf_of?: string | null
+          remarks?: string | null
+          request_id: string
+          to_status?: Database["public"]["Enums"]["ot_status"] | null
+        }
+        Update: {
+          actor_id?: string | null
+          actor_role?: string
+          changes?: Json
+          created_at?: string
+          event_type?: string
+          from_status?: Database["public"]["Enums"]["ot_status"] | null
+          id?: string
+          on_behalf_of?: string | null
+          remarks?: string | null
+          request_id?: string
+          to_status?: Database["public"]["Enums"]["ot_status"] | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ot_request_events_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ot_request_events_on_behalf_of_fkey"
+            columns: ["on_behalf_of"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ot_request_events_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "ot_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ot_requests: {
+        Row: {
+          approval_steps: string[]
+          attachment_urls: string[]
+          client_submission_id: string | null
+          company_id: string | null
+          created_at: string | null
+          day_type: Database["public"]["Enums"]["day_type"]
+          department_head_approved_at: string | null
+          department_head_id: string | null
+          department_head_remarks: string | null
+          eligibility_rule_id: string | null
+          employee_id: string
+          end_time: string
+          formula_id: string | null
+          hr_approved_at: string | null
+          hr_id: string | null
+          hr_remarks: string | null
+          hrp: number | null
+          id: string
+          is_resubmission: boolean | null
+          management_id: string | null
+          management_remarks: string | null
+          management_reviewed_at: string | null
+          orp: number | null
+          ot_amount: number | null
+          ot_date: string
+          ot_location_state: string | null
+          overnight_day_type: Database["public"]["Enums"]["day_type"] | null
+          overnight_hours: number
+          parent_request_id: string | null
+          reason: string
+          reason_id: string | null
+          rejection_stage: string | null
+          respective_supervisor_confirmed_at: string | null
+          respective_supervisor_denial_remarks: string | null
+          respective_supervisor_denied_at: string | null
+          respective_supervisor_id: string | null
+          respective_supervisor_remarks: string | null
+          resubmission_count: number | null
+          start_time: string
+          status: Database["public"]["Enums"]["ot_status"]
+          status_changed_at: string
+          supervisor_confirmation_at: string | null
+          supervisor_confirmation_remarks: string | null
+          supervisor_id: string | null
+          supervisor_remarks: string | null
+          supervisor_verified_at: string | null
+          threshold_violations: Json | null
+          ticket_number: string
+          total_hours: number
+          updated_at: string | null
+        }
+        Insert: {
+          approval_steps?: string[]
+          attachment_urls?: string[]
+          client_submission_id?: string | null
+          company_id?: string | null
+          created_at?: string | null
+          day_type: Database["public"]["Enums"]["day_type"]
+          department_head_approved_at?: string | null
+          department_head_id?: string | null
+          department_head_remarks?: string | null
+          eligibility_rule_id?: string | null
+          employee_id: string
+          end_time: string
+          formula_id?: string | null
+          hr_approved_at?: string | null
+          hr_id?: string | null
           hr_remarks?: string | null
           hrp?: number | null
           id?: string
           is_resubmission?: boolean | null
+          management_id?: string | null
           management_remarks?: string | null
           management_reviewed_at?: string | null
           orp?: number | null
           ot_amount?: number | null
           ot_date: string
           ot_location_state?: string | null
+          overnight_day_type?: Database["public"]["Enums"]["day_type"] | null
+          overnight_hours?: number
           parent_request_id?: string | null
           reason: string
+          reason_id?: string | null
           rejection_stage?: string | null
           respective_supervisor_confirmed_at?: string | null
           respective_supervisor_denial_remarks?: string | null
@@ -281,6 +1421,7 @@ export type Database = {
           resubmission_count?: number | null
           start_time: string
           status: Database["public"]["Enums"]["ot_status"]
+          status_changed_at?: string
           supervisor_confirmation_at?: string | null
           supervisor_confirmation_remarks?: string | null
           supervisor_id?: string | null
@@ -292,9 +1433,15 @@ export type Database = {
           updated_at?: string | null
         }
         Update: {
+          approval_steps?: string[]
           attachment_urls?: string[]
+          client_submission_id?: string | null
+          company_id?: string | null
           created_at?: string | null
           day_type?: Database["public"]["Enums"]["day_type"]
+          department_head_approved_at?: string | null
+          department_head_id?: string | null
+          department_head_remarks?: string | null
           eligibility_rule_id?: string | null
           employee_id?: string
           end_time?: string
@@ -305,14 +1452,18 @@ export type Database = {
           hrp?: number | null
           id?: string
           is_resubmission?: boolean | null
+          management_id?: string | null
           management_remarks?: string | null
           management_reviewed_at?: string | null
           orp?: number | null
           ot_amount?: number | null
           ot_date?: string
           ot_location_state?: string | null
+          overnight_day_type?: Database["public"]["Enums"]["day_type"] | null
+          overnight_hours?: number
           parent_request_id?: string | null
           reason?: string
+          reason_id?: string | null
           rejection_stage?: string | null
           respective_supervisor_confirmed_at?: string | null
           respective_supervisor_denial_remarks?: string | null
@@ -322,6 +1473,7 @@ export type Database = {
           resubmission_count?: number | null
           start_time?: string
           status?: Database["public"]["Enums"]["ot_status"]
+          status_changed_at?: string
           supervisor_confirmation_at?: string | null
           supervisor_confirmation_remarks?: string | null
           supervisor_id?: string | null
@@ -351,27 +1503,414 @@ export type Database = {
             foreignKeyName: "ot_requests_parent_request_id_fkey"
             columns: ["parent_request_id"]
             isOneToOne: false
-            referencedRelation: "ot_requests"
+            referencedRelation: "ot_requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ot_requests_respective_supervisor_id_fkey"
+            columns: ["respective_supervisor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ot_requests_supervisor_id_fkey"
+            columns: ["supervisor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ot_session_cost_allocations: {
+        Row: {
+          cost_centre_id: string
+          created_at: string
+          hours: number
+          id: string
+          ot_request_id: string
+        }
+        Insert: {
+          cost_centre_id: string
+          created_at?: string
+          hours: number
+          id?: string
+          ot_request_id: string
+        }
+        Update: {
+          cost_centre_id?: string
+          created_at?: string
+          hours?: number
+          id?: string
+          ot_request_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ot_session_cost_allocations_ot_request_id_fkey"
+            columns: ["ot_request_id"]
+            isOneToOne: false
+            referencedRelation: "ot_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ot_settings: {
+        Row: {
+          active_calendar_id: string | null
+          grace_period_enabled: boolean | null
+          id: string
+          max_daily_hours: number | null
+          ot_submission_cutoff_day: number | null
+          rounding_rule: string | null
+          salary_threshold: number | null
+          statutory_monthly_cap_hours: number
+          submission_limit_days: number | null
+          updated_at: string | null
+          updated_by: string | null
+        }
+        Insert: {
+          active_calendar_id?: string | null
+          grace_period_enabled?: boolean | null
+          id?: string
+          max_daily_hours?: number | null
+          ot_submission_cutoff_day?: number | null
+          rounding_rule?: string | null
+          salary_threshold?: number | null
+          statutory_monthly_cap_hours?: number
+          submission_limit_days?: number | null
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Update: {
+          active_calendar_id?: string | null
+          grace_period_enabled?: boolean | null
+          id?: string
+          max_daily_hours?: number | null
+          ot_submission_cutoff_day?: number | null
+          rounding_rule?: string | null
+          salary_threshold?: number | null
+          statutory_monthly_cap_hours?: number
+          submission_limit_days?: number | null
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      payroll_export_batch_adjustments: {
+        Row: {
+          adjustment_id: string
+          amount: number
+          batch_id: string
+          hours: number
+          voided: boolean
+        }
+        Insert: {
+          adjustment_id: string
+          amount: number
+          batch_id: string
+          hours: number
+          voided?: boolean
+        }
+        Update: {
+          adjustment_id?: string
+          amount?: number
+          batch_id?: string
+          hours?: number
+          voided?: boolean
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payroll_export_batch_adjustments_adjustment_id_fkey"
+            columns: ["adjustment_id"]
+            isOneToOne: false
+            referencedRelation: "ot_payroll_adjustments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payroll_export_batch_adjustments_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "payroll_export_batches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payroll_export_batch_items: {
+        Row: {
+          amount: number
+          batch_id: string
+          hours: number
+          ot_request_id: string
+          voided: boolean
+        }
+        Insert: {
+          amount: number
+          batch_id: string
+          hours: number
+          ot_request_id: string
+          voided?: boolean
+        }
+        Update: {
+          amount?: number
+          batch_id?: string
+          hours?: number
+          ot_request_id?: string
+          voided?: boolean
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payroll_export_batch_items_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "payroll_export_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payroll_export_batch_items_ot_request_id_fkey"
+            columns: ["ot_request_id"]
+            isOneToOne: false
+            referencedRelation: "ot_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payroll_export_batches: {
+        Row: {
+          adjustment_count: number
+          batch_no: string
+          company_id: string | null
+          download_count: number
+          exported_at: string
+          exported_by: string | null
+          id: string
+          last_downloaded_at: string
+          layout_id: string
+          period_end: string
+          period_start: string
+          request_count: number
+          status: string
+          total_amount: number
+          total_hours: number
+          void_reason: string | null
+          voided_at: string | null
+          voided_by: string | null
+        }
+        Insert: {
+          adjustment_count?: number
+          batch_no: string
+          company_id?: string | null
+          download_count?: number
+          exported_at?: string
+          exported_by?: string | null
+          id?: string
+          last_downloaded_at?: string
+          layout_id: string
+          period_end: string
+          period_start: string
+          request_count?: number
+          status?: string
+          total_amount?: number
+          total_hours?: number
+          void_reason?: string | null
+          voided_at?: string | null
+          voided_by?: string | null
+        }
+        Update: {
+          adjustment_count?: number
+          batch_no?: string
+          company_id?: string | null
+          download_count?: number
+          exported_at?: string
+          exported_by?: string | null
+          id?: string
+          last_downloaded_at?: string
+          layout_id?: string
+          period_end?: string
+          period_start?: string
+          request_count?: number
+          status?: string
+          total_amount?: number
+          total_hours?: number
+          void_reason?: string | null
+          voided_at?: string | null
+          voided_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payroll_export_batches_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payroll_export_batches_layout_id_fkey"
+            columns: ["layout_id"]
+            isOneToOne: false
+            referencedRelation: "payroll_export_layouts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payroll_export_layouts: {
+        Row: {
+          columns: Json
+          company_id: string | null
+          created_at: string
+          created_by: string | null
+          date_format: string
+          delimiter: string
+          format: string
+          group_by: string
+          id: string
+          include_header: boolean
+          is_active: boolean
+          name: string
+          pay_codes: Json
+          updated_at: string
+        }
+        Insert: {
+          columns?: Json
+          company_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          date_format?: string
+          delimiter?: string
+          format: string
+          group_by?: string
+          id?: string
+          include_header?: boolean
+          is_active?: boolean
+          name: string
+          pay_codes?: Json
+          updated_at?: string
+        }
+        Update: {
+          columns?: Json
+          company_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          date_format?: string
+          delimiter?: string
+          format?: string
+          group_by?: string
+          id?: string
+          include_header?: boolean
+          is_active?: boolean
+          name?: string
+          pay_codes?: Json
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payroll_export_layouts_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
             referencedColumns: ["id"]
           },
+        ]
+      }
+      payroll_periods: {
+        Row: {
+          closed_at: string | null
+          closed_by: string | null
+          company_id: string
+          created_at: string
+          created_by: string | null
+          id: string
+          locked_at: string | null
+          locked_by: string | null
+          period_end: string
+          period_start: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          closed_at?: string | null
+          closed_by?: string | null
+          company_id: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          locked_at?: string | null
+          locked_by?: string | null
+          period_end: string
+          period_start: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          closed_at?: string | null
+          closed_by?: string | null
+          company_id?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          locked_at?: string | null
+          locked_by?: string | null
+          period_end?: string
+          period_start?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
           {
-            foreignKeyName: "ot_requests_respective_supervisor_id_fkey"
-            columns: ["respective_supervisor_id"]
+            foreignKeyName: "payroll_periods_company_id_fkey"
+            columns: ["company_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "companies"
             referencedColumns: ["id"]
           },
+        ]
+      }
+      positions: {
+        Row: {
+          company_id: string | null
+          created_at: string | null
+          created_by: string | null
+          department_id: string
+          description: string | null
+          id: string
+          is_active: boolean | null
+          title: string
+          updated_at: string | null
+        }
+        Insert: {
+          company_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          department_id: string
+          description?: string | null
+          id?: string
+          is_active?: boolean | null
+          title: string
+          updated_at?: string | null
+        }
+        Update: {
+          company_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          department_id?: string
+          description?: string | null
+          id?: string
+          is_active?: boolean | null
+          title?: string
+          updated_at?: string | null
+        }
+        Relationships: [
           {
-            foreignKeyName: "ot_requests_supervisor_id_fkey"
-            columns: ["supervisor_id"]
+            foreignKeyName: "positions_department_id_fkey"
+            columns: ["department_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "departments"
             referencedColumns: ["id"]
           },
         ]
       }
       profiles: {
         Row: {
+          active_company_id: string | null
           basic_salary: number
           ot_base: number | null
           company_id: string | null
@@ -403,6 +1942,7 @@ export type Database = {
           work_location: string | null
         }
         Insert: {
+          active_company_id?: string | null
           basic_salary: number
           ot_base?: number | null
           company_id?: string | null
@@ -434,6 +1974,7 @@ export type Database = {
           work_location?: string | null
         }
         Update: {
+          active_company_id?: string | null
           basic_salary?: number
           ot_base?: number | null
           company_id?: string | null
@@ -479,6 +2020,13 @@ export type Database = {
             referencedRelation: "departments"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "profiles_position_id_fkey"
+            columns: ["position_id"]
+            isOneToOne: false
+            referencedRelation: "positions"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "profiles_supervisor_id_fkey"
             columns: ["supervisor_id"]
@@ -488,6 +2036,159 @@ export type Database = {
           },
         ]
       }
+      shift_pattern_days: {
+        Row: {
+          day_index: number
+          day_kind: string
+          pattern_id: string
+          shift_template_id: string | null
+        }
+        Insert: {
+          day_index: number
+          day_kind: string
+          pattern_id: string
+          shift_template_id?: string | null
+        }
+        Update: {
+          day_index?: number
+          day_kind?: string
+          pattern_id?: string
+          shift_template_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shift_pattern_days_pattern_id_fkey"
+            columns: ["pattern_id"]
+            isOneToOne: false
+            referencedRelation: "shift_patterns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "shift_pattern_days_shift_template_id_fkey"
+            columns: ["shift_template_id"]
+            isOneToOne: false
+            referencedRelation: "shift_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      shift_patterns: {
+        Row: {
+          company_id: string | null
+          created_at: string
+          cycle_length: number
+          description: string | null
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          company_id?: string | null
+          created_at?: string
+          cycle_length: number
+          description?: string | null
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          company_id?: string | null
+          created_at?: string
+          cycle_length?: number
+          description?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shift_patterns_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      shift_templates: {
+        Row: {
+          code: string
+          company_id: string | null
+          created_at: string
+          end_time: string
+          id: string
+          is_active: boolean
+          name: string
+          normal_hours: number
+          start_time: string
+          updated_at: string
+        }
+        Insert: {
+          code: string
+          company_id?: string | null
+          created_at?: string
+          end_time: string
+          id?: string
+          is_active?: boolean
+          name: string
+          normal_hours?: number
+          start_time: string
+          updated_at?: string
+        }
+        Update: {
+          code?: string
+          company_id?: string | null
+          created_at?: string
+          end_time?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          normal_hours?: number
+          start_time?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shift_templates_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_company_roles: {
+        Row: {
+          company_id: string
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          company_id: string
+          created_at?: string
+          id?: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          company_id?: string
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_company_roles_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
 
       // Allow access to tables not yet included in this generated typing.
       // This keeps the Supabase client usable even when the schema has moved on.
@@ -497,6 +2198,152 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      active_company_id: {
+        Args: never
+        Returns: string
+      }
+      assign_shift_pattern: {
+        Args: {
+          p_cycle_start_date?: string
+          p_effective_from: string
+          p_employee_id: string
+          p_pattern_id: string
+        }
+        Returns: string
+      }
+      claim_due_ot_sla_alerts: {
+        Args: never
+        Returns: {
+          employee_name: string
+          escalate_to: string
+          hours_waiting: number
+          kind: string
+          recipient_ids: string[]
+          request_id: string
+          status: Database["public"]["Enums"]["ot_status"]
+          threshold_hours: number
+          ticket_number: string
+        }[]
+      }
+      claim_employee_import_rows: {
+        Args: { p_job_id: string; p_limit: number }
+        Returns: Database["public"]["Tables"]["employee_import_rows"]["Row"][]
+      }
+      consume_inventory_access_token: {
+        Args: {
+          p_kiosk_key: string
+          p_token: string
+        }
+        Returns: {
+          employee_id: string
+          kiosk_id: string
+          kiosk_name: string
+          result: string
+          scan_id: string
+        }[]
+      }
+      create_ot_payroll_adjustment: {
+        Args: {
+          p_amount_delta: number
+          p_hours_delta: number
+          p_ot_request_id: string
+          p_reason: string
+        }
+        Returns: string
+      }
+      create_payroll_export_batch: {
+        Args: {
+          p_company_id?: string
+          p_layout_id: string
+          p_period_end: string
+          p_period_start: string
+        }
+        Returns: string
+      }
+      decide_ot_cap_exception: {
+        Args: { p_approve: boolean; p_exception_id: string; p_note?: string }
+        Returns: Database["public"]["Tables"]["ot_cap_exceptions"]["Row"]
+      }
+      decide_ot_requests: {
+        Args: {
+          p_decisions: Json
+        }
+        Returns: {
+          employee_id: string
+          error: string
+          from_status: Database["public"]["Enums"]["ot_status"]
+          ok: boolean
+          request_id: string
+          to_status: Database["public"]["Enums"]["ot_status"]
+        }[]
+      }
+      get_delegate_candidates: {
+        Args: never
+        Returns: {
+          employee_id: string
+          full_name: string
+          id: string
+        }[]
+      }
+      get_employee_roster: {
+        Args: { p_employee_id: string; p_from: string; p_to: string }
+        Returns: {
+          day_kind: string
+          normal_hours: number
+          roster_date: string
+          shift_end: string
+          shift_name: string
+          shift_start: string
+          shift_template_id: string
+        }[]
+      }
+      get_my_companies: {
+        Args: never
+        Returns: {
+          code: string
+          id: string
+          is_active: boolean
+          name: string
+          roles: Database["public"]["Enums"]["app_role"][]
+        }[]
+      }
+      get_my_roles: {
+        Args: never
+        Returns: Database["public"]["Enums"]["app_role"][]
+      }
+      get_ot_budget_status: {
+        Args: { p_from: string; p_to: string }
+        Returns: {
+          approved_amount: number
+          budget_amount: number
+          budget_id: string
+          committed_amount: number
+          company_id: string
+          department_id: string
+          month: string
+          notes: string
+          pending_amount: number
+          scope_name: string
+        }[]
+      }
+      get_ot_hours_summary: {
+        Args: { p_employee_id: string; p_month: string }
+        Returns: {
+          exception_hours: number
+          month: string
+          monthly_limit_hours: number
+          monthly_limit_mode: string
+          statutory_cap_hours: number
+          used_hours: number
+        }[]
+      }
+      get_supervisor_reassignment_impact: {
+        Args: { p_employee_ids: string[] }
+        Returns: {
+          employee_id: string
+          pending_verification_count: number
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -504,6 +2351,160 @@ export type Database = {
         }
         Returns: boolean
       }
+      issue_inventory_access_token: {
+        Args: never
+        Returns: {
+          expires_at: string
+          token: string
+        }[]
+      }
+      preview_ot_formula_version_impact: {
+        Args: {
+          p_base_formula: string
+          p_day_type: Database["public"]["Enums"]["day_type"]
+          p_employee_category: string
+          p_from: string
+          p_multiplier: number
+          p_to?: string
+        }
+        Returns: {
+          current_amount: number
+          delta: number
+          employee_id: string
+          employee_name: string
+          failed_days: number
+          month: string
+          ot_days: number
+          proposed_amount: number
+          total_hours: number
+        }[]
+      }
+      publish_ot_rate_formula_version: {
+        Args: {
+          p_base_formula: string
+          p_effective_from: string
+          p_formula_id: string
+          p_formula_name: string
+          p_hrp_definition: string
+          p_is_active?: boolean
+          p_multiplier: number
+          p_orp_definition: string
+        }
+        Returns: string
+      }
+      reassign_supervisor: {
+        Args: {
+          p_employee_ids: string[]
+          p_move_pending_requests?: boolean
+          p_supervisor_id: string
+        }
+        Returns: {
+          moved_request_count: number
+          reassigned_count: number
+        }[]
+      }
+      record_employment_change: {
+        Args: {
+          p_changes: Json
+          p_effective_from: string
+          p_employee_id: string
+          p_event_type: string
+          p_remarks?: string
+        }
+        Returns: {
+          history_id: string
+          recalculated_count: number
+        }[]
+      }
+      record_payroll_export_download: {
+        Args: { p_batch_id: string }
+        Returns: undefined
+      }
+      refresh_employee_import_job: {
+        Args: {
+          p_job_id: string
+        }
+        Returns: Database["public"]["Tables"]["employee_import_jobs"]["Row"]
+      }
+      register_inventory_kiosk: {
+        Args: {
+          p_name: string
+        }
+        Returns: {
+          kiosk_id: string
+          kiosk_key: string
+        }[]
+      }
+      request_ot_cap_exception: {
+        Args: {
+          p_employee_id: string
+          p_extra_hours: number
+          p_justification: string
+          p_month: string
+        }
+        Returns: Database["public"]["Tables"]["ot_cap_exceptions"]["Row"]
+      }
+      resolve_approval_notification_recipients: {
+        Args: {
+          p_company_id?: string
+          p_role: string
+          p_user_ids: string[]
+        }
+        Returns: {
+          on_behalf_of: string
+          recipient_id: string
+        }[]
+      }
+      set_active_company: {
+        Args: { p_company_id: string }
+        Returns: undefined
+      }
+      set_company_roles: {
+        Args: {
+          p_company_id: string
+          p_roles: Database["public"]["Enums"]["app_role"][]
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      set_ot_cost_allocations: {
+        Args: { p_allocations: Json; p_request_id: string }
+        Returns: Database["public"]["Tables"]["ot_session_cost_allocations"]["Row"][]
+      }
+      transition_ot_request: {
+        Args: {
+          p_rejection_stage?: string
+          p_remarks?: string
+          p_request_ids: string[]
+          p_to_status: Database["public"]["Enums"]["ot_status"]
+        }
+        Returns: {
+          actor: string
+          from_status: Database["public"]["Enums"]["ot_status"]
+          request_id: string
+          to_status: Database["public"]["Enums"]["ot_status"]
+        }[]
+      }
+      transition_ot_request_if_unchanged: {
+        Args: {
+          p_expected_status: Database["public"]["Enums"]["ot_status"]
+          p_expected_updated_at: string
+          p_rejection_stage?: string
+          p_remarks?: string
+          p_request_id: string
+          p_to_status: Database["public"]["Enums"]["ot_status"]
+        }
+        Returns: {
+          actor: string
+          from_status: Database["public"]["Enums"]["ot_status"]
+          request_id: string
+          to_status: Database["public"]["Enums"]["ot_status"]
+        }[]
+      }
+      void_payroll_export_batch: {
+        Args: { p_batch_id: string; p_reason: string }
+        Returns: undefined
+      }
     }
     Enums: {
       app_role:
@@ -521,6 +2522,7 @@ export type Database = {
         | "respective_supervisor_confirmed"
         | "pending_supervisor_verification"
         | "supervisor_verified"
+        | "department_head_approved"
         | "hr_certified"
         | "management_approved"
         | "rejected"
@@ -545,6 +2547,7 @@ export const Constants = {
         "respective_supervisor_confirmed",
         "pending_supervisor_verification",
         "supervisor_verified",
+        "department_head_approved",
         "hr_certified",
         "management_approved",
         "rejected",
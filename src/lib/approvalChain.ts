@@ -0,0 +1,135 @@
+import {
+  APPROVAL_STEP_ORDER,
+  ApprovalChain,
+  ApprovalChainStep,
+  ApprovalStepCondition,
+  ApprovalStepRole,
+  ApprovalStepSkipRule,
+  DayType,
+} from '@/types/otms';
+import { formatCurrency, getDayTypeLabel } from '@/lib/otCalculations';
+
+/**
+ * Client mirror of the chain resolution in Postgres
+ * (resolve_ot_approval_steps / ot_approval_condition_matches). The database
+ * result stored on ot_requests.approval_steps is authoritative; this is used
+ * for previews in HR settings.
+ */
+
+/** Steps used when no approval chain matches a request */
+export const DEFAULT_APPROVAL_STEPS: ApprovalStepRole[] = ['hr', 'management'];
+
+export const APPROVAL_STEP_LABELS: Record<ApprovalStepRole, string> = {
+  department_head: 'Department Head',
+  hr: 'HR Certification',
+  management: 'Management Approval',
+};
+
+export const SKIP_RULE_LABELS: Record<ApprovalStepSkipRule, string> = {
+  never: 'Always required',
+  when_condition_met: 'Skip when condition matches',
+  when_condition_not_met: 'Only when condition matches',
+};
+
+export interface ApprovalChainRequestInput {
+  total_hours: number;
+  ot_amount: number | null;
+  day_type: DayType;
+  department_id: string | null;
+  /** False when the department has no head, or the employee is the head */
+  has_department_head?: boolean;
+}
+
+export function approvalConditionMatches(
+  condition: ApprovalStepCondition,
+  request: ApprovalChainRequestInput
+): boolean {
+  const amount = request.ot_amount ?? 0;
+
+  if (condition.min_hours != null && request.total_hours < condition.min_hours) return false;
+  if (condition.max_hours != null && request.total_hours > condition.max_hours) return false;
+  if (condition.min_amount != null && amount < condition.min_amount) return false;
+  if (condition.max_amount != null && amount > condition.max_amount) return false;
+  if (condition.day_types?.length && !condition.day_types.includes(request.day_type)) return false;
+  if (condition.department_ids?.length && !condition.department_ids.includes(request.department_id ?? '')) {
+    return false;
+  }
+
+  return true;
+}
+
+function isStepRequired(step: Pick<ApprovalChainStep, 'condition' | 'skip_rule'>, request: ApprovalChainRequestInput) {
+  switch (step.skip_rule) {
+    case 'when_condition_met':
+      return !approvalConditionMatches(step.condition || {}, request);
+    case 'when_condition_not_met':
+      return approvalConditionMatches(step.condition || {}, request);
+    default:
+      return true;
+  }
+}
+
+/**
+ * Picks the most specific active chain: company + department, then department, then company, then global
+ */
+export function selectApprovalChain(
+  chains: ApprovalChain[],
+  companyId: string | null,
+  departmentId: string | null
+): ApprovalChain | null {
+  const candidates = chains.filter(
+    (chain) =>
+      chain.is_active &&
+      (!chain.company_id || chain.company_id === companyId) &&
+      (!chain.department_id || chain.department_id === departmentId)
+  );
+
+  const specificity = (chain: ApprovalChain) => (chain.department_id ? 2 : 0) + (chain.company_id ? 1 : 0);
+
+  return (
+    candidates.sort(
+      (a, b) => specificity(b) - specificity(a) || a.created_at.localeCompare(b.created_at)
+    )[0] || null
+  );
+}
+
+/**
+ * Steps a request passes after the supervisor stage, in order
+ */
+export function resolveApprovalSteps(
+  chain: Pick<ApprovalChain, 'approval_chain_steps'> | null,
+  request: ApprovalChainRequestInput
+): ApprovalStepRole[] {
+  if (!chain) return [...DEFAULT_APPROVAL_STEPS];
+
+  const roles = new Set(
+    chain.approval_chain_steps.filter((step) => isStepRequired(step, request)).map((step) => step.role)
+  );
+  // HR certification is never skipped
+  roles.add('hr');
+  // Nobody could take the department head step
+  if (request.has_department_head === false) roles.delete('department_head');
+
+  return APPROVAL_STEP_ORDER.filter((role) => roles.has(role));
+}
+
+/**
+ * Short human-readable form of a step condition, e.g. "≥ 4h · Public Holiday"
+ */
+export function describeApprovalCondition(
+  condition: ApprovalStepCondition,
+  departmentNames: Record<string, string> = {}
+): string {
+  const parts: string[] = [];
+
+  if (condition.min_hours != null) parts.push(`≥ ${condition.min_hours}h`);
+  if (condition.max_hours != null) parts.push(`≤ ${condition.max_hours}h`);
+  if (condition.min_amount != null) parts.push(`≥ ${formatCurrency(condition.min_amount)}`);
+  if (condition.max_amount != null) parts.push(`≤ ${formatCurrency(condition.max_amount)}`);
+  if (condition.day_types?.length) parts.push(condition.day_types.map(getDayTypeLabel).join(', '));
+  if (condition.department_ids?.length) {
+    parts.push(condition.department_ids.map((id) => departmentNames[id] || 'Unknown department').join(', '));
+  }
+
+  return parts.length > 0 ? parts.join(' · ') : 'Any request';
+}
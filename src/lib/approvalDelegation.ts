@@ -0,0 +1,40 @@
+import { format } from 'date-fns';
+import { ApprovalDelegation, DelegationRole } from '@/types/otms';
+
+/**
+ * Client mirror of the delegation checks in Postgres (active_delegator_ids).
+ * The engine decides who may act; these helpers keep approval screens in line.
+ */
+
+export const DELEGATION_ROLE_LABELS: Record<DelegationRole, string> = {
+  supervisor: 'Supervisor',
+  hr: 'HR',
+  management: 'Management',
+};
+
+/**
+ * Local calendar date in the YYYY-MM-DD form used by starts_on / ends_on
+ */
+export function toDelegationDate(date: Date = new Date()): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+export function isDelegationActive(
+  delegation: Pick<ApprovalDelegation, 'starts_on' | 'ends_on' | 'revoked_at'>,
+  on: string = toDelegationDate()
+): boolean {
+  return !delegation.revoked_at && delegation.starts_on <= on && on <= delegation.ends_on;
+}
+
+/**
+ * Delegators covered for the given role (every role when omitted)
+ */
+export function getDelegatorIds(delegations: ApprovalDelegation[], role?: DelegationRole): string[] {
+  return [
+    ...new Set(
+      delegations
+        .filter((d) => (!role || d.role === role) && isDelegationActive(d))
+        .map((d) => d.delegator_id)
+    ),
+  ];
+}
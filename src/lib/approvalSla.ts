@@ -0,0 +1,84 @@
+import { OTApprovalSla, OTRequest, OTStatus, SlaEscalationTarget } from '@/types/otms';
+
+/**
+ * Client mirror of the SLA checks in Postgres (claim_due_ot_sla_alerts).
+ * The hourly job sends the reminders and escalations; these helpers drive the
+ * overdue badge and the HR settings form.
+ */
+
+export const SLA_ESCALATION_LABELS: Record<SlaEscalationTarget, string> = {
+  supervisor_manager: "Approver's supervisor",
+  hr: 'HR',
+  management: 'Management',
+  admin: 'Admin',
+};
+
+/** Who is waited on in each stage an SLA can be set for */
+export const SLA_STAGE_LABELS: Partial<Record<OTStatus, string>> = {
+  pending_verification: 'Supervisor verification',
+  pending_respective_supervisor_confirmation: 'Respective supervisor confirmation',
+  pending_supervisor_verification: 'Supervisor verification (after confirmation)',
+  supervisor_confirmed: 'HR certification',
+  supervisor_verified: 'HR certification (verified)',
+  respective_supervisor_confirmed: 'HR certification (respective supervisor confirmed)',
+  department_head_approved: 'HR certification (after department head)',
+  hr_certified: 'Management approval',
+};
+
+/** Stages whose approver has a supervisor of their own to escalate to */
+export const SUPERVISOR_SLA_STAGES: OTStatus[] = [
+  'pending_verification',
+  'pending_respective_supervisor_confirmation',
+  'pending_supervisor_verification',
+];
+
+export interface SlaState {
+  hoursWaiting: number;
+  slaHours: number;
+  overdue: boolean;
+}
+
+type SlaRequest = Pick<OTRequest, 'status' | 'status_changed_at' | 'management_remarks'>;
+
+/**
+ * How long the request has waited in its current stage against that stage's
+ * SLA; null when the stage has no active SLA
+ */
+export function getSlaState(request: SlaRequest, slas: OTApprovalSla[], now: Date = new Date()): SlaState | null {
+  if (!request.status_changed_at) return null;
+  // Sent back by management: HR acts next, not the management queue
+  if (request.status === 'hr_certified' && request.management_remarks) return null;
+
+  const sla = slas.find((s) => s.status === request.status && s.is_active);
+  if (!sla) return null;
+
+  const hoursWaiting = Math.max(0, (now.getTime() - new Date(request.status_changed_at).getTime()) / 36e5);
+
+  return {
+    hoursWaiting,
+    slaHours: sla.sla_hours,
+    overdue: hoursWaiting >= sla.sla_hours,
+  };
+}
+
+/**
+ * Parses the reminder field ("24, 48") into sorted whole hours.
+ * Returns null when any entry is not a positive whole number below the SLA.
+ */
+export function parseReminderHours(value: string, slaHours: number): number[] | null {
+  const parts = value.split(',').map((part) => part.trim()).filter(Boolean);
+  const hours = parts.map(Number);
+
+  if (hours.some((h) => !Number.isInteger(h) || h <= 0 || h >= slaHours)) return null;
+
+  return [...new Set(hours)].sort((a, b) => a - b);
+}
+
+/**
+ * "26 hours" under two days, otherwise "3 days"
+ */
+export function formatWaitingTime(hours: number): string {
+  const wholeHours = Math.floor(hours);
+  if (wholeHours < 48) return `${wholeHours} hour${wholeHours === 1 ? '' : 's'}`;
+  return `${Math.floor(wholeHours / 24)} days`;
+}
@@ -0,0 +1,389 @@
+import { calculateTotalHours } from '@/lib/otCalculations';
+import { OTSessionTimes, getSessionInterval, toDayNumber, toMinutes } from '@/lib/otSessions';
+import { detectDelimiter, normalizeHeader, splitCsvLine } from '@/lib/spreadsheet';
+import { BUSINESS_HOURS } from '@/utils/otValidation';
+import { AttendancePunchDirection } from '@/types/otms';
+
+/**
+ * Attendance punches from biometric terminal exports. Terminals disagree on
+ * column names, delimiters and date formats, so headers are matched against
+ * known aliases. Punch times are the terminal's local wall-clock time.
+ */
+
+export type AttendanceFileFormat = 'csv' | 'json';
+
+export interface ParsedPunch {
+  /** Row in the file, counting the CSV header as row 1 */
+  row: number;
+  /** The employee number on the terminal (profiles.employee_id) */
+  employee_no: string;
+  /** YYYY-MM-DDTHH:MM:SS local time */
+  punched_at: string;
+  direction: AttendancePunchDirection | null;
+  device_id: string | null;
+}
+
+export interface PunchRowError {
+  row: number;
+  error: string;
+}
+
+export interface PunchParseResult {
+  punches: ParsedPunch[];
+  errors: PunchRowError[];
+}
+
+/** A stretch of time between a clock-in and its clock-out */
+export interface PunchInterval {
+  start: string;
+  end: string;
+}
+
+/** An OT session found in the punches */
+export interface AttendanceOTSession extends OTSessionTimes {
+  total_hours: number;
+}
+
+export interface ShiftWindow {
+  start: string;
+  end: string;
+}
+
+/** Outside the scheduled shift on work days, everything punched is OT */
+export const DEFAULT_SHIFT: ShiftWindow = { start: BUSINESS_HOURS.START, end: BUSINESS_HOURS.END };
+
+/** Shorter stretches beyond the shift are not worth a draft */
+export const MIN_DRAFT_MINUTES = 30;
+
+/** An in and out further apart than this are treated as a missed punch */
+export const MAX_PUNCH_PAIR_HOURS = 16;
+
+/** Claimed minutes without punches beyond this are flagged to approvers */
+export const PUNCH_DISCREPANCY_TOLERANCE_MINUTES = 15;
+
+/** Repeat scans within this many minutes are the same punch */
+const DOUBLE_PUNCH_MINUTES = 2;
+
+const HEADER_ALIASES = {
+  employee_no: [
+    'employeeid', 'employeeno', 'empid', 'empno', 'staffid', 'staffno', 'acno', 'enrollno',
+    'enrollnumber', 'userid', 'pin', 'badgeno', 'badge', 'personnelid',
+  ],
+  punched_at: ['datetime', 'punchtime', 'punchedat', 'checktime', 'timestamp', 'logtime', 'clocktime'],
+  date: ['date', 'punchdate', 'logdate'],
+  time: ['time'],
+  direction: ['direction', 'state', 'status', 'checktype', 'inout', 'punchtype', 'punchstate', 'type'],
+  device_id: ['device', 'deviceid', 'devicesn', 'sn', 'terminal', 'terminalid', 'machine', 'machineno'],
+} as const;
+
+type PunchField = keyof typeof HEADER_ALIASES;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/** Finds which column holds each field; the first matching alias wins */
+function mapColumns(headers: string[]): Partial<Record<PunchField, number>> {
+  const normalized = headers.map(normalizeHeader);
+  const columns: Partial<Record<PunchField, number>> = {};
+
+  (Object.keys(HEADER_ALIASES) as PunchField[]).forEach((field) => {
+    for (const alias of HEADER_ALIASES[field]) {
+      const index = normalized.indexOf(alias);
+      if (index !== -1) {
+        columns[field] = index;
+        return;
+      }
+    }
+  });
+
+  return columns;
+}
+
+/**
+ * Parses a terminal timestamp to YYYY-MM-DDTHH:MM:SS. Accepts year-first dates
+ * and day-first (D/M/YYYY) dates, 24-hour or AM/PM times, and ignores any UTC
+ * offset since terminals record local time.
+ */
+export function parsePunchTimestamp(value: string): string | null {
+  const trimmed = value.trim();
+  const yearFirst = trimmed.match(
+    /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})[ T]+(\d{1,2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?\s*(AM|PM)?\s*(?:Z|[+-]\d{2}:?\d{2})?$/i
+  );
+  const dayFirst = trimmed.match(
+    /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})[ T]+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(AM|PM)?$/i
+  );
+  const parts = yearFirst ?? dayFirst;
+  if (!parts) return null;
+
+  const [year, month, day] = yearFirst
+    ? [Number(parts[1]), Number(parts[2]), Number(parts[3])]
+    : [Number(parts[3]), Number(parts[2]), Number(parts[1])];
+  let hours = Number(parts[4]);
+  const minutes = Number(parts[5]);
+  const seconds = Number(parts[6] ?? 0);
+  const meridiem = parts[7]?.toUpperCase();
+
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (meridiem === 'PM' ? 12 : 0);
+  }
+  if (hours > 23 || minutes > 59 || seconds > 59) return null;
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+
+  return `${year}-${pad(month)}-${pad(day)}T${pad(hours)}:${pad(minutes)}:${pad(seconds)}`;
+}
+
+/**
+ * Reads the in/out marker. ZKTeco-style terminals use 0 for check-in and 1
+ * for check-out; others write words such as "Check In" or "Break Out".
+ */
+export function parsePunchDirection(value: string | undefined): AttendancePunchDirection | null {
+  const normalized = normalizeHeader(value ?? '');
+  if (normalized === '0' || normalized === 'i') return 'in';
+  if (normalized === '1' || normalized === 'o') return 'out';
+  if (normalized.endsWith('out')) return 'out';
+  if (normalized.endsWith('in')) return 'in';
+  return null;
+}
+
+/** Turns one row of cells into a punch, or the reason it cannot be imported */
+function toPunch(
+  row: number,
+  cell: (field: PunchField) => string,
+  columns: Partial<Record<PunchField, number>>
+): ParsedPunch | PunchRowError {
+  const employeeNo = cell('employee_no');
+  if (!employeeNo) return { row, error: 'Missing employee number' };
+
+  const raw =
+    columns.punched_at !== undefined
+      ? cell('punched_at')
+      : columns.date !== undefined
+        ? `${cell('date')} ${cell('time')}`
+        : cell('time');
+  const punchedAt = parsePunchTimestamp(raw);
+  if (!punchedAt) return { row, error: `Unrecognised punch time "${raw.trim()}"` };
+
+  return {
+    row,
+    employee_no: employeeNo,
+    punched_at: punchedAt,
+    direction: parsePunchDirection(cell('direction')),
+    device_id: cell('device_id') || null,
+  };
+}
+
+function missingColumnsError(columns: Partial<Record<PunchField, number>>): string | null {
+  if (columns.employee_no === undefined) return 'No employee number column found';
+  if (columns.punched_at === undefined && columns.time === undefined) return 'No punch time column found';
+  return null;
+}
+
+function collect(results: Array<ParsedPunch | PunchRowError>): PunchParseResult {
+  const punches: ParsedPunch[] = [];
+  const errors: PunchRowError[] = [];
+  const seen = new Set<string>();
+
+  results.forEach((result) => {
+    if ('error' in result) {
+      errors.push(result);
+      return;
+    }
+    const key = `${result.employee_no}|${result.punched_at}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    punches.push(result);
+  });
+
+  return { punches, errors };
+}
+
+function parseCsv(content: string): PunchParseResult {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const headerIndex = lines.findIndex((line) => line.trim() !== '');
+  if (headerIndex === -1) return { punches: [], errors: [{ row: 1, error: 'The file is empty' }] };
+
+  const delimiter = detectDelimiter(lines[headerIndex]);
+  const columns = mapColumns(splitCsvLine(lines[headerIndex], delimiter));
+  const missing = missingColumnsError(columns);
+  if (missing) return { punches: [], errors: [{ row: headerIndex + 1, error: missing }] };
+
+  const results: Array<ParsedPunch | PunchRowError> = [];
+  for (let i = headerIndex + 1; i < lines.length; i++) {
+    if (lines[i].trim() === '') continue;
+    const cells = splitCsvLine(lines[i], delimiter);
+    results.push(
+      toPunch(i + 1, (field) => (columns[field] !== undefined ? cells[columns[field]] ?? '' : ''), columns)
+    );
+  }
+  return collect(results);
+}
+
+function parseJson(content: string): PunchParseResult {
+  let json: unknown;
+  try {
+    json = JSON.parse(content);
+  } catch {
+    return { punches: [], errors: [{ row: 1, error: 'The file is not valid JSON' }] };
+  }
+
+  const container = json as { punches?: unknown; data?: unknown; records?: unknown };
+  const records = Array.isArray(json) ? json : container?.punches ?? container?.data ?? container?.records;
+  if (!Array.isArray(records)) {
+    return { punches: [], errors: [{ row: 1, error: 'Expected an array of punches' }] };
+  }
+
+  const results = records.map((record: Record<string, unknown>, index) => {
+    const keys = Object.keys(record ?? {});
+    const columns = mapColumns(keys);
+    const missing = missingColumnsError(columns);
+    if (missing) return { row: index + 1, error: missing };
+
+    const cell = (field: PunchField) => {
+      const value = columns[field] !== undefined ? record[keys[columns[field]]] : undefined;
+      return value === undefined || value === null ? '' : String(value).trim();
+    };
+    return toPunch(index + 1, cell, columns);
+  });
+  return collect(results);
+}
+
+/** Parses a terminal export. Repeated punches within the file are kept once. */
+export function parsePunchFile(content: string, format: AttendanceFileFormat): PunchParseResult {
+  return format === 'json' ? parseJson(content) : parseCsv(content);
+}
+
+/** Minutes since 1970-01-01 00:00 local time */
+const punchMinutes = (punchedAt: string) =>
+  toDayNumber(punchedAt.slice(0, 10)) * 1440 + toMinutes(punchedAt.slice(11, 16));
+
+const fromPunchMinutes = (minutes: number) => {
+  const date = new Date(Math.floor(minutes / 1440) * 86_400_000).toISOString().slice(0, 10);
+  const time = minutes % 1440;
+  return { date, time: `${pad(Math.floor(time / 60))}:${pad(time % 60)}` };
+};
+
+/**
+ * Pairs one employee's punches into worked intervals. Punches without a
+ * direction alternate in/out. A clock-in with no clock-out within
+ * MAX_PUNCH_PAIR_HOURS, or a clock-out with no clock-in, is dropped.
+ */
+export function pairPunches(
+  punches: Array<{ punched_at: string; direction: AttendancePunchDirection | null }>
+): PunchInterval[] {
+  const sorted = [...punches].sort((a, b) => a.punched_at.localeCompare(b.punched_at));
+  const intervals: PunchInterval[] = [];
+  let open: (typeof sorted)[number] | null = null;
+  let last: number | null = null;
+
+  for (const punch of sorted) {
+    const minutes = punchMinutes(punch.punched_at);
+    if (last !== null && minutes - last < DOUBLE_PUNCH_MINUTES) continue;
+    last = minutes;
+
+    const isIn = punch.direction === 'in' || (punch.direction === null && open === null);
+    if (isIn) {
+      open = punch;
+      continue;
+    }
+
+    if (open && minutes - punchMinutes(open.punched_at) <= MAX_PUNCH_PAIR_HOURS * 60) {
+      intervals.push({ start: open.punched_at, end: punch.punched_at });
+      open = null;
+    } else {
+      // A missed clock-out: an unmarked punch starts the next interval
+      open = punch.direction === null ? punch : null;
+    }
+  }
+
+  return intervals;
+}
+
+/** Weekdays that are not holidays follow the scheduled shift */
+export function isScheduledWorkDay(date: string, holidayDates: Set<string>): boolean {
+  const dayOfWeek = new Date(toDayNumber(date) * 86_400_000).getUTCDay();
+  return dayOfWeek !== 0 && dayOfWeek !== 6 && !holidayDates.has(date);
+}
+
+/** The calendar schedule for employees without a roster */
+export function getCalendarShift(holidayDates: Set<string>): (date: string) => ShiftWindow | null {
+  return (date) => (isScheduledWorkDay(date, holidayDates) ? DEFAULT_SHIFT : null);
+}
+
+/**
+ * Time punched outside the scheduled shift, as OT sessions. getShift gives
+ * the shift a date starts, or null on days off, where the whole interval
+ * counts. A shift ending at or before its start runs into the next day. A
+ * stretch that runs past midnight stays one overnight session dated the day
+ * it started.
+ */
+export function computeOvertimeSessions(
+  intervals: PunchInterval[],
+  getShift: (date: string) => ShiftWindow | null,
+  minimumMinutes: number = MIN_DRAFT_MINUTES
+): AttendanceOTSession[] {
+  const sessions: AttendanceOTSession[] = [];
+
+  intervals.forEach((interval) => {
+    const start = punchMinutes(interval.start);
+    const end = punchMinutes(interval.end);
+    let pieces: Array<[number, number]> = [[start, end]];
+
+    // Start a day early for a shift from the night before
+    for (let day = Math.floor(start / 1440) - 1; day <= Math.floor(end / 1440); day++) {
+      const shift = getShift(fromPunchMinutes(day * 1440).date);
+      if (!shift) continue;
+      const shiftStart = day * 1440 + toMinutes(shift.start);
+      let shiftEnd = day * 1440 + toMinutes(shift.end);
+      if (shiftEnd <= shiftStart) shiftEnd += 1440;
+      pieces = pieces.flatMap(([from, to]): Array<[number, number]> => {
+        if (to <= shiftStart || from >= shiftEnd) return [[from, to]];
+        const remaining: Array<[number, number]> = [];
+        if (from < shiftStart) remaining.push([from, shiftStart]);
+        if (to > shiftEnd) remaining.push([shiftEnd, to]);
+        return remaining;
+      });
+    }
+
+    pieces.forEach(([from, to]) => {
+      if (to - from < minimumMinutes || to - from >= 1440) return;
+      const startAt = fromPunchMinutes(from);
+      const endTime = fromPunchMinutes(to).time;
+      sessions.push({
+        ot_date: startAt.date,
+        start_time: startAt.time,
+        end_time: endTime,
+        total_hours: calculateTotalHours(startAt.time, endTime),
+      });
+    });
+  });
+
+  return sessions;
+}
+
+/** Minutes of a claimed session not covered by any punched interval */
+export function getUnpunchedMinutes(session: OTSessionTimes, intervals: PunchInterval[]): number {
+  const claimed = getSessionInterval(session);
+  const covered = intervals
+    .map((interval) => [
+      Math.max(claimed.start, punchMinutes(interval.start)),
+      Math.min(claimed.end, punchMinutes(interval.end)),
+    ])
+    .filter(([from, to]) => to > from)
+    .sort((a, b) => a[0] - b[0]);
+
+  let coveredMinutes = 0;
+  let reached = claimed.start;
+  covered.forEach(([from, to]) => {
+    const effectiveFrom = Math.max(from, reached);
+    if (to > effectiveFrom) {
+      coveredMinutes += to - effectiveFrom;
+      reached = to;
+    }
+  });
+
+  return claimed.end - claimed.start - coveredMinutes;
+}
@@ -0,0 +1,69 @@
+import { BulkOTDecision, BulkOTDecisionResult, GroupedOTRequest } from '@/types/otms';
+
+/**
+ * Bulk OT decisions. Approvers decide whole rows of the approval queue (an
+ * employee's sessions on a date); every session is sent as its own decision
+ * and succeeds or fails on its own. Employees get one notification covering
+ * all of their decided requests.
+ */
+
+export interface DecisionNotification {
+  requestId: string;
+  notificationType: 'approved' | 'rejected';
+}
+
+export interface BulkDecisionCounts {
+  approved: number;
+  rejected: number;
+  failed: number;
+}
+
+/** One decision per session of each queue row */
+export function expandRowDecisions(
+  rows: Pick<GroupedOTRequest, 'id' | 'request_ids'>[],
+  decisions: Record<string, Omit<BulkOTDecision, 'request_id'>>
+): BulkOTDecision[] {
+  return rows.flatMap((row) => {
+    const decision = decisions[row.id];
+    if (!decision) return [];
+    const requestIds = row.request_ids?.length ? row.request_ids : [row.id];
+    return requestIds.map((request_id) => ({ request_id, ...decision }));
+  });
+}
+
+/** Applied decisions by employee, for one notification each */
+export function groupDecisionNotifications(results: BulkOTDecisionResult[]): Map<string, DecisionNotification[]> {
+  const byEmployee = new Map<string, DecisionNotification[]>();
+  results.forEach((result) => {
+    if (!result.ok || !result.employee_id) return;
+    const notifications = byEmployee.get(result.employee_id) || [];
+    notifications.push({
+      requestId: result.request_id,
+      notificationType: result.decision === 'approve' ? 'approved' : 'rejected',
+    });
+    byEmployee.set(result.employee_id, notifications);
+  });
+  return byEmployee;
+}
+
+export function countBulkDecisions(results: BulkOTDecisionResult[]): BulkDecisionCounts {
+  return results.reduce(
+    (counts, result) => {
+      if (!result.ok) counts.failed += 1;
+      else if (result.decision === 'approve') counts.approved += 1;
+      else counts.rejected += 1;
+      return counts;
+    },
+    { approved: 0, rejected: 0, failed: 0 }
+  );
+}
+
+/** e.g. "5 approved, 1 rejected, 2 failed" */
+export function describeBulkDecisions(counts: BulkDecisionCounts): string {
+  const parts = [
+    counts.approved > 0 && `${counts.approved} approved`,
+    counts.rejected > 0 && `${counts.rejected} rejected`,
+    counts.failed > 0 && `${counts.failed} failed`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : 'No requests decided';
+}
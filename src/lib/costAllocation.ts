@@ -0,0 +1,118 @@
+import { CostCentreKind, OTCostAllocation } from '@/types/otms';
+
+/**
+ * Charging OT to cost centres, projects and work orders. A session may be
+ * split across several codes by hours; its hours and amount are shared in
+ * proportion to the hours allocated. Mirrors set_ot_cost_allocations in
+ * Postgres.
+ */
+
+export const COST_CENTRE_KIND_LABELS: Record<CostCentreKind, string> = {
+  cost_centre: 'Cost centre',
+  project: 'Project',
+  work_order: 'Work order',
+};
+
+/** What reports show for sessions charged to no code */
+export const UNALLOCATED_COST_CENTRE = { code: '', name: 'Unallocated' };
+
+export interface CostAllocationInput {
+  cost_centre_id: string;
+  hours: number;
+}
+
+/** A session's hours on one code, as carried through reports */
+export interface CostShare {
+  code: string;
+  name: string;
+  hours: number;
+}
+
+export interface CostCentreTotal {
+  code: string;
+  name: string;
+  hours: number;
+  amount: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/** Why allocations can't be saved for a session, or null if they can */
+export function validateCostAllocations(allocations: CostAllocationInput[], totalHours: number): string | null {
+  if (allocations.some((allocation) => !allocation.cost_centre_id)) {
+    return 'Select a cost centre for every split';
+  }
+  if (new Set(allocations.map((allocation) => allocation.cost_centre_id)).size !== allocations.length) {
+    return 'Each cost centre can only be used once';
+  }
+  if (allocations.some((allocation) => !(allocation.hours > 0))) {
+    return 'Every split needs a positive number of hours';
+  }
+  const allocated = allocations.reduce((sum, allocation) => sum + allocation.hours, 0);
+  if (allocations.length > 0 && Math.abs(allocated - totalHours) > 0.01) {
+    return `Split hours add up to ${round2(allocated)} but the session is ${round2(totalHours)} hours`;
+  }
+  return null;
+}
+
+/** Allocations as loaded with their cost centres */
+export function toCostShares(allocations: OTCostAllocation[] | null | undefined): CostShare[] {
+  return (allocations || []).map((allocation) => ({
+    code: allocation.cost_centres?.code || '',
+    name: allocation.cost_centres?.name || '',
+    hours: Number(allocation.hours),
+  }));
+}
+
+/**
+ * A session's hours and amount divided between its codes. Amounts are
+ * rounded to cents, with the rounding left on the last code so the parts
+ * add up to the whole.
+ */
+export function splitByCostShares(hours: number, amount: number, shares: CostShare[]): CostCentreTotal[] {
+  const allocated = shares.reduce((sum, share) => sum + share.hours, 0);
+  if (shares.length === 0 || allocated <= 0) {
+    return [{ ...UNALLOCATED_COST_CENTRE, hours, amount }];
+  }
+
+  let hoursLeft = hours;
+  let amountLeft = amount;
+  return shares.map((share, index) => {
+    if (index === shares.length - 1) {
+      return { code: share.code, name: share.name, hours: round2(hoursLeft), amount: round2(amountLeft) };
+    }
+    const part = {
+      code: share.code,
+      name: share.name,
+      hours: round2((hours * share.hours) / allocated),
+      amount: round2((amount * share.hours) / allocated),
+    };
+    hoursLeft -= part.hours;
+    amountLeft -= part.amount;
+    return part;
+  });
+}
+
+/** Hours and amount per code across sessions, largest amount first */
+export function totalByCostCentre(
+  rows: Array<{ hours: number; amount: number; cost_allocations?: CostShare[] }>
+): CostCentreTotal[] {
+  const totals = new Map<string, CostCentreTotal>();
+  for (const row of rows) {
+    for (const part of splitByCostShares(row.hours, row.amount, row.cost_allocations || [])) {
+      const total = totals.get(part.code);
+      if (total) {
+        total.hours = round2(total.hours + part.hours);
+        total.amount = round2(total.amount + part.amount);
+      } else {
+        totals.set(part.code, { ...part });
+      }
+    }
+  }
+  return Array.from(totals.values()).sort((a, b) => b.amount - a.amount);
+}
+
+/** e.g. "PRJ-101 (3 hrs), WO-22 (1.5 hrs)" */
+export function formatCostShares(shares: CostShare[]): string {
+  return shares.map((share) => `${share.code} (${round2(share.hours)} hrs)`).join(', ');
+}
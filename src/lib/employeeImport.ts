@@ -0,0 +1,357 @@
+import { excelSerialToDate, normalizeHeader, SpreadsheetTable } from '@/lib/spreadsheet';
+import { AppRole, EmployeeImportPayload } from '@/types/otms';
+
+/**
+ * Bulk onboarding from an HR spreadsheet. Columns are mapped to profile
+ * fields (guessed from the headers, adjustable in the wizard), then every
+ * row is checked against the company's employees, departments, positions
+ * and locations before anything is created. Supervisors may be existing
+ * employees or rows further up the same file; rows are ordered so a
+ * supervisor is always imported before their reports.
+ */
+
+export type EmployeeImportField =
+  | 'employee_id'
+  | 'full_name'
+  | 'email'
+  | 'ic_no'
+  | 'phone_no'
+  | 'department'
+  | 'position'
+  | 'work_location'
+  | 'supervisor'
+  | 'basic_salary'
+  | 'employment_type'
+  | 'joining_date'
+  | 'designation'
+  | 'role'
+  | 'epf_no'
+  | 'socso_no'
+  | 'income_tax_no'
+  | 'is_ot_eligible';
+
+export interface EmployeeImportFieldDefinition {
+  field: EmployeeImportField;
+  label: string;
+  required: boolean;
+  aliases: string[];
+}
+
+export const EMPLOYEE_IMPORT_FIELDS: EmployeeImportFieldDefinition[] = [
+  { field: 'employee_id', label: 'Employee No', required: true, aliases: ['employeeid', 'employeeno', 'empid', 'empno', 'staffid', 'staffno', 'employeenumber'] },
+  { field: 'full_name', label: 'Full Name', required: true, aliases: ['fullname', 'name', 'employeename', 'staffname'] },
+  { field: 'email', label: 'Email', required: false, aliases: ['email', 'emailaddress', 'workemail', 'officeemail'] },
+  { field: 'ic_no', label: 'IC No', required: false, aliases: ['icno', 'ic', 'nric', 'mykad', 'icnumber', 'passportno'] },
+  { field: 'phone_no', label: 'Phone', required: false, aliases: ['phoneno', 'phone', 'mobile', 'mobileno', 'contactno', 'handphone'] },
+  { field: 'department', label: 'Department', required: true, aliases: ['department', 'dept', 'departmentcode', 'departmentname', 'deptcode'] },
+  { field: 'position', label: 'Position', required: true, aliases: ['position', 'positiontitle', 'jobtitle', 'title'] },
+  { field: 'work_location', label: 'Work Location', required: true, aliases: ['worklocation', 'location', 'site', 'branch', 'office'] },
+  { field: 'supervisor', label: 'Reporting To', required: false, aliases: ['supervisor', 'supervisorid', 'supervisorno', 'reportingto', 'reportsto', 'managerid', 'managerno'] },
+  { field: 'basic_salary', label: 'Basic Salary', required: true, aliases: ['basicsalary', 'salary', 'basicpay', 'basic'] },
+  { field: 'employment_type', label: 'Employment Type', required: true, aliases: ['employmenttype', 'contracttype', 'employmentstatus'] },
+  { field: 'joining_date', label: 'Joining Date', required: true, aliases: ['joiningdate', 'joindate', 'datejoined', 'startdate', 'hiredate'] },
+  { field: 'designation', label: 'Designation', required: false, aliases: ['designation', 'grade'] },
+  { field: 'role', label: 'Role', required: false, aliases: ['role', 'systemrole', 'accessrole'] },
+  { field: 'epf_no', label: 'EPF No', required: false, aliases: ['epfno', 'epf', 'kwspno'] },
+  { field: 'socso_no', label: 'SOCSO No', required: false, aliases: ['socsono', 'socso', 'perkesono'] },
+  { field: 'income_tax_no', label: 'Income Tax No', required: false, aliases: ['incometaxno', 'taxno', 'lhdnno', 'tin'] },
+  { field: 'is_ot_eligible', label: 'OT Eligible', required: false, aliases: ['oteligible', 'isoteligible', 'eligibleforot'] },
+];
+
+export const EMPLOYMENT_TYPES = ['Permanent', 'Contract', 'Internship'];
+
+/** Roles an import may grant; admin is never granted in bulk */
+const IMPORTABLE_ROLES: Array<Exclude<AppRole, 'admin'>> = ['employee', 'supervisor', 'hr', 'management'];
+
+/** Roles whose holders may be named as someone's supervisor */
+const SUPERVISING_ROLES: AppRole[] = ['supervisor', 'hr', 'management', 'admin'];
+
+export type EmployeeImportMapping = Partial<Record<EmployeeImportField, number>>;
+
+/** What the rows are checked against, all from the active company */
+export interface EmployeeImportReference {
+  employees: Array<{ id: string; employee_id: string; email: string | null; roles?: AppRole[] }>;
+  departments: Array<{ id: string; code: string; name: string }>;
+  positions: Array<{ id: string; department_id: string; title: string }>;
+  locations: Array<{ id: string; location_name: string; state_code: string | null }>;
+}
+
+export interface EmployeeImportPreviewRow {
+  /** Row in the uploaded file */
+  row: number;
+  employee_no: string;
+  full_name: string;
+  errors: string[];
+  warnings: string[];
+  /** Set when the row has no errors */
+  payload: EmployeeImportPayload | null;
+}
+
+export interface EmployeeImportPreview {
+  /** Valid rows first, in import order, then the rows with errors */
+  rows: EmployeeImportPreviewRow[];
+  validCount: number;
+  errorCount: number;
+}
+
+/** Finds which column holds each field; the first matching alias wins */
+export function guessEmployeeColumnMapping(headers: string[]): EmployeeImportMapping {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: EmployeeImportMapping = {};
+  const taken = new Set<number>();
+
+  EMPLOYEE_IMPORT_FIELDS.forEach(({ field, aliases }) => {
+    for (const alias of aliases) {
+      const index = normalized.indexOf(alias);
+      if (index !== -1 && !taken.has(index)) {
+        mapping[field] = index;
+        taken.add(index);
+        return;
+      }
+    }
+  });
+
+  return mapping;
+}
+
+/** Required fields without a column */
+export function getUnmappedRequiredFields(mapping: EmployeeImportMapping): EmployeeImportFieldDefinition[] {
+  return EMPLOYEE_IMPORT_FIELDS.filter((definition) => definition.required && mapping[definition.field] === undefined);
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const sameText = (a: string | null | undefined, b: string) => (a ?? '').trim().toLowerCase() === b.trim().toLowerCase();
+
+/** YYYY-MM-DD from an ISO date, a day-first date or an Excel serial number */
+export function parseImportDate(value: string): string | null {
+  const text = value.trim();
+  let year: number, month: number, day: number;
+
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  const dayFirst = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (dayFirst) {
+    [day, month, year] = [Number(dayFirst[1]), Number(dayFirst[2]), Number(dayFirst[3])];
+  } else if (/^\d{5}(\.\d+)?$/.test(text)) {
+    return excelSerialToDate(Number(text));
+  } else {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+}
+
+/** "RM 3,500.00" -> 3500 */
+export function parseImportAmount(value: string): number | null {
+  const cleaned = value.replace(/rm/i, '').replace(/[,\s]/g, '');
+  if (cleaned === '' || !/^\d+(\.\d+)?$/.test(cleaned)) return null;
+  return Number(cleaned);
+}
+
+function parseYesNo(value: string): boolean | null {
+  const text = value.trim().toLowerCase();
+  if (text === '') return true;
+  if (['yes', 'y', 'true', '1'].includes(text)) return true;
+  if (['no', 'n', 'false', '0'].includes(text)) return false;
+  return null;
+}
+
+/**
+ * Checks every row and builds the profiles to import. Duplicates are caught
+ * against existing employees and within the file; a row whose supervisor is
+ * in the file fails with that supervisor's row.
+ */
+export function validateEmployeeImport(
+  table: SpreadsheetTable,
+  mapping: EmployeeImportMapping,
+  reference: EmployeeImportReference
+): EmployeeImportPreview {
+  const cellOf = (cells: string[], field: EmployeeImportField) =>
+    mapping[field] !== undefined ? (cells[mapping[field]!] ?? '').trim() : '';
+
+  const existingByNo = new Map(reference.employees.map((employee) => [employee.employee_id.toLowerCase(), employee]));
+  const existingById = new Map(reference.employees.map((employee) => [employee.id, employee]));
+  const existingEmails = new Map(
+    reference.employees
+      .filter((employee) => employee.email && !employee.email.endsWith('@internal.company'))
+      .map((employee) => [employee.email!.toLowerCase(), employee])
+  );
+
+  const firstRowByNo = new Map<string, number>();
+  const firstRowByEmail = new Map<string, number>();
+  table.rows.forEach(({ row, cells }) => {
+    const employeeNo = cellOf(cells, 'employee_id').toLowerCase();
+    const email = cellOf(cells, 'email').toLowerCase();
+    if (employeeNo && !firstRowByNo.has(employeeNo)) firstRowByNo.set(employeeNo, row);
+    if (email && !firstRowByEmail.has(email)) firstRowByEmail.set(email, row);
+  });
+
+  const rows: EmployeeImportPreviewRow[] = table.rows.map(({ row, cells }) => {
+    const cell = (field: EmployeeImportField) => cellOf(cells, field);
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    const employeeNo = cell('employee_id');
+    const fullName = cell('full_name');
+    if (!employeeNo) errors.push('Employee No is missing');
+    if (!fullName) errors.push('Full name is missing');
+
+    if (employeeNo) {
+      const existing = existingByNo.get(employeeNo.toLowerCase());
+      const firstRow = firstRowByNo.get(employeeNo.toLowerCase());
+      if (existing) errors.push(`Employee No ${employeeNo} already exists`);
+      else if (firstRow !== row) errors.push(`Employee No ${employeeNo} is repeated from row ${firstRow}`);
+    }
+
+    const email = cell('email');
+    if (!email) {
+      warnings.push('No email: signs in with a placeholder login and gets no invitation');
+    } else if (!EMAIL_PATTERN.test(email)) {
+      errors.push(`"${email}" is not a valid email`);
+    } else if (existingEmails.has(email.toLowerCase())) {
+      errors.push(`${email} is already used by Employee No ${existingEmails.get(email.toLowerCase())!.employee_id}`);
+    } else if (firstRowByEmail.get(email.toLowerCase()) !== row) {
+      errors.push(`${email} is repeated from row ${firstRowByEmail.get(email.toLowerCase())}`);
+    }
+
+    const departmentText = cell('department');
+    const department = departmentText
+      ? reference.departments.find((d) => sameText(d.code, departmentText) || sameText(d.name, departmentText))
+      : undefined;
+    if (!departmentText) errors.push('Department is missing');
+    else if (!department) errors.push(`Unknown department "${departmentText}"`);
+
+    const positionText = cell('position');
+    const position =
+      positionText && department
+        ? reference.positions.find((p) => p.department_id === department.id && sameText(p.title, positionText))
+        : undefined;
+    if (!positionText) errors.push('Position is missing');
+    else if (department && !position) errors.push(`Unknown position "${positionText}" in ${department.name}`);
+
+    const locationText = cell('work_location');
+    const location = locationText
+      ? reference.locations.find((l) => sameText(l.location_name, locationText) || l.id === locationText)
+      : undefined;
+    if (!locationText) errors.push('Work location is missing');
+    else if (!location) errors.push(`Unknown location "${locationText}"`);
+
+    const roleText = cell('role').toLowerCase() || 'employee';
+    const role = IMPORTABLE_ROLES.find((r) => r === roleText);
+    if (!role) errors.push(`Role "${cell('role')}" cannot be imported`);
+
+    const salary = parseImportAmount(cell('basic_salary'));
+    if (salary === null || salary <= 0) errors.push('Basic salary must be an amount greater than 0');
+
+    const employmentType = EMPLOYMENT_TYPES.find((type) => sameText(type, cell('employment_type')));
+    if (!employmentType) errors.push(`Employment type must be one of ${EMPLOYMENT_TYPES.join(', ')}`);
+
+    const joiningDate = parseImportDate(cell('joining_date'));
+    if (!joiningDate) errors.push(`Unrecognised joining date "${cell('joining_date')}"`);
+
+    const isOTEligible = parseYesNo(cell('is_ot_eligible'));
+    if (isOTEligible === null) errors.push(`OT eligible must be yes or no, not "${cell('is_ot_eligible')}"`);
+
+    let supervisorId: string | null = null;
+    let supervisorEmployeeNo: string | null = null;
+    const supervisorText = cell('supervisor');
+    if (supervisorText) {
+      const existing = UUID_PATTERN.test(supervisorText)
+        ? existingById.get(supervisorText)
+        : existingByNo.get(supervisorText.toLowerCase());
+      if (sameText(supervisorText, employeeNo)) {
+        errors.push('An employee cannot report to themselves');
+      } else if (existing) {
+        if (existing.roles && !existing.roles.some((r) => SUPERVISING_ROLES.includes(r))) {
+          errors.push(`Employee No ${existing.employee_id} is not a supervisor`);
+        } else {
+          supervisorId = existing.id;
+        }
+      } else if (firstRowByNo.has(supervisorText.toLowerCase())) {
+        supervisorEmployeeNo = supervisorText;
+      } else {
+        errors.push(`Reporting To "${supervisorText}" is not an employee or a row in this file`);
+      }
+    } else if (role && role !== 'management') {
+      errors.push('Reporting To is required for this role');
+    }
+
+    const payload: EmployeeImportPayload | null =
+      errors.length === 0
+        ? {
+            employee_id: employeeNo,
+            full_name: fullName,
+            email: email || null,
+            ic_no: cell('ic_no') || null,
+            phone_no: cell('phone_no') || null,
+            department_id: department!.id,
+            position_id: position!.id,
+            position: position!.title,
+            work_location: location!.id,
+            state: location!.state_code,
+            basic_salary: salary!,
+            employment_type: employmentType!,
+            joining_date: joiningDate!,
+            designation: cell('designation') || null,
+            epf_no: cell('epf_no') || null,
+            socso_no: cell('socso_no') || null,
+            income_tax_no: cell('income_tax_no') || null,
+            role: role!,
+            is_ot_eligible: isOTEligible!,
+            supervisor_id: supervisorId,
+            supervisor_employee_no: supervisorEmployeeNo,
+          }
+        : null;
+
+    return { row, employee_no: employeeNo, full_name: fullName, errors, warnings, payload };
+  });
+
+  const ordered = orderForImport(rows);
+  const validCount = ordered.filter((row) => row.payload).length;
+  return { rows: ordered, validCount, errorCount: ordered.length - validCount };
+}
+
+/**
+ * Puts supervisors named in the file ahead of their reports. A row fails
+ * when its supervisor's row failed, or when supervisors in the file form a
+ * loop.
+ */
+function orderForImport(rows: EmployeeImportPreviewRow[]): EmployeeImportPreviewRow[] {
+  const byNo = new Map(rows.filter((r) => r.employee_no).map((r) => [r.employee_no.toLowerCase(), r]));
+  const ordered: EmployeeImportPreviewRow[] = [];
+  const state = new Map<EmployeeImportPreviewRow, 'visiting' | 'done'>();
+
+  const visit = (row: EmployeeImportPreviewRow): void => {
+    if (state.get(row) === 'done') return;
+    if (state.get(row) === 'visiting') {
+      row.errors.push('Reporting lines in the file form a loop');
+      row.payload = null;
+      return;
+    }
+    state.set(row, 'visiting');
+
+    const supervisorNo = row.payload?.supervisor_employee_no;
+    if (supervisorNo) {
+      const supervisorRow = byNo.get(supervisorNo.toLowerCase())!;
+      visit(supervisorRow);
+      if (!supervisorRow.payload && row.payload) {
+        row.errors.push(`Reporting To ${supervisorNo} (row ${supervisorRow.row}) cannot be imported`);
+        row.payload = null;
+      } else if (supervisorRow.payload && !SUPERVISING_ROLES.includes(supervisorRow.payload.role) && row.payload) {
+        row.errors.push(`Reporting To ${supervisorNo} (row ${supervisorRow.row}) is not given a supervising role`);
+        row.payload = null;
+      }
+    }
+
+    state.set(row, 'done');
+    ordered.push(row);
+  };
+
+  rows.forEach(visit);
+  return [...ordered.filter((row) => row.payload), ...ordered.filter((row) => !row.payload)];
+}
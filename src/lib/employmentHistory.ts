@@ -0,0 +1,93 @@
+import { EmploymentDetails, EmploymentEventType, EmploymentHistoryRecord } from '@/types/otms';
+
+/**
+ * Effective-dated employment details. Each record in employment_history
+ * carries only the fields that changed from its effective date; the details
+ * on a date take every field from the latest record in effect. Dates before
+ * the first record use the earliest one, and fields never recorded fall back
+ * to the profile. Mirrors employment_as_of in Postgres.
+ */
+
+export const EMPLOYMENT_FIELDS: Array<keyof EmploymentDetails> = [
+  'basic_salary',
+  'ot_base',
+  'department_id',
+  'position_id',
+  'position',
+  'work_location',
+  'state',
+  'employment_type',
+];
+
+export const EMPLOYMENT_EVENT_LABELS: Record<EmploymentEventType, string> = {
+  hire: 'Hired',
+  salary_revision: 'Salary revision',
+  transfer: 'Transfer',
+  promotion: 'Promotion',
+  location_move: 'Location move',
+  profile_update: 'Profile edit',
+};
+
+/** The fields HR may change with each kind of recorded change */
+export const EMPLOYMENT_EVENT_FIELDS: Record<
+  Exclude<EmploymentEventType, 'hire' | 'profile_update'>,
+  Array<keyof EmploymentDetails>
+> = {
+  salary_revision: ['basic_salary', 'ot_base'],
+  transfer: ['department_id', 'position_id', 'position'],
+  promotion: ['position_id', 'position', 'basic_salary', 'ot_base', 'employment_type'],
+  location_move: ['work_location', 'state'],
+};
+
+type DatedChanges = Pick<EmploymentHistoryRecord, 'effective_from' | 'created_at' | 'changes'>;
+
+/** In effect first, latest date first; then the earliest future record */
+const compareForDate = (date: string) => (a: DatedChanges, b: DatedChanges) => {
+  const aInEffect = a.effective_from <= date;
+  const bInEffect = b.effective_from <= date;
+  if (aInEffect !== bInEffect) return aInEffect ? -1 : 1;
+  if (a.effective_from !== b.effective_from) {
+    return aInEffect ? b.effective_from.localeCompare(a.effective_from) : a.effective_from.localeCompare(b.effective_from);
+  }
+  return b.created_at.localeCompare(a.created_at);
+};
+
+/** One field on a date (yyyy-MM-dd), or undefined when no record sets it */
+export function resolveFieldAsOf<K extends keyof EmploymentDetails>(
+  records: DatedChanges[],
+  date: string,
+  field: K
+): EmploymentDetails[K] | null | undefined {
+  const record = [...records].sort(compareForDate(date)).find((r) => field in r.changes);
+  return record ? (record.changes[field] as EmploymentDetails[K]) ?? null : undefined;
+}
+
+/** The employee's details on a date (yyyy-MM-dd) */
+export function resolveEmploymentAsOf(
+  records: DatedChanges[],
+  date: string,
+  current: EmploymentDetails
+): EmploymentDetails {
+  const resolved = { ...current };
+  EMPLOYMENT_FIELDS.forEach((field) => {
+    const value = resolveFieldAsOf(records, date, field);
+    if (value !== undefined) (resolved as Record<string, unknown>)[field] = value;
+  });
+  return resolved;
+}
+
+/** The fields that differ from the current details, as sent to record_employment_change */
+export function getEmploymentChanges(
+  current: EmploymentDetails,
+  next: Partial<EmploymentDetails>
+): Partial<EmploymentDetails> {
+  const changes: Partial<EmploymentDetails> = {};
+  EMPLOYMENT_FIELDS.forEach((field) => {
+    if (!(field in next)) return;
+    const value = next[field] === '' ? null : next[field];
+    if (value !== undefined && value !== current[field]) {
+      (changes as Record<string, unknown>)[field] = value;
+    }
+  });
+  return changes;
+}
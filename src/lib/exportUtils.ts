@@ -41,12 +41,16 @@ export function exportToCSV(
   rows.push(...dataRows);
   const csv = rows.join('\n');
   
-  // Create and trigger download
-  const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
+  downloadFile(csv, `${filename}.csv`, 'text/csv');
+}
+
+/** Triggers a browser download of text content */
+export function downloadFile(content: string, filename: string, mimeType: string) {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8;` });
   const url = URL.createObjectURL(blob);
   const link = document.createElement('a');
   link.href = url;
-  link.download = `${filename}.csv`;
+  link.download = filename;
   link.click();
   URL.revokeObjectURL(url);
 }
@@ -0,0 +1,5 @@
+/**
+ * Browser entry point for the OT formula engine. The implementation lives with
+ * the edge functions so Deno and the app run the same file.
+ */
+export * from '../../supabase/functions/_shared/formula-engine';
@@ -1,4 +1,12 @@
-import { Parser } from 'expr-eval';
+import {
+  FORMULA_FUNCTIONS,
+  FormulaStep,
+  FormulaValue,
+  OTFormulaContext,
+  OT_FORMULA_VARIABLE_INFO,
+  evaluateOTFormula,
+  validateFormulaExpression,
+} from '@/lib/formulaEngine';
 
 export interface FormulaValidationResult {
   isValid: boolean;
@@ -10,101 +18,58 @@ export interface FormulaEvaluationResult {
   hrp: number;
   otAmount: number;
   breakdown: string;
+  steps: FormulaStep[];
 }
 
-const ALLOWED_VARIABLES = ['Hours', 'ORP', 'HRP', 'Basic'];
-const ALLOWED_FUNCTIONS = ['IF', 'MIN', 'MAX', 'ROUND'];
-
 export function validateFormulaSyntax(formula: string): FormulaValidationResult {
-  const errors: string[] = [];
-
-  if (!formula || formula.trim() === '') {
-    return { isValid: false, errors: ['Formula cannot be empty'] };
-  }
-
-  // Check for balanced parentheses
-  let parenCount = 0;
-  for (const char of formula) {
-    if (char === '(') parenCount++;
-    if (char === ')') parenCount--;
-    if (parenCount < 0) {
-      errors.push('Unbalanced parentheses: closing bracket without opening');
-      break;
-    }
-  }
-  if (parenCount > 0) {
-    errors.push('Unbalanced parentheses: missing closing bracket(s)');
-  }
-
-  // Check for valid variable names
-  const variablePattern = /\b([A-Za-z_][A-Za-z0-9_]*)\b/g;
-  const matches = formula.match(variablePattern) || [];
-  const invalidVars = matches.filter(
-    v => !ALLOWED_VARIABLES.includes(v) && !ALLOWED_FUNCTIONS.includes(v) && v !== 'IF'
-  );
-  if (invalidVars.length > 0) {
-    errors.push(`Unknown variables or functions: ${[...new Set(invalidVars)].join(', ')}`);
-  }
-
-  // Check IF statement syntax
-  const ifPattern = /IF\s*\(/gi;
-  const ifMatches = formula.match(ifPattern) || [];
-  if (ifMatches.length > 0) {
-    // Basic check: each IF should have at least 2 commas for 3 arguments
-    const ifBlocks = extractIFBlocks(formula);
-    for (const block of ifBlocks) {
-      const commaCount = countTopLevelCommas(block);
-      if (commaCount !== 2) {
-        errors.push(`IF statement requires exactly 3 arguments (condition, true_value, false_value)`);
-        break;
-      }
-    }
-  }
-
-  // Try to parse with expr-eval
-  try {
-    const parser = new Parser();
-    // Convert IF() to ternary for parsing
-    const testFormula = convertIFToTernary(formula);
-    parser.parse(testFormula);
-  } catch (e: any) {
-    errors.push(`Syntax error: ${e.message}`);
-  }
+  return validateFormulaExpression(formula);
+}
 
-  return {
-    isValid: errors.length === 0,
-    errors,
-  };
+function formatStepValue(value: FormulaValue): string {
+  if (typeof value === 'string') return `'${value}'`;
+  return Number.isInteger(value) ? String(value) : value.toFixed(2);
 }
 
+/** Variables always shown at the top of the breakdown */
+const BREAKDOWN_RATE_VARIABLES = ['Basic', 'OTBase', 'ORP', 'HRP', 'Hours'];
+
 export function evaluateFormula(
   formula: string,
-  basicSalary: number,
-  hours: number,
+  sample: OTFormulaContext,
   multiplier?: number
 ): FormulaEvaluationResult {
-  const orp = basicSalary / 26;
-  const hrp = orp / 8;
-
   try {
-    const parser = new Parser();
-    // Convert IF() to ternary for evaluation
-    const evaluableFormula = convertIFToTernary(formula);
-    const expr = parser.parse(evaluableFormula);
-    const otAmount = expr.evaluate({
-      Hours: hours,
-      ORP: orp,
-      HRP: hrp,
-      Basic: basicSalary,
-    });
+    const { orp, hrp, value, steps } = evaluateOTFormula(formula, sample);
 
     // Apply multiplier if provided
-    const baseFormulaResult = otAmount;
-    const finalOTAmount = multiplier ? baseFormulaResult * multiplier : baseFormulaResult;
-    
-    let breakdown = `Basic: RM ${basicSalary.toFixed(2)}\nORP: RM ${orp.toFixed(2)}\nHRP: RM ${hrp.toFixed(2)}\nHours: ${hours}`;
-    
+    const finalOTAmount = multiplier ? value * multiplier : value;
+
+    let breakdown = `Basic: RM ${sample.basicSalary.toFixed(2)}`;
+    if (sample.otBase != null && sample.otBase !== sample.basicSalary) {
+      breakdown += `\nOT Base: RM ${sample.otBase.toFixed(2)}`;
+    }
+    breakdown += `\nORP: RM ${orp.toFixed(2)}\nHRP: RM ${hrp.toFixed(2)}\nHours: ${sample.hours}`;
+
+    // Other variables the formula used
+    steps
+      .filter((step) => !step.detail && /^\w+$/.test(step.expression))
+      .filter((step) => !BREAKDOWN_RATE_VARIABLES.includes(step.expression))
+      .forEach((step) => {
+        breakdown += `\n${step.expression}: ${formatStepValue(step.value)}`;
+      });
+
+    // Decisions and function results, in evaluation order
+    const workings = steps.filter((step) => step.detail || /\(/.test(step.expression));
+    if (workings.length > 0) {
+      breakdown += '\n' + workings
+        .map((step) => step.detail
+          ? `${step.expression}: ${step.detail}`
+          : `${step.expression} = ${formatStepValue(step.value)}`)
+        .join('\n');
+    }
+
     if (multiplier) {
+      breakdown += `\nFormula Result: RM ${value.toFixed(2)} × ${multiplier}`;
       breakdown += `\nFinal OT Amount: RM ${finalOTAmount.toFixed(2)}`;
     } else {
       breakdown += `\nOT Amount: RM ${finalOTAmount.toFixed(2)}`;
@@ -115,118 +80,57 @@ export function evaluateFormula(
       hrp,
       otAmount: finalOTAmount,
       breakdown,
+      steps,
     };
-  } catch (e: any) {
-    throw new Error(`Evaluation error: ${e.message}`);
-  }
-}
-
-function extractIFBlocks(formula: string): string[] {
-  const blocks: string[] = [];
-  let i = 0;
-  while (i < formula.length) {
-    if (formula.substring(i, i + 2).toUpperCase() === 'IF' && formula[i + 2] === '(') {
-      let depth = 0;
-      let start = i + 2;
-      for (let j = start; j < formula.length; j++) {
-        if (formula[j] === '(') depth++;
-        if (formula[j] === ')') {
-          depth--;
-          if (depth === 0) {
-            blocks.push(formula.substring(start + 1, j));
-            i = j + 1;
-            break;
-          }
-        }
-      }
-    } else {
-      i++;
-    }
+  } catch (e) {
+    throw new Error(`Evaluation error: ${e instanceof Error ? e.message : String(e)}`);
   }
-  return blocks;
 }
 
-function countTopLevelCommas(str: string): number {
-  let count = 0;
-  let depth = 0;
-  for (const char of str) {
-    if (char === '(') depth++;
-    if (char === ')') depth--;
-    if (char === ',' && depth === 0) count++;
-  }
-  return count;
+export interface FormulaCompletion {
+  label: string;
+  /** Text that replaces the word being typed */
+  insertText: string;
+  kind: 'variable' | 'function';
+  description: string;
 }
 
-function convertIFToTernary(formula: string): string {
-  // Convert IF(condition, trueVal, falseVal) to (condition ? trueVal : falseVal)
-  // Process from innermost to outermost for nested IFs
-  let result = formula;
-  let hasChanges = true;
-  let maxIterations = 20; // Increased for deeply nested IFs
-  
-  // Keep converting innermost IFs until none remain
-  while (hasChanges && maxIterations-- > 0) {
-    hasChanges = false;
-    
-    // Find IF statements from the end (innermost first)
-    for (let i = result.length - 1; i >= 0; i--) {
-      if (result.substring(i, i + 2).toUpperCase() === 'IF' && 
-          result[i + 2] === '(' && 
-          (i === 0 || !/[A-Za-z0-9_]/.test(result[i - 1]))) {
-        
-        // Find matching closing parenthesis using depth tracking
-        let depth = 0;
-        let start = i + 2;
-        let end = -1;
-        
-        for (let j = start; j < result.length; j++) {
-          if (result[j] === '(') depth++;
-          if (result[j] === ')') {
-            depth--;
-            if (depth === 0) {
-              end = j;
-              break;
-            }
-          }
-        }
-        
-        if (end !== -1) {
-          const argsStr = result.substring(start + 1, end);
-          const args = splitIFArguments(argsStr);
-          
-          if (args.length === 3) {
-            const ternary = `(${args[0]} ? ${args[1]} : ${args[2]})`;
-            result = result.substring(0, i) + ternary + result.substring(end + 1);
-            hasChanges = true;
-            break; // Restart from the beginning after each conversion
-          }
-        }
-      }
-    }
-  }
-  
-  return result;
+export interface FormulaCompletionResult {
+  /** Range of the word being typed, replaced by the chosen completion */
+  from: number;
+  to: number;
+  suggestions: FormulaCompletion[];
 }
 
-function splitIFArguments(argsStr: string): string[] {
-  const args: string[] = [];
-  let current = '';
-  let depth = 0;
-  
-  for (const char of argsStr) {
-    if (char === '(') depth++;
-    if (char === ')') depth--;
-    if (char === ',' && depth === 0) {
-      args.push(current.trim());
-      current = '';
-    } else {
-      current += char;
-    }
-  }
-  
-  if (current) {
-    args.push(current.trim());
-  }
-  
-  return args;
+const FORMULA_COMPLETIONS: FormulaCompletion[] = [
+  ...OT_FORMULA_VARIABLE_INFO.map((variable) => ({
+    label: variable.name,
+    insertText: variable.name,
+    kind: 'variable' as const,
+    description: variable.description,
+  })),
+  ...Object.entries(FORMULA_FUNCTIONS).map(([name, { signature }]) => ({
+    label: name,
+    insertText: `${name}(`,
+    kind: 'function' as const,
+    description: signature,
+  })),
+];
+
+/**
+ * Variables and functions matching the word at the caret, or null when the
+ * caret is not at the end of a word (or is inside quoted text)
+ */
+export function getFormulaCompletions(formula: string, caret: number): FormulaCompletionResult | null {
+  const before = formula.slice(0, caret);
+  if ((before.match(/['"]/g) || []).length % 2 === 1) return null;
+
+  const word = /[A-Za-z_][A-Za-z0-9_]*$/.exec(before)?.[0];
+  if (!word || /[A-Za-z0-9_]/.test(formula.charAt(caret))) return null;
+
+  const prefix = word.toLowerCase();
+  const suggestions = FORMULA_COMPLETIONS.filter(
+    (completion) => completion.label.toLowerCase().startsWith(prefix) && completion.label !== word
+  );
+  return suggestions.length > 0 ? { from: caret - word.length, to: caret, suggestions } : null;
 }
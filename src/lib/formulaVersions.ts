@@ -0,0 +1,66 @@
+import { FormulaImpactRow, RateFormula } from '@/types/otms';
+
+/** A formula with its versions, newest first */
+export interface FormulaVersionGroup {
+  groupId: string;
+  latest: RateFormula;
+  versions: RateFormula[];
+}
+
+export interface FormulaImpactTotals {
+  employees: number;
+  totalHours: number;
+  currentAmount: number;
+  proposedAmount: number;
+  delta: number;
+  failedDays: number;
+}
+
+/**
+ * Groups formula versions by version_group_id. Groups are ordered by the
+ * latest version's name so editing a formula doesn't move it around the list.
+ */
+export function groupFormulaVersions(formulas: RateFormula[]): FormulaVersionGroup[] {
+  const groups = new Map<string, RateFormula[]>();
+
+  for (const formula of formulas) {
+    const groupId = formula.version_group_id || formula.id;
+    groups.set(groupId, [...(groups.get(groupId) || []), formula]);
+  }
+
+  return Array.from(groups, ([groupId, versions]) => {
+    const sorted = [...versions].sort((a, b) => b.version - a.version);
+    return { groupId, latest: sorted[0], versions: sorted };
+  }).sort((a, b) => a.latest.formula_name.localeCompare(b.latest.formula_name));
+}
+
+/** The version of a group in effect on a date (YYYY-MM-DD), if any */
+export function getVersionInEffect(group: FormulaVersionGroup, date: string): RateFormula | undefined {
+  return group.versions.find(
+    (version) => version.effective_from <= date && (!version.effective_to || version.effective_to >= date)
+  );
+}
+
+/** Totals across the rows of a what-if preview */
+export function summarizeFormulaImpact(rows: FormulaImpactRow[]): FormulaImpactTotals {
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  const totals = rows.reduce(
+    (acc, row) => ({
+      totalHours: acc.totalHours + Number(row.total_hours),
+      currentAmount: acc.currentAmount + Number(row.current_amount),
+      proposedAmount: acc.proposedAmount + Number(row.proposed_amount),
+      failedDays: acc.failedDays + Number(row.failed_days),
+    }),
+    { totalHours: 0, currentAmount: 0, proposedAmount: 0, failedDays: 0 }
+  );
+
+  return {
+    employees: new Set(rows.map((row) => row.employee_id)).size,
+    totalHours: round(totals.totalHours),
+    currentAmount: round(totals.currentAmount),
+    proposedAmount: round(totals.proposedAmount),
+    delta: round(totals.proposedAmount - totals.currentAmount),
+    failedDays: totals.failedDays,
+  };
+}
@@ -0,0 +1,35 @@
+import { InventoryScanResult } from '@/types/otms';
+
+/**
+ * Inventory room QR badges. The QR holds only a single-use token issued by
+ * issue_inventory_access_token; kiosks send it to verify-inventory-access,
+ * which returns who the holder is. Badges generated before tokens were
+ * issued by the database held a JSON payload with the token inside.
+ */
+
+/** Where a kiosk keeps its key, in the browser it runs in */
+export const KIOSK_KEY_STORAGE_KEY = 'otms.inventoryKioskKey';
+
+const TOKEN_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const SCAN_RESULT_LABELS: Record<InventoryScanResult, { title: string; description: string }> = {
+  granted: { title: 'Access granted', description: 'Badge verified.' },
+  unknown: { title: 'Not recognised', description: 'This is not an inventory access QR.' },
+  expired: { title: 'Expired', description: 'Ask the employee to generate a new QR on their profile.' },
+  used: { title: 'Already used', description: 'Each QR lets its holder in once. Ask for a new one.' },
+  revoked: { title: 'No longer valid', description: 'A newer QR replaced this one, or the employee is inactive.' },
+  other_company: { title: 'Other company', description: 'This employee is not with this kiosk\'s company.' },
+};
+
+/** The token in a scanned QR, or null when the scan holds none */
+export function parseBadgeToken(scanned: string): string | null {
+  const value = scanned.trim();
+  if (TOKEN_PATTERN.test(value)) return value.toLowerCase();
+
+  try {
+    const token = JSON.parse(value)?.token;
+    return typeof token === 'string' && TOKEN_PATTERN.test(token) ? token.toLowerCase() : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,159 @@
+import { validateRemarks } from '@/services/ot-workflow';
+import { GroupedOTRequest, OTDecisionAction, OTRequest, OTStatus, QueuedOTDecision } from '@/types/otms';
+
+/**
+ * Supervisors verifying OT away from a connection. Their approval queue is
+ * kept on the device, attachments included, and the decisions they make are
+ * queued and replayed in order once they are back online. A decision only
+ * lands if the request is still as the supervisor saw it; see
+ * transition_ot_request_if_unchanged in Postgres.
+ */
+
+/** Background Sync tag the service worker replays queued decisions under */
+export const OT_DECISION_SYNC_TAG = 'ot-decision-queue';
+
+/** Message the service worker posts to open windows after replaying decisions */
+export const OT_DECISIONS_UPDATED_MESSAGE = 'OT_DECISIONS_UPDATED';
+
+/** Cache Storage the service worker serves OT attachments from */
+export const OT_ATTACHMENT_CACHE = 'ot-attachments';
+
+/** How long a saved approval queue is shown offline before it is too old to act on */
+export const OFFLINE_QUERY_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+/** object_not_in_prerequisite_state: the request changed before the decision arrived */
+export const STALE_DECISION_ERROR_CODE = '55000';
+
+/** Statuses a supervisor can act on from VerifyOT */
+const AWAITING_SUPERVISOR_STATUSES: OTStatus[] = [
+  'pending_verification',
+  'pending_supervisor_verification',
+  'pending_respective_supervisor_confirmation',
+];
+
+export const DECISION_ACTION_LABELS: Record<OTDecisionAction, string> = {
+  approve: 'Verify',
+  reject: 'Reject',
+  confirm: 'Confirm',
+  confirm_respective: 'Confirm as instructing supervisor',
+  deny_respective: 'Deny as instructing supervisor',
+  revise: 'Send back for confirmation',
+};
+
+/**
+ * Queries saved for offline use: the approval queue and what VerifyOT and the
+ * route guards need to show it. The auth session itself is left to Supabase.
+ */
+export function isOfflineApprovalQuery(queryKey: readonly unknown[]): boolean {
+  const [root, scope] = queryKey;
+  if (root === 'auth') return scope === 'user';
+  return [
+    'supervisor-ot-approvals',
+    'approval-delegations',
+    'approval-slas',
+    'ot-budget-status',
+    'ot-daily-sessions',
+  ].includes(root as string);
+}
+
+/** The status a decision moves a request to, as the online mutations would */
+export function getDecisionTargetStatus(
+  action: OTDecisionAction,
+  request: Pick<OTRequest, 'respective_supervisor_id' | 'respective_supervisor_confirmed_at'>
+): OTStatus {
+  switch (action) {
+    case 'approve':
+      return 'supervisor_confirmed';
+    case 'confirm':
+      return request.respective_supervisor_id && request.respective_supervisor_confirmed_at
+        ? 'supervisor_verified'
+        : 'supervisor_confirmed';
+    case 'confirm_respective':
+      return 'pending_supervisor_verification';
+    case 'revise':
+      return 'pending_respective_supervisor_confirmation';
+    case 'reject':
+    case 'deny_respective':
+      return 'rejected';
+  }
+}
+
+/**
+ * One queued decision per request. Throws when the remarks wouldn't pass,
+ * so the supervisor hears about it now rather than after syncing.
+ */
+export function buildQueuedDecisions(
+  action: OTDecisionAction,
+  requests: OTRequest[],
+  options: { approverId: string; remarks?: string; rejectionStage?: string; now?: Date }
+): QueuedOTDecision[] {
+  if (requests.length === 0) {
+    throw new Error('These requests are not saved on this device');
+  }
+
+  const remarks = options.remarks?.trim() || null;
+  const validation = validateRemarks(remarks ?? undefined, 500, action === 'reject' || action === 'deny_respective');
+  if (!validation.valid) throw new Error(validation.error);
+  if (action === 'deny_respective' && remarks.length < 10) {
+    throw new Error('Denial remarks must be at least 10 characters');
+  }
+
+  const queuedAt = (options.now ?? new Date()).toISOString();
+  return requests.map((request) => ({
+    id: crypto.randomUUID(),
+    approver_id: options.approverId,
+    request_id: request.id,
+    ticket_number: request.ticket_number,
+    employee_name: request.profiles?.full_name ?? null,
+    ot_date: request.ot_date,
+    action,
+    to_status: getDecisionTargetStatus(action, request),
+    expected_status: request.status,
+    expected_updated_at: request.updated_at ?? null,
+    remarks,
+    rejection_stage:
+      action === 'reject'
+        ? options.rejectionStage || 'supervisor'
+        : action === 'deny_respective'
+          ? 'respective_supervisor_verification'
+          : null,
+    status: 'pending',
+    error: null,
+    attempts: 0,
+    queued_at: queuedAt,
+    last_attempt_at: null,
+  }));
+}
+
+/** Whether the server refused a decision because the request had changed */
+export function isStaleDecisionError(error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === STALE_DECISION_ERROR_CODE;
+}
+
+/**
+ * The approval queue less the requests whose decisions are waiting to sync.
+ * A decision the server refused puts its request back in the queue.
+ */
+export function hideQueuedDecisions(groups: GroupedOTRequest[], decisions: QueuedOTDecision[]): GroupedOTRequest[] {
+  const decided = new Set(
+    decisions
+      .filter((decision) => decision.status === 'pending' || decision.status === 'syncing')
+      .map((decision) => decision.request_id)
+  );
+  if (decided.size === 0) return groups;
+  return groups.filter((group) => !group.request_ids.every((id) => decided.has(id)));
+}
+
+/** Attachments of the requests awaiting the supervisor, to have them offline */
+export function collectAttachmentUrls(requests: Array<Pick<OTRequest, 'status' | 'attachment_urls'>>): string[] {
+  const urls = requests
+    .filter((request) => AWAITING_SUPERVISOR_STATUSES.includes(request.status))
+    .flatMap((request) => request.attachment_urls || []);
+  return Array.from(new Set(urls));
+}
+
+/** What the approver is told when queued decisions were refused as stale */
+export function describeStaleDecisions(tickets: string[]): string {
+  const list = tickets.length > 1 ? `${tickets.slice(0, -1).join(', ')} and ${tickets[tickets.length - 1]}` : tickets[0];
+  return `${list} changed while you were offline, so your decision${tickets.length > 1 ? 's were' : ' was'} not applied. Please review ${tickets.length > 1 ? 'them' : 'it'} again.`;
+}
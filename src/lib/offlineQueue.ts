@@ -0,0 +1,68 @@
+import { parseISO } from 'date-fns';
+import { canSubmitOTForDate } from '@/utils/otValidation';
+import { findOverlappingSession, OTSessionTimes } from '@/lib/otSessions';
+import { QueuedOTConflictKind, QueuedOTPayload } from '@/types/otms';
+
+/**
+ * OT submissions saved on the device while offline. They are replayed when
+ * connectivity returns, by the service worker's Background Sync or by the
+ * app when it next opens, and are held back if the time since queueing has
+ * made them conflict with the rules a live submission is checked against.
+ */
+
+/** Background Sync tag the service worker replays the queue under */
+export const OT_QUEUE_SYNC_TAG = 'ot-submission-queue';
+
+/** Message the service worker posts to open windows after replaying */
+export const OT_QUEUE_UPDATED_MESSAGE = 'OT_QUEUE_UPDATED';
+
+export interface QueueConflict {
+  kind: QueuedOTConflictKind;
+  message: string;
+}
+
+export interface QueueConflictContext {
+  now: Date;
+  cutoffDay: number;
+  gracePeriodEnabled: boolean;
+  /** The employee's requests around the OT date, rejected ones left out */
+  existingRequests: Array<OTSessionTimes & { client_submission_id?: string | null }>;
+  /** The queued submission's own id, so an earlier replay isn't a conflict */
+  submissionId?: string;
+}
+
+/** Why a queued submission can't be sent as it stands, or null if it can */
+export function findQueueConflict(payload: QueuedOTPayload, context: QueueConflictContext): QueueConflict | null {
+  const deadline = canSubmitOTForDate(parseISO(payload.ot_date), context.now, context.cutoffDay, context.gracePeriodEnabled);
+  if (!deadline.isAllowed) {
+    return {
+      kind: 'deadline_passed',
+      message: deadline.message || 'The submission deadline for this date has passed',
+    };
+  }
+
+  const others = context.existingRequests.filter(
+    (request) => !context.submissionId || request.client_submission_id !== context.submissionId
+  );
+  const overlapping = findOverlappingSession(payload, others);
+  if (overlapping) {
+    return {
+      kind: 'overlap',
+      message: `Overlaps your OT request for ${overlapping.ot_date} from ${overlapping.start_time} to ${overlapping.end_time}`,
+    };
+  }
+
+  return null;
+}
+
+/** Whether a request failed for want of a connection rather than being refused */
+export function isNetworkError(error: unknown): boolean {
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return true;
+  const name = (error as { name?: string } | null)?.name;
+  const message = (error as { message?: string } | null)?.message || '';
+  return (
+    name === 'FunctionsFetchError' ||
+    (name === 'TypeError' && /fetch|network|load failed/i.test(message)) ||
+    /failed to fetch|network ?error|load failed/i.test(message)
+  );
+}
@@ -0,0 +1,148 @@
+import { AppRole } from '@/types/otms';
+
+/**
+ * The reporting hierarchy built from profiles.supervisor_id. The database
+ * refuses loops, self-supervision and archived supervisors
+ * (validate_supervisor_hierarchy), but older data may predate that, so the
+ * chart still places every employee exactly once and reports what is wrong:
+ * members of a loop are hung under one of them, and employees whose
+ * supervisor is missing become roots.
+ */
+
+/** Roles that may have nobody above them, as in EmployeeDetailsSheet */
+const TOP_LEVEL_ROLES: AppRole[] = ['admin', 'management'];
+
+/** Roles whose holders may be given reports */
+export const SUPERVISING_ROLES: AppRole[] = ['supervisor', 'hr', 'management', 'admin'];
+
+export interface OrgChartEmployee {
+  id: string;
+  employee_id: string;
+  full_name: string;
+  position: string | null;
+  supervisor_id: string | null;
+  roles: AppRole[];
+}
+
+export interface OrgChartNode {
+  employee: OrgChartEmployee;
+  reports: OrgChartNode[];
+  /** Everyone below this employee */
+  teamSize: number;
+}
+
+export type OrgChartIssueType = 'self' | 'cycle' | 'missing_supervisor' | 'no_supervisor';
+
+export interface OrgChartIssue {
+  employeeId: string;
+  type: OrgChartIssueType;
+  message: string;
+}
+
+export interface OrgChart {
+  roots: OrgChartNode[];
+  issues: OrgChartIssue[];
+}
+
+const byName = (a: OrgChartEmployee, b: OrgChartEmployee) => a.full_name.localeCompare(b.full_name);
+
+export function buildOrgChart(employees: OrgChartEmployee[]): OrgChart {
+  const byId = new Map(employees.map((employee) => [employee.id, employee]));
+  const reportsOf = new Map<string, OrgChartEmployee[]>();
+  const rootEmployees: OrgChartEmployee[] = [];
+  const issues: OrgChartIssue[] = [];
+
+  [...employees].sort(byName).forEach((employee) => {
+    const { supervisor_id: supervisorId } = employee;
+    if (supervisorId === employee.id) {
+      rootEmployees.push(employee);
+      issues.push({ employeeId: employee.id, type: 'self', message: `${employee.full_name} is set to report to themselves` });
+    } else if (supervisorId && !byId.has(supervisorId)) {
+      rootEmployees.push(employee);
+      issues.push({
+        employeeId: employee.id,
+        type: 'missing_supervisor',
+        message: `${employee.full_name} reports to an archived or unknown employee`,
+      });
+    } else if (!supervisorId) {
+      rootEmployees.push(employee);
+      if (!employee.roles.some((role) => TOP_LEVEL_ROLES.includes(role))) {
+        issues.push({ employeeId: employee.id, type: 'no_supervisor', message: `${employee.full_name} has no supervisor` });
+      }
+    } else {
+      reportsOf.set(supervisorId, [...(reportsOf.get(supervisorId) || []), employee]);
+    }
+  });
+
+  const placed = new Set<string>();
+  const place = (employee: OrgChartEmployee): OrgChartNode => {
+    placed.add(employee.id);
+    const reports = (reportsOf.get(employee.id) || []).filter((report) => !placed.has(report.id)).map(place);
+    return { employee, reports, teamSize: reports.reduce((size, report) => size + 1 + report.teamSize, 0) };
+  };
+
+  const roots = rootEmployees.map(place);
+
+  // Whoever is left sits in, or under, a loop: find the loop by walking up
+  // and hang it under its first member by name
+  [...employees].sort(byName).forEach((employee) => {
+    if (placed.has(employee.id)) return;
+
+    const seen: string[] = [];
+    let current = employee.id;
+    while (!seen.includes(current)) {
+      seen.push(current);
+      current = byId.get(current)!.supervisor_id!;
+    }
+    const loop = seen.slice(seen.indexOf(current)).map((id) => byId.get(id)!);
+    const names = loop.map((member) => member.full_name).join(' → ');
+    loop.forEach((member) =>
+      issues.push({ employeeId: member.id, type: 'cycle', message: `Reporting loop: ${names} → ${loop[0].full_name}` })
+    );
+
+    roots.push(place([...loop].sort(byName)[0]));
+  });
+
+  return { roots, issues };
+}
+
+/** Everyone who reports to the employee, directly or further down */
+export function getReportIds(
+  employees: Array<Pick<OrgChartEmployee, 'id' | 'supervisor_id'>>,
+  employeeId: string
+): Set<string> {
+  const ids = new Set<string>();
+  const queue = [employeeId];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    employees.forEach((employee) => {
+      if (employee.supervisor_id === current && employee.id !== employeeId && !ids.has(employee.id)) {
+        ids.add(employee.id);
+        queue.push(employee.id);
+      }
+    });
+  }
+  return ids;
+}
+
+/**
+ * Why the employee cannot report to the supervisor, or null when they can.
+ * Mirrors the server-side check so a drop can be refused before it is sent.
+ */
+export function getReassignmentError(
+  employees: OrgChartEmployee[],
+  employeeId: string,
+  supervisorId: string
+): string | null {
+  const employee = employees.find((e) => e.id === employeeId);
+  const supervisor = employees.find((e) => e.id === supervisorId);
+  if (!employee || !supervisor) return 'Employee not found';
+  if (employeeId === supervisorId) return `${employee.full_name} cannot supervise themselves`;
+  if (!supervisor.roles.some((role) => SUPERVISING_ROLES.includes(role))) {
+    return `${supervisor.full_name} does not have a supervising role`;
+  }
+  if (getReportIds(employees, employeeId).has(supervisorId)) {
+    return `${supervisor.full_name} already reports up to ${employee.full_name}`;
+  }
+  return null;
+}
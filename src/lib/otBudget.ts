@@ -0,0 +1,81 @@
+import { format, getDaysInMonth } from 'date-fns';
+import { formatCurrency } from '@/lib/otCalculations';
+import { OTBudgetStatus, OTStatus } from '@/types/otms';
+
+/**
+ * Monthly OT budgets. Spend is the ot_amount of non-rejected requests,
+ * approved once HR certifies or management approves and pending before.
+ * Mirrors get_ot_budget_status in Postgres.
+ */
+
+export const APPROVED_OT_STATUSES: OTStatus[] = ['hr_certified', 'management_approved'];
+
+export type BudgetState = 'within' | 'at_risk' | 'over';
+
+export interface BudgetForecast {
+  /** Projected committed spend at month end */
+  forecast: number;
+  /** Committed spend as a percentage of the budget */
+  utilisation: number;
+  state: BudgetState;
+}
+
+/**
+ * Projects month-end spend from the run rate so far. Only the current month
+ * is projected; past and future months stand at what is committed.
+ */
+export function getBudgetForecast(status: OTBudgetStatus, today: Date = new Date()): BudgetForecast {
+  const committed = status.committed_amount;
+  let forecast = committed;
+
+  if (status.month.slice(0, 7) === format(today, 'yyyy-MM')) {
+    forecast = (committed / today.getDate()) * getDaysInMonth(today);
+  }
+
+  const utilisation = status.budget_amount > 0 ? (committed / status.budget_amount) * 100 : committed > 0 ? 100 : 0;
+  const state: BudgetState =
+    committed > status.budget_amount ? 'over' : forecast > status.budget_amount ? 'at_risk' : 'within';
+
+  return { forecast, utilisation, state };
+}
+
+export interface BudgetRequest {
+  ot_date: string;
+  ot_amount?: number | null;
+  status: OTStatus;
+  department_id?: string | null;
+  company_id?: string | null;
+}
+
+export interface BudgetWarning {
+  budget: OTBudgetStatus;
+  /** Approved spend for the month once this request is approved */
+  projected: number;
+}
+
+/**
+ * The budgets approving a request would take over, department first. A
+ * request already approved has no warnings; its amount is counted.
+ */
+export function findBudgetWarnings(request: BudgetRequest, budgets: OTBudgetStatus[]): BudgetWarning[] {
+  const amount = Number(request.ot_amount) || 0;
+  if (amount <= 0 || request.status === 'rejected' || APPROVED_OT_STATUSES.includes(request.status)) return [];
+
+  const month = request.ot_date.slice(0, 7);
+  return budgets
+    .filter(
+      (budget) =>
+        budget.month.slice(0, 7) === month &&
+        ((!!budget.department_id && budget.department_id === request.department_id) ||
+          (!!budget.company_id && budget.company_id === request.company_id))
+    )
+    .map((budget) => ({ budget, projected: budget.approved_amount + amount }))
+    .filter((warning) => warning.projected > warning.budget.budget_amount)
+    .sort((a, b) => Number(!a.budget.department_id) - Number(!b.budget.department_id));
+}
+
+/** e.g. "Engineering: RM 10,500.00 of RM 10,000.00 budget (RM 500.00 over)" */
+export function formatBudgetWarning(warning: BudgetWarning): string {
+  const over = warning.projected - warning.budget.budget_amount;
+  return `${warning.budget.scope_name}: ${formatCurrency(warning.projected)} of ${formatCurrency(warning.budget.budget_amount)} budget (${formatCurrency(over)} over)`;
+}
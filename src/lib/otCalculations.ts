@@ -13,6 +13,14 @@ export function calculateTotalHours(startTime: string, endTime: string): number
   return Math.round((diffMinutes / 60) * 10) / 10;
 }
 
+/** Whether a session ends on the next date (end time earlier than start time) */
+export function isOvernightSession(startTime: string, endTime: string): boolean {
+  const [startHour, startMin] = startTime.split(':').map(Number);
+  const [endHour, endMin] = endTime.split(':').map(Number);
+
+  return endHour * 60 + endMin < startHour * 60 + startMin;
+}
+
 export function formatCurrency(amount: number | null): string {
   if (amount === null || amount === undefined) return 'RM 0.00';
   return `RM ${amount.toFixed(2).replace(/\B(?=(\d{3})+(?!\d))/g, ',')}`;
@@ -70,5 +78,6 @@ export function formatTime12Hour(time: string): string {
 }
 
 export function formatTimeRange(startTime: string, endTime: string): string {
-  return `${formatTime12Hour(startTime)} - ${formatTime12Hour(endTime)}`;
+  const nextDay = isOvernightSession(startTime, endTime) ? ' (+1 day)' : '';
+  return `${formatTime12Hour(startTime)} - ${formatTime12Hour(endTime)}${nextDay}`;
 }
@@ -0,0 +1,59 @@
+import { formatCurrency } from '@/lib/otCalculations';
+import { OTHoursSummary, OTLimitViolation, OTLimitViolationType } from '@/types/otms';
+
+/**
+ * OT hour limits. The statutory monthly cap always blocks; configured
+ * limits block only when set to hard. Approved cap exceptions raise both
+ * monthly hour limits. Mirrors check_threshold_violations in Postgres.
+ */
+
+export const OT_LIMIT_LABELS: Record<OTLimitViolationType, string> = {
+  statutory_monthly: 'Statutory monthly cap',
+  monthly_hours: 'Monthly limit',
+  weekly: 'Weekly limit',
+  daily: 'Daily limit',
+  monthly_amount: 'Monthly amount limit',
+};
+
+/** The violations recorded on a request; older requests hold '{}' */
+export function getLimitViolations(thresholdViolations: unknown): OTLimitViolation[] {
+  const violations = (thresholdViolations as { violations?: unknown } | null)?.violations;
+  return Array.isArray(violations) ? (violations as OTLimitViolation[]) : [];
+}
+
+/** e.g. "Statutory monthly cap: 110 of 104 hrs (6 over)" */
+export function formatLimitViolation(violation: OTLimitViolation): string {
+  const label = OT_LIMIT_LABELS[violation.type] ?? violation.type;
+  if (violation.type === 'monthly_amount') {
+    return `${label}: ${formatCurrency(violation.current)} of ${formatCurrency(violation.limit)} (${formatCurrency(violation.exceeded_by)} over)`;
+  }
+  const hours = (value: number) => Number(Number(value).toFixed(2));
+  return `${label}: ${hours(violation.current)} of ${hours(violation.limit)} hrs (${hours(violation.exceeded_by)} over)`;
+}
+
+export interface MonthlyAllowance {
+  /** Hours that cannot be exceeded this month */
+  hardLimit: number;
+  hardLimitSource: 'statutory' | 'threshold';
+  remaining: number;
+  /** A lower soft limit approvers are warned about, if any */
+  softLimit: number | null;
+}
+
+/** How many more OT hours the employee can claim for the month */
+export function getMonthlyAllowance(summary: OTHoursSummary): MonthlyAllowance {
+  const statutory = summary.statutory_cap_hours + summary.exception_hours;
+  const configured =
+    summary.monthly_limit_hours === null ? null : summary.monthly_limit_hours + summary.exception_hours;
+
+  const thresholdIsLower = configured !== null && summary.monthly_limit_mode === 'hard' && configured < statutory;
+  const hardLimit = thresholdIsLower ? configured : statutory;
+
+  return {
+    hardLimit,
+    hardLimitSource: thresholdIsLower ? 'threshold' : 'statutory',
+    remaining: Math.max(0, Number((hardLimit - summary.used_hours).toFixed(2))),
+    softLimit:
+      configured !== null && summary.monthly_limit_mode === 'soft' && configured < hardLimit ? configured : null,
+  };
+}
@@ -0,0 +1,110 @@
+import { OTReason } from '@/types/otms';
+
+/**
+ * The OT reason catalogue. Each reason may be limited to a company and to
+ * some departments, and carries rules checked on submission. Mirrors
+ * enforce_ot_reason_rules in Postgres.
+ */
+
+export const MIN_REASON_DETAILS_LENGTH = 10;
+
+/** What reason analytics show for requests from before the catalogue */
+export const UNCATALOGUED_REASON = 'Uncatalogued';
+
+export type ReasonRuleField = 'details' | 'attachment' | 'respective_supervisor' | 'hours';
+
+export interface ReasonRuleViolation {
+  field: ReasonRuleField;
+  message: string;
+}
+
+export interface ReasonRuleInput {
+  total_hours: number;
+  details?: string | null;
+  attachment_count: number;
+  respective_supervisor_id?: string | null;
+}
+
+/** Active reasons offered to an employee, in catalogue order */
+export function getAvailableReasons(
+  reasons: OTReason[],
+  employee: { company_id?: string | null; department_id?: string | null }
+): OTReason[] {
+  return reasons
+    .filter(
+      (reason) =>
+        reason.is_active &&
+        (!reason.company_id || reason.company_id === employee.company_id) &&
+        (reason.applies_to_department_ids.length === 0 ||
+          (!!employee.department_id && reason.applies_to_department_ids.includes(employee.department_id)))
+    )
+    .sort((a, b) => a.sort_order - b.sort_order || a.label.localeCompare(b.label));
+}
+
+/** The rules of a reason a session breaks */
+export function checkReasonRules(reason: OTReason, input: ReasonRuleInput): ReasonRuleViolation[] {
+  const violations: ReasonRuleViolation[] = [];
+
+  if (reason.requires_details && (input.details?.trim().length ?? 0) < MIN_REASON_DETAILS_LENGTH) {
+    violations.push({
+      field: 'details',
+      message: `Please provide a detailed reason (minimum ${MIN_REASON_DETAILS_LENGTH} characters)`,
+    });
+  }
+  if (reason.requires_attachment && input.attachment_count === 0) {
+    violations.push({ field: 'attachment', message: `OT for "${reason.label}" needs an attachment` });
+  }
+  if (reason.requires_respective_supervisor && !input.respective_supervisor_id) {
+    violations.push({
+      field: 'respective_supervisor',
+      message: `OT for "${reason.label}" must name the supervisor who instructed it`,
+    });
+  }
+  if (reason.max_hours !== null && input.total_hours > reason.max_hours) {
+    violations.push({
+      field: 'hours',
+      message: `OT for "${reason.label}" is limited to ${reason.max_hours} hours a session`,
+    });
+  }
+
+  return violations;
+}
+
+/** The reason text stored on a request: the employee's details, or the label */
+export function getReasonText(reason: OTReason, details?: string | null): string {
+  return reason.requires_details ? details?.trim() || reason.label : reason.label;
+}
+
+/** One line per rule, e.g. "Attachment required · Max 4 hrs" */
+export function describeReasonRules(reason: OTReason): string[] {
+  return [
+    reason.requires_details && 'Details required',
+    reason.requires_attachment && 'Attachment required',
+    reason.requires_respective_supervisor && 'Instructing supervisor required',
+    reason.max_hours !== null && `Max ${reason.max_hours} hrs a session`,
+    !reason.counts_toward_limits && 'Not counted toward OT limits',
+  ].filter(Boolean) as string[];
+}
+
+export interface ReasonTotal {
+  label: string;
+  requests: number;
+  hours: number;
+  amount: number;
+}
+
+/** Requests, hours and amount per reason, most hours first */
+export function totalByReason(
+  rows: Array<{ reason_label?: string | null; hours: number; amount: number }>
+): ReasonTotal[] {
+  const totals = new Map<string, ReasonTotal>();
+  for (const row of rows) {
+    const label = row.reason_label || UNCATALOGUED_REASON;
+    const total = totals.get(label) ?? { label, requests: 0, hours: 0, amount: 0 };
+    total.requests += 1;
+    total.hours = Math.round((total.hours + row.hours) * 100) / 100;
+    total.amount = Math.round((total.amount + row.amount) * 100) / 100;
+    totals.set(label, total);
+  }
+  return Array.from(totals.values()).sort((a, b) => b.hours - a.hours);
+}
@@ -0,0 +1,91 @@
+import { OTRequestEvent, OTRequestEventActorRole } from '@/types/otms';
+import { STATUS_LABELS } from '@/lib/constants';
+
+const ACTOR_ROLE_LABELS: Record<OTRequestEventActorRole, string> = {
+  employee: 'Employee',
+  supervisor: 'Supervisor',
+  respective_supervisor: 'Respective Supervisor',
+  department_head: 'Department Head',
+  hr: 'HR',
+  management: 'Management',
+  system: 'System',
+};
+
+/**
+ * Employee-editable fields shown in the timeline diff, with display labels.
+ * Stage columns (remarks, timestamps, reviewer IDs) are already conveyed by the event itself.
+ */
+const DIFF_FIELD_LABELS: Record<string, string> = {
+  ot_date: 'Date',
+  start_time: 'Start time',
+  end_time: 'End time',
+  total_hours: 'Total hours',
+  day_type: 'Day type',
+  reason: 'Reason',
+  ot_location_state: 'Location',
+  attachment_urls: 'Attachments',
+  supervisor_id: 'Supervisor',
+  respective_supervisor_id: 'Respective supervisor',
+  ot_amount: 'OT amount',
+};
+
+export function getActorRoleLabel(role: OTRequestEventActorRole): string {
+  return ACTOR_ROLE_LABELS[role] || role;
+}
+
+/**
+ * Headline for a timeline entry, e.g. "Certified by HR" or "Sent back to HR by Management"
+ */
+export function getEventTitle(event: OTRequestEvent): string {
+  const roleLabel = getActorRoleLabel(event.actor_role);
+
+  if (event.event_type === 'submitted') return 'Submitted';
+  if (event.event_type === 'updated') return `Edited by ${roleLabel}`;
+  if (event.event_type === 'escalated') return 'Escalated (approval SLA breached)';
+
+  const { from_status: from, to_status: to } = event;
+
+  if (to === 'rejected') return `Rejected by ${roleLabel}`;
+  if (from === 'hr_certified' && to === 'hr_certified') {
+    return event.actor_role === 'management'
+      ? 'Sent back to HR by Management'
+      : 'Recertified by HR';
+  }
+  if (from === 'management_approved' && to === 'hr_certified') return 'Sent back to HR by Management';
+  if (from === 'hr_certified' && (to === 'pending_verification' || to === 'pending_respective_supervisor_confirmation')) {
+    return 'Returned for amendment by HR';
+  }
+  if (to === 'pending_respective_supervisor_confirmation') return 'Sent to respective supervisor';
+  if (to === 'management_approved' && event.actor_role === 'system') {
+    return 'Approved (no management step in approval chain)';
+  }
+
+  return `${to ? STATUS_LABELS[to] : 'Updated'} by ${roleLabel}`;
+}
+
+export interface EventFieldChange {
+  field: string;
+  label: string;
+  oldValue: string;
+  newValue: string;
+}
+
+function formatDiffValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) return `${value.length}`;
+  return String(value);
+}
+
+/**
+ * Readable list of the employee-facing fields changed by an event
+ */
+export function getEventFieldChanges(event: OTRequestEvent): EventFieldChange[] {
+  return Object.entries(event.changes || {})
+    .filter(([field]) => field in DIFF_FIELD_LABELS)
+    .map(([field, change]) => ({
+      field,
+      label: DIFF_FIELD_LABELS[field],
+      oldValue: formatDiffValue(change?.old),
+      newValue: formatDiffValue(change?.new),
+    }));
+}
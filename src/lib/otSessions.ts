@@ -0,0 +1,91 @@
+import { addDays, format, parseISO } from 'date-fns';
+import { isOvernightSession } from '@/lib/otCalculations';
+
+/**
+ * Sessions that run past midnight. ot_date is the date a session started; the
+ * hours after midnight were worked on the next date and are paid as part of
+ * it. Mirrors ot_overnight_hours and ot_session_portions in Postgres.
+ */
+
+export interface OTSessionTimes {
+  ot_date: string;
+  start_time: string;
+  end_time: string;
+}
+
+/** The part of a session worked on one date */
+export interface OTSessionPortion {
+  date: string;
+  start_time: string;
+  end_time: string;
+  hours: number;
+}
+
+export const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export const toDayNumber = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return Date.UTC(year, month - 1, day) / 86_400_000;
+};
+
+const roundHours = (hours: number) => Math.round(hours * 100) / 100;
+
+export const nextDate = (date: string) => format(addDays(parseISO(date), 1), 'yyyy-MM-dd');
+
+export const previousDate = (date: string) => format(addDays(parseISO(date), -1), 'yyyy-MM-dd');
+
+/** Splits a session at midnight; a same-day session is a single portion */
+export function splitSessionByDate(session: OTSessionTimes & { total_hours: number }): OTSessionPortion[] {
+  if (!isOvernightSession(session.start_time, session.end_time)) {
+    return [
+      { date: session.ot_date, start_time: session.start_time, end_time: session.end_time, hours: session.total_hours },
+    ];
+  }
+
+  const overnightHours = Math.min(session.total_hours, roundHours(toMinutes(session.end_time) / 60));
+  const portions: OTSessionPortion[] = [
+    {
+      date: session.ot_date,
+      start_time: session.start_time,
+      end_time: '24:00',
+      hours: roundHours(session.total_hours - overnightHours),
+    },
+  ];
+  if (overnightHours > 0) {
+    portions.push({ date: nextDate(session.ot_date), start_time: '00:00', end_time: session.end_time, hours: overnightHours });
+  }
+  return portions;
+}
+
+/** The part of a session worked on a date, if any */
+export function getSessionPortionOnDate(
+  session: OTSessionTimes & { total_hours: number },
+  date: string
+): OTSessionPortion | undefined {
+  return splitSessionByDate(session).find((portion) => portion.date === date);
+}
+
+/** A session as minutes since 1970-01-01 00:00 local time, so sessions on different dates compare */
+export function getSessionInterval(session: OTSessionTimes): { start: number; end: number } {
+  const dayStart = toDayNumber(session.ot_date) * 1440;
+  const overnight = isOvernightSession(session.start_time, session.end_time) ? 1440 : 0;
+  return {
+    start: dayStart + toMinutes(session.start_time),
+    end: dayStart + toMinutes(session.end_time) + overnight,
+  };
+}
+
+/** Whether two sessions overlap in time, across dates */
+export function sessionsOverlap(a: OTSessionTimes, b: OTSessionTimes): boolean {
+  const first = getSessionInterval(a);
+  const second = getSessionInterval(b);
+  return first.start < second.end && second.start < first.end;
+}
+
+/** The first of the existing sessions a new session overlaps */
+export function findOverlappingSession<T extends OTSessionTimes>(session: OTSessionTimes, existing: T[]): T | undefined {
+  return existing.find((other) => sessionsOverlap(session, other));
+}
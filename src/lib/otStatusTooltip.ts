@@ -37,6 +37,9 @@ export function getStatusTooltip(request: any): string | null {
         ? `Confirmed by ${respectiveSupervisor.full_name} (${respectiveSupervisor.employee_id})`
         : `Confirmed`;
 
+    case 'department_head_approved':
+      return `Approved by department head, awaiting HR certification`;
+
     case 'hr_certified':
       return `Certified by HR`;
 
@@ -0,0 +1,270 @@
+import { format, parseISO } from 'date-fns';
+import { CostShare, splitByCostShares } from '@/lib/costAllocation';
+import {
+  DayType,
+  PayrollExportBatch,
+  PayrollExportColumn,
+  PayrollExportField,
+  PayrollExportLayout,
+} from '@/types/otms';
+
+/**
+ * Payroll export files. Unlike exportToCSV these are machine-read: every
+ * value is formatted by the layout, never for display.
+ */
+
+export const PAYROLL_EXPORT_FIELD_LABELS: Record<PayrollExportField, string> = {
+  batch_no: 'Batch No.',
+  period_start: 'Period Start',
+  period_end: 'Period End',
+  request_id: 'OT Request ID',
+  employee_no: 'Employee No.',
+  employee_name: 'Employee Name',
+  department: 'Department',
+  company_code: 'Company Code',
+  ot_date: 'OT Date',
+  day_type: 'Day Type',
+  pay_code: 'Pay Code',
+  hours: 'Hours',
+  amount: 'Amount',
+  cost_centre: 'Cost Centre',
+  cost_centre_name: 'Cost Centre Name',
+};
+
+const DATE_FIELDS: PayrollExportField[] = ['period_start', 'period_end', 'ot_date'];
+const NUMBER_FIELDS: PayrollExportField[] = ['hours', 'amount'];
+const COST_CENTRE_FIELDS: PayrollExportField[] = ['cost_centre', 'cost_centre_name'];
+
+/** One approved OT request or payroll adjustment as reported by useHRReportData */
+export interface PayrollSourceRow {
+  request_id: string;
+  /** Set on corrections to OT frozen in an earlier period; request_id is the corrected request */
+  adjustment_id?: string;
+  employee_id: string;
+  employee_no: string;
+  employee_name: string;
+  department: string;
+  company_id: string;
+  company_code: string;
+  ot_date: string;
+  day_type: DayType;
+  hours: number;
+  amount: number;
+  /** The codes the request is charged to; none when it is unallocated */
+  cost_allocations?: CostShare[];
+}
+
+export type PayrollRecord = Record<PayrollExportField, string | number>;
+
+export interface PayrollExportFile {
+  filename: string;
+  content: string;
+  mimeType: string;
+}
+
+export class PayrollExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PayrollExportError';
+  }
+}
+
+/** Identifies a row among a period's requests and adjustments */
+export function getPayrollRowKey(row: Pick<PayrollSourceRow, 'request_id' | 'adjustment_id'>): string {
+  return row.adjustment_id ? `adjustment:${row.adjustment_id}` : row.request_id;
+}
+
+/**
+ * Rows for a batch, with the hours and amounts recorded when it was first
+ * exported. Every request and adjustment in the batch must still be in the
+ * report.
+ */
+export function getBatchSourceRows(batch: PayrollExportBatch, reportRows: PayrollSourceRow[]): PayrollSourceRow[] {
+  const rowsByKey = new Map(reportRows.map((row) => [getPayrollRowKey(row), row]));
+  const lines = [
+    ...(batch.payroll_export_batch_items || []).map((item) => ({
+      key: item.ot_request_id,
+      hours: item.hours,
+      amount: item.amount,
+    })),
+    ...(batch.payroll_export_batch_adjustments || []).map((item) => ({
+      key: getPayrollRowKey({ request_id: '', adjustment_id: item.adjustment_id }),
+      hours: item.hours,
+      amount: item.amount,
+    })),
+  ];
+  const missing = lines.filter((line) => !rowsByKey.has(line.key));
+
+  if (missing.length > 0) {
+    throw new PayrollExportError(
+      `${missing.length} request(s) or adjustment(s) in batch ${batch.batch_no} are no longer in this period. ` +
+        'Void the batch and export again.'
+    );
+  }
+
+  return lines.map((line) => ({
+    ...rowsByKey.get(line.key)!,
+    hours: Number(line.hours),
+    amount: Number(line.amount),
+  }));
+}
+
+/**
+ * Records for a layout, one per request or per employee and pay code. A
+ * layout with a cost centre column also splits them by cost centre.
+ */
+export function buildPayrollRecords(
+  layout: PayrollExportLayout,
+  batch: Pick<PayrollExportBatch, 'batch_no' | 'period_start' | 'period_end'>,
+  rows: PayrollSourceRow[]
+): PayrollRecord[] {
+  const sorted = [...rows].sort(
+    (a, b) => a.employee_no.localeCompare(b.employee_no) || a.ot_date.localeCompare(b.ot_date)
+  );
+  const byCostCentre = layout.columns.some((column) => COST_CENTRE_FIELDS.includes(column.field));
+
+  const records = sorted.flatMap<PayrollRecord>((row) => {
+    const hours = Number(row.hours) || 0;
+    const amount = Number(row.amount) || 0;
+    const parts = byCostCentre
+      ? splitByCostShares(hours, amount, row.cost_allocations || [])
+      : [{ code: '', name: '', hours, amount }];
+
+    return parts.map((part) => ({
+      batch_no: batch.batch_no,
+      period_start: batch.period_start,
+      period_end: batch.period_end,
+      request_id: row.request_id,
+      employee_no: row.employee_no,
+      employee_name: row.employee_name,
+      department: row.department,
+      company_code: row.company_code,
+      ot_date: row.ot_date,
+      day_type: row.day_type,
+      pay_code: layout.pay_codes[row.day_type] || row.day_type,
+      hours: part.hours,
+      amount: part.amount,
+      cost_centre: part.code,
+      cost_centre_name: part.name,
+    }));
+  });
+
+  if (layout.group_by === 'request') return records;
+
+  const grouped = new Map<string, PayrollRecord>();
+  for (const record of records) {
+    const key = `${record.employee_no}|${record.pay_code}|${record.cost_centre}`;
+    const existing = grouped.get(key);
+    if (existing) {
+      existing.hours = (existing.hours as number) + (record.hours as number);
+      existing.amount = (existing.amount as number) + (record.amount as number);
+    } else {
+      // A group spans several dates; its OT date is the period end
+      grouped.set(key, { ...record, request_id: '', ot_date: batch.period_end });
+    }
+  }
+  return Array.from(grouped.values());
+}
+
+/** A field value formatted for the file, before CSV quoting or padding */
+export function formatPayrollValue(
+  column: PayrollExportColumn,
+  value: string | number,
+  dateFormat: string
+): string {
+  if (DATE_FIELDS.includes(column.field) && value) {
+    return format(parseISO(String(value)), dateFormat);
+  }
+  if (NUMBER_FIELDS.includes(column.field)) {
+    return Number(value).toFixed(column.decimals ?? 2);
+  }
+  return String(value ?? '');
+}
+
+function csvCell(value: string, delimiter: string): string {
+  return /["\r\n]/.test(value) || value.includes(delimiter) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function fixedWidthCell(column: PayrollExportColumn, value: string): string {
+  const width = column.width ?? value.length;
+  const pad = (column.pad || ' ').charAt(0);
+  if (value.length > width) {
+    // Keep the significant digits of numbers, the start of text
+    return column.align === 'right' ? value.slice(value.length - width) : value.slice(0, width);
+  }
+  return column.align === 'right' ? value.padStart(width, pad) : value.padEnd(width, pad);
+}
+
+/** Renders records in the layout's format */
+export function renderPayrollExport(layout: PayrollExportLayout, records: PayrollRecord[]): string {
+  const cells = (record: PayrollRecord) =>
+    layout.columns.map((column) => formatPayrollValue(column, record[column.field], layout.date_format));
+
+  switch (layout.format) {
+    case 'csv': {
+      const lines = records.map((record) =>
+        cells(record).map((value) => csvCell(value, layout.delimiter)).join(layout.delimiter)
+      );
+      if (layout.include_header) {
+        lines.unshift(layout.columns.map((column) => csvCell(column.header, layout.delimiter)).join(layout.delimiter));
+      }
+      return lines.join('\r\n') + '\r\n';
+    }
+    case 'fixed_width': {
+      const lines = records.map((record) =>
+        cells(record).map((value, index) => fixedWidthCell(layout.columns[index], value)).join('')
+      );
+      if (layout.include_header) {
+        lines.unshift(layout.columns.map((column) => fixedWidthCell(column, column.header)).join(''));
+      }
+      return lines.join('\r\n') + '\r\n';
+    }
+    case 'json': {
+      const rows = records.map((record) => {
+        const values = cells(record);
+        return Object.fromEntries(
+          layout.columns.map((column, index) => [
+            column.header,
+            NUMBER_FIELDS.includes(column.field) ? Number(values[index]) : values[index],
+          ])
+        );
+      });
+      return JSON.stringify(rows, null, 2);
+    }
+  }
+}
+
+/** The file payroll receives for a batch */
+export function buildPayrollExportFile(
+  layout: PayrollExportLayout,
+  batch: PayrollExportBatch,
+  reportRows: PayrollSourceRow[]
+): PayrollExportFile {
+  const records = buildPayrollRecords(layout, batch, getBatchSourceRows(batch, reportRows));
+  const extension = layout.format === 'json' ? 'json' : layout.format === 'csv' ? 'csv' : 'txt';
+
+  return {
+    filename: `${batch.batch_no}.${extension}`,
+    content: renderPayrollExport(layout, records),
+    mimeType: layout.format === 'json' ? 'application/json' : layout.format === 'csv' ? 'text/csv' : 'text/plain',
+  };
+}
+
+/** Problems that would make a layout produce an unreadable file */
+export function validatePayrollExportLayout(
+  layout: Pick<PayrollExportLayout, 'name' | 'format' | 'columns' | 'delimiter'>
+): string[] {
+  const errors: string[] = [];
+  if (!layout.name.trim()) errors.push('Layout name is required');
+  if (layout.columns.length === 0) errors.push('Add at least one column');
+  if (layout.format === 'csv' && !layout.delimiter) errors.push('CSV layouts need a delimiter');
+  layout.columns.forEach((column, index) => {
+    if (!column.header.trim() && layout.format !== 'fixed_width') {
+      errors.push(`Column ${index + 1} needs a header`);
+    }
+    if (layout.format === 'fixed_width' && !(column.width && column.width > 0)) {
+      errors.push(`Column ${index + 1} needs a width`);
+    }
+  });
+  return errors;
+}
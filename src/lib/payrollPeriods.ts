@@ -0,0 +1,51 @@
+import { addDays, addMonths, endOfMonth, format, parseISO, startOfMonth } from 'date-fns';
+import { PayrollPeriod, PayrollPeriodStatus } from '@/types/otms';
+
+/**
+ * Client mirror of the payroll period rules enforced in Postgres
+ * (validate_payroll_period, enforce_payroll_period_lock)
+ */
+
+export const PAYROLL_PERIOD_STATUS_LABELS: Record<PayrollPeriodStatus, string> = {
+  open: 'Open',
+  locked: 'Locked',
+  closed: 'Closed',
+};
+
+/** Statuses a period can be moved to from its current one */
+export const PAYROLL_PERIOD_TRANSITIONS: Record<PayrollPeriodStatus, PayrollPeriodStatus[]> = {
+  open: ['locked'],
+  locked: ['open', 'closed'],
+  closed: [],
+};
+
+/** The locked or closed period covering a date (YYYY-MM-DD), if any */
+export function findFrozenPeriod(periods: PayrollPeriod[], date: string): PayrollPeriod | undefined {
+  return periods.find(
+    (period) => period.status !== 'open' && period.period_start <= date && date <= period.period_end
+  );
+}
+
+/** Message shown when OT dated in a frozen period is submitted or edited */
+export function frozenPeriodMessage(period: PayrollPeriod): string {
+  const range = `${format(parseISO(period.period_start), 'd MMM')} – ${format(parseISO(period.period_end), 'd MMM yyyy')}`;
+  return `The payroll period ${range} is ${PAYROLL_PERIOD_STATUS_LABELS[period.status].toLowerCase()}. Ask HR for a payroll adjustment instead.`;
+}
+
+/**
+ * Dates for a company's next period: the calendar month after its latest
+ * period, or the current month when it has none
+ */
+export function getNextPayrollPeriodRange(
+  periods: PayrollPeriod[],
+  today: Date = new Date()
+): { period_start: string; period_end: string } {
+  const latestEnd = periods.reduce<string | null>(
+    (latest, period) => (!latest || period.period_end > latest ? period.period_end : latest),
+    null
+  );
+  const start = latestEnd ? addDays(parseISO(latestEnd), 1) : startOfMonth(today);
+  const end = latestEnd && start.getDate() !== 1 ? addDays(addMonths(start, 1), -1) : endOfMonth(start);
+
+  return { period_start: format(start, 'yyyy-MM-dd'), period_end: format(end, 'yyyy-MM-dd') };
+}
@@ -0,0 +1,88 @@
+import { OTSessionTimes, sessionsOverlap, toDayNumber, toMinutes } from '@/lib/otSessions';
+import { formatTimeRange } from '@/lib/otCalculations';
+import { DayType, RosterDay, RosterDayKind } from '@/types/otms';
+
+/**
+ * Shift rosters. An employee with a roster works the shifts of their pattern;
+ * without one, the calendar (weekdays 09:00–18:00) applies. Mirrors
+ * employee_roster_day and determine_roster_day_type in Postgres.
+ */
+
+export const ROSTER_DAY_KIND_LABELS: Record<RosterDayKind, string> = {
+  work: 'Work day',
+  off: 'Off day',
+  rest: 'Rest day',
+};
+
+/** Day types rostered days are paid at, unless they are holidays */
+export const ROSTER_DAY_TYPES: Record<RosterDayKind, DayType> = {
+  work: 'weekday',
+  off: 'saturday',
+  rest: 'sunday',
+};
+
+/** The day type of a date: holidays first, then the roster, then the calendar */
+export function getRosterDayType(rosterDay: RosterDay | undefined, calendarDayType: string): string {
+  if (calendarDayType === 'public_holiday' || !rosterDay) return calendarDayType;
+  return ROSTER_DAY_TYPES[rosterDay.day_kind];
+}
+
+/** Which day of a pattern's cycle a date is, counting the cycle start as 0 */
+export function getPatternDayIndex(date: string, cycleStartDate: string, cycleLength: number): number {
+  const offset = toDayNumber(date) - toDayNumber(cycleStartDate);
+  return ((offset % cycleLength) + cycleLength) % cycleLength;
+}
+
+/** A rostered shift as a session, so it compares with OT sessions across midnight */
+export function getShiftSession(rosterDay: RosterDay): OTSessionTimes | null {
+  if (rosterDay.day_kind !== 'work' || !rosterDay.shift_start || !rosterDay.shift_end) return null;
+  return {
+    ot_date: rosterDay.roster_date,
+    start_time: rosterDay.shift_start.slice(0, 5),
+    end_time: rosterDay.shift_end.slice(0, 5),
+  };
+}
+
+/** The rostered shift an OT session overlaps, if any */
+export function findOverlappingShift(
+  session: OTSessionTimes,
+  rosterDays: RosterDay[],
+  isHoliday: (date: string) => boolean = () => false
+): RosterDay | undefined {
+  return rosterDays.find((rosterDay) => {
+    const shift = getShiftSession(rosterDay);
+    return !!shift && !isHoliday(rosterDay.roster_date) && sessionsOverlap(session, shift);
+  });
+}
+
+/** e.g. "Night 8:00 PM - 8:00 AM (+1 day)" or "Rest day" */
+export function formatRosterShift(rosterDay: RosterDay): string {
+  const shift = getShiftSession(rosterDay);
+  if (!shift) return ROSTER_DAY_KIND_LABELS[rosterDay.day_kind];
+  return `${rosterDay.shift_name} ${formatTimeRange(shift.start_time, shift.end_time)}`;
+}
+
+/** Start and end of a shift in hours from midnight; an overnight shift ends past 24 */
+export function getShiftHours(rosterDay: RosterDay): { start: number; end: number } | null {
+  const shift = getShiftSession(rosterDay);
+  if (!shift) return null;
+  const start = toMinutes(shift.start_time) / 60;
+  const end = toMinutes(shift.end_time) / 60;
+  return { start, end: end <= start ? end + 24 : end };
+}
+
+/**
+ * The hours of a date covered by rostered shifts, including the morning of a
+ * night shift from the previous date. Each range lies within 0–24.
+ */
+export function getShiftRangesForDate(date: string, rosterDays: RosterDay[]): Array<{ start: number; end: number }> {
+  const dayNumber = toDayNumber(date);
+  return rosterDays.flatMap((rosterDay) => {
+    const hours = getShiftHours(rosterDay);
+    if (!hours) return [];
+    const offset = (toDayNumber(rosterDay.roster_date) - dayNumber) * 24;
+    const start = Math.max(hours.start + offset, 0);
+    const end = Math.min(hours.end + offset, 24);
+    return end > start ? [{ start, end }] : [];
+  });
+}
@@ -0,0 +1,137 @@
+import JSZip from 'jszip';
+
+/**
+ * Reading tabular uploads (CSV exports and Excel workbooks) into rows of
+ * trimmed text cells. Only the first worksheet of a workbook is read, and
+ * cells keep the text Excel would display for strings and numbers; dates
+ * come through as Excel serial numbers (see excelSerialToDate).
+ */
+
+export interface SpreadsheetRow {
+  /** Row number as the user sees it in the file, the header being row 1 */
+  row: number;
+  cells: string[];
+}
+
+/** The first non-empty row is the header; blank rows are left out */
+export interface SpreadsheetTable {
+  headers: string[];
+  rows: SpreadsheetRow[];
+}
+
+const toTable = (rows: SpreadsheetRow[]): SpreadsheetTable =>
+  rows.length === 0 ? { headers: [], rows: [] } : { headers: rows[0].cells, rows: rows.slice(1) };
+
+/** Splits a CSV line, honouring double-quoted fields */
+export function splitCsvLine(line: string, delimiter: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+}
+
+export const detectDelimiter = (header: string) =>
+  [',', ';', '\t'].reduce((best, candidate) =>
+    header.split(candidate).length > header.split(best).length ? candidate : best
+  );
+
+export const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export function parseCsvTable(content: string): SpreadsheetTable {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const header = lines.find((line) => line.trim() !== '');
+  if (header === undefined) return toTable([]);
+
+  const delimiter = detectDelimiter(header);
+  return toTable(
+    lines
+      .map((line, index) => ({ row: index + 1, line }))
+      .filter(({ line }) => line.trim() !== '')
+      .map(({ row, line }) => ({ row, cells: splitCsvLine(line, delimiter) }))
+  );
+}
+
+/** "B12" -> 1 */
+const columnIndex = (reference: string) =>
+  reference
+    .replace(/[0-9]/g, '')
+    .split('')
+    .reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+
+const elements = (parent: Document | Element, name: string) => Array.from(parent.getElementsByTagName(name));
+
+/** Reads the first worksheet of an .xlsx workbook */
+export async function readXlsxTable(data: ArrayBuffer | Uint8Array): Promise<SpreadsheetTable> {
+  const zip = await JSZip.loadAsync(data);
+  const parser = new DOMParser();
+  const readXml = async (path: string) => {
+    const file = zip.file(path);
+    return file ? parser.parseFromString(await file.async('string'), 'application/xml') : null;
+  };
+
+  const stringTable = await readXml('xl/sharedStrings.xml');
+  const sharedStrings = stringTable
+    ? elements(stringTable, 'si').map((item) => elements(item, 't').map((text) => text.textContent ?? '').join(''))
+    : [];
+
+  const workbook = await readXml('xl/workbook.xml');
+  const relations = await readXml('xl/_rels/workbook.xml.rels');
+  const firstSheetRelation = workbook ? elements(workbook, 'sheet')[0]?.getAttribute('r:id') : null;
+  const target = relations
+    ? elements(relations, 'Relationship').find((relation) => relation.getAttribute('Id') === firstSheetRelation)
+        ?.getAttribute('Target')
+    : null;
+  const sheetPath = target ? `xl/${target.replace(/^\/?xl\//, '')}` : 'xl/worksheets/sheet1.xml';
+
+  const sheet = await readXml(sheetPath);
+  if (!sheet) throw new Error('The workbook has no worksheet');
+
+  const rows: SpreadsheetRow[] = [];
+  elements(sheet, 'row').forEach((row, position) => {
+    const cells: string[] = [];
+    elements(row, 'c').forEach((cell, cellPosition) => {
+      const reference = cell.getAttribute('r');
+      const index = reference ? columnIndex(reference) : cellPosition;
+      const type = cell.getAttribute('t');
+      const value = elements(cell, 'v')[0]?.textContent ?? '';
+      let text: string;
+      if (type === 's') text = sharedStrings[Number(value)] ?? '';
+      else if (type === 'inlineStr') text = elements(cell, 't').map((t) => t.textContent ?? '').join('');
+      else if (type === 'b') text = value === '1' ? 'TRUE' : 'FALSE';
+      else text = value;
+      while (cells.length < index) cells.push('');
+      cells[index] = text.trim();
+    });
+    if (cells.some((cell) => cell !== '')) {
+      rows.push({ row: Number(row.getAttribute('r')) || position + 1, cells });
+    }
+  });
+  return toTable(rows);
+}
+
+/** Excel stores dates as days since 1899-12-30; returns YYYY-MM-DD */
+export function excelSerialToDate(serial: number): string {
+  return new Date(Math.round((serial - 25569) * 86_400_000)).toISOString().slice(0, 10);
+}
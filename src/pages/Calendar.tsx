@@ -1,5 +1,5 @@
 import { useEffect, useMemo, useState } from "react";
-import { isSameDay, parseISO } from "date-fns";
+import { endOfMonth, endOfWeek, format, isSameDay, parseISO, startOfMonth, startOfWeek, subDays } from "date-fns";
 import { AppLayout } from "@/components/AppLayout";
 import { CalendarHeader } from "@/components/calendar/CalendarHeader";
 import { TimeGridView } from "@/components/calendar/TimeGridView";
@@ -9,6 +9,7 @@ import { CalendarSidebar } from "@/components/calendar/CalendarSidebar";
 import { ManageHolidaysPanel } from "@/components/calendar/ManageHolidaysPanel";
 import { StatePreviewSelector, type StatePreviewValue } from "@/components/calendar/StatePreviewSelector";
 import { useHolidayCalendarView } from "@/hooks/useHolidayCalendarView";
+import { useEmployeeRoster } from "@/hooks/useEmployeeRoster";
 import { useAuth } from "@/hooks/useAuth";
 import { useMediaQuery } from "@/hooks/useMediaQuery";
 import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet";
@@ -26,7 +27,7 @@ export default function Calendar() {
 
   const isMobile = useMediaQuery("(max-width: 768px)");
   const isDesktop = useMediaQuery("(min-width: 1024px)");
-  const { profile } = useAuth();
+  const { user, profile } = useAuth();
   const { hasRole } = useAuth();
 
   const canManage = hasRole("hr") || hasRole("admin");
@@ -40,6 +41,15 @@ export default function Calendar() {
 
   const { data: holidays, isLoading, error } = useHolidayCalendarView(effectiveState);
 
+  // The viewer's own roster across the visible range, from the night before
+  const rangeStart = startOfWeek(viewMode === "month" ? startOfMonth(selectedDate) : selectedDate);
+  const rangeEnd = endOfWeek(viewMode === "month" ? endOfMonth(selectedDate) : selectedDate);
+  const { data: roster = [] } = useEmployeeRoster(
+    user?.id,
+    format(subDays(rangeStart, 1), "yyyy-MM-dd"),
+    format(rangeEnd, "yyyy-MM-dd")
+  );
+
   const visibleHolidays = useMemo(() => {
     return (holidays || []).filter((h) => {
       const source = h.event_source;
@@ -123,6 +133,7 @@ export default function Calendar() {
                   filters={eventFilters}
                   onDateClick={handleMonthDateClick}
                   onEventClick={handleEventClick}
+                  roster={roster}
                 />
               ) : (
                 <TimeGridView
@@ -133,6 +144,7 @@ export default function Calendar() {
                   onEventClick={handleEventClick}
                   startHour={9}
                   endHour={19}
+                  roster={roster}
                 />
               )}
             </div>
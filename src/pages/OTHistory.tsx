@@ -15,9 +15,11 @@ import { OTSummaryCards } from '@/components/ot/OTSummaryCards';
 import { ResubmitOTForm } from '@/components/ot/ResubmitOTForm';
 import { EditOTForm } from '@/components/ot/EditOTForm';
 import { OTFilterPanel } from '@/components/ot/OTFilterPanel';
+import { QueuedOTSubmissionsCard } from '@/components/ot/QueuedOTSubmissionsCard';
 import { useOTRequests } from '@/hooks/useOTRequests';
 import { useOTFilters } from '@/hooks/useOTFilters';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { useAuth } from '@/hooks/useAuth';
 import { OTRequest } from '@/types/otms';
 import { Skeleton } from '@/components/ui/skeleton';
 import { format } from 'date-fns';
@@ -25,6 +27,7 @@ import { format } from 'date-fns';
 export default function OTHistory() {
   const navigate = useNavigate();
   const isMobile = useIsMobile();
+  const { user } = useAuth();
   const [searchParams, setSearchParams] = useSearchParams();
   const [selectedRequest, setSelectedRequest] = useState<OTRequest | null>(null);
   const [sheetOpen, setSheetOpen] = useState(false);
@@ -134,6 +137,8 @@ export default function OTHistory() {
           <OTSummaryCards requests={requests} />
         )}
 
+        <QueuedOTSubmissionsCard employeeId={user?.id} />
+
         <Card>
           <CardHeader>
             <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
@@ -5,6 +5,7 @@ import { ThemeToggle } from '@/components/ThemeToggle';
 import { PWAInstallSection } from '@/components/pwa/PWAInstallSection';
 import { NotificationSettings } from '@/components/pwa/NotificationSettings';
 import { HRSettingsSection } from '@/components/settings/HRSettingsSection';
+import { DelegationSettingsSection } from '@/components/settings/DelegationSettingsSection';
 
 /**
  * General Settings Page
@@ -12,6 +13,7 @@ import { HRSettingsSection } from '@/components/settings/HRSettingsSection';
  * Accessible to all authenticated users regardless of role.
  * Currently includes:
  * - PWA Installation settings
+ * - Out of office delegation (approvers and their delegates)
  * - Notification settings (hidden by feature flag)
  *
  * Future sections could include:
@@ -52,6 +54,8 @@ export default function Settings() {
 
         <HRSettingsSection />
 
+        <DelegationSettingsSection />
+
         <NotificationSettings />
 
         {/* Future settings sections can be added here */}
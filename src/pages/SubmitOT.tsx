@@ -1,18 +1,26 @@
+import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
 import { useQuery } from '@tanstack/react-query';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { AppLayout } from '@/components/AppLayout';
 import { PageLayout } from '@/components/ui/page-layout';
 import { ContentLoadingSkeleton } from '@/components/ContentLoadingSkeleton';
 import { OTForm } from '@/components/ot/OTForm';
+import { OTDraftsCard } from '@/components/ot/OTDraftsCard';
+import { OTHoursRemainingCard } from '@/components/ot/OTHoursRemainingCard';
 import { useOTSubmit } from '@/hooks/useOTSubmit';
 import { useAuth } from '@/hooks/useAuth';
+import { useResolveOTRequestDraft } from '@/hooks/useResolveOTRequestDraft';
 import { supabase } from '@/integrations/supabase/client';
+import { OTRequestDraft } from '@/types/otms';
 
 export default function SubmitOT() {
   const navigate = useNavigate();
   const { user } = useAuth();
   const { mutate: submitOT, isPending } = useOTSubmit();
+  const { mutate: resolveDraft } = useResolveOTRequestDraft();
+  const [selectedDraft, setSelectedDraft] = useState<OTRequestDraft | null>(null);
 
   const { data: profile, isLoading: profileLoading } = useQuery({
     queryKey: ['profile', user?.id],
@@ -35,8 +43,12 @@ export default function SubmitOT() {
   };
 
   const handleSubmit = (data: any) => {
-    submitOT(data, {
-      onSuccess: () => {
+    // A request queued offline resolves its draft once it syncs
+    submitOT({ ...data, draft_id: selectedDraft?.id }, {
+      onSuccess: ({ request }) => {
+        if (selectedDraft && request) {
+          resolveDraft({ id: selectedDraft.id, status: 'submitted', ot_request_id: request.id });
+        }
         navigate('/ot/history');
       },
     });
@@ -58,16 +70,27 @@ export default function SubmitOT() {
         onBack={() => navigate('/dashboard')}
       >
         <div className="max-w-3xl mx-auto space-y-6">
+          <OTHoursRemainingCard employeeId={user?.id} date={format(new Date(), 'yyyy-MM-dd')} />
+
+          <OTDraftsCard employeeId={user?.id} selectedDraftId={selectedDraft?.id} onUse={setSelectedDraft} />
+
           <Card className="bg-card border border-border rounded-xl shadow-lg dark:shadow-md transition-shadow duration-300">
             <CardContent className="px-6 py-6">
               <OTForm
+                key={selectedDraft?.id ?? 'new'}
                 onSubmit={handleSubmit}
                 isSubmitting={isPending}
                 employeeId={profile?.employee_id || ''}
                 fullName={profile?.full_name || ''}
                 onCancel={handleCancel}
+                allowOffline
                 defaultValues={{
                   ot_location_state: profile?.state || '',
+                  ...(selectedDraft && {
+                    ot_date: parseISO(selectedDraft.ot_date),
+                    start_time: selectedDraft.start_time.slice(0, 5),
+                    end_time: selectedDraft.end_time.slice(0, 5),
+                  }),
                 }}
               />
             </CardContent>
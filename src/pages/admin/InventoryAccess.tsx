@@ -0,0 +1,20 @@
+import { AppLayout } from '@/components/AppLayout';
+import { PageLayout } from '@/components/ui/page-layout';
+import { InventoryKiosksCard } from '@/components/admin/InventoryKiosksCard';
+import { InventoryScanHistoryCard } from '@/components/admin/InventoryScanHistoryCard';
+
+export default function InventoryAccess() {
+  return (
+    <AppLayout>
+      <PageLayout
+        title="Inventory Access"
+        description="Register the store counter kiosks that scan employees' inventory QR codes, and review every scan."
+      >
+        <div className="space-y-6">
+          <InventoryKiosksCard />
+          <InventoryScanHistoryCard />
+        </div>
+      </PageLayout>
+    </AppLayout>
+  );
+}
@@ -0,0 +1,133 @@
+import { useState } from 'react';
+import { AppLayout } from '@/components/AppLayout';
+import { PageLayout } from '@/components/ui/page-layout';
+import { Card } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
+import { OTApprovalTable } from '@/components/approvals/OTApprovalTable';
+import { BulkDecisionDialog } from '@/components/approvals/BulkDecisionDialog';
+import { useOTApproval } from '@/hooks/useOTApproval';
+import { useHeadedDepartments } from '@/hooks/useHeadedDepartments';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Check, Search } from 'lucide-react';
+import { GroupedOTRequest } from '@/types/otms';
+
+export default function DepartmentApproveOT() {
+  const [searchQuery, setSearchQuery] = useState('');
+  const [activeTab, setActiveTab] = useState('pending');
+  const [selectAll, setSelectAll] = useState(false);
+  // Rows under bulk review, kept while the queue refetches behind the dialog
+  const [bulkReviewRows, setBulkReviewRows] = useState<GroupedOTRequest[] | null>(null);
+  const { data: headedDepartments = [] } = useHeadedDepartments();
+
+  const {
+    requests,
+    isLoading,
+    approveRequest: approveRequestMutation,
+    rejectRequest: rejectRequestMutation,
+    isApproving,
+    isRejecting
+  } = useOTApproval({ role: 'department_head', status: activeTab });
+
+  const filteredRequests = (requests || []).filter(request => {
+    if (!searchQuery) return true;
+    const profile = request.profiles;
+    const employeeName = profile?.full_name?.toLowerCase() || '';
+    const employeeId = profile?.employee_id?.toLowerCase() || '';
+    const query = searchQuery.toLowerCase();
+    return employeeName.includes(query) || employeeId.includes(query);
+  });
+
+  const selectedRows = selectAll ? filteredRequests : [];
+
+  const handleApprove = async (requestIds: string[], remarks?: string) => {
+    await approveRequestMutation({ requestIds, remarks });
+  };
+
+  const handleReject = async (requestIds: string[], remarks: string) => {
+    await rejectRequestMutation({ requestIds, remarks });
+  };
+
+  return (
+    <AppLayout>
+      <PageLayout
+        title="Department Approval"
+        description={
+          headedDepartments.length > 0
+            ? `Approve overtime for ${headedDepartments.map(d => d.name).join(', ')} before HR certification.`
+            : 'You are not assigned as head of any department.'
+        }
+      >
+        <Tabs value={activeTab} onValueChange={setActiveTab}>
+          <TabsList className="grid w-full grid-cols-4">
+            <TabsTrigger value="pending">⏳ Awaiting Approval</TabsTrigger>
+            <TabsTrigger value="completed">✓ Approved</TabsTrigger>
+            <TabsTrigger value="rejected">⚠ Rejected</TabsTrigger>
+            <TabsTrigger value="all">📋 All</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value={activeTab} className="mt-6">
+            <Card className="p-6">
+              <div className="space-y-4">
+                <div className="relative max-w-sm">
+                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    placeholder="Search by employee or ID..."
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                    className="pl-10"
+                  />
+                </div>
+
+                {/* Select All + Bulk Approve */}
+                {activeTab === 'pending' && filteredRequests.length > 0 && (
+                  <div className="flex items-center gap-4 pb-4 bg-blue-50 dark:bg-slate-900 p-4 rounded-lg border border-blue-200 dark:border-slate-700">
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        id="selectAll"
+                        checked={selectAll}
+                        onChange={(e) => setSelectAll(e.target.checked)}
+                        className="h-4 w-4 cursor-pointer rounded border-gray-300 dark:border-slate-600 dark:bg-slate-800"
+                      />
+                      <label htmlFor="selectAll" className="text-sm font-medium cursor-pointer dark:text-slate-200">
+                        Select all ({filteredRequests.length} pending)
+                      </label>
+                    </div>
+                    <Button
+                      onClick={() => setBulkReviewRows(selectedRows)}
+                      disabled={selectedRows.length === 0}
+                      className="ml-auto gap-2"
+                    >
+                      <Check className="h-4 w-4" />
+                      Review Selected
+                    </Button>
+                  </div>
+                )}
+
+                <OTApprovalTable
+                  requests={filteredRequests}
+                  isLoading={isLoading}
+                  role="department_head"
+                  approveRequest={handleApprove}
+                  rejectRequest={handleReject}
+                  isApproving={isApproving}
+                  isRejecting={isRejecting}
+                  showActions={activeTab === 'pending'}
+                />
+              </div>
+            </Card>
+          </TabsContent>
+        </Tabs>
+      </PageLayout>
+
+      <BulkDecisionDialog
+        open={!!bulkReviewRows}
+        onOpenChange={(open) => !open && setBulkReviewRows(null)}
+        role="department_head"
+        requests={bulkReviewRows || []}
+        onDecided={() => setSelectAll(false)}
+      />
+    </AppLayout>
+  );
+}
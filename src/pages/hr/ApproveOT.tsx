@@ -8,8 +8,11 @@ import { OTApprovalTable } from '@/components/approvals/OTApprovalTable';
 import { OTApprovalDetailsSheet } from '@/components/approvals/OTApprovalDetailsSheet';
 import { OTApprovalDetailsSheet as RecertifyDetailsSheet } from '@/components/hr/approve/OTApprovalDetailsSheet';
 import { useOTApproval } from '@/hooks/useOTApproval';
+import { useActiveDelegations } from '@/hooks/useActiveDelegations';
+import { DelegationNotice } from '@/components/approvals/DelegationNotice';
+import { BulkDecisionDialog } from '@/components/approvals/BulkDecisionDialog';
 import { Input } from '@/components/ui/input';
-import { Search, CheckCircle, XCircle, ArrowLeft } from 'lucide-react';
+import { Search, Check, CheckCircle, XCircle, ArrowLeft } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { usePendingRecertifications, useRecertifyOTActions } from '@/hooks/hr/useRecertifyOT';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
@@ -20,10 +23,12 @@ import { Button } from '@/components/ui/button';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Skeleton } from '@/components/ui/skeleton';
 import { format } from 'date-fns';
+import { GroupedOTRequest } from '@/types/otms';
 
 export default function ApproveOT() {
   const [searchParams, setSearchParams] = useSearchParams();
   const [searchQuery, setSearchQuery] = useState('');
+  const { data: activeDelegations = [] } = useActiveDelegations();
   const [activeTab, setActiveTab] = useState(() => {
     const tabParam = searchParams.get('tab');
     return tabParam || 'pending'; // Consolidated to "pending"
@@ -34,6 +39,9 @@ export default function ApproveOT() {
   const [recertifyAction, setRecertifyAction] = useState<'recertify' | 'decline' | null>(null);
   const [recertifyRemarks, setRecertifyRemarks] = useState('');
   const [recertifyDialogOpen, setRecertifyDialogOpen] = useState(false);
+  const [selectAll, setSelectAll] = useState(false);
+  // Rows under bulk review, kept while the queue refetches behind the dialog
+  const [bulkReviewRows, setBulkReviewRows] = useState<GroupedOTRequest[] | null>(null);
 
   const {
     requests,
@@ -49,7 +57,7 @@ export default function ApproveOT() {
 
   // Helper function to determine which "logical" tab a request belongs to
   const getTabForStatus = (status: string): string => {
-    const pendingStatuses = ['supervisor_confirmed', 'supervisor_verified'];
+    const pendingStatuses = ['supervisor_confirmed', 'supervisor_verified', 'department_head_approved'];
     const certifiedStatuses = ['hr_certified'];
     const rejectedStatuses = ['rejected'];
 
@@ -63,7 +71,7 @@ export default function ApproveOT() {
   const filterRequestsByTab = (requests: typeof requests, tab: string) => {
     if (tab === 'all') return requests;
 
-    const pendingStatuses = ['supervisor_confirmed', 'supervisor_verified'];
+    const pendingStatuses = ['supervisor_confirmed', 'supervisor_verified', 'department_head_approved'];
     const certifiedStatuses = ['hr_certified'];
     const rejectedStatuses = ['rejected'];
 
@@ -130,6 +138,8 @@ export default function ApproveOT() {
     await rejectRequestMutation({ requestIds, remarks });
   };
 
+  const selectedRows = selectAll ? filteredRequests : [];
+
   const handleRecertifyAction = (request: any, actionType: 'recertify' | 'decline') => {
     setRecertifySelectedRequest(request);
     setRecertifyAction(actionType);
@@ -159,6 +169,8 @@ export default function ApproveOT() {
         description="Certify overtime requests that have been verified by supervisors"
       >
 
+        <DelegationNotice delegations={activeDelegations} role="hr" />
+
         <Tabs value={activeTab} onValueChange={setActiveTab} defaultValue="pending">
           <TabsList className="grid w-full grid-cols-5">
             <TabsTrigger value="pending">
@@ -294,6 +306,32 @@ export default function ApproveOT() {
                     />
                   </div>
 
+                  {/* Select All + Bulk Certify */}
+                  {activeTab === 'pending' && filteredRequests.length > 0 && (
+                    <div className="flex items-center gap-4 pb-4 bg-blue-50 dark:bg-slate-900 p-4 rounded-lg border border-blue-200 dark:border-slate-700">
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          id="selectAll"
+                          checked={selectAll}
+                          onChange={(e) => setSelectAll(e.target.checked)}
+                          className="h-4 w-4 cursor-pointer rounded border-gray-300 dark:border-slate-600 dark:bg-slate-800"
+                        />
+                        <label htmlFor="selectAll" className="text-sm font-medium cursor-pointer dark:text-slate-200">
+                          Select all ({filteredRequests.length} pending)
+                        </label>
+                      </div>
+                      <Button
+                        onClick={() => setBulkReviewRows(selectedRows)}
+                        disabled={selectedRows.length === 0}
+                        className="ml-auto gap-2"
+                      >
+                        <Check className="h-4 w-4" />
+                        Review Selected
+                      </Button>
+                    </div>
+                  )}
+
                   <OTApprovalTable
                     requests={filteredRequests}
                     isLoading={isLoading}
@@ -381,6 +419,14 @@ export default function ApproveOT() {
           isDeclining={recertifyActions.decline.isPending}
         />
       </PageLayout>
+
+      <BulkDecisionDialog
+        open={!!bulkReviewRows}
+        onOpenChange={(open) => !open && setBulkReviewRows(null)}
+        role="hr"
+        requests={bulkReviewRows || []}
+        onDecided={() => setSelectAll(false)}
+      />
     </AppLayout>
   );
 }
@@ -0,0 +1,33 @@
+import { useState } from 'react';
+import { Upload } from 'lucide-react';
+import { AppLayout } from '@/components/AppLayout';
+import { PageLayout } from '@/components/ui/page-layout';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { AttendanceImportDialog } from '@/components/hr/attendance/AttendanceImportDialog';
+import { AttendanceImportBatches } from '@/components/hr/attendance/AttendanceImportBatches';
+
+export default function Attendance() {
+  const [showImportDialog, setShowImportDialog] = useState(false);
+
+  return (
+    <AppLayout>
+      <PageLayout
+        title="Attendance"
+        description="Import punches from the biometric terminals and draft OT from time beyond the shift"
+        actions={
+          <Button onClick={() => setShowImportDialog(true)}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import Punches
+          </Button>
+        }
+      >
+        <Card className="p-6">
+          <AttendanceImportBatches />
+        </Card>
+      </PageLayout>
+
+      <AttendanceImportDialog open={showImportDialog} onOpenChange={setShowImportDialog} />
+    </AppLayout>
+  );
+}
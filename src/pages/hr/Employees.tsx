@@ -6,9 +6,10 @@ import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { UserPlus, Download, RotateCw, Search, Archive } from 'lucide-react';
+import { UserPlus, Download, RotateCw, Search, Archive, Upload } from 'lucide-react';
 import { EmployeeTable } from '@/components/hr/employees/EmployeeTable';
 import { InviteEmployeeDialog } from '@/components/hr/employees/InviteEmployeeDialog';
+import { EmployeeImportWizard } from '@/components/hr/employees/EmployeeImportWizard';
 import { EmployeeStats } from '@/components/hr/employees/EmployeeStats';
 import { useEmployees } from '@/hooks/hr/useEmployees';
 import { useQueryClient } from '@tanstack/react-query';
@@ -18,6 +19,7 @@ import { useToast } from '@/hooks/use-toast';
 export default function Employees() {
   const navigate = useNavigate();
   const [inviteDialogOpen, setInviteDialogOpen] = useState(false);
+  const [importWizardOpen, setImportWizardOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [statusFilter, setStatusFilter] = useState('all');
   const { data: employees, isLoading } = useEmployees();
@@ -99,6 +101,10 @@ export default function Employees() {
               <Download className="h-4 w-4 mr-2" />
               Export
             </Button>
+            <Button variant="outline" size="sm" onClick={() => setImportWizardOpen(true)}>
+              <Upload className="h-4 w-4 mr-2" />
+              Import
+            </Button>
             <Button size="sm" onClick={() => setInviteDialogOpen(true)}>
               <UserPlus className="h-4 w-4 mr-2" />
               Add Employee
@@ -145,6 +151,11 @@ export default function Employees() {
           open={inviteDialogOpen}
           onOpenChange={setInviteDialogOpen}
         />
+
+        <EmployeeImportWizard
+          open={importWizardOpen}
+          onOpenChange={setImportWizardOpen}
+        />
       </PageLayout>
     </AppLayout>
   );
@@ -5,18 +5,24 @@ import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Search, DollarSign, Clock, Building2, Users, Download, FileText, Filter } from 'lucide-react';
+import { Search, DollarSign, Clock, Building2, Users, Download, FileText, Filter, Send } from 'lucide-react';
 import { EnhancedDashboardCard } from '@/components/hr/EnhancedDashboardCard';
 import { HRReportTable } from '@/components/hr/reports/HRReportTable';
 import { CompanyReportCard } from '@/components/reports/CompanyReportCard';
+import { CostCentreReportCard } from '@/components/reports/CostCentreReportCard';
+import { ReasonReportCard } from '@/components/reports/ReasonReportCard';
+import { PayrollExportDialog } from '@/components/hr/reports/PayrollExportDialog';
+import { PayrollExportBatches } from '@/components/hr/reports/PayrollExportBatches';
 import { useHRReportData } from '@/hooks/useHRReportData';
 import { useCompanyProfile } from '@/hooks/hr/useCompanyProfile';
+import { usePayrollExportBatches } from '@/hooks/hr/usePayrollExportBatches';
 import { exportToCSV } from '@/lib/exportUtils';
+import { getPayrollRowKey } from '@/lib/payrollExport';
 import { generateHRReportPDF } from '@/lib/hrReportPdfGenerator';
 import { groupByCompany, calculateOverallStats } from '@/lib/companyReportUtils';
 import { formatCurrency, formatHours } from '@/lib/otCalculations';
 import { toast } from '@/hooks/use-toast';
-import { format } from 'date-fns';
+import { endOfMonth, format } from 'date-fns';
 
 export default function OTReports() {
   const [searchQuery, setSearchQuery] = useState('');
@@ -27,6 +33,7 @@ export default function OTReports() {
   const [appliedMonth, setAppliedMonth] = useState<string>((currentDate.getMonth() + 1).toString());
   const [appliedYear, setAppliedYear] = useState<string>(currentDate.getFullYear().toString());
   const [selectedCompany, setSelectedCompany] = useState<string>('all');
+  const [isPayrollExportOpen, setIsPayrollExportOpen] = useState(false);
 
   const filterDate = useMemo(() => {
     return new Date(parseInt(appliedYear), parseInt(appliedMonth) - 1, 1);
@@ -35,6 +42,26 @@ export default function OTReports() {
   const { data, isLoading } = useHRReportData(filterDate);
   const { data: companyProfile } = useCompanyProfile();
 
+  const periodStart = format(filterDate, 'yyyy-MM-dd');
+  const periodEnd = format(endOfMonth(filterDate), 'yyyy-MM-dd');
+  const { data: payrollBatches = [] } = usePayrollExportBatches(periodStart, periodEnd);
+
+  const exportedRowKeys = useMemo(() => new Set(
+    payrollBatches
+      .filter(batch => batch.status === 'exported')
+      .flatMap(batch => [
+        ...(batch.payroll_export_batch_items || []).map(item => item.ot_request_id),
+        ...(batch.payroll_export_batch_adjustments || []).map(item =>
+          getPayrollRowKey({ request_id: '', adjustment_id: item.adjustment_id })
+        )
+      ])
+  ), [payrollBatches]);
+
+  const payrollRows = useMemo(
+    () => [...(data?.requests || []), ...(data?.adjustments || [])],
+    [data]
+  );
+
   const aggregatedData = data?.aggregated || [];
 
   const uniqueCompanies = useMemo(() => {
@@ -310,6 +337,14 @@ export default function OTReports() {
                   <FileText className="mr-2 h-4 w-4" />
                   Export PDF
                 </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => setIsPayrollExportOpen(true)}
+                  disabled={isLoading || aggregatedData.length === 0}
+                >
+                  <Send className="mr-2 h-4 w-4" />
+                  Export to Payroll
+                </Button>
               </div>
             </div>
 
@@ -338,6 +373,31 @@ export default function OTReports() {
             </div>
           </div>
         </Card>
+
+        <CostCentreReportCard totals={data?.costCentres || []} periodLabel={format(filterDate, 'MMMM yyyy')} />
+
+        <ReasonReportCard totals={data?.reasons || []} periodLabel={format(filterDate, 'MMMM yyyy')} />
+
+        <Card className="p-6 space-y-4">
+          <div>
+            <h2 className="text-lg font-semibold">Payroll Exports</h2>
+            <p className="text-sm text-muted-foreground">
+              Batches of approved OT sent to payroll for {format(filterDate, 'MMMM yyyy')}
+            </p>
+          </div>
+          <PayrollExportBatches batches={payrollBatches} rows={payrollRows} />
+        </Card>
+
+        <PayrollExportDialog
+          open={isPayrollExportOpen}
+          onOpenChange={setIsPayrollExportOpen}
+          periodStart={periodStart}
+          periodEnd={periodEnd}
+          periodLabel={format(filterDate, 'MMMM yyyy')}
+          rows={payrollRows}
+          exportedRowKeys={exportedRowKeys}
+          companies={uniqueCompanies}
+        />
       </PageLayout>
     </AppLayout>
   );
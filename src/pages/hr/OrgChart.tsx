@@ -0,0 +1,184 @@
+import { useMemo, useState } from 'react';
+import { AlertTriangle, ChevronsDownUp, ChevronsUpDown, Loader2, Search } from 'lucide-react';
+import { AppLayout } from '@/components/AppLayout';
+import { PageLayout } from '@/components/ui/page-layout';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { OrgChartTree } from '@/components/hr/org-chart/OrgChartTree';
+import { ReassignSupervisorDialog } from '@/components/hr/org-chart/ReassignSupervisorDialog';
+import { useEmployees } from '@/hooks/hr/useEmployees';
+import { useToast } from '@/hooks/use-toast';
+import { buildOrgChart, getReassignmentError, OrgChartEmployee, OrgChartNode } from '@/lib/orgChart';
+
+interface Reassignment {
+  employeeIds: string[];
+  supervisorId: string | null;
+  title: string;
+}
+
+/** Levels shown before HR expands further */
+const INITIAL_DEPTH = 2;
+
+export default function OrgChart() {
+  const { data: profiles = [], isLoading } = useEmployees();
+  const { toast } = useToast();
+  const [search, setSearch] = useState('');
+  const [expandedIds, setExpandedIds] = useState<Set<string> | null>(null);
+  const [reassignment, setReassignment] = useState<Reassignment | null>(null);
+
+  const employees: OrgChartEmployee[] = useMemo(
+    () =>
+      profiles.map((profile) => ({
+        id: profile.id,
+        employee_id: profile.employee_id,
+        full_name: profile.full_name,
+        position: profile.position,
+        supervisor_id: profile.supervisor_id,
+        roles: profile.user_roles?.map((r) => r.role) || [],
+      })),
+    [profiles]
+  );
+
+  const chart = useMemo(() => buildOrgChart(employees), [employees]);
+  const flaggedIds = useMemo(() => new Set(chart.issues.map((issue) => issue.employeeId)), [chart]);
+  const byId = useMemo(() => new Map(employees.map((employee) => [employee.id, employee])), [employees]);
+
+  const defaultExpandedIds = useMemo(() => {
+    const ids = new Set<string>();
+    const walk = (nodes: OrgChartNode[], depth: number) =>
+      nodes.forEach((node) => {
+        if (depth < INITIAL_DEPTH) {
+          ids.add(node.employee.id);
+          walk(node.reports, depth + 1);
+        }
+      });
+    walk(chart.roots, 1);
+    return ids;
+  }, [chart]);
+
+  // While searching, open the way down to every match
+  const matchedIds = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    if (!query) return null;
+    const ids = new Set<string>();
+    employees
+      .filter((e) => e.full_name.toLowerCase().includes(query) || e.employee_id.toLowerCase().includes(query))
+      .forEach((match) => {
+        let current = match.supervisor_id ? byId.get(match.supervisor_id) : undefined;
+        while (current && !ids.has(current.id)) {
+          ids.add(current.id);
+          current = current.supervisor_id ? byId.get(current.supervisor_id) : undefined;
+        }
+      });
+    return ids;
+  }, [search, employees, byId]);
+
+  const shownExpandedIds = matchedIds ?? expandedIds ?? defaultExpandedIds;
+
+  const handleToggle = (employeeId: string) => {
+    const next = new Set(shownExpandedIds);
+    if (next.has(employeeId)) next.delete(employeeId);
+    else next.add(employeeId);
+    setSearch('');
+    setExpandedIds(next);
+  };
+
+  const handleDrop = (employeeId: string, supervisorId: string) => {
+    if (byId.get(employeeId)?.supervisor_id === supervisorId) return;
+    const error = getReassignmentError(employees, employeeId, supervisorId);
+    if (error) {
+      toast({ title: 'Error', description: error, variant: 'destructive' });
+      return;
+    }
+    setReassignment({
+      employeeIds: [employeeId],
+      supervisorId,
+      title: `Move ${byId.get(employeeId)?.full_name} to ${byId.get(supervisorId)?.full_name}`,
+    });
+  };
+
+  const handleReassignReports = (node: OrgChartNode) => {
+    setReassignment({
+      employeeIds: node.reports.map((report) => report.employee.id),
+      supervisorId: null,
+      title: `Reassign the reports of ${node.employee.full_name}`,
+    });
+  };
+
+  return (
+    <AppLayout>
+      <PageLayout
+        title="Org Chart"
+        description="Reporting lines from each employee's supervisor. Drag an employee onto their new supervisor to reassign them."
+        actions={
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setExpandedIds(new Set(employees.map((employee) => employee.id)))}
+            >
+              <ChevronsUpDown className="h-4 w-4 mr-2" />
+              Expand All
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setExpandedIds(new Set())}>
+              <ChevronsDownUp className="h-4 w-4 mr-2" />
+              Collapse All
+            </Button>
+          </div>
+        }
+      >
+        {chart.issues.length > 0 && (
+          <Alert className="mb-4 border-amber-500">
+            <AlertTriangle className="h-4 w-4 text-amber-500" />
+            <AlertTitle>{chart.issues.length} reporting line problem(s)</AlertTitle>
+            <AlertDescription>
+              <ul className="mt-1 space-y-1 text-sm">
+                {chart.issues.map((issue) => (
+                  <li key={`${issue.employeeId}-${issue.type}`}>{issue.message}</li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="relative mb-4">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Find an employee by name or ID..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+
+        <Card className="p-6">
+          {isLoading ? (
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          ) : chart.roots.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No employees yet.</p>
+          ) : (
+            <OrgChartTree
+              nodes={chart.roots}
+              expandedIds={shownExpandedIds}
+              onToggle={handleToggle}
+              flaggedIds={flaggedIds}
+              onDrop={handleDrop}
+              onReassignReports={handleReassignReports}
+            />
+          )}
+        </Card>
+
+        <ReassignSupervisorDialog
+          open={reassignment !== null}
+          onOpenChange={(open) => !open && setReassignment(null)}
+          employees={employees}
+          employeeIds={reassignment?.employeeIds ?? []}
+          supervisorId={reassignment?.supervisorId}
+          title={reassignment?.title ?? ''}
+        />
+      </PageLayout>
+    </AppLayout>
+  );
+}
@@ -5,6 +5,12 @@ import { EligibilityRulesTab } from '@/components/hr/settings/EligibilityRulesTa
 import { ThresholdsTab } from '@/components/hr/settings/ThresholdsTab';
 import { FormulasTab } from '@/components/hr/settings/FormulasTab';
 import { CompanyProfileTab } from '@/components/hr/settings/CompanyProfileTab';
+import { ApprovalChainsTab } from '@/components/hr/settings/ApprovalChainsTab';
+import { ApprovalSlasTab } from '@/components/hr/settings/ApprovalSlasTab';
+import { PayrollExportLayoutsTab } from '@/components/hr/settings/PayrollExportLayoutsTab';
+import { PayrollPeriodsTab } from '@/components/hr/settings/PayrollPeriodsTab';
+import { CostCentresTab } from '@/components/hr/settings/CostCentresTab';
+import { OTReasonsTab } from '@/components/hr/settings/OTReasonsTab';
 
 export default function Settings() {
   return (
@@ -17,10 +23,16 @@ export default function Settings() {
 
         <Card className="p-6">
           <Tabs defaultValue="eligibility" className="w-full">
-            <TabsList className="grid w-full grid-cols-4">
+            <TabsList className="grid w-full grid-cols-10">
               <TabsTrigger value="eligibility">Eligibility</TabsTrigger>
               <TabsTrigger value="thresholds">Thresholds</TabsTrigger>
               <TabsTrigger value="formulas">Formulas</TabsTrigger>
+              <TabsTrigger value="approval-chains">Approval Chains</TabsTrigger>
+              <TabsTrigger value="slas">SLAs</TabsTrigger>
+              <TabsTrigger value="payroll-export">Payroll Export</TabsTrigger>
+              <TabsTrigger value="payroll-periods">Payroll Periods</TabsTrigger>
+              <TabsTrigger value="cost-centres">Cost Centres</TabsTrigger>
+              <TabsTrigger value="reasons">Reasons</TabsTrigger>
               <TabsTrigger value="company">Company</TabsTrigger>
             </TabsList>
 
@@ -36,6 +48,30 @@ export default function Settings() {
               <FormulasTab />
             </TabsContent>
 
+            <TabsContent value="approval-chains" className="mt-6">
+              <ApprovalChainsTab />
+            </TabsContent>
+
+            <TabsContent value="slas" className="mt-6">
+              <ApprovalSlasTab />
+            </TabsContent>
+
+            <TabsContent value="payroll-export" className="mt-6">
+              <PayrollExportLayoutsTab />
+            </TabsContent>
+
+            <TabsContent value="payroll-periods" className="mt-6">
+              <PayrollPeriodsTab />
+            </TabsContent>
+
+            <TabsContent value="cost-centres" className="mt-6">
+              <CostCentresTab />
+            </TabsContent>
+
+            <TabsContent value="reasons" className="mt-6">
+              <OTReasonsTab />
+            </TabsContent>
+
             <TabsContent value="company" className="mt-6">
               <CompanyProfileTab />
             </TabsContent>
@@ -0,0 +1,37 @@
+import { AppLayout } from '@/components/AppLayout';
+import { PageLayout } from '@/components/ui/page-layout';
+import { Card } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ShiftTemplatesTab } from '@/components/hr/shifts/ShiftTemplatesTab';
+import { ShiftPatternsTab } from '@/components/hr/shifts/ShiftPatternsTab';
+import { ShiftAssignmentsTab } from '@/components/hr/shifts/ShiftAssignmentsTab';
+
+export default function ShiftRosters() {
+  return (
+    <AppLayout>
+      <PageLayout
+        title="Shift Rosters"
+        description="Define shifts and rotations, and assign employees to them from a date"
+      >
+        <Card className="p-6">
+          <Tabs defaultValue="assignments" className="w-full">
+            <TabsList className="grid w-full grid-cols-3">
+              <TabsTrigger value="assignments">Assignments</TabsTrigger>
+              <TabsTrigger value="patterns">Patterns</TabsTrigger>
+              <TabsTrigger value="shifts">Shifts</TabsTrigger>
+            </TabsList>
+            <TabsContent value="assignments" className="mt-6">
+              <ShiftAssignmentsTab />
+            </TabsContent>
+            <TabsContent value="patterns" className="mt-6">
+              <ShiftPatternsTab />
+            </TabsContent>
+            <TabsContent value="shifts" className="mt-6">
+              <ShiftTemplatesTab />
+            </TabsContent>
+          </Tabs>
+        </Card>
+      </PageLayout>
+    </AppLayout>
+  );
+}
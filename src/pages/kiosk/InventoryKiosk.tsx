@@ -0,0 +1,187 @@
+import { FormEvent, useEffect, useRef, useState } from 'react';
+import { CheckCircle2, KeyRound, Loader2, ScanLine, XCircle } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { KIOSK_KEY_STORAGE_KEY, SCAN_RESULT_LABELS, parseBadgeToken } from '@/lib/inventoryAccess';
+import { KioskKeyRejectedError, verifyInventoryBadge } from '@/services/inventory-access';
+import { InventoryBadgeVerification } from '@/types/otms';
+
+/** How long a scan's outcome stays on screen */
+const RESULT_DISPLAY_MS = 6000;
+
+type ScanOutcome = { verification: InventoryBadgeVerification } | { error: string };
+
+/**
+ * Store counter kiosk. Runs without a sign-in on the counter device; the
+ * kiosk key an admin registered it with is kept in this browser. Works with
+ * keyboard-wedge scanners, which type the QR's contents followed by Enter.
+ */
+export default function InventoryKiosk() {
+  const [kioskKey, setKioskKey] = useState(() => localStorage.getItem(KIOSK_KEY_STORAGE_KEY));
+  const [keyInput, setKeyInput] = useState('');
+  const [keyError, setKeyError] = useState<string | null>(null);
+  const [scanInput, setScanInput] = useState('');
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [outcome, setOutcome] = useState<ScanOutcome | null>(null);
+  const scanRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!outcome) return;
+    const timeout = setTimeout(() => setOutcome(null), RESULT_DISPLAY_MS);
+    return () => clearTimeout(timeout);
+  }, [outcome]);
+
+  useEffect(() => {
+    if (kioskKey && !isVerifying) scanRef.current?.focus();
+  }, [kioskKey, isVerifying]);
+
+  const saveKey = (e: FormEvent) => {
+    e.preventDefault();
+    localStorage.setItem(KIOSK_KEY_STORAGE_KEY, keyInput.trim());
+    setKioskKey(keyInput.trim());
+    setKeyInput('');
+    setKeyError(null);
+  };
+
+  const forgetKey = () => {
+    localStorage.removeItem(KIOSK_KEY_STORAGE_KEY);
+    setKioskKey(null);
+    setOutcome(null);
+  };
+
+  const handleScan = async (e: FormEvent) => {
+    e.preventDefault();
+    const scanned = scanInput.trim();
+    setScanInput('');
+    if (!scanned || !kioskKey) return;
+
+    setIsVerifying(true);
+    try {
+      // Unreadable codes are still sent so the scan is logged
+      const verification = await verifyInventoryBadge(kioskKey, parseBadgeToken(scanned) ?? scanned);
+      setOutcome({ verification });
+    } catch (error) {
+      if (error instanceof KioskKeyRejectedError) {
+        forgetKey();
+        setKeyError('This kiosk key was not accepted. It may have been deactivated; ask an admin for a new one.');
+      } else {
+        setOutcome({ error: error instanceof Error ? error.message : 'Verification failed' });
+      }
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  if (!kioskKey) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-muted/40 p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <KeyRound className="h-5 w-5" />
+              Set Up Inventory Kiosk
+            </CardTitle>
+            <CardDescription>Enter the key shown when an admin registered this kiosk.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={saveKey} className="space-y-4">
+              {keyError && (
+                <Alert variant="destructive">
+                  <AlertDescription>{keyError}</AlertDescription>
+                </Alert>
+              )}
+              <div className="grid gap-2">
+                <Label htmlFor="kiosk_key">Kiosk key</Label>
+                <Input
+                  id="kiosk_key"
+                  value={keyInput}
+                  onChange={(e) => setKeyInput(e.target.value)}
+                  className="font-mono"
+                  autoComplete="off"
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={!keyInput.trim()}>
+                Start Kiosk
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const verification = outcome && 'verification' in outcome ? outcome.verification : null;
+  const granted = verification?.result === 'granted';
+  const label = verification ? SCAN_RESULT_LABELS[verification.result] : null;
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center gap-8 bg-muted/40 p-4">
+      <form onSubmit={handleScan} className="w-full max-w-md space-y-2">
+        <Label htmlFor="badge_scan" className="flex items-center gap-2 text-lg">
+          <ScanLine className="h-5 w-5" />
+          Scan inventory QR
+        </Label>
+        <Input
+          id="badge_scan"
+          ref={scanRef}
+          value={scanInput}
+          onChange={(e) => setScanInput(e.target.value)}
+          onBlur={() => setTimeout(() => scanRef.current?.focus(), 100)}
+          disabled={isVerifying}
+          autoComplete="off"
+          className="h-12 text-lg"
+        />
+      </form>
+
+      <Card
+        className={`w-full max-w-md border-2 ${
+          !outcome ? '' : granted ? 'border-green-500 bg-green-50 dark:bg-green-950/20' : 'border-destructive bg-destructive/10'
+        }`}
+      >
+        <CardContent className="flex flex-col items-center gap-3 py-10 text-center">
+          {isVerifying ? (
+            <>
+              <Loader2 className="h-12 w-12 animate-spin text-muted-foreground" />
+              <p className="text-lg">Verifying...</p>
+            </>
+          ) : !outcome ? (
+            <p className="text-lg text-muted-foreground">Waiting for a scan</p>
+          ) : verification && label ? (
+            <>
+              {granted ? (
+                <CheckCircle2 className="h-16 w-16 text-green-600" />
+              ) : (
+                <XCircle className="h-16 w-16 text-destructive" />
+              )}
+              <p className="text-2xl font-semibold">{label.title}</p>
+              {granted && verification.identity ? (
+                <div className="space-y-1">
+                  <p className="text-xl">{verification.identity.name}</p>
+                  <p className="text-muted-foreground">
+                    {verification.identity.employee_no}
+                    {verification.identity.department && ` · ${verification.identity.department}`}
+                  </p>
+                </div>
+              ) : (
+                <p className="text-muted-foreground">{label.description}</p>
+              )}
+            </>
+          ) : (
+            <>
+              <XCircle className="h-16 w-16 text-destructive" />
+              <p className="text-2xl font-semibold">Could not verify</p>
+              <p className="text-muted-foreground">{'error' in outcome ? outcome.error : ''}</p>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Button variant="ghost" size="sm" onClick={forgetKey}>
+        Remove kiosk key from this device
+      </Button>
+    </div>
+  );
+}
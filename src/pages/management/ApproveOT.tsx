@@ -7,24 +7,20 @@ import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
 import { OTApprovalTable } from '@/components/approvals/OTApprovalTable';
 import { useOTApproval } from '@/hooks/useOTApproval';
-import { useManagementBulkApproval } from '@/hooks/useManagementBulkApproval';
+import { useActiveDelegations } from '@/hooks/useActiveDelegations';
+import { DelegationNotice } from '@/components/approvals/DelegationNotice';
+import { CapExceptionsCard } from '@/components/hr/settings/CapExceptionsCard';
+import { BulkDecisionDialog } from '@/components/approvals/BulkDecisionDialog';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Search, Check } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
-import {
-  Dialog,
-  DialogContent,
-  DialogDescription,
-  DialogFooter,
-  DialogHeader,
-  DialogTitle,
-} from '@/components/ui/dialog';
-import { format } from 'date-fns';
+import { GroupedOTRequest } from '@/types/otms';
 
 export default function ApproveOT() {
   const [searchParams, setSearchParams] = useSearchParams();
   const [searchQuery, setSearchQuery] = useState('');
+  const { data: activeDelegations = [] } = useActiveDelegations();
   const [activeTab, setActiveTab] = useState(() => {
     const tabParam = searchParams.get('tab');
     return tabParam || 'pending'; // Consolidated to "pending"
@@ -33,7 +29,8 @@ export default function ApproveOT() {
   const [dateRange, setDateRange] = useState<{ start: string; end: string } | null>(null);
   const [departmentFilter, setDepartmentFilter] = useState<string | null>(null);
   const [selectAll, setSelectAll] = useState(false);
-  const [showBulkConfirmation, setShowBulkConfirmation] = useState(false);
+  // Rows under bulk review, kept while the queue refetches behind the dialog
+  const [bulkReviewRows, setBulkReviewRows] = useState<GroupedOTRequest[] | null>(null);
 
   const {
     requests,
@@ -44,8 +41,6 @@ export default function ApproveOT() {
     isRejecting
   } = useOTApproval({ role: 'management' });
 
-  const { bulkApprove, isApproving: isBulkApproving } = useManagementBulkApproval();
-
   // Helper function to determine which "logical" tab a request belongs to
   // For hr_certified requests, checks management_remarks to determine if rejected
   const getTabForStatus = (status: string, hasManagementRemarks?: boolean): string => {
@@ -83,8 +78,12 @@ export default function ApproveOT() {
 
   const requestsByTab = filterRequestsByTab(requests || [], activeTab);
   const filteredRequests = requestsByTab?.filter(request => {
-    if (!searchQuery) return true;
     const profile = (request as any).profiles;
+    // Bulk review takes every row shown, so the date and department filters apply too
+    if (dateRange?.start && request.ot_date < dateRange.start) return false;
+    if (dateRange?.end && request.ot_date > dateRange.end) return false;
+    if (departmentFilter && profile?.departments?.name !== departmentFilter) return false;
+    if (!searchQuery) return true;
     const employeeName = profile?.full_name?.toLowerCase() || '';
     const employeeId = profile?.employee_id?.toLowerCase() || '';
     const department = (profile?.departments as any)?.name?.toLowerCase() || '';
@@ -131,14 +130,7 @@ export default function ApproveOT() {
     await rejectRequestMutation({ requestIds, remarks });
   };
 
-  const selectedRequestIds = selectAll ? filteredRequests.map(r => r.id) : [];
-
-  const handleBulkApprove = async () => {
-    if (selectedRequestIds.length === 0) return;
-    await bulkApprove(selectedRequestIds);
-    setSelectAll(false);
-    setShowBulkConfirmation(false);
-  };
+  const selectedRows = selectAll ? filteredRequests : [];
 
   // Get unique departments for filter
   const departments = Array.from(new Set(
@@ -152,6 +144,10 @@ export default function ApproveOT() {
         description="Review and approve overtime requests. Monthly approval cycle available."
       >
 
+        <DelegationNotice delegations={activeDelegations} role="management" />
+
+        <CapExceptionsCard pendingOnly />
+
         <Tabs value={activeTab} onValueChange={setActiveTab} defaultValue="pending">
           <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="pending">
@@ -231,12 +227,12 @@ export default function ApproveOT() {
                       </label>
                     </div>
                     <Button
-                      onClick={() => setShowBulkConfirmation(true)}
-                      disabled={!selectAll || isBulkApproving}
+                      onClick={() => setBulkReviewRows(selectedRows)}
+                      disabled={selectedRows.length === 0}
                       className="ml-auto gap-2"
                     >
                       <Check className="h-4 w-4" />
-                      Approve All
+                      Review Selected
                     </Button>
                   </div>
                 )}
@@ -258,71 +254,13 @@ export default function ApproveOT() {
         </Tabs>
       </PageLayout>
 
-      {/* Bulk Approval Confirmation Dialog */}
-      <Dialog open={showBulkConfirmation} onOpenChange={setShowBulkConfirmation}>
-        <DialogContent className="max-w-md">
-          <DialogHeader>
-            <DialogTitle>Confirm Bulk Approval</DialogTitle>
-            <DialogDescription>
-              Review the summary before approving all selected overtime requests.
-            </DialogDescription>
-          </DialogHeader>
-
-          <div className="space-y-4">
-            <div className="bg-blue-50 dark:bg-slate-900 p-4 rounded-lg space-y-2 border border-blue-200 dark:border-slate-700">
-              <div className="flex justify-between">
-                <span className="font-medium dark:text-slate-200">Total OTs to Approve:</span>
-                <span className="text-lg font-bold text-blue-600 dark:text-blue-400">{selectedRequestIds.length}</span>
-              </div>
-
-              {dateRange?.start && dateRange?.end && (
-                <div className="flex justify-between text-sm dark:text-slate-300">
-                  <span>Date Range:</span>
-                  <span>{format(new Date(dateRange.start), 'MMM dd, yyyy')} - {format(new Date(dateRange.end), 'MMM dd, yyyy')}</span>
-                </div>
-              )}
-
-              {departmentFilter && (
-                <div className="flex justify-between text-sm dark:text-slate-300">
-                  <span>Department:</span>
-                  <span>{departmentFilter}</span>
-                </div>
-              )}
-
-              <div className="flex justify-between text-sm pt-2 border-t border-blue-200 dark:border-slate-600 dark:text-slate-300">
-                <span>Employees Affected:</span>
-                <span className="font-medium">
-                  {new Set(
-                    filteredRequests.map(r => (r as any).profiles?.full_name)
-                  ).size}
-                </span>
-              </div>
-            </div>
-
-            <p className="text-sm text-muted-foreground">
-              This action will mark all selected OT requests as management approved. Employees will be notified of approval.
-            </p>
-          </div>
-
-          <DialogFooter>
-            <Button
-              variant="outline"
-              onClick={() => setShowBulkConfirmation(false)}
-              disabled={isBulkApproving}
-            >
-              Cancel
-            </Button>
-            <Button
-              onClick={handleBulkApprove}
-              disabled={isBulkApproving}
-              className="gap-2"
-            >
-              {isBulkApproving && <span className="inline-block animate-spin">⌛</span>}
-              {isBulkApproving ? 'Approving...' : 'Confirm Approval'}
-            </Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
+      <BulkDecisionDialog
+        open={!!bulkReviewRows}
+        onOpenChange={(open) => !open && setBulkReviewRows(null)}
+        role="management"
+        requests={bulkReviewRows || []}
+        onDecided={() => setSelectAll(false)}
+      />
     </AppLayout>
   );
 }
@@ -10,6 +10,7 @@ import { OTTrendChart } from '@/components/hr/charts/OTTrendChart';
 import { OTCostChart } from '@/components/management/charts/OTCostChart';
 import { MonthYearFilter } from '@/components/MonthYearFilter';
 import { QuickInsights } from '@/components/management/QuickInsights';
+import { BudgetOverview } from '@/components/management/BudgetOverview';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
 import { CheckCircle, DollarSign, Clock, TrendingUp } from 'lucide-react';
@@ -234,6 +235,8 @@ export default function ManagementDashboard() {
         <div>
           <QuickInsights filterDate={filterDate} />
         </div>
+
+        <BudgetOverview filterDate={filterDate} />
       </PageLayout>
     </AppLayout>
   );
@@ -9,6 +9,7 @@ import { Search, DollarSign, Clock, Building2, Users, Download, FileText, Filter
 import { EnhancedDashboardCard } from '@/components/hr/EnhancedDashboardCard';
 import { ManagementReportTable } from '@/components/management/ManagementReportTable';
 import { CompanyReportCard } from '@/components/reports/CompanyReportCard';
+import { CostCentreReportCard } from '@/components/reports/CostCentreReportCard';
 import { useManagementReportData } from '@/hooks/useManagementReportData';
 import { exportToCSV } from '@/lib/exportUtils';
 import { groupByCompany, calculateOverallStats } from '@/lib/companyReportUtils';
@@ -367,6 +368,8 @@ export default function ReviewOT() {
             </div>
           </div>
         </Card>
+
+        <CostCentreReportCard totals={data?.costCentres || []} periodLabel={format(filterDate, 'MMMM yyyy')} />
       </PageLayout>
     </AppLayout>
   );
@@ -7,16 +7,31 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { OTApprovalTable } from '@/components/approvals/OTApprovalTable';
 import { useOTApproval } from '@/hooks/useOTApproval';
 import { useAuth } from '@/hooks/useAuth';
+import { useActiveDelegations } from '@/hooks/useActiveDelegations';
+import { DelegationNotice } from '@/components/approvals/DelegationNotice';
+import { QueuedOTDecisionsCard } from '@/components/approvals/QueuedOTDecisionsCard';
+import { useQueuedOTDecisions } from '@/hooks/useQueuedOTDecisions';
+import { getDelegatorIds } from '@/lib/approvalDelegation';
+import { hideQueuedDecisions } from '@/lib/offlineApprovals';
+import { BulkDecisionDialog } from '@/components/approvals/BulkDecisionDialog';
 import { Input } from '@/components/ui/input';
-import { Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Check, Search } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
+import { GroupedOTRequest } from '@/types/otms';
 
 export default function VerifyOT() {
   const [searchParams, setSearchParams] = useSearchParams();
   const [searchQuery, setSearchQuery] = useState('');
   const [statusFilter, setStatusFilter] = useState<'pending' | 'completed' | 'rejected' | 'all'>('pending'); // Consolidated "pending" filter
   const [selectedRequestId, setSelectedRequestId] = useState<string | null>(null);
+  const [selectAll, setSelectAll] = useState(false);
+  // Rows under bulk review, kept while the queue refetches behind the dialog
+  const [bulkReviewRows, setBulkReviewRows] = useState<GroupedOTRequest[] | null>(null);
   const { user } = useAuth();
+  const { data: activeDelegations = [] } = useActiveDelegations();
+  const delegatorIds = getDelegatorIds(activeDelegations, 'supervisor');
+  const { data: queuedDecisions = [] } = useQueuedOTDecisions(user?.id);
 
   const {
     requests: allRequests,
@@ -40,7 +55,7 @@ export default function VerifyOT() {
     if (tab === 'all') return requests;
 
     const pendingStatuses = ['pending_verification', 'pending_supervisor_verification', 'pending_respective_supervisor_confirmation'];
-    const completedStatuses = ['supervisor_confirmed', 'supervisor_verified', 'respective_supervisor_confirmed', 'hr_certified', 'management_approved'];
+    const completedStatuses = ['supervisor_confirmed', 'supervisor_verified', 'respective_supervisor_confirmed', 'department_head_approved', 'hr_certified', 'management_approved'];
     const rejectedStatuses = ['rejected'];
 
     let filtered = requests;
@@ -51,8 +66,10 @@ export default function VerifyOT() {
         // Filter based on supervisor role
         if (user?.id) {
           filtered = filtered.filter(r => {
-            const isDirectSupervisor = (r as any).supervisor_id === user.id;
-            const isRespecttiveSupervisor = (r as any).respective_supervisor_id === user.id;
+            // Delegates handle the requests of supervisors they are covering for
+            const actingFor = [user.id, ...delegatorIds];
+            const isDirectSupervisor = actingFor.includes(r.supervisor_id);
+            const isRespecttiveSupervisor = actingFor.includes(r.respective_supervisor_id);
 
             // If they're only the respective supervisor (not direct), only show if awaiting their confirmation
             if (isRespecttiveSupervisor && !isDirectSupervisor) {
@@ -79,7 +96,8 @@ export default function VerifyOT() {
     }
   };
 
-  const requests = filterRequestsByTab(allRequests, statusFilter);
+  // Requests decided offline stay out of the lists until the decision syncs or is refused
+  const requests = hideQueuedDecisions(filterRequestsByTab(allRequests, statusFilter), queuedDecisions);
 
   // Wrapper functions to match the expected API
   const approveRequest = async (requestIds: string[], remarks?: string) => {
@@ -108,13 +126,15 @@ export default function VerifyOT() {
 
   const filteredRequests = requests?.filter(request => {
     if (!searchQuery) return true;
-    const profile = (request as any).profiles;
+    const profile = request.profiles;
     const employeeName = profile?.full_name?.toLowerCase() || '';
     const employeeId = profile?.employee_id?.toLowerCase() || '';
     const query = searchQuery.toLowerCase();
     return employeeName.includes(query) || employeeId.includes(query);
   }) || [];
 
+  const selectedRows = selectAll ? filteredRequests : [];
+
   // Helper function to determine which "logical" tab a request belongs to
   const getTabForStatus = (status: string): string => {
     const pendingStatuses = [
@@ -122,7 +142,7 @@ export default function VerifyOT() {
       'pending_supervisor_verification',
       'pending_respective_supervisor_confirmation'
     ];
-    const completedStatuses = ['supervisor_confirmed', 'supervisor_verified', 'respective_supervisor_confirmed', 'hr_certified', 'management_approved'];
+    const completedStatuses = ['supervisor_confirmed', 'supervisor_verified', 'respective_supervisor_confirmed', 'department_head_approved', 'hr_certified', 'management_approved'];
     const rejectedStatuses = ['rejected'];
 
     if (pendingStatuses.includes(status)) return 'pending';
@@ -169,6 +189,10 @@ export default function VerifyOT() {
         description="Review and verify overtime requests from your team"
       >
 
+        <DelegationNotice delegations={activeDelegations} role="supervisor" />
+
+        <QueuedOTDecisionsCard approverId={user?.id} decisions={queuedDecisions} />
+
         <Card className="p-6">
           <div className="space-y-4">
             <div className="relative">
@@ -197,12 +221,39 @@ export default function VerifyOT() {
                 </TabsTrigger>
               </TabsList>
 
-              <TabsContent value={statusFilter} className="mt-4">
+              <TabsContent value={statusFilter} className="mt-4 space-y-4">
+                {/* Select All + Bulk Verify */}
+                {statusFilter === 'pending' && filteredRequests.length > 0 && (
+                  <div className="flex items-center gap-4 pb-4 bg-blue-50 dark:bg-slate-900 p-4 rounded-lg border border-blue-200 dark:border-slate-700">
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        id="selectAll"
+                        checked={selectAll}
+                        onChange={(e) => setSelectAll(e.target.checked)}
+                        className="h-4 w-4 cursor-pointer rounded border-gray-300 dark:border-slate-600 dark:bg-slate-800"
+                      />
+                      <label htmlFor="selectAll" className="text-sm font-medium cursor-pointer dark:text-slate-200">
+                        Select all ({filteredRequests.length} pending)
+                      </label>
+                    </div>
+                    <Button
+                      onClick={() => setBulkReviewRows(selectedRows)}
+                      disabled={selectedRows.length === 0}
+                      className="ml-auto gap-2"
+                    >
+                      <Check className="h-4 w-4" />
+                      Review Selected
+                    </Button>
+                  </div>
+                )}
+
                 <OTApprovalTable
                   requests={filteredRequests}
                   isLoading={isLoading}
                   role="supervisor"
                   currentUserId={user?.id}
+                  delegatorIds={delegatorIds}
                   approveRequest={approveRequest}
                   rejectRequest={rejectRequest}
                   confirmRequest={confirmRequest}
@@ -223,6 +274,14 @@ export default function VerifyOT() {
           </div>
         </Card>
       </PageLayout>
+
+      <BulkDecisionDialog
+        open={!!bulkReviewRows}
+        onOpenChange={(open) => !open && setBulkReviewRows(null)}
+        role="supervisor"
+        requests={bulkReviewRows || []}
+        onDecided={() => setSelectAll(false)}
+      />
     </AppLayout>
   );
 }
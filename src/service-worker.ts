@@ -1,5 +1,12 @@
 /// <reference lib="webworker" />
 import { precacheAndRoute, cleanupOutdatedCaches } from 'workbox-precaching';
+import { registerRoute } from 'workbox-routing';
+import { CacheFirst } from 'workbox-strategies';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { OT_QUEUE_SYNC_TAG, OT_QUEUE_UPDATED_MESSAGE } from '@/lib/offlineQueue';
+import { OT_ATTACHMENT_CACHE, OT_DECISION_SYNC_TAG, OT_DECISIONS_UPDATED_MESSAGE } from '@/lib/offlineApprovals';
+import { getSyncSession, SyncSession, syncQueuedOTSubmissions } from '@/services/offline-ot-queue';
+import { syncQueuedOTDecisions } from '@/services/offline-ot-decisions';
 
 declare const self: ServiceWorkerGlobalScope;
 declare const clients: Clients;
@@ -10,6 +17,14 @@ precacheAndRoute(self.__WB_MANIFEST);
 // Clean up outdated caches from previous versions
 cleanupOutdatedCaches();
 
+// OT attachments never change once uploaded, so approvers offline are served
+// the copies the app fetched for the requests awaiting them. Vary is ignored
+// as the app fetches them with CORS and pages display them without.
+registerRoute(
+  ({ url }) => url.pathname.includes('/storage/v1/object/public/ot-attachments/'),
+  new CacheFirst({ cacheName: OT_ATTACHMENT_CACHE, matchOptions: { ignoreVary: true } })
+);
+
 // ============================================================================
 // FIREBASE CLOUD MESSAGING INITIALIZATION
 // ============================================================================
@@ -370,3 +385,94 @@ self.addEventListener('install', (event) => {
 // ============================================================================
 // END PUSH NOTIFICATION INFRASTRUCTURE
 // ============================================================================
+
+// ============================================================================
+// OFFLINE OT SUBMISSION AND DECISION QUEUES
+// ============================================================================
+// OT submitted and approval decisions made without a connection are queued in
+// IndexedDB by the app, which registers a Background Sync. The browser fires
+// it once the device is back online, even if the app has been closed.
+// ============================================================================
+
+// Background Sync isn't in the TypeScript webworker lib yet
+interface SyncEvent extends ExtendableEvent {
+  readonly tag: string;
+}
+
+/**
+ * Background Sync Event Listener
+ *
+ * Replays queued OT submissions and approval decisions. Rejecting tells the
+ * browser to try again later, so anything still waiting for a connection is
+ * retried.
+ */
+self.addEventListener('sync', (event: Event) => {
+  const syncEvent = event as SyncEvent;
+  if (syncEvent.tag === OT_QUEUE_SYNC_TAG) {
+    syncEvent.waitUntil(replayOTSubmissionQueue());
+  }
+  if (syncEvent.tag === OT_DECISION_SYNC_TAG) {
+    syncEvent.waitUntil(replayOTDecisionQueue());
+  }
+});
+
+/**
+ * The signed-in user's session and a client acting as them, or null
+ *
+ * The worker can't refresh the user's session. With no current access token
+ * it leaves queues for the app to replay when next opened.
+ */
+async function getSyncClient(): Promise<{ session: SyncSession; client: SupabaseClient } | null> {
+  const session = await getSyncSession();
+  if (!session || session.expires_at * 1000 <= Date.now()) return null;
+
+  const client = createClient(import.meta.env.VITE_SUPABASE_URL, import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY, {
+    accessToken: async () => session.access_token,
+  });
+  return { session, client };
+}
+
+/** Tells open windows a queue was replayed, so they refresh */
+async function notifyWindows(message: { type: string; result: unknown }): Promise<void> {
+  const windowClients = await clients.matchAll({ type: 'window', includeUncontrolled: true });
+  windowClients.forEach((windowClient) => windowClient.postMessage(message));
+}
+
+/**
+ * Replays queued OT submissions as the signed-in user
+ */
+async function replayOTSubmissionQueue(): Promise<void> {
+  const sync = await getSyncClient();
+  if (!sync) {
+    console.log('[SW] No current session, leaving queued OT submissions for the app');
+    return;
+  }
+
+  const result = await syncQueuedOTSubmissions(sync.client, sync.session.user_id);
+  console.log('[SW] Replayed queued OT submissions:', result);
+  await notifyWindows({ type: OT_QUEUE_UPDATED_MESSAGE, result });
+
+  if (result.pending > 0) {
+    throw new Error('Queued OT submissions are still waiting for a connection');
+  }
+}
+
+/**
+ * Replays queued approval decisions as the signed-in user, in the order
+ * they were made
+ */
+async function replayOTDecisionQueue(): Promise<void> {
+  const sync = await getSyncClient();
+  if (!sync) {
+    console.log('[SW] No current session, leaving queued OT decisions for the app');
+    return;
+  }
+
+  const result = await syncQueuedOTDecisions(sync.client, sync.session.user_id);
+  console.log('[SW] Replayed queued OT decisions:', result);
+  await notifyWindows({ type: OT_DECISIONS_UPDATED_MESSAGE, result });
+
+  if (result.pending > 0) {
+    throw new Error('Queued OT decisions are still waiting for a connection');
+  }
+}
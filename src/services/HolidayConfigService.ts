@@ -20,6 +20,7 @@ import { supabase } from '@/integrations/supabase/client';
 import type { MalaysianStateKey } from '@/config/malaysia-states';
 import type { CompanyConfig } from '@/types/holidays';
 import { isValidStateKey } from '@/config/malaysia-states';
+import { getActiveCompanyId } from '@/services/active-company';
 
 export class HolidayConfigService {
   /**
@@ -161,12 +162,17 @@ export class HolidayConfigService {
       throw new Error('User must be authenticated to save configuration');
     }
 
+    const companyId = await getActiveCompanyId();
+    if (!companyId) {
+      throw new Error('Select a company before saving its holiday configuration');
+    }
+
     // Upsert company configuration
     const { error: upsertError } = await supabase
       .from('company_config')
       .upsert(
         {
-          company_id: user.id,
+          company_id: companyId,
           selected_state: stateKey,
           updated_at: new Date().toISOString()
         },
@@ -207,11 +213,16 @@ export class HolidayConfigService {
       return null;
     }
 
+    const companyId = await getActiveCompanyId().catch(() => null);
+    if (!companyId) {
+      return null;
+    }
+
     // Query company configuration
     const { data, error } = await supabase
       .from('company_config')
       .select('selected_state')
-      .eq('company_id', user.id)
+      .eq('company_id', companyId)
       .maybeSingle();
 
     if (error) {
@@ -243,11 +254,16 @@ export class HolidayConfigService {
       return null;
     }
 
+    const companyId = await getActiveCompanyId().catch(() => null);
+    if (!companyId) {
+      return null;
+    }
+
     // Query company configuration
     const { data, error } = await supabase
       .from('company_config')
       .select('*')
-      .eq('company_id', user.id)
+      .eq('company_id', companyId)
       .maybeSingle();
 
     if (error) {
@@ -435,11 +451,16 @@ export class HolidayConfigService {
       return false;
     }
 
+    const companyId = await getActiveCompanyId().catch(() => null);
+    if (!companyId) {
+      return false;
+    }
+
     // Delete company configuration
     const { error } = await supabase
       .from('company_config')
       .delete()
-      .eq('company_id', user.id);
+      .eq('company_id', companyId);
 
     if (error) {
       console.error('Error deleting company config:', error);
@@ -35,6 +35,7 @@ import type {
 import type { MalaysianHoliday } from '@/types/holidays';
 import { HolidayConfigService } from './HolidayConfigService';
 import { holidayNotificationService } from './HolidayNotificationService';
+import { getActiveCompanyId } from './active-company';
 
 export class HolidayOverrideService {
   private configService: HolidayConfigService;
@@ -88,11 +89,19 @@ export class HolidayOverrideService {
         };
       }
 
+      const companyId = await getActiveCompanyId();
+      if (!companyId) {
+        return {
+          success: false,
+          error: 'Select a company before adding holiday overrides'
+        };
+      }
+
       // Insert override
       const { data, error } = await supabase
         .from('holiday_overrides')
         .insert({
-          company_id: user.id,
+          company_id: companyId,
           created_by: user.id,
           date: input.date,
           name: input.name.trim(),
@@ -162,10 +171,15 @@ export class HolidayOverrideService {
         return [];
       }
 
+      const companyId = await getActiveCompanyId();
+      if (!companyId) {
+        return [];
+      }
+
       let query = supabase
         .from('holiday_overrides')
         .select('*')
-        .eq('company_id', user.id)
+        .eq('company_id', companyId)
         .order('date', { ascending: true });
 
       // Filter by year if provided
@@ -476,10 +490,15 @@ export class HolidayOverrideService {
         return false;
       }
 
+      const companyId = await getActiveCompanyId();
+      if (!companyId) {
+        return false;
+      }
+
       const { count, error } = await supabase
         .from('holiday_overrides')
         .select('*', { count: 'exact', head: true })
-        .eq('company_id', user.id)
+        .eq('company_id', companyId)
         .eq('date', date);
 
       if (error) {
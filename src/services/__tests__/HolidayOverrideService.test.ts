@@ -14,6 +14,7 @@ vi.mock('@/integrations/supabase/client', () => ({
       getUser: vi.fn(),
     },
     from: vi.fn(),
+    rpc: vi.fn().mockResolvedValue({ data: 'company-1', error: null }),
     functions: {
       invoke: vi.fn(),
     },
@@ -57,7 +58,7 @@ describe('HolidayOverrideService', () => {
           single: vi.fn().mockResolvedValue({
             data: {
               id: 'override-1',
-              company_id: 'user-123',
+              company_id: 'company-1',
               date: '2025-03-15',
               name: 'Company Day',
               type: 'company',
@@ -146,7 +147,7 @@ describe('HolidayOverrideService', () => {
           single: vi.fn().mockResolvedValue({
             data: {
               id: 'override-1',
-              company_id: 'user-123',
+              company_id: 'company-1',
               date: '2025-03-15',
               name: 'Emergency Closure',
               type: 'emergency',
@@ -379,7 +380,7 @@ describe('HolidayOverrideService', () => {
       const overrides: HolidayOverride[] = [
         {
           id: 'override-1',
-          company_id: 'user-123',
+          company_id: 'company-1',
           date: '2025-03-15',
           name: 'Company Day (Override)',
           type: 'company',
@@ -422,7 +423,7 @@ describe('HolidayOverrideService', () => {
       const overrides: HolidayOverride[] = [
         {
           id: 'override-1',
-          company_id: 'user-123',
+          company_id: 'company-1',
           date: '2025-03-15',
           name: 'March Holiday',
           type: 'company',
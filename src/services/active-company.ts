@@ -0,0 +1,15 @@
+/**
+ * Active Company Service
+ *
+ * The company the signed-in user is acting in, as Postgres resolves it for
+ * has_role() and the company-scoped policies: the one picked in the company
+ * switcher, else the user's own company.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+
+export async function getActiveCompanyId(): Promise<string | null> {
+  const { data, error } = await supabase.rpc('active_company_id');
+  if (error) throw error;
+  return data ?? null;
+}
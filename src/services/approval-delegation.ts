@@ -0,0 +1,45 @@
+/**
+ * Approval Delegation Service
+ *
+ * Out-of-office substitutes: while a delegation is active the delegate acts on
+ * the delegator's requests for that role. The engine (`transition_ot_request`)
+ * enforces this server-side; these queries let the approval screens show the
+ * same requests the engine will accept.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { ApprovalDelegation, DelegationRole } from '@/types/otms';
+import { getDelegatorIds, toDelegationDate } from '@/lib/approvalDelegation';
+
+/**
+ * Delegations the user is currently covering as the delegate
+ */
+export async function fetchActiveDelegationsForDelegate(userId: string): Promise<ApprovalDelegation[]> {
+  const today = toDelegationDate();
+
+  const { data, error } = await supabase
+    .from('approval_delegations')
+    .select(`
+      *,
+      delegator:profiles!approval_delegations_delegator_id_fkey(
+        full_name,
+        employee_id
+      )
+    `)
+    .eq('delegate_id', userId)
+    .is('revoked_at', null)
+    .lte('starts_on', today)
+    .gte('ends_on', today)
+    .order('ends_on', { ascending: true });
+
+  if (error) throw error;
+  return data as ApprovalDelegation[];
+}
+
+/**
+ * IDs of approvers the user is standing in for in the given role
+ */
+export async function getActiveDelegatorIds(userId: string, role: DelegationRole): Promise<string[]> {
+  const delegations = await fetchActiveDelegationsForDelegate(userId);
+  return getDelegatorIds(delegations, role);
+}
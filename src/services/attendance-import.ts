@@ -0,0 +1,217 @@
+/**
+ * Attendance Import Service
+ *
+ * Loads punches parsed from a terminal export (src/lib/attendance.ts) into an
+ * import batch, then turns time punched beyond the scheduled shift into OT
+ * drafts, following each employee's shift roster where they have one. Drafts
+ * are not created where the employee already has an OT request
+ * or draft, so re-importing an overlapping export is harmless.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import {
+  AttendanceFileFormat,
+  PunchParseResult,
+  PunchRowError,
+  ShiftWindow,
+  computeOvertimeSessions,
+  getCalendarShift,
+  pairPunches,
+} from '@/lib/attendance';
+import { findOverlappingSession, nextDate, previousDate } from '@/lib/otSessions';
+import { getShiftSession } from '@/lib/shiftRoster';
+import { fetchEmployeeRoster } from '@/services/shift-roster';
+import { AttendanceImportBatch, AttendancePunch, RosterDay } from '@/types/otms';
+
+const PUNCH_CHUNK_SIZE = 500;
+
+interface EmployeeRow {
+  id: string;
+  employee_id: string;
+  state: string | null;
+}
+
+/**
+ * Imports parsed punches as a batch and drafts OT from them. Punches for
+ * unknown employee numbers are reported on the batch rather than failing it.
+ */
+export async function importAttendancePunches(
+  fileName: string,
+  format: AttendanceFileFormat,
+  parsed: PunchParseResult
+): Promise<AttendanceImportBatch> {
+  const { data: { user } } = await supabase.auth.getUser();
+
+  const employeeNos = [...new Set(parsed.punches.map((punch) => punch.employee_no))];
+  const { data: employees, error: employeesError } = await supabase
+    .from('profiles')
+    .select('id, employee_id, state')
+    .in('employee_id', employeeNos);
+
+  if (employeesError) throw employeesError;
+
+  const employeeByNo = new Map((employees as EmployeeRow[]).map((employee) => [employee.employee_id, employee]));
+  const errors: PunchRowError[] = [...parsed.errors];
+  const punches = parsed.punches.filter((punch) => {
+    if (employeeByNo.has(punch.employee_no)) return true;
+    errors.push({ row: punch.row, error: `Unknown employee number ${punch.employee_no}` });
+    return false;
+  });
+
+  if (punches.length === 0) {
+    throw new Error('No punches in the file belong to a known employee');
+  }
+
+  const { data: batch, error: batchError } = await supabase
+    .from('attendance_import_batches')
+    .insert({
+      file_name: fileName,
+      format,
+      errors: errors.sort((a, b) => a.row - b.row).map((rowError) => ({ ...rowError })),
+      imported_by: user?.id ?? null,
+    })
+    .select()
+    .single();
+
+  if (batchError) throw batchError;
+  const batchId = batch.id;
+
+  let inserted = 0;
+  for (let i = 0; i < punches.length; i += PUNCH_CHUNK_SIZE) {
+    const rows = punches.slice(i, i + PUNCH_CHUNK_SIZE).map((punch) => ({
+      employee_id: employeeByNo.get(punch.employee_no).id,
+      punched_at: punch.punched_at,
+      direction: punch.direction,
+      device_id: punch.device_id,
+      batch_id: batchId,
+    }));
+
+    const { data, error } = await supabase
+      .from('attendance_punches')
+      .upsert(rows, { onConflict: 'employee_id,punched_at', ignoreDuplicates: true })
+      .select('id');
+
+    if (error) throw error;
+    inserted += data?.length ?? 0;
+  }
+
+  const dates = punches.map((punch) => punch.punched_at.slice(0, 10)).sort();
+  const draftCount = await generateOTDrafts(
+    [...new Set(punches.map((punch) => employeeByNo.get(punch.employee_no)))],
+    dates[0],
+    dates[dates.length - 1],
+    batchId
+  );
+
+  const { data: updated, error: updateError } = await supabase
+    .from('attendance_import_batches')
+    .update({
+      punch_count: inserted,
+      duplicate_count: punches.length - inserted,
+      draft_count: draftCount,
+    })
+    .eq('id', batchId)
+    .select()
+    .single();
+
+  if (updateError) throw updateError;
+  return updated as unknown as AttendanceImportBatch;
+}
+
+/**
+ * Drafts OT from the employees' punches between two dates. Punches from the
+ * day either side are read too, so shifts crossing midnight pair up.
+ * Returns the number of drafts created.
+ */
+export async function generateOTDrafts(
+  employees: EmployeeRow[],
+  fromDate: string,
+  toDate: string,
+  batchId: string | null
+): Promise<number> {
+  const employeeIds = employees.map((employee) => employee.id);
+  const rangeStart = previousDate(fromDate);
+  const rangeEnd = nextDate(toDate);
+
+  const [punchesResult, holidaysResult, overridesResult, requestsResult, draftsResult] = await Promise.all([
+    supabase
+      .from('attendance_punches')
+      .select('employee_id, punched_at, direction')
+      .in('employee_id', employeeIds)
+      .gte('punched_at', `${rangeStart}T00:00:00`)
+      .lt('punched_at', `${nextDate(rangeEnd)}T00:00:00`)
+      .order('punched_at', { ascending: true }),
+    supabase.from('malaysian_holidays').select('date, state').gte('date', rangeStart).lte('date', rangeEnd),
+    supabase.from('holiday_overrides').select('date').gte('date', rangeStart).lte('date', rangeEnd),
+    supabase
+      .from('ot_requests')
+      .select('employee_id, ot_date, start_time, end_time')
+      .in('employee_id', employeeIds)
+      .gte('ot_date', previousDate(rangeStart))
+      .lte('ot_date', rangeEnd)
+      .neq('status', 'rejected'),
+    supabase
+      .from('ot_request_drafts')
+      .select('employee_id, ot_date, start_time, end_time')
+      .in('employee_id', employeeIds)
+      .gte('ot_date', previousDate(rangeStart))
+      .lte('ot_date', rangeEnd),
+  ]);
+
+  const failed = [punchesResult, holidaysResult, overridesResult, requestsResult, draftsResult].find(
+    (result) => result.error
+  );
+  if (failed) throw failed.error;
+
+  const punches = punchesResult.data as Pick<AttendancePunch, 'employee_id' | 'punched_at' | 'direction'>[];
+  const holidays = holidaysResult.data as unknown as { date: string; state: string }[];
+  const overrideDates = (overridesResult.data as unknown as { date: string }[]).map((override) => override.date);
+  type ExistingSession = { employee_id: string; ot_date: string; start_time: string; end_time: string };
+  const existing = [
+    ...(requestsResult.data as ExistingSession[]),
+    ...(draftsResult.data as ExistingSession[]),
+  ];
+
+  const rosters = await Promise.all(
+    employees.map((employee) => fetchEmployeeRoster(employee.id, previousDate(rangeStart), rangeEnd))
+  );
+
+  const drafts = employees.flatMap((employee, index) => {
+    const holidayDates = new Set([
+      ...overrideDates,
+      ...holidays
+        .filter((holiday) => holiday.state === 'ALL' || holiday.state === employee.state)
+        .map((holiday) => holiday.date),
+    ]);
+    const intervals = pairPunches(punches.filter((punch) => punch.employee_id === employee.id));
+    const taken = existing.filter((session) => session.employee_id === employee.id);
+
+    const calendarShift = getCalendarShift(holidayDates);
+    const rosterByDate = new Map(rosters[index].map((rosterDay) => [rosterDay.roster_date, rosterDay]));
+    const getShift = (date: string): ShiftWindow | null => {
+      const rosterDay = rosterByDate.get(date);
+      if (!rosterDay) return calendarShift(date);
+      return holidayDates.has(date) ? null : toShiftWindow(rosterDay);
+    };
+
+    return computeOvertimeSessions(intervals, getShift)
+      .filter((session) => session.ot_date >= rangeStart && session.ot_date <= toDate)
+      .filter((session) => !findOverlappingSession(session, taken))
+      .map((session) => ({ ...session, employee_id: employee.id, batch_id: batchId }));
+  });
+
+  if (drafts.length === 0) return 0;
+
+  const { data, error } = await supabase
+    .from('ot_request_drafts')
+    .upsert(drafts, { onConflict: 'employee_id,ot_date,start_time', ignoreDuplicates: true })
+    .select('id');
+
+  if (error) throw error;
+  return data?.length ?? 0;
+}
+
+function toShiftWindow(rosterDay: RosterDay): ShiftWindow | null {
+  const shift = getShiftSession(rosterDay);
+  return shift && { start: shift.start_time, end: shift.end_time };
+}
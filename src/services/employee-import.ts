@@ -0,0 +1,114 @@
+/**
+ * Employee Import Service
+ *
+ * Saves the valid rows of a checked spreadsheet (src/lib/employeeImport.ts)
+ * as an import job, then has the import-employees edge function create the
+ * employees a batch at a time. Progress lives on the job, so an import that
+ * stops part way (closed tab, lost connection) carries on from its pending
+ * rows when resumed.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { EmployeeImportPreview } from '@/lib/employeeImport';
+import { EmployeeImportJob, EmployeeImportProgress, EmployeeImportRow } from '@/types/otms';
+
+const ROW_CHUNK_SIZE = 500;
+const DEFAULT_BATCH_SIZE = 20;
+
+/** Saves the rows without errors as a new job, in import order */
+export async function createEmployeeImportJob(
+  fileName: string,
+  preview: EmployeeImportPreview,
+  sendInvites: boolean
+): Promise<EmployeeImportJob> {
+  const rows = preview.rows.filter((row) => row.payload);
+  if (rows.length === 0) {
+    throw new Error('No rows in the file can be imported');
+  }
+
+  const { data: job, error: jobError } = await supabase
+    .from('employee_import_jobs')
+    .insert({ file_name: fileName, send_invites: sendInvites, total_rows: rows.length })
+    .select()
+    .single();
+
+  if (jobError) throw jobError;
+  const created = job as EmployeeImportJob;
+
+  for (let i = 0; i < rows.length; i += ROW_CHUNK_SIZE) {
+    const chunk = rows.slice(i, i + ROW_CHUNK_SIZE).map((row, index) => ({
+      job_id: created.id,
+      row_number: row.row,
+      position: i + index,
+      employee_no: row.employee_no,
+      payload: { ...row.payload },
+    }));
+    const { error } = await supabase.from('employee_import_rows').insert(chunk);
+    if (error) {
+      await supabase.from('employee_import_jobs').delete().eq('id', created.id);
+      throw error;
+    }
+  }
+
+  return created;
+}
+
+/**
+ * Imports the job's pending rows batch by batch until none are left or the
+ * job is cancelled, reporting progress after each batch.
+ */
+export async function runEmployeeImportJob(
+  jobId: string,
+  onProgress?: (progress: EmployeeImportProgress) => void,
+  batchSize = DEFAULT_BATCH_SIZE
+): Promise<EmployeeImportProgress> {
+  for (;;) {
+    const { data, error } = await supabase.functions.invoke('import-employees', {
+      body: { job_id: jobId, batch_size: batchSize },
+    });
+
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
+
+    const progress = data as EmployeeImportProgress;
+    onProgress?.(progress);
+    if (progress.pending === 0 || progress.status === 'cancelled' || progress.status === 'completed') {
+      return progress;
+    }
+  }
+}
+
+/** Stops a job after its current batch; rows already imported stay */
+export async function cancelEmployeeImportJob(jobId: string): Promise<void> {
+  const { error } = await supabase
+    .from('employee_import_jobs')
+    .update({ status: 'cancelled' })
+    .eq('id', jobId);
+
+  if (error) throw error;
+}
+
+/** Imports of the active company, newest first */
+export async function listEmployeeImportJobs(): Promise<EmployeeImportJob[]> {
+  const { data, error } = await supabase
+    .from('employee_import_jobs')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(20);
+
+  if (error) throw error;
+  return data as EmployeeImportJob[];
+}
+
+/** Rows that failed or were imported with a note, e.g. an unsent invitation */
+export async function listEmployeeImportIssues(jobId: string): Promise<EmployeeImportRow[]> {
+  const { data, error } = await supabase
+    .from('employee_import_rows')
+    .select('*')
+    .eq('job_id', jobId)
+    .not('error', 'is', null)
+    .order('row_number');
+
+  if (error) throw error;
+  return data as unknown as EmployeeImportRow[];
+}
@@ -0,0 +1,72 @@
+/**
+ * Employment History Service
+ *
+ * Reports show OT under the department and position the employee held on
+ * the OT date, not their current ones. Loads the employment history of the
+ * employees in a report once and resolves it per request with
+ * src/lib/employmentHistory.ts.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { resolveFieldAsOf } from '@/lib/employmentHistory';
+import { EmploymentHistoryRecord } from '@/types/otms';
+
+/** Keeps .in() filters well inside URL limits */
+const EMPLOYEE_CHUNK_SIZE = 200;
+
+type HistoryChanges = Pick<EmploymentHistoryRecord, 'employee_id' | 'effective_from' | 'created_at' | 'changes'>;
+
+export interface EmploymentOnDate {
+  department_id: string | null;
+  department: string | null;
+  position: string | null;
+}
+
+/**
+ * Looks up where employees worked on a date. The lookup returns null for
+ * employees without history, whose current profile then applies.
+ */
+export async function loadEmploymentAsOf(
+  employeeIds: string[]
+): Promise<(employeeId: string, date: string) => EmploymentOnDate | null> {
+  const ids = [...new Set(employeeIds)];
+  const records: HistoryChanges[] = [];
+
+  for (let i = 0; i < ids.length; i += EMPLOYEE_CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from('employment_history')
+      .select('employee_id, effective_from, created_at, changes')
+      .in('employee_id', ids.slice(i, i + EMPLOYEE_CHUNK_SIZE));
+
+    if (error) throw error;
+    records.push(...((data as unknown as HistoryChanges[]) || []));
+  }
+
+  const [{ data: departments, error: departmentError }, { data: positions, error: positionError }] = await Promise.all([
+    supabase.from('departments').select('id, name'),
+    supabase.from('positions').select('id, title'),
+  ]);
+
+  if (departmentError) throw departmentError;
+  if (positionError) throw positionError;
+
+  const departmentNames = new Map((departments || []).map((d) => [d.id, d.name]));
+  const positionTitles = new Map((positions || []).map((p) => [p.id, p.title]));
+  const historyOf = new Map<string, HistoryChanges[]>();
+  records.forEach((record) => {
+    historyOf.set(record.employee_id, [...(historyOf.get(record.employee_id) || []), record]);
+  });
+
+  return (employeeId, date) => {
+    const history = historyOf.get(employeeId);
+    if (!history) return null;
+
+    const departmentId = resolveFieldAsOf(history, date, 'department_id') ?? null;
+    const positionId = resolveFieldAsOf(history, date, 'position_id');
+    return {
+      department_id: departmentId,
+      department: departmentId ? departmentNames.get(departmentId) ?? null : null,
+      position: (positionId && positionTitles.get(positionId)) || resolveFieldAsOf(history, date, 'position') || null,
+    };
+  };
+}
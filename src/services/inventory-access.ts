@@ -0,0 +1,50 @@
+/**
+ * Inventory Access Service
+ *
+ * Kiosk side of inventory room badges. The kiosk page is not signed in; it
+ * sends the scanned token with its own key to verify-inventory-access, which
+ * uses the token up and logs the scan.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { InventoryBadgeVerification } from '@/types/otms';
+
+/** The kiosk's key was refused: unknown, or the kiosk was deactivated */
+export class KioskKeyRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'KioskKeyRejectedError';
+  }
+}
+
+/**
+ * Verifies a scanned badge token at a kiosk.
+ *
+ * @throws KioskKeyRejectedError when the kiosk key is not accepted
+ * @throws Error when the scan could not be verified
+ */
+export async function verifyInventoryBadge(kioskKey: string, token: string): Promise<InventoryBadgeVerification> {
+  const { data, error } = await supabase.functions.invoke('verify-inventory-access', {
+    body: { token },
+    headers: { 'x-kiosk-key': kioskKey },
+  });
+
+  if (error) {
+    const response = (error as Error & { context?: Response }).context;
+    const message = await getFunctionErrorMessage(error);
+    if (response?.status === 401) throw new KioskKeyRejectedError(message);
+    throw new Error(message);
+  }
+
+  return data as InventoryBadgeVerification;
+}
+
+/** The message in an edge function's error response, when it sent one */
+async function getFunctionErrorMessage(error: Error & { context?: Response }): Promise<string> {
+  try {
+    const body = await error.context?.json();
+    return body?.error || error.message;
+  } catch {
+    return error.message;
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Offline Database Service
+ *
+ * The IndexedDB database the PWA keeps offline work in, shared by the app
+ * and the service worker. Each store belongs to one service; this module
+ * only opens the database and runs requests against a store.
+ */
+
+const DB_NAME = 'otms-offline';
+const DB_VERSION = 2;
+
+export const OFFLINE_STORES = {
+  /** Queued OT submissions, by id (offline-ot-queue) */
+  submissions: 'ot-submissions',
+  /** The access token Background Sync replays with (offline-ot-queue) */
+  session: 'sync-session',
+  /** Queued approval decisions, by id (offline-ot-decisions) */
+  decisions: 'ot-decisions',
+  /** Saved React Query data for approvers (offline-query-cache) */
+  queryCache: 'query-cache',
+} as const;
+
+function openOfflineDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(OFFLINE_STORES.submissions)) {
+        db.createObjectStore(OFFLINE_STORES.submissions, { keyPath: 'id' }).createIndex('employee_id', 'employee_id');
+      }
+      if (!db.objectStoreNames.contains(OFFLINE_STORES.session)) {
+        db.createObjectStore(OFFLINE_STORES.session);
+      }
+      if (!db.objectStoreNames.contains(OFFLINE_STORES.decisions)) {
+        db.createObjectStore(OFFLINE_STORES.decisions, { keyPath: 'id' }).createIndex('approver_id', 'approver_id');
+      }
+      if (!db.objectStoreNames.contains(OFFLINE_STORES.queryCache)) {
+        db.createObjectStore(OFFLINE_STORES.queryCache);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** Runs one request in its own transaction and resolves once it commits */
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openOfflineDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode);
+      const request = run(transaction.objectStore(storeName));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * Offline OT Decisions Service
+ *
+ * Keeps approval decisions made without a connection in IndexedDB and
+ * replays them in the order they were made through
+ * transition_ot_request_if_unchanged, which refuses any whose request has
+ * changed since the approver saw it. Used by the app and by the service
+ * worker's Background Sync, so it takes the Supabase client to use.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { isStaleDecisionError } from '@/lib/offlineApprovals';
+import { isNetworkError } from '@/lib/offlineQueue';
+import { OFFLINE_STORES, withStore } from '@/services/offline-db';
+import { OTDecisionAction, QueuedOTDecision } from '@/types/otms';
+
+const DECISIONS_STORE = OFFLINE_STORES.decisions;
+
+/** A replay that hasn't finished by now was cut off, e.g. by the worker stopping */
+const STALE_SYNC_MS = 2 * 60 * 1000;
+
+export interface DecisionSyncResult {
+  synced: number;
+  /** Refused because the request changed while the approver was offline */
+  stale: number;
+  failed: number;
+  /** Left for a later replay, for want of a connection or a current sign-in */
+  pending: number;
+  /** Tickets of the decisions refused in this replay, for telling the approver */
+  staleTickets: string[];
+}
+
+/** The notifications the online decision sends, by edge function */
+const DECISION_NOTIFICATIONS: Record<OTDecisionAction, Array<{ name: string; body?: Record<string, string> }>> = {
+  approve: [{ name: 'send-employee-ot-notification', body: { notificationType: 'approved' } }],
+  reject: [{ name: 'send-employee-ot-notification', body: { notificationType: 'rejected' } }],
+  confirm: [{ name: 'send-hr-certification-notification' }, { name: 'send-employee-confirmation-notification' }],
+  confirm_respective: [{ name: 'send-respective-supervisor-confirmed-notification' }],
+  deny_respective: [{ name: 'send-respective-supervisor-denied-notification' }],
+  revise: [{ name: 'send-respective-supervisor-confirmation-request' }],
+};
+
+/**
+ * Saves decisions to replay when connectivity returns
+ */
+export async function queueOTDecisions(decisions: QueuedOTDecision[]): Promise<void> {
+  for (const decision of decisions) {
+    await withStore(DECISIONS_STORE, 'readwrite', (store) => store.put(decision));
+  }
+}
+
+/**
+ * The approver's queued decisions, oldest first
+ */
+export async function listQueuedOTDecisions(approverId: string): Promise<QueuedOTDecision[]> {
+  const decisions = await withStore<QueuedOTDecision[]>(DECISIONS_STORE, 'readonly', (store) =>
+    store.index('approver_id').getAll(approverId)
+  );
+  return decisions.sort((a, b) => a.queued_at.localeCompare(b.queued_at));
+}
+
+export async function updateQueuedOTDecision(
+  id: string,
+  changes: Partial<Omit<QueuedOTDecision, 'id'>>
+): Promise<QueuedOTDecision | null> {
+  const current = await withStore<QueuedOTDecision | undefined>(DECISIONS_STORE, 'readonly', (store) => store.get(id));
+  if (!current) return null;
+
+  const updated = { ...current, ...changes };
+  await withStore(DECISIONS_STORE, 'readwrite', (store) => store.put(updated));
+  return updated;
+}
+
+export async function removeQueuedOTDecision(id: string): Promise<void> {
+  await withStore(DECISIONS_STORE, 'readwrite', (store) => store.delete(id));
+}
+
+/** Waiting to be sent, or cut off mid-replay */
+function isDue(decision: QueuedOTDecision): boolean {
+  return (
+    decision.status === 'pending' ||
+    (decision.status === 'syncing' && Date.now() - new Date(decision.last_attempt_at || 0).getTime() > STALE_SYNC_MS)
+  );
+}
+
+/**
+ * Marks a decision as being replayed, in one transaction so the app and the
+ * service worker replaying together never both send it. Returns null if it
+ * is gone or another replay has it.
+ */
+async function claimQueuedOTDecision(id: string): Promise<QueuedOTDecision | null> {
+  let claimed: QueuedOTDecision | null = null;
+  await withStore(DECISIONS_STORE, 'readwrite', (store) => {
+    const request = store.get(id);
+    request.onsuccess = () => {
+      const current = request.result as QueuedOTDecision | undefined;
+      if (!current || !isDue(current)) return;
+      claimed = {
+        ...current,
+        status: 'syncing',
+        attempts: current.attempts + 1,
+        last_attempt_at: new Date().toISOString(),
+      };
+      store.put(claimed);
+    };
+    return request;
+  });
+  return claimed;
+}
+
+/** Notifications for a decision that reached the server; failures are not fatal */
+async function notifyDecision(client: SupabaseClient, decision: QueuedOTDecision): Promise<void> {
+  const notifications = [...DECISION_NOTIFICATIONS[decision.action]];
+  // Tells the instructing supervisor the direct supervisor completed a Route B request
+  if (decision.action === 'confirm' && decision.to_status === 'supervisor_verified') {
+    notifications.unshift({ name: 'send-supervisor-confirmation-approved-notification' });
+  }
+
+  for (const { name, body } of notifications) {
+    await client.functions
+      .invoke(name, { body: { requestId: decision.request_id, ...body } })
+      .catch(() => undefined);
+  }
+}
+
+/**
+ * Sends one queued decision. It is removed once applied, marked stale if
+ * the request changed in the meantime, left pending if the connection or
+ * sign-in is missing, and marked failed if it is refused for another reason.
+ * Skipped if another replay got to it first.
+ */
+async function replayQueuedOTDecision(
+  client: SupabaseClient,
+  decision: QueuedOTDecision
+): Promise<QueuedOTDecision['status'] | 'synced' | 'skipped'> {
+  const attempt = await claimQueuedOTDecision(decision.id);
+  if (!attempt) return 'skipped';
+
+  try {
+    const { error } = await client.rpc('transition_ot_request_if_unchanged', {
+      p_request_id: attempt.request_id,
+      p_expected_status: attempt.expected_status,
+      p_expected_updated_at: attempt.expected_updated_at,
+      p_to_status: attempt.to_status,
+      p_remarks: attempt.remarks,
+      p_rejection_stage: attempt.rejection_stage,
+    });
+
+    if (error) {
+      if (isStaleDecisionError(error)) {
+        await updateQueuedOTDecision(attempt.id, { status: 'stale', error: error.message });
+        return 'stale';
+      }
+      throw new Error(error.message);
+    }
+
+    await notifyDecision(client, attempt);
+    await removeQueuedOTDecision(attempt.id);
+    return 'synced';
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Decision failed';
+    const waiting = isNetworkError(error) || /jwt|unauthori[sz]ed/i.test(message);
+    await updateQueuedOTDecision(attempt.id, {
+      status: waiting ? 'pending' : 'failed',
+      error: waiting ? null : message,
+    });
+    return waiting ? 'pending' : 'failed';
+  }
+}
+
+/**
+ * Replays the approver's pending decisions in the order they were made.
+ * Stale and refused decisions stay on the device until the approver has
+ * seen them and dismissed them.
+ */
+export async function syncQueuedOTDecisions(client: SupabaseClient, approverId: string): Promise<DecisionSyncResult> {
+  const result: DecisionSyncResult = { synced: 0, stale: 0, failed: 0, pending: 0, staleTickets: [] };
+  const decisions = await listQueuedOTDecisions(approverId);
+
+  const due = decisions.filter(isDue);
+  for (const [index, decision] of due.entries()) {
+    const outcome = await replayQueuedOTDecision(client, decision);
+    if (outcome === 'synced') result.synced += 1;
+    if (outcome === 'failed') result.failed += 1;
+    if (outcome === 'stale') {
+      result.stale += 1;
+      result.staleTickets.push(decision.ticket_number);
+    }
+    // Still offline: the rest would fail the same way
+    if (outcome === 'pending') {
+      result.pending = due.length - index;
+      break;
+    }
+  }
+
+  return result;
+}
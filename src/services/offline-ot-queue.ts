@@ -0,0 +1,316 @@
+/**
+ * Offline OT Queue Service
+ *
+ * Keeps OT submissions made without a connection in IndexedDB, attachments
+ * included, and replays them through the submit-ot-request edge function.
+ * Used by the app and by the service worker's Background Sync, so it takes
+ * the Supabase client to use rather than importing the app's.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { findQueueConflict, isNetworkError, OT_QUEUE_SYNC_TAG } from '@/lib/offlineQueue';
+import { nextDate, previousDate } from '@/lib/otSessions';
+import { OFFLINE_STORES, withStore } from '@/services/offline-db';
+import { QueuedOTAttachment, QueuedOTPayload, QueuedOTSubmission } from '@/types/otms';
+
+const SUBMISSIONS_STORE = OFFLINE_STORES.submissions;
+const SESSION_STORE = OFFLINE_STORES.session;
+const SESSION_KEY = 'current';
+
+/** A replay that hasn't finished by now was cut off, e.g. by the worker stopping */
+const STALE_SYNC_MS = 2 * 60 * 1000;
+
+/**
+ * The signed-in user's access token, kept for the service worker. It is not
+ * refreshed there: a replay with an expired token waits for the app to open.
+ */
+export interface SyncSession {
+  user_id: string;
+  access_token: string;
+  /** Seconds since the epoch, as Supabase reports it */
+  expires_at: number;
+}
+
+export interface QueueSyncResult {
+  synced: number;
+  conflicts: number;
+  failed: number;
+  /** Left for a later replay, for want of a connection or a current sign-in */
+  pending: number;
+}
+
+/**
+ * Saves a submission to send when connectivity returns
+ */
+export async function queueOTSubmission(input: {
+  /** Defaults to a new id; pass the one an interrupted online attempt used */
+  id?: string;
+  employee_id: string;
+  payload: QueuedOTPayload;
+  attachments?: QueuedOTAttachment[];
+  draft_id?: string | null;
+}): Promise<QueuedOTSubmission> {
+  const submission: QueuedOTSubmission = {
+    id: input.id ?? crypto.randomUUID(),
+    employee_id: input.employee_id,
+    payload: input.payload,
+    attachments: input.attachments || [],
+    draft_id: input.draft_id ?? null,
+    status: 'pending',
+    conflict: null,
+    error: null,
+    attempts: 0,
+    queued_at: new Date().toISOString(),
+    last_attempt_at: null,
+  };
+
+  await withStore(SUBMISSIONS_STORE, 'readwrite', (store) => store.put(submission));
+  return submission;
+}
+
+/**
+ * The employee's queued submissions, oldest first
+ */
+export async function listQueuedOTSubmissions(employeeId: string): Promise<QueuedOTSubmission[]> {
+  const submissions = await withStore<QueuedOTSubmission[]>(SUBMISSIONS_STORE, 'readonly', (store) =>
+    store.index('employee_id').getAll(employeeId)
+  );
+  return submissions.sort((a, b) => a.queued_at.localeCompare(b.queued_at));
+}
+
+export async function updateQueuedOTSubmission(
+  id: string,
+  changes: Partial<Omit<QueuedOTSubmission, 'id'>>
+): Promise<QueuedOTSubmission | null> {
+  const current = await withStore<QueuedOTSubmission | undefined>(SUBMISSIONS_STORE, 'readonly', (store) =>
+    store.get(id)
+  );
+  if (!current) return null;
+
+  const updated = { ...current, ...changes };
+  await withStore(SUBMISSIONS_STORE, 'readwrite', (store) => store.put(updated));
+  return updated;
+}
+
+export async function removeQueuedOTSubmission(id: string): Promise<void> {
+  await withStore(SUBMISSIONS_STORE, 'readwrite', (store) => store.delete(id));
+}
+
+export async function saveSyncSession(session: SyncSession): Promise<void> {
+  await withStore(SESSION_STORE, 'readwrite', (store) => store.put(session, SESSION_KEY));
+}
+
+export async function getSyncSession(): Promise<SyncSession | null> {
+  const session = await withStore<SyncSession | undefined>(SESSION_STORE, 'readonly', (store) => store.get(SESSION_KEY));
+  return session ?? null;
+}
+
+export async function clearSyncSession(): Promise<void> {
+  await withStore(SESSION_STORE, 'readwrite', (store) => store.delete(SESSION_KEY));
+}
+
+/**
+ * Asks the service worker to replay a queue once the device is online, the
+ * submission queue unless another sync tag is given. Returns false where
+ * Background Sync isn't supported; the app replays the queue itself when it
+ * comes back online.
+ */
+export async function requestQueueSync(tag: string = OT_QUEUE_SYNC_TAG): Promise<boolean> {
+  if (!('serviceWorker' in navigator) || typeof window === 'undefined' || !('SyncManager' in window)) {
+    return false;
+  }
+
+  try {
+    const registration = (await navigator.serviceWorker.ready) as ServiceWorkerRegistration & {
+      sync?: { register: (tag: string) => Promise<void> };
+    };
+    if (!registration.sync) return false;
+    await registration.sync.register(tag);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** The message in an edge function's error response, when it sent one */
+async function getFunctionErrorMessage(error: Error & { context?: Response }): Promise<string> {
+  try {
+    const body = await error.context?.json();
+    return body?.error || error.message;
+  } catch {
+    return error.message;
+  }
+}
+
+async function uploadQueuedAttachments(
+  client: SupabaseClient,
+  submission: QueuedOTSubmission
+): Promise<string[]> {
+  const urls: string[] = [];
+  for (const attachment of submission.attachments) {
+    const fileExt = attachment.name.split('.').pop();
+    const filePath = `${submission.employee_id}/${Date.now()}-${Math.random().toString(36).substring(7)}.${fileExt}`;
+
+    const { error } = await client.storage
+      .from('ot-attachments')
+      .upload(filePath, attachment.blob, { contentType: attachment.type });
+
+    if (error) throw error;
+
+    urls.push(client.storage.from('ot-attachments').getPublicUrl(filePath).data.publicUrl);
+  }
+  return urls;
+}
+
+/** Work that follows a submission reaching the server; failures are not fatal */
+async function completeSubmission(
+  client: SupabaseClient,
+  submission: QueuedOTSubmission,
+  requestId: string
+): Promise<void> {
+  const { payload } = submission;
+
+  await client.functions
+    .invoke('send-supervisor-ot-notification', {
+      body: {
+        requestId,
+        employeeId: submission.employee_id,
+        respectiveSupervisorId: payload.respective_supervisor_id,
+      },
+    })
+    .catch(() => undefined);
+
+  if (payload.cost_allocations && payload.cost_allocations.length > 0) {
+    await client.rpc('set_ot_cost_allocations', {
+      p_request_id: requestId,
+      p_allocations: payload.cost_allocations,
+    });
+  }
+
+  if (submission.draft_id) {
+    await client
+      .from('ot_request_drafts')
+      .update({ status: 'submitted', ot_request_id: requestId })
+      .eq('id', submission.draft_id);
+  }
+}
+
+/**
+ * Sends one queued submission. It is removed once the server has it, marked
+ * as a conflict if it breaks the submission rules, left pending if the
+ * connection or sign-in is missing, and marked failed if it is refused.
+ */
+async function replayQueuedOTSubmission(
+  client: SupabaseClient,
+  submission: QueuedOTSubmission
+): Promise<QueuedOTSubmission['status'] | 'synced'> {
+  const attempt = await updateQueuedOTSubmission(submission.id, {
+    status: 'syncing',
+    attempts: submission.attempts + 1,
+    last_attempt_at: new Date().toISOString(),
+  });
+  if (!attempt) return 'synced';
+
+  try {
+    const { payload } = attempt;
+
+    const { data: existingRequests, error: existingError } = await client
+      .from('ot_requests')
+      .select('id, ot_date, start_time, end_time, client_submission_id')
+      .eq('employee_id', attempt.employee_id)
+      .gte('ot_date', previousDate(payload.ot_date))
+      .lte('ot_date', nextDate(payload.ot_date))
+      .neq('status', 'rejected');
+
+    if (existingError) throw existingError;
+
+    // An earlier replay reached the server but its response was lost
+    const alreadySent = (existingRequests || []).find((request) => request.client_submission_id === attempt.id);
+    if (alreadySent) {
+      await removeQueuedOTSubmission(attempt.id);
+      return 'synced';
+    }
+
+    const { data: settings } = await client
+      .from('ot_settings')
+      .select('ot_submission_cutoff_day, grace_period_enabled')
+      .limit(1)
+      .maybeSingle();
+
+    const conflict = findQueueConflict(payload, {
+      now: new Date(),
+      cutoffDay: settings?.ot_submission_cutoff_day || 10,
+      gracePeriodEnabled: settings?.grace_period_enabled ?? false,
+      existingRequests: existingRequests || [],
+      submissionId: attempt.id,
+    });
+    if (conflict) {
+      await updateQueuedOTSubmission(attempt.id, { status: 'conflict', conflict: conflict.kind, error: conflict.message });
+      return 'conflict';
+    }
+
+    // Keep uploaded files with the submission so a retry doesn't upload them again
+    let attachmentUrls = payload.attachment_urls;
+    if (attempt.attachments.length > 0) {
+      attachmentUrls = [...payload.attachment_urls, ...(await uploadQueuedAttachments(client, attempt))];
+      await updateQueuedOTSubmission(attempt.id, {
+        payload: { ...payload, attachment_urls: attachmentUrls },
+        attachments: [],
+      });
+    }
+
+    const { data, error } = await client.functions.invoke('submit-ot-request', {
+      body: {
+        ...payload,
+        attachment_urls: attachmentUrls,
+        client_submission_id: attempt.id,
+      },
+    });
+
+    if (error) {
+      if (isNetworkError(error)) throw error;
+      throw new Error(await getFunctionErrorMessage(error));
+    }
+
+    await completeSubmission(client, attempt, data.data.id);
+    await removeQueuedOTSubmission(attempt.id);
+    return 'synced';
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Submission failed';
+    const waiting = isNetworkError(error) || /jwt|unauthori[sz]ed/i.test(message);
+    await updateQueuedOTSubmission(attempt.id, {
+      status: waiting ? 'pending' : 'failed',
+      error: waiting ? null : message,
+    });
+    return waiting ? 'pending' : 'failed';
+  }
+}
+
+/**
+ * Replays the employee's pending submissions in the order they were made.
+ * Conflicts and refused submissions wait for the employee to retry or
+ * discard them.
+ */
+export async function syncQueuedOTSubmissions(client: SupabaseClient, employeeId: string): Promise<QueueSyncResult> {
+  const result: QueueSyncResult = { synced: 0, conflicts: 0, failed: 0, pending: 0 };
+  const submissions = await listQueuedOTSubmissions(employeeId);
+
+  const isDue = (queued: QueuedOTSubmission) =>
+    queued.status === 'pending' ||
+    (queued.status === 'syncing' && Date.now() - new Date(queued.last_attempt_at || 0).getTime() > STALE_SYNC_MS);
+
+  const due = submissions.filter(isDue);
+  for (const [index, submission] of due.entries()) {
+    const outcome = await replayQueuedOTSubmission(client, submission);
+    if (outcome === 'synced') result.synced += 1;
+    if (outcome === 'conflict') result.conflicts += 1;
+    if (outcome === 'failed') result.failed += 1;
+    // Still offline: the rest would fail the same way
+    if (outcome === 'pending') {
+      result.pending = due.length - index;
+      break;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,67 @@
+/**
+ * Offline Query Cache Service
+ *
+ * Saves the React Query data an approver needs offline to IndexedDB and
+ * restores it when the app starts, so VerifyOT opens without a connection.
+ * Attachments of requests awaiting a decision are fetched into the Cache
+ * Storage the service worker serves them from.
+ */
+
+import { dehydrate, DehydratedState, hydrate, QueryClient } from '@tanstack/react-query';
+import { isOfflineApprovalQuery, OFFLINE_QUERY_MAX_AGE_MS, OT_ATTACHMENT_CACHE } from '@/lib/offlineApprovals';
+import { OFFLINE_STORES, withStore } from '@/services/offline-db';
+
+const QUERY_CACHE_STORE = OFFLINE_STORES.queryCache;
+const QUERY_CACHE_KEY = 'current';
+
+interface SavedQueries {
+  user_id: string;
+  saved_at: number;
+  state: DehydratedState;
+}
+
+/**
+ * Saves the user's approval queries that have loaded
+ */
+export async function saveOfflineQueries(queryClient: QueryClient, userId: string): Promise<void> {
+  const state = dehydrate(queryClient, {
+    shouldDehydrateQuery: (query) => query.state.status === 'success' && isOfflineApprovalQuery(query.queryKey),
+  });
+
+  const saved: SavedQueries = { user_id: userId, saved_at: Date.now(), state };
+  await withStore(QUERY_CACHE_STORE, 'readwrite', (store) => store.put(saved, QUERY_CACHE_KEY));
+}
+
+/**
+ * Puts the user's saved queries back in the cache. Data already fetched
+ * this session is newer and is kept. Returns whether anything was restored.
+ */
+export async function restoreOfflineQueries(queryClient: QueryClient, userId: string): Promise<boolean> {
+  const saved = await withStore<SavedQueries | undefined>(QUERY_CACHE_STORE, 'readonly', (store) =>
+    store.get(QUERY_CACHE_KEY)
+  );
+  if (!saved || saved.user_id !== userId || Date.now() - saved.saved_at > OFFLINE_QUERY_MAX_AGE_MS) {
+    return false;
+  }
+
+  hydrate(queryClient, saved.state);
+  return true;
+}
+
+export async function clearOfflineQueries(): Promise<void> {
+  await withStore(QUERY_CACHE_STORE, 'readwrite', (store) => store.delete(QUERY_CACHE_KEY));
+}
+
+/**
+ * Fetches attachments not cached yet. Failures are skipped: the file is
+ * fetched again on the next save.
+ */
+export async function cacheOTAttachments(urls: string[]): Promise<void> {
+  if (typeof caches === 'undefined' || urls.length === 0) return;
+
+  const cache = await caches.open(OT_ATTACHMENT_CACHE);
+  for (const url of urls) {
+    if (await cache.match(url, { ignoreVary: true })) continue;
+    await cache.add(url).catch(() => undefined);
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * OT Bulk Decision Service
+ *
+ * Applies an approver's approve/reject decisions on many OT requests at once
+ * through `decide_ot_requests`. Each request is validated and transitioned
+ * on its own, so a request that changed since the approver loaded the queue
+ * fails alone and the caller gets a result for every request. Employees are
+ * notified once with all of their decided requests.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { getActiveDelegatorIds } from '@/services/approval-delegation';
+import { getDecisionStatus, validateApproverDecision } from '@/services/ot-workflow';
+import { countBulkDecisions, groupDecisionNotifications, BulkDecisionCounts } from '@/lib/bulkOTDecisions';
+import { ApprovalRole, BulkOTDecision, BulkOTDecisionResult, OTRequest } from '@/types/otms';
+
+export interface DecideOTRequestsInput {
+  role: ApprovalRole;
+  decisions: BulkOTDecision[];
+}
+
+export interface BulkOTDecisionReport extends BulkDecisionCounts {
+  /** One per decision, in the order given */
+  results: BulkOTDecisionResult[];
+}
+
+/**
+ * Validates and applies each decision on its own.
+ *
+ * Decisions that fail the client-side checks are reported without being
+ * sent; the engine re-checks the rest and reports its own refusals.
+ *
+ * @throws Error when the decisions could not be sent at all
+ */
+export async function decideOTRequests({ role, decisions }: DecideOTRequestsInput): Promise<BulkOTDecisionReport> {
+  if (decisions.length === 0) {
+    throw new Error('No requests selected');
+  }
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+
+  const { data: requests, error: fetchError } = await supabase
+    .from('ot_requests')
+    .select('*')
+    .in('id', decisions.map((d) => d.request_id));
+
+  if (fetchError) throw fetchError;
+
+  const requestsById = new Map(((requests || []) as unknown as OTRequest[]).map((r) => [r.id, r]));
+  const delegatorIds = role === 'supervisor' ? await getActiveDelegatorIds(user.id, 'supervisor') : [];
+
+  const resultsById = new Map<string, BulkOTDecisionResult>();
+  const valid: BulkOTDecision[] = [];
+
+  decisions.forEach((decision) => {
+    const request = requestsById.get(decision.request_id);
+    const validation = request
+      ? validateApproverDecision(request, role, decision.decision, {
+          userId: user.id,
+          delegatorIds,
+          remarks: decision.remarks,
+        })
+      : { valid: false, error: 'OT request not found' };
+
+    if (validation.valid) {
+      valid.push(decision);
+      return;
+    }
+
+    resultsById.set(decision.request_id, {
+      request_id: decision.request_id,
+      employee_id: request?.employee_id ?? null,
+      decision: decision.decision,
+      ok: false,
+      from_status: request?.status ?? null,
+      to_status: null,
+      error: validation.error ?? 'Not allowed',
+    });
+  });
+
+  if (valid.length > 0) {
+    const { data, error } = await supabase.rpc('decide_ot_requests', {
+      p_decisions: valid.map((d) => ({
+        request_id: d.request_id,
+        to_status: getDecisionStatus(role, d.decision, requestsById.get(d.request_id)),
+        remarks: d.remarks?.trim() || null,
+        rejection_stage: d.decision === 'reject' ? role : null,
+      })),
+    });
+
+    if (error) throw new Error(error.message);
+
+    const decisionsById = new Map(valid.map((d) => [d.request_id, d.decision]));
+    (data || []).forEach((row) => {
+      resultsById.set(row.request_id, { ...row, decision: decisionsById.get(row.request_id)! });
+    });
+  }
+
+  const results = decisions
+    .map((d) => resultsById.get(d.request_id))
+    .filter((r): r is BulkOTDecisionResult => !!r);
+
+  notifyBulkDecisions(role, results);
+
+  return { results, ...countBulkDecisions(results) };
+}
+
+/**
+ * Sends each employee one notification for all of their decided requests,
+ * and tells management about requests HR certified.
+ * Notification failures never affect the decisions.
+ */
+function notifyBulkDecisions(role: ApprovalRole, results: BulkOTDecisionResult[]): void {
+  groupDecisionNotifications(results).forEach((notifications, employeeId) => {
+    supabase.functions
+      .invoke('send-employee-ot-notification', { body: { decisions: notifications } })
+      .then((response) => {
+        if (response.error) throw response.error;
+      })
+      .catch((notifError) => {
+        console.error(`Failed to send decision notification to employee ${employeeId}:`, notifError);
+      });
+  });
+
+  if (role === 'hr') {
+    // Chains without a management step are completed by HR certification
+    results
+      .filter((r) => r.ok && r.to_status === 'hr_certified')
+      .forEach(({ request_id: requestId }) => {
+        supabase.functions.invoke('send-management-ot-notification', { body: { requestId } }).catch((notifError) => {
+          console.error('Failed to send management notification:', notifError);
+        });
+      });
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * OT Transition Service
+ *
+ * Client entry point to the server-side workflow engine (`transition_ot_request`).
+ * All status changes on ot_requests go through here; direct status updates are
+ * rejected by the database.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { OTStatus, TransitionActor } from '@/types/otms';
+
+export interface TransitionOTRequestInput {
+  /** OT request IDs to move (validated and applied together) */
+  requestIds: string[];
+  /** Target status */
+  toStatus: OTStatus;
+  /** Remarks stored in the acting role's remarks column */
+  remarks?: string;
+  /** Overrides the default rejection_stage when rejecting */
+  rejectionStage?: string;
+}
+
+/**
+ * One applied transition as reported by the engine
+ */
+export interface OTTransitionResult {
+  request_id: string;
+  from_status: OTStatus;
+  to_status: OTStatus;
+  actor: TransitionActor;
+}
+
+/**
+ * Moves OT requests to a new status through the server-side engine.
+ *
+ * The engine checks the caller's role, their assignment on each request
+ * (supervisor_id / respective_supervisor_id) and the transition table.
+ * The batch is all-or-nothing: if any request fails validation, none change.
+ *
+ * @throws Error with the engine's message when the transition is rejected
+ */
+export async function transitionOTRequests(
+  input: TransitionOTRequestInput
+): Promise<OTTransitionResult[]> {
+  if (input.requestIds.length === 0) {
+    throw new Error('No requests selected');
+  }
+
+  const { data, error } = await supabase.rpc('transition_ot_request', {
+    p_request_ids: input.requestIds,
+    p_to_status: input.toStatus,
+    p_remarks: input.remarks ?? null,
+    p_rejection_stage: input.rejectionStage ?? null,
+  });
+
+  if (error) throw new Error(error.message);
+  return (data as unknown as OTTransitionResult[]) || [];
+}
@@ -5,7 +5,15 @@
  * supporting both Route A (direct supervisor) and Route B (respective supervisor) flows.
  */
 
-import { OTRequest, OTStatus, VALID_CONFIRMATION_TRANSITIONS, canTransition } from '@/types/otms';
+import {
+  ApprovalRole,
+  BulkOTDecision,
+  OTRequest,
+  OTStatus,
+  TransitionActor,
+  VALID_CONFIRMATION_TRANSITIONS,
+  canTransition,
+} from '@/types/otms';
 
 /**
  * Validation result for workflow transitions
@@ -21,11 +29,13 @@ export interface ValidationResult {
  *
  * @param request - The OT request to validate
  * @param userId - The ID of the supervisor attempting approval
+ * @param delegatorIds - Supervisors the user is currently covering for (out of office delegation)
  * @returns Validation result
  */
 export function validateSupervisorApproval(
   request: OTRequest,
-  userId: string
+  userId: string,
+  delegatorIds: string[] = []
 ): ValidationResult {
   // Check if request is in the correct status
   if (request.status !== 'pending_verification') {
@@ -36,10 +46,10 @@ export function validateSupervisorApproval(
   }
 
   // Check if the supervisor is authorized
-  if (request.supervisor_id !== userId) {
+  if (request.supervisor_id !== userId && !delegatorIds.includes(request.supervisor_id)) {
     return {
       valid: false,
-      error: 'You are not authorized to approve this request. Only the assigned supervisor can approve.',
+      error: 'You are not authorized to approve this request. Only the assigned supervisor or their delegate can approve.',
     };
   }
 
@@ -176,6 +186,7 @@ export function validateSupervisorVerification(
 /**
  * Validates if HR can certify an OT request
  * Status: supervisor_confirmed or supervisor_verified → hr_certified
+ * (department_head_approved → hr_certified when the approval chain has a department head step)
  *
  * @param request - The OT request to validate
  * @param userId - The ID of the HR user attempting certification (optional, for audit)
@@ -185,8 +196,16 @@ export function validateHRCertification(
   request: OTRequest,
   userId?: string
 ): ValidationResult {
-  // Check if request is in one of the valid states for HR certification
-  if (request.status !== 'supervisor_confirmed' && request.status !== 'supervisor_verified') {
+  // Chains with a department head step certify only after the department head approves
+  if (request.approval_steps?.includes('department_head')) {
+    if (request.status !== 'department_head_approved') {
+      return {
+        valid: false,
+        error: `Request must be approved by the department head first. Current status: ${request.status}`,
+      };
+    }
+  } else if (request.status !== 'supervisor_confirmed' && request.status !== 'supervisor_verified') {
+    // Check if request is in one of the valid states for HR certification
     return {
       valid: false,
       error: `Request must be supervisor confirmed or verified. Current status: ${request.status}`,
@@ -278,6 +297,95 @@ export function validateManagementRejection(
   return { valid: true };
 }
 
+/**
+ * Status an approver's decision moves a request to
+ * Management rejection sends the request back to HR; other roles reject outright.
+ * A supervisor confirming a request the respective supervisor already
+ * confirmed verifies it, as getDecisionTargetStatus does for queued decisions.
+ *
+ * @param role - Role making the decision
+ * @param decision - Approve or reject
+ * @param request - The request decided on, for the supervisor's route
+ * @returns Target status
+ */
+export function getDecisionStatus(
+  role: ApprovalRole,
+  decision: BulkOTDecision['decision'],
+  request?: Pick<OTRequest, 'respective_supervisor_id' | 'respective_supervisor_confirmed_at'>
+): OTStatus {
+  if (decision === 'reject') {
+    return role === 'management' ? 'hr_certified' : 'rejected';
+  }
+
+  switch (role) {
+    case 'supervisor':
+      return request?.respective_supervisor_id && request.respective_supervisor_confirmed_at
+        ? 'supervisor_verified'
+        : 'supervisor_confirmed';
+    case 'department_head':
+      return 'department_head_approved';
+    case 'hr':
+      return 'hr_certified';
+    case 'management':
+      return 'management_approved';
+  }
+}
+
+/**
+ * Validates one approver decision on its own, as done for each request in a bulk review
+ * Applies the role's stage checks, the transition table and the remarks rules.
+ * Department head assignment is checked by the transition engine.
+ *
+ * @param request - The OT request to validate
+ * @param role - Role making the decision
+ * @param decision - Approve or reject
+ * @param options - The deciding user, the supervisors they cover for and the remarks
+ * @returns Validation result
+ */
+export function validateApproverDecision(
+  request: OTRequest,
+  role: ApprovalRole,
+  decision: BulkOTDecision['decision'],
+  options: { userId: string; delegatorIds?: string[]; remarks?: string }
+): ValidationResult {
+  const { userId, delegatorIds = [], remarks } = options;
+  const toStatus = getDecisionStatus(role, decision, request);
+
+  if (role === 'supervisor') {
+    if (request.supervisor_id !== userId && !delegatorIds.includes(request.supervisor_id)) {
+      return {
+        valid: false,
+        error: 'You are not authorized to decide this request. Only the assigned supervisor or their delegate can.',
+      };
+    }
+  } else if (role === 'department_head' && !request.approval_steps?.includes('department_head')) {
+    return {
+      valid: false,
+      error: 'This request does not need department head approval.',
+    };
+  } else if (role === 'hr' && decision === 'approve') {
+    const certification = validateHRCertification(request, userId);
+    if (!certification.valid) return certification;
+  } else if (role === 'management') {
+    const approval = validateManagementApproval(request, userId);
+    if (!approval.valid) return approval;
+    if (request.management_remarks) {
+      return {
+        valid: false,
+        error: 'This request was sent back and is awaiting HR recertification.',
+      };
+    }
+  }
+
+  const transition = validateStatusTransition(request.status, toStatus, role);
+  if (!transition.valid) return transition;
+
+  const requiresRemarks = VALID_CONFIRMATION_TRANSITIONS.some(
+    (t) => t.from === request.status && t.to === toStatus && t.role === role && t.requiresRemarks
+  );
+  return validateRemarks(remarks, 500, requiresRemarks);
+}
+
 /**
  * Generic status transition validator
  * Uses VALID_CONFIRMATION_TRANSITIONS to determine if a transition is allowed
@@ -290,7 +398,7 @@ export function validateManagementRejection(
 export function validateStatusTransition(
   fromStatus: OTStatus,
   toStatus: OTStatus,
-  role: 'supervisor' | 'hr' | 'management'
+  role: TransitionActor
 ): ValidationResult {
   if (!canTransition(fromStatus, toStatus, role)) {
     return {
@@ -0,0 +1,26 @@
+/**
+ * Shift Roster Service
+ *
+ * Reads an employee's rostered days (get_employee_roster). Dates without a
+ * roster are left out: the calendar rules apply to them.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { RosterDay } from '@/types/otms';
+
+/**
+ * The employee's rostered days between two dates, inclusive
+ */
+export async function fetchEmployeeRoster(employeeId: string, fromDate: string, toDate: string): Promise<RosterDay[]> {
+  const { data, error } = await supabase.rpc('get_employee_roster', {
+    p_employee_id: employeeId,
+    p_from: fromDate,
+    p_to: toDate,
+  });
+
+  if (error) throw error;
+  return ((data as RosterDay[]) || []).map((day) => ({
+    ...day,
+    normal_hours: Number(day.normal_hours),
+  }));
+}
@@ -14,6 +14,8 @@ export interface NotificationPreferences {
   ot_pending_confirmation: boolean;
   /** Notifications when supervisor confirms OT request (employees) */
   ot_supervisor_confirmed: boolean;
+  /** Reminders and escalations for approvals past their SLA (approvers only) */
+  ot_approval_overdue: boolean;
   /** Global disable flag - when true, all notifications are disabled */
   all_disabled: boolean;
 }
@@ -27,6 +29,7 @@ export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
   ot_requests_rejected: true,
   ot_pending_confirmation: true,
   ot_supervisor_confirmed: true,
+  ot_approval_overdue: true,
   all_disabled: false,
 };
 
@@ -74,5 +77,11 @@ export const NOTIFICATION_TYPES: NotificationTypeConfig[] = [
     label: 'OT Confirmed',
     description: 'Get notified when your supervisor confirms your OT request',
     roles: ['employee']
+  },
+  {
+    key: 'ot_approval_overdue',
+    label: 'Overdue Approvals',
+    description: 'Get reminded when OT requests have been waiting on you too long',
+    roles: ['supervisor', 'hr', 'admin', 'management']
   }
 ];
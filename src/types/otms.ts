@@ -13,6 +13,9 @@ export type OTStatus =
   | 'pending_supervisor_verification'             // Awaiting direct SV verification
   | 'supervisor_verified'                         // Direct SV verified
 
+  // Optional department head step (configurable approval chains)
+  | 'department_head_approved'                    // Department head approved
+
   // HR & Management (Both Routes Converge)
   | 'hr_certified'                                // HR certification complete
   | 'management_approved'                         // Management final approval
@@ -29,7 +32,13 @@ export interface OTRequest {
   end_time: string;
   total_hours: number;
   day_type: DayType;
+  /** Hours after midnight when end_time is earlier than start_time, paid as part of the next date */
+  overnight_hours?: number;
+  /** Day type of the next date for overnight_hours */
+  overnight_day_type?: DayType | null;
   reason: string;
+  /** The catalogue reason; reason holds its label or the employee's details */
+  reason_id?: string | null;
   attachment_urls: string[];
   orp: number | null;
   hrp: number | null;
@@ -45,6 +54,11 @@ export interface OTRequest {
   respective_supervisor_remarks: string | null;
   respective_supervisor_denied_at: string | null;
   respective_supervisor_denial_remarks: string | null;
+  department_head_id?: string | null;
+  department_head_approved_at?: string | null;
+  department_head_remarks?: string | null;
+  /** Steps after the supervisor stage (ApprovalStepRole values), resolved from the request's approval chain */
+  approval_steps?: string[];
   hr_id: string | null;
   hr_approved_at: string | null;
   hr_remarks: string | null;
@@ -53,6 +67,8 @@ export interface OTRequest {
   // management_remarks: string | null;
   management_reviewed_at?: string | null; // Kept for backward compatibility
   management_remarks?: string | null; // Kept for backward compatibility
+  /** The manager who approved the request or sent it back to HR */
+  management_id?: string | null;
   eligibility_rule_id: string | null;
   formula_id: string | null;
   threshold_violations: any;
@@ -60,6 +76,8 @@ export interface OTRequest {
   resubmission_count: number;
   rejection_stage: string | null;
   is_resubmission: boolean;
+  /** When the request entered its current status; the SLA clock starts here */
+  status_changed_at?: string;
   created_at: string;
   updated_at: string;
   profiles?: {
@@ -67,6 +85,7 @@ export interface OTRequest {
     employee_id: string;
     full_name: string;
     department_id?: string;
+    company_id?: string | null;
     basic_salary?: number;
     departments?: {
       name: string;
@@ -94,6 +113,8 @@ export interface OTSession {
   status?: OTStatus;
   reason?: string;
   attachment_urls?: string[];
+  /** Cost centre codes the session is charged to, with their hours */
+  cost_allocations?: Array<{ code: string; name: string; hours: number }>;
 }
 
 export interface GroupedOTRequest extends Omit<OTRequest, 'start_time' | 'end_time' | 'total_hours'> {
@@ -110,6 +131,8 @@ export interface Profile {
   ic_no: string | null;
   phone_no: string | null;
   company_id: string | null;
+  /** The company the user is acting in, when switched away from their own */
+  active_company_id?: string | null;
   department_id: string | null;
   basic_salary: number;
   /** Optional OT base salary override. If set, used instead of basic_salary for OT calculations */
@@ -190,45 +213,252 @@ export interface ConfirmRequestResponse {
   error?: string;
 }
 
+/**
+ * Workflow actor performing a status transition.
+ * `respective_supervisor` is the instructing supervisor on Route B requests;
+ * `department_head` is the head of the employee's department (approval chains).
+ */
+export type TransitionActor = 'supervisor' | 'respective_supervisor' | 'department_head' | 'hr' | 'management';
+
 /**
  * Valid status transitions for OT approval workflow
  */
 export type ConfirmationStatusTransition = {
   from: OTStatus;
   to: OTStatus;
-  role: 'supervisor' | 'hr' | 'management';
+  role: TransitionActor;
+  /** Remarks must accompany the transition (rejections and send-backs) */
+  requiresRemarks?: boolean;
 };
 
 /**
  * Helper type for validation of status transitions
- * Defines all valid state transitions in the approval workflow
+ * Defines all valid state transitions in the approval workflow.
+ *
+ * Mirrors the server-side `ot_status_transitions` table, which is what
+ * `transition_ot_request` actually enforces. Keep the two in sync.
  */
 export const VALID_CONFIRMATION_TRANSITIONS: ConfirmationStatusTransition[] = [
   // ============ ROUTE A: Direct Supervisor Only ============
   { from: 'pending_verification', to: 'supervisor_confirmed', role: 'supervisor' },
+  { from: 'pending_verification', to: 'rejected', role: 'supervisor', requiresRemarks: true },
+  // Supervisor asks the instructing supervisor to confirm first (switches to Route B)
+  { from: 'pending_verification', to: 'pending_respective_supervisor_confirmation', role: 'supervisor' },
 
   // ============ ROUTE B: Respective Supervisor First ============
   // Respective supervisor confirms or denies
-  { from: 'pending_respective_supervisor_confirmation', to: 'respective_supervisor_confirmed', role: 'supervisor' },
-  { from: 'pending_respective_supervisor_confirmation', to: 'rejected', role: 'supervisor' },
+  { from: 'pending_respective_supervisor_confirmation', to: 'pending_supervisor_verification', role: 'respective_supervisor' },
+  { from: 'pending_respective_supervisor_confirmation', to: 'respective_supervisor_confirmed', role: 'respective_supervisor' },
+  { from: 'pending_respective_supervisor_confirmation', to: 'rejected', role: 'respective_supervisor', requiresRemarks: true },
   // Direct supervisor verifies after respective SV confirms
   { from: 'respective_supervisor_confirmed', to: 'pending_supervisor_verification', role: 'supervisor' },
+  { from: 'respective_supervisor_confirmed', to: 'supervisor_verified', role: 'supervisor' },
+  { from: 'pending_supervisor_verification', to: 'supervisor_confirmed', role: 'supervisor' },
   { from: 'pending_supervisor_verification', to: 'supervisor_verified', role: 'supervisor' },
+  { from: 'pending_supervisor_verification', to: 'rejected', role: 'supervisor', requiresRemarks: true },
+
+  // ============ DEPARTMENT HEAD (only when the approval chain has the step) ============
+  { from: 'supervisor_confirmed', to: 'department_head_approved', role: 'department_head' },
+  { from: 'supervisor_verified', to: 'department_head_approved', role: 'department_head' },
+  { from: 'respective_supervisor_confirmed', to: 'department_head_approved', role: 'department_head' },
+  { from: 'supervisor_confirmed', to: 'rejected', role: 'department_head', requiresRemarks: true },
+  { from: 'supervisor_verified', to: 'rejected', role: 'department_head', requiresRemarks: true },
+  { from: 'respective_supervisor_confirmed', to: 'rejected', role: 'department_head', requiresRemarks: true },
 
   // ============ HR CERTIFICATION (Both Routes Converge) ============
   { from: 'supervisor_confirmed', to: 'hr_certified', role: 'hr' },
   { from: 'supervisor_verified', to: 'hr_certified', role: 'hr' },
+  { from: 'respective_supervisor_confirmed', to: 'hr_certified', role: 'hr' },
+  { from: 'supervisor_confirmed', to: 'rejected', role: 'hr', requiresRemarks: true },
+  { from: 'supervisor_verified', to: 'rejected', role: 'hr', requiresRemarks: true },
+  { from: 'respective_supervisor_confirmed', to: 'rejected', role: 'hr', requiresRemarks: true },
+  { from: 'department_head_approved', to: 'hr_certified', role: 'hr' },
+  { from: 'department_head_approved', to: 'rejected', role: 'hr', requiresRemarks: true },
 
   // HR rejection - reset to start of respective route
-  { from: 'hr_certified', to: 'pending_verification', role: 'hr' }, // Route A reset
-  { from: 'hr_certified', to: 'pending_respective_supervisor_confirmation', role: 'hr' }, // Route B reset
+  { from: 'hr_certified', to: 'pending_verification', role: 'hr', requiresRemarks: true }, // Route A reset
+  { from: 'hr_certified', to: 'pending_respective_supervisor_confirmation', role: 'hr', requiresRemarks: true }, // Route B reset
+  // HR recertifies or declines a request management sent back
+  { from: 'hr_certified', to: 'hr_certified', role: 'hr', requiresRemarks: true },
+  { from: 'hr_certified', to: 'rejected', role: 'hr', requiresRemarks: true },
 
   // ============ MANAGEMENT APPROVAL ============
   { from: 'hr_certified', to: 'management_approved', role: 'management' },
   // Management rejection - send back to HR for recertification
-  { from: 'management_approved', to: 'hr_certified', role: 'management' },
+  { from: 'hr_certified', to: 'hr_certified', role: 'management', requiresRemarks: true },
+  { from: 'management_approved', to: 'hr_certified', role: 'management', requiresRemarks: true },
 ];
 
+/**
+ * Actor role recorded on an OT request event
+ */
+export type OTRequestEventActorRole = 'employee' | TransitionActor | 'system';
+
+/**
+ * Entry in the append-only ot_request_events log
+ * Written by the database on submission, every status transition and employee edits
+ */
+export interface OTRequestEvent {
+  id: string;
+  request_id: string;
+  event_type: 'submitted' | 'status_changed' | 'updated' | 'escalated';
+  actor_id: string | null;
+  actor_role: OTRequestEventActorRole;
+  from_status: OTStatus | null;
+  to_status: OTStatus | null;
+  remarks: string | null;
+  /** Field-level diff: column name → previous and new value */
+  changes: Record<string, { old: unknown; new: unknown }>;
+  created_at: string;
+  actor?: {
+    full_name: string;
+    employee_id: string;
+  } | null;
+  /** Approver a delegate acted for; NULL when the actor acted in their own right */
+  on_behalf_of?: string | null;
+  principal?: {
+    full_name: string;
+    employee_id: string;
+  } | null;
+}
+
+/**
+ * Approval step that can follow the supervisor stage. Steps always run in this
+ * order; HR certification is never skipped.
+ */
+export type ApprovalStepRole = 'department_head' | 'hr' | 'management';
+
+export const APPROVAL_STEP_ORDER: ApprovalStepRole[] = ['department_head', 'hr', 'management'];
+
+/**
+ * When a step is skipped relative to its condition
+ * - never: always required
+ * - when_condition_met: skipped if the request matches the condition
+ * - when_condition_not_met: only required if the request matches the condition
+ */
+export type ApprovalStepSkipRule = 'never' | 'when_condition_met' | 'when_condition_not_met';
+
+/**
+ * Step condition; every field is optional and all given fields must match
+ */
+export interface ApprovalStepCondition {
+  min_hours?: number;
+  max_hours?: number;
+  min_amount?: number;
+  max_amount?: number;
+  day_types?: DayType[];
+  department_ids?: string[];
+}
+
+export interface ApprovalChainStep {
+  id: string;
+  chain_id: string;
+  role: ApprovalStepRole;
+  condition: ApprovalStepCondition;
+  skip_rule: ApprovalStepSkipRule;
+  created_at: string;
+}
+
+/**
+ * Approval chain for a company and/or department (NULL = all)
+ * The most specific active chain applies to a request
+ */
+export interface ApprovalChain {
+  id: string;
+  name: string;
+  company_id: string | null;
+  department_id: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+  approval_chain_steps: ApprovalChainStep[];
+  companies?: { name: string } | null;
+  departments?: { name: string } | null;
+}
+
+/**
+ * Approver role whose duties can be handed to a delegate
+ */
+export type DelegationRole = 'supervisor' | 'hr' | 'management';
+
+/**
+ * Out-of-office substitute: the delegate acts for the delegator in one role
+ * between starts_on and ends_on (inclusive) unless revoked
+ */
+export interface ApprovalDelegation {
+  id: string;
+  delegator_id: string;
+  delegate_id: string;
+  role: DelegationRole;
+  starts_on: string;
+  ends_on: string;
+  reason: string | null;
+  revoked_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  delegator?: { full_name: string; employee_id: string } | null;
+  delegate?: { full_name: string; employee_id: string } | null;
+}
+
+/**
+ * Who is notified when a stage's SLA is breached
+ * - supervisor_manager: the waiting approver's own supervisor (supervisor stages only)
+ */
+export type SlaEscalationTarget = 'supervisor_manager' | 'hr' | 'management' | 'admin';
+
+/**
+ * SLA for one waiting stage: reminders to its approvers as each threshold
+ * passes, then a single escalation once sla_hours is reached
+ */
+export interface OTApprovalSla {
+  id: string;
+  status: OTStatus;
+  reminder_hours: number[];
+  sla_hours: number;
+  escalate_to: SlaEscalationTarget;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * One version of an OT rate formula. Versions of the same formula share a
+ * version_group_id; their calculation fields never change once published.
+ */
+export interface RateFormula {
+  id: string;
+  formula_name: string;
+  day_type: DayType;
+  employee_category: string;
+  orp_definition?: string | null;
+  hrp_definition?: string | null;
+  multiplier: number;
+  base_formula: string;
+  conditional_logic?: unknown;
+  is_active: boolean;
+  effective_from: string;
+  effective_to: string | null;
+  version_group_id: string;
+  version: number;
+  supersedes_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** What-if result of a draft formula version for one employee and month */
+export interface FormulaImpactRow {
+  employee_id: string;
+  employee_name: string;
+  month: string;
+  ot_days: number;
+  total_hours: number;
+  current_amount: number;
+  proposed_amount: number;
+  delta: number;
+  failed_days: number;
+}
+
 /**
  * Helper function to determine if a request is Route A or Route B
  */
@@ -251,3 +481,652 @@ export function canTransition(
       transition.role === role
   );
 }
+
+export type PayrollExportFormat = 'csv' | 'fixed_width' | 'json';
+
+/** Values a payroll export column can be mapped to */
+export type PayrollExportField =
+  | 'batch_no'
+  | 'period_start'
+  | 'period_end'
+  | 'request_id'
+  | 'employee_no'
+  | 'employee_name'
+  | 'department'
+  | 'company_code'
+  | 'ot_date'
+  | 'day_type'
+  | 'pay_code'
+  | 'hours'
+  | 'amount'
+  | 'cost_centre'
+  | 'cost_centre_name';
+
+export interface PayrollExportColumn {
+  field: PayrollExportField;
+  /** Header text (CSV) or key (JSON) */
+  header: string;
+  /** Fixed-width records: column width in characters */
+  width?: number;
+  align?: 'left' | 'right';
+  /** Fixed-width padding character, space by default */
+  pad?: string;
+  /** Decimal places for hours and amounts */
+  decimals?: number;
+}
+
+/** How approved OT is laid out in the files handed to payroll */
+export interface PayrollExportLayout {
+  id: string;
+  name: string;
+  format: PayrollExportFormat;
+  columns: PayrollExportColumn[];
+  pay_codes: Partial<Record<DayType, string>>;
+  /** date-fns pattern, e.g. dd/MM/yyyy */
+  date_format: string;
+  delimiter: string;
+  include_header: boolean;
+  /** One record per request, or per employee and pay code */
+  group_by: 'request' | 'employee_pay_code';
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PayrollExportBatchItem {
+  ot_request_id: string;
+  hours: number;
+  amount: number;
+  voided: boolean;
+}
+
+/** A payroll adjustment paid in a batch */
+export interface PayrollExportBatchAdjustment {
+  adjustment_id: string;
+  hours: number;
+  amount: number;
+  voided: boolean;
+}
+
+/**
+ * One export of approved OT and payroll adjustments to payroll. Its requests
+ * and adjustments cannot be exported again until the batch is voided.
+ */
+export interface PayrollExportBatch {
+  id: string;
+  batch_no: string;
+  layout_id: string;
+  period_start: string;
+  period_end: string;
+  company_id: string | null;
+  status: 'exported' | 'voided';
+  request_count: number;
+  adjustment_count: number;
+  total_hours: number;
+  total_amount: number;
+  download_count: number;
+  exported_by: string | null;
+  exported_at: string;
+  last_downloaded_at: string;
+  voided_by: string | null;
+  voided_at: string | null;
+  void_reason: string | null;
+  payroll_export_layouts?: PayrollExportLayout | null;
+  payroll_export_batch_items?: PayrollExportBatchItem[];
+  payroll_export_batch_adjustments?: PayrollExportBatchAdjustment[];
+}
+
+export type PayrollPeriodStatus = 'open' | 'locked' | 'closed';
+
+/**
+ * A company's payroll period. While locked or closed, OT dated inside it is
+ * frozen; corrections go through OTPayrollAdjustment.
+ */
+export interface PayrollPeriod {
+  id: string;
+  company_id: string;
+  period_start: string;
+  period_end: string;
+  status: PayrollPeriodStatus;
+  locked_at: string | null;
+  locked_by: string | null;
+  closed_at: string | null;
+  closed_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Correction to frozen OT, paid in the company's next open period */
+export interface OTPayrollAdjustment {
+  id: string;
+  ot_request_id: string;
+  employee_id: string;
+  source_period_id: string;
+  target_period_id: string;
+  hours_delta: number;
+  amount_delta: number;
+  reason: string;
+  created_by: string | null;
+  created_at: string;
+  ot_requests?: { ticket_number: string; ot_date: string } | null;
+  profiles?: { employee_id: string; full_name: string } | null;
+}
+
+export type AttendancePunchDirection = 'in' | 'out';
+
+/** A raw clock-in/clock-out from a biometric terminal, in its local time */
+export interface AttendancePunch {
+  id: string;
+  employee_id: string;
+  punched_at: string;
+  direction: AttendancePunchDirection | null;
+  device_id: string | null;
+  batch_id: string;
+  created_at: string;
+}
+
+export interface AttendanceImportBatch {
+  id: string;
+  file_name: string;
+  format: 'csv' | 'json';
+  punch_count: number;
+  duplicate_count: number;
+  draft_count: number;
+  errors: Array<{ row: number; error: string }>;
+  imported_by: string | null;
+  created_at: string;
+  profiles?: { full_name: string } | null;
+}
+
+export type OTRequestDraftStatus = 'pending' | 'submitted' | 'dismissed';
+
+/** Time punched beyond the scheduled shift, waiting for the employee to justify it */
+export interface OTRequestDraft {
+  id: string;
+  employee_id: string;
+  ot_date: string;
+  start_time: string;
+  end_time: string;
+  total_hours: number;
+  source: 'attendance';
+  batch_id: string | null;
+  status: OTRequestDraftStatus;
+  ot_request_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type RosterDayKind = 'work' | 'off' | 'rest';
+
+export interface ShiftTemplate {
+  id: string;
+  name: string;
+  code: string;
+  start_time: string;
+  /** Earlier than start_time when the shift ends the next morning */
+  end_time: string;
+  normal_hours: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ShiftPatternDay {
+  pattern_id: string;
+  day_index: number;
+  day_kind: RosterDayKind;
+  shift_template_id: string | null;
+  shift_templates?: Pick<ShiftTemplate, 'name' | 'code' | 'start_time' | 'end_time'> | null;
+}
+
+/** A rotation of cycle_length days, e.g. 4 days on and 4 days off */
+export interface ShiftPattern {
+  id: string;
+  name: string;
+  description: string | null;
+  cycle_length: number;
+  created_at: string;
+  updated_at: string;
+  shift_pattern_days: ShiftPatternDay[];
+}
+
+export interface EmployeeShiftAssignment {
+  id: string;
+  employee_id: string;
+  pattern_id: string;
+  effective_from: string;
+  effective_to: string | null;
+  /** The date that is day 1 of the pattern's cycle */
+  cycle_start_date: string;
+  created_by: string | null;
+  created_at: string;
+  shift_patterns?: Pick<ShiftPattern, 'name' | 'cycle_length'> | null;
+  profiles?: { full_name: string; employee_id: string } | null;
+}
+
+/** An employee's rostered day, from get_employee_roster */
+export interface RosterDay {
+  roster_date: string;
+  day_kind: RosterDayKind;
+  shift_template_id: string | null;
+  shift_name: string | null;
+  shift_start: string | null;
+  shift_end: string | null;
+  normal_hours: number;
+}
+
+/** Whether going over a limit only flags the request for approvers or blocks it */
+export type OTLimitMode = 'soft' | 'hard';
+
+export type OTLimitViolationType = 'statutory_monthly' | 'monthly_hours' | 'weekly' | 'daily' | 'monthly_amount';
+
+/** One limit a request goes over, from check_threshold_violations */
+export interface OTLimitViolation {
+  type: OTLimitViolationType;
+  limit: number;
+  current: number;
+  exceeded_by: number;
+  hard: boolean;
+}
+
+/** ot_requests.threshold_violations; '{}' on requests checked before limits were enforced */
+export interface OTThresholdCheck {
+  violations: OTLimitViolation[];
+  auto_block: boolean;
+  threshold_name: string | null;
+}
+
+/** An employee's OT hours for a month and the limits on them, from get_ot_hours_summary */
+export interface OTHoursSummary {
+  month: string;
+  used_hours: number;
+  statutory_cap_hours: number;
+  /** Approved cap exceptions for the month */
+  exception_hours: number;
+  monthly_limit_hours: number | null;
+  monthly_limit_mode: OTLimitMode | null;
+}
+
+export type OTCapExceptionStatus = 'pending' | 'approved' | 'rejected';
+
+/** Extra monthly OT hours for one employee, beyond the statutory cap */
+export interface OTCapException {
+  id: string;
+  employee_id: string;
+  /** First day of the month */
+  month: string;
+  extra_hours: number;
+  justification: string;
+  status: OTCapExceptionStatus;
+  requested_by: string;
+  decided_by: string | null;
+  decided_at: string | null;
+  decision_note: string | null;
+  created_at: string;
+  employee?: { full_name: string; employee_id: string } | null;
+  requester?: { full_name: string } | null;
+  decider?: { full_name: string } | null;
+}
+
+/** A monthly OT budget for one department or one company */
+export interface OTBudget {
+  id: string;
+  company_id: string | null;
+  department_id: string | null;
+  /** First day of the month */
+  month: string;
+  amount: number;
+  notes: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** A budget against its month's ot_amount, from get_ot_budget_status */
+export interface OTBudgetStatus {
+  budget_id: string;
+  company_id: string | null;
+  department_id: string | null;
+  /** Department or company name */
+  scope_name: string;
+  month: string;
+  budget_amount: number;
+  /** HR certified or management approved */
+  approved_amount: number;
+  /** Non-rejected requests still in the approval chain */
+  pending_amount: number;
+  /** approved_amount + pending_amount */
+  committed_amount: number;
+  notes: string | null;
+}
+
+export type CostCentreKind = 'cost_centre' | 'project' | 'work_order';
+
+/** A code OT can be charged to: a cost centre, project or work order */
+export interface CostCentre {
+  id: string;
+  code: string;
+  name: string;
+  kind: CostCentreKind;
+  client_name: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Hours of one OT session charged to a cost centre */
+export interface OTCostAllocation {
+  id: string;
+  ot_request_id: string;
+  cost_centre_id: string;
+  hours: number;
+  created_at: string;
+  cost_centres?: Pick<CostCentre, 'code' | 'name'> | null;
+}
+
+/** A reason employees give for OT, with the rules that come with it */
+export interface OTReason {
+  id: string;
+  label: string;
+  description: string | null;
+  /** Offered to every company when null */
+  company_id: string | null;
+  /** Offered to every department when empty */
+  applies_to_department_ids: string[];
+  /** The employee explains in their own words */
+  requires_details: boolean;
+  requires_attachment: boolean;
+  /** An instructing supervisor must be named, so the request follows Route B */
+  requires_respective_supervisor: boolean;
+  /** Longest session claimable under the reason */
+  max_hours: number | null;
+  /** Whether the hours count toward the statutory cap and OT limits */
+  counts_toward_limits: boolean;
+  sort_order: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Why a queued OT submission could not be replayed as it stands */
+export type QueuedOTConflictKind = 'overlap' | 'deadline_passed';
+
+export type QueuedOTSubmissionStatus = 'pending' | 'syncing' | 'conflict' | 'failed';
+
+/** A file picked while offline, uploaded when the submission syncs */
+export interface QueuedOTAttachment {
+  name: string;
+  type: string;
+  size: number;
+  blob: Blob;
+}
+
+/** The OT request as the form submitted it, less files still to upload */
+export interface QueuedOTPayload {
+  ot_date: string;
+  ot_location_state: string;
+  start_time: string;
+  end_time: string;
+  total_hours: number;
+  day_type: 'weekday' | 'saturday' | 'sunday' | 'public_holiday';
+  next_day_type?: 'weekday' | 'saturday' | 'sunday' | 'public_holiday';
+  reason: string;
+  reason_id?: string | null;
+  respective_supervisor_id?: string | null;
+  attachment_urls: string[];
+  cost_allocations?: Array<{ cost_centre_id: string; hours: number }>;
+}
+
+/** An OT submission saved on the device until it can be sent */
+export interface QueuedOTSubmission {
+  /** Also sent as client_submission_id, so a replay never submits twice */
+  id: string;
+  employee_id: string;
+  payload: QueuedOTPayload;
+  attachments: QueuedOTAttachment[];
+  /** The attendance draft the submission came from, resolved once it syncs */
+  draft_id?: string | null;
+  status: QueuedOTSubmissionStatus;
+  conflict: QueuedOTConflictKind | null;
+  error: string | null;
+  attempts: number;
+  queued_at: string;
+  last_attempt_at: string | null;
+}
+
+/** What a supervisor did with a request, as shown while the decision waits to sync */
+export type OTDecisionAction =
+  | 'approve'
+  | 'reject'
+  | 'confirm'
+  | 'confirm_respective'
+  | 'deny_respective'
+  | 'revise';
+
+/** 'stale' means the request changed on the server before the decision reached it */
+export type QueuedOTDecisionStatus = 'pending' | 'syncing' | 'stale' | 'failed';
+
+/** An approval decision made offline, replayed in order once the device is online */
+export interface QueuedOTDecision {
+  id: string;
+  approver_id: string;
+  request_id: string;
+  ticket_number: string;
+  employee_name: string | null;
+  ot_date: string;
+  action: OTDecisionAction;
+  to_status: OTStatus;
+  /** The request as the approver saw it; the server refuses the decision if it has changed */
+  expected_status: OTStatus;
+  expected_updated_at: string | null;
+  remarks: string | null;
+  rejection_stage: string | null;
+  status: QueuedOTDecisionStatus;
+  error: string | null;
+  attempts: number;
+  queued_at: string;
+  last_attempt_at: string | null;
+}
+
+/** Roles are held per company; admin is global and never listed here */
+export interface UserCompanyRole {
+  id: string;
+  user_id: string;
+  company_id: string;
+  role: Exclude<AppRole, 'admin'>;
+  created_at: string;
+}
+
+/** A company the signed-in user may act in, from get_my_companies */
+export interface CompanyMembership {
+  id: string;
+  name: string;
+  code: string;
+  roles: AppRole[];
+  is_active: boolean;
+}
+
+export type EmployeeImportJobStatus = 'pending' | 'running' | 'completed' | 'cancelled';
+
+export type EmployeeImportRowStatus = 'pending' | 'processing' | 'imported' | 'failed';
+
+/** A bulk onboarding upload, imported in batches and resumable until done */
+export interface EmployeeImportJob {
+  id: string;
+  company_id: string;
+  file_name: string;
+  status: EmployeeImportJobStatus;
+  send_invites: boolean;
+  total_rows: number;
+  imported_count: number;
+  failed_count: number;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+/** Profile fields of one employee to import, validated before upload */
+export interface EmployeeImportPayload {
+  employee_id: string;
+  full_name: string;
+  email: string | null;
+  ic_no: string | null;
+  phone_no: string | null;
+  department_id: string;
+  position_id: string;
+  position: string;
+  work_location: string;
+  state: string | null;
+  basic_salary: number;
+  employment_type: string;
+  joining_date: string;
+  designation: string | null;
+  epf_no: string | null;
+  socso_no: string | null;
+  income_tax_no: string | null;
+  role: Exclude<AppRole, 'admin'>;
+  is_ot_eligible: boolean;
+  /** An existing employee */
+  supervisor_id: string | null;
+  /** An employee further up the same file, resolved once imported */
+  supervisor_employee_no: string | null;
+}
+
+export interface EmployeeImportRow {
+  id: string;
+  job_id: string;
+  /** Row in the uploaded file */
+  row_number: number;
+  /** Order of import, so supervisors in the file come before their reports */
+  position: number;
+  employee_no: string;
+  payload: EmployeeImportPayload;
+  status: EmployeeImportRowStatus;
+  error: string | null;
+  user_id: string | null;
+  invite_sent_at: string | null;
+  /** When an import-employees call took the row; processing rows left for ten minutes are taken again */
+  claimed_at: string | null;
+  processed_at: string | null;
+}
+
+/** Where a job stands after a batch, as returned by the import-employees function */
+export interface EmployeeImportProgress {
+  job_id: string;
+  status: EmployeeImportJobStatus;
+  total: number;
+  imported: number;
+  failed: number;
+  pending: number;
+}
+
+/** Requests waiting for an employee's current supervisor to verify them */
+export interface SupervisorReassignmentImpact {
+  employee_id: string;
+  pending_verification_count: number;
+}
+
+export interface SupervisorReassignmentResult {
+  reassigned_count: number;
+  moved_request_count: number;
+}
+
+export type EmploymentEventType =
+  | 'hire'
+  | 'salary_revision'
+  | 'transfer'
+  | 'promotion'
+  | 'location_move'
+  | 'profile_update';
+
+/** The employment details kept with effective dates in employment_history */
+export interface EmploymentDetails {
+  basic_salary: number;
+  ot_base: number | null;
+  department_id: string | null;
+  position_id: string | null;
+  position: string | null;
+  /** A company_locations id */
+  work_location: string | null;
+  state: string | null;
+  employment_type: string | null;
+}
+
+export interface EmploymentHistoryRecord {
+  id: string;
+  employee_id: string;
+  company_id: string | null;
+  effective_from: string;
+  event_type: EmploymentEventType;
+  /** Only the fields that changed; a hire record holds them all */
+  changes: Partial<EmploymentDetails>;
+  remarks: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface EmploymentChangeResult {
+  history_id: string;
+  /** OT requests from the effective date whose amounts were recalculated */
+  recalculated_count: number;
+}
+
+/** The roles that review OT requests in the approval queues */
+export type ApprovalRole = 'supervisor' | 'department_head' | 'hr' | 'management';
+
+/** One request's decision in a bulk review */
+export interface BulkOTDecision {
+  request_id: string;
+  decision: Extract<OTDecisionAction, 'approve' | 'reject'>;
+  /** Required when rejecting */
+  remarks?: string;
+}
+
+/** One request's outcome in a bulk review, from decide_ot_requests or client-side validation */
+export interface BulkOTDecisionResult {
+  request_id: string;
+  employee_id: string | null;
+  decision: BulkOTDecision['decision'];
+  ok: boolean;
+  from_status: OTStatus | null;
+  to_status: OTStatus | null;
+  error: string | null;
+}
+
+/** Outcome of scanning an inventory QR at a kiosk */
+export type InventoryScanResult = 'granted' | 'unknown' | 'expired' | 'used' | 'revoked' | 'other_company';
+
+/** A store counter scanner; it authenticates with a key shown once on registration */
+export interface InventoryKiosk {
+  id: string;
+  company_id: string;
+  name: string;
+  is_active: boolean;
+  last_seen_at: string | null;
+  created_at: string;
+}
+
+export interface InventoryAccessScan {
+  id: string;
+  kiosk_id: string | null;
+  employee_id: string | null;
+  result: InventoryScanResult;
+  scanned_at: string;
+  inventory_kiosks?: { name: string } | null;
+  profiles?: { full_name: string; employee_id: string } | null;
+}
+
+/** What verify-inventory-access returns to a kiosk */
+export interface InventoryBadgeVerification {
+  result: InventoryScanResult;
+  scan_id: string;
+  /** Granted scans only */
+  identity?: {
+    employee_no: string;
+    name: string;
+    department: string | null;
+  };
+  /** Granted scans only: the identity as a signed JWT, for store systems */
+  assertion?: string;
+}
@@ -1,3 +1,9 @@
+import { format, parseISO } from 'date-fns';
+import { isOvernightSession } from '@/lib/otCalculations';
+import { OTSessionTimes } from '@/lib/otSessions';
+import { findOverlappingShift, formatRosterShift } from '@/lib/shiftRoster';
+import { RosterDay } from '@/types/otms';
+
 /**
  * OT Submission Validation Utilities
  * Handles validation for overtime submission deadlines with a 7-day window restriction
@@ -209,12 +215,20 @@ export function overlapsWithBusinessHours(
 /**
  * Validates OT time for work days (weekdays that are not holidays)
  * Only blocks business hours on weekdays - weekends/holidays are unrestricted
+ * A session past midnight is checked per date: the hours after midnight
+ * against nextDayType
  */
 export function validateOTTimeForWorkDay(
   startTime: string,
   endTime: string,
-  dayType: string
+  dayType: string,
+  nextDayType: string = dayType
 ): { isAllowed: boolean; message?: string } {
+  if (isOvernightSession(startTime, endTime)) {
+    const beforeMidnight = validateOTTimeForWorkDay(startTime, '24:00', dayType);
+    return beforeMidnight.isAllowed ? validateOTTimeForWorkDay('00:00', endTime, nextDayType) : beforeMidnight;
+  }
+
   // Only restrict business hours on weekdays
   if (dayType !== 'weekday') {
     return { isAllowed: true };
@@ -228,3 +242,25 @@ export function validateOTTimeForWorkDay(
 
   return { isAllowed: true };
 }
+
+/**
+ * Validates OT time for an employee on a roster: OT cannot overlap a
+ * rostered shift, including a night shift from the previous date. Shifts on
+ * holidays do not count.
+ */
+export function validateOTTimeForRoster(
+  session: OTSessionTimes,
+  rosterDays: RosterDay[],
+  isHoliday: (date: string) => boolean = () => false
+): { isAllowed: boolean; message?: string } {
+  const shift = findOverlappingShift(session, rosterDays, isHoliday);
+
+  if (shift) {
+    return {
+      isAllowed: false,
+      message: `OT cannot overlap your rostered shift (${formatRosterShift(shift)} on ${format(parseISO(shift.roster_date), 'dd MMM yyyy')}). Please submit OT only for hours outside your shift.`,
+    };
+  }
+
+  return { isAllowed: true };
+}
@@ -0,0 +1,679 @@
+/**
+ * OT Formula Engine
+ *
+ * The one grammar for rate formulas. This file has no imports so the same code
+ * runs in the browser (re-exported from src/lib/formulaEngine.ts) and in Deno
+ * edge functions. The SQL evaluator (ot_formula_parse / ot_formula_eval) is a
+ * port of this parser and interpreter, checked against the vectors in
+ * tests/fixtures/formula-vectors.ts.
+ *
+ * Formulas are parsed into an AST and interpreted; nothing is passed to eval
+ * or Function.
+ *
+ * Grammar, lowest precedence first:
+ *   or         := and (OR and)*
+ *   and        := not (AND not)*
+ *   not        := NOT not | comparison
+ *   comparison := additive ((< | <= | > | >= | = | <>) additive)?
+ *   additive   := term ((+ | -) term)*
+ *   term       := unary ((* | /) unary)*
+ *   unary      := (- | +) unary | primary
+ *   primary    := number | 'text' | variable | FUNCTION '(' or (',' or)* ')' | '(' or ')'
+ *
+ * Keywords and function names are case-insensitive; variables are not.
+ * Text (in single or double quotes) only supports `=` and `<>`, compared
+ * case-insensitively, so `DayType = 'sunday'` works but `DayType * 2` does not.
+ * `==` and `!=` are accepted for `=` and `<>`, `×` and `÷` for `*` and `/`.
+ * Comparisons and boolean operators yield 1 or 0, and IF treats any non-zero
+ * condition as true. ROUND rounds half away from zero, like Postgres numeric.
+ * JavaScript numbers are binary floating point and SQL uses numeric, so
+ * results agree to 6 decimal places; avoid `=` on computed fractions.
+ */
+
+export type FormulaFunctionName = 'IF' | 'MIN' | 'MAX' | 'ROUND';
+
+export type FormulaBinaryOperator =
+  | '+' | '-' | '*' | '/'
+  | '<' | '<=' | '>' | '>=' | '=' | '<>'
+  | 'AND' | 'OR';
+
+interface NodeSpan {
+  /** Offsets into the source, used for error positions and breakdown labels */
+  start: number;
+  end: number;
+}
+
+export type FormulaValue = number | string;
+
+export type FormulaNode =
+  | (NodeSpan & { type: 'number'; value: number })
+  | (NodeSpan & { type: 'text'; value: string })
+  | (NodeSpan & { type: 'variable'; name: string })
+  | (NodeSpan & { type: 'unary'; operator: '-' | '+' | 'NOT'; operand: FormulaNode })
+  | (NodeSpan & { type: 'binary'; operator: FormulaBinaryOperator; left: FormulaNode; right: FormulaNode })
+  | (NodeSpan & { type: 'call'; name: FormulaFunctionName; args: FormulaNode[] });
+
+export interface FormulaStep {
+  /** Formula text the step refers to */
+  expression: string;
+  value: FormulaValue;
+  detail?: string;
+}
+
+export interface FormulaEvaluation {
+  value: number;
+  steps: FormulaStep[];
+}
+
+export class FormulaError extends Error {
+  constructor(message: string, public position?: number) {
+    super(position === undefined ? message : `${message} (at position ${position + 1})`);
+    this.name = 'FormulaError';
+  }
+}
+
+/** Allowed argument counts per function (max null = unlimited) */
+export const FORMULA_FUNCTIONS: Record<FormulaFunctionName, { min: number; max: number | null; signature: string }> = {
+  IF: { min: 3, max: 3, signature: 'IF(condition, value_if_true, value_if_false)' },
+  MIN: { min: 1, max: null, signature: 'MIN(value, ...)' },
+  MAX: { min: 1, max: null, signature: 'MAX(value, ...)' },
+  ROUND: { min: 1, max: 2, signature: 'ROUND(value, decimals = 0)' },
+};
+
+export interface FormulaVariableInfo {
+  name: string;
+  type: 'number' | 'text';
+  description: string;
+}
+
+/** Variables available to OT rate formulas, see getOTFormulaVariables */
+export const OT_FORMULA_VARIABLE_INFO: readonly FormulaVariableInfo[] = [
+  { name: 'Hours', type: 'number', description: 'Total OT hours for the day' },
+  { name: 'ORP', type: 'number', description: 'Ordinary rate of pay (OTBase / 26)' },
+  { name: 'HRP', type: 'number', description: 'Hourly rate of pay (ORP / 8)' },
+  { name: 'Basic', type: 'number', description: 'Monthly basic salary' },
+  { name: 'OTBase', type: 'number', description: 'OT base salary, or Basic when no override is set' },
+  { name: 'DayType', type: 'text', description: "'weekday', 'saturday', 'sunday' or 'public_holiday'" },
+  { name: 'IsStateHoliday', type: 'number', description: '1 when the day is a state (not federal) holiday, otherwise 0' },
+  { name: 'HoursBeyondNormal', type: 'number', description: "Hours past the rostered shift's normal hours (8 when not rostered)" },
+  { name: 'NightHours', type: 'number', description: 'Hours worked between 22:00 and 06:00' },
+  { name: 'EmploymentType', type: 'text', description: "e.g. 'Permanent', 'Contract' or 'Internship'" },
+  { name: 'MonthHoursToDate', type: 'number', description: 'OT hours already worked earlier this month' },
+];
+
+export const OT_FORMULA_VARIABLES = OT_FORMULA_VARIABLE_INFO.map((variable) => variable.name);
+
+// ============ TOKENIZER ============
+
+type TokenKind = 'number' | 'text' | 'identifier' | 'operator' | '(' | ')' | ',' | 'end';
+
+interface Token {
+  kind: TokenKind;
+  text: string;
+  start: number;
+  end: number;
+}
+
+const OPERATOR_ALIASES: Record<string, string> = {
+  '==': '=',
+  '!=': '<>',
+  '×': '*',
+  '÷': '/',
+};
+
+const TWO_CHAR_OPERATORS = ['<=', '>=', '<>', '==', '!='];
+const ONE_CHAR_OPERATORS = ['+', '-', '*', '/', '<', '>', '=', '×', '÷'];
+const KEYWORD_OPERATORS = ['AND', 'OR', 'NOT'];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const numberMatch = /^(\d+(\.\d+)?|\.\d+)/.exec(source.slice(i));
+    if (numberMatch) {
+      tokens.push({ kind: 'number', text: numberMatch[0], start: i, end: i + numberMatch[0].length });
+      i += numberMatch[0].length;
+      continue;
+    }
+
+    if (char === "'" || char === '"') {
+      const close = source.indexOf(char, i + 1);
+      if (close === -1) {
+        throw new FormulaError('Text is missing its closing quote', i);
+      }
+      tokens.push({ kind: 'text', text: source.slice(i + 1, close), start: i, end: close + 1 });
+      i = close + 1;
+      continue;
+    }
+
+    const identifierMatch = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i));
+    if (identifierMatch) {
+      const text = identifierMatch[0];
+      const upper = text.toUpperCase();
+      tokens.push({
+        kind: KEYWORD_OPERATORS.includes(upper) ? 'operator' : 'identifier',
+        text: KEYWORD_OPERATORS.includes(upper) ? upper : text,
+        start: i,
+        end: i + text.length,
+      });
+      i += text.length;
+      continue;
+    }
+
+    const twoChars = source.slice(i, i + 2);
+    if (TWO_CHAR_OPERATORS.includes(twoChars)) {
+      tokens.push({ kind: 'operator', text: OPERATOR_ALIASES[twoChars] || twoChars, start: i, end: i + 2 });
+      i += 2;
+      continue;
+    }
+
+    if (ONE_CHAR_OPERATORS.includes(char)) {
+      tokens.push({ kind: 'operator', text: OPERATOR_ALIASES[char] || char, start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+
+    if (char === '(' || char === ')' || char === ',') {
+      tokens.push({ kind: char, text: char, start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+
+    throw new FormulaError(`Unexpected character '${char}'`, i);
+  }
+
+  tokens.push({ kind: 'end', text: '', start: source.length, end: source.length });
+  return tokens;
+}
+
+// ============ PARSER ============
+
+const COMPARISON_OPERATORS = ['<', '<=', '>', '>=', '=', '<>'];
+
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): FormulaNode {
+    const node = this.parseOr();
+    const next = this.peek();
+    if (next.kind !== 'end') {
+      throw new FormulaError(`Unexpected '${next.text}'`, next.start);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private advance(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private isOperator(...operators: string[]): boolean {
+    const token = this.peek();
+    return token.kind === 'operator' && operators.includes(token.text);
+  }
+
+  private expect(kind: TokenKind, description: string): Token {
+    const token = this.peek();
+    if (token.kind !== kind) {
+      throw new FormulaError(
+        token.kind === 'end' ? `Expected ${description} but the formula ended` : `Expected ${description} but found '${token.text}'`,
+        token.start
+      );
+    }
+    return this.advance();
+  }
+
+  private binary(operator: FormulaBinaryOperator, left: FormulaNode, right: FormulaNode): FormulaNode {
+    return { type: 'binary', operator, left, right, start: left.start, end: right.end };
+  }
+
+  private parseOr(): FormulaNode {
+    let node = this.parseAnd();
+    while (this.isOperator('OR')) {
+      this.advance();
+      node = this.binary('OR', node, this.parseAnd());
+    }
+    return node;
+  }
+
+  private parseAnd(): FormulaNode {
+    let node = this.parseNot();
+    while (this.isOperator('AND')) {
+      this.advance();
+      node = this.binary('AND', node, this.parseNot());
+    }
+    return node;
+  }
+
+  private parseNot(): FormulaNode {
+    if (this.isOperator('NOT')) {
+      const token = this.advance();
+      const operand = this.parseNot();
+      return { type: 'unary', operator: 'NOT', operand, start: token.start, end: operand.end };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): FormulaNode {
+    const left = this.parseAdditive();
+    if (!this.isOperator(...COMPARISON_OPERATORS)) return left;
+
+    const operator = this.advance().text as FormulaBinaryOperator;
+    const node = this.binary(operator, left, this.parseAdditive());
+
+    if (this.isOperator(...COMPARISON_OPERATORS)) {
+      throw new FormulaError('Comparisons cannot be chained; combine them with AND', this.peek().start);
+    }
+    return node;
+  }
+
+  private parseAdditive(): FormulaNode {
+    let node = this.parseTerm();
+    while (this.isOperator('+', '-')) {
+      const operator = this.advance().text as FormulaBinaryOperator;
+      node = this.binary(operator, node, this.parseTerm());
+    }
+    return node;
+  }
+
+  private parseTerm(): FormulaNode {
+    let node = this.parseUnary();
+    while (this.isOperator('*', '/')) {
+      const operator = this.advance().text as FormulaBinaryOperator;
+      node = this.binary(operator, node, this.parseUnary());
+    }
+    return node;
+  }
+
+  private parseUnary(): FormulaNode {
+    if (this.isOperator('-', '+')) {
+      const token = this.advance();
+      const operand = this.parseUnary();
+      return { type: 'unary', operator: token.text as '-' | '+', operand, start: token.start, end: operand.end };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): FormulaNode {
+    const token = this.peek();
+
+    if (token.kind === 'number') {
+      this.advance();
+      return { type: 'number', value: Number(token.text), start: token.start, end: token.end };
+    }
+
+    if (token.kind === 'text') {
+      this.advance();
+      return { type: 'text', value: token.text, start: token.start, end: token.end };
+    }
+
+    if (token.kind === 'identifier') {
+      this.advance();
+      if (this.peek().kind !== '(') {
+        return { type: 'variable', name: token.text, start: token.start, end: token.end };
+      }
+
+      const name = token.text.toUpperCase();
+      if (!(name in FORMULA_FUNCTIONS)) {
+        throw new FormulaError(`Unknown function '${token.text}'`, token.start);
+      }
+
+      this.advance(); // (
+      const args: FormulaNode[] = [];
+      if (this.peek().kind !== ')') {
+        args.push(this.parseOr());
+        while (this.peek().kind === ',') {
+          this.advance();
+          args.push(this.parseOr());
+        }
+      }
+      const close = this.expect(')', "')'");
+
+      const { min, max, signature } = FORMULA_FUNCTIONS[name as FormulaFunctionName];
+      if (args.length < min || (max !== null && args.length > max)) {
+        throw new FormulaError(`${name} takes ${max === min ? min : max === null ? `at least ${min}` : `${min} to ${max}`} argument(s): ${signature}`, token.start);
+      }
+
+      return { type: 'call', name: name as FormulaFunctionName, args, start: token.start, end: close.end };
+    }
+
+    if (token.kind === '(') {
+      this.advance();
+      const inner = this.parseOr();
+      const close = this.expect(')', "')'");
+      return { ...inner, start: token.start, end: close.end };
+    }
+
+    if (token.kind === 'end') {
+      throw new FormulaError('Formula ended unexpectedly', token.start);
+    }
+    throw new FormulaError(`Unexpected '${token.text}'`, token.start);
+  }
+}
+
+/**
+ * Parses a formula into its AST; throws FormulaError on syntax errors
+ */
+export function parseFormula(source: string): FormulaNode {
+  if (!source || source.trim() === '') {
+    throw new FormulaError('Formula cannot be empty');
+  }
+  return new Parser(tokenize(source)).parse();
+}
+
+/**
+ * Variable names referenced by a formula, in order of first use
+ */
+export function collectFormulaVariables(node: FormulaNode): string[] {
+  const names: string[] = [];
+  const visit = (n: FormulaNode) => {
+    if (n.type === 'variable' && !names.includes(n.name)) names.push(n.name);
+    if (n.type === 'unary') visit(n.operand);
+    if (n.type === 'binary') {
+      visit(n.left);
+      visit(n.right);
+    }
+    if (n.type === 'call') n.args.forEach(visit);
+  };
+  visit(node);
+  return names;
+}
+
+// ============ INTERPRETER ============
+
+/**
+ * Rounds half away from zero. Shifting through the decimal string keeps
+ * 2.675 → 2.68, as numeric does, where Math.round(267.49999…) would not.
+ */
+export function roundHalfAwayFromZero(value: number, digits = 0): number {
+  const shift = (n: number, by: number) => {
+    const [mantissa, exponent = '0'] = String(n).split('e');
+    return Number(`${mantissa}e${Number(exponent) + by}`);
+  };
+  const sign = value < 0 ? -1 : 1;
+  return sign * shift(Math.round(shift(Math.abs(value), digits)), -digits);
+}
+
+const toFlag = (condition: boolean) => (condition ? 1 : 0);
+
+function expectNumber(value: FormulaValue, node: FormulaNode): number {
+  if (typeof value !== 'number') {
+    throw new FormulaError(`Expected a number but found text '${value}'`, node.start);
+  }
+  return value;
+}
+
+function compare(operator: FormulaBinaryOperator, left: FormulaValue, right: FormulaValue, node: FormulaNode): number {
+  if (typeof left === 'string' || typeof right === 'string') {
+    if (typeof left !== typeof right) {
+      throw new FormulaError('Cannot compare text with a number', node.start);
+    }
+    if (operator !== '=' && operator !== '<>') {
+      throw new FormulaError(`Text can only be compared with = or <>, not ${operator}`, node.start);
+    }
+    const equal = String(left).toLowerCase() === String(right).toLowerCase();
+    return toFlag(operator === '=' ? equal : !equal);
+  }
+
+  switch (operator) {
+    case '<': return toFlag(left < right);
+    case '<=': return toFlag(left <= right);
+    case '>': return toFlag(left > right);
+    case '>=': return toFlag(left >= right);
+    case '=': return toFlag(left === right);
+    default: return toFlag(left !== right);
+  }
+}
+
+function evaluateNode(
+  node: FormulaNode,
+  variables: Record<string, FormulaValue>,
+  source: string,
+  steps: FormulaStep[]
+): FormulaValue {
+  const text = (n: FormulaNode) => source.slice(n.start, n.end).trim();
+  const evaluateNumber = (n: FormulaNode) => expectNumber(evaluateNode(n, variables, source, steps), n);
+
+  switch (node.type) {
+    case 'number':
+    case 'text':
+      return node.value;
+
+    case 'variable': {
+      const value = variables[node.name];
+      if (typeof value !== 'string' && (typeof value !== 'number' || !Number.isFinite(value))) {
+        throw new FormulaError(`Unknown variable '${node.name}'`, node.start);
+      }
+      return value;
+    }
+
+    case 'unary': {
+      const operand = evaluateNumber(node.operand);
+      if (node.operator === 'NOT') return toFlag(operand === 0);
+      return node.operator === '-' ? -operand : operand;
+    }
+
+    case 'binary': {
+      // AND / OR short-circuit like IF, so guarded divisions behave the same everywhere
+      if (node.operator === 'AND' || node.operator === 'OR') {
+        const left = evaluateNumber(node.left) !== 0;
+        if (node.operator === 'AND' && !left) return 0;
+        if (node.operator === 'OR' && left) return 1;
+        return toFlag(evaluateNumber(node.right) !== 0);
+      }
+
+      if (COMPARISON_OPERATORS.includes(node.operator)) {
+        const left = evaluateNode(node.left, variables, source, steps);
+        const right = evaluateNode(node.right, variables, source, steps);
+        return compare(node.operator, left, right, node);
+      }
+
+      const left = evaluateNumber(node.left);
+      const right = evaluateNumber(node.right);
+
+      switch (node.operator) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/':
+          if (right === 0) throw new FormulaError('Division by zero', node.right.start);
+          return left / right;
+      }
+      break;
+    }
+
+    case 'call': {
+      if (node.name === 'IF') {
+        const [conditionNode, whenTrue, whenFalse] = node.args;
+        const condition = evaluateNumber(conditionNode);
+        const branch = condition !== 0 ? whenTrue : whenFalse;
+        steps.push({
+          expression: text(conditionNode),
+          value: condition,
+          detail: `${condition !== 0 ? 'true' : 'false'} → ${text(branch)}`,
+        });
+        return evaluateNode(branch, variables, source, steps);
+      }
+
+      const args = node.args.map(evaluateNumber);
+      let value: number;
+
+      if (node.name === 'MIN') value = Math.min(...args);
+      else if (node.name === 'MAX') value = Math.max(...args);
+      else {
+        const digits = args[1] ?? 0;
+        if (!Number.isInteger(digits)) {
+          throw new FormulaError('ROUND decimals must be a whole number', node.args[1].start);
+        }
+        value = roundHalfAwayFromZero(args[0], digits);
+      }
+
+      steps.push({ expression: text(node), value });
+      return value;
+    }
+  }
+
+  throw new FormulaError('Unsupported expression');
+}
+
+/**
+ * Interprets a parsed formula. `source` is the text it was parsed from and is
+ * used to label the breakdown steps.
+ */
+export function evaluateFormulaAst(
+  node: FormulaNode,
+  variables: Record<string, FormulaValue>,
+  source: string
+): FormulaEvaluation {
+  const steps: FormulaStep[] = collectFormulaVariables(node)
+    .filter((name) => name in variables)
+    .map((name) => ({ expression: name, value: variables[name] }));
+
+  const value = evaluateNode(node, variables, source, steps);
+  if (typeof value !== 'number') {
+    throw new FormulaError(`Formula must evaluate to a number, not text '${value}'`);
+  }
+  if (!Number.isFinite(value)) {
+    throw new FormulaError('Formula did not evaluate to a valid number');
+  }
+
+  return { value, steps };
+}
+
+/**
+ * Parses and evaluates a formula with the given variables
+ */
+export function evaluateFormulaExpression(source: string, variables: Record<string, FormulaValue>): FormulaEvaluation {
+  return evaluateFormulaAst(parseFormula(source), variables, source);
+}
+
+/**
+ * Syntax and variable check; every problem found is returned, nothing is thrown
+ */
+export function validateFormulaExpression(
+  source: string,
+  allowedVariables: readonly string[] = OT_FORMULA_VARIABLES
+): { isValid: boolean; errors: string[] } {
+  try {
+    const unknown = collectFormulaVariables(parseFormula(source)).filter((name) => !allowedVariables.includes(name));
+    const errors = unknown.length > 0 ? [`Unknown variables: ${unknown.join(', ')}`] : [];
+    return { isValid: errors.length === 0, errors };
+  } catch (e) {
+    return { isValid: false, errors: [e instanceof Error ? e.message : String(e)] };
+  }
+}
+
+// ============ OT RATE FORMULAS ============
+
+/** Hours in a normal working day when the employee is not rostered */
+export const NORMAL_WORKING_HOURS = 8;
+
+/** Night shift window used for NightHours, in hours of the day */
+export const NIGHT_SHIFT_WINDOW = { start: 22, end: 6 } as const;
+
+export type OTFormulaDayType = 'weekday' | 'saturday' | 'sunday' | 'public_holiday';
+
+/**
+ * Facts about an employee's OT day that formulas can reference
+ */
+export interface OTFormulaContext {
+  basicSalary: number;
+  /** OT base override; ORP and HRP use it when set, otherwise the basic salary */
+  otBase?: number | null;
+  hours: number;
+  dayType?: OTFormulaDayType;
+  isStateHoliday?: boolean;
+  nightHours?: number;
+  /** The rostered shift's normal hours on the day; hours past them count as HoursBeyondNormal */
+  normalHours?: number | null;
+  employmentType?: string | null;
+  /** OT hours already worked earlier in the same calendar month */
+  monthHoursToDate?: number;
+}
+
+/** Session start and end in minutes from midnight; an end at or before the start runs past midnight */
+function getSessionMinutes(startTime: string, endTime: string): [number, number] {
+  const toMinutes = (time: string) => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + (minutes || 0);
+  };
+  const start = toMinutes(startTime);
+  const end = toMinutes(endTime);
+  return [start, end <= start ? end + 24 * 60 : end];
+}
+
+/**
+ * Length in hours of a start–end session (HH:MM)
+ */
+export function getSessionHours(startTime: string, endTime: string): number {
+  const [start, end] = getSessionMinutes(startTime, endTime);
+  return (end - start) / 60;
+}
+
+/**
+ * Hours of a start–end session (HH:MM) that fall inside the night shift window
+ */
+export function getNightHours(startTime: string, endTime: string): number {
+  const [start, end] = getSessionMinutes(startTime, endTime);
+
+  // Night windows that can overlap a session of up to 24h starting today
+  const windows = [-1, 0, 1].map((day) => [
+    day * 1440 + NIGHT_SHIFT_WINDOW.start * 60,
+    (day + 1) * 1440 + NIGHT_SHIFT_WINDOW.end * 60,
+  ]);
+  const minutes = windows.reduce(
+    (total, [from, to]) => total + Math.max(0, Math.min(end, to) - Math.max(start, from)),
+    0
+  );
+  return minutes / 60;
+}
+
+/**
+ * Ordinary and hourly rates of pay used by every OT formula, with the
+ * day and employee attributes:
+ * ORP = OTBase / 26, HRP = ORP / 8, OTBase = OT base override or Basic
+ */
+export function getOTFormulaVariables(context: OTFormulaContext): Record<string, FormulaValue> {
+  const otBase = context.otBase ?? context.basicSalary;
+  const orp = otBase / 26;
+  return {
+    Hours: context.hours,
+    ORP: orp,
+    HRP: orp / 8,
+    Basic: context.basicSalary,
+    OTBase: otBase,
+    DayType: context.dayType ?? 'weekday',
+    IsStateHoliday: toFlag(!!context.isStateHoliday),
+    HoursBeyondNormal: Math.max(context.hours - (context.normalHours ?? NORMAL_WORKING_HOURS), 0),
+    NightHours: context.nightHours ?? 0,
+    EmploymentType: context.employmentType ?? '',
+    MonthHoursToDate: context.monthHoursToDate ?? 0,
+  };
+}
+
+export interface OTFormulaResult extends FormulaEvaluation {
+  orp: number;
+  hrp: number;
+}
+
+/**
+ * Evaluates an OT rate formula for an employee's OT day
+ */
+export function evaluateOTFormula(formula: string, context: OTFormulaContext): OTFormulaResult {
+  const variables = getOTFormulaVariables(context);
+  const result = evaluateFormulaExpression(formula, variables);
+  return { ...result, orp: variables.ORP as number, hrp: variables.HRP as number };
+}
@@ -18,22 +18,28 @@ serve(async (req)=>{
       }
     });
     console.log('Creating test users...');
+    // Departments belong to a company; test users go in the first one
+    const { data: company, error: companyError } = await supabaseAdmin.from('companies').select('id').order('created_at').limit(1).single();
+    if (companyError) throw companyError;
     // Create departments first
     const { data: deptData, error: deptError } = await supabaseAdmin.from('departments').upsert([
       {
+        company_id: company.id,
         code: 'IT',
         name: 'Information Technology'
       },
       {
+        company_id: company.id,
         code: 'HR',
         name: 'Human Resources'
       },
       {
+        company_id: company.id,
         code: 'OPS',
         name: 'Operations'
       }
     ], {
-      onConflict: 'code'
+      onConflict: 'company_id,code'
     }).select();
     if (deptError) throw deptError;
     console.log('Departments created:', deptData);
@@ -132,6 +138,7 @@ serve(async (req)=>{
         employee_id: user.employee_id,
         full_name: user.full_name,
         email: user.email,
+        company_id: company.id,
         department_id: user.department?.id,
         basic_salary: user.basic_salary,
         supervisor_id: supervisorId,
@@ -98,6 +98,26 @@ Deno.serve(async (req)=>{
         }
       });
     }
+    // Reports must be reassigned first (see reassign_supervisor) so nobody is
+    // left without a supervisor; the database refuses to archive otherwise
+    const { count: reportCount, error: reportsError } = await supabaseAdmin.from('profiles').select('id', {
+      count: 'exact',
+      head: true
+    }).eq('supervisor_id', employeeId).is('deleted_at', null);
+    if (reportsError) {
+      throw new Error(`Failed to check reporting lines: ${reportsError.message}`);
+    }
+    if (reportCount && reportCount > 0) {
+      return new Response(JSON.stringify({
+        error: `This employee still supervises ${reportCount} employee(s). Reassign them on the org chart first.`
+      }), {
+        status: 409,
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json'
+        }
+      });
+    }
     console.log('Deleting employee:', employeeId);
     // Pre-cleanup: remove references that could block deletion
     try {
@@ -107,11 +127,7 @@ Deno.serve(async (req)=>{
       // Remove push subscriptions
       const { error: psErr } = await supabaseAdmin.from('push_subscriptions').delete().eq('user_id', employeeId);
       if (psErr) console.warn('Pre-cleanup push_subscriptions failed:', psErr);
-      // Detach as supervisor in profiles and requests
-      const { error: profDetachErr } = await supabaseAdmin.from('profiles').update({
-        supervisor_id: null
-      }).eq('supervisor_id', employeeId);
-      if (profDetachErr) console.warn('Pre-cleanup profiles(supervisor_id) failed:', profDetachErr);
+      // Detach as supervisor in requests
       const { error: reqDetachErr } = await supabaseAdmin.from('ot_requests').update({
         supervisor_id: null
       }).eq('supervisor_id', employeeId);
@@ -0,0 +1,354 @@
+/**
+ * Import Employees Edge Function
+ *
+ * Works through the pending rows of a bulk onboarding job (see
+ * employee_import_jobs), a batch per call, in the order the rows were
+ * validated so supervisors in the file exist before their reports. Each row
+ * becomes a login, a profile and a role, as invite-employee does for one
+ * employee, then gets an activation email through send-activation-email.
+ * The app calls this until no rows are pending; calling it again later
+ * resumes an interrupted job.
+ *
+ * Rows are claimed before they are imported, so concurrent calls for the same
+ * job never take the same row, and every payload is checked again here: HR
+ * can write the rows directly, and they are imported with the service role.
+ *
+ * @endpoint POST /functions/v1/import-employees
+ * @body { job_id: string, batch_size?: number }
+ * @returns {EmployeeImportProgress} counts after the batch
+ */
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.77.0';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS'
+};
+
+const DEFAULT_BATCH_SIZE = 20;
+const MAX_BATCH_SIZE = 50;
+
+// Same temporary password as invite-employee; activation replaces it
+const TEMPORARY_PASSWORD = 'Temp@12345';
+
+// As in src/lib/employeeImport.ts: admin is never granted in bulk
+const IMPORTABLE_ROLES = ['employee', 'supervisor', 'hr', 'management'];
+const SUPERVISING_ROLES = ['supervisor', 'hr', 'management', 'admin'];
+const EMPLOYMENT_TYPES = ['Permanent', 'Contract', 'Internship'];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+interface ImportPayload {
+  employee_id: string;
+  full_name: string;
+  email: string | null;
+  ic_no: string | null;
+  phone_no: string | null;
+  department_id: string;
+  position_id: string;
+  position: string;
+  work_location: string;
+  state: string | null;
+  basic_salary: number;
+  employment_type: string;
+  joining_date: string;
+  designation: string | null;
+  epf_no: string | null;
+  socso_no: string | null;
+  income_tax_no: string | null;
+  role: string;
+  is_ot_eligible: boolean;
+  supervisor_id: string | null;
+  supervisor_employee_no: string | null;
+}
+
+interface ImportRow {
+  id: string;
+  row_number: number;
+  employee_no: string;
+  payload: ImportPayload;
+}
+
+interface ImportJob {
+  id: string;
+  company_id: string;
+  status: string;
+  send_invites: boolean;
+  total_rows: number;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) throw new Error('No authorization header');
+
+    const url = Deno.env.get('SUPABASE_URL') ?? '';
+    const supabaseClient = createClient(url, Deno.env.get('SUPABASE_ANON_KEY') ?? '', {
+      global: { headers: { Authorization: authHeader } },
+      auth: { autoRefreshToken: false, persistSession: false }
+    });
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
+    if (authError || !user) throw new Error('Unauthorized');
+
+    const { job_id, batch_size } = await req.json();
+    if (!job_id) throw new Error('job_id is required');
+
+    // Read through the caller's policies: HR of the job's company only
+    const { data: job, error: jobError } = await supabaseClient
+      .from('employee_import_jobs')
+      .select('id, company_id, status, send_invites, total_rows')
+      .eq('id', job_id)
+      .maybeSingle();
+    if (jobError) throw jobError;
+    if (!job) throw new Error('Import not found, or you are not HR of its company');
+
+    const supabaseAdmin = createClient(url, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '', {
+      auth: { autoRefreshToken: false, persistSession: false }
+    });
+
+    if (job.status !== 'cancelled' && job.status !== 'completed') {
+      const limit = Math.min(Math.max(Number(batch_size) || DEFAULT_BATCH_SIZE, 1), MAX_BATCH_SIZE);
+      await importBatch(supabaseAdmin, job as ImportJob, limit);
+    }
+
+    const progress = await getProgress(supabaseAdmin, job.id);
+    return new Response(JSON.stringify(progress), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 200
+    });
+  } catch (error) {
+    console.error('[ImportEmployees] Error:', error);
+    return new Response(JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 400
+    });
+  }
+});
+
+async function importBatch(supabase: SupabaseClient, job: ImportJob, limit: number) {
+  await supabase.from('employee_import_jobs').update({ status: 'running' }).eq('id', job.id).eq('status', 'pending');
+
+  const { data: rows, error } = await supabase.rpc('claim_employee_import_rows', {
+    p_job_id: job.id,
+    p_limit: limit
+  });
+  if (error) throw error;
+
+  for (const row of (rows || []) as ImportRow[]) {
+    const result = await importRow(supabase, job, row.payload).catch((err: unknown) => ({
+      userId: null,
+      error: err instanceof Error ? err.message : String(err),
+      inviteSentAt: null
+    }));
+
+    await supabase
+      .from('employee_import_rows')
+      .update({
+        status: result.userId ? 'imported' : 'failed',
+        user_id: result.userId,
+        error: result.error,
+        invite_sent_at: result.inviteSentAt,
+        processed_at: new Date().toISOString()
+      })
+      .eq('id', row.id)
+      .eq('status', 'processing');
+  }
+}
+
+const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+const optionalText = (value: unknown) => text(value) || null;
+
+/**
+ * Rechecks a row as src/lib/employeeImport.ts did before upload, against the
+ * job's company. Department, position, location and supervisor come from the
+ * database, not the payload.
+ */
+async function validatePayload(supabase: SupabaseClient, job: ImportJob, payload: ImportPayload) {
+  const employeeNo = text(payload?.employee_id);
+  const fullName = text(payload?.full_name);
+  if (!employeeNo || !fullName) throw new Error('Employee No and full name are required');
+
+  const email = optionalText(payload.email);
+  if (email && !EMAIL_PATTERN.test(email)) throw new Error(`"${email}" is not a valid email`);
+
+  if (!IMPORTABLE_ROLES.includes(payload.role)) throw new Error(`Role "${payload.role}" cannot be imported`);
+  if (typeof payload.basic_salary !== 'number' || !(payload.basic_salary > 0)) {
+    throw new Error('Basic salary must be an amount greater than 0');
+  }
+  if (!EMPLOYMENT_TYPES.includes(payload.employment_type)) {
+    throw new Error(`Employment type must be one of ${EMPLOYMENT_TYPES.join(', ')}`);
+  }
+  if (!DATE_PATTERN.test(text(payload.joining_date))) throw new Error('Joining date must be YYYY-MM-DD');
+  if (typeof payload.is_ot_eligible !== 'boolean') throw new Error('OT eligible must be yes or no');
+
+  const { data: department } = await supabase
+    .from('departments')
+    .select('id')
+    .eq('id', payload.department_id)
+    .eq('company_id', job.company_id)
+    .maybeSingle();
+  if (!department) throw new Error('Unknown department');
+
+  const { data: position } = await supabase
+    .from('positions')
+    .select('id, title')
+    .eq('id', payload.position_id)
+    .eq('department_id', department.id)
+    .eq('company_id', job.company_id)
+    .maybeSingle();
+  if (!position) throw new Error('Unknown position in the department');
+
+  const { data: location } = await supabase
+    .from('company_locations')
+    .select('id, state_code, company_id')
+    .eq('id', payload.work_location)
+    .maybeSingle();
+  if (!location || (location.company_id && location.company_id !== job.company_id)) {
+    throw new Error('Unknown work location');
+  }
+
+  const supervisorNo = optionalText(payload.supervisor_employee_no);
+  if (payload.role !== 'management' && !payload.supervisor_id && !supervisorNo) {
+    throw new Error('Reporting To is required for this role');
+  }
+
+  let supervisorId: string | null = null;
+  if (payload.supervisor_id || supervisorNo) {
+    let query = supabase.from('profiles').select('id').eq('company_id', job.company_id).is('deleted_at', null);
+    query = supervisorNo ? query.eq('employee_id', supervisorNo) : query.eq('id', payload.supervisor_id);
+    const { data: supervisor } = await query.maybeSingle();
+    if (!supervisor) {
+      throw new Error(supervisorNo
+        ? `Reporting To ${supervisorNo} was not imported`
+        : 'Reporting To is not an employee of this company');
+    }
+
+    const [{ data: companyRoles }, { data: admin }] = await Promise.all([
+      supabase
+        .from('user_company_roles')
+        .select('role')
+        .eq('user_id', supervisor.id)
+        .eq('company_id', job.company_id)
+        .in('role', SUPERVISING_ROLES),
+      supabase.from('user_roles').select('role').eq('user_id', supervisor.id).eq('role', 'admin')
+    ]);
+    if (!companyRoles?.length && !admin?.length) throw new Error('Reporting To is not a supervisor');
+    supervisorId = supervisor.id;
+  }
+
+  return {
+    employee_id: employeeNo,
+    full_name: fullName,
+    email,
+    ic_no: optionalText(payload.ic_no),
+    phone_no: optionalText(payload.phone_no),
+    position: position.title,
+    position_id: position.id,
+    company_id: job.company_id,
+    department_id: department.id,
+    basic_salary: payload.basic_salary,
+    epf_no: optionalText(payload.epf_no),
+    socso_no: optionalText(payload.socso_no),
+    income_tax_no: optionalText(payload.income_tax_no),
+    employment_type: payload.employment_type,
+    joining_date: text(payload.joining_date),
+    work_location: location.id,
+    supervisor_id: supervisorId,
+    designation: optionalText(payload.designation),
+    state: location.state_code,
+    is_ot_eligible: payload.is_ot_eligible
+  };
+}
+
+/**
+ * Creates one employee. Rechecks the row and duplicates, as employees may
+ * have been added since the file was validated, and undoes the login if the
+ * profile or role cannot be saved.
+ */
+async function importRow(
+  supabase: SupabaseClient,
+  job: ImportJob,
+  payload: ImportPayload
+): Promise<{ userId: string | null; error: string | null; inviteSentAt: string | null }> {
+  const profile = await validatePayload(supabase, job, payload);
+
+  const { data: existing } = await supabase
+    .from('profiles')
+    .select('id')
+    .eq('employee_id', profile.employee_id)
+    .maybeSingle();
+  if (existing) throw new Error(`Employee No ${profile.employee_id} already exists`);
+
+  if (profile.email) {
+    const { data: emailProfile } = await supabase
+      .from('profiles')
+      .select('employee_id')
+      .eq('email', profile.email)
+      .maybeSingle();
+    if (emailProfile) throw new Error(`${profile.email} is already used by Employee No ${emailProfile.employee_id}`);
+  }
+
+  const email = profile.email || `${profile.employee_id}@internal.company`;
+  const { data: authData, error: authError } = await supabase.auth.admin.createUser({
+    email,
+    email_confirm: true,
+    password: TEMPORARY_PASSWORD,
+    user_metadata: { full_name: profile.full_name, employee_id: profile.employee_id }
+  });
+  if (authError) {
+    if (authError.message?.includes('already registered') || authError.message?.includes('email_exists')) {
+      throw new Error(`A login with ${email} already exists`);
+    }
+    throw authError;
+  }
+  const userId = authData.user.id;
+
+  const { error: profileError } = await supabase.from('profiles').insert({
+    ...profile,
+    id: userId,
+    email,
+    status: 'pending_password'
+  });
+  if (profileError) {
+    await supabase.auth.admin.deleteUser(userId);
+    throw profileError;
+  }
+
+  const { error: roleError } = await supabase.from('user_roles').insert({ user_id: userId, role: payload.role });
+  if (roleError) {
+    await supabase.from('profiles').delete().eq('id', userId);
+    await supabase.auth.admin.deleteUser(userId);
+    throw roleError;
+  }
+
+  if (!profile.email || !job.send_invites) {
+    return { userId, error: null, inviteSentAt: null };
+  }
+
+  // The employee exists either way; a failed invitation is noted for a resend
+  const { error: inviteError } = await supabase.functions.invoke('send-activation-email', {
+    body: { employee_id: userId, email, full_name: profile.full_name }
+  });
+  return inviteError
+    ? { userId, error: `Imported, but the invitation email failed: ${inviteError.message}`, inviteSentAt: null }
+    : { userId, error: null, inviteSentAt: new Date().toISOString() };
+}
+
+async function getProgress(supabase: SupabaseClient, jobId: string) {
+  const { data: job, error } = await supabase.rpc('refresh_employee_import_job', { p_job_id: jobId });
+  if (error) throw error;
+
+  return {
+    job_id: job.id,
+    status: job.status,
+    total: job.total_rows,
+    imported: job.imported_count,
+    failed: job.failed_count,
+    pending: job.total_rows - job.imported_count - job.failed_count
+  };
+}
@@ -0,0 +1,260 @@
+/**
+ * Process OT Approval SLAs Edge Function
+ *
+ * Invoked hourly by pg_cron (trigger_ot_approval_sla_check). Claims the
+ * reminders and escalations that are due for requests waiting too long in a
+ * stage (see ot_approval_slas) and sends one push notification per recipient,
+ * summarising all of their overdue requests.
+ *
+ * @endpoint POST /functions/v1/process-ot-approval-slas
+ * @returns {SLAProcessResult} alert and notification counts
+ */
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.77.0';
+
+// CORS headers for internal API calls
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS'
+};
+
+interface ClaimedAlert {
+  request_id: string;
+  ticket_number: string;
+  status: string;
+  kind: 'reminder' | 'escalation';
+  threshold_hours: number;
+  hours_waiting: number;
+  employee_name: string;
+  escalate_to: string;
+  recipient_ids: string[];
+}
+
+// Where each waiting stage is handled in the app
+const STAGE_TARGET_URLS: Record<string, string> = {
+  pending_verification: '/supervisor/verify',
+  pending_supervisor_verification: '/supervisor/verify',
+  pending_respective_supervisor_confirmation: '/supervisor/verify',
+  supervisor_confirmed: '/hr/approve',
+  supervisor_verified: '/hr/approve',
+  respective_supervisor_confirmed: '/hr/approve',
+  department_head_approved: '/hr/approve',
+  hr_certified: '/management/approve'
+};
+
+// Escalations land with people outside the stage, so link to their own queue
+const ESCALATION_TARGET_URLS: Record<string, string> = {
+  supervisor_manager: '/supervisor/verify',
+  hr: '/hr/approve',
+  management: '/management/approve',
+  admin: '/hr/approve'
+};
+
+/**
+ * Get Supabase service role credentials from environment
+ */
+function getSupabaseCredentials() {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('Supabase configuration not found in environment variables');
+  }
+  return {
+    url: supabaseUrl,
+    serviceKey: supabaseServiceKey
+  };
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', {
+      headers: corsHeaders
+    });
+  }
+
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    const errorResponse = {
+      success: false,
+      error: 'Method not allowed. Use POST request.'
+    };
+    return new Response(JSON.stringify(errorResponse), {
+      status: 405,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/json'
+      }
+    });
+  }
+
+  const startTime = performance.now();
+  try {
+    // Create Supabase client with service role (bypasses RLS)
+    const { url, serviceKey } = getSupabaseCredentials();
+    const supabase = createClient(url, serviceKey);
+
+    const result = await processApprovalSLAs(supabase);
+
+    const executionTime = performance.now() - startTime;
+    console.log(`[ApprovalSLA] Completed in ${executionTime.toFixed(2)}ms:`, result);
+
+    return new Response(JSON.stringify(result), {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/json'
+      }
+    });
+  } catch (error) {
+    const executionTime = performance.now() - startTime;
+    console.error(`[ApprovalSLA] Error after ${executionTime.toFixed(2)}ms:`, error);
+    const errorResponse = {
+      success: false,
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    };
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/json'
+      }
+    });
+  }
+});
+
+/**
+ * Claims due alerts and notifies their recipients
+ */
+async function processApprovalSLAs(supabase) {
+  // Claiming records the alerts, so a failed push is not retried next hour
+  const { data, error } = await supabase.rpc('claim_due_ot_sla_alerts');
+
+  if (error) {
+    console.error('[ApprovalSLA] Failed to claim due alerts:', error);
+    throw new Error('Failed to claim due SLA alerts');
+  }
+
+  const alerts = (data || []) as ClaimedAlert[];
+  if (alerts.length === 0) {
+    return {
+      success: true,
+      alertsClaimed: 0,
+      notificationsSent: 0,
+      message: 'No approvals past their SLA thresholds'
+    };
+  }
+
+  const reminders = alerts.filter((a) => a.kind === 'reminder').length;
+  console.log(`[ApprovalSLA] Claimed ${reminders} reminder(s) and ${alerts.length - reminders} escalation(s)`);
+
+  const notifications = groupAlertsByRecipient(alerts);
+
+  const results = await Promise.allSettled(
+    notifications.map((notification) => sendSLANotification(notification))
+  );
+
+  const successCount = results.filter((r) => r.status === 'fulfilled').length;
+  const failureCount = results.filter((r) => r.status === 'rejected').length;
+
+  results.forEach((r) => {
+    if (r.status === 'rejected') {
+      console.error('[ApprovalSLA] Notification failed:', r.reason);
+    }
+  });
+
+  return {
+    success: true,
+    alertsClaimed: alerts.length,
+    notificationsSent: successCount,
+    failures: failureCount,
+    message: `Notifications sent to ${successCount} recipient(s)`
+  };
+}
+
+interface RecipientNotification {
+  userId: string;
+  kind: 'reminder' | 'escalation';
+  alerts: ClaimedAlert[];
+}
+
+/**
+ * One notification per recipient and kind, so an approver with several
+ * overdue sessions gets a single summary instead of a burst of pushes
+ */
+function groupAlertsByRecipient(alerts: ClaimedAlert[]): RecipientNotification[] {
+  const grouped = new Map<string, RecipientNotification>();
+
+  alerts.forEach((alert) => {
+    alert.recipient_ids.forEach((userId) => {
+      const key = `${userId}:${alert.kind}`;
+      if (!grouped.has(key)) {
+        grouped.set(key, { userId, kind: alert.kind, alerts: [] });
+      }
+      grouped.get(key).alerts.push(alert);
+    });
+  });
+
+  return Array.from(grouped.values());
+}
+
+/**
+ * Sends the summary notification to a single recipient
+ */
+async function sendSLANotification(notification: RecipientNotification) {
+  const { userId, kind, alerts } = notification;
+  const first = alerts[0];
+  const longestWait = Math.max(...alerts.map((a) => a.hours_waiting));
+  const tickets = alerts.map((a) => a.ticket_number).slice(0, 3).join(', ');
+  const moreTickets = alerts.length > 3 ? ` +${alerts.length - 3} more` : '';
+
+  const title = kind === 'escalation'
+    ? `Escalated: ${alerts.length} OT request(s) overdue`
+    : `Reminder: ${alerts.length} OT request(s) awaiting your action`;
+  const body = alerts.length === 1
+    ? `${first.employee_name} - ${first.ticket_number} has waited ${formatWait(first.hours_waiting)}`
+    : `Waiting up to ${formatWait(longestWait)}: ${tickets}${moreTickets}`;
+  const targetUrl = kind === 'escalation'
+    ? ESCALATION_TARGET_URLS[first.escalate_to] || '/dashboard'
+    : STAGE_TARGET_URLS[first.status] || '/dashboard';
+
+  const notificationPayload = {
+    user_id: userId,
+    title,
+    body,
+    icon: '/icons/icon-192x192.png',
+    notification_type: 'ot_approval_overdue',
+    data: {
+      targetUrl,
+      type: kind === 'escalation' ? 'ot_approval_escalated' : 'ot_approval_reminder',
+      requestIds: alerts.map((a) => a.request_id)
+    }
+  };
+
+  // Call the existing send-push-notification Edge Function
+  const { url: supabaseUrl, serviceKey } = getSupabaseCredentials();
+  const response = await fetch(`${supabaseUrl}/functions/v1/send-push-notification`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${serviceKey}`
+    },
+    body: JSON.stringify(notificationPayload)
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to send notification to ${userId}: ${response.status} ${errorText}`);
+  }
+
+  console.log(`[ApprovalSLA] ✓ Sent ${kind} to ${userId} for ${alerts.length} request(s)`);
+}
+
+/**
+ * Format a wait in hours as "30 hours" or "3 days"
+ */
+function formatWait(hours: number): string {
+  if (hours < 48) return `${hours} hours`;
+  return `${Math.floor(hours / 24)} days`;
+}
@@ -3,9 +3,12 @@
  *
  * Sends push notifications to employees when their OT request is approved or rejected.
  * Handles employee targeting, rejection reason formatting, and status-specific messaging.
+ * Bulk decisions send a `decisions` list instead; each employee in it gets one
+ * notification summarizing all of their decided requests.
  *
  * @endpoint POST /functions/v1/send-employee-ot-notification
  * @payload {EmployeeOTNotificationPayload} requestId, notificationType
+ * @payload {BulkEmployeeOTNotificationPayload} decisions: [{ requestId, notificationType }]
  * @returns {NotificationResult} success status and notification count
  */ import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.77.0';
 // CORS headers for internal API calls
@@ -53,6 +56,37 @@ Deno.serve(async (req)=>{
   try {
     // Parse and validate request payload
     const payload = await req.json();
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    // Bulk decisions: one notification per employee
+    if (payload.decisions !== undefined) {
+      const decisions = Array.isArray(payload.decisions) ? payload.decisions : [];
+      const invalid = decisions.length === 0 || decisions.some((d)=>!d || !uuidRegex.test(d.requestId) || d.notificationType !== 'approved' && d.notificationType !== 'rejected');
+      if (invalid) {
+        const errorResponse = {
+          success: false,
+          error: 'Invalid decisions. Expected a non-empty list of { requestId, notificationType }.'
+        };
+        return new Response(JSON.stringify(errorResponse), {
+          status: 400,
+          headers: {
+            ...corsHeaders,
+            'Content-Type': 'application/json'
+          }
+        });
+      }
+      const { url, serviceKey } = getSupabaseCredentials();
+      const supabase = createClient(url, serviceKey);
+      const result = await sendEmployeeDecisionSummaries(supabase, decisions);
+      const executionTime = performance.now() - startTime;
+      console.log(`[EmployeeOTNotification] Bulk completed in ${executionTime.toFixed(2)}ms:`, result);
+      return new Response(JSON.stringify(result), {
+        status: 200,
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json'
+        }
+      });
+    }
     // Validate required fields
     if (!payload.requestId || !payload.notificationType) {
       const errorResponse = {
@@ -82,7 +116,6 @@ Deno.serve(async (req)=>{
       });
     }
     // Validate UUID format for requestId
-    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
     if (!uuidRegex.test(payload.requestId)) {
       const errorResponse = {
         success: false,
@@ -132,7 +165,7 @@ Deno.serve(async (req)=>{
  */ async function sendEmployeeNotification(supabase, requestId, notificationType) {
   console.log(`[EmployeeOTNotification] Processing ${notificationType} notification for request ${requestId}`);
   // 1. Fetch OT request details with approver information
-  const { data: otRequest, error: otError } = await supabase.from('ot_requests').select('id, employee_id, ot_date, total_hours, status, supervisor_id, hr_id, supervisor_remarks, hr_remarks, management_remarks').eq('id', requestId).single();
+  const { data: otRequest, error: otError } = await supabase.from('ot_requests').select('id, employee_id, ot_date, total_hours, status, supervisor_id, hr_id, management_id, supervisor_remarks, hr_remarks, management_remarks').eq('id', requestId).single();
   if (otError || !otRequest) {
     console.error('[EmployeeOTNotification] Failed to fetch OT request:', {
       requestId,
@@ -177,6 +210,91 @@ Deno.serve(async (req)=>{
   const notificationPayload = buildNotificationPayload(otRequest, notificationType, approverName);
   console.log(`[EmployeeOTNotification] Sending ${notificationType} notification to employee ${employee.full_name}`);
   // 6. Send notification via send-push-notification function
+  const result = await sendPushNotification(notificationPayload);
+  console.log(`[EmployeeOTNotification] ✓ Sent to ${employee.full_name}:`, result);
+  return {
+    success: true,
+    notificationsSent: result.success || 0,
+    message: `Notification sent successfully to ${employee.full_name}`,
+    details: JSON.stringify(result)
+  };
+}
+/**
+ * Sends each employee one notification covering all of their decisions
+ * A single decision gets the usual per-request notification.
+ */ async function sendEmployeeDecisionSummaries(supabase, decisions) {
+  const typeByRequest = new Map(decisions.map((d)=>[
+      d.requestId,
+      d.notificationType
+    ]));
+  const { data: otRequests, error: otError } = await supabase.from('ot_requests').select('id, employee_id, ot_date, total_hours').in('id', [
+    ...typeByRequest.keys()
+  ]);
+  if (otError) {
+    console.error('[EmployeeOTNotification] Failed to fetch OT requests:', otError);
+    throw new Error('Failed to fetch OT requests');
+  }
+  const requestsByEmployee = new Map();
+  for (const otRequest of otRequests || []){
+    const employeeRequests = requestsByEmployee.get(otRequest.employee_id) || [];
+    employeeRequests.push(otRequest);
+    requestsByEmployee.set(otRequest.employee_id, employeeRequests);
+  }
+  let notificationsSent = 0;
+  const failures = [];
+  for (const [employeeId, employeeRequests] of requestsByEmployee){
+    try {
+      if (employeeRequests.length === 1) {
+        const single = await sendEmployeeNotification(supabase, employeeRequests[0].id, typeByRequest.get(employeeRequests[0].id));
+        notificationsSent += single.notificationsSent;
+        continue;
+      }
+      const { data: subscriptions, error: subError } = await supabase.from('push_subscriptions').select('id').eq('user_id', employeeId).eq('is_active', true);
+      if (subError) throw new Error('Failed to check push subscriptions');
+      if (!subscriptions || subscriptions.length === 0) continue;
+      const result = await sendPushNotification(buildSummaryPayload(employeeId, employeeRequests, typeByRequest));
+      notificationsSent += result.success || 0;
+    } catch (error) {
+      // One employee's failure doesn't stop the others
+      console.error(`[EmployeeOTNotification] Failed to notify employee ${employeeId}:`, error);
+      failures.push(employeeId);
+    }
+  }
+  return {
+    success: failures.length === 0,
+    notificationsSent,
+    message: `Notified ${requestsByEmployee.size - failures.length} of ${requestsByEmployee.size} employees`
+  };
+}
+/**
+ * Builds one notification for several decided requests of an employee
+ */ function buildSummaryPayload(employeeId, otRequests, typeByRequest) {
+  const approved = otRequests.filter((r)=>typeByRequest.get(r.id) === 'approved');
+  const rejected = otRequests.filter((r)=>typeByRequest.get(r.id) === 'rejected');
+  const dates = otRequests.map((r)=>r.ot_date).sort();
+  const dateRange = dates[0] === dates[dates.length - 1] ? formatDate(dates[0]) : `${formatDate(dates[0])} - ${formatDate(dates[dates.length - 1])}`;
+  const counts = [
+    approved.length > 0 ? `${approved.length} approved` : null,
+    rejected.length > 0 ? `${rejected.length} rejected` : null
+  ].filter(Boolean).join(', ');
+  const title = rejected.length === 0 ? 'OT Requests Approved' : approved.length === 0 ? 'OT Requests Rejected' : 'OT Requests Reviewed';
+  return {
+    user_id: employeeId,
+    title,
+    body: `${dateRange} - ${otRequests.length} requests: ${counts}`,
+    icon: '/icons/icon-192x192.png',
+    badge: rejected.length === 0 ? '/icons/badge-approved.svg' : '/icons/badge-rejected.svg',
+    notification_type: rejected.length === 0 ? 'ot_requests_approved' : 'ot_requests_rejected',
+    data: {
+      targetUrl: '/ot/history',
+      type: 'ot_requests_decided',
+      requestIds: otRequests.map((r)=>r.id)
+    }
+  };
+}
+/**
+ * Posts a notification to the send-push-notification function
+ */ async function sendPushNotification(notificationPayload) {
   const { url: supabaseUrl, serviceKey } = getSupabaseCredentials();
   const response = await fetch(`${supabaseUrl}/functions/v1/send-push-notification`, {
     method: 'POST',
@@ -190,19 +308,16 @@ Deno.serve(async (req)=>{
     const errorText = await response.text();
     throw new Error(`Failed to send notification: ${response.status} ${errorText}`);
   }
-  const result = await response.json();
-  console.log(`[EmployeeOTNotification] ✓ Sent to ${employee.full_name}:`, result);
-  return {
-    success: true,
-    notificationsSent: result.success || 0,
-    message: `Notification sent successfully to ${employee.full_name}`,
-    details: JSON.stringify(result)
-  };
+  return await response.json();
 }
 /**
  * Determines the approver ID based on OT request status
- * Priority: HR ID > Supervisor ID
+ * Priority: Management ID > HR ID > Supervisor ID
  */ function determineApproverId(otRequest) {
+  // Management's decision is the latest one
+  if (otRequest.management_id) {
+    return otRequest.management_id;
+  }
   // HR approval takes precedence
   if (otRequest.hr_id) {
     return otRequest.hr_id;
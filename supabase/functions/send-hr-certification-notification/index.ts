@@ -3,6 +3,7 @@
  *
  * Sends push notifications to HR users when an OT request is ready for certification.
  * Triggered when supervisor confirms/verifies a request and it enters the HR queue.
+ * HR users who are out of office are replaced by their active delegate.
  *
  * @endpoint POST /functions/v1/send-hr-certification-notification
  * @payload {HRCertificationNotificationPayload} requestId
@@ -135,7 +136,7 @@ async function sendHRNotifications(supabase, requestId) {
   // 1. Fetch OT request details
   const { data: otRequest, error: otError } = await supabase
     .from('ot_requests')
-    .select('id, ot_date, total_hours, employee_id')
+    .select('id, ot_date, total_hours, employee_id, company_id')
     .eq('id', requestId)
     .single();
 
@@ -162,8 +163,8 @@ async function sendHRNotifications(supabase, requestId) {
     throw new Error('Employee not found');
   }
 
-  // 3. Identify HR users with active push subscriptions
-  const hrUsers = await identifyHRUsers(supabase);
+  // 3. Identify the request company's HR users with active push subscriptions
+  const hrUsers = await identifyHRUsers(supabase, otRequest.company_id);
 
   if (hrUsers.length === 0) {
     console.log('[HRCertificationNotification] No HR users found with active subscriptions');
@@ -199,21 +200,28 @@ async function sendHRNotifications(supabase, requestId) {
 }
 
 /**
- * Identifies HR users with active push subscriptions
+ * Identifies HR users of the request's company with active push subscriptions
  */
-async function identifyHRUsers(supabase) {
-  // Get all users with HR role
-  const { data: hrRoles, error: roleError } = await supabase
-    .from('user_roles')
-    .select('user_id')
-    .eq('role', 'hr');
+async function identifyHRUsers(supabase, companyId: string | null) {
+  // Get all users with HR role in the company; requests without one go to every HR user
+  const { data: hrRoles, error: roleError } = companyId
+    ? await supabase
+        .from('user_company_roles')
+        .select('user_id')
+        .eq('company_id', companyId)
+        .eq('role', 'hr')
+    : await supabase
+        .from('user_roles')
+        .select('user_id')
+        .eq('role', 'hr');
 
   if (roleError || !hrRoles || hrRoles.length === 0) {
     console.error('[HRCertificationNotification] Error or no HR roles found:', roleError);
     return [];
   }
 
-  const hrUserIds = hrRoles.map((r) => r.user_id);
+  // HR users who are out of office are replaced by their active delegates
+  const hrUserIds = await resolveDelegatedRecipientIds(supabase, hrRoles.map((r) => r.user_id), companyId);
 
   // Filter HR users who have active push subscriptions
   const { data: usersWithSubs, error: subError } = await supabase
@@ -241,6 +249,26 @@ async function identifyHRUsers(supabase) {
   return Array.from(uniqueUsers.values());
 }
 
+/**
+ * Swaps HR users with an active out-of-office delegation for their delegate,
+ * if the delegate belongs to the company.
+ * Falls back to the original users if the lookup fails.
+ */
+async function resolveDelegatedRecipientIds(supabase, userIds: string[], companyId: string | null): Promise<string[]> {
+  const { data, error } = await supabase.rpc('resolve_approval_notification_recipients', {
+    p_user_ids: userIds,
+    p_role: 'hr',
+    p_company_id: companyId
+  });
+
+  if (error || !data) {
+    console.warn('[HRCertificationNotification] Failed to resolve delegates, notifying HR users directly:', error);
+    return userIds;
+  }
+
+  return data.map((r) => r.recipient_id);
+}
+
 /**
  * Sends notification to a single HR user
  */
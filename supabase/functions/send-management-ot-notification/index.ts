@@ -3,6 +3,7 @@
  *
  * Sends push notifications to management users when an OT request is certified by HR.
  * Handles management user identification, subscription filtering, and notification formatting.
+ * Management users who are out of office are replaced by their active delegate.
  *
  * @endpoint POST /functions/v1/send-management-ot-notification
  * @payload {ManagementOTNotificationPayload} requestId
@@ -117,7 +118,7 @@ Deno.serve(async (req)=>{
  */ async function sendManagementNotifications(supabase, requestId) {
   console.log(`[ManagementOTNotification] Processing request ${requestId}`);
   // 1. Fetch OT request details
-  const { data: otRequest, error: otError } = await supabase.from('ot_requests').select('id, ot_date, total_hours, employee_id').eq('id', requestId).single();
+  const { data: otRequest, error: otError } = await supabase.from('ot_requests').select('id, ot_date, total_hours, employee_id, company_id').eq('id', requestId).single();
   if (otError || !otRequest) {
     console.error('[ManagementOTNotification] Failed to fetch OT request:', {
       requestId,
@@ -134,8 +135,8 @@ Deno.serve(async (req)=>{
     });
     throw new Error('Employee not found');
   }
-  // 3. Identify management users with active push subscriptions
-  const managementUsers = await identifyManagementUsers(supabase);
+  // 3. Identify the request company's management users with active push subscriptions
+  const managementUsers = await identifyManagementUsers(supabase, otRequest.company_id);
   if (managementUsers.length === 0) {
     console.log('[ManagementOTNotification] No management users found with active subscriptions');
     return {
@@ -160,15 +161,16 @@ Deno.serve(async (req)=>{
   };
 }
 /**
- * Identifies management users with active push subscriptions
- */ async function identifyManagementUsers(supabase) {
-  // Get all users with management role
-  const { data: managementRoles, error: roleError } = await supabase.from('user_roles').select('user_id').eq('role', 'management');
+ * Identifies management users of the request's company with active push subscriptions
+ */ async function identifyManagementUsers(supabase, companyId) {
+  // Get all users with management role in the company; requests without one go to every management user
+  const { data: managementRoles, error: roleError } = companyId ? await supabase.from('user_company_roles').select('user_id').eq('company_id', companyId).eq('role', 'management') : await supabase.from('user_roles').select('user_id').eq('role', 'management');
   if (roleError || !managementRoles || managementRoles.length === 0) {
     console.error('[ManagementOTNotification] Error or no management roles found:', roleError);
     return [];
   }
-  const managementUserIds = managementRoles.map((r)=>r.user_id);
+  // Management users who are out of office are replaced by their active delegates
+  const managementUserIds = await resolveDelegatedRecipientIds(supabase, managementRoles.map((r)=>r.user_id), companyId);
   // Filter management users who have active push subscriptions
   const { data: usersWithSubs, error: subError } = await supabase.from('push_subscriptions').select('user_id, profiles!inner(id, full_name)').in('user_id', managementUserIds).eq('is_active', true);
   if (subError || !usersWithSubs) {
@@ -187,6 +189,22 @@ Deno.serve(async (req)=>{
   });
   return Array.from(uniqueUsers.values());
 }
+/**
+ * Swaps management users with an active out-of-office delegation for their delegate,
+ * if the delegate belongs to the company.
+ * Falls back to the original users if the lookup fails.
+ */ async function resolveDelegatedRecipientIds(supabase, userIds, companyId) {
+  const { data, error } = await supabase.rpc('resolve_approval_notification_recipients', {
+    p_user_ids: userIds,
+    p_role: 'management',
+    p_company_id: companyId
+  });
+  if (error || !data) {
+    console.warn('[ManagementOTNotification] Failed to resolve delegates, notifying management users directly:', error);
+    return userIds;
+  }
+  return data.map((r)=>r.recipient_id);
+}
 /**
  * Sends notification to a single management user
  */ async function sendNotificationToManagementUser(_supabase, managementUser, employee, otRequest) {
@@ -77,7 +77,8 @@ let cachedAccessToken = null;
       'ot_supervisor_confirmed',
       'ot_respective_supervisor_confirmed',
       'ot_request_respective_supervisor_confirmation',
-      'ot_respective_supervisor_denied'
+      'ot_respective_supervisor_denied',
+      'ot_approval_overdue'
     ];
     if (!validTypes.includes(p.notification_type)) {
       errors.push({
@@ -3,7 +3,8 @@
  *
  * Sends notifications to respective supervisors when a direct supervisor requests
  * confirmation for an OT request. This happens after the direct supervisor verifies
- * the OT and needs the instructing supervisor to confirm.
+ * the OT and needs the instructing supervisor to confirm. If that supervisor is out
+ * of office, their active delegate is notified instead.
  *
  * @endpoint POST /functions/v1/send-respective-supervisor-confirmation-request
  * @payload {RequestNotificationPayload} requestId
@@ -174,17 +175,19 @@ Deno.serve(async (req)=>{
     });
     throw new Error('Respective supervisor not found');
   }
-  console.log(`[RespectiveSupervisorConfirmationRequest] Sending confirmation request to ${respectiveSupervisor.full_name}`);
-  // 7. Send notification to respective supervisor
+  // 7. A respective supervisor who is out of office is replaced by their active delegate
+  const recipient = await resolveDelegatedRecipient(supabase, respectiveSupervisor);
+  console.log(`[RespectiveSupervisorConfirmationRequest] Sending confirmation request to ${recipient.full_name}`);
+  // 8. Send notification to respective supervisor
   try {
-    await sendNotificationToRespectiveSupervisor(supabase, respectiveSupervisor, employee, directSupervisor, otRequest);
+    await sendNotificationToRespectiveSupervisor(supabase, recipient, employee, directSupervisor, otRequest);
     console.log(`[RespectiveSupervisorConfirmationRequest] ✓ Notification sent successfully`);
     return {
       success: true,
       notificationsSent: 1,
       supervisorsNotified: 1,
       failures: 0,
-      message: `Confirmation request sent to ${respectiveSupervisor.full_name}`
+      message: `Confirmation request sent to ${recipient.full_name}`
     };
   } catch (notifError) {
     console.error('[RespectiveSupervisorConfirmationRequest] Failed to send notification:', notifError);
@@ -198,11 +201,35 @@ Deno.serve(async (req)=>{
     };
   }
 }
+/**
+ * Returns the active out-of-office delegate for the respective supervisor, if any,
+ * with the supervisor kept as actingFor. Falls back to the supervisor on error.
+ */ async function resolveDelegatedRecipient(supabase, respectiveSupervisor) {
+  const { data, error } = await supabase.rpc('resolve_approval_notification_recipients', {
+    p_user_ids: [
+      respectiveSupervisor.id
+    ],
+    p_role: 'supervisor'
+  });
+  const delegateId = data?.[0]?.on_behalf_of ? data[0].recipient_id : null;
+  if (error || !delegateId) {
+    if (error) console.warn('[RespectiveSupervisorConfirmationRequest] Failed to resolve delegate:', error);
+    return respectiveSupervisor;
+  }
+  const { data: delegate } = await supabase.from('profiles').select('id, full_name, employee_id').eq('id', delegateId).single();
+  if (!delegate) return respectiveSupervisor;
+  return {
+    ...delegate,
+    actingFor: respectiveSupervisor
+  };
+}
 /**
  * Sends confirmation request notification to respective supervisor using send-push-notification function
  */ async function sendNotificationToRespectiveSupervisor(_supabase, respectiveSupervisor, employee, directSupervisor, otRequest) {
   // Format notification content
-  const title = `OT Confirmation Needed: ${employee.full_name}`;
+  const title = respectiveSupervisor.actingFor
+    ? `OT Confirmation Needed: ${employee.full_name} (on behalf of ${respectiveSupervisor.actingFor.full_name})`
+    : `OT Confirmation Needed: ${employee.full_name}`;
   const body = `${formatDate(otRequest.ot_date)} - ${otRequest.total_hours} hours - Requested by ${directSupervisor.full_name}`;
   // Link to verify/confirm the request
   const targetUrl = `/supervisor/verify-ot?request=${otRequest.id}`;
@@ -3,6 +3,7 @@
  *
  * Sends notifications to supervisors when their verified OT requests need confirmation.
  * This is the second step in the workflow after initial verification.
+ * Supervisors who are out of office are replaced by their active delegate.
  *
  * @endpoint POST /functions/v1/send-supervisor-confirmation-notification
  * @payload {ConfirmationNotificationPayload} requestId, employeeId
@@ -164,20 +165,19 @@ Deno.serve(async (req)=>{
     });
     throw new Error('Supervisor not found');
   }
-  console.log(`[SupervisorConfirmationNotification] Sending confirmation request to ${supervisor.full_name}`);
-  // 6. Send notification to supervisor
+  // 6. A supervisor who is out of office is replaced by their active delegate
+  const recipient = await resolveDelegatedRecipient(supabase, supervisor);
+  console.log(`[SupervisorConfirmationNotification] Sending confirmation request to ${recipient.fullName}`);
+  // 7. Send notification to supervisor
   try {
-    await sendNotificationToSupervisor(supabase, {
-      id: supervisor.id,
-      fullName: supervisor.full_name
-    }, employee, otRequest);
+    await sendNotificationToSupervisor(supabase, recipient, employee, otRequest);
     console.log(`[SupervisorConfirmationNotification] ✓ Notification sent successfully`);
     return {
       success: true,
       notificationsSent: 1,
       supervisorsNotified: 1,
       failures: 0,
-      message: `Confirmation request notification sent to ${supervisor.full_name}`
+      message: `Confirmation request notification sent to ${recipient.fullName}`
     };
   } catch (notifError) {
     console.error('[SupervisorConfirmationNotification] Failed to send notification:', notifError);
@@ -191,11 +191,41 @@ Deno.serve(async (req)=>{
     };
   }
 }
+/**
+ * Returns the supervisor's active out-of-office delegate, if any, as the recipient.
+ * Falls back to the supervisor on error.
+ */ async function resolveDelegatedRecipient(supabase, supervisor) {
+  const fallback = {
+    id: supervisor.id,
+    fullName: supervisor.full_name,
+    actingFor: null
+  };
+  const { data, error } = await supabase.rpc('resolve_approval_notification_recipients', {
+    p_user_ids: [
+      supervisor.id
+    ],
+    p_role: 'supervisor'
+  });
+  const delegateId = data?.[0]?.on_behalf_of ? data[0].recipient_id : null;
+  if (error || !delegateId) {
+    if (error) console.warn('[SupervisorConfirmationNotification] Failed to resolve delegate:', error);
+    return fallback;
+  }
+  const { data: delegate } = await supabase.from('profiles').select('id, full_name').eq('id', delegateId).single();
+  if (!delegate) return fallback;
+  return {
+    id: delegate.id,
+    fullName: delegate.full_name,
+    actingFor: supervisor.full_name
+  };
+}
 /**
  * Sends confirmation request notification to supervisor using send-push-notification function
  */ async function sendNotificationToSupervisor(_supabase, supervisor, employee, otRequest) {
   // Format notification content for confirmation request
-  const title = `Confirmation Required: ${employee.full_name}'s OT Request`;
+  const title = supervisor.actingFor
+    ? `Confirmation Required: ${employee.full_name}'s OT Request (on behalf of ${supervisor.actingFor})`
+    : `Confirmation Required: ${employee.full_name}'s OT Request`;
   const reasonPreview = otRequest.reason.length > 50 ? `${otRequest.reason.substring(0, 50)}...` : otRequest.reason;
   const body = `${formatDate(otRequest.ot_date)} - ${otRequest.total_hours} hours - ${reasonPreview}`;
   // Link to confirmation dialog/page
@@ -9,6 +9,7 @@
  * Routes notification based on workflow:
  * - Route B: If respectiveSupervisorId provided → notifies respective supervisor
  * - Route A: Otherwise → notifies direct supervisor
+ * Supervisors who are out of office are replaced by their active delegate.
  *
  * @endpoint POST /functions/v1/send-supervisor-ot-notification
  * @payload {OTNotificationPayload} requestId, employeeId, respectiveSupervisorId (optional)
@@ -218,18 +219,29 @@ async function sendSupervisorNotifications(supabase, requestId, employeeId, resp
     supervisorIds.push(directSvId);
   }
 
-  // Get supervisor details
-  const { data: supervisorDetails, error: supervisorError } = await supabase
+  // Supervisors who are out of office are replaced by their active delegates
+  const recipients = await resolveDelegatedRecipients(supabase, supervisorIds);
+
+  // Get supervisor (and delegate) details
+  const { data: profiles, error: supervisorError } = await supabase
     .from('profiles')
     .select('id, full_name')
-    .in('id', supervisorIds);
+    .in('id', [...new Set(recipients.flatMap((r) => [r.recipient_id, r.on_behalf_of].filter(Boolean)))]);
 
   if (supervisorError) {
     console.error('[SupervisorOTNotification-v2] Failed to fetch supervisor details:', supervisorError);
     throw new Error('Failed to fetch supervisor details');
   }
 
-  if (!supervisorDetails || supervisorDetails.length === 0) {
+  const profilesById = new Map((profiles || []).map((p) => [p.id, p]));
+  const supervisorDetails = recipients
+    .filter((r) => profilesById.has(r.recipient_id))
+    .map((r) => ({
+      ...profilesById.get(r.recipient_id),
+      actingFor: r.on_behalf_of ? profilesById.get(r.on_behalf_of) || { id: r.on_behalf_of, full_name: 'a supervisor' } : null
+    }));
+
+  if (supervisorDetails.length === 0) {
     console.log('[SupervisorOTNotification-v2] No supervisors found for notification');
     return {
       success: true,
@@ -241,7 +253,7 @@ async function sendSupervisorNotifications(supabase, requestId, employeeId, resp
   // 4. Send notifications with dual-channel delivery (FCM + Database)
   const notificationResults = await Promise.allSettled(
     supervisorDetails.map((supervisor) => {
-      const isRespectiveSupervisor = supervisor.id === respectiveSvId;
+      const isRespectiveSupervisor = (supervisor.actingFor?.id || supervisor.id) === respectiveSvId;
       return sendNotificationToSupervisor(supabase, supervisor, employee, otRequest, isRespectiveSupervisor);
     })
   );
@@ -297,6 +309,10 @@ async function sendNotificationToSupervisor(supabase, supervisor, employee, otRe
     targetUrl = `/supervisor/verify?request=${otRequest.id}`;
   }
 
+  if (supervisor.actingFor) {
+    title = `${title} (on behalf of ${supervisor.actingFor.full_name})`;
+  }
+
   // Step 1: Always insert into notifications table (audit trail + backup delivery)
   try {
     const { error: notifError } = await supabase
@@ -356,6 +372,24 @@ async function sendNotificationToSupervisor(supabase, supervisor, employee, otRe
   };
 }
 
+/**
+ * Swaps supervisors with an active out-of-office delegation for their delegate.
+ * Falls back to the original supervisors if the lookup fails.
+ */
+async function resolveDelegatedRecipients(supabase, userIds) {
+  const { data, error } = await supabase.rpc('resolve_approval_notification_recipients', {
+    p_user_ids: userIds,
+    p_role: 'supervisor'
+  });
+
+  if (error || !data) {
+    console.warn('[SupervisorOTNotification-v2] Failed to resolve delegates, notifying supervisors directly:', error);
+    return userIds.map((id) => ({ recipient_id: id, on_behalf_of: null }));
+  }
+
+  return data;
+}
+
 /**
  * Sends FCM push notification via the send-push-notification edge function
  */
@@ -4,9 +4,13 @@
  * Handles OT request submission with proper status assignment based on workflow route.
  * Route A: Direct supervisor verification
  * Route B: Respective supervisor confirmation first
+ * Hard OT limits and the statutory monthly cap are enforced by the
+ * enforce_ot_hour_limits trigger; its message is returned as the error.
+ * Submissions queued offline carry client_submission_id: a replay of one
+ * already stored returns the stored request instead of a duplicate.
  *
  * @endpoint POST /functions/v1/submit-ot-request
- * @payload {OTSubmissionPayload} ot_date, ot_location_state, start_time, end_time, total_hours, day_type, reason, respective_supervisor_id, attachment_urls
+ * @payload {OTSubmissionPayload} ot_date, ot_location_state, start_time, end_time, total_hours, day_type, reason, reason_id, respective_supervisor_id, attachment_urls, client_submission_id
  * @returns {OTRequest} Created OT request with ticket number
  */
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.77.0';
@@ -57,6 +61,23 @@ Deno.serve(async (req) => {
 
     const payload = await req.json();
 
+    // Replayed offline submission already stored
+    if (payload.client_submission_id) {
+      const { data: existing } = await supabase
+        .from('ot_requests')
+        .select('*')
+        .eq('client_submission_id', payload.client_submission_id)
+        .eq('employee_id', user.id)
+        .maybeSingle();
+
+      if (existing) {
+        return new Response(
+          JSON.stringify({ success: true, data: existing, duplicate: true }),
+          { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
     // Determine initial status based on workflow route
     // Route A (no respective SV): pending_verification
     // Route B (with respective SV): pending_respective_supervisor_confirmation
@@ -99,9 +120,11 @@ Deno.serve(async (req) => {
         total_hours: payload.total_hours,
         day_type: payload.day_type,
         reason: payload.reason,
+        reason_id: payload.reason_id || null,
         respective_supervisor_id: payload.respective_supervisor_id || null,
         attachment_urls: payload.attachment_urls || [],
         status: initialStatus,
+        client_submission_id: payload.client_submission_id || null,
       }])
       .select()
       .single();
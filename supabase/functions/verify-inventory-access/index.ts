@@ -0,0 +1,127 @@
+/**
+ * Verify Inventory Access Edge Function
+ *
+ * Called by a store counter kiosk (/kiosk/inventory) with the token read
+ * from an employee's inventory QR. The kiosk authenticates with its own key
+ * (see inventory_kiosks); kiosks are not signed in. The token is checked and
+ * used up by consume_inventory_access_token, which also logs the scan. A
+ * granted scan returns the holder's identity as an HS256 JWT signed with
+ * INVENTORY_ACCESS_SIGNING_SECRET, so a store system handed the result can
+ * trust it without calling back.
+ *
+ * @endpoint POST /functions/v1/verify-inventory-access
+ * @header x-kiosk-key the kiosk's key
+ * @body { token: string }
+ * @returns {InventoryBadgeVerification}
+ */
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.77.0';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-kiosk-key',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS'
+};
+
+// How long a store system may rely on a granted identity
+const IDENTITY_TTL_SECONDS = 5 * 60;
+
+interface ConsumeResult {
+  scan_id: string;
+  result: 'granted' | 'unknown' | 'expired' | 'used' | 'revoked' | 'other_company';
+  employee_id: string | null;
+  kiosk_id: string;
+  kiosk_name: string;
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed. Use POST request.' }, 405);
+  }
+
+  try {
+    const kioskKey = req.headers.get('x-kiosk-key');
+    if (!kioskKey) return json({ error: 'Missing kiosk key' }, 401);
+
+    const { token } = await req.json().catch(() => ({}));
+    if (typeof token !== 'string' || !token.trim()) return json({ error: 'token is required' }, 400);
+
+    const signingSecret = Deno.env.get('INVENTORY_ACCESS_SIGNING_SECRET');
+    if (!signingSecret) throw new Error('INVENTORY_ACCESS_SIGNING_SECRET is not configured');
+
+    const supabaseAdmin = createClient(Deno.env.get('SUPABASE_URL') ?? '', Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '', {
+      auth: { autoRefreshToken: false, persistSession: false }
+    });
+
+    const { data, error } = await supabaseAdmin.rpc('consume_inventory_access_token', {
+      p_kiosk_key: kioskKey,
+      p_token: token.trim()
+    });
+    if (error) {
+      if (error.code === '42501') return json({ error: 'Unknown or inactive kiosk' }, 401);
+      throw error;
+    }
+
+    const scan = (data as ConsumeResult[])[0];
+    if (scan.result !== 'granted' || !scan.employee_id) {
+      return json({ result: scan.result, scan_id: scan.scan_id });
+    }
+
+    const { data: employee, error: employeeError } = await supabaseAdmin
+      .from('profiles')
+      .select('employee_id, full_name, departments:department_id(name)')
+      .eq('id', scan.employee_id)
+      .single();
+    if (employeeError) throw employeeError;
+
+    const now = Math.floor(Date.now() / 1000);
+    const identity = {
+      employee_no: employee.employee_id,
+      name: employee.full_name,
+      department: (employee.departments as { name: string } | null)?.name ?? null
+    };
+    const assertion = await signIdentity(
+      {
+        iss: 'otms',
+        aud: 'inventory',
+        sub: identity.employee_no,
+        ...identity,
+        kiosk_id: scan.kiosk_id,
+        jti: scan.scan_id,
+        iat: now,
+        exp: now + IDENTITY_TTL_SECONDS
+      },
+      signingSecret
+    );
+
+    return json({ result: 'granted', scan_id: scan.scan_id, identity, assertion });
+  } catch (error) {
+    console.error('[VerifyInventoryAccess] Error:', error);
+    return json({ error: 'Verification failed' }, 500);
+  }
+});
+
+function base64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/=/g, '').replace(/\+/g, '-').replace(/\//g, '_');
+}
+
+/** Compact HS256 JWT of the claims */
+async function signIdentity(claims: Record<string, unknown>, secret: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const header = base64Url(encoder.encode(JSON.stringify({ alg: 'HS256', typ: 'JWT' })));
+  const payload = base64Url(encoder.encode(JSON.stringify(claims)));
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, [
+    'sign'
+  ]);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${header}.${payload}`));
+  return `${header}.${payload}.${base64Url(new Uint8Array(signature))}`;
+}
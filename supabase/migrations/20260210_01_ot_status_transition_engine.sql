@@ -0,0 +1,312 @@
+-- Server-side OT workflow state machine
+--
+-- Moves the authoritative transition rules into Postgres:
+-- - ot_status_transitions: the transition table (mirrored client-side by
+--   VALID_CONFIRMATION_TRANSITIONS in src/types/otms.ts)
+-- - transition_ot_request(): the only path allowed to change ot_requests.status
+--   for authenticated users; checks role, assignment and the transition table
+-- - enforce_ot_status_transition trigger: rejects direct status writes and
+--   inserts that do not start in a pending status
+
+-- 1) Transition table
+CREATE TABLE IF NOT EXISTS public.ot_status_transitions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  from_status ot_status NOT NULL,
+  to_status ot_status NOT NULL,
+  actor text NOT NULL CHECK (actor IN ('supervisor', 'respective_supervisor', 'hr', 'management')),
+  requires_remarks boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT ot_status_transitions_unique UNIQUE (from_status, to_status, actor)
+);
+
+INSERT INTO public.ot_status_transitions (from_status, to_status, actor, requires_remarks)
+VALUES
+  -- Route A: direct supervisor
+  ('pending_verification', 'supervisor_confirmed', 'supervisor', false),
+  ('pending_verification', 'rejected', 'supervisor', true),
+  ('pending_verification', 'pending_respective_supervisor_confirmation', 'supervisor', false),
+
+  -- Route B: respective supervisor first
+  ('pending_respective_supervisor_confirmation', 'pending_supervisor_verification', 'respective_supervisor', false),
+  ('pending_respective_supervisor_confirmation', 'respective_supervisor_confirmed', 'respective_supervisor', false),
+  ('pending_respective_supervisor_confirmation', 'rejected', 'respective_supervisor', true),
+  ('respective_supervisor_confirmed', 'pending_supervisor_verification', 'supervisor', false),
+  ('respective_supervisor_confirmed', 'supervisor_verified', 'supervisor', false),
+  ('pending_supervisor_verification', 'supervisor_confirmed', 'supervisor', false),
+  ('pending_supervisor_verification', 'supervisor_verified', 'supervisor', false),
+  ('pending_supervisor_verification', 'rejected', 'supervisor', true),
+
+  -- HR certification (both routes converge)
+  ('supervisor_confirmed', 'hr_certified', 'hr', false),
+  ('supervisor_verified', 'hr_certified', 'hr', false),
+  ('respective_supervisor_confirmed', 'hr_certified', 'hr', false),
+  ('supervisor_confirmed', 'rejected', 'hr', true),
+  ('supervisor_verified', 'rejected', 'hr', true),
+  ('respective_supervisor_confirmed', 'rejected', 'hr', true),
+  ('hr_certified', 'pending_verification', 'hr', true),
+  ('hr_certified', 'pending_respective_supervisor_confirmation', 'hr', true),
+  -- HR recertification of a request management sent back
+  ('hr_certified', 'hr_certified', 'hr', true),
+  ('hr_certified', 'rejected', 'hr', true),
+
+  -- Management approval
+  ('hr_certified', 'management_approved', 'management', false),
+  ('hr_certified', 'hr_certified', 'management', true),
+  ('management_approved', 'hr_certified', 'management', true)
+ON CONFLICT (from_status, to_status, actor) DO NOTHING;
+
+ALTER TABLE public.ot_status_transitions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "ot_status_transitions_read_all" ON public.ot_status_transitions;
+CREATE POLICY "ot_status_transitions_read_all"
+  ON public.ot_status_transitions
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "ot_status_transitions_modify_service_role" ON public.ot_status_transitions;
+CREATE POLICY "ot_status_transitions_modify_service_role"
+  ON public.ot_status_transitions
+  FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+-- 2) Actor resolution: which workflow actor may the user act as on this request?
+CREATE OR REPLACE FUNCTION public.resolve_ot_transition_actor(
+  p_request public.ot_requests,
+  p_user_id uuid,
+  p_to_status ot_status
+)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT t.actor
+  FROM public.ot_status_transitions t
+  WHERE t.from_status = p_request.status
+    AND t.to_status = p_to_status
+    -- Nobody acts on their own OT
+    AND p_request.employee_id <> p_user_id
+    AND (
+      (t.actor = 'supervisor' AND p_request.supervisor_id = p_user_id)
+      OR (t.actor = 'respective_supervisor' AND p_request.respective_supervisor_id = p_user_id)
+      OR (t.actor = 'hr' AND (has_role(p_user_id, 'hr'::app_role) OR has_role(p_user_id, 'admin'::app_role)))
+      OR (t.actor = 'management' AND has_role(p_user_id, 'management'::app_role))
+    )
+  ORDER BY CASE t.actor
+    WHEN 'respective_supervisor' THEN 1
+    WHEN 'supervisor' THEN 2
+    WHEN 'hr' THEN 3
+    ELSE 4
+  END
+  LIMIT 1;
+$$;
+
+-- 3) Transition engine
+CREATE OR REPLACE FUNCTION public.transition_ot_request(
+  p_request_ids uuid[],
+  p_to_status ot_status,
+  p_remarks text DEFAULT NULL,
+  p_rejection_stage text DEFAULT NULL
+)
+RETURNS TABLE (
+  request_id uuid,
+  from_status ot_status,
+  to_status ot_status,
+  actor text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_remarks text := NULLIF(btrim(p_remarks), '');
+  v_now timestamptz := now();
+  v_request public.ot_requests;
+  v_actor text;
+  v_requires_remarks boolean;
+  v_found int := 0;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'not authenticated';
+  END IF;
+
+  IF p_request_ids IS NULL OR cardinality(p_request_ids) = 0 THEN
+    RAISE EXCEPTION 'no OT requests supplied';
+  END IF;
+
+  IF v_remarks IS NOT NULL AND length(v_remarks) > 500 THEN
+    RAISE EXCEPTION 'remarks cannot exceed 500 characters';
+  END IF;
+
+  -- Allows the status change through enforce_ot_status_transition for this transaction
+  PERFORM set_config('otms.transition_engine', 'on', true);
+
+  FOR v_request IN
+    SELECT *
+    FROM public.ot_requests r
+    WHERE r.id = ANY(p_request_ids)
+    ORDER BY r.ot_date, r.start_time
+    FOR UPDATE
+  LOOP
+    v_found := v_found + 1;
+    v_actor := public.resolve_ot_transition_actor(v_request, v_user_id, p_to_status);
+
+    IF v_actor IS NULL THEN
+      RAISE EXCEPTION 'transition of % from % to % is not allowed for this user',
+        v_request.ticket_number, v_request.status, p_to_status
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    SELECT t.requires_remarks INTO v_requires_remarks
+    FROM public.ot_status_transitions t
+    WHERE t.from_status = v_request.status
+      AND t.to_status = p_to_status
+      AND t.actor = v_actor;
+
+    IF v_requires_remarks AND v_remarks IS NULL THEN
+      RAISE EXCEPTION 'remarks are required to move % to %', v_request.ticket_number, p_to_status;
+    END IF;
+
+    -- Transition-specific guards
+    IF v_actor = 'respective_supervisor' AND p_to_status = 'rejected' AND length(v_remarks) < 10 THEN
+      RAISE EXCEPTION 'denial remarks must be at least 10 characters';
+    END IF;
+
+    IF v_actor = 'supervisor'
+       AND p_to_status = 'pending_respective_supervisor_confirmation'
+       AND v_request.respective_supervisor_id IS NULL THEN
+      RAISE EXCEPTION '% has no respective supervisor assigned', v_request.ticket_number;
+    END IF;
+
+    IF v_actor = 'hr' AND p_to_status IN ('pending_verification', 'pending_respective_supervisor_confirmation') THEN
+      IF (v_request.respective_supervisor_id IS NOT NULL) <> (p_to_status = 'pending_respective_supervisor_confirmation') THEN
+        RAISE EXCEPTION '% must be reset to the start of its own route', v_request.ticket_number;
+      END IF;
+    END IF;
+
+    IF v_actor = 'hr' AND p_to_status = 'hr_certified' AND v_request.status = 'hr_certified'
+       AND v_request.management_remarks IS NULL THEN
+      RAISE EXCEPTION '% has not been sent back by management', v_request.ticket_number;
+    END IF;
+
+    IF v_actor = 'management' AND v_request.status = 'hr_certified' AND v_request.management_remarks IS NOT NULL THEN
+      RAISE EXCEPTION '% is awaiting HR recertification', v_request.ticket_number;
+    END IF;
+
+    -- Apply the transition together with the stage fields it owns
+    IF v_actor = 'supervisor' THEN
+      UPDATE public.ot_requests r SET
+        status = p_to_status,
+        supervisor_remarks = COALESCE(v_remarks, r.supervisor_remarks),
+        supervisor_verified_at = CASE
+          WHEN p_to_status IN ('supervisor_confirmed', 'supervisor_verified', 'rejected') THEN v_now
+          ELSE r.supervisor_verified_at END,
+        supervisor_confirmation_at = CASE
+          WHEN p_to_status IN ('supervisor_confirmed', 'supervisor_verified') THEN v_now
+          ELSE r.supervisor_confirmation_at END,
+        rejection_stage = CASE
+          WHEN p_to_status = 'rejected' THEN COALESCE(p_rejection_stage, 'supervisor')
+          ELSE r.rejection_stage END
+      WHERE r.id = v_request.id;
+
+    ELSIF v_actor = 'respective_supervisor' THEN
+      IF p_to_status = 'rejected' THEN
+        UPDATE public.ot_requests r SET
+          status = p_to_status,
+          respective_supervisor_denied_at = v_now,
+          respective_supervisor_denial_remarks = v_remarks,
+          rejection_stage = COALESCE(p_rejection_stage, 'respective_supervisor_verification')
+        WHERE r.id = v_request.id;
+      ELSE
+        UPDATE public.ot_requests r SET
+          status = p_to_status,
+          respective_supervisor_confirmed_at = v_now,
+          respective_supervisor_remarks = v_remarks
+        WHERE r.id = v_request.id;
+      END IF;
+
+    ELSIF v_actor = 'hr' THEN
+      UPDATE public.ot_requests r SET
+        status = p_to_status,
+        hr_id = v_user_id,
+        hr_remarks = v_remarks,
+        hr_approved_at = CASE
+          WHEN p_to_status = 'hr_certified' THEN v_now
+          -- Sent back for amendment: the request must be certified again
+          WHEN p_to_status IN ('pending_verification', 'pending_respective_supervisor_confirmation') THEN NULL
+          ELSE r.hr_approved_at END,
+        -- Recertification clears the send-back so the request returns to management's queue
+        management_remarks = CASE
+          WHEN v_request.status = 'hr_certified' AND p_to_status = 'hr_certified' THEN NULL
+          ELSE r.management_remarks END,
+        management_reviewed_at = CASE
+          WHEN v_request.status = 'hr_certified' AND p_to_status = 'hr_certified' THEN NULL
+          ELSE r.management_reviewed_at END,
+        rejection_stage = CASE
+          WHEN p_to_status = 'rejected' THEN COALESCE(p_rejection_stage, 'hr')
+          ELSE r.rejection_stage END
+      WHERE r.id = v_request.id;
+
+    ELSE
+      UPDATE public.ot_requests r SET
+        status = p_to_status,
+        management_remarks = v_remarks,
+        management_reviewed_at = v_now
+      WHERE r.id = v_request.id;
+    END IF;
+
+    request_id := v_request.id;
+    from_status := v_request.status;
+    to_status := p_to_status;
+    actor := v_actor;
+    RETURN NEXT;
+  END LOOP;
+
+  IF v_found <> cardinality(p_request_ids) THEN
+    RAISE EXCEPTION 'one or more OT requests were not found';
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.transition_ot_request(uuid[], ot_status, text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.transition_ot_request(uuid[], ot_status, text, text) TO authenticated;
+
+-- 4) Guard: status only changes through the engine (service role excepted)
+CREATE OR REPLACE FUNCTION public.enforce_ot_status_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(auth.role(), '') = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status NOT IN ('pending_verification', 'pending_respective_supervisor_confirmation') THEN
+      RAISE EXCEPTION 'OT requests must be created in a pending status (got %)', NEW.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+     AND COALESCE(current_setting('otms.transition_engine', true), '') <> 'on' THEN
+    RAISE EXCEPTION 'status of % cannot be changed directly; use transition_ot_request', OLD.ticket_number
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_enforce_ot_status_transition ON public.ot_requests;
+CREATE TRIGGER trg_enforce_ot_status_transition
+  BEFORE INSERT OR UPDATE ON public.ot_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_ot_status_transition();
@@ -0,0 +1,193 @@
+-- Append-only OT request event log
+--
+-- ot_requests only keeps the latest value per stage (remarks, timestamps), so a
+-- request that bounces between HR and management loses its history. Every
+-- submission, status transition and employee edit is now recorded here with
+-- the actor, their workflow role and a field-level diff.
+
+CREATE TABLE IF NOT EXISTS public.ot_request_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_id uuid NOT NULL REFERENCES public.ot_requests(id) ON DELETE CASCADE,
+  event_type text NOT NULL CHECK (event_type IN ('submitted', 'status_changed', 'updated')),
+  actor_id uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  actor_role text NOT NULL CHECK (actor_role IN (
+    'employee',
+    'supervisor',
+    'respective_supervisor',
+    'hr',
+    'management',
+    'system'
+  )),
+  from_status ot_status,
+  to_status ot_status,
+  remarks text,
+  -- { "<column>": { "old": <value>, "new": <value> } }
+  changes jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ot_request_events_request
+  ON public.ot_request_events (request_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_ot_request_events_actor
+  ON public.ot_request_events (actor_id, created_at DESC);
+
+-- Append-only: rows are never edited, and only removed with their request
+CREATE OR REPLACE FUNCTION public.prevent_ot_request_event_mutation()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' AND COALESCE(auth.role(), '') = 'service_role' THEN
+    RETURN OLD;
+  END IF;
+
+  RAISE EXCEPTION 'ot_request_events is append-only';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_prevent_ot_request_event_mutation ON public.ot_request_events;
+CREATE TRIGGER trg_prevent_ot_request_event_mutation
+  BEFORE UPDATE OR DELETE ON public.ot_request_events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_ot_request_event_mutation();
+
+-- RLS: readable by whoever can see the request; written only by the trigger below
+ALTER TABLE public.ot_request_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "ot_request_events_read_participants" ON public.ot_request_events;
+CREATE POLICY "ot_request_events_read_participants"
+  ON public.ot_request_events
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.ot_requests r
+      WHERE r.id = ot_request_events.request_id
+        AND (
+          r.employee_id = auth.uid()
+          OR r.supervisor_id = auth.uid()
+          OR r.respective_supervisor_id = auth.uid()
+        )
+    )
+  );
+
+DROP POLICY IF EXISTS "ot_request_events_read_hr_management" ON public.ot_request_events;
+CREATE POLICY "ot_request_events_read_hr_management"
+  ON public.ot_request_events
+  FOR SELECT
+  TO authenticated
+  USING (
+    has_role(auth.uid(), 'hr'::app_role)
+    OR has_role(auth.uid(), 'admin'::app_role)
+    OR has_role(auth.uid(), 'management'::app_role)
+  );
+
+-- Field diff between two versions of a request (updated_at excluded)
+CREATE OR REPLACE FUNCTION public.ot_request_field_diff(
+  p_old public.ot_requests,
+  p_new public.ot_requests
+)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(
+    jsonb_object_agg(n.key, jsonb_build_object('old', o.value, 'new', n.value)),
+    '{}'::jsonb
+  )
+  FROM jsonb_each(to_jsonb(p_new)) n
+  JOIN jsonb_each(to_jsonb(p_old)) o ON o.key = n.key
+  WHERE n.key <> 'updated_at'
+    AND n.value IS DISTINCT FROM o.value;
+$$;
+
+CREATE OR REPLACE FUNCTION public.log_ot_request_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor_id uuid := auth.uid();
+  v_actor_role text;
+  v_changes jsonb;
+  v_remarks text;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.ot_request_events (
+      request_id, event_type, actor_id, actor_role, to_status, changes
+    )
+    VALUES (
+      NEW.id, 'submitted', NEW.employee_id, 'employee', NEW.status, '{}'::jsonb
+    );
+    RETURN NEW;
+  END IF;
+
+  -- Only record workflow-relevant updates; amount recalculations on sibling
+  -- sessions (recalculate_daily_ot_amounts) would otherwise flood the log
+  IF NEW.status IS NOT DISTINCT FROM OLD.status
+     AND (NEW.ot_date, NEW.start_time, NEW.end_time, NEW.total_hours, NEW.day_type,
+          NEW.reason, NEW.attachment_urls, NEW.ot_location_state, NEW.respective_supervisor_id)
+         IS NOT DISTINCT FROM
+         (OLD.ot_date, OLD.start_time, OLD.end_time, OLD.total_hours, OLD.day_type,
+          OLD.reason, OLD.attachment_urls, OLD.ot_location_state, OLD.respective_supervisor_id) THEN
+    RETURN NEW;
+  END IF;
+
+  v_changes := public.ot_request_field_diff(OLD, NEW);
+
+  IF v_actor_id IS NULL THEN
+    v_actor_role := 'system';
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    v_actor_role := COALESCE(public.resolve_ot_transition_actor(OLD, v_actor_id, NEW.status), 'system');
+  ELSIF v_actor_id = NEW.employee_id THEN
+    v_actor_role := 'employee';
+  ELSIF has_role(v_actor_id, 'hr'::app_role) OR has_role(v_actor_id, 'admin'::app_role) THEN
+    v_actor_role := 'hr';
+  ELSE
+    v_actor_role := 'system';
+  END IF;
+
+  -- The remarks written by this change, whichever stage column holds them
+  v_remarks := COALESCE(
+    v_changes -> 'respective_supervisor_denial_remarks' ->> 'new',
+    v_changes -> 'respective_supervisor_remarks' ->> 'new',
+    v_changes -> 'supervisor_remarks' ->> 'new',
+    v_changes -> 'supervisor_confirmation_remarks' ->> 'new',
+    v_changes -> 'hr_remarks' ->> 'new',
+    v_changes -> 'management_remarks' ->> 'new'
+  );
+
+  INSERT INTO public.ot_request_events (
+    request_id, event_type, actor_id, actor_role, from_status, to_status, remarks, changes
+  )
+  VALUES (
+    NEW.id,
+    CASE WHEN NEW.status IS DISTINCT FROM OLD.status THEN 'status_changed' ELSE 'updated' END,
+    v_actor_id,
+    v_actor_role,
+    OLD.status,
+    NEW.status,
+    v_remarks,
+    v_changes
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_log_ot_request_event ON public.ot_requests;
+CREATE TRIGGER trg_log_ot_request_event
+  AFTER INSERT OR UPDATE ON public.ot_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_ot_request_event();
+
+-- Backfill a submission event for existing requests so timelines start somewhere
+INSERT INTO public.ot_request_events (request_id, event_type, actor_id, actor_role, to_status, created_at)
+SELECT r.id, 'submitted', r.employee_id, 'employee', NULL, r.created_at
+FROM public.ot_requests r
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.ot_request_events e WHERE e.request_id = r.id
+);
@@ -0,0 +1,3 @@
+-- Department head approval step for configurable approval chains
+-- (kept separate: a new enum value cannot be used in the transaction that adds it)
+ALTER TYPE ot_status ADD VALUE IF NOT EXISTS 'department_head_approved';
@@ -0,0 +1,629 @@
+-- Configurable approval chains
+--
+-- The supervisor stage (Route A / Route B) is unchanged. What follows it is now
+-- defined per company/department in approval_chains:
+--   department_head → hr → management
+-- Each step carries an optional condition (hours, ot_amount, day_type,
+-- department) and a skip rule. HR certification is always required.
+--
+-- The steps a request must pass are resolved into ot_requests.approval_steps
+-- while the request is still at the supervisor stage, so edits to a chain do not
+-- reroute requests that have already moved on. The workflow engine
+-- (transition_ot_request) enforces the snapshot:
+--   - department heads act only when 'department_head' is in approval_steps,
+--     and HR cannot certify until they have
+--   - when 'management' is not in approval_steps, HR certification completes
+--     the request (management_approved)
+--
+-- Requests without a matching chain keep the original hr → management flow.
+
+-- 1) Department heads
+ALTER TABLE public.departments
+  ADD COLUMN IF NOT EXISTS head_id uuid REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_departments_head_id ON public.departments(head_id);
+
+COMMENT ON COLUMN public.departments.head_id IS 'Department head; approves OT when the approval chain has a department_head step';
+
+-- 2) Per-request chain snapshot and department head stage fields
+ALTER TABLE public.ot_requests
+  ADD COLUMN IF NOT EXISTS approval_steps text[] NOT NULL DEFAULT ARRAY['hr', 'management'],
+  ADD COLUMN IF NOT EXISTS department_head_id uuid REFERENCES public.profiles(id),
+  ADD COLUMN IF NOT EXISTS department_head_remarks text,
+  ADD COLUMN IF NOT EXISTS department_head_approved_at timestamptz;
+
+COMMENT ON COLUMN public.ot_requests.approval_steps IS 'Approval steps after the supervisor stage, resolved from approval_chains';
+
+-- 3) Chain definitions
+CREATE TABLE IF NOT EXISTS public.approval_chains (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  -- NULL company/department = applies to all; the most specific active chain wins
+  company_id uuid REFERENCES public.companies(id) ON DELETE CASCADE,
+  department_id uuid REFERENCES public.departments(id) ON DELETE CASCADE,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- One active chain per scope
+CREATE UNIQUE INDEX IF NOT EXISTS idx_approval_chains_active_scope
+  ON public.approval_chains (
+    COALESCE(company_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    COALESCE(department_id, '00000000-0000-0000-0000-000000000000'::uuid)
+  )
+  WHERE is_active;
+
+CREATE TABLE IF NOT EXISTS public.approval_chain_steps (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  chain_id uuid NOT NULL REFERENCES public.approval_chains(id) ON DELETE CASCADE,
+  role text NOT NULL CHECK (role IN ('department_head', 'hr', 'management')),
+  -- { "min_hours", "max_hours", "min_amount", "max_amount": number,
+  --   "day_types": day_type[], "department_ids": uuid[] } — all optional, ANDed
+  condition jsonb NOT NULL DEFAULT '{}'::jsonb,
+  skip_rule text NOT NULL DEFAULT 'never'
+    CHECK (skip_rule IN ('never', 'when_condition_met', 'when_condition_not_met')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+
+  -- Steps run in the fixed order department_head → hr → management
+  CONSTRAINT approval_chain_steps_unique_role UNIQUE (chain_id, role),
+  CONSTRAINT approval_chain_steps_hr_required CHECK (role <> 'hr' OR skip_rule = 'never')
+);
+
+CREATE INDEX IF NOT EXISTS idx_approval_chain_steps_chain ON public.approval_chain_steps(chain_id);
+
+DROP TRIGGER IF EXISTS update_approval_chains_updated_at ON public.approval_chains;
+CREATE TRIGGER update_approval_chains_updated_at
+  BEFORE UPDATE ON public.approval_chains
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.approval_chains ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.approval_chain_steps ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "approval_chains_read_all" ON public.approval_chains;
+CREATE POLICY "approval_chains_read_all"
+  ON public.approval_chains
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "approval_chains_manage_hr" ON public.approval_chains;
+CREATE POLICY "approval_chains_manage_hr"
+  ON public.approval_chains
+  FOR ALL
+  TO authenticated
+  USING (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role));
+
+DROP POLICY IF EXISTS "approval_chain_steps_read_all" ON public.approval_chain_steps;
+CREATE POLICY "approval_chain_steps_read_all"
+  ON public.approval_chain_steps
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "approval_chain_steps_manage_hr" ON public.approval_chain_steps;
+CREATE POLICY "approval_chain_steps_manage_hr"
+  ON public.approval_chain_steps
+  FOR ALL
+  TO authenticated
+  USING (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role));
+
+-- 4) Chain resolution (mirrored client-side by resolveApprovalSteps in src/lib/approvalChain.ts)
+CREATE OR REPLACE FUNCTION public.ot_approval_condition_matches(
+  p_condition jsonb,
+  p_request public.ot_requests,
+  p_department_id uuid
+)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT
+    (p_condition ->> 'min_hours' IS NULL OR p_request.total_hours >= (p_condition ->> 'min_hours')::numeric)
+    AND (p_condition ->> 'max_hours' IS NULL OR p_request.total_hours <= (p_condition ->> 'max_hours')::numeric)
+    AND (p_condition ->> 'min_amount' IS NULL OR COALESCE(p_request.ot_amount, 0) >= (p_condition ->> 'min_amount')::numeric)
+    AND (p_condition ->> 'max_amount' IS NULL OR COALESCE(p_request.ot_amount, 0) <= (p_condition ->> 'max_amount')::numeric)
+    AND (
+      COALESCE(jsonb_array_length(p_condition -> 'day_types'), 0) = 0
+      OR COALESCE(p_condition -> 'day_types' ? p_request.day_type::text, false)
+    )
+    AND (
+      COALESCE(jsonb_array_length(p_condition -> 'department_ids'), 0) = 0
+      OR COALESCE(p_condition -> 'department_ids' ? p_department_id::text, false)
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION public.resolve_ot_approval_steps(p_request public.ot_requests)
+RETURNS text[]
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_company_id uuid;
+  v_department_id uuid;
+  v_chain_id uuid;
+  v_steps text[];
+BEGIN
+  SELECT p.company_id, p.department_id
+  INTO v_company_id, v_department_id
+  FROM public.profiles p
+  WHERE p.id = p_request.employee_id;
+
+  SELECT c.id INTO v_chain_id
+  FROM public.approval_chains c
+  WHERE c.is_active
+    AND (c.company_id IS NULL OR c.company_id = v_company_id)
+    AND (c.department_id IS NULL OR c.department_id = v_department_id)
+  ORDER BY (c.department_id IS NOT NULL) DESC, (c.company_id IS NOT NULL) DESC, c.created_at
+  LIMIT 1;
+
+  IF v_chain_id IS NULL THEN
+    RETURN ARRAY['hr', 'management'];
+  END IF;
+
+  SELECT COALESCE(array_agg(s.role ORDER BY array_position(ARRAY['department_head', 'hr', 'management'], s.role)), '{}')
+  INTO v_steps
+  FROM public.approval_chain_steps s
+  WHERE s.chain_id = v_chain_id
+    AND CASE s.skip_rule
+      WHEN 'when_condition_met' THEN NOT public.ot_approval_condition_matches(s.condition, p_request, v_department_id)
+      WHEN 'when_condition_not_met' THEN public.ot_approval_condition_matches(s.condition, p_request, v_department_id)
+      ELSE true
+    END;
+
+  -- HR certification is never skipped, even if the step was removed from the chain
+  IF NOT ('hr' = ANY(v_steps)) THEN
+    v_steps := array_remove(v_steps, 'management') || 'hr'::text
+      || CASE WHEN 'management' = ANY(v_steps) THEN ARRAY['management'] ELSE '{}'::text[] END;
+  END IF;
+
+  RETURN v_steps;
+END;
+$$;
+
+-- Keep the snapshot current while the request is at the supervisor stage
+CREATE OR REPLACE FUNCTION public.set_ot_approval_steps()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status NOT IN (
+    'pending_verification',
+    'pending_respective_supervisor_confirmation',
+    'pending_supervisor_verification',
+    'respective_supervisor_confirmed',
+    'supervisor_confirmed',
+    'supervisor_verified'
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT'
+     OR (NEW.status, NEW.total_hours, NEW.ot_amount, NEW.day_type, NEW.ot_date)
+        IS DISTINCT FROM
+        (OLD.status, OLD.total_hours, OLD.ot_amount, OLD.day_type, OLD.ot_date) THEN
+    NEW.approval_steps := public.resolve_ot_approval_steps(NEW);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Named to fire after calculate_ot_amount_trigger so ot_amount conditions see the new amount
+DROP TRIGGER IF EXISTS trg_set_ot_approval_steps ON public.ot_requests;
+CREATE TRIGGER trg_set_ot_approval_steps
+  BEFORE INSERT OR UPDATE ON public.ot_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_ot_approval_steps();
+
+-- 5) Transition table: department head step
+ALTER TABLE public.ot_status_transitions
+  DROP CONSTRAINT IF EXISTS ot_status_transitions_actor_check;
+ALTER TABLE public.ot_status_transitions
+  ADD CONSTRAINT ot_status_transitions_actor_check
+  CHECK (actor IN ('supervisor', 'respective_supervisor', 'department_head', 'hr', 'management'));
+
+INSERT INTO public.ot_status_transitions (from_status, to_status, actor, requires_remarks)
+VALUES
+  ('supervisor_confirmed', 'department_head_approved', 'department_head', false),
+  ('supervisor_verified', 'department_head_approved', 'department_head', false),
+  ('respective_supervisor_confirmed', 'department_head_approved', 'department_head', false),
+  ('supervisor_confirmed', 'rejected', 'department_head', true),
+  ('supervisor_verified', 'rejected', 'department_head', true),
+  ('respective_supervisor_confirmed', 'rejected', 'department_head', true),
+  ('department_head_approved', 'hr_certified', 'hr', false),
+  ('department_head_approved', 'rejected', 'hr', true)
+ON CONFLICT (from_status, to_status, actor) DO NOTHING;
+
+ALTER TABLE public.ot_request_events
+  DROP CONSTRAINT IF EXISTS ot_request_events_actor_role_check;
+ALTER TABLE public.ot_request_events
+  ADD CONSTRAINT ot_request_events_actor_role_check
+  CHECK (actor_role IN ('employee', 'supervisor', 'respective_supervisor', 'department_head', 'hr', 'management', 'system'));
+
+-- 6) Actor resolution now follows the request's chain
+CREATE OR REPLACE FUNCTION public.resolve_ot_transition_actor(
+  p_request public.ot_requests,
+  p_user_id uuid,
+  p_to_status ot_status
+)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT t.actor
+  FROM public.ot_status_transitions t
+  WHERE t.from_status = p_request.status
+    AND t.to_status = p_to_status
+    -- Nobody acts on their own OT
+    AND p_request.employee_id <> p_user_id
+    AND (
+      (t.actor = 'supervisor' AND p_request.supervisor_id = p_user_id)
+      OR (t.actor = 'respective_supervisor' AND p_request.respective_supervisor_id = p_user_id)
+      OR (
+        t.actor = 'department_head'
+        AND 'department_head' = ANY(p_request.approval_steps)
+        AND EXISTS (
+          SELECT 1
+          FROM public.profiles p
+          JOIN public.departments d ON d.id = p.department_id
+          WHERE p.id = p_request.employee_id
+            AND d.head_id = p_user_id
+        )
+      )
+      OR (
+        t.actor = 'hr'
+        AND (has_role(p_user_id, 'hr'::app_role) OR has_role(p_user_id, 'admin'::app_role))
+        -- HR waits for the department head when the chain has that step
+        AND NOT (
+          'department_head' = ANY(p_request.approval_steps)
+          AND t.from_status IN ('supervisor_confirmed', 'supervisor_verified', 'respective_supervisor_confirmed')
+        )
+      )
+      OR (t.actor = 'management' AND has_role(p_user_id, 'management'::app_role))
+    )
+  ORDER BY CASE t.actor
+    WHEN 'respective_supervisor' THEN 1
+    WHEN 'supervisor' THEN 2
+    WHEN 'department_head' THEN 3
+    WHEN 'hr' THEN 4
+    ELSE 5
+  END
+  LIMIT 1;
+$$;
+
+-- 7) Transition engine: department head stage and management skip
+CREATE OR REPLACE FUNCTION public.transition_ot_request(
+  p_request_ids uuid[],
+  p_to_status ot_status,
+  p_remarks text DEFAULT NULL,
+  p_rejection_stage text DEFAULT NULL
+)
+RETURNS TABLE (
+  request_id uuid,
+  from_status ot_status,
+  to_status ot_status,
+  actor text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_remarks text := NULLIF(btrim(p_remarks), '');
+  v_now timestamptz := now();
+  v_request public.ot_requests;
+  v_actor text;
+  v_requires_remarks boolean;
+  v_final_status ot_status;
+  v_found int := 0;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'not authenticated';
+  END IF;
+
+  IF p_request_ids IS NULL OR cardinality(p_request_ids) = 0 THEN
+    RAISE EXCEPTION 'no OT requests supplied';
+  END IF;
+
+  IF v_remarks IS NOT NULL AND length(v_remarks) > 500 THEN
+    RAISE EXCEPTION 'remarks cannot exceed 500 characters';
+  END IF;
+
+  -- Allows the status change through enforce_ot_status_transition for this transaction
+  PERFORM set_config('otms.transition_engine', 'on', true);
+
+  FOR v_request IN
+    SELECT *
+    FROM public.ot_requests r
+    WHERE r.id = ANY(p_request_ids)
+    ORDER BY r.ot_date, r.start_time
+    FOR UPDATE
+  LOOP
+    v_found := v_found + 1;
+    v_actor := public.resolve_ot_transition_actor(v_request, v_user_id, p_to_status);
+
+    IF v_actor IS NULL THEN
+      RAISE EXCEPTION 'transition of % from % to % is not allowed for this user',
+        v_request.ticket_number, v_request.status, p_to_status
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    SELECT t.requires_remarks INTO v_requires_remarks
+    FROM public.ot_status_transitions t
+    WHERE t.from_status = v_request.status
+      AND t.to_status = p_to_status
+      AND t.actor = v_actor;
+
+    IF v_requires_remarks AND v_remarks IS NULL THEN
+      RAISE EXCEPTION 'remarks are required to move % to %', v_request.ticket_number, p_to_status;
+    END IF;
+
+    -- Transition-specific guards
+    IF v_actor = 'respective_supervisor' AND p_to_status = 'rejected' AND length(v_remarks) < 10 THEN
+      RAISE EXCEPTION 'denial remarks must be at least 10 characters';
+    END IF;
+
+    IF v_actor = 'supervisor'
+       AND p_to_status = 'pending_respective_supervisor_confirmation'
+       AND v_request.respective_supervisor_id IS NULL THEN
+      RAISE EXCEPTION '% has no respective supervisor assigned', v_request.ticket_number;
+    END IF;
+
+    IF v_actor = 'hr' AND p_to_status IN ('pending_verification', 'pending_respective_supervisor_confirmation') THEN
+      IF (v_request.respective_supervisor_id IS NOT NULL) <> (p_to_status = 'pending_respective_supervisor_confirmation') THEN
+        RAISE EXCEPTION '% must be reset to the start of its own route', v_request.ticket_number;
+      END IF;
+    END IF;
+
+    IF v_actor = 'hr' AND p_to_status = 'hr_certified' AND v_request.status = 'hr_certified'
+       AND v_request.management_remarks IS NULL THEN
+      RAISE EXCEPTION '% has not been sent back by management', v_request.ticket_number;
+    END IF;
+
+    IF v_actor = 'management' AND v_request.status = 'hr_certified' AND v_request.management_remarks IS NOT NULL THEN
+      RAISE EXCEPTION '% is awaiting HR recertification', v_request.ticket_number;
+    END IF;
+
+    -- Tells log_ot_request_event which role made the change
+    PERFORM set_config('otms.transition_actor', v_actor, true);
+
+    -- Apply the transition together with the stage fields it owns
+    IF v_actor = 'supervisor' THEN
+      UPDATE public.ot_requests r SET
+        status = p_to_status,
+        supervisor_remarks = COALESCE(v_remarks, r.supervisor_remarks),
+        supervisor_verified_at = CASE
+          WHEN p_to_status IN ('supervisor_confirmed', 'supervisor_verified', 'rejected') THEN v_now
+          ELSE r.supervisor_verified_at END,
+        supervisor_confirmation_at = CASE
+          WHEN p_to_status IN ('supervisor_confirmed', 'supervisor_verified') THEN v_now
+          ELSE r.supervisor_confirmation_at END,
+        rejection_stage = CASE
+          WHEN p_to_status = 'rejected' THEN COALESCE(p_rejection_stage, 'supervisor')
+          ELSE r.rejection_stage END
+      WHERE r.id = v_request.id;
+
+    ELSIF v_actor = 'respective_supervisor' THEN
+      IF p_to_status = 'rejected' THEN
+        UPDATE public.ot_requests r SET
+          status = p_to_status,
+          respective_supervisor_denied_at = v_now,
+          respective_supervisor_denial_remarks = v_remarks,
+          rejection_stage = COALESCE(p_rejection_stage, 'respective_supervisor_verification')
+        WHERE r.id = v_request.id;
+      ELSE
+        UPDATE public.ot_requests r SET
+          status = p_to_status,
+          respective_supervisor_confirmed_at = v_now,
+          respective_supervisor_remarks = v_remarks
+        WHERE r.id = v_request.id;
+      END IF;
+
+    ELSIF v_actor = 'department_head' THEN
+      UPDATE public.ot_requests r SET
+        status = p_to_status,
+        department_head_id = v_user_id,
+        department_head_remarks = v_remarks,
+        department_head_approved_at = CASE
+          WHEN p_to_status = 'department_head_approved' THEN v_now
+          ELSE r.department_head_approved_at END,
+        rejection_stage = CASE
+          WHEN p_to_status = 'rejected' THEN COALESCE(p_rejection_stage, 'department_head')
+          ELSE r.rejection_stage END
+      WHERE r.id = v_request.id;
+
+    ELSIF v_actor = 'hr' THEN
+      UPDATE public.ot_requests r SET
+        status = p_to_status,
+        hr_id = v_user_id,
+        hr_remarks = v_remarks,
+        hr_approved_at = CASE
+          WHEN p_to_status = 'hr_certified' THEN v_now
+          -- Sent back for amendment: the request must be certified again
+          WHEN p_to_status IN ('pending_verification', 'pending_respective_supervisor_confirmation') THEN NULL
+          ELSE r.hr_approved_at END,
+        -- Recertification clears the send-back so the request returns to management's queue
+        management_remarks = CASE
+          WHEN v_request.status = 'hr_certified' AND p_to_status = 'hr_certified' THEN NULL
+          ELSE r.management_remarks END,
+        management_reviewed_at = CASE
+          WHEN v_request.status = 'hr_certified' AND p_to_status = 'hr_certified' THEN NULL
+          ELSE r.management_reviewed_at END,
+        rejection_stage = CASE
+          WHEN p_to_status = 'rejected' THEN COALESCE(p_rejection_stage, 'hr')
+          ELSE r.rejection_stage END
+      WHERE r.id = v_request.id;
+
+    ELSE
+      UPDATE public.ot_requests r SET
+        status = p_to_status,
+        management_remarks = v_remarks,
+        management_reviewed_at = v_now
+      WHERE r.id = v_request.id;
+    END IF;
+
+    v_final_status := p_to_status;
+
+    -- Chains without a management step end at HR certification
+    IF v_actor = 'hr' AND p_to_status = 'hr_certified'
+       AND NOT ('management' = ANY(v_request.approval_steps)) THEN
+      PERFORM set_config('otms.transition_actor', 'system', true);
+
+      UPDATE public.ot_requests r SET
+        status = 'management_approved'
+      WHERE r.id = v_request.id;
+
+      v_final_status := 'management_approved';
+    END IF;
+
+    request_id := v_request.id;
+    from_status := v_request.status;
+    to_status := v_final_status;
+    actor := v_actor;
+    RETURN NEXT;
+  END LOOP;
+
+  IF v_found <> cardinality(p_request_ids) THEN
+    RAISE EXCEPTION 'one or more OT requests were not found';
+  END IF;
+END;
+$$;
+
+-- 8) Event log: take the actor from the engine, include department head remarks
+CREATE OR REPLACE FUNCTION public.log_ot_request_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor_id uuid := auth.uid();
+  v_actor_role text;
+  v_engine_actor text := NULLIF(current_setting('otms.transition_actor', true), '');
+  v_changes jsonb;
+  v_remarks text;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.ot_request_events (
+      request_id, event_type, actor_id, actor_role, to_status, changes
+    )
+    VALUES (
+      NEW.id, 'submitted', NEW.employee_id, 'employee', NEW.status, '{}'::jsonb
+    );
+    RETURN NEW;
+  END IF;
+
+  -- Only record workflow-relevant updates; amount recalculations on sibling
+  -- sessions (recalculate_daily_ot_amounts) would otherwise flood the log
+  IF NEW.status IS NOT DISTINCT FROM OLD.status
+     AND (NEW.ot_date, NEW.start_time, NEW.end_time, NEW.total_hours, NEW.day_type,
+          NEW.reason, NEW.attachment_urls, NEW.ot_location_state, NEW.respective_supervisor_id)
+         IS NOT DISTINCT FROM
+         (OLD.ot_date, OLD.start_time, OLD.end_time, OLD.total_hours, OLD.day_type,
+          OLD.reason, OLD.attachment_urls, OLD.ot_location_state, OLD.respective_supervisor_id) THEN
+    RETURN NEW;
+  END IF;
+
+  v_changes := public.ot_request_field_diff(OLD, NEW);
+
+  IF v_actor_id IS NULL THEN
+    v_actor_role := 'system';
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    v_actor_role := COALESCE(
+      v_engine_actor,
+      public.resolve_ot_transition_actor(OLD, v_actor_id, NEW.status),
+      'system'
+    );
+  ELSIF v_actor_id = NEW.employee_id THEN
+    v_actor_role := 'employee';
+  ELSIF has_role(v_actor_id, 'hr'::app_role) OR has_role(v_actor_id, 'admin'::app_role) THEN
+    v_actor_role := 'hr';
+  ELSE
+    v_actor_role := 'system';
+  END IF;
+
+  IF v_actor_role = 'system' THEN
+    v_actor_id := NULL;
+  END IF;
+
+  -- The remarks written by this change, whichever stage column holds them
+  v_remarks := COALESCE(
+    v_changes -> 'respective_supervisor_denial_remarks' ->> 'new',
+    v_changes -> 'respective_supervisor_remarks' ->> 'new',
+    v_changes -> 'supervisor_remarks' ->> 'new',
+    v_changes -> 'supervisor_confirmation_remarks' ->> 'new',
+    v_changes -> 'department_head_remarks' ->> 'new',
+    v_changes -> 'hr_remarks' ->> 'new',
+    v_changes -> 'management_remarks' ->> 'new'
+  );
+
+  INSERT INTO public.ot_request_events (
+    request_id, event_type, actor_id, actor_role, from_status, to_status, remarks, changes
+  )
+  VALUES (
+    NEW.id,
+    CASE WHEN NEW.status IS DISTINCT FROM OLD.status THEN 'status_changed' ELSE 'updated' END,
+    v_actor_id,
+    v_actor_role,
+    OLD.status,
+    NEW.status,
+    v_remarks,
+    v_changes
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+-- 9) Department heads can see their department's requests and employees
+DROP POLICY IF EXISTS otr_department_head_read ON public.ot_requests;
+CREATE POLICY otr_department_head_read ON public.ot_requests
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.profiles p
+      JOIN public.departments d ON d.id = p.department_id
+      WHERE p.id = ot_requests.employee_id
+        AND d.head_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS prof_department_head_read ON public.profiles;
+CREATE POLICY prof_department_head_read ON public.profiles
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.departments d
+      WHERE d.id = profiles.department_id
+        AND d.head_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "ot_request_events_read_department_head" ON public.ot_request_events;
+CREATE POLICY "ot_request_events_read_department_head"
+  ON public.ot_request_events
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.ot_requests r
+      JOIN public.profiles p ON p.id = r.employee_id
+      JOIN public.departments d ON d.id = p.department_id
+      WHERE r.id = ot_request_events.request_id
+        AND d.head_id = auth.uid()
+    )
+  );
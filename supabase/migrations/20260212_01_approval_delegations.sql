@@ -0,0 +1,424 @@
+-- Approval delegation and out-of-office substitutes
+--
+-- A supervisor, HR or management user can hand their approval duties for a role
+-- to a delegate for a date range. While the delegation is active the delegate
+-- sees and acts on the same requests through transition_ot_request, the event
+-- log records whose behalf they acted on, and approval notifications are
+-- routed to the delegate instead of the absent approver.
+
+CREATE TABLE IF NOT EXISTS public.approval_delegations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  delegator_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  delegate_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  role text NOT NULL CHECK (role IN ('supervisor', 'hr', 'management')),
+  starts_on date NOT NULL,
+  ends_on date NOT NULL,
+  reason text CHECK (reason IS NULL OR length(reason) <= 500),
+  revoked_at timestamptz,
+  created_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT approval_delegations_date_range CHECK (ends_on >= starts_on),
+  CONSTRAINT approval_delegations_not_self CHECK (delegator_id <> delegate_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_approval_delegations_delegate
+  ON public.approval_delegations (delegate_id, role, starts_on, ends_on)
+  WHERE revoked_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_approval_delegations_delegator
+  ON public.approval_delegations (delegator_id, role, starts_on, ends_on)
+  WHERE revoked_at IS NULL;
+
+DROP TRIGGER IF EXISTS update_approval_delegations_updated_at ON public.approval_delegations;
+CREATE TRIGGER update_approval_delegations_updated_at
+  BEFORE UPDATE ON public.approval_delegations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- One delegate per approver and role on any given day
+CREATE OR REPLACE FUNCTION public.validate_approval_delegation()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.revoked_at IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT has_role(NEW.delegator_id, NEW.role::app_role) THEN
+    RAISE EXCEPTION 'delegator does not hold the % role', NEW.role;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.approval_delegations d
+    WHERE d.delegator_id = NEW.delegator_id
+      AND d.role = NEW.role
+      AND d.id <> NEW.id
+      AND d.revoked_at IS NULL
+      AND daterange(d.starts_on, d.ends_on, '[]') && daterange(NEW.starts_on, NEW.ends_on, '[]')
+  ) THEN
+    RAISE EXCEPTION 'an overlapping % delegation already exists for these dates', NEW.role
+      USING ERRCODE = 'exclusion_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_validate_approval_delegation ON public.approval_delegations;
+CREATE TRIGGER trg_validate_approval_delegation
+  BEFORE INSERT OR UPDATE ON public.approval_delegations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_approval_delegation();
+
+-- Approvers whose duties for p_role p_delegate_id is covering today
+CREATE OR REPLACE FUNCTION public.active_delegator_ids(p_delegate_id uuid, p_role text)
+RETURNS uuid[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(array_agg(d.delegator_id ORDER BY d.starts_on, d.created_at), '{}'::uuid[])
+  FROM public.approval_delegations d
+  WHERE d.delegate_id = p_delegate_id
+    AND d.role = p_role
+    AND d.revoked_at IS NULL
+    AND CURRENT_DATE BETWEEN d.starts_on AND d.ends_on
+    AND has_role(d.delegator_id, p_role::app_role);
+$$;
+
+-- RLS: approvers manage their own delegations, HR/admin manage everyone's.
+-- Rows are revoked rather than deleted so the history stays visible.
+ALTER TABLE public.approval_delegations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "approval_delegations_read" ON public.approval_delegations;
+CREATE POLICY "approval_delegations_read"
+  ON public.approval_delegations
+  FOR SELECT
+  TO authenticated
+  USING (
+    delegator_id = auth.uid()
+    OR delegate_id = auth.uid()
+    OR has_role(auth.uid(), 'hr'::app_role)
+    OR has_role(auth.uid(), 'admin'::app_role)
+  );
+
+DROP POLICY IF EXISTS "approval_delegations_insert" ON public.approval_delegations;
+CREATE POLICY "approval_delegations_insert"
+  ON public.approval_delegations
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    delegator_id = auth.uid()
+    OR has_role(auth.uid(), 'hr'::app_role)
+    OR has_role(auth.uid(), 'admin'::app_role)
+  );
+
+DROP POLICY IF EXISTS "approval_delegations_update" ON public.approval_delegations;
+CREATE POLICY "approval_delegations_update"
+  ON public.approval_delegations
+  FOR UPDATE
+  TO authenticated
+  USING (
+    delegator_id = auth.uid()
+    OR has_role(auth.uid(), 'hr'::app_role)
+    OR has_role(auth.uid(), 'admin'::app_role)
+  )
+  WITH CHECK (
+    delegator_id = auth.uid()
+    OR has_role(auth.uid(), 'hr'::app_role)
+    OR has_role(auth.uid(), 'admin'::app_role)
+  );
+
+-- People an approver can pick as their delegate (profiles RLS hides most colleagues)
+CREATE OR REPLACE FUNCTION public.get_delegate_candidates()
+RETURNS TABLE (id uuid, full_name text, employee_id text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.id, p.full_name, p.employee_id
+  FROM public.profiles p
+  WHERE p.status = 'active'
+    AND p.deleted_at IS NULL
+    AND p.id <> auth.uid()
+  ORDER BY p.full_name;
+$$;
+
+-- Notification recipients with active delegations swapped for their delegates
+CREATE OR REPLACE FUNCTION public.resolve_approval_notification_recipients(
+  p_user_ids uuid[],
+  p_role text
+)
+RETURNS TABLE (recipient_id uuid, on_behalf_of uuid)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT DISTINCT ON (COALESCE(d.delegate_id, u.user_id))
+    COALESCE(d.delegate_id, u.user_id) AS recipient_id,
+    CASE WHEN d.delegate_id IS NOT NULL THEN u.user_id END AS on_behalf_of
+  FROM unnest(p_user_ids) AS u(user_id)
+  LEFT JOIN public.approval_delegations d
+    ON d.delegator_id = u.user_id
+   AND d.role = p_role
+   AND d.revoked_at IS NULL
+   AND CURRENT_DATE BETWEEN d.starts_on AND d.ends_on
+  WHERE u.user_id IS NOT NULL
+  -- Prefer notifying someone directly over as a delegate
+  ORDER BY COALESCE(d.delegate_id, u.user_id), (d.delegate_id IS NOT NULL);
+$$;
+
+REVOKE ALL ON FUNCTION public.resolve_approval_notification_recipients(uuid[], text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.resolve_approval_notification_recipients(uuid[], text) TO service_role;
+
+-- Event log: whose behalf a delegate acted on
+ALTER TABLE public.ot_request_events
+  ADD COLUMN IF NOT EXISTS on_behalf_of uuid REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+-- Transition actor: active delegates act with their delegator's workflow role
+CREATE OR REPLACE FUNCTION public.resolve_ot_transition_actor(
+  p_request public.ot_requests,
+  p_user_id uuid,
+  p_to_status ot_status
+)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT t.actor
+  FROM public.ot_status_transitions t
+  WHERE t.from_status = p_request.status
+    AND t.to_status = p_to_status
+    -- Nobody acts on their own OT
+    AND p_request.employee_id <> p_user_id
+    AND (
+      (
+        t.actor = 'supervisor'
+        AND (
+          p_request.supervisor_id = p_user_id
+          OR p_request.supervisor_id = ANY(public.active_delegator_ids(p_user_id, 'supervisor'))
+        )
+      )
+      OR (
+        t.actor = 'respective_supervisor'
+        AND (
+          p_request.respective_supervisor_id = p_user_id
+          OR p_request.respective_supervisor_id = ANY(public.active_delegator_ids(p_user_id, 'supervisor'))
+        )
+      )
+      OR (
+        t.actor = 'department_head'
+        AND 'department_head' = ANY(p_request.approval_steps)
+        AND EXISTS (
+          SELECT 1
+          FROM public.profiles p
+          JOIN public.departments d ON d.id = p.department_id
+          WHERE p.id = p_request.employee_id
+            AND d.head_id = p_user_id
+        )
+      )
+      OR (
+        t.actor = 'hr'
+        AND (
+          has_role(p_user_id, 'hr'::app_role)
+          OR has_role(p_user_id, 'admin'::app_role)
+          OR cardinality(public.active_delegator_ids(p_user_id, 'hr')) > 0
+        )
+        -- HR waits for the department head when the chain has that step
+        AND NOT (
+          'department_head' = ANY(p_request.approval_steps)
+          AND t.from_status IN ('supervisor_confirmed', 'supervisor_verified', 'respective_supervisor_confirmed')
+        )
+      )
+      OR (
+        t.actor = 'management'
+        AND (
+          has_role(p_user_id, 'management'::app_role)
+          OR cardinality(public.active_delegator_ids(p_user_id, 'management')) > 0
+        )
+      )
+    )
+  ORDER BY CASE t.actor
+    WHEN 'respective_supervisor' THEN 1
+    WHEN 'supervisor' THEN 2
+    WHEN 'department_head' THEN 3
+    WHEN 'hr' THEN 4
+    ELSE 5
+  END
+  LIMIT 1;
+$$;
+
+-- The approver a user stood in for when acting as p_actor, NULL when acting in their own right
+CREATE OR REPLACE FUNCTION public.ot_transition_on_behalf_of(
+  p_request public.ot_requests,
+  p_user_id uuid,
+  p_actor text
+)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE p_actor
+    WHEN 'supervisor' THEN NULLIF(p_request.supervisor_id, p_user_id)
+    WHEN 'respective_supervisor' THEN NULLIF(p_request.respective_supervisor_id, p_user_id)
+    WHEN 'hr' THEN CASE
+      WHEN has_role(p_user_id, 'hr'::app_role) OR has_role(p_user_id, 'admin'::app_role) THEN NULL
+      ELSE (public.active_delegator_ids(p_user_id, 'hr'))[1] END
+    WHEN 'management' THEN CASE
+      WHEN has_role(p_user_id, 'management'::app_role) THEN NULL
+      ELSE (public.active_delegator_ids(p_user_id, 'management'))[1] END
+    ELSE NULL
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.log_ot_request_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor_id uuid := auth.uid();
+  v_actor_role text;
+  v_engine_actor text := NULLIF(current_setting('otms.transition_actor', true), '');
+  v_on_behalf_of uuid;
+  v_changes jsonb;
+  v_remarks text;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.ot_request_events (
+      request_id, event_type, actor_id, actor_role, to_status, changes
+    )
+    VALUES (
+      NEW.id, 'submitted', NEW.employee_id, 'employee', NEW.status, '{}'::jsonb
+    );
+    RETURN NEW;
+  END IF;
+
+  -- Only record workflow-relevant updates; amount recalculations on sibling
+  -- sessions (recalculate_daily_ot_amounts) would otherwise flood the log
+  IF NEW.status IS NOT DISTINCT FROM OLD.status
+     AND (NEW.ot_date, NEW.start_time, NEW.end_time, NEW.total_hours, NEW.day_type,
+          NEW.reason, NEW.attachment_urls, NEW.ot_location_state, NEW.respective_supervisor_id)
+         IS NOT DISTINCT FROM
+         (OLD.ot_date, OLD.start_time, OLD.end_time, OLD.total_hours, OLD.day_type,
+          OLD.reason, OLD.attachment_urls, OLD.ot_location_state, OLD.respective_supervisor_id) THEN
+    RETURN NEW;
+  END IF;
+
+  v_changes := public.ot_request_field_diff(OLD, NEW);
+
+  IF v_actor_id IS NULL THEN
+    v_actor_role := 'system';
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    v_actor_role := COALESCE(
+      v_engine_actor,
+      public.resolve_ot_transition_actor(OLD, v_actor_id, NEW.status),
+      'system'
+    );
+  ELSIF v_actor_id = NEW.employee_id THEN
+    v_actor_role := 'employee';
+  ELSIF has_role(v_actor_id, 'hr'::app_role) OR has_role(v_actor_id, 'admin'::app_role) THEN
+    v_actor_role := 'hr';
+  ELSE
+    v_actor_role := 'system';
+  END IF;
+
+  IF v_actor_role = 'system' THEN
+    v_actor_id := NULL;
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    v_on_behalf_of := public.ot_transition_on_behalf_of(OLD, v_actor_id, v_actor_role);
+  END IF;
+
+  -- The remarks written by this change, whichever stage column holds them
+  v_remarks := COALESCE(
+    v_changes -> 'respective_supervisor_denial_remarks' ->> 'new',
+    v_changes -> 'respective_supervisor_remarks' ->> 'new',
+    v_changes -> 'supervisor_remarks' ->> 'new',
+    v_changes -> 'supervisor_confirmation_remarks' ->> 'new',
+    v_changes -> 'department_head_remarks' ->> 'new',
+    v_changes -> 'hr_remarks' ->> 'new',
+    v_changes -> 'management_remarks' ->> 'new'
+  );
+
+  INSERT INTO public.ot_request_events (
+    request_id, event_type, actor_id, actor_role, on_behalf_of, from_status, to_status, remarks, changes
+  )
+  VALUES (
+    NEW.id,
+    CASE WHEN NEW.status IS DISTINCT FROM OLD.status THEN 'status_changed' ELSE 'updated' END,
+    v_actor_id,
+    v_actor_role,
+    v_on_behalf_of,
+    OLD.status,
+    NEW.status,
+    v_remarks,
+    v_changes
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+-- Delegates can see what their delegators can see while the delegation is active
+DROP POLICY IF EXISTS otr_delegate_read ON public.ot_requests;
+CREATE POLICY otr_delegate_read ON public.ot_requests
+  FOR SELECT TO authenticated
+  USING (
+    supervisor_id = ANY(public.active_delegator_ids(auth.uid(), 'supervisor'))
+    OR respective_supervisor_id = ANY(public.active_delegator_ids(auth.uid(), 'supervisor'))
+    OR cardinality(public.active_delegator_ids(auth.uid(), 'hr')) > 0
+    OR cardinality(public.active_delegator_ids(auth.uid(), 'management')) > 0
+  );
+
+DROP POLICY IF EXISTS prof_delegate_read ON public.profiles;
+CREATE POLICY prof_delegate_read ON public.profiles
+  FOR SELECT TO authenticated
+  USING (
+    -- Both sides of a delegation can see each other
+    id IN (
+      SELECT d.delegate_id FROM public.approval_delegations d WHERE d.delegator_id = auth.uid()
+      UNION
+      SELECT d.delegator_id FROM public.approval_delegations d WHERE d.delegate_id = auth.uid()
+    )
+    OR supervisor_id = ANY(public.active_delegator_ids(auth.uid(), 'supervisor'))
+    OR id IN (
+      SELECT r.employee_id
+      FROM public.ot_requests r
+      WHERE r.respective_supervisor_id = ANY(public.active_delegator_ids(auth.uid(), 'supervisor'))
+    )
+    OR cardinality(public.active_delegator_ids(auth.uid(), 'hr')) > 0
+    OR cardinality(public.active_delegator_ids(auth.uid(), 'management')) > 0
+  );
+
+DROP POLICY IF EXISTS "ot_request_events_read_delegates" ON public.ot_request_events;
+CREATE POLICY "ot_request_events_read_delegates"
+  ON public.ot_request_events
+  FOR SELECT
+  TO authenticated
+  USING (
+    cardinality(public.active_delegator_ids(auth.uid(), 'hr')) > 0
+    OR cardinality(public.active_delegator_ids(auth.uid(), 'management')) > 0
+    OR EXISTS (
+      SELECT 1
+      FROM public.ot_requests r
+      WHERE r.id = ot_request_events.request_id
+        AND (
+          r.supervisor_id = ANY(public.active_delegator_ids(auth.uid(), 'supervisor'))
+          OR r.respective_supervisor_id = ANY(public.active_delegator_ids(auth.uid(), 'supervisor'))
+        )
+    )
+  );
@@ -0,0 +1,387 @@
+-- Approval SLAs: reminders and escalation for stuck requests
+--
+-- Each waiting stage gets an SLA in hours. An hourly pg_cron job calls the
+-- process-ot-approval-slas edge function, which claims due alerts here and
+-- pushes them out:
+--   - reminders go to the stage's approvers (or their active delegates) as
+--     each reminder threshold passes,
+--   - once the SLA is breached the request is escalated once per stage visit,
+--     to the approver's own supervisor or to a role, and the escalation is
+--     recorded in ot_request_events.
+-- Escalation notifies; it does not change who may act on the request.
+
+-- 1) When the request entered its current stage
+-- Existing requests start their clock when this migration runs, so rollout
+-- does not escalate the whole backlog at once.
+ALTER TABLE public.ot_requests
+  ADD COLUMN IF NOT EXISTS status_changed_at timestamptz NOT NULL DEFAULT now();
+
+COMMENT ON COLUMN public.ot_requests.status_changed_at IS 'When the request entered its current status; SLA clock start';
+
+CREATE OR REPLACE FUNCTION public.set_ot_status_changed_at()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  -- Engine transitions that keep the status (HR recertification) restart the clock too
+  IF NEW.status IS DISTINCT FROM OLD.status
+     OR COALESCE(current_setting('otms.transition_engine', true), '') = 'on' THEN
+    NEW.status_changed_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_set_ot_status_changed_at ON public.ot_requests;
+CREATE TRIGGER trg_set_ot_status_changed_at
+  BEFORE UPDATE ON public.ot_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_ot_status_changed_at();
+
+-- 2) Per-stage SLA configuration
+CREATE TABLE IF NOT EXISTS public.ot_approval_slas (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  status ot_status NOT NULL UNIQUE CHECK (status IN (
+    'pending_verification',
+    'pending_respective_supervisor_confirmation',
+    'pending_supervisor_verification',
+    'supervisor_confirmed',
+    'supervisor_verified',
+    'respective_supervisor_confirmed',
+    'department_head_approved',
+    'hr_certified'
+  )),
+  -- Hours in stage after which the approvers are reminded, e.g. {24,48}
+  reminder_hours integer[] NOT NULL DEFAULT '{}',
+  sla_hours integer NOT NULL CHECK (sla_hours > 0),
+  escalate_to text NOT NULL CHECK (escalate_to IN ('supervisor_manager', 'hr', 'management', 'admin')),
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT ot_approval_slas_reminders_before_sla CHECK (
+    0 < ALL(reminder_hours) AND sla_hours > ALL(reminder_hours)
+  ),
+  -- Only supervisor stages have an approver whose own supervisor can be escalated to
+  CONSTRAINT ot_approval_slas_manager_stage CHECK (
+    escalate_to <> 'supervisor_manager'
+    OR status IN ('pending_verification', 'pending_respective_supervisor_confirmation', 'pending_supervisor_verification')
+  )
+);
+
+DROP TRIGGER IF EXISTS update_ot_approval_slas_updated_at ON public.ot_approval_slas;
+CREATE TRIGGER update_ot_approval_slas_updated_at
+  BEFORE UPDATE ON public.ot_approval_slas
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.ot_approval_slas (status, reminder_hours, sla_hours, escalate_to)
+VALUES
+  ('pending_verification', '{24,48}', 72, 'supervisor_manager'),
+  ('pending_respective_supervisor_confirmation', '{24,48}', 72, 'supervisor_manager'),
+  ('hr_certified', '{48}', 120, 'admin')
+ON CONFLICT (status) DO NOTHING;
+
+ALTER TABLE public.ot_approval_slas ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "ot_approval_slas_read_all" ON public.ot_approval_slas;
+CREATE POLICY "ot_approval_slas_read_all"
+  ON public.ot_approval_slas
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "ot_approval_slas_manage_hr" ON public.ot_approval_slas;
+CREATE POLICY "ot_approval_slas_manage_hr"
+  ON public.ot_approval_slas
+  FOR ALL
+  TO authenticated
+  USING (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role));
+
+-- 3) Alerts already sent, one per request, stage visit and threshold
+CREATE TABLE IF NOT EXISTS public.ot_request_sla_alerts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_id uuid NOT NULL REFERENCES public.ot_requests(id) ON DELETE CASCADE,
+  status ot_status NOT NULL,
+  stage_entered_at timestamptz NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('reminder', 'escalation')),
+  threshold_hours integer NOT NULL,
+  recipient_ids uuid[] NOT NULL DEFAULT '{}',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT ot_request_sla_alerts_once UNIQUE (request_id, stage_entered_at, kind, threshold_hours)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ot_request_sla_alerts_request
+  ON public.ot_request_sla_alerts (request_id, created_at DESC);
+
+ALTER TABLE public.ot_request_sla_alerts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "ot_request_sla_alerts_read_hr" ON public.ot_request_sla_alerts;
+CREATE POLICY "ot_request_sla_alerts_read_hr"
+  ON public.ot_request_sla_alerts
+  FOR SELECT
+  TO authenticated
+  USING (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role));
+
+-- 4) Escalations appear in the request timeline
+ALTER TABLE public.ot_request_events
+  DROP CONSTRAINT IF EXISTS ot_request_events_event_type_check;
+ALTER TABLE public.ot_request_events
+  ADD CONSTRAINT ot_request_events_event_type_check
+  CHECK (event_type IN ('submitted', 'status_changed', 'updated', 'escalated'));
+
+-- 5) Recipients
+CREATE OR REPLACE FUNCTION public.ot_sla_role_user_ids(p_role text)
+RETURNS uuid[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(array_agg(DISTINCT ur.user_id), '{}')
+  FROM public.user_roles ur
+  JOIN public.profiles p ON p.id = ur.user_id
+  WHERE ur.role = p_role::app_role
+    AND p.deleted_at IS NULL;
+$$;
+
+-- Who is expected to act on the request in its current stage, with their delegation role
+CREATE OR REPLACE FUNCTION public.ot_sla_stage_approvers(p_request public.ot_requests)
+RETURNS TABLE (approver_ids uuid[], delegation_role text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    CASE
+      WHEN p_request.status IN ('pending_verification', 'pending_supervisor_verification')
+        THEN ARRAY[p_request.supervisor_id]
+      WHEN p_request.status = 'pending_respective_supervisor_confirmation'
+        THEN ARRAY[p_request.respective_supervisor_id]
+      WHEN p_request.status IN ('supervisor_confirmed', 'supervisor_verified', 'respective_supervisor_confirmed')
+        AND 'department_head' = ANY(p_request.approval_steps)
+        THEN ARRAY(
+          SELECT d.head_id
+          FROM public.profiles p
+          JOIN public.departments d ON d.id = p.department_id
+          WHERE p.id = p_request.employee_id AND d.head_id IS NOT NULL
+        )
+      WHEN p_request.status = 'hr_certified'
+        THEN public.ot_sla_role_user_ids('management')
+      ELSE public.ot_sla_role_user_ids('hr')
+    END,
+    CASE
+      WHEN p_request.status IN ('pending_verification', 'pending_supervisor_verification', 'pending_respective_supervisor_confirmation')
+        THEN 'supervisor'
+      WHEN p_request.status = 'hr_certified' THEN 'management'
+      WHEN p_request.status IN ('supervisor_confirmed', 'supervisor_verified', 'respective_supervisor_confirmed')
+        AND 'department_head' = ANY(p_request.approval_steps)
+        THEN NULL -- department head duties are not delegable
+      ELSE 'hr'
+    END;
+$$;
+
+-- Approvers who are out of office are replaced by their active delegate
+CREATE OR REPLACE FUNCTION public.ot_sla_resolve_recipients(p_user_ids uuid[], p_role text)
+RETURNS uuid[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p_role IS NULL THEN p_user_ids
+    ELSE (
+      SELECT COALESCE(array_agg(DISTINCT r.recipient_id), '{}')
+      FROM public.resolve_approval_notification_recipients(p_user_ids, p_role) r
+    )
+  END;
+$$;
+
+-- 6) Claim due reminders and escalations
+-- Inserting the alert row is the claim, so overlapping runs never double-send.
+-- Only the highest passed reminder threshold is sent; after downtime nobody
+-- receives a burst of stale reminders.
+CREATE OR REPLACE FUNCTION public.claim_due_ot_sla_alerts()
+RETURNS TABLE (
+  request_id uuid,
+  ticket_number text,
+  status ot_status,
+  kind text,
+  threshold_hours integer,
+  hours_waiting integer,
+  employee_name text,
+  escalate_to text,
+  recipient_ids uuid[]
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  r record;
+  v_request public.ot_requests;
+  v_hours numeric;
+  v_kind text;
+  v_threshold integer;
+  v_approvers uuid[];
+  v_delegation_role text;
+  v_recipients uuid[];
+  v_manager_ids uuid[];
+BEGIN
+  FOR r IN
+    SELECT
+      req.id AS req_id,
+      s.reminder_hours,
+      s.sla_hours,
+      s.escalate_to AS sla_escalate_to,
+      p.full_name AS req_employee_name
+    FROM public.ot_requests req
+    JOIN public.ot_approval_slas s ON s.status = req.status AND s.is_active
+    JOIN public.profiles p ON p.id = req.employee_id
+    WHERE req.status_changed_at <= now() - make_interval(hours => LEAST(
+        s.sla_hours,
+        COALESCE((SELECT min(h) FROM unnest(s.reminder_hours) h), s.sla_hours)
+      ))
+      -- Sent back by management: HR acts next, not the management queue
+      AND NOT (req.status = 'hr_certified' AND req.management_remarks IS NOT NULL)
+    ORDER BY req.status_changed_at
+  LOOP
+    SELECT * INTO v_request FROM public.ot_requests WHERE id = r.req_id;
+    v_hours := EXTRACT(EPOCH FROM now() - v_request.status_changed_at) / 3600;
+
+    IF v_hours >= r.sla_hours THEN
+      v_kind := 'escalation';
+      v_threshold := r.sla_hours;
+    ELSE
+      v_kind := 'reminder';
+      SELECT max(h) INTO v_threshold FROM unnest(r.reminder_hours) h WHERE h <= v_hours;
+    END IF;
+
+    CONTINUE WHEN v_threshold IS NULL;
+
+    SELECT a.approver_ids, a.delegation_role
+    INTO v_approvers, v_delegation_role
+    FROM public.ot_sla_stage_approvers(v_request) a;
+
+    IF v_kind = 'reminder' THEN
+      v_recipients := public.ot_sla_resolve_recipients(array_remove(v_approvers, NULL), v_delegation_role);
+    ELSIF r.sla_escalate_to = 'supervisor_manager' THEN
+      SELECT COALESCE(array_agg(DISTINCT p.supervisor_id), '{}')
+      INTO v_manager_ids
+      FROM public.profiles p
+      WHERE p.id = ANY(v_approvers) AND p.supervisor_id IS NOT NULL;
+
+      -- Supervisors without a supervisor of their own escalate to HR
+      v_recipients := CASE
+        WHEN cardinality(v_manager_ids) > 0 THEN public.ot_sla_resolve_recipients(v_manager_ids, 'supervisor')
+        ELSE public.ot_sla_resolve_recipients(public.ot_sla_role_user_ids('hr'), 'hr')
+      END;
+    ELSE
+      v_recipients := public.ot_sla_resolve_recipients(
+        public.ot_sla_role_user_ids(r.sla_escalate_to),
+        CASE WHEN r.sla_escalate_to IN ('hr', 'management') THEN r.sla_escalate_to END
+      );
+    END IF;
+
+    -- Nobody is notified about their own OT
+    v_recipients := array_remove(v_recipients, v_request.employee_id);
+
+    INSERT INTO public.ot_request_sla_alerts (
+      request_id, status, stage_entered_at, kind, threshold_hours, recipient_ids
+    )
+    VALUES (
+      v_request.id, v_request.status, v_request.status_changed_at, v_kind, v_threshold, v_recipients
+    )
+    ON CONFLICT ON CONSTRAINT ot_request_sla_alerts_once DO NOTHING;
+
+    CONTINUE WHEN NOT FOUND;
+
+    IF v_kind = 'escalation' THEN
+      INSERT INTO public.ot_request_events (
+        request_id, event_type, actor_id, actor_role, from_status, to_status, remarks
+      )
+      VALUES (
+        v_request.id,
+        'escalated',
+        NULL,
+        'system',
+        v_request.status,
+        v_request.status,
+        format(
+          'No action for %s hours; escalated to %s',
+          r.sla_hours,
+          CASE r.sla_escalate_to
+            WHEN 'supervisor_manager' THEN 'the approver''s supervisor'
+            WHEN 'hr' THEN 'HR'
+            WHEN 'management' THEN 'Management'
+            ELSE 'Admin'
+          END
+        )
+      );
+    END IF;
+
+    request_id := v_request.id;
+    ticket_number := v_request.ticket_number;
+    status := v_request.status;
+    kind := v_kind;
+    threshold_hours := v_threshold;
+    hours_waiting := floor(v_hours)::integer;
+    employee_name := r.req_employee_name;
+    escalate_to := r.sla_escalate_to;
+    recipient_ids := v_recipients;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_due_ot_sla_alerts() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_due_ot_sla_alerts() TO service_role;
+
+-- 7) Hourly job
+CREATE OR REPLACE FUNCTION public.trigger_ot_approval_sla_check()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_project_url text;
+  v_anon_key text;
+BEGIN
+  -- Pull secrets from Supabase Vault
+  v_project_url := vault.get_secret('project_url');
+  v_anon_key := vault.get_secret('anon_key');
+
+  IF v_project_url IS NULL OR v_anon_key IS NULL THEN
+    RETURN;
+  END IF;
+
+  PERFORM net.http_post(
+    url := v_project_url || '/functions/v1/process-ot-approval-slas',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || v_anon_key
+    ),
+    body := '{}'::jsonb
+  );
+EXCEPTION WHEN OTHERS THEN
+  -- Silent failure
+  RETURN;
+END;
+$$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'hourly-ot-approval-sla-check') THEN
+    PERFORM cron.schedule(
+      'hourly-ot-approval-sla-check',
+      '15 * * * *',
+      $cron$SELECT public.trigger_ot_approval_sla_check();$cron$
+    );
+  END IF;
+END;
+$$;
@@ -0,0 +1,414 @@
+-- OT formula engine: text values
+--
+-- Formulas can now reference DayType and EmploymentType, so the SQL port of
+-- supabase/functions/_shared/formula-engine.ts gains quoted text literals.
+-- Text only supports = and <> (case-insensitive); anything else with text
+-- raises 22023. ot_formula_eval now returns the jsonb value (number or
+-- string) and ot_formula_evaluate insists on a numeric result.
+
+-- 1) Tokenizer: quoted text becomes a "text" token
+CREATE OR REPLACE FUNCTION public.ot_formula_tokenize(p_source text)
+RETURNS jsonb
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_tokens jsonb := '[]'::jsonb;
+  v_length integer := length(p_source);
+  i integer := 1;
+  v_char text;
+  v_match text;
+  v_close integer;
+BEGIN
+  WHILE i <= v_length LOOP
+    v_char := substr(p_source, i, 1);
+
+    IF v_char ~ '\s' THEN
+      i := i + 1;
+      CONTINUE;
+    END IF;
+
+    v_match := substring(substr(p_source, i) from '^(\d+(?:\.\d+)?|\.\d+)');
+    IF v_match IS NOT NULL THEN
+      v_tokens := v_tokens || jsonb_build_array(jsonb_build_object('k', 'number', 'v', v_match, 'p', i - 1));
+      i := i + length(v_match);
+      CONTINUE;
+    END IF;
+
+    IF v_char IN ('''', '"') THEN
+      v_close := strpos(substr(p_source, i + 1), v_char);
+      IF v_close = 0 THEN
+        RAISE EXCEPTION 'Text is missing its closing quote (at position %)', i
+          USING ERRCODE = 'invalid_parameter_value';
+      END IF;
+      v_tokens := v_tokens || jsonb_build_array(jsonb_build_object('k', 'text', 'v', substr(p_source, i + 1, v_close - 1), 'p', i - 1));
+      i := i + v_close + 1;
+      CONTINUE;
+    END IF;
+
+    v_match := substring(substr(p_source, i) from '^([A-Za-z_][A-Za-z0-9_]*)');
+    IF v_match IS NOT NULL THEN
+      IF upper(v_match) IN ('AND', 'OR', 'NOT') THEN
+        v_tokens := v_tokens || jsonb_build_array(jsonb_build_object('k', 'operator', 'v', upper(v_match), 'p', i - 1));
+      ELSE
+        v_tokens := v_tokens || jsonb_build_array(jsonb_build_object('k', 'identifier', 'v', v_match, 'p', i - 1));
+      END IF;
+      i := i + length(v_match);
+      CONTINUE;
+    END IF;
+
+    v_match := substr(p_source, i, 2);
+    IF v_match IN ('<=', '>=', '<>', '==', '!=') THEN
+      v_tokens := v_tokens || jsonb_build_array(jsonb_build_object(
+        'k', 'operator',
+        'v', CASE v_match WHEN '==' THEN '=' WHEN '!=' THEN '<>' ELSE v_match END,
+        'p', i - 1
+      ));
+      i := i + 2;
+      CONTINUE;
+    END IF;
+
+    IF v_char IN ('+', '-', '*', '/', '<', '>', '=', '×', '÷') THEN
+      v_tokens := v_tokens || jsonb_build_array(jsonb_build_object(
+        'k', 'operator',
+        'v', CASE v_char WHEN '×' THEN '*' WHEN '÷' THEN '/' ELSE v_char END,
+        'p', i - 1
+      ));
+      i := i + 1;
+      CONTINUE;
+    END IF;
+
+    IF v_char IN ('(', ')', ',') THEN
+      v_tokens := v_tokens || jsonb_build_array(jsonb_build_object('k', v_char, 'v', v_char, 'p', i - 1));
+      i := i + 1;
+      CONTINUE;
+    END IF;
+
+    RAISE EXCEPTION 'Unexpected character ''%'' (at position %)', v_char, i
+      USING ERRCODE = 'invalid_parameter_value';
+  END LOOP;
+
+  RETURN v_tokens || jsonb_build_array(jsonb_build_object('k', 'end', 'v', '', 'p', v_length));
+END;
+$$;
+
+-- 2) Parser: text tokens become {"t":"str","v"} nodes
+CREATE OR REPLACE FUNCTION public.ot_formula_parse_level(
+  p_tokens jsonb,
+  p_pos integer,
+  p_level integer,
+  OUT node jsonb,
+  OUT pos integer
+)
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_token jsonb;
+  v_operators text[];
+  v_operator text;
+  v_sub record;
+  v_name text;
+  v_args jsonb;
+  v_arg_count integer;
+  v_comparisons text[] := ARRAY['<', '<=', '>', '>=', '=', '<>'];
+BEGIN
+  pos := p_pos;
+  v_token := p_tokens -> pos;
+
+  -- Left-associative binary levels
+  IF p_level IN (1, 2, 5, 6) THEN
+    v_operators := CASE p_level
+      WHEN 1 THEN ARRAY['OR']
+      WHEN 2 THEN ARRAY['AND']
+      WHEN 5 THEN ARRAY['+', '-']
+      ELSE ARRAY['*', '/']
+    END;
+
+    SELECT * INTO v_sub FROM public.ot_formula_parse_level(p_tokens, pos, p_level + 1);
+    node := v_sub.node;
+    pos := v_sub.pos;
+
+    LOOP
+      v_token := p_tokens -> pos;
+      EXIT WHEN v_token ->> 'k' <> 'operator' OR NOT (v_token ->> 'v' = ANY(v_operators));
+      v_operator := v_token ->> 'v';
+      SELECT * INTO v_sub FROM public.ot_formula_parse_level(p_tokens, pos + 1, p_level + 1);
+      node := jsonb_build_object('t', 'bin', 'op', v_operator, 'l', node, 'r', v_sub.node);
+      pos := v_sub.pos;
+    END LOOP;
+    RETURN;
+  END IF;
+
+  IF p_level = 3 THEN
+    IF v_token ->> 'k' = 'operator' AND v_token ->> 'v' = 'NOT' THEN
+      SELECT * INTO v_sub FROM public.ot_formula_parse_level(p_tokens, pos + 1, 3);
+      node := jsonb_build_object('t', 'un', 'op', 'NOT', 'a', v_sub.node);
+      pos := v_sub.pos;
+      RETURN;
+    END IF;
+    SELECT * INTO v_sub FROM public.ot_formula_parse_level(p_tokens, pos, 4);
+    node := v_sub.node;
+    pos := v_sub.pos;
+    RETURN;
+  END IF;
+
+  -- Comparisons are not associative
+  IF p_level = 4 THEN
+    SELECT * INTO v_sub FROM public.ot_formula_parse_level(p_tokens, pos, 5);
+    node := v_sub.node;
+    pos := v_sub.pos;
+
+    v_token := p_tokens -> pos;
+    IF v_token ->> 'k' = 'operator' AND v_token ->> 'v' = ANY(v_comparisons) THEN
+      v_operator := v_token ->> 'v';
+      SELECT * INTO v_sub FROM public.ot_formula_parse_level(p_tokens, pos + 1, 5);
+      node := jsonb_build_object('t', 'bin', 'op', v_operator, 'l', node, 'r', v_sub.node);
+      pos := v_sub.pos;
+
+      v_token := p_tokens -> pos;
+      IF v_token ->> 'k' = 'operator' AND v_token ->> 'v' = ANY(v_comparisons) THEN
+        RAISE EXCEPTION 'Comparisons cannot be chained; combine them with AND (at position %)', (v_token ->> 'p')::integer + 1
+          USING ERRCODE = 'invalid_parameter_value';
+      END IF;
+    END IF;
+    RETURN;
+  END IF;
+
+  IF p_level = 7 THEN
+    IF v_token ->> 'k' = 'operator' AND v_token ->> 'v' IN ('-', '+') THEN
+      SELECT * INTO v_sub FROM public.ot_formula_parse_level(p_tokens, pos + 1, 7);
+      node := jsonb_build_object('t', 'un', 'op', v_token ->> 'v', 'a', v_sub.node);
+      pos := v_sub.pos;
+      RETURN;
+    END IF;
+    SELECT * INTO v_sub FROM public.ot_formula_parse_level(p_tokens, pos, 8);
+    node := v_sub.node;
+    pos := v_sub.pos;
+    RETURN;
+  END IF;
+
+  -- Primary
+  IF v_token ->> 'k' = 'number' THEN
+    node := jsonb_build_object('t', 'num', 'v', (v_token ->> 'v')::numeric);
+    pos := pos + 1;
+    RETURN;
+  END IF;
+
+  IF v_token ->> 'k' = 'text' THEN
+    node := jsonb_build_object('t', 'str', 'v', v_token ->> 'v');
+    pos := pos + 1;
+    RETURN;
+  END IF;
+
+  IF v_token ->> 'k' = 'identifier' THEN
+    IF (p_tokens -> (pos + 1)) ->> 'k' <> '(' THEN
+      node := jsonb_build_object('t', 'var', 'n', v_token ->> 'v');
+      pos := pos + 1;
+      RETURN;
+    END IF;
+
+    v_name := upper(v_token ->> 'v');
+    IF v_name NOT IN ('IF', 'MIN', 'MAX', 'ROUND') THEN
+      RAISE EXCEPTION 'Unknown function ''%'' (at position %)', v_token ->> 'v', (v_token ->> 'p')::integer + 1
+        USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    pos := pos + 2;
+    v_args := '[]'::jsonb;
+    IF (p_tokens -> pos) ->> 'k' <> ')' THEN
+      LOOP
+        SELECT * INTO v_sub FROM public.ot_formula_parse_level(p_tokens, pos, 1);
+        v_args := v_args || jsonb_build_array(v_sub.node);
+        pos := v_sub.pos;
+        EXIT WHEN (p_tokens -> pos) ->> 'k' <> ',';
+        pos := pos + 1;
+      END LOOP;
+    END IF;
+
+    IF (p_tokens -> pos) ->> 'k' <> ')' THEN
+      RAISE EXCEPTION 'Expected '')'' (at position %)', ((p_tokens -> pos) ->> 'p')::integer + 1
+        USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+    pos := pos + 1;
+
+    v_arg_count := jsonb_array_length(v_args);
+    IF (v_name = 'IF' AND v_arg_count <> 3)
+       OR (v_name IN ('MIN', 'MAX') AND v_arg_count < 1)
+       OR (v_name = 'ROUND' AND v_arg_count NOT IN (1, 2)) THEN
+      RAISE EXCEPTION '% called with % argument(s) (at position %)', v_name, v_arg_count, (v_token ->> 'p')::integer + 1
+        USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    node := jsonb_build_object('t', 'call', 'f', v_name, 'args', v_args);
+    RETURN;
+  END IF;
+
+  IF v_token ->> 'k' = '(' THEN
+    SELECT * INTO v_sub FROM public.ot_formula_parse_level(p_tokens, pos + 1, 1);
+    node := v_sub.node;
+    pos := v_sub.pos;
+    IF (p_tokens -> pos) ->> 'k' <> ')' THEN
+      RAISE EXCEPTION 'Expected '')'' (at position %)', ((p_tokens -> pos) ->> 'p')::integer + 1
+        USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+    pos := pos + 1;
+    RETURN;
+  END IF;
+
+  IF v_token ->> 'k' = 'end' THEN
+    RAISE EXCEPTION 'Formula ended unexpectedly'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  RAISE EXCEPTION 'Unexpected ''%'' (at position %)', v_token ->> 'v', (v_token ->> 'p')::integer + 1
+    USING ERRCODE = 'invalid_parameter_value';
+END;
+$$;
+
+-- 3) Interpreter, returning jsonb so variables and branches can carry text
+DROP FUNCTION IF EXISTS public.ot_formula_eval(jsonb, jsonb);
+
+CREATE OR REPLACE FUNCTION public.ot_formula_number(p_value jsonb)
+RETURNS numeric
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF jsonb_typeof(p_value) <> 'number' THEN
+    RAISE EXCEPTION 'Expected a number but found text ''%''', p_value #>> '{}'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  RETURN (p_value #>> '{}')::numeric;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.ot_formula_eval(p_node jsonb, p_variables jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_operator text := p_node ->> 'op';
+  v_left jsonb;
+  v_right jsonb;
+  v_left_number numeric;
+  v_right_number numeric;
+  v_equal boolean;
+  v_args numeric[];
+BEGIN
+  CASE p_node ->> 't'
+    WHEN 'num', 'str' THEN
+      RETURN p_node -> 'v';
+
+    WHEN 'var' THEN
+      IF jsonb_typeof(p_variables -> (p_node ->> 'n')) IS DISTINCT FROM 'number'
+         AND jsonb_typeof(p_variables -> (p_node ->> 'n')) IS DISTINCT FROM 'string' THEN
+        RAISE EXCEPTION 'Unknown variable ''%''', p_node ->> 'n'
+          USING ERRCODE = 'invalid_parameter_value';
+      END IF;
+      RETURN p_variables -> (p_node ->> 'n');
+
+    WHEN 'un' THEN
+      v_left_number := public.ot_formula_number(public.ot_formula_eval(p_node -> 'a', p_variables));
+      RETURN to_jsonb(CASE v_operator
+        WHEN 'NOT' THEN (v_left_number = 0)::integer
+        WHEN '-' THEN -v_left_number
+        ELSE v_left_number
+      END);
+
+    WHEN 'bin' THEN
+      IF v_operator IN ('AND', 'OR') THEN
+        v_left_number := public.ot_formula_number(public.ot_formula_eval(p_node -> 'l', p_variables));
+        IF v_operator = 'AND' AND v_left_number = 0 THEN RETURN to_jsonb(0); END IF;
+        IF v_operator = 'OR' AND v_left_number <> 0 THEN RETURN to_jsonb(1); END IF;
+        RETURN to_jsonb((public.ot_formula_number(public.ot_formula_eval(p_node -> 'r', p_variables)) <> 0)::integer);
+      END IF;
+
+      v_left := public.ot_formula_eval(p_node -> 'l', p_variables);
+      v_right := public.ot_formula_eval(p_node -> 'r', p_variables);
+
+      IF v_operator IN ('<', '<=', '>', '>=', '=', '<>')
+         AND (jsonb_typeof(v_left) = 'string' OR jsonb_typeof(v_right) = 'string') THEN
+        IF jsonb_typeof(v_left) <> jsonb_typeof(v_right) THEN
+          RAISE EXCEPTION 'Cannot compare text with a number'
+            USING ERRCODE = 'invalid_parameter_value';
+        END IF;
+        IF v_operator NOT IN ('=', '<>') THEN
+          RAISE EXCEPTION 'Text can only be compared with = or <>, not %', v_operator
+            USING ERRCODE = 'invalid_parameter_value';
+        END IF;
+        v_equal := lower(v_left #>> '{}') = lower(v_right #>> '{}');
+        RETURN to_jsonb((CASE WHEN v_operator = '=' THEN v_equal ELSE NOT v_equal END)::integer);
+      END IF;
+
+      v_left_number := public.ot_formula_number(v_left);
+      v_right_number := public.ot_formula_number(v_right);
+
+      CASE v_operator
+        WHEN '+' THEN RETURN to_jsonb(v_left_number + v_right_number);
+        WHEN '-' THEN RETURN to_jsonb(v_left_number - v_right_number);
+        WHEN '*' THEN RETURN to_jsonb(v_left_number * v_right_number);
+        WHEN '/' THEN
+          IF v_right_number = 0 THEN
+            RAISE EXCEPTION 'Division by zero'
+              USING ERRCODE = 'division_by_zero';
+          END IF;
+          RETURN to_jsonb(v_left_number / v_right_number);
+        WHEN '<' THEN RETURN to_jsonb((v_left_number < v_right_number)::integer);
+        WHEN '<=' THEN RETURN to_jsonb((v_left_number <= v_right_number)::integer);
+        WHEN '>' THEN RETURN to_jsonb((v_left_number > v_right_number)::integer);
+        WHEN '>=' THEN RETURN to_jsonb((v_left_number >= v_right_number)::integer);
+        WHEN '=' THEN RETURN to_jsonb((v_left_number = v_right_number)::integer);
+        WHEN '<>' THEN RETURN to_jsonb((v_left_number <> v_right_number)::integer);
+      END CASE;
+
+    WHEN 'call' THEN
+      IF p_node ->> 'f' = 'IF' THEN
+        IF public.ot_formula_number(public.ot_formula_eval(p_node -> 'args' -> 0, p_variables)) <> 0 THEN
+          RETURN public.ot_formula_eval(p_node -> 'args' -> 1, p_variables);
+        END IF;
+        RETURN public.ot_formula_eval(p_node -> 'args' -> 2, p_variables);
+      END IF;
+
+      SELECT array_agg(public.ot_formula_number(public.ot_formula_eval(a.arg, p_variables)) ORDER BY a.ord)
+      INTO v_args
+      FROM jsonb_array_elements(p_node -> 'args') WITH ORDINALITY AS a(arg, ord);
+
+      CASE p_node ->> 'f'
+        WHEN 'MIN' THEN RETURN to_jsonb((SELECT min(x) FROM unnest(v_args) x));
+        WHEN 'MAX' THEN RETURN to_jsonb((SELECT max(x) FROM unnest(v_args) x));
+        WHEN 'ROUND' THEN
+          IF COALESCE(v_args[2], 0) <> trunc(COALESCE(v_args[2], 0)) THEN
+            RAISE EXCEPTION 'ROUND decimals must be a whole number'
+              USING ERRCODE = 'invalid_parameter_value';
+          END IF;
+          RETURN to_jsonb(round(v_args[1], COALESCE(v_args[2], 0)::integer));
+      END CASE;
+  END CASE;
+
+  RAISE EXCEPTION 'Unsupported formula node %', p_node
+    USING ERRCODE = 'invalid_parameter_value';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.ot_formula_evaluate(p_formula text, p_variables jsonb)
+RETURNS numeric
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_result jsonb := public.ot_formula_eval(public.ot_formula_parse(p_formula), p_variables);
+BEGIN
+  IF jsonb_typeof(v_result) <> 'number' THEN
+    RAISE EXCEPTION 'Formula must evaluate to a number, not text ''%''', v_result #>> '{}'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  RETURN (v_result #>> '{}')::numeric;
+END;
+$$;
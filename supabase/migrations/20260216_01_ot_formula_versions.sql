@@ -0,0 +1,346 @@
+-- Rate formula versions
+--
+-- ot_rate_formulas rows used to be edited in place, so a rate change also
+-- changed how later recalculations treated OT from before the change. Each row
+-- is now an immutable version: its calculation fields cannot be updated, and a
+-- change is published as the next version of the same formula
+-- (version_group_id) with its own effective_from, closing the previous
+-- version the day before. ot_requests.formula_id pins the version a request
+-- was calculated with and recalculations keep it.
+--
+-- preview_ot_formula_version_impact is the what-if for a draft version: per
+-- employee and month, the OT amount the draft would have produced against
+-- what was calculated.
+
+-- 1) Version columns
+ALTER TABLE public.ot_rate_formulas
+  ADD COLUMN IF NOT EXISTS version_group_id uuid,
+  ADD COLUMN IF NOT EXISTS version integer NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS supersedes_id uuid REFERENCES public.ot_rate_formulas(id) ON DELETE RESTRICT;
+
+UPDATE public.ot_rate_formulas
+SET version_group_id = id
+WHERE version_group_id IS NULL;
+
+ALTER TABLE public.ot_rate_formulas
+  ALTER COLUMN version_group_id SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ot_rate_formulas_group_version
+  ON public.ot_rate_formulas (version_group_id, version);
+
+-- A version used by OT requests cannot be deleted
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'ot_requests_formula_id_fkey'
+  ) THEN
+    ALTER TABLE public.ot_requests
+      ADD CONSTRAINT ot_requests_formula_id_fkey
+      FOREIGN KEY (formula_id) REFERENCES public.ot_rate_formulas(id) ON DELETE RESTRICT
+      NOT VALID;
+  END IF;
+END $$;
+
+-- 2) Versions are immutable apart from their name, active flag and end date
+CREATE OR REPLACE FUNCTION public.protect_ot_rate_formula_version()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.version_group_id := COALESCE(NEW.version_group_id, NEW.id);
+    RETURN NEW;
+  END IF;
+
+  IF ROW(NEW.day_type, NEW.employee_category, NEW.base_formula, NEW.multiplier, NEW.conditional_logic,
+         NEW.orp_definition, NEW.hrp_definition, NEW.effective_from,
+         NEW.version_group_id, NEW.version, NEW.supersedes_id)
+     IS DISTINCT FROM
+     ROW(OLD.day_type, OLD.employee_category, OLD.base_formula, OLD.multiplier, OLD.conditional_logic,
+         OLD.orp_definition, OLD.hrp_definition, OLD.effective_from,
+         OLD.version_group_id, OLD.version, OLD.supersedes_id) THEN
+    RAISE EXCEPTION 'Rate formula versions cannot be changed; publish a new version instead'
+      USING ERRCODE = 'restrict_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_protect_ot_rate_formula_version ON public.ot_rate_formulas;
+CREATE TRIGGER trg_protect_ot_rate_formula_version
+  BEFORE INSERT OR UPDATE ON public.ot_rate_formulas
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_ot_rate_formula_version();
+
+-- 3) Publishing a new version
+CREATE OR REPLACE FUNCTION public.publish_ot_rate_formula_version(
+  p_formula_id uuid,
+  p_formula_name text,
+  p_base_formula text,
+  p_multiplier numeric,
+  p_orp_definition text,
+  p_hrp_definition text,
+  p_effective_from date,
+  p_is_active boolean DEFAULT true
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_group_id uuid;
+  v_latest public.ot_rate_formulas;
+  v_new_id uuid;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+    RAISE EXCEPTION 'Only HR or admin can publish rate formula versions'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT version_group_id INTO v_group_id
+  FROM public.ot_rate_formulas
+  WHERE id = p_formula_id;
+
+  IF v_group_id IS NULL THEN
+    RAISE EXCEPTION 'Rate formula % not found', p_formula_id
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  -- New versions always follow the latest one, whichever version was edited
+  SELECT * INTO v_latest
+  FROM public.ot_rate_formulas
+  WHERE version_group_id = v_group_id
+  ORDER BY version DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF p_effective_from IS NULL OR p_effective_from <= v_latest.effective_from THEN
+    RAISE EXCEPTION 'A new version must take effect after % (the start of version %)',
+      v_latest.effective_from, v_latest.version
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  -- Raises 22023 on a syntax error
+  PERFORM public.ot_formula_parse(p_base_formula);
+
+  INSERT INTO public.ot_rate_formulas (
+    formula_name, day_type, employee_category, base_formula, multiplier, conditional_logic,
+    orp_definition, hrp_definition, effective_from, effective_to, is_active, created_by,
+    version_group_id, version, supersedes_id
+  ) VALUES (
+    p_formula_name, v_latest.day_type, v_latest.employee_category, p_base_formula, p_multiplier,
+    v_latest.conditional_logic, p_orp_definition, p_hrp_definition, p_effective_from, NULL,
+    p_is_active, auth.uid(), v_group_id, v_latest.version + 1, v_latest.id
+  )
+  RETURNING id INTO v_new_id;
+
+  UPDATE public.ot_rate_formulas
+  SET effective_to = p_effective_from - 1
+  WHERE id = v_latest.id
+    AND (effective_to IS NULL OR effective_to >= p_effective_from);
+
+  RETURN v_new_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.publish_ot_rate_formula_version(uuid, text, text, numeric, text, text, date, boolean) TO authenticated;
+
+-- 4) Requests keep the version they were first calculated with. Runs after
+-- calculate_ot_amount_trigger (triggers fire in name order), which resolves
+-- the formula for the date on every recalculation.
+CREATE OR REPLACE FUNCTION public.pin_ot_request_formula_version()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.formula_id IS NOT NULL
+     AND NEW.ot_date = OLD.ot_date
+     AND NEW.day_type = OLD.day_type THEN
+    NEW.formula_id := OLD.formula_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS pin_ot_formula_version_trigger ON public.ot_requests;
+CREATE TRIGGER pin_ot_formula_version_trigger
+  BEFORE UPDATE ON public.ot_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.pin_ot_request_formula_version();
+
+-- 5) Formula variables for an employee's OT day, matching getOTFormulaVariables
+-- in supabase/functions/_shared/formula-engine.ts
+
+-- Hours of a session inside the 22:00-06:00 night window (getNightHours)
+CREATE OR REPLACE FUNCTION public.ot_night_hours(p_start time, p_end time)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  WITH session AS (
+    SELECT
+      extract(epoch FROM p_start) / 60 AS start_minute,
+      extract(epoch FROM p_end) / 60 + CASE WHEN p_end <= p_start THEN 1440 ELSE 0 END AS end_minute
+  )
+  SELECT COALESCE(SUM(GREATEST(0,
+           LEAST(s.end_minute, (d + 1) * 1440 + 6 * 60) - GREATEST(s.start_minute, d * 1440 + 22 * 60)
+         )), 0) / 60
+  FROM session s, generate_series(-1, 1) AS d;
+$$;
+
+CREATE OR REPLACE FUNCTION public.ot_formula_day_variables(p_employee_id uuid, p_ot_date date)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_profile record;
+  v_hours numeric;
+  v_night_hours numeric;
+  v_location_state text;
+  v_month_hours numeric;
+  v_ot_base numeric;
+  v_orp numeric;
+BEGIN
+  SELECT basic_salary, ot_base, employment_type, state INTO v_profile
+  FROM public.profiles
+  WHERE id = p_employee_id;
+
+  SELECT
+    COALESCE(SUM(ot.total_hours), 0),
+    COALESCE(SUM(public.ot_night_hours(ot.start_time, ot.end_time)), 0),
+    MIN(ot.ot_location_state)
+  INTO v_hours, v_night_hours, v_location_state
+  FROM public.ot_requests ot
+  WHERE ot.employee_id = p_employee_id
+    AND ot.ot_date = p_ot_date
+    AND ot.status <> 'rejected';
+
+  SELECT COALESCE(SUM(ot.total_hours), 0) INTO v_month_hours
+  FROM public.ot_requests ot
+  WHERE ot.employee_id = p_employee_id
+    AND ot.ot_date >= date_trunc('month', p_ot_date)::date
+    AND ot.ot_date < p_ot_date
+    AND ot.status <> 'rejected';
+
+  v_ot_base := COALESCE(v_profile.ot_base, v_profile.basic_salary);
+  v_orp := v_ot_base / 26;
+
+  RETURN jsonb_build_object(
+    'Hours', v_hours,
+    'ORP', v_orp,
+    'HRP', v_orp / 8,
+    'Basic', v_profile.basic_salary,
+    'OTBase', v_ot_base,
+    'DayType', public.determine_day_type_for_employee(p_ot_date, p_employee_id)::text,
+    'IsStateHoliday', (EXISTS (
+      SELECT 1 FROM public.malaysian_holidays h
+      WHERE h.date = p_ot_date
+        AND h.state <> 'ALL'
+        AND h.state = COALESCE(v_location_state, v_profile.state)
+    ))::integer,
+    'HoursBeyondNormal', GREATEST(v_hours - 8, 0),
+    'NightHours', v_night_hours,
+    'EmploymentType', COALESCE(v_profile.employment_type, ''),
+    'MonthHoursToDate', v_month_hours
+  );
+END;
+$$;
+
+-- 6) What-if: a draft version applied retroactively
+CREATE OR REPLACE FUNCTION public.preview_ot_formula_version_impact(
+  p_day_type day_type,
+  p_employee_category text,
+  p_base_formula text,
+  p_multiplier numeric,
+  p_from date,
+  p_to date DEFAULT NULL
+)
+RETURNS TABLE(
+  employee_id uuid,
+  employee_name text,
+  month text,
+  ot_days integer,
+  total_hours numeric,
+  current_amount numeric,
+  proposed_amount numeric,
+  delta numeric,
+  failed_days integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_day record;
+  v_value numeric;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+    RAISE EXCEPTION 'Only HR or admin can preview rate formula changes'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  PERFORM public.ot_formula_parse(p_base_formula);
+
+  CREATE TEMP TABLE IF NOT EXISTS ot_formula_impact_days (
+    employee_id uuid,
+    ot_date date,
+    hours numeric,
+    current_amount numeric,
+    proposed_amount numeric
+  ) ON COMMIT DROP;
+  TRUNCATE ot_formula_impact_days;
+
+  -- Formulas apply to a day's total hours, like calculate_daily_ot_distribution
+  FOR v_day IN
+    SELECT ot.employee_id, ot.ot_date, SUM(ot.total_hours) AS hours, SUM(COALESCE(ot.ot_amount, 0)) AS current_amount
+    FROM public.ot_requests ot
+    JOIN public.profiles p ON p.id = ot.employee_id
+    WHERE ot.status <> 'rejected'
+      AND ot.day_type = p_day_type
+      AND ot.ot_date >= p_from
+      AND (p_to IS NULL OR ot.ot_date <= p_to)
+      AND (p_employee_category = 'All' OR p.employment_type = p_employee_category)
+    GROUP BY ot.employee_id, ot.ot_date
+  LOOP
+    BEGIN
+      v_value := public.ot_formula_evaluate(
+        p_base_formula,
+        public.ot_formula_day_variables(v_day.employee_id, v_day.ot_date)
+      ) * p_multiplier;
+    EXCEPTION
+      WHEN OTHERS THEN
+        v_value := NULL;
+    END;
+
+    INSERT INTO ot_formula_impact_days
+    VALUES (v_day.employee_id, v_day.ot_date, v_day.hours, v_day.current_amount, v_value);
+  END LOOP;
+
+  RETURN QUERY
+  SELECT
+    d.employee_id,
+    p.full_name,
+    to_char(d.ot_date, 'YYYY-MM'),
+    COUNT(*)::integer,
+    SUM(d.hours),
+    ROUND(SUM(d.current_amount), 2),
+    ROUND(SUM(COALESCE(d.proposed_amount, d.current_amount)), 2),
+    ROUND(SUM(COALESCE(d.proposed_amount, d.current_amount) - d.current_amount), 2),
+    (COUNT(*) FILTER (WHERE d.proposed_amount IS NULL))::integer
+  FROM ot_formula_impact_days d
+  JOIN public.profiles p ON p.id = d.employee_id
+  GROUP BY d.employee_id, p.full_name, to_char(d.ot_date, 'YYYY-MM')
+  ORDER BY 3, 2;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.preview_ot_formula_version_impact(day_type, text, text, numeric, date, date) TO authenticated;
@@ -0,0 +1,263 @@
+-- Payroll export batches
+--
+-- Management-approved OT is handed to payroll as files in a layout HR
+-- configures (CSV, fixed-width or JSON, with column mapping, pay codes per day
+-- type and date formats). Every export is recorded as a batch listing the
+-- requests it contains, and a request can be in only one live batch, so the
+-- same OT is never paid twice. A batch can be downloaded again as often as
+-- needed; voiding it releases its requests for the next export.
+
+-- 1) Layouts
+CREATE TABLE IF NOT EXISTS public.payroll_export_layouts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  format text NOT NULL CHECK (format IN ('csv', 'fixed_width', 'json')),
+  -- [{ "field": "employee_no", "header": "EMPNO", "width": 10, "align": "left", "pad": " ", "decimals": 2 }]
+  columns jsonb NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(columns) = 'array'),
+  -- { "weekday": "OT15", "saturday": "OT15", "sunday": "OT20", "public_holiday": "OT30" }
+  pay_codes jsonb NOT NULL DEFAULT '{}'::jsonb CHECK (jsonb_typeof(pay_codes) = 'object'),
+  date_format text NOT NULL DEFAULT 'yyyy-MM-dd',
+  delimiter text NOT NULL DEFAULT ',',
+  include_header boolean NOT NULL DEFAULT true,
+  -- One line per request, or one per employee and pay code
+  group_by text NOT NULL DEFAULT 'request' CHECK (group_by IN ('request', 'employee_pay_code')),
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+DROP TRIGGER IF EXISTS update_payroll_export_layouts_updated_at ON public.payroll_export_layouts;
+CREATE TRIGGER update_payroll_export_layouts_updated_at
+  BEFORE UPDATE ON public.payroll_export_layouts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.payroll_export_layouts (name, format, columns, pay_codes, date_format, group_by)
+SELECT 'Generic CSV', 'csv',
+  '[
+    {"field": "employee_no", "header": "Employee No"},
+    {"field": "employee_name", "header": "Name"},
+    {"field": "ot_date", "header": "OT Date"},
+    {"field": "pay_code", "header": "Pay Code"},
+    {"field": "hours", "header": "Hours", "decimals": 2},
+    {"field": "amount", "header": "Amount", "decimals": 2}
+  ]'::jsonb,
+  '{"weekday": "OT-WD", "saturday": "OT-SAT", "sunday": "OT-SUN", "public_holiday": "OT-PH"}'::jsonb,
+  'dd/MM/yyyy',
+  'request'
+WHERE NOT EXISTS (SELECT 1 FROM public.payroll_export_layouts);
+
+ALTER TABLE public.payroll_export_layouts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "payroll_export_layouts_manage_hr" ON public.payroll_export_layouts;
+CREATE POLICY "payroll_export_layouts_manage_hr"
+  ON public.payroll_export_layouts
+  FOR ALL
+  TO authenticated
+  USING (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role));
+
+-- 2) Batches and the requests in them
+CREATE TABLE IF NOT EXISTS public.payroll_export_batches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  batch_no text NOT NULL UNIQUE,
+  layout_id uuid NOT NULL REFERENCES public.payroll_export_layouts(id) ON DELETE RESTRICT,
+  period_start date NOT NULL,
+  period_end date NOT NULL,
+  company_id uuid REFERENCES public.companies(id) ON DELETE SET NULL,
+  status text NOT NULL DEFAULT 'exported' CHECK (status IN ('exported', 'voided')),
+  request_count integer NOT NULL DEFAULT 0,
+  total_hours numeric NOT NULL DEFAULT 0,
+  total_amount numeric NOT NULL DEFAULT 0,
+  download_count integer NOT NULL DEFAULT 1,
+  exported_by uuid REFERENCES auth.users(id),
+  exported_at timestamptz NOT NULL DEFAULT now(),
+  last_downloaded_at timestamptz NOT NULL DEFAULT now(),
+  voided_by uuid REFERENCES auth.users(id),
+  voided_at timestamptz,
+  void_reason text,
+  CONSTRAINT payroll_export_batches_period CHECK (period_end >= period_start),
+  CONSTRAINT payroll_export_batches_void CHECK ((status = 'voided') = (voided_at IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_payroll_export_batches_period
+  ON public.payroll_export_batches (period_start, period_end);
+
+CREATE TABLE IF NOT EXISTS public.payroll_export_batch_items (
+  batch_id uuid NOT NULL REFERENCES public.payroll_export_batches(id) ON DELETE CASCADE,
+  ot_request_id uuid NOT NULL REFERENCES public.ot_requests(id) ON DELETE RESTRICT,
+  -- Copied at export so re-downloads match what payroll received
+  hours numeric NOT NULL,
+  amount numeric NOT NULL,
+  voided boolean NOT NULL DEFAULT false,
+  PRIMARY KEY (batch_id, ot_request_id)
+);
+
+-- A request is in at most one live batch
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payroll_export_batch_items_live_request
+  ON public.payroll_export_batch_items (ot_request_id)
+  WHERE NOT voided;
+
+ALTER TABLE public.payroll_export_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.payroll_export_batch_items ENABLE ROW LEVEL SECURITY;
+
+-- Batches are written only through the functions below
+DROP POLICY IF EXISTS "payroll_export_batches_read_hr" ON public.payroll_export_batches;
+CREATE POLICY "payroll_export_batches_read_hr"
+  ON public.payroll_export_batches
+  FOR SELECT
+  TO authenticated
+  USING (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role));
+
+DROP POLICY IF EXISTS "payroll_export_batch_items_read_hr" ON public.payroll_export_batch_items;
+CREATE POLICY "payroll_export_batch_items_read_hr"
+  ON public.payroll_export_batch_items
+  FOR SELECT
+  TO authenticated
+  USING (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role));
+
+-- 3) Creating a batch from the approved OT not yet exported
+CREATE OR REPLACE FUNCTION public.create_payroll_export_batch(
+  p_layout_id uuid,
+  p_period_start date,
+  p_period_end date,
+  p_company_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_batch_id uuid;
+  v_batch_no text;
+  v_sequence integer;
+  v_count integer;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+    RAISE EXCEPTION 'Only HR or admin can export OT to payroll'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_period_end < p_period_start THEN
+    RAISE EXCEPTION 'Export period ends before it starts'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  -- Serialise batch numbering and the "not yet exported" check
+  PERFORM pg_advisory_xact_lock(hashtext('payroll_export_batches'));
+
+  SELECT COUNT(*) + 1 INTO v_sequence
+  FROM public.payroll_export_batches
+  WHERE batch_no LIKE 'PX-' || to_char(p_period_start, 'YYYYMM') || '-%';
+
+  v_batch_no := 'PX-' || to_char(p_period_start, 'YYYYMM') || '-' || lpad(v_sequence::text, 3, '0');
+
+  INSERT INTO public.payroll_export_batches (batch_no, layout_id, period_start, period_end, company_id, exported_by)
+  VALUES (v_batch_no, p_layout_id, p_period_start, p_period_end, p_company_id, auth.uid())
+  RETURNING id INTO v_batch_id;
+
+  INSERT INTO public.payroll_export_batch_items (batch_id, ot_request_id, hours, amount)
+  SELECT v_batch_id, ot.id, COALESCE(ot.total_hours, 0), COALESCE(ot.ot_amount, 0)
+  FROM public.ot_requests ot
+  JOIN public.profiles p ON p.id = ot.employee_id
+  WHERE ot.status = 'management_approved'
+    AND ot.ot_date BETWEEN p_period_start AND p_period_end
+    AND (p_company_id IS NULL OR p.company_id = p_company_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.payroll_export_batch_items i
+      WHERE i.ot_request_id = ot.id AND NOT i.voided
+    );
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  IF v_count = 0 THEN
+    RAISE EXCEPTION 'No approved OT in this period is waiting to be exported'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  UPDATE public.payroll_export_batches b
+  SET request_count = v_count,
+      total_hours = totals.hours,
+      total_amount = totals.amount
+  FROM (
+    SELECT SUM(hours) AS hours, SUM(amount) AS amount
+    FROM public.payroll_export_batch_items
+    WHERE batch_id = v_batch_id
+  ) totals
+  WHERE b.id = v_batch_id;
+
+  RETURN v_batch_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_payroll_export_batch(uuid, date, date, uuid) TO authenticated;
+
+-- 4) Downloading a batch again
+CREATE OR REPLACE FUNCTION public.record_payroll_export_download(p_batch_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+    RAISE EXCEPTION 'Only HR or admin can export OT to payroll'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE public.payroll_export_batches
+  SET download_count = download_count + 1,
+      last_downloaded_at = now()
+  WHERE id = p_batch_id
+    AND status = 'exported';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payroll export batch % does not exist or has been voided', p_batch_id
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_payroll_export_download(uuid) TO authenticated;
+
+-- 5) Voiding a batch
+CREATE OR REPLACE FUNCTION public.void_payroll_export_batch(p_batch_id uuid, p_reason text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+    RAISE EXCEPTION 'Only HR or admin can void payroll exports'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF COALESCE(btrim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to void a payroll export'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  UPDATE public.payroll_export_batches
+  SET status = 'voided',
+      voided_by = auth.uid(),
+      voided_at = now(),
+      void_reason = btrim(p_reason)
+  WHERE id = p_batch_id
+    AND status = 'exported';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payroll export batch % does not exist or is already voided', p_batch_id
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  -- Release the requests for the next export
+  UPDATE public.payroll_export_batch_items
+  SET voided = true
+  WHERE batch_id = p_batch_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.void_payroll_export_batch(uuid, text) TO authenticated;
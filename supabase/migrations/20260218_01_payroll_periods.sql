@@ -0,0 +1,343 @@
+-- Payroll periods and close-out
+--
+-- Each company's OT is paid in payroll periods that HR moves through
+--   open -> locked -> closed
+-- A locked period can be reopened; a closed one is final. While a period is
+-- locked or closed, OT dated inside it is frozen for that company's
+-- employees: no new submissions, edits, deletions, status changes or amount
+-- recalculations (recalculate_daily_ot_amounts updates the same rows, so it is
+-- refused too).
+--
+-- Corrections to frozen OT are recorded as adjustments: signed hours and
+-- amounts against the original request, carried into the company's next open
+-- period and frozen with it.
+
+-- 1) Periods
+CREATE TABLE IF NOT EXISTS public.payroll_periods (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id uuid NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  period_start date NOT NULL,
+  period_end date NOT NULL,
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'locked', 'closed')),
+  locked_at timestamptz,
+  locked_by uuid REFERENCES auth.users(id),
+  closed_at timestamptz,
+  closed_by uuid REFERENCES auth.users(id),
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT payroll_periods_dates CHECK (period_end >= period_start),
+  CONSTRAINT payroll_periods_company_start UNIQUE (company_id, period_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payroll_periods_company_dates
+  ON public.payroll_periods (company_id, period_start, period_end);
+
+DROP TRIGGER IF EXISTS update_payroll_periods_updated_at ON public.payroll_periods;
+CREATE TRIGGER update_payroll_periods_updated_at
+  BEFORE UPDATE ON public.payroll_periods
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Periods don't overlap, only move forward through their states, and keep
+-- their dates once locked
+CREATE OR REPLACE FUNCTION public.validate_payroll_period()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.status <> 'open' THEN
+      RAISE EXCEPTION 'Only open payroll periods can be deleted'
+        USING ERRCODE = 'object_not_in_prerequisite_state';
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NEW.status <> 'open' THEN
+    RAISE EXCEPTION 'Payroll periods start open'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    IF OLD.status = 'closed' THEN
+      RAISE EXCEPTION 'Payroll period % to % is closed', OLD.period_start, OLD.period_end
+        USING ERRCODE = 'object_not_in_prerequisite_state';
+    END IF;
+
+    IF OLD.status <> 'open'
+       AND (NEW.company_id, NEW.period_start, NEW.period_end)
+           IS DISTINCT FROM (OLD.company_id, OLD.period_start, OLD.period_end) THEN
+      RAISE EXCEPTION 'Reopen the payroll period before changing its dates'
+        USING ERRCODE = 'object_not_in_prerequisite_state';
+    END IF;
+
+    IF OLD.status = 'open' AND NEW.status = 'closed' THEN
+      RAISE EXCEPTION 'Lock the payroll period before closing it'
+        USING ERRCODE = 'object_not_in_prerequisite_state';
+    END IF;
+
+    IF NEW.status = 'locked' AND OLD.status = 'open' THEN
+      NEW.locked_at := now();
+      NEW.locked_by := auth.uid();
+    ELSIF NEW.status = 'open' AND OLD.status = 'locked' THEN
+      NEW.locked_at := NULL;
+      NEW.locked_by := NULL;
+    ELSIF NEW.status = 'closed' AND OLD.status = 'locked' THEN
+      NEW.closed_at := now();
+      NEW.closed_by := auth.uid();
+    END IF;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.payroll_periods p
+    WHERE p.company_id = NEW.company_id
+      AND p.id <> NEW.id
+      AND daterange(p.period_start, p.period_end, '[]') && daterange(NEW.period_start, NEW.period_end, '[]')
+  ) THEN
+    RAISE EXCEPTION 'Payroll period % to % overlaps another period of this company', NEW.period_start, NEW.period_end
+      USING ERRCODE = 'exclusion_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_validate_payroll_period ON public.payroll_periods;
+CREATE TRIGGER trg_validate_payroll_period
+  BEFORE INSERT OR UPDATE OR DELETE ON public.payroll_periods
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_payroll_period();
+
+ALTER TABLE public.payroll_periods ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "payroll_periods_read_all" ON public.payroll_periods;
+CREATE POLICY "payroll_periods_read_all"
+  ON public.payroll_periods
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "payroll_periods_manage_hr" ON public.payroll_periods;
+CREATE POLICY "payroll_periods_manage_hr"
+  ON public.payroll_periods
+  FOR ALL
+  TO authenticated
+  USING (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role));
+
+-- 2) Lookups
+-- The locked or closed period covering an employee's OT date, if any
+CREATE OR REPLACE FUNCTION public.frozen_payroll_period(p_employee_id uuid, p_date date)
+RETURNS public.payroll_periods
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT pp.*
+  FROM public.payroll_periods pp
+  JOIN public.profiles p ON p.company_id = pp.company_id
+  WHERE p.id = p_employee_id
+    AND pp.status IN ('locked', 'closed')
+    AND p_date BETWEEN pp.period_start AND pp.period_end
+  LIMIT 1;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.frozen_payroll_period(uuid, date) TO authenticated;
+
+-- The company's first open period after a date
+CREATE OR REPLACE FUNCTION public.next_open_payroll_period(p_company_id uuid, p_after date)
+RETURNS public.payroll_periods
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT *
+  FROM public.payroll_periods
+  WHERE company_id = p_company_id
+    AND status = 'open'
+    AND period_start > p_after
+  ORDER BY period_start
+  LIMIT 1;
+$$;
+
+-- 3) Freezing OT in locked periods
+CREATE OR REPLACE FUNCTION public.enforce_payroll_period_lock()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_period public.payroll_periods;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW IS NOT DISTINCT FROM OLD THEN
+    RETURN NEW;
+  END IF;
+
+  -- Migrations backfilling new columns set this for their own transaction;
+  -- nothing they change is paid
+  IF TG_OP = 'UPDATE' AND current_setting('otms.payroll_lock_bypass', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    v_period := public.frozen_payroll_period(OLD.employee_id, OLD.ot_date);
+  END IF;
+
+  IF v_period.id IS NULL AND TG_OP IN ('INSERT', 'UPDATE') THEN
+    v_period := public.frozen_payroll_period(NEW.employee_id, NEW.ot_date);
+  END IF;
+
+  IF v_period.id IS NOT NULL THEN
+    RAISE EXCEPTION 'The payroll period % to % is %; OT dated in it can no longer change. Ask HR for a payroll adjustment instead.',
+      v_period.period_start, v_period.period_end, v_period.status
+      USING ERRCODE = 'object_not_in_prerequisite_state';
+  END IF;
+
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$;
+
+-- Named to run before the other BEFORE triggers, so nothing is recalculated
+-- for a change that is refused anyway
+DROP TRIGGER IF EXISTS aa_enforce_payroll_period_lock ON public.ot_requests;
+CREATE TRIGGER aa_enforce_payroll_period_lock
+  BEFORE INSERT OR UPDATE OR DELETE ON public.ot_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_payroll_period_lock();
+
+-- 4) Adjustments
+CREATE TABLE IF NOT EXISTS public.ot_payroll_adjustments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  ot_request_id uuid NOT NULL REFERENCES public.ot_requests(id) ON DELETE RESTRICT,
+  employee_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  -- The frozen period the corrected OT belongs to, and the open one paying it
+  source_period_id uuid NOT NULL REFERENCES public.payroll_periods(id) ON DELETE RESTRICT,
+  target_period_id uuid NOT NULL REFERENCES public.payroll_periods(id) ON DELETE RESTRICT,
+  hours_delta numeric(5,2) NOT NULL DEFAULT 0,
+  amount_delta numeric(10,2) NOT NULL,
+  reason text NOT NULL CHECK (btrim(reason) <> ''),
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT ot_payroll_adjustments_nonzero CHECK (hours_delta <> 0 OR amount_delta <> 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ot_payroll_adjustments_target
+  ON public.ot_payroll_adjustments (target_period_id);
+CREATE INDEX IF NOT EXISTS idx_ot_payroll_adjustments_request
+  ON public.ot_payroll_adjustments (ot_request_id);
+
+-- Adjustments are frozen with the period that pays them
+CREATE OR REPLACE FUNCTION public.enforce_payroll_adjustment_lock()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.payroll_periods
+    WHERE id IN (OLD.target_period_id, NEW.target_period_id)
+      AND status <> 'open'
+  ) THEN
+    RAISE EXCEPTION 'This adjustment is in a locked payroll period'
+      USING ERRCODE = 'object_not_in_prerequisite_state';
+  END IF;
+
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_enforce_payroll_adjustment_lock ON public.ot_payroll_adjustments;
+CREATE TRIGGER trg_enforce_payroll_adjustment_lock
+  BEFORE UPDATE OR DELETE ON public.ot_payroll_adjustments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_payroll_adjustment_lock();
+
+ALTER TABLE public.ot_payroll_adjustments ENABLE ROW LEVEL SECURITY;
+
+-- Created only through create_ot_payroll_adjustment
+DROP POLICY IF EXISTS "ot_payroll_adjustments_read" ON public.ot_payroll_adjustments;
+CREATE POLICY "ot_payroll_adjustments_read"
+  ON public.ot_payroll_adjustments
+  FOR SELECT
+  TO authenticated
+  USING (
+    employee_id = auth.uid()
+    OR has_role(auth.uid(), 'hr'::app_role)
+    OR has_role(auth.uid(), 'admin'::app_role)
+  );
+
+DROP POLICY IF EXISTS "ot_payroll_adjustments_delete_hr" ON public.ot_payroll_adjustments;
+CREATE POLICY "ot_payroll_adjustments_delete_hr"
+  ON public.ot_payroll_adjustments
+  FOR DELETE
+  TO authenticated
+  USING (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role));
+
+CREATE OR REPLACE FUNCTION public.create_ot_payroll_adjustment(
+  p_ot_request_id uuid,
+  p_hours_delta numeric,
+  p_amount_delta numeric,
+  p_reason text
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request record;
+  v_source public.payroll_periods;
+  v_target public.payroll_periods;
+  v_id uuid;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+    RAISE EXCEPTION 'Only HR or admin can record payroll adjustments'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF COALESCE(btrim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required for a payroll adjustment'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  SELECT ot.id, ot.employee_id, ot.ot_date, p.company_id INTO v_request
+  FROM public.ot_requests ot
+  JOIN public.profiles p ON p.id = ot.employee_id
+  WHERE ot.id = p_ot_request_id;
+
+  IF v_request.id IS NULL THEN
+    RAISE EXCEPTION 'OT request % not found', p_ot_request_id
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  v_source := public.frozen_payroll_period(v_request.employee_id, v_request.ot_date);
+  IF v_source.id IS NULL THEN
+    RAISE EXCEPTION 'The OT request is in an open payroll period; correct the request itself'
+      USING ERRCODE = 'object_not_in_prerequisite_state';
+  END IF;
+
+  v_target := public.next_open_payroll_period(v_request.company_id, v_source.period_end);
+  IF v_target.id IS NULL THEN
+    RAISE EXCEPTION 'There is no open payroll period after % to carry the adjustment into', v_source.period_end
+      USING ERRCODE = 'object_not_in_prerequisite_state';
+  END IF;
+
+  INSERT INTO public.ot_payroll_adjustments (
+    ot_request_id, employee_id, source_period_id, target_period_id, hours_delta, amount_delta, reason, created_by
+  ) VALUES (
+    v_request.id, v_request.employee_id, v_source.id, v_target.id,
+    COALESCE(p_hours_delta, 0), p_amount_delta, btrim(p_reason), auth.uid()
+  )
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_ot_payroll_adjustment(uuid, numeric, numeric, text) TO authenticated;
@@ -0,0 +1,450 @@
+-- Overnight OT sessions
+--
+-- A session whose end_time is earlier than its start_time runs past midnight:
+-- ot_date is the date it started, and the hours after midnight were worked on
+-- the next date. Those hours are paid as part of the next date, at that date's
+-- day type (e.g. Saturday 22:00 - 03:00 into a Sunday public holiday).
+--
+-- calculate_and_set_ot_amount stores the split on the request
+-- (overnight_hours, overnight_day_type). ot_session_portions lists the hours
+-- worked on a date, including the after-midnight part of the previous date's
+-- sessions, and is what the daily distribution, the day type lookup and the
+-- formula variables now sum. A split request is paid the sum of its share of
+-- both dates.
+
+-- 1) Split columns
+ALTER TABLE public.ot_requests
+  ADD COLUMN IF NOT EXISTS overnight_hours numeric(5,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS overnight_day_type day_type;
+
+COMMENT ON COLUMN public.ot_requests.overnight_hours IS
+'Hours worked after midnight (on ot_date + 1) when end_time is earlier than start_time.';
+COMMENT ON COLUMN public.ot_requests.overnight_day_type IS
+'Day type of ot_date + 1 for the overnight_hours; NULL for same-day sessions.';
+
+-- Hours after midnight, matching splitSessionByDate in src/lib/otSessions.ts
+CREATE OR REPLACE FUNCTION public.ot_overnight_hours(p_start time, p_end time, p_total_hours numeric)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p_end < p_start THEN LEAST(p_total_hours, round(extract(epoch FROM p_end) / 3600, 2))
+    ELSE 0
+  END;
+$$;
+
+-- 2) Hours worked on a date
+CREATE OR REPLACE FUNCTION public.ot_session_portions(p_employee_id uuid, p_date date)
+RETURNS TABLE(
+  request_id uuid,
+  start_time time,
+  end_time time,
+  hours numeric,
+  ot_location_state text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    ot.id,
+    ot.start_time,
+    CASE WHEN ot.overnight_hours > 0 THEN time '24:00' ELSE ot.end_time END,
+    ot.total_hours - ot.overnight_hours,
+    ot.ot_location_state
+  FROM public.ot_requests ot
+  WHERE ot.employee_id = p_employee_id
+    AND ot.ot_date = p_date
+    AND ot.status <> 'rejected'
+  UNION ALL
+  SELECT
+    ot.id,
+    time '00:00',
+    ot.end_time,
+    ot.overnight_hours,
+    ot.ot_location_state
+  FROM public.ot_requests ot
+  WHERE ot.employee_id = p_employee_id
+    AND ot.ot_date = p_date - 1
+    AND ot.overnight_hours > 0
+    AND ot.status <> 'rejected';
+$$;
+
+-- 3) Day type of a date also follows the location of sessions carried over
+-- from the previous night
+CREATE OR REPLACE FUNCTION public.determine_day_type_for_employee(
+  p_ot_date date,
+  p_employee_id uuid
+)
+RETURNS day_type
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  location_state text;
+  employee_state text;
+BEGIN
+  -- Prefer OT location state from existing sessions worked on the date (non-rejected)
+  SELECT ot.ot_location_state INTO location_state
+  FROM public.ot_requests ot
+  WHERE ot.employee_id = p_employee_id
+    AND (ot.ot_date = p_ot_date OR (ot.ot_date = p_ot_date - 1 AND ot.overnight_hours > 0))
+    AND ot.status <> 'rejected'
+    AND ot.ot_location_state IS NOT NULL
+  ORDER BY ot.ot_date DESC, ot.created_at ASC NULLS LAST
+  LIMIT 1;
+
+  -- Fallback: employee profile state
+  SELECT p.state INTO employee_state
+  FROM public.profiles p
+  WHERE p.id = p_employee_id;
+
+  RETURN public.determine_day_type_for_state(p_ot_date, COALESCE(location_state, employee_state));
+END;
+$$;
+
+-- 4) Daily distribution over the portions worked on the date. session_hours
+-- and session_ot_amount are the request's share of this date only.
+CREATE OR REPLACE FUNCTION public.calculate_daily_ot_distribution(
+  p_employee_id uuid,
+  p_ot_date date,
+  p_day_type day_type DEFAULT NULL
+)
+RETURNS TABLE(
+  request_id uuid,
+  session_hours numeric,
+  session_orp numeric,
+  session_hrp numeric,
+  session_ot_amount numeric,
+  total_daily_hours numeric,
+  daily_ot_amount numeric
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  emp_salary numeric;
+  emp_category text;
+  formula record;
+  calculated_orp numeric;
+  calculated_hrp numeric;
+  daily_total_hours numeric;
+  total_ot_amount numeric;
+  verified_day_type day_type;
+BEGIN
+  -- Get employee's salary (prefer ot_base over basic_salary) and employment type
+  SELECT COALESCE(ot_base, basic_salary), employment_type INTO emp_salary, emp_category
+  FROM profiles
+  WHERE id = p_employee_id;
+
+  IF emp_salary IS NULL THEN
+    RAISE EXCEPTION 'Employee salary not found for employee_id: %', p_employee_id;
+  END IF;
+
+  verified_day_type := public.determine_day_type_for_employee(p_ot_date, p_employee_id);
+
+  calculated_orp := emp_salary / 26;
+  calculated_hrp := calculated_orp / 8;
+
+  SELECT COALESCE(SUM(portion.hours), 0) INTO daily_total_hours
+  FROM public.ot_session_portions(p_employee_id, p_ot_date) portion;
+
+  IF daily_total_hours = 0 THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO formula
+  FROM get_active_formula(verified_day_type, COALESCE(emp_category, 'All'), p_ot_date);
+
+  BEGIN
+    IF formula.formula_id IS NULL THEN
+      RAISE EXCEPTION 'No active formula';
+    END IF;
+
+    total_ot_amount := evaluate_ot_formula(
+      formula.formula_text,
+      calculated_orp,
+      calculated_hrp,
+      daily_total_hours,
+      verified_day_type
+    );
+  EXCEPTION
+    WHEN OTHERS THEN
+      -- Standard Malaysian rates when there is no formula or it fails
+      CASE verified_day_type
+        WHEN 'weekday' THEN
+          total_ot_amount := 1.5 * calculated_hrp * daily_total_hours;
+        WHEN 'saturday' THEN
+          total_ot_amount := 2 * calculated_hrp * daily_total_hours;
+        WHEN 'sunday' THEN
+          IF daily_total_hours <= 4 THEN
+            total_ot_amount := 0.5 * calculated_orp;
+          ELSIF daily_total_hours <= 8 THEN
+            total_ot_amount := 1 * calculated_orp;
+          ELSE
+            total_ot_amount := (1 * calculated_orp) + (2 * calculated_hrp * (daily_total_hours - 8));
+          END IF;
+        WHEN 'public_holiday' THEN
+          IF daily_total_hours <= 8 THEN
+            total_ot_amount := 2 * calculated_orp;
+          ELSE
+            total_ot_amount := (2 * calculated_orp) + (3 * calculated_hrp * (daily_total_hours - 8));
+          END IF;
+      END CASE;
+  END;
+
+  RETURN QUERY
+  SELECT
+    portion.request_id,
+    portion.hours,
+    calculated_orp,
+    calculated_hrp,
+    (portion.hours / daily_total_hours) * total_ot_amount,
+    daily_total_hours,
+    total_ot_amount
+  FROM public.ot_session_portions(p_employee_id, p_ot_date) portion;
+END;
+$$;
+
+-- 5) Recalculating the requests worked on some dates. A split request is paid
+-- its share of both of its dates, so the neighbouring dates are distributed
+-- too. Requests in a frozen payroll period keep their amount.
+CREATE OR REPLACE FUNCTION public.recalculate_ot_amounts_for_dates(p_employee_id uuid, p_dates date[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  WITH dates AS (
+    SELECT DISTINCT d.date + o.offset_days AS date
+    FROM unnest(p_dates) AS d(date), generate_series(-1, 1) AS o(offset_days)
+  ),
+  portions AS (
+    SELECT dates.date, dist.*
+    FROM dates
+    CROSS JOIN LATERAL public.calculate_daily_ot_distribution(p_employee_id, dates.date) dist
+  ),
+  totals AS (
+    SELECT
+      portions.request_id,
+      MAX(portions.session_orp) AS orp,
+      MAX(portions.session_hrp) AS hrp,
+      SUM(portions.session_ot_amount) AS ot_amount
+    FROM portions
+    GROUP BY portions.request_id
+    HAVING bool_or(portions.date = ANY(p_dates))
+  )
+  UPDATE public.ot_requests ot
+  SET
+    orp = totals.orp,
+    hrp = totals.hrp,
+    ot_amount = totals.ot_amount
+  FROM totals
+  WHERE ot.id = totals.request_id
+    AND (public.frozen_payroll_period(ot.employee_id, ot.ot_date)).id IS NULL;
+END;
+$$;
+
+-- 6) Triggers
+CREATE OR REPLACE FUNCTION public.calculate_and_set_ot_amount()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  emp_salary numeric;
+  emp_category text;
+  profile_state text;
+  formula record;
+BEGIN
+  -- Default OT location state to the employee's profile state if not provided
+  IF NEW.ot_location_state IS NULL OR NEW.ot_location_state = '' THEN
+    SELECT state INTO profile_state
+    FROM public.profiles
+    WHERE id = NEW.employee_id;
+    NEW.ot_location_state := profile_state;
+  END IF;
+
+  -- Enforce a single OT location per employee per date (required for daily distribution logic)
+  IF NEW.ot_location_state IS NOT NULL THEN
+    PERFORM 1
+    FROM public.ot_requests ot
+    WHERE ot.employee_id = NEW.employee_id
+      AND ot.ot_date = NEW.ot_date
+      AND ot.status <> 'rejected'
+      AND (NEW.id IS NULL OR ot.id <> NEW.id)
+      AND ot.ot_location_state IS NOT NULL
+      AND ot.ot_location_state <> NEW.ot_location_state
+    LIMIT 1;
+
+    IF FOUND THEN
+      RAISE EXCEPTION 'OT Location (State) must match existing OT sessions for this date.'
+        USING ERRCODE = '23514';
+    END IF;
+  END IF;
+
+  -- Force day_type based on date + OT location state (federal + state holidays)
+  NEW.day_type := public.determine_day_type_for_state(NEW.ot_date, NEW.ot_location_state);
+
+  -- Hours after midnight are paid as part of the next date
+  NEW.overnight_hours := public.ot_overnight_hours(NEW.start_time, NEW.end_time, NEW.total_hours);
+  NEW.overnight_day_type := CASE
+    WHEN NEW.overnight_hours > 0 THEN public.determine_day_type_for_state(NEW.ot_date + 1, NEW.ot_location_state)
+  END;
+
+  -- Get employee's salary (prefer ot_base over basic_salary) and employment type
+  SELECT COALESCE(ot_base, basic_salary), employment_type INTO emp_salary, emp_category
+  FROM public.profiles
+  WHERE id = NEW.employee_id;
+
+  IF emp_salary IS NULL THEN
+    RAISE EXCEPTION 'Employee salary not found for employee_id: %', NEW.employee_id;
+  END IF;
+
+  -- Calculate base rates
+  NEW.orp := emp_salary / 26;
+  NEW.hrp := NEW.orp / 8;
+
+  -- Get active formula for this day type and employee category
+  SELECT * INTO formula
+  FROM public.get_active_formula(NEW.day_type, COALESCE(emp_category, 'All'), NEW.ot_date);
+
+  -- Store formula_id for reference
+  IF formula.formula_id IS NOT NULL THEN
+    NEW.formula_id := formula.formula_id;
+  END IF;
+
+  -- Per-session ot_amount over both dates (recalculated by the AFTER trigger)
+  SELECT COALESCE(SUM(dist.session_ot_amount), 0) INTO NEW.ot_amount
+  FROM unnest(ARRAY[NEW.ot_date, NEW.ot_date + 1]) AS d(date)
+  CROSS JOIN LATERAL public.calculate_daily_ot_distribution(NEW.employee_id, d.date, NEW.day_type) dist
+  WHERE dist.request_id = NEW.id;
+
+  RETURN NEW;
+END;
+$$;
+
+COMMENT ON FUNCTION public.calculate_and_set_ot_amount() IS
+'BEFORE trigger: sets ot_location_state default, enforces per-day location consistency, derives day_type from date+location, splits overnight hours and calculates base rates.';
+
+CREATE OR REPLACE FUNCTION public.recalculate_daily_ot_amounts()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_dates date[] := ARRAY[NEW.ot_date, NEW.ot_date + 1];
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.ot_date <> NEW.ot_date THEN
+    v_dates := v_dates || ARRAY[OLD.ot_date, OLD.ot_date + 1];
+  END IF;
+
+  PERFORM public.recalculate_ot_amounts_for_dates(NEW.employee_id, v_dates);
+
+  RETURN NEW;
+END;
+$$;
+
+-- Moving a session's times can change its split without changing its hours
+DROP TRIGGER IF EXISTS calculate_ot_amount_trigger ON public.ot_requests;
+DROP TRIGGER IF EXISTS recalculate_daily_ot_trigger ON public.ot_requests;
+
+CREATE TRIGGER calculate_ot_amount_trigger
+  BEFORE INSERT OR UPDATE OF total_hours, day_type, ot_date, ot_location_state, start_time, end_time
+  ON public.ot_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.calculate_and_set_ot_amount();
+
+CREATE TRIGGER recalculate_daily_ot_trigger
+  AFTER INSERT OR UPDATE OF total_hours, day_type, ot_date, ot_location_state, start_time, end_time, status
+  ON public.ot_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.recalculate_daily_ot_amounts();
+
+-- 7) Formula variables sum the hours worked on the date
+CREATE OR REPLACE FUNCTION public.ot_formula_day_variables(p_employee_id uuid, p_ot_date date)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_profile record;
+  v_hours numeric;
+  v_night_hours numeric;
+  v_location_state text;
+  v_month_hours numeric;
+  v_ot_base numeric;
+  v_orp numeric;
+BEGIN
+  SELECT basic_salary, ot_base, employment_type, state INTO v_profile
+  FROM public.profiles
+  WHERE id = p_employee_id;
+
+  SELECT
+    COALESCE(SUM(portion.hours), 0),
+    COALESCE(SUM(public.ot_night_hours(portion.start_time, portion.end_time)), 0),
+    MIN(portion.ot_location_state)
+  INTO v_hours, v_night_hours, v_location_state
+  FROM public.ot_session_portions(p_employee_id, p_ot_date) portion;
+
+  SELECT COALESCE(SUM(ot.total_hours), 0) INTO v_month_hours
+  FROM public.ot_requests ot
+  WHERE ot.employee_id = p_employee_id
+    AND ot.ot_date >= date_trunc('month', p_ot_date)::date
+    AND ot.ot_date < p_ot_date
+    AND ot.status <> 'rejected';
+
+  v_ot_base := COALESCE(v_profile.ot_base, v_profile.basic_salary);
+  v_orp := v_ot_base / 26;
+
+  RETURN jsonb_build_object(
+    'Hours', v_hours,
+    'ORP', v_orp,
+    'HRP', v_orp / 8,
+    'Basic', v_profile.basic_salary,
+    'OTBase', v_ot_base,
+    'DayType', public.determine_day_type_for_employee(p_ot_date, p_employee_id)::text,
+    'IsStateHoliday', (EXISTS (
+      SELECT 1 FROM public.malaysian_holidays h
+      WHERE h.date = p_ot_date
+        AND h.state <> 'ALL'
+        AND h.state = COALESCE(v_location_state, v_profile.state)
+    ))::integer,
+    'HoursBeyondNormal', GREATEST(v_hours - 8, 0),
+    'NightHours', v_night_hours,
+    'EmploymentType', COALESCE(v_profile.employment_type, ''),
+    'MonthHoursToDate', v_month_hours
+  );
+END;
+$$;
+
+-- 8) Sessions already stored past midnight
+DO $$
+DECLARE
+  v_request record;
+BEGIN
+  FOR v_request IN
+    UPDATE public.ot_requests
+    SET
+      overnight_hours = public.ot_overnight_hours(start_time, end_time, total_hours),
+      overnight_day_type = public.determine_day_type_for_state(ot_date + 1, ot_location_state)
+    WHERE end_time < start_time
+      AND public.ot_overnight_hours(start_time, end_time, total_hours) > 0
+      AND (public.frozen_payroll_period(employee_id, ot_date)).id IS NULL
+    RETURNING employee_id, ot_date
+  LOOP
+    PERFORM public.recalculate_ot_amounts_for_dates(v_request.employee_id, ARRAY[v_request.ot_date, v_request.ot_date + 1]);
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,161 @@
+-- Attendance punches and OT drafts
+--
+-- HR imports clock-in/clock-out exports from the biometric terminals
+-- (src/services/attendance-import.ts parses them). Each import is a batch of
+-- raw punches per employee, kept as the terminal's local wall-clock time.
+--
+-- Time punched beyond the scheduled shift becomes an OT draft for the
+-- employee: a pre-filled session they only have to justify and submit, or
+-- dismiss. Approvers compare claimed sessions against the punches.
+
+-- 1) Import batches
+CREATE TABLE IF NOT EXISTS public.attendance_import_batches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  file_name text NOT NULL,
+  format text NOT NULL CHECK (format IN ('csv', 'json')),
+  punch_count integer NOT NULL DEFAULT 0,
+  duplicate_count integer NOT NULL DEFAULT 0,
+  draft_count integer NOT NULL DEFAULT 0,
+  -- Rows that could not be imported: [{ "row": 3, "error": "..." }]
+  errors jsonb NOT NULL DEFAULT '[]'::jsonb,
+  imported_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.attendance_import_batches ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "HR can manage attendance imports" ON public.attendance_import_batches;
+CREATE POLICY "HR can manage attendance imports"
+  ON public.attendance_import_batches
+  FOR ALL
+  TO authenticated
+  USING (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role));
+
+-- 2) Raw punches
+CREATE TABLE IF NOT EXISTS public.attendance_punches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  employee_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  -- Local time at the terminal
+  punched_at timestamp NOT NULL,
+  -- NULL when the terminal does not record in/out
+  direction text CHECK (direction IN ('in', 'out')),
+  device_id text,
+  batch_id uuid NOT NULL REFERENCES public.attendance_import_batches(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  -- Re-importing an overlapping export keeps the first copy of each punch
+  UNIQUE (employee_id, punched_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_attendance_punches_batch ON public.attendance_punches(batch_id);
+
+ALTER TABLE public.attendance_punches ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Employees and approvers can view punches" ON public.attendance_punches;
+CREATE POLICY "Employees and approvers can view punches"
+  ON public.attendance_punches
+  FOR SELECT
+  TO authenticated
+  USING (
+    employee_id = auth.uid()
+    OR has_role(auth.uid(), 'supervisor'::app_role)
+    OR has_role(auth.uid(), 'hr'::app_role)
+    OR has_role(auth.uid(), 'management'::app_role)
+    OR has_role(auth.uid(), 'admin'::app_role)
+  );
+
+DROP POLICY IF EXISTS "HR can manage punches" ON public.attendance_punches;
+CREATE POLICY "HR can manage punches"
+  ON public.attendance_punches
+  FOR ALL
+  TO authenticated
+  USING (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role));
+
+-- 3) OT drafts
+CREATE TABLE IF NOT EXISTS public.ot_request_drafts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  employee_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  ot_date date NOT NULL,
+  start_time time NOT NULL,
+  end_time time NOT NULL,
+  total_hours numeric(5,2) NOT NULL CHECK (total_hours > 0),
+  source text NOT NULL DEFAULT 'attendance' CHECK (source IN ('attendance')),
+  batch_id uuid REFERENCES public.attendance_import_batches(id) ON DELETE SET NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'submitted', 'dismissed')),
+  ot_request_id uuid REFERENCES public.ot_requests(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (employee_id, ot_date, start_time)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ot_request_drafts_pending
+  ON public.ot_request_drafts(employee_id, ot_date)
+  WHERE status = 'pending';
+
+DROP TRIGGER IF EXISTS update_ot_request_drafts_updated_at ON public.ot_request_drafts;
+CREATE TRIGGER update_ot_request_drafts_updated_at
+  BEFORE UPDATE ON public.ot_request_drafts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Employees may only resolve their drafts; the session itself is what was punched
+CREATE OR REPLACE FUNCTION public.protect_ot_request_draft()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.employee_id <> OLD.employee_id
+     OR NEW.ot_date <> OLD.ot_date
+     OR NEW.start_time <> OLD.start_time
+     OR NEW.end_time <> OLD.end_time
+     OR NEW.total_hours <> OLD.total_hours THEN
+    RAISE EXCEPTION 'An OT draft''s session cannot be changed; submit it with the correct times instead'
+      USING ERRCODE = 'restrict_violation';
+  END IF;
+
+  IF OLD.status <> 'pending' AND NEW.status <> OLD.status THEN
+    RAISE EXCEPTION 'This OT draft has already been %', OLD.status
+      USING ERRCODE = 'object_not_in_prerequisite_state';
+  END IF;
+
+  IF NEW.status = 'submitted' AND NEW.ot_request_id IS NULL THEN
+    RAISE EXCEPTION 'A submitted OT draft must reference its OT request'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_protect_ot_request_draft ON public.ot_request_drafts;
+CREATE TRIGGER trg_protect_ot_request_draft
+  BEFORE UPDATE ON public.ot_request_drafts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_ot_request_draft();
+
+ALTER TABLE public.ot_request_drafts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Employees can view own OT drafts" ON public.ot_request_drafts;
+CREATE POLICY "Employees can view own OT drafts"
+  ON public.ot_request_drafts
+  FOR SELECT
+  TO authenticated
+  USING (employee_id = auth.uid());
+
+DROP POLICY IF EXISTS "Employees can resolve own OT drafts" ON public.ot_request_drafts;
+CREATE POLICY "Employees can resolve own OT drafts"
+  ON public.ot_request_drafts
+  FOR UPDATE
+  TO authenticated
+  USING (employee_id = auth.uid())
+  WITH CHECK (employee_id = auth.uid());
+
+DROP POLICY IF EXISTS "HR can manage OT drafts" ON public.ot_request_drafts;
+CREATE POLICY "HR can manage OT drafts"
+  ON public.ot_request_drafts
+  FOR ALL
+  TO authenticated
+  USING (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role));
@@ -0,0 +1,676 @@
+-- Shift rosters
+--
+-- Until now every employee was assumed to work 09:00–18:00 Monday to Friday.
+-- Rotating crews (e.g. 4-on/4-off) and staff resting on other days get a
+-- roster instead:
+--
+--   shift_templates            a shift's hours (e.g. Night 20:00–08:00)
+--   shift_patterns             a rotation of cycle_length days
+--   shift_pattern_days         each day of the cycle: work (with a shift),
+--                              off day or rest day
+--   employee_shift_assignments which pattern an employee follows, over an
+--                              effective date range, anchored on the date
+--                              that is day 0 of the cycle
+--
+-- Holidays still win. Otherwise a rostered work day is paid as a weekday, an
+-- off day as a Saturday and a rest day as a Sunday. Employees without an
+-- assignment keep the calendar rules.
+--
+-- Patterns and shift hours in use are frozen so past rosters stay
+-- reproducible: HR creates a new pattern and reassigns from a date.
+
+-- 1) Shift templates
+CREATE TABLE IF NOT EXISTS public.shift_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  code text NOT NULL UNIQUE,
+  start_time time NOT NULL,
+  -- Earlier than start_time for shifts ending the next morning
+  end_time time NOT NULL,
+  -- Normal hours of work, excluding breaks
+  normal_hours numeric(4,2) NOT NULL DEFAULT 8 CHECK (normal_hours > 0 AND normal_hours <= 24),
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (start_time <> end_time)
+);
+
+-- 2) Rotations
+CREATE TABLE IF NOT EXISTS public.shift_patterns (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE,
+  description text,
+  cycle_length integer NOT NULL CHECK (cycle_length BETWEEN 1 AND 56),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.shift_pattern_days (
+  pattern_id uuid NOT NULL REFERENCES public.shift_patterns(id) ON DELETE CASCADE,
+  day_index integer NOT NULL CHECK (day_index >= 0),
+  day_kind text NOT NULL CHECK (day_kind IN ('work', 'off', 'rest')),
+  shift_template_id uuid REFERENCES public.shift_templates(id) ON DELETE RESTRICT,
+  PRIMARY KEY (pattern_id, day_index),
+  CHECK ((day_kind = 'work') = (shift_template_id IS NOT NULL))
+);
+
+-- 3) Assignments
+CREATE TABLE IF NOT EXISTS public.employee_shift_assignments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  employee_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  pattern_id uuid NOT NULL REFERENCES public.shift_patterns(id) ON DELETE RESTRICT,
+  effective_from date NOT NULL,
+  effective_to date,
+  -- The date that is day 0 of the cycle; crews on the same pattern are
+  -- staggered by anchoring them on different dates
+  cycle_start_date date NOT NULL,
+  created_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (effective_to IS NULL OR effective_to >= effective_from)
+);
+
+CREATE INDEX IF NOT EXISTS idx_employee_shift_assignments_employee
+  ON public.employee_shift_assignments(employee_id, effective_from);
+
+DROP TRIGGER IF EXISTS update_shift_templates_updated_at ON public.shift_templates;
+CREATE TRIGGER update_shift_templates_updated_at
+  BEFORE UPDATE ON public.shift_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_shift_patterns_updated_at ON public.shift_patterns;
+CREATE TRIGGER update_shift_patterns_updated_at
+  BEFORE UPDATE ON public.shift_patterns
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 4) RLS: everyone reads templates and patterns; HR manages the roster
+ALTER TABLE public.shift_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.shift_patterns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.shift_pattern_days ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.employee_shift_assignments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view shift templates" ON public.shift_templates;
+CREATE POLICY "Authenticated users can view shift templates"
+  ON public.shift_templates
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "HR can manage shift templates" ON public.shift_templates;
+CREATE POLICY "HR can manage shift templates"
+  ON public.shift_templates
+  FOR ALL
+  TO authenticated
+  USING (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role));
+
+DROP POLICY IF EXISTS "Authenticated users can view shift patterns" ON public.shift_patterns;
+CREATE POLICY "Authenticated users can view shift patterns"
+  ON public.shift_patterns
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "HR can manage shift patterns" ON public.shift_patterns;
+CREATE POLICY "HR can manage shift patterns"
+  ON public.shift_patterns
+  FOR ALL
+  TO authenticated
+  USING (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role));
+
+DROP POLICY IF EXISTS "Authenticated users can view shift pattern days" ON public.shift_pattern_days;
+CREATE POLICY "Authenticated users can view shift pattern days"
+  ON public.shift_pattern_days
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "HR can manage shift pattern days" ON public.shift_pattern_days;
+CREATE POLICY "HR can manage shift pattern days"
+  ON public.shift_pattern_days
+  FOR ALL
+  TO authenticated
+  USING (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role));
+
+DROP POLICY IF EXISTS "Employees and approvers can view shift assignments" ON public.employee_shift_assignments;
+CREATE POLICY "Employees and approvers can view shift assignments"
+  ON public.employee_shift_assignments
+  FOR SELECT
+  TO authenticated
+  USING (
+    employee_id = auth.uid()
+    OR has_role(auth.uid(), 'supervisor'::app_role)
+    OR has_role(auth.uid(), 'hr'::app_role)
+    OR has_role(auth.uid(), 'management'::app_role)
+    OR has_role(auth.uid(), 'admin'::app_role)
+  );
+
+DROP POLICY IF EXISTS "HR can manage shift assignments" ON public.employee_shift_assignments;
+CREATE POLICY "HR can manage shift assignments"
+  ON public.employee_shift_assignments
+  FOR ALL
+  TO authenticated
+  USING (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role));
+
+-- 5) Freeze what is in use
+CREATE OR REPLACE FUNCTION public.shift_pattern_is_assigned(p_pattern_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.employee_shift_assignments a WHERE a.pattern_id = p_pattern_id
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.protect_shift_pattern_days()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_pattern public.shift_patterns%ROWTYPE;
+BEGIN
+  SELECT * INTO v_pattern
+  FROM public.shift_patterns
+  WHERE id = COALESCE(NEW.pattern_id, OLD.pattern_id);
+
+  -- The pattern itself is being deleted
+  IF NOT FOUND THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF public.shift_pattern_is_assigned(v_pattern.id) THEN
+    RAISE EXCEPTION 'Shift pattern "%" is assigned to employees; create a new pattern and reassign them from a date instead', v_pattern.name
+      USING ERRCODE = 'restrict_violation';
+  END IF;
+
+  IF TG_OP <> 'DELETE' AND NEW.day_index >= v_pattern.cycle_length THEN
+    RAISE EXCEPTION 'Day % is outside the %-day cycle of "%"', NEW.day_index + 1, v_pattern.cycle_length, v_pattern.name
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_protect_shift_pattern_days ON public.shift_pattern_days;
+CREATE TRIGGER trg_protect_shift_pattern_days
+  BEFORE INSERT OR UPDATE OR DELETE ON public.shift_pattern_days
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_shift_pattern_days();
+
+CREATE OR REPLACE FUNCTION public.protect_shift_pattern()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.cycle_length <> OLD.cycle_length AND public.shift_pattern_is_assigned(OLD.id) THEN
+    RAISE EXCEPTION 'Shift pattern "%" is assigned to employees; its cycle cannot change', OLD.name
+      USING ERRCODE = 'restrict_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_protect_shift_pattern ON public.shift_patterns;
+CREATE TRIGGER trg_protect_shift_pattern
+  BEFORE UPDATE OF cycle_length ON public.shift_patterns
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_shift_pattern();
+
+CREATE OR REPLACE FUNCTION public.protect_shift_template()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF (NEW.start_time, NEW.end_time, NEW.normal_hours) IS DISTINCT FROM (OLD.start_time, OLD.end_time, OLD.normal_hours)
+     AND EXISTS (
+       SELECT 1
+       FROM public.shift_pattern_days d
+       WHERE d.shift_template_id = OLD.id
+         AND public.shift_pattern_is_assigned(d.pattern_id)
+     ) THEN
+    RAISE EXCEPTION 'Shift "%" is rostered; create a new shift instead of changing its hours', OLD.name
+      USING ERRCODE = 'restrict_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_protect_shift_template ON public.shift_templates;
+CREATE TRIGGER trg_protect_shift_template
+  BEFORE UPDATE OF start_time, end_time, normal_hours ON public.shift_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_shift_template();
+
+-- Assignments of one employee must not overlap
+CREATE OR REPLACE FUNCTION public.check_shift_assignment_overlap()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1
+    FROM public.employee_shift_assignments a
+    WHERE a.employee_id = NEW.employee_id
+      AND a.id <> NEW.id
+      AND a.effective_from <= COALESCE(NEW.effective_to, 'infinity'::date)
+      AND COALESCE(a.effective_to, 'infinity'::date) >= NEW.effective_from
+  ) THEN
+    RAISE EXCEPTION 'The employee already has a roster in this period'
+      USING ERRCODE = 'exclusion_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_check_shift_assignment_overlap ON public.employee_shift_assignments;
+CREATE TRIGGER trg_check_shift_assignment_overlap
+  BEFORE INSERT OR UPDATE ON public.employee_shift_assignments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_shift_assignment_overlap();
+
+-- 6) Resolving the roster
+-- The roster day of an employee on a date, if they have an assignment. On
+-- days without a shift, normal_hours is the longest shift of the pattern.
+CREATE OR REPLACE FUNCTION public.employee_roster_day(p_employee_id uuid, p_date date)
+RETURNS TABLE(
+  day_kind text,
+  shift_template_id uuid,
+  shift_name text,
+  shift_start time,
+  shift_end time,
+  normal_hours numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    d.day_kind,
+    t.id,
+    t.name,
+    t.start_time,
+    t.end_time,
+    COALESCE(t.normal_hours, (
+      SELECT MAX(pt.normal_hours)
+      FROM public.shift_pattern_days pd
+      JOIN public.shift_templates pt ON pt.id = pd.shift_template_id
+      WHERE pd.pattern_id = p.id
+    ), 8)
+  FROM public.employee_shift_assignments a
+  JOIN public.shift_patterns p ON p.id = a.pattern_id
+  JOIN public.shift_pattern_days d
+    ON d.pattern_id = p.id
+   AND d.day_index = (((p_date - a.cycle_start_date) % p.cycle_length) + p.cycle_length) % p.cycle_length
+  LEFT JOIN public.shift_templates t ON t.id = d.shift_template_id
+  WHERE a.employee_id = p_employee_id
+    AND a.effective_from <= p_date
+    AND (a.effective_to IS NULL OR a.effective_to >= p_date)
+  LIMIT 1;
+$$;
+
+-- An employee's roster over a date range, for the OT form and calendars
+CREATE OR REPLACE FUNCTION public.get_employee_roster(p_employee_id uuid, p_from date, p_to date)
+RETURNS TABLE(
+  roster_date date,
+  day_kind text,
+  shift_template_id uuid,
+  shift_name text,
+  shift_start time,
+  shift_end time,
+  normal_hours numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_employee_id <> auth.uid()
+     AND NOT (
+       has_role(auth.uid(), 'supervisor'::app_role)
+       OR has_role(auth.uid(), 'hr'::app_role)
+       OR has_role(auth.uid(), 'management'::app_role)
+       OR has_role(auth.uid(), 'admin'::app_role)
+     ) THEN
+    RAISE EXCEPTION 'Not allowed to view this roster'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_to < p_from OR p_to - p_from > 366 THEN
+    RAISE EXCEPTION 'A roster can be listed for up to a year at a time'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  RETURN QUERY
+  SELECT day::date, r.*
+  FROM generate_series(p_from, p_to, interval '1 day') AS day
+  CROSS JOIN LATERAL public.employee_roster_day(p_employee_id, day::date) r;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_employee_roster(uuid, date, date) TO authenticated;
+
+-- Day type of a date for an employee working in a state: holidays first,
+-- then the roster, then the calendar
+CREATE OR REPLACE FUNCTION public.determine_roster_day_type(
+  p_employee_id uuid,
+  p_date date,
+  p_location_state text
+)
+RETURNS day_type
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_calendar_day_type day_type;
+  v_day_kind text;
+BEGIN
+  v_calendar_day_type := public.determine_day_type_for_state(p_date, p_location_state);
+
+  IF v_calendar_day_type = 'public_holiday' THEN
+    RETURN v_calendar_day_type;
+  END IF;
+
+  SELECT r.day_kind INTO v_day_kind
+  FROM public.employee_roster_day(p_employee_id, p_date) r;
+
+  RETURN CASE v_day_kind
+    WHEN 'work' THEN 'weekday'::day_type
+    WHEN 'off' THEN 'saturday'::day_type
+    WHEN 'rest' THEN 'sunday'::day_type
+    ELSE v_calendar_day_type
+  END;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.determine_day_type_for_employee(
+  p_ot_date date,
+  p_employee_id uuid
+)
+RETURNS day_type
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  location_state text;
+  employee_state text;
+BEGIN
+  -- Prefer OT location state from existing sessions worked on the date (non-rejected)
+  SELECT ot.ot_location_state INTO location_state
+  FROM public.ot_requests ot
+  WHERE ot.employee_id = p_employee_id
+    AND (ot.ot_date = p_ot_date OR (ot.ot_date = p_ot_date - 1 AND ot.overnight_hours > 0))
+    AND ot.status <> 'rejected'
+    AND ot.ot_location_state IS NOT NULL
+  ORDER BY ot.ot_date DESC, ot.created_at ASC NULLS LAST
+  LIMIT 1;
+
+  -- Fallback: employee profile state
+  SELECT p.state INTO employee_state
+  FROM public.profiles p
+  WHERE p.id = p_employee_id;
+
+  RETURN public.determine_roster_day_type(p_employee_id, p_ot_date, COALESCE(location_state, employee_state));
+END;
+$$;
+
+-- 7) OT amounts follow the roster
+CREATE OR REPLACE FUNCTION public.calculate_and_set_ot_amount()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  emp_salary numeric;
+  emp_category text;
+  profile_state text;
+  formula record;
+BEGIN
+  -- Default OT location state to the employee's profile state if not provided
+  IF NEW.ot_location_state IS NULL OR NEW.ot_location_state = '' THEN
+    SELECT state INTO profile_state
+    FROM public.profiles
+    WHERE id = NEW.employee_id;
+    NEW.ot_location_state := profile_state;
+  END IF;
+
+  -- Enforce a single OT location per employee per date (required for daily distribution logic)
+  IF NEW.ot_location_state IS NOT NULL THEN
+    PERFORM 1
+    FROM public.ot_requests ot
+    WHERE ot.employee_id = NEW.employee_id
+      AND ot.ot_date = NEW.ot_date
+      AND ot.status <> 'rejected'
+      AND (NEW.id IS NULL OR ot.id <> NEW.id)
+      AND ot.ot_location_state IS NOT NULL
+      AND ot.ot_location_state <> NEW.ot_location_state
+    LIMIT 1;
+
+    IF FOUND THEN
+      RAISE EXCEPTION 'OT Location (State) must match existing OT sessions for this date.'
+        USING ERRCODE = '23514';
+    END IF;
+  END IF;
+
+  -- Force day_type based on date + OT location state (holidays) and the employee's roster
+  NEW.day_type := public.determine_roster_day_type(NEW.employee_id, NEW.ot_date, NEW.ot_location_state);
+
+  -- Hours after midnight are paid as part of the next date
+  NEW.overnight_hours := public.ot_overnight_hours(NEW.start_time, NEW.end_time, NEW.total_hours);
+  NEW.overnight_day_type := CASE
+    WHEN NEW.overnight_hours > 0 THEN public.determine_roster_day_type(NEW.employee_id, NEW.ot_date + 1, NEW.ot_location_state)
+  END;
+
+  -- Get employee's salary (prefer ot_base over basic_salary) and employment type
+  SELECT COALESCE(ot_base, basic_salary), employment_type INTO emp_salary, emp_category
+  FROM public.profiles
+  WHERE id = NEW.employee_id;
+
+  IF emp_salary IS NULL THEN
+    RAISE EXCEPTION 'Employee salary not found for employee_id: %', NEW.employee_id;
+  END IF;
+
+  -- Calculate base rates
+  NEW.orp := emp_salary / 26;
+  NEW.hrp := NEW.orp / 8;
+
+  -- Get active formula for this day type and employee category
+  SELECT * INTO formula
+  FROM public.get_active_formula(NEW.day_type, COALESCE(emp_category, 'All'), NEW.ot_date);
+
+  -- Store formula_id for reference
+  IF formula.formula_id IS NOT NULL THEN
+    NEW.formula_id := formula.formula_id;
+  END IF;
+
+  -- Per-session ot_amount over both dates (recalculated by the AFTER trigger)
+  SELECT COALESCE(SUM(dist.session_ot_amount), 0) INTO NEW.ot_amount
+  FROM unnest(ARRAY[NEW.ot_date, NEW.ot_date + 1]) AS d(date)
+  CROSS JOIN LATERAL public.calculate_daily_ot_distribution(NEW.employee_id, d.date, NEW.day_type) dist
+  WHERE dist.request_id = NEW.id;
+
+  RETURN NEW;
+END;
+$$;
+
+COMMENT ON FUNCTION public.calculate_and_set_ot_amount() IS
+'BEFORE trigger: sets ot_location_state default, enforces per-day location consistency, derives day_type from holidays and the roster, splits overnight hours and calculates base rates.';
+
+-- "Normal hours" in formulas are the employee's rostered hours, 8 without a roster
+CREATE OR REPLACE FUNCTION public.ot_formula_day_variables(p_employee_id uuid, p_ot_date date)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_profile record;
+  v_hours numeric;
+  v_night_hours numeric;
+  v_location_state text;
+  v_month_hours numeric;
+  v_ot_base numeric;
+  v_orp numeric;
+  v_normal_hours numeric;
+BEGIN
+  SELECT basic_salary, ot_base, employment_type, state INTO v_profile
+  FROM public.profiles
+  WHERE id = p_employee_id;
+
+  SELECT
+    COALESCE(SUM(portion.hours), 0),
+    COALESCE(SUM(public.ot_night_hours(portion.start_time, portion.end_time)), 0),
+    MIN(portion.ot_location_state)
+  INTO v_hours, v_night_hours, v_location_state
+  FROM public.ot_session_portions(p_employee_id, p_ot_date) portion;
+
+  SELECT COALESCE(SUM(ot.total_hours), 0) INTO v_month_hours
+  FROM public.ot_requests ot
+  WHERE ot.employee_id = p_employee_id
+    AND ot.ot_date >= date_trunc('month', p_ot_date)::date
+    AND ot.ot_date < p_ot_date
+    AND ot.status <> 'rejected';
+
+  SELECT r.normal_hours INTO v_normal_hours
+  FROM public.employee_roster_day(p_employee_id, p_ot_date) r;
+
+  v_ot_base := COALESCE(v_profile.ot_base, v_profile.basic_salary);
+  v_orp := v_ot_base / 26;
+
+  RETURN jsonb_build_object(
+    'Hours', v_hours,
+    'ORP', v_orp,
+    'HRP', v_orp / 8,
+    'Basic', v_profile.basic_salary,
+    'OTBase', v_ot_base,
+    'DayType', public.determine_day_type_for_employee(p_ot_date, p_employee_id)::text,
+    'IsStateHoliday', (EXISTS (
+      SELECT 1 FROM public.malaysian_holidays h
+      WHERE h.date = p_ot_date
+        AND h.state <> 'ALL'
+        AND h.state = COALESCE(v_location_state, v_profile.state)
+    ))::integer,
+    'HoursBeyondNormal', GREATEST(v_hours - COALESCE(v_normal_hours, 8), 0),
+    'NightHours', v_night_hours,
+    'EmploymentType', COALESCE(v_profile.employment_type, ''),
+    'MonthHoursToDate', v_month_hours
+  );
+END;
+$$;
+
+-- 8) Re-derive day types when an employee's roster changes. Sessions from the
+-- night before the range count, their hours after midnight fall inside it.
+-- Frozen payroll periods are left alone.
+CREATE OR REPLACE FUNCTION public.refresh_ot_day_types(p_employee_id uuid, p_from date, p_to date)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.ot_requests ot
+  SET day_type = public.determine_roster_day_type(ot.employee_id, ot.ot_date, ot.ot_location_state)
+  WHERE ot.employee_id = p_employee_id
+    AND ot.ot_date >= p_from - 1
+    AND (p_to IS NULL OR ot.ot_date <= p_to)
+    AND ot.status <> 'rejected'
+    AND (public.frozen_payroll_period(ot.employee_id, ot.ot_date)).id IS NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.refresh_ot_day_types_for_assignment()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    PERFORM public.refresh_ot_day_types(OLD.employee_id, OLD.effective_from, OLD.effective_to);
+  END IF;
+
+  IF TG_OP <> 'DELETE' THEN
+    PERFORM public.refresh_ot_day_types(NEW.employee_id, NEW.effective_from, NEW.effective_to);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_refresh_ot_day_types_for_assignment ON public.employee_shift_assignments;
+CREATE TRIGGER trg_refresh_ot_day_types_for_assignment
+  AFTER INSERT OR UPDATE OR DELETE ON public.employee_shift_assignments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.refresh_ot_day_types_for_assignment();
+
+-- 9) Assigning a pattern from a date ends the employee's current roster the
+-- day before
+CREATE OR REPLACE FUNCTION public.assign_shift_pattern(
+  p_employee_id uuid,
+  p_pattern_id uuid,
+  p_effective_from date,
+  p_cycle_start_date date DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_assignment_id uuid;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+    RAISE EXCEPTION 'Only HR can assign rosters'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.employee_shift_assignments a
+    WHERE a.employee_id = p_employee_id
+      AND a.effective_from >= p_effective_from
+  ) THEN
+    RAISE EXCEPTION 'The employee already has a roster starting on or after %; remove it first', p_effective_from
+      USING ERRCODE = 'object_not_in_prerequisite_state';
+  END IF;
+
+  UPDATE public.employee_shift_assignments
+  SET effective_to = p_effective_from - 1
+  WHERE employee_id = p_employee_id
+    AND (effective_to IS NULL OR effective_to >= p_effective_from);
+
+  INSERT INTO public.employee_shift_assignments (
+    employee_id, pattern_id, effective_from, cycle_start_date, created_by
+  )
+  VALUES (
+    p_employee_id, p_pattern_id, p_effective_from, COALESCE(p_cycle_start_date, p_effective_from), auth.uid()
+  )
+  RETURNING id INTO v_assignment_id;
+
+  RETURN v_assignment_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.assign_shift_pattern(uuid, uuid, date, date) TO authenticated;
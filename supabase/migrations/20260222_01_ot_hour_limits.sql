@@ -0,0 +1,471 @@
+-- Enforced OT hour limits and the statutory monthly cap
+--
+-- Until now check_threshold_violations() only reported, nothing called it,
+-- and auto_block_enabled was never enforced. This migration:
+-- - adds ot_settings.statutory_monthly_cap_hours (104 by default, the
+--   Employment Act limit), which always blocks
+-- - makes each configured limit soft (flagged to approvers) or hard
+--   (blocks); auto_block_enabled now just says whether any limit is hard
+-- - adds ot_cap_exceptions: extra monthly hours for one employee, requested
+--   with a justification by HR or management and decided by someone else
+-- - records threshold_violations on every request and blocks hard
+--   violations at submission and at every approval step
+-- - adds get_ot_hours_summary() for the remaining hours shown on SubmitOT
+
+-- 1) Statutory cap
+ALTER TABLE public.ot_settings
+  ADD COLUMN IF NOT EXISTS statutory_monthly_cap_hours numeric(6,2) NOT NULL DEFAULT 104
+    CHECK (statutory_monthly_cap_hours > 0);
+
+-- 2) Hard or soft limits
+ALTER TABLE public.ot_approval_thresholds
+  ADD COLUMN IF NOT EXISTS daily_limit_mode text NOT NULL DEFAULT 'soft'
+    CHECK (daily_limit_mode IN ('soft', 'hard')),
+  ADD COLUMN IF NOT EXISTS weekly_limit_mode text NOT NULL DEFAULT 'soft'
+    CHECK (weekly_limit_mode IN ('soft', 'hard')),
+  ADD COLUMN IF NOT EXISTS monthly_limit_mode text NOT NULL DEFAULT 'soft'
+    CHECK (monthly_limit_mode IN ('soft', 'hard')),
+  ADD COLUMN IF NOT EXISTS amount_limit_mode text NOT NULL DEFAULT 'soft'
+    CHECK (amount_limit_mode IN ('soft', 'hard'));
+
+-- Thresholds that asked to auto-block now block on every limit. Once the
+-- sync trigger below exists, auto_block_enabled with no hard limit only
+-- matches rows from before this migration.
+UPDATE public.ot_approval_thresholds
+SET daily_limit_mode = 'hard',
+    weekly_limit_mode = 'hard',
+    monthly_limit_mode = 'hard',
+    amount_limit_mode = 'hard'
+WHERE auto_block_enabled
+  AND 'hard' NOT IN (daily_limit_mode, weekly_limit_mode, monthly_limit_mode, amount_limit_mode);
+
+CREATE OR REPLACE FUNCTION public.sync_threshold_auto_block()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.auto_block_enabled :=
+    'hard' IN (NEW.daily_limit_mode, NEW.weekly_limit_mode, NEW.monthly_limit_mode, NEW.amount_limit_mode);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_sync_threshold_auto_block ON public.ot_approval_thresholds;
+CREATE TRIGGER trg_sync_threshold_auto_block
+  BEFORE INSERT OR UPDATE ON public.ot_approval_thresholds
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_threshold_auto_block();
+
+-- 3) Cap exceptions
+CREATE TABLE IF NOT EXISTS public.ot_cap_exceptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  employee_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  month date NOT NULL CHECK (month = date_trunc('month', month)::date),
+  extra_hours numeric(6,2) NOT NULL CHECK (extra_hours > 0),
+  justification text NOT NULL CHECK (length(btrim(justification)) >= 20),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  requested_by uuid NOT NULL REFERENCES public.profiles(id),
+  decided_by uuid REFERENCES public.profiles(id),
+  decided_at timestamptz,
+  decision_note text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ot_cap_exceptions_employee_month
+  ON public.ot_cap_exceptions(employee_id, month);
+
+ALTER TABLE public.ot_cap_exceptions ENABLE ROW LEVEL SECURITY;
+
+-- Written only through request/decide_ot_cap_exception
+DROP POLICY IF EXISTS "Cap exceptions readable by employee, HR and management" ON public.ot_cap_exceptions;
+CREATE POLICY "Cap exceptions readable by employee, HR and management"
+  ON public.ot_cap_exceptions FOR SELECT TO authenticated
+  USING (
+    employee_id = auth.uid()
+    OR has_role(auth.uid(), 'hr'::app_role)
+    OR has_role(auth.uid(), 'management'::app_role)
+    OR has_role(auth.uid(), 'admin'::app_role)
+  );
+
+-- Approved extra hours for an employee's month
+CREATE OR REPLACE FUNCTION public.get_ot_cap_exception_hours(p_employee_id uuid, p_date date)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(extra_hours), 0)
+  FROM ot_cap_exceptions
+  WHERE employee_id = p_employee_id
+    AND month = date_trunc('month', p_date)::date
+    AND status = 'approved';
+$$;
+
+CREATE OR REPLACE FUNCTION public.request_ot_cap_exception(
+  p_employee_id uuid,
+  p_month date,
+  p_extra_hours numeric,
+  p_justification text
+)
+RETURNS public.ot_cap_exceptions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_exception ot_cap_exceptions;
+BEGIN
+  IF NOT (
+    has_role(auth.uid(), 'hr'::app_role)
+    OR has_role(auth.uid(), 'management'::app_role)
+    OR has_role(auth.uid(), 'admin'::app_role)
+  ) THEN
+    RAISE EXCEPTION 'Only HR or management can request an OT cap exception'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF length(btrim(COALESCE(p_justification, ''))) < 20 THEN
+    RAISE EXCEPTION 'Explain why the cap must be exceeded (at least 20 characters)'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM ot_cap_exceptions
+    WHERE employee_id = p_employee_id
+      AND month = date_trunc('month', p_month)::date
+      AND status = 'pending'
+  ) THEN
+    RAISE EXCEPTION 'An exception for this employee and month is already waiting for a decision'
+      USING ERRCODE = 'object_not_in_prerequisite_state';
+  END IF;
+
+  INSERT INTO ot_cap_exceptions (employee_id, month, extra_hours, justification, requested_by)
+  VALUES (p_employee_id, date_trunc('month', p_month)::date, p_extra_hours, btrim(p_justification), auth.uid())
+  RETURNING * INTO v_exception;
+
+  RETURN v_exception;
+END;
+$$;
+
+-- Someone other than the requester decides, so no one lifts a cap alone
+CREATE OR REPLACE FUNCTION public.decide_ot_cap_exception(
+  p_exception_id uuid,
+  p_approve boolean,
+  p_note text DEFAULT NULL
+)
+RETURNS public.ot_cap_exceptions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_exception ot_cap_exceptions;
+BEGIN
+  IF NOT (
+    has_role(auth.uid(), 'hr'::app_role)
+    OR has_role(auth.uid(), 'management'::app_role)
+    OR has_role(auth.uid(), 'admin'::app_role)
+  ) THEN
+    RAISE EXCEPTION 'Only HR or management can decide an OT cap exception'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO v_exception FROM ot_cap_exceptions WHERE id = p_exception_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'OT cap exception % not found', p_exception_id
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF v_exception.status <> 'pending' THEN
+    RAISE EXCEPTION 'This exception has already been %', v_exception.status
+      USING ERRCODE = 'object_not_in_prerequisite_state';
+  END IF;
+
+  IF v_exception.requested_by = auth.uid() THEN
+    RAISE EXCEPTION 'An exception must be decided by someone other than the person who requested it'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE ot_cap_exceptions
+  SET status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+      decided_by = auth.uid(),
+      decided_at = now(),
+      decision_note = NULLIF(btrim(COALESCE(p_note, '')), '')
+  WHERE id = p_exception_id
+  RETURNING * INTO v_exception;
+
+  RETURN v_exception;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.request_ot_cap_exception(uuid, date, numeric, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.decide_ot_cap_exception(uuid, boolean, text) TO authenticated;
+
+-- 4) Violations, hard and soft. Approved exceptions raise both monthly hour
+-- limits. _exclude_request_id leaves out a request being rechecked. Also
+-- fixes thresholds without departments never applying (array_length of an
+-- empty array is NULL, not 0) and the weekly window spanning 9 days.
+DROP FUNCTION IF EXISTS public.check_threshold_violations(uuid, numeric, date);
+
+CREATE OR REPLACE FUNCTION public.check_threshold_violations(
+  _employee_id uuid,
+  _requested_hours numeric,
+  _requested_date date,
+  _exclude_request_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  t record;
+  dept uuid;
+  d numeric;
+  w numeric;
+  m numeric;
+  amt numeric;
+  v_cap numeric;
+  v_extra numeric;
+  violations jsonb := '[]'::jsonb;
+BEGIN
+  SELECT department_id INTO dept FROM profiles WHERE id = _employee_id;
+
+  SELECT COALESCE(SUM(total_hours), 0) + _requested_hours,
+         COALESCE(SUM(ot_amount), 0)
+  INTO m, amt
+  FROM ot_requests
+  WHERE employee_id = _employee_id
+    AND date_trunc('month', ot_date) = date_trunc('month', _requested_date)
+    AND status <> 'rejected'
+    AND id IS DISTINCT FROM _exclude_request_id;
+
+  v_extra := get_ot_cap_exception_hours(_employee_id, _requested_date);
+
+  SELECT statutory_monthly_cap_hours INTO v_cap FROM ot_settings LIMIT 1;
+  v_cap := COALESCE(v_cap, 104) + v_extra;
+
+  IF m > v_cap THEN
+    violations := violations || jsonb_build_object(
+      'type', 'statutory_monthly',
+      'limit', v_cap,
+      'current', m,
+      'exceeded_by', m - v_cap,
+      'hard', true
+    );
+  END IF;
+
+  SELECT * INTO t
+  FROM ot_approval_thresholds
+  WHERE is_active
+    AND (array_length(applies_to_department_ids, 1) IS NULL OR dept = ANY(applies_to_department_ids))
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'violations', violations,
+      'auto_block', jsonb_array_length(violations) > 0,
+      'threshold_name', NULL
+    );
+  END IF;
+
+  -- Daily check
+  SELECT COALESCE(SUM(total_hours), 0) + _requested_hours INTO d
+  FROM ot_requests
+  WHERE employee_id = _employee_id
+    AND ot_date = _requested_date
+    AND status <> 'rejected'
+    AND id IS DISTINCT FROM _exclude_request_id;
+
+  IF d > t.daily_limit_hours THEN
+    violations := violations || jsonb_build_object(
+      'type', 'daily',
+      'limit', t.daily_limit_hours,
+      'current', d,
+      'exceeded_by', d - t.daily_limit_hours,
+      'hard', t.daily_limit_mode = 'hard'
+    );
+  END IF;
+
+  -- Weekly check
+  SELECT COALESCE(SUM(total_hours), 0) + _requested_hours INTO w
+  FROM ot_requests
+  WHERE employee_id = _employee_id
+    AND ot_date >= _requested_date - INTERVAL '6 days'
+    AND ot_date <= _requested_date
+    AND status <> 'rejected'
+    AND id IS DISTINCT FROM _exclude_request_id;
+
+  IF w > t.weekly_limit_hours THEN
+    violations := violations || jsonb_build_object(
+      'type', 'weekly',
+      'limit', t.weekly_limit_hours,
+      'current', w,
+      'exceeded_by', w - t.weekly_limit_hours,
+      'hard', t.weekly_limit_mode = 'hard'
+    );
+  END IF;
+
+  -- Monthly check (hours and amount)
+  IF m > t.monthly_limit_hours + v_extra THEN
+    violations := violations || jsonb_build_object(
+      'type', 'monthly_hours',
+      'limit', t.monthly_limit_hours + v_extra,
+      'current', m,
+      'exceeded_by', m - t.monthly_limit_hours - v_extra,
+      'hard', t.monthly_limit_mode = 'hard'
+    );
+  END IF;
+
+  IF amt > t.max_claimable_amount THEN
+    violations := violations || jsonb_build_object(
+      'type', 'monthly_amount',
+      'limit', t.max_claimable_amount,
+      'current', amt,
+      'exceeded_by', amt - t.max_claimable_amount,
+      'hard', t.amount_limit_mode = 'hard'
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'violations', violations,
+    'auto_block', EXISTS (
+      SELECT 1 FROM jsonb_array_elements(violations) v WHERE (v ->> 'hard')::boolean
+    ),
+    'threshold_name', t.threshold_name
+  );
+END;
+$$;
+
+-- 5) Enforcement on submission and at every approval step
+CREATE OR REPLACE FUNCTION public.describe_ot_limit_violation(p_violation jsonb, p_date date)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_violation ->> 'type'
+    WHEN 'statutory_monthly' THEN format(
+      'OT for %s would reach %s hours, over the statutory cap of %s hours a month. HR or management can request an exception.',
+      to_char(p_date, 'FMMonth YYYY'), p_violation ->> 'current', p_violation ->> 'limit')
+    WHEN 'monthly_hours' THEN format(
+      'OT for %s would reach %s hours, over the monthly limit of %s hours.',
+      to_char(p_date, 'FMMonth YYYY'), p_violation ->> 'current', p_violation ->> 'limit')
+    WHEN 'weekly' THEN format(
+      'OT in the 7 days to %s would reach %s hours, over the weekly limit of %s hours.',
+      to_char(p_date, 'DD Mon YYYY'), p_violation ->> 'current', p_violation ->> 'limit')
+    WHEN 'daily' THEN format(
+      'OT on %s would reach %s hours, over the daily limit of %s hours.',
+      to_char(p_date, 'DD Mon YYYY'), p_violation ->> 'current', p_violation ->> 'limit')
+    ELSE format(
+      'OT claimed for %s already totals RM %s, over the monthly limit of RM %s.',
+      to_char(p_date, 'FMMonth YYYY'), p_violation ->> 'current', p_violation ->> 'limit')
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_ot_hour_limits()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_check jsonb;
+  v_hard jsonb;
+BEGIN
+  IF NEW.status = 'rejected' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+     AND NEW.status IS NOT DISTINCT FROM OLD.status
+     AND NEW.total_hours IS NOT DISTINCT FROM OLD.total_hours
+     AND NEW.ot_date IS NOT DISTINCT FROM OLD.ot_date THEN
+    RETURN NEW;
+  END IF;
+
+  v_check := check_threshold_violations(NEW.employee_id, NEW.total_hours, NEW.ot_date, NEW.id);
+  NEW.threshold_violations := v_check;
+
+  SELECT v INTO v_hard
+  FROM jsonb_array_elements(v_check -> 'violations') v
+  WHERE (v ->> 'hard')::boolean
+  LIMIT 1;
+
+  IF v_hard IS NOT NULL THEN
+    RAISE EXCEPTION '%', CASE WHEN TG_OP = 'UPDATE' THEN NEW.ticket_number || ': ' ELSE '' END
+      || describe_ot_limit_violation(v_hard, NEW.ot_date)
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_enforce_ot_hour_limits ON public.ot_requests;
+CREATE TRIGGER trg_enforce_ot_hour_limits
+  BEFORE INSERT OR UPDATE OF status, total_hours, ot_date ON public.ot_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_ot_hour_limits();
+
+-- 6) Hours used and the limits that apply, for the employee's own view
+CREATE OR REPLACE FUNCTION public.get_ot_hours_summary(p_employee_id uuid, p_month date)
+RETURNS TABLE (
+  month date,
+  used_hours numeric,
+  statutory_cap_hours numeric,
+  exception_hours numeric,
+  monthly_limit_hours numeric,
+  monthly_limit_mode text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_dept uuid;
+BEGIN
+  IF p_employee_id IS DISTINCT FROM auth.uid()
+     AND NOT (
+       has_role(auth.uid(), 'hr'::app_role)
+       OR has_role(auth.uid(), 'management'::app_role)
+       OR has_role(auth.uid(), 'admin'::app_role)
+     ) THEN
+    RAISE EXCEPTION 'Not allowed to view OT hours for this employee'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT department_id INTO v_dept FROM profiles WHERE id = p_employee_id;
+
+  RETURN QUERY
+  SELECT
+    date_trunc('month', p_month)::date,
+    (
+      SELECT COALESCE(SUM(r.total_hours), 0)
+      FROM ot_requests r
+      WHERE r.employee_id = p_employee_id
+        AND date_trunc('month', r.ot_date) = date_trunc('month', p_month)
+        AND r.status <> 'rejected'
+    ),
+    COALESCE((SELECT s.statutory_monthly_cap_hours FROM ot_settings s LIMIT 1), 104),
+    get_ot_cap_exception_hours(p_employee_id, p_month),
+    t.monthly_limit_hours,
+    t.monthly_limit_mode
+  FROM (SELECT 1) AS one
+  LEFT JOIN LATERAL (
+    SELECT th.monthly_limit_hours, th.monthly_limit_mode
+    FROM ot_approval_thresholds th
+    WHERE th.is_active
+      AND (array_length(th.applies_to_department_ids, 1) IS NULL OR v_dept = ANY(th.applies_to_department_ids))
+    ORDER BY th.created_at DESC
+    LIMIT 1
+  ) t ON true;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_ot_hours_summary(uuid, date) TO authenticated;
@@ -0,0 +1,128 @@
+-- Monthly OT budgets per department and per company
+--
+-- Dashboards only showed what had been spent. This migration:
+-- - adds ot_budgets: a monthly OT amount for one department or one company,
+--   maintained by HR and management
+-- - adds get_ot_budget_status(), which reports each budget against the
+--   ot_amount of its month's requests: approved (HR certified or management
+--   approved), pending (any other non-rejected status) and committed (both)
+--
+-- Spend is attributed by ot_date and the employee's current department and
+-- company. Forecasts and approval warnings are computed in the app from this.
+
+-- 1) Budgets
+CREATE TABLE IF NOT EXISTS public.ot_budgets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id uuid REFERENCES public.companies(id) ON DELETE CASCADE,
+  department_id uuid REFERENCES public.departments(id) ON DELETE CASCADE,
+  month date NOT NULL CHECK (month = date_trunc('month', month)::date),
+  amount numeric(12,2) NOT NULL CHECK (amount >= 0),
+  notes text,
+  created_by uuid REFERENCES public.profiles(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT ot_budgets_one_scope CHECK ((company_id IS NULL) <> (department_id IS NULL))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ot_budgets_company_month
+  ON public.ot_budgets(company_id, month) WHERE company_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ot_budgets_department_month
+  ON public.ot_budgets(department_id, month) WHERE department_id IS NOT NULL;
+
+DROP TRIGGER IF EXISTS update_ot_budgets_updated_at ON public.ot_budgets;
+CREATE TRIGGER update_ot_budgets_updated_at
+  BEFORE UPDATE ON public.ot_budgets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.ot_budgets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "OT budgets readable by HR and management" ON public.ot_budgets;
+CREATE POLICY "OT budgets readable by HR and management"
+  ON public.ot_budgets FOR SELECT TO authenticated
+  USING (
+    has_role(auth.uid(), 'hr'::app_role)
+    OR has_role(auth.uid(), 'management'::app_role)
+    OR has_role(auth.uid(), 'admin'::app_role)
+  );
+
+DROP POLICY IF EXISTS "OT budgets managed by HR and management" ON public.ot_budgets;
+CREATE POLICY "OT budgets managed by HR and management"
+  ON public.ot_budgets FOR ALL TO authenticated
+  USING (
+    has_role(auth.uid(), 'hr'::app_role)
+    OR has_role(auth.uid(), 'management'::app_role)
+    OR has_role(auth.uid(), 'admin'::app_role)
+  )
+  WITH CHECK (
+    has_role(auth.uid(), 'hr'::app_role)
+    OR has_role(auth.uid(), 'management'::app_role)
+    OR has_role(auth.uid(), 'admin'::app_role)
+  );
+
+-- 2) Budget status
+-- Every approver sees the budgets so the approval table can warn before a
+-- decision takes a department over; only the totals are exposed.
+CREATE OR REPLACE FUNCTION public.get_ot_budget_status(p_from date, p_to date)
+RETURNS TABLE (
+  budget_id uuid,
+  company_id uuid,
+  department_id uuid,
+  scope_name text,
+  month date,
+  budget_amount numeric,
+  approved_amount numeric,
+  pending_amount numeric,
+  committed_amount numeric,
+  notes text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (
+    has_role(auth.uid(), 'supervisor'::app_role)
+    OR has_role(auth.uid(), 'hr'::app_role)
+    OR has_role(auth.uid(), 'management'::app_role)
+    OR has_role(auth.uid(), 'admin'::app_role)
+    OR has_role(auth.uid(), 'bod'::app_role)
+    OR EXISTS (SELECT 1 FROM departments d WHERE d.head_id = auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to view OT budgets'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    b.id,
+    b.company_id,
+    b.department_id,
+    COALESCE(d.name, c.name),
+    b.month,
+    b.amount,
+    COALESCE(s.approved, 0),
+    COALESCE(s.pending, 0),
+    COALESCE(s.approved, 0) + COALESCE(s.pending, 0),
+    b.notes
+  FROM ot_budgets b
+  LEFT JOIN departments d ON d.id = b.department_id
+  LEFT JOIN companies c ON c.id = b.company_id
+  LEFT JOIN LATERAL (
+    SELECT
+      SUM(r.ot_amount) FILTER (WHERE r.status IN ('hr_certified', 'management_approved')) AS approved,
+      SUM(r.ot_amount) FILTER (WHERE r.status NOT IN ('hr_certified', 'management_approved')) AS pending
+    FROM ot_requests r
+    JOIN profiles p ON p.id = r.employee_id
+    WHERE r.status <> 'rejected'
+      AND date_trunc('month', r.ot_date)::date = b.month
+      AND (p.department_id = b.department_id OR p.company_id = b.company_id)
+  ) s ON true
+  WHERE b.month BETWEEN date_trunc('month', p_from)::date AND date_trunc('month', p_to)::date
+  ORDER BY b.month, (b.department_id IS NULL), COALESCE(d.name, c.name);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_ot_budget_status(date, date) TO authenticated;
@@ -0,0 +1,139 @@
+-- Cost centres and project codes on OT sessions
+--
+-- Finance allocates OT cost back to the projects, work orders and client
+-- cost centres it was worked for. This migration:
+-- - adds cost_centres, the master list maintained in HR settings
+-- - adds ot_session_cost_allocations: the codes an OT session is charged to,
+--   split by hours. A session's cost is shared in proportion to the hours
+--   allocated, so later edits to its hours keep the split.
+-- - adds set_ot_cost_allocations(), which replaces a session's allocations
+--   after checking they add up to its hours
+
+-- 1) Master list
+CREATE TABLE IF NOT EXISTS public.cost_centres (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text NOT NULL UNIQUE CHECK (length(btrim(code)) > 0),
+  name text NOT NULL,
+  kind text NOT NULL DEFAULT 'cost_centre' CHECK (kind IN ('cost_centre', 'project', 'work_order')),
+  client_name text,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+DROP TRIGGER IF EXISTS update_cost_centres_updated_at ON public.cost_centres;
+CREATE TRIGGER update_cost_centres_updated_at
+  BEFORE UPDATE ON public.cost_centres
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.cost_centres ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Cost centres readable by authenticated users" ON public.cost_centres;
+CREATE POLICY "Cost centres readable by authenticated users"
+  ON public.cost_centres FOR SELECT TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Cost centres managed by HR" ON public.cost_centres;
+CREATE POLICY "Cost centres managed by HR"
+  ON public.cost_centres FOR ALL TO authenticated
+  USING (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role));
+
+-- 2) Allocations
+CREATE TABLE IF NOT EXISTS public.ot_session_cost_allocations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  ot_request_id uuid NOT NULL REFERENCES public.ot_requests(id) ON DELETE CASCADE,
+  cost_centre_id uuid NOT NULL REFERENCES public.cost_centres(id),
+  hours numeric(5,2) NOT NULL CHECK (hours > 0),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (ot_request_id, cost_centre_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ot_session_cost_allocations_cost_centre
+  ON public.ot_session_cost_allocations(cost_centre_id);
+
+ALTER TABLE public.ot_session_cost_allocations ENABLE ROW LEVEL SECURITY;
+
+-- Visible wherever the session is; written only through set_ot_cost_allocations
+DROP POLICY IF EXISTS "Cost allocations readable with their session" ON public.ot_session_cost_allocations;
+CREATE POLICY "Cost allocations readable with their session"
+  ON public.ot_session_cost_allocations FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.ot_requests r WHERE r.id = ot_request_id));
+
+-- 3) Setting a session's allocations
+-- p_allocations: [{ "cost_centre_id": uuid, "hours": number }, ...]. The
+-- employee may change them until HR certifies; HR at any time.
+CREATE OR REPLACE FUNCTION public.set_ot_cost_allocations(p_request_id uuid, p_allocations jsonb)
+RETURNS SETOF public.ot_session_cost_allocations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request ot_requests;
+  v_total numeric;
+BEGIN
+  SELECT * INTO v_request FROM ot_requests WHERE id = p_request_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'OT request % not found', p_request_id
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF NOT (
+    has_role(auth.uid(), 'hr'::app_role)
+    OR has_role(auth.uid(), 'admin'::app_role)
+    OR (
+      v_request.employee_id = auth.uid()
+      AND v_request.status NOT IN ('hr_certified', 'management_approved', 'rejected')
+    )
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to change the cost allocation of this OT request'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF jsonb_typeof(p_allocations) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Allocations must be a list'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_allocations) a
+    WHERE COALESCE((a->>'hours')::numeric, 0) <= 0
+  ) THEN
+    RAISE EXCEPTION 'Every cost allocation needs a positive number of hours'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_allocations) a
+    LEFT JOIN cost_centres c ON c.id = (a->>'cost_centre_id')::uuid
+    WHERE c.id IS NULL OR NOT c.is_active
+  ) THEN
+    RAISE EXCEPTION 'Cost centres must exist and be active'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT COALESCE(SUM((a->>'hours')::numeric), 0) INTO v_total
+  FROM jsonb_array_elements(p_allocations) a;
+
+  IF jsonb_array_length(p_allocations) > 0 AND abs(v_total - v_request.total_hours) > 0.01 THEN
+    RAISE EXCEPTION 'Allocated hours (%) must add up to the session''s % hours', v_total, v_request.total_hours
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  DELETE FROM ot_session_cost_allocations WHERE ot_request_id = p_request_id;
+
+  RETURN QUERY
+  INSERT INTO ot_session_cost_allocations (ot_request_id, cost_centre_id, hours)
+  SELECT p_request_id, (a->>'cost_centre_id')::uuid, SUM((a->>'hours')::numeric)
+  FROM jsonb_array_elements(p_allocations) a
+  GROUP BY (a->>'cost_centre_id')::uuid
+  RETURNING *;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_ot_cost_allocations(uuid, jsonb) TO authenticated;
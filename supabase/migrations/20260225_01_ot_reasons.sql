@@ -0,0 +1,393 @@
+-- Configurable OT reason catalogue with per-reason rules
+--
+-- The reason dropdown was a fixed list in OTForm. This migration:
+-- - adds ot_reasons, managed by HR, optionally limited to one company and to
+--   some departments, each with its own rules:
+--   - requires_details: the employee explains in free text (the old "Other")
+--   - requires_attachment: at least one attachment
+--   - requires_respective_supervisor: an instructing supervisor must be
+--     named, so the request follows Route B
+--   - max_hours: the longest session claimable under the reason
+--   - counts_toward_limits: whether the hours count toward the statutory
+--     cap and the configured OT limits
+-- - seeds the reasons that were hard-coded and links existing requests
+-- - adds ot_requests.reason_id, checked against the rules on submission and
+--   whenever the session changes
+-- - leaves requests under reasons that don't count out of
+--   check_threshold_violations, enforce_ot_hour_limits and
+--   get_ot_hours_summary
+
+-- 1) Catalogue
+CREATE TABLE IF NOT EXISTS public.ot_reasons (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  label text NOT NULL CHECK (length(btrim(label)) > 0),
+  description text,
+  company_id uuid REFERENCES public.companies(id) ON DELETE CASCADE,
+  applies_to_department_ids uuid[] NOT NULL DEFAULT '{}',
+  requires_details boolean NOT NULL DEFAULT false,
+  requires_attachment boolean NOT NULL DEFAULT false,
+  requires_respective_supervisor boolean NOT NULL DEFAULT false,
+  max_hours numeric(5,2) CHECK (max_hours IS NULL OR max_hours > 0),
+  counts_toward_limits boolean NOT NULL DEFAULT true,
+  sort_order integer NOT NULL DEFAULT 0,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+DROP TRIGGER IF EXISTS update_ot_reasons_updated_at ON public.ot_reasons;
+CREATE TRIGGER update_ot_reasons_updated_at
+  BEFORE UPDATE ON public.ot_reasons
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.ot_reasons ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "OT reasons readable by authenticated users" ON public.ot_reasons;
+CREATE POLICY "OT reasons readable by authenticated users"
+  ON public.ot_reasons FOR SELECT TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "OT reasons managed by HR" ON public.ot_reasons;
+CREATE POLICY "OT reasons managed by HR"
+  ON public.ot_reasons FOR ALL TO authenticated
+  USING (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role));
+
+INSERT INTO public.ot_reasons (label, requires_details, sort_order)
+SELECT v.label, v.requires_details, v.sort_order
+FROM (VALUES
+  ('System maintenance', false, 10),
+  ('Project deadline', false, 20),
+  ('Unexpected breakdown', false, 30),
+  ('Client support', false, 40),
+  ('Staff shortage', false, 50),
+  ('Other', true, 100)
+) AS v(label, requires_details, sort_order)
+WHERE NOT EXISTS (SELECT 1 FROM public.ot_reasons);
+
+-- 2) Requests
+ALTER TABLE public.ot_requests
+  ADD COLUMN IF NOT EXISTS reason_id uuid REFERENCES public.ot_reasons(id);
+
+CREATE INDEX IF NOT EXISTS idx_ot_requests_reason_id ON public.ot_requests(reason_id);
+
+-- "Other" requests stored the employee's own text as the reason. OT in
+-- locked payroll periods is backfilled too (enforce_payroll_period_lock).
+SELECT set_config('otms.payroll_lock_bypass', 'on', true);
+
+UPDATE public.ot_requests r
+SET reason_id = COALESCE(
+  (SELECT id FROM public.ot_reasons WHERE label = r.reason AND company_id IS NULL LIMIT 1),
+  (SELECT id FROM public.ot_reasons WHERE label = 'Other' AND company_id IS NULL LIMIT 1)
+)
+WHERE r.reason_id IS NULL;
+
+SELECT set_config('otms.payroll_lock_bypass', 'off', true);
+
+CREATE OR REPLACE FUNCTION public.ot_reason_counts_toward_limits(p_reason_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((SELECT counts_toward_limits FROM ot_reasons WHERE id = p_reason_id), true);
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_ot_reason_rules()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reason ot_reasons;
+  v_profile profiles;
+BEGIN
+  IF NEW.reason_id IS NULL OR NEW.status = 'rejected' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_reason FROM ot_reasons WHERE id = NEW.reason_id;
+
+  -- The reason must be offered to the employee when it is first chosen
+  IF TG_OP = 'INSERT' OR NEW.reason_id IS DISTINCT FROM OLD.reason_id THEN
+    SELECT * INTO v_profile FROM profiles WHERE id = NEW.employee_id;
+
+    IF NOT v_reason.is_active
+       OR (v_reason.company_id IS NOT NULL AND v_reason.company_id IS DISTINCT FROM v_profile.company_id)
+       OR (cardinality(v_reason.applies_to_department_ids) > 0
+           AND NOT COALESCE(v_profile.department_id = ANY(v_reason.applies_to_department_ids), false)) THEN
+      RAISE EXCEPTION 'The reason "%" is not available for this employee', v_reason.label
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  IF v_reason.requires_attachment AND cardinality(COALESCE(NEW.attachment_urls, '{}')) = 0 THEN
+    RAISE EXCEPTION 'OT for "%" needs an attachment', v_reason.label
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF v_reason.requires_respective_supervisor AND NEW.respective_supervisor_id IS NULL THEN
+    RAISE EXCEPTION 'OT for "%" must name the supervisor who instructed it', v_reason.label
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF v_reason.max_hours IS NOT NULL AND NEW.total_hours > v_reason.max_hours THEN
+    RAISE EXCEPTION 'OT for "%" is limited to % hours a session', v_reason.label, v_reason.max_hours
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_enforce_ot_reason_rules ON public.ot_requests;
+CREATE TRIGGER trg_enforce_ot_reason_rules
+  BEFORE INSERT OR UPDATE OF reason_id, total_hours, attachment_urls, respective_supervisor_id ON public.ot_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_ot_reason_rules();
+
+-- 3) Limits leave out reasons that don't count
+CREATE OR REPLACE FUNCTION public.check_threshold_violations(
+  _employee_id uuid,
+  _requested_hours numeric,
+  _requested_date date,
+  _exclude_request_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  t record;
+  dept uuid;
+  d numeric;
+  w numeric;
+  m numeric;
+  amt numeric;
+  v_cap numeric;
+  v_extra numeric;
+  violations jsonb := '[]'::jsonb;
+BEGIN
+  SELECT department_id INTO dept FROM profiles WHERE id = _employee_id;
+
+  SELECT COALESCE(SUM(total_hours), 0) + _requested_hours,
+         COALESCE(SUM(ot_amount), 0)
+  INTO m, amt
+  FROM ot_requests
+  WHERE employee_id = _employee_id
+    AND date_trunc('month', ot_date) = date_trunc('month', _requested_date)
+    AND status <> 'rejected'
+    AND id IS DISTINCT FROM _exclude_request_id
+    AND ot_reason_counts_toward_limits(reason_id);
+
+  v_extra := get_ot_cap_exception_hours(_employee_id, _requested_date);
+
+  SELECT statutory_monthly_cap_hours INTO v_cap FROM ot_settings LIMIT 1;
+  v_cap := COALESCE(v_cap, 104) + v_extra;
+
+  IF m > v_cap THEN
+    violations := violations || jsonb_build_object(
+      'type', 'statutory_monthly',
+      'limit', v_cap,
+      'current', m,
+      'exceeded_by', m - v_cap,
+      'hard', true
+    );
+  END IF;
+
+  SELECT * INTO t
+  FROM ot_approval_thresholds
+  WHERE is_active
+    AND (array_length(applies_to_department_ids, 1) IS NULL OR dept = ANY(applies_to_department_ids))
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'violations', violations,
+      'auto_block', jsonb_array_length(violations) > 0,
+      'threshold_name', NULL
+    );
+  END IF;
+
+  -- Daily check
+  SELECT COALESCE(SUM(total_hours), 0) + _requested_hours INTO d
+  FROM ot_requests
+  WHERE employee_id = _employee_id
+    AND ot_date = _requested_date
+    AND status <> 'rejected'
+    AND id IS DISTINCT FROM _exclude_request_id
+    AND ot_reason_counts_toward_limits(reason_id);
+
+  IF d > t.daily_limit_hours THEN
+    violations := violations || jsonb_build_object(
+      'type', 'daily',
+      'limit', t.daily_limit_hours,
+      'current', d,
+      'exceeded_by', d - t.daily_limit_hours,
+      'hard', t.daily_limit_mode = 'hard'
+    );
+  END IF;
+
+  -- Weekly check
+  SELECT COALESCE(SUM(total_hours), 0) + _requested_hours INTO w
+  FROM ot_requests
+  WHERE employee_id = _employee_id
+    AND ot_date >= _requested_date - INTERVAL '6 days'
+    AND ot_date <= _requested_date
+    AND status <> 'rejected'
+    AND id IS DISTINCT FROM _exclude_request_id
+    AND ot_reason_counts_toward_limits(reason_id);
+
+  IF w > t.weekly_limit_hours THEN
+    violations := violations || jsonb_build_object(
+      'type', 'weekly',
+      'limit', t.weekly_limit_hours,
+      'current', w,
+      'exceeded_by', w - t.weekly_limit_hours,
+      'hard', t.weekly_limit_mode = 'hard'
+    );
+  END IF;
+
+  -- Monthly check (hours and amount)
+  IF m > t.monthly_limit_hours + v_extra THEN
+    violations := violations || jsonb_build_object(
+      'type', 'monthly_hours',
+      'limit', t.monthly_limit_hours + v_extra,
+      'current', m,
+      'exceeded_by', m - t.monthly_limit_hours - v_extra,
+      'hard', t.monthly_limit_mode = 'hard'
+    );
+  END IF;
+
+  IF amt > t.max_claimable_amount THEN
+    violations := violations || jsonb_build_object(
+      'type', 'monthly_amount',
+      'limit', t.max_claimable_amount,
+      'current', amt,
+      'exceeded_by', amt - t.max_claimable_amount,
+      'hard', t.amount_limit_mode = 'hard'
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'violations', violations,
+    'auto_block', EXISTS (
+      SELECT 1 FROM jsonb_array_elements(violations) v WHERE (v ->> 'hard')::boolean
+    ),
+    'threshold_name', t.threshold_name
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_ot_hour_limits()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_check jsonb;
+  v_hard jsonb;
+BEGIN
+  IF NEW.status = 'rejected' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+     AND NEW.status IS NOT DISTINCT FROM OLD.status
+     AND NEW.total_hours IS NOT DISTINCT FROM OLD.total_hours
+     AND NEW.ot_date IS NOT DISTINCT FROM OLD.ot_date
+     AND NEW.reason_id IS NOT DISTINCT FROM OLD.reason_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT ot_reason_counts_toward_limits(NEW.reason_id) THEN
+    NEW.threshold_violations := '{}'::jsonb;
+    RETURN NEW;
+  END IF;
+
+  v_check := check_threshold_violations(NEW.employee_id, NEW.total_hours, NEW.ot_date, NEW.id);
+  NEW.threshold_violations := v_check;
+
+  SELECT v INTO v_hard
+  FROM jsonb_array_elements(v_check -> 'violations') v
+  WHERE (v ->> 'hard')::boolean
+  LIMIT 1;
+
+  IF v_hard IS NOT NULL THEN
+    RAISE EXCEPTION '%', CASE WHEN TG_OP = 'UPDATE' THEN NEW.ticket_number || ': ' ELSE '' END
+      || describe_ot_limit_violation(v_hard, NEW.ot_date)
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_enforce_ot_hour_limits ON public.ot_requests;
+CREATE TRIGGER trg_enforce_ot_hour_limits
+  BEFORE INSERT OR UPDATE OF status, total_hours, ot_date, reason_id ON public.ot_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_ot_hour_limits();
+
+CREATE OR REPLACE FUNCTION public.get_ot_hours_summary(p_employee_id uuid, p_month date)
+RETURNS TABLE (
+  month date,
+  used_hours numeric,
+  statutory_cap_hours numeric,
+  exception_hours numeric,
+  monthly_limit_hours numeric,
+  monthly_limit_mode text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_dept uuid;
+BEGIN
+  IF p_employee_id IS DISTINCT FROM auth.uid()
+     AND NOT (
+       has_role(auth.uid(), 'hr'::app_role)
+       OR has_role(auth.uid(), 'management'::app_role)
+       OR has_role(auth.uid(), 'admin'::app_role)
+     ) THEN
+    RAISE EXCEPTION 'Not allowed to view OT hours for this employee'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT department_id INTO v_dept FROM profiles WHERE id = p_employee_id;
+
+  RETURN QUERY
+  SELECT
+    date_trunc('month', p_month)::date,
+    (
+      SELECT COALESCE(SUM(r.total_hours), 0)
+      FROM ot_requests r
+      WHERE r.employee_id = p_employee_id
+        AND date_trunc('month', r.ot_date) = date_trunc('month', p_month)
+        AND r.status <> 'rejected'
+        AND ot_reason_counts_toward_limits(r.reason_id)
+    ),
+    COALESCE((SELECT s.statutory_monthly_cap_hours FROM ot_settings s LIMIT 1), 104),
+    get_ot_cap_exception_hours(p_employee_id, p_month),
+    t.monthly_limit_hours,
+    t.monthly_limit_mode
+  FROM (SELECT 1) AS one
+  LEFT JOIN LATERAL (
+    SELECT th.monthly_limit_hours, th.monthly_limit_mode
+    FROM ot_approval_thresholds th
+    WHERE th.is_active
+      AND (array_length(th.applies_to_department_ids, 1) IS NULL OR v_dept = ANY(th.applies_to_department_ids))
+    ORDER BY th.created_at DESC
+    LIMIT 1
+  ) t ON true;
+END;
+$$;
@@ -0,0 +1,17 @@
+-- Offline OT submissions
+--
+-- Employees on sites without signal submit OT from the PWA, which queues
+-- the submission on the device and replays it through submit-ot-request
+-- when connectivity returns. A replay can reach the server more than once
+-- (a response lost on a flaky connection, the service worker and the app
+-- replaying together). This migration:
+-- - adds ot_requests.client_submission_id, the id the device gave the
+--   queued submission, unique so the same submission is never stored twice
+
+-- 1) Device-side submission id
+ALTER TABLE public.ot_requests
+  ADD COLUMN IF NOT EXISTS client_submission_id uuid;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ot_requests_client_submission_id
+  ON public.ot_requests(client_submission_id)
+  WHERE client_submission_id IS NOT NULL;
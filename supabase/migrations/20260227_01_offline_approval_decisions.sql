@@ -0,0 +1,68 @@
+-- Offline approval decisions
+--
+-- Supervisors verifying OT on the plant floor lose connectivity. The PWA
+-- keeps their approval queue on the device and queues the decisions they
+-- make offline, replaying them in order when connectivity returns. A
+-- decision made on stale data must not land: the request may have been
+-- edited, withdrawn or acted on by someone else in the meantime. This
+-- migration:
+-- - adds transition_ot_request_if_unchanged, which applies a queued
+--   decision through transition_ot_request only if the request still has
+--   the status and updated_at the approver saw, and raises
+--   object_not_in_prerequisite_state otherwise
+
+-- 1) Guarded transition for queued decisions
+CREATE OR REPLACE FUNCTION public.transition_ot_request_if_unchanged(
+  p_request_id uuid,
+  p_expected_status ot_status,
+  p_expected_updated_at timestamptz,
+  p_to_status ot_status,
+  p_remarks text DEFAULT NULL,
+  p_rejection_stage text DEFAULT NULL
+)
+RETURNS TABLE (
+  request_id uuid,
+  from_status ot_status,
+  to_status ot_status,
+  actor text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request public.ot_requests;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'not authenticated';
+  END IF;
+
+  -- Held until the transition commits, so nothing can change in between
+  SELECT * INTO v_request
+  FROM public.ot_requests r
+  WHERE r.id = p_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'this OT request no longer exists'
+      USING ERRCODE = 'object_not_in_prerequisite_state';
+  END IF;
+
+  IF v_request.status IS DISTINCT FROM p_expected_status THEN
+    RAISE EXCEPTION '% changed to % since you were offline',
+      v_request.ticket_number, v_request.status
+      USING ERRCODE = 'object_not_in_prerequisite_state';
+  END IF;
+
+  IF v_request.updated_at IS DISTINCT FROM p_expected_updated_at THEN
+    RAISE EXCEPTION '% was updated since you were offline', v_request.ticket_number
+      USING ERRCODE = 'object_not_in_prerequisite_state';
+  END IF;
+
+  RETURN QUERY
+  SELECT t.request_id, t.from_status, t.to_status, t.actor
+  FROM public.transition_ot_request(ARRAY[p_request_id], p_to_status, p_remarks, p_rejection_stage) t;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.transition_ot_request_if_unchanged(uuid, ot_status, timestamptz, ot_status, text, text) TO authenticated;
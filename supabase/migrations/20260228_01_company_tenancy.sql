@@ -0,0 +1,603 @@
+-- Company tenancy: per-company roles and company-scoped data
+--
+-- companies, company_profile and company_config coexisted without a tenant
+-- model: roles were global, most tables had no company, and the holiday
+-- settings were keyed by the signed-in user's id. This migration:
+-- - adds user_company_roles, the roles a user holds in each company. Admin
+--   stays global in user_roles. user_roles keeps the roles in the user's own
+--   company (profiles.company_id) and is mirrored into user_company_roles, so
+--   invite-employee and the employee editor keep working unchanged
+-- - adds profiles.active_company_id, switched with set_active_company. Users
+--   act in one company at a time; has_role() now answers for the active
+--   company, so every existing role-based policy follows the switch
+-- - adds company_id to the tables that had none: employee-owned rows take
+--   their employee's company, configuration defaults to the active company
+-- - moves company_config and holiday_overrides from user ids to companies
+-- - adds a restrictive policy to every scoped table limiting it to the
+--   active company, on top of the existing role policies
+--
+-- Rows without a company (ot_reasons, approval_chains, ot_budgets and
+-- payroll export batches for the whole group) stay visible to every
+-- company, as before. Child tables (ot_request_events, shift_pattern_days,
+-- payroll_export_batch_items, ...) are reached through their parents.
+-- Rate formulas, eligibility rules, approval thresholds and SLAs stay
+-- group-wide: the OT calculation and SLA functions read them as one set.
+
+-- 1) Roles per company
+CREATE TABLE IF NOT EXISTS public.user_company_roles (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  company_id uuid NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  role app_role NOT NULL CHECK (role <> 'admin'),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (user_id, company_id, role)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_company_roles_company ON public.user_company_roles(company_id, role);
+
+INSERT INTO public.user_company_roles (user_id, company_id, role)
+SELECT ur.user_id, p.company_id, ur.role
+FROM public.user_roles ur
+JOIN public.profiles p ON p.id = ur.user_id
+WHERE p.company_id IS NOT NULL AND ur.role <> 'admin'
+ON CONFLICT (user_id, company_id, role) DO NOTHING;
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS active_company_id uuid REFERENCES public.companies(id) ON DELETE SET NULL;
+
+-- The company the signed-in user is acting in: the one they switched to,
+-- else their own, else the first company (single-entity installs)
+CREATE OR REPLACE FUNCTION public.active_company_id()
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT COALESCE(p.active_company_id, p.company_id) FROM public.profiles p WHERE p.id = auth.uid()),
+    (SELECT c.id FROM public.companies c ORDER BY c.created_at, c.id LIMIT 1)
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_company_role(_user_id uuid, _company_id uuid, _role app_role)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_company_roles
+    WHERE user_id = _user_id AND company_id = _company_id AND role = _role
+  )
+$$;
+
+-- Admin is global. Other roles count in the user's active company; users
+-- with no company roles at all (no company on their profile) keep their
+-- user_roles as before.
+CREATE OR REPLACE FUNCTION public.has_role(_user_id uuid, _role app_role)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN _role = 'admin' THEN EXISTS (
+      SELECT 1 FROM public.user_roles WHERE user_id = _user_id AND role = 'admin'
+    )
+    WHEN EXISTS (SELECT 1 FROM public.user_company_roles WHERE user_id = _user_id) THEN EXISTS (
+      SELECT 1
+      FROM public.user_company_roles ucr
+      JOIN public.profiles p ON p.id = ucr.user_id
+      WHERE ucr.user_id = _user_id
+        AND ucr.role = _role
+        AND ucr.company_id = COALESCE(p.active_company_id, p.company_id)
+    )
+    ELSE EXISTS (
+      SELECT 1 FROM public.user_roles WHERE user_id = _user_id AND role = _role
+    )
+  END
+$$;
+
+-- Companies the signed-in user may act in
+CREATE OR REPLACE FUNCTION public.my_company_ids()
+RETURNS SETOF uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT c.id FROM public.companies c
+  WHERE public.has_role(auth.uid(), 'admin'::app_role)
+    OR EXISTS (SELECT 1 FROM public.user_company_roles ucr WHERE ucr.user_id = auth.uid() AND ucr.company_id = c.id)
+    OR c.id = (SELECT p.company_id FROM public.profiles p WHERE p.id = auth.uid())
+$$;
+
+-- Keep user_company_roles in step with user_roles for the user's own
+-- company. set_company_roles writes both itself and sets the flag.
+CREATE OR REPLACE FUNCTION public.sync_user_company_roles()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_company_id uuid;
+BEGIN
+  IF current_setting('otms.company_roles_sync', true) = 'on' THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    SELECT company_id INTO v_company_id FROM public.profiles WHERE id = NEW.user_id;
+    IF NEW.role <> 'admin' AND v_company_id IS NOT NULL THEN
+      INSERT INTO public.user_company_roles (user_id, company_id, role)
+      VALUES (NEW.user_id, v_company_id, NEW.role)
+      ON CONFLICT (user_id, company_id, role) DO NOTHING;
+    END IF;
+  ELSE
+    SELECT company_id INTO v_company_id FROM public.profiles WHERE id = OLD.user_id;
+    DELETE FROM public.user_company_roles
+    WHERE user_id = OLD.user_id AND company_id = v_company_id AND role = OLD.role;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_user_company_roles ON public.user_roles;
+CREATE TRIGGER sync_user_company_roles
+  AFTER INSERT OR DELETE ON public.user_roles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_user_company_roles();
+
+-- An employee moved to another company takes their roles with them
+CREATE OR REPLACE FUNCTION public.move_user_company_roles()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.company_id IS NOT NULL THEN
+    DELETE FROM public.user_company_roles ucr
+    USING public.user_roles ur
+    WHERE ucr.user_id = NEW.id
+      AND ucr.company_id = OLD.company_id
+      AND ur.user_id = NEW.id
+      AND ur.role = ucr.role;
+  END IF;
+
+  IF NEW.company_id IS NOT NULL THEN
+    INSERT INTO public.user_company_roles (user_id, company_id, role)
+    SELECT NEW.id, NEW.company_id, ur.role
+    FROM public.user_roles ur
+    WHERE ur.user_id = NEW.id AND ur.role <> 'admin'
+    ON CONFLICT (user_id, company_id, role) DO NOTHING;
+  END IF;
+
+  NEW.active_company_id := NULL;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS move_user_company_roles ON public.profiles;
+CREATE TRIGGER move_user_company_roles
+  BEFORE UPDATE OF company_id ON public.profiles
+  FOR EACH ROW
+  WHEN (OLD.company_id IS DISTINCT FROM NEW.company_id)
+  EXECUTE FUNCTION public.move_user_company_roles();
+
+ALTER TABLE public.user_company_roles ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users read own company roles" ON public.user_company_roles;
+CREATE POLICY "Users read own company roles"
+  ON public.user_company_roles FOR SELECT TO authenticated
+  USING (
+    user_id = auth.uid()
+    OR has_role(auth.uid(), 'admin'::app_role)
+    OR has_company_role(auth.uid(), company_id, 'hr'::app_role)
+  );
+
+-- 2) Switching and assigning
+CREATE OR REPLACE FUNCTION public.set_active_company(p_company_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.my_company_ids() AS id WHERE id = p_company_id) THEN
+    RAISE EXCEPTION 'You have no role in this company' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.profiles SET active_company_id = p_company_id WHERE id = auth.uid();
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_my_companies()
+RETURNS TABLE (id uuid, name text, code text, roles app_role[], is_active boolean)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    c.id,
+    c.name,
+    c.code,
+    COALESCE(
+      (SELECT array_agg(ucr.role ORDER BY ucr.role)
+       FROM public.user_company_roles ucr
+       WHERE ucr.user_id = auth.uid() AND ucr.company_id = c.id),
+      '{}'
+    ),
+    c.id = public.active_company_id()
+  FROM public.companies c
+  WHERE c.id IN (SELECT public.my_company_ids())
+    AND (c.is_active IS DISTINCT FROM false OR c.id = public.active_company_id())
+  ORDER BY c.name
+$$;
+
+-- The signed-in user's roles in their active company, as has_role() sees them
+CREATE OR REPLACE FUNCTION public.get_my_roles()
+RETURNS SETOF app_role
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT r.role
+  FROM unnest(enum_range(NULL::app_role)) AS r(role)
+  WHERE public.has_role(auth.uid(), r.role)
+$$;
+
+-- Replaces a user's roles in one company. HR assign roles in the companies
+-- they administer; admin anywhere. Admin itself is granted elsewhere.
+CREATE OR REPLACE FUNCTION public.set_company_roles(p_user_id uuid, p_company_id uuid, p_roles app_role[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_home_company_id uuid;
+BEGIN
+  IF NOT (
+    has_role(auth.uid(), 'admin'::app_role)
+    OR has_company_role(auth.uid(), p_company_id, 'hr'::app_role)
+  ) THEN
+    RAISE EXCEPTION 'Only HR of this company can assign its roles' USING ERRCODE = '42501';
+  END IF;
+
+  IF 'admin' = ANY (p_roles) THEN
+    RAISE EXCEPTION 'Admin is not assigned per company' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_user_id = auth.uid() AND NOT ('hr' = ANY (p_roles)) AND NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'You cannot remove your own HR role' USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM set_config('otms.company_roles_sync', 'on', true);
+
+  DELETE FROM public.user_company_roles
+  WHERE user_id = p_user_id AND company_id = p_company_id AND NOT (role = ANY (p_roles));
+
+  INSERT INTO public.user_company_roles (user_id, company_id, role)
+  SELECT p_user_id, p_company_id, r
+  FROM unnest(p_roles) AS r
+  ON CONFLICT (user_id, company_id, role) DO NOTHING;
+
+  SELECT company_id INTO v_home_company_id FROM public.profiles WHERE id = p_user_id;
+  IF v_home_company_id = p_company_id THEN
+    DELETE FROM public.user_roles
+    WHERE user_id = p_user_id AND role <> 'admin' AND NOT (role = ANY (p_roles));
+
+    INSERT INTO public.user_roles (user_id, role)
+    SELECT p_user_id, r
+    FROM unnest(p_roles) AS r
+    ON CONFLICT (user_id, role) DO NOTHING;
+  END IF;
+
+  PERFORM set_config('otms.company_roles_sync', 'off', true);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.active_company_id() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.has_company_role(uuid, uuid, app_role) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.my_company_ids() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_active_company(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_my_companies() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_my_roles() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_company_roles(uuid, uuid, app_role[]) TO authenticated;
+
+-- Only admin creates companies; HR edit the ones they administer
+DROP POLICY IF EXISTS "HR/Admin can manage companies" ON public.companies;
+DROP POLICY IF EXISTS "Admin can manage companies" ON public.companies;
+CREATE POLICY "Admin can manage companies"
+  ON public.companies FOR ALL TO authenticated
+  USING (has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+DROP POLICY IF EXISTS "HR can update their companies" ON public.companies;
+CREATE POLICY "HR can update their companies"
+  ON public.companies FOR UPDATE TO authenticated
+  USING (has_company_role(auth.uid(), id, 'hr'::app_role))
+  WITH CHECK (has_company_role(auth.uid(), id, 'hr'::app_role));
+
+-- 3) Employee-owned rows belong to their employee's company
+ALTER TABLE public.ot_requests ADD COLUMN IF NOT EXISTS company_id uuid REFERENCES public.companies(id);
+ALTER TABLE public.ot_request_drafts ADD COLUMN IF NOT EXISTS company_id uuid REFERENCES public.companies(id);
+ALTER TABLE public.attendance_punches ADD COLUMN IF NOT EXISTS company_id uuid REFERENCES public.companies(id);
+ALTER TABLE public.employee_shift_assignments ADD COLUMN IF NOT EXISTS company_id uuid REFERENCES public.companies(id);
+ALTER TABLE public.employee_leave ADD COLUMN IF NOT EXISTS company_id uuid REFERENCES public.companies(id);
+ALTER TABLE public.ot_cap_exceptions ADD COLUMN IF NOT EXISTS company_id uuid REFERENCES public.companies(id);
+
+CREATE OR REPLACE FUNCTION public.set_employee_company_id()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.company_id IS NULL THEN
+    SELECT company_id INTO NEW.company_id FROM public.profiles WHERE id = NEW.employee_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DO $$
+DECLARE
+  v_table text;
+BEGIN
+  -- OT in locked payroll periods is backfilled too (enforce_payroll_period_lock)
+  PERFORM set_config('otms.payroll_lock_bypass', 'on', true);
+
+  FOREACH v_table IN ARRAY ARRAY[
+    'ot_requests', 'ot_request_drafts', 'attendance_punches',
+    'employee_shift_assignments', 'employee_leave', 'ot_cap_exceptions'
+  ]
+  LOOP
+    EXECUTE format(
+      'UPDATE public.%I t SET company_id = p.company_id
+       FROM public.profiles p
+       WHERE p.id = t.employee_id AND t.company_id IS NULL AND p.company_id IS NOT NULL',
+      v_table
+    );
+    EXECUTE format('CREATE INDEX IF NOT EXISTS %I ON public.%I(company_id)', 'idx_' || v_table || '_company_id', v_table);
+    EXECUTE format('DROP TRIGGER IF EXISTS set_employee_company_id ON public.%I', v_table);
+    EXECUTE format(
+      'CREATE TRIGGER set_employee_company_id BEFORE INSERT ON public.%I
+       FOR EACH ROW EXECUTE FUNCTION public.set_employee_company_id()',
+      v_table
+    );
+  END LOOP;
+
+  PERFORM set_config('otms.payroll_lock_bypass', 'off', true);
+END $$;
+
+-- 4) Configuration belongs to the company it was set up in
+ALTER TABLE public.departments ADD COLUMN IF NOT EXISTS company_id uuid REFERENCES public.companies(id) ON DELETE CASCADE;
+ALTER TABLE public.positions ADD COLUMN IF NOT EXISTS company_id uuid REFERENCES public.companies(id) ON DELETE CASCADE;
+ALTER TABLE public.cost_centres ADD COLUMN IF NOT EXISTS company_id uuid REFERENCES public.companies(id) ON DELETE CASCADE;
+ALTER TABLE public.shift_templates ADD COLUMN IF NOT EXISTS company_id uuid REFERENCES public.companies(id) ON DELETE CASCADE;
+ALTER TABLE public.shift_patterns ADD COLUMN IF NOT EXISTS company_id uuid REFERENCES public.companies(id) ON DELETE CASCADE;
+ALTER TABLE public.payroll_export_layouts ADD COLUMN IF NOT EXISTS company_id uuid REFERENCES public.companies(id) ON DELETE CASCADE;
+ALTER TABLE public.attendance_import_batches ADD COLUMN IF NOT EXISTS company_id uuid REFERENCES public.companies(id) ON DELETE CASCADE;
+ALTER TABLE public.company_profile ADD COLUMN IF NOT EXISTS company_id uuid REFERENCES public.companies(id) ON DELETE CASCADE;
+
+-- A department goes to the company most of its members are in
+UPDATE public.departments d
+SET company_id = (
+  SELECT p.company_id FROM public.profiles p
+  WHERE p.department_id = d.id AND p.company_id IS NOT NULL
+  GROUP BY p.company_id
+  ORDER BY count(*) DESC, p.company_id
+  LIMIT 1
+)
+WHERE d.company_id IS NULL;
+
+UPDATE public.positions pos
+SET company_id = d.company_id
+FROM public.departments d
+WHERE d.id = pos.department_id AND pos.company_id IS NULL;
+
+DO $$
+DECLARE
+  v_table text;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY[
+    'departments', 'positions', 'cost_centres', 'shift_templates', 'shift_patterns',
+    'payroll_export_layouts', 'attendance_import_batches', 'company_profile'
+  ]
+  LOOP
+    EXECUTE format(
+      'UPDATE public.%I SET company_id = (SELECT id FROM public.companies ORDER BY created_at, id LIMIT 1)
+       WHERE company_id IS NULL',
+      v_table
+    );
+    EXECUTE format('ALTER TABLE public.%I ALTER COLUMN company_id SET DEFAULT public.active_company_id()', v_table);
+    EXECUTE format('CREATE INDEX IF NOT EXISTS %I ON public.%I(company_id)', 'idx_' || v_table || '_company_id', v_table);
+  END LOOP;
+END $$;
+
+-- Codes and names were unique across the group; now per company
+ALTER TABLE public.departments DROP CONSTRAINT IF EXISTS departments_code_key;
+ALTER TABLE public.departments DROP CONSTRAINT IF EXISTS departments_name_key;
+ALTER TABLE public.departments DROP CONSTRAINT IF EXISTS departments_company_code_key;
+ALTER TABLE public.departments ADD CONSTRAINT departments_company_code_key UNIQUE (company_id, code);
+ALTER TABLE public.departments DROP CONSTRAINT IF EXISTS departments_company_name_key;
+ALTER TABLE public.departments ADD CONSTRAINT departments_company_name_key UNIQUE (company_id, name);
+
+ALTER TABLE public.cost_centres DROP CONSTRAINT IF EXISTS cost_centres_code_key;
+ALTER TABLE public.cost_centres DROP CONSTRAINT IF EXISTS cost_centres_company_code_key;
+ALTER TABLE public.cost_centres ADD CONSTRAINT cost_centres_company_code_key UNIQUE (company_id, code);
+
+ALTER TABLE public.shift_templates DROP CONSTRAINT IF EXISTS shift_templates_code_key;
+ALTER TABLE public.shift_templates DROP CONSTRAINT IF EXISTS shift_templates_company_code_key;
+ALTER TABLE public.shift_templates ADD CONSTRAINT shift_templates_company_code_key UNIQUE (company_id, code);
+
+ALTER TABLE public.shift_patterns DROP CONSTRAINT IF EXISTS shift_patterns_name_key;
+ALTER TABLE public.shift_patterns DROP CONSTRAINT IF EXISTS shift_patterns_company_name_key;
+ALTER TABLE public.shift_patterns ADD CONSTRAINT shift_patterns_company_name_key UNIQUE (company_id, name);
+
+-- One letterhead per company
+DELETE FROM public.company_profile cp
+USING public.company_profile newer
+WHERE newer.company_id = cp.company_id
+  AND (newer.updated_at, newer.id) > (cp.updated_at, cp.id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS company_profile_company_idx ON public.company_profile(company_id);
+
+-- 5) Holiday settings were keyed by the user who saved them
+ALTER TABLE public.company_config DROP CONSTRAINT IF EXISTS company_config_company_id_fkey;
+ALTER TABLE public.holiday_overrides DROP CONSTRAINT IF EXISTS holiday_overrides_company_id_fkey;
+
+CREATE TEMP TABLE holiday_company_map ON COMMIT DROP AS
+SELECT u.user_id, COALESCE(p.company_id, (SELECT id FROM public.companies ORDER BY created_at, id LIMIT 1)) AS company_id
+FROM (
+  SELECT company_id AS user_id FROM public.company_config
+  UNION
+  SELECT company_id FROM public.holiday_overrides
+) u
+LEFT JOIN public.profiles p ON p.id = u.user_id
+WHERE NOT EXISTS (SELECT 1 FROM public.companies c WHERE c.id = u.user_id);
+
+-- The most recently saved state wins where several users saved one
+DELETE FROM public.company_config cc
+USING (
+  SELECT cc2.id,
+    row_number() OVER (PARTITION BY COALESCE(m.company_id, cc2.company_id) ORDER BY cc2.updated_at DESC, cc2.id) AS rn
+  FROM public.company_config cc2
+  LEFT JOIN holiday_company_map m ON m.user_id = cc2.company_id
+) ranked
+WHERE ranked.id = cc.id AND ranked.rn > 1;
+
+UPDATE public.company_config cc
+SET company_id = m.company_id
+FROM holiday_company_map m
+WHERE m.user_id = cc.company_id;
+
+DELETE FROM public.holiday_overrides ho
+USING (
+  SELECT ho2.id,
+    row_number() OVER (
+      PARTITION BY COALESCE(m.company_id, ho2.company_id), ho2.date, ho2.name
+      ORDER BY ho2.created_at, ho2.id
+    ) AS rn
+  FROM public.holiday_overrides ho2
+  LEFT JOIN holiday_company_map m ON m.user_id = ho2.company_id
+) ranked
+WHERE ranked.id = ho.id AND ranked.rn > 1;
+
+UPDATE public.holiday_overrides ho
+SET company_id = m.company_id
+FROM holiday_company_map m
+WHERE m.user_id = ho.company_id;
+
+ALTER TABLE public.company_config
+  ADD CONSTRAINT company_config_company_id_fkey
+  FOREIGN KEY (company_id) REFERENCES public.companies(id) ON DELETE CASCADE;
+ALTER TABLE public.company_config ALTER COLUMN company_id SET DEFAULT public.active_company_id();
+
+ALTER TABLE public.holiday_overrides
+  ADD CONSTRAINT holiday_overrides_company_id_fkey
+  FOREIGN KEY (company_id) REFERENCES public.companies(id) ON DELETE CASCADE;
+ALTER TABLE public.holiday_overrides ALTER COLUMN company_id SET DEFAULT public.active_company_id();
+
+COMMENT ON COLUMN public.holiday_overrides.company_id IS 'Company that observes this holiday override';
+
+DROP POLICY IF EXISTS "Users can manage own company config" ON public.company_config;
+DROP POLICY IF EXISTS "company_config_read_all" ON public.company_config;
+CREATE POLICY "company_config_read_all"
+  ON public.company_config FOR SELECT TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "company_config_write_hr_admin" ON public.company_config;
+CREATE POLICY "company_config_write_hr_admin"
+  ON public.company_config FOR ALL TO authenticated
+  USING (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role));
+
+-- 6) Restrict every scoped table to the active company. Restrictive
+-- policies are ANDed with the existing permissive ones.
+DO $$
+DECLARE
+  v_table text;
+BEGIN
+  -- Configuration and records of one company
+  FOREACH v_table IN ARRAY ARRAY[
+    'departments', 'positions', 'cost_centres', 'shift_templates', 'shift_patterns',
+    'payroll_export_layouts', 'attendance_import_batches', 'company_profile',
+    'company_config', 'holiday_overrides', 'payroll_periods'
+  ]
+  LOOP
+    EXECUTE format('DROP POLICY IF EXISTS "Active company only" ON public.%I', v_table);
+    EXECUTE format(
+      'CREATE POLICY "Active company only" ON public.%I AS RESTRICTIVE FOR ALL TO authenticated
+       USING (company_id = (SELECT public.active_company_id()))
+       WITH CHECK (company_id = (SELECT public.active_company_id()))',
+      v_table
+    );
+  END LOOP;
+
+  -- Rows without a company apply to the whole group
+  FOREACH v_table IN ARRAY ARRAY['ot_reasons', 'approval_chains', 'payroll_export_batches']
+  LOOP
+    EXECUTE format('DROP POLICY IF EXISTS "Active company only" ON public.%I', v_table);
+    EXECUTE format(
+      'CREATE POLICY "Active company only" ON public.%I AS RESTRICTIVE FOR ALL TO authenticated
+       USING (company_id IS NULL OR company_id = (SELECT public.active_company_id()))
+       WITH CHECK (company_id IS NULL OR company_id = (SELECT public.active_company_id()))',
+      v_table
+    );
+  END LOOP;
+
+  -- Employees always reach their own rows, whichever company is active
+  FOREACH v_table IN ARRAY ARRAY[
+    'ot_requests', 'ot_request_drafts', 'attendance_punches',
+    'employee_shift_assignments', 'employee_leave', 'ot_cap_exceptions'
+  ]
+  LOOP
+    EXECUTE format('DROP POLICY IF EXISTS "Active company only" ON public.%I', v_table);
+    EXECUTE format(
+      'CREATE POLICY "Active company only" ON public.%I AS RESTRICTIVE FOR ALL TO authenticated
+       USING (employee_id = auth.uid() OR company_id IS NULL OR company_id = (SELECT public.active_company_id()))
+       WITH CHECK (employee_id = auth.uid() OR company_id IS NULL OR company_id = (SELECT public.active_company_id()))',
+      v_table
+    );
+  END LOOP;
+END $$;
+
+-- HR may move an employee to any company they administer
+DROP POLICY IF EXISTS "Active company only" ON public.profiles;
+CREATE POLICY "Active company only"
+  ON public.profiles AS RESTRICTIVE FOR ALL TO authenticated
+  USING (id = auth.uid() OR company_id IS NULL OR company_id = (SELECT public.active_company_id()))
+  WITH CHECK (id = auth.uid() OR company_id IS NULL OR company_id IN (SELECT public.my_company_ids()));
+
+-- Department budgets follow their department's company
+DROP POLICY IF EXISTS "Active company only" ON public.ot_budgets;
+CREATE POLICY "Active company only"
+  ON public.ot_budgets AS RESTRICTIVE FOR ALL TO authenticated
+  USING (
+    company_id = (SELECT public.active_company_id())
+    OR EXISTS (
+      SELECT 1 FROM public.departments d
+      WHERE d.id = ot_budgets.department_id AND d.company_id = (SELECT public.active_company_id())
+    )
+  )
+  WITH CHECK (
+    company_id = (SELECT public.active_company_id())
+    OR EXISTS (
+      SELECT 1 FROM public.departments d
+      WHERE d.id = ot_budgets.department_id AND d.company_id = (SELECT public.active_company_id())
+    )
+  );
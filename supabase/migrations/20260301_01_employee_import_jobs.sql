@@ -0,0 +1,110 @@
+-- Bulk employee onboarding
+--
+-- HR upload a spreadsheet of new staff (src/lib/employeeImport.ts validates
+-- and maps it). This migration:
+-- - adds employee_import_jobs, one per upload, and employee_import_rows, the
+--   validated profile of each employee to create
+-- - the import-employees edge function works through a job's pending rows a
+--   batch at a time, creating the login, profile and role of each and
+--   sending an activation email through send-activation-email. A job left
+--   part way (closed tab, lost connection) is resumed from its pending rows
+
+-- 1) Jobs
+CREATE TABLE IF NOT EXISTS public.employee_import_jobs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id uuid NOT NULL DEFAULT public.active_company_id() REFERENCES public.companies(id) ON DELETE CASCADE,
+  file_name text NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'cancelled')),
+  send_invites boolean NOT NULL DEFAULT true,
+  total_rows integer NOT NULL DEFAULT 0,
+  imported_count integer NOT NULL DEFAULT 0,
+  failed_count integer NOT NULL DEFAULT 0,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  completed_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_employee_import_jobs_company ON public.employee_import_jobs(company_id, created_at DESC);
+
+DROP TRIGGER IF EXISTS update_employee_import_jobs_updated_at ON public.employee_import_jobs;
+CREATE TRIGGER update_employee_import_jobs_updated_at
+  BEFORE UPDATE ON public.employee_import_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 2) Rows
+CREATE TABLE IF NOT EXISTS public.employee_import_rows (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id uuid NOT NULL REFERENCES public.employee_import_jobs(id) ON DELETE CASCADE,
+  row_number integer NOT NULL,
+  position integer NOT NULL,
+  employee_no text NOT NULL,
+  payload jsonb NOT NULL CHECK (jsonb_typeof(payload) = 'object'),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'imported', 'failed')),
+  error text,
+  user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  invite_sent_at timestamptz,
+  processed_at timestamptz,
+  UNIQUE (job_id, row_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_employee_import_rows_pending ON public.employee_import_rows(job_id, status, position);
+
+-- 3) Access: HR of the job's company
+ALTER TABLE public.employee_import_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.employee_import_rows ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Employee imports managed by HR" ON public.employee_import_jobs;
+CREATE POLICY "Employee imports managed by HR"
+  ON public.employee_import_jobs FOR ALL TO authenticated
+  USING (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role));
+
+DROP POLICY IF EXISTS "Active company only" ON public.employee_import_jobs;
+CREATE POLICY "Active company only"
+  ON public.employee_import_jobs AS RESTRICTIVE FOR ALL TO authenticated
+  USING (company_id = (SELECT public.active_company_id()))
+  WITH CHECK (company_id = (SELECT public.active_company_id()));
+
+DROP POLICY IF EXISTS "Employee import rows follow their job" ON public.employee_import_rows;
+CREATE POLICY "Employee import rows follow their job"
+  ON public.employee_import_rows FOR ALL TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.employee_import_jobs j WHERE j.id = employee_import_rows.job_id))
+  WITH CHECK (EXISTS (SELECT 1 FROM public.employee_import_jobs j WHERE j.id = employee_import_rows.job_id));
+
+-- 4) Progress, recounted from the rows so a retried batch never double counts
+CREATE OR REPLACE FUNCTION public.refresh_employee_import_job(p_job_id uuid)
+RETURNS public.employee_import_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job public.employee_import_jobs;
+BEGIN
+  UPDATE public.employee_import_jobs j
+  SET imported_count = counts.imported,
+      failed_count = counts.failed,
+      status = CASE
+        WHEN j.status = 'cancelled' THEN 'cancelled'
+        WHEN counts.pending = 0 THEN 'completed'
+        ELSE 'running'
+      END,
+      completed_at = CASE WHEN counts.pending = 0 AND j.status <> 'cancelled' THEN now() ELSE j.completed_at END
+  FROM (
+    SELECT
+      count(*) FILTER (WHERE status = 'imported') AS imported,
+      count(*) FILTER (WHERE status = 'failed') AS failed,
+      count(*) FILTER (WHERE status = 'pending') AS pending
+    FROM public.employee_import_rows
+    WHERE job_id = p_job_id
+  ) counts
+  WHERE j.id = p_job_id
+  RETURNING j.* INTO v_job;
+
+  RETURN v_job;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_employee_import_job(uuid) FROM PUBLIC, authenticated;
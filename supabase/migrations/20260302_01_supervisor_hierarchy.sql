@@ -0,0 +1,191 @@
+-- Supervisor hierarchy integrity and reassignment
+--
+-- profiles.supervisor_id was edited one employee at a time and nothing
+-- stopped an employee supervising themselves or A -> B -> A loops, while
+-- archiving a supervisor quietly cleared their reports' supervisor_id.
+-- This migration:
+-- - rejects a supervisor that is the employee, an archived employee, or
+--   someone who (directly or further down) reports to the employee
+-- - refuses to archive an employee who still has reports, so nobody is left
+--   without a supervisor; reassign them first
+-- - adds reassign_supervisor(), which moves a set of employees to a new
+--   supervisor (drag-to-reassign on the org chart, or all reports of a
+--   leaver) and can move their requests waiting for verification with them
+-- - adds get_supervisor_reassignment_impact() for the requests that would move
+
+-- 1) Self, archived and circular supervisors
+CREATE OR REPLACE FUNCTION public.validate_supervisor_hierarchy()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_supervisor profiles;
+  v_loop text;
+BEGIN
+  IF NEW.supervisor_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.supervisor_id = NEW.id THEN
+    RAISE EXCEPTION '% cannot supervise themselves', NEW.full_name
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO v_supervisor FROM profiles WHERE id = NEW.supervisor_id;
+
+  IF NOT FOUND OR v_supervisor.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION '% cannot report to an archived employee', NEW.full_name
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Walk up from the new supervisor; reaching the employee means a loop
+  WITH RECURSIVE chain AS (
+    SELECT p.id, p.supervisor_id, ARRAY[p.full_name] AS names, 1 AS depth
+    FROM profiles p
+    WHERE p.id = NEW.supervisor_id
+    UNION ALL
+    SELECT p.id, p.supervisor_id, chain.names || p.full_name, chain.depth + 1
+    FROM chain
+    JOIN profiles p ON p.id = chain.supervisor_id
+    WHERE chain.id <> NEW.id AND chain.depth < 100
+  )
+  SELECT array_to_string(names, ' → ') INTO v_loop
+  FROM chain
+  WHERE id = NEW.id;
+
+  IF v_loop IS NOT NULL THEN
+    RAISE EXCEPTION '% cannot report to %, who already reports up to them (% → %)',
+      NEW.full_name, v_supervisor.full_name, NEW.full_name, v_loop
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_validate_supervisor_hierarchy ON public.profiles;
+CREATE TRIGGER trg_validate_supervisor_hierarchy
+  BEFORE INSERT OR UPDATE OF supervisor_id ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_supervisor_hierarchy();
+
+-- 2) No orphaned reports when a supervisor is archived
+CREATE OR REPLACE FUNCTION public.prevent_orphaned_reports()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reports integer;
+BEGIN
+  IF NEW.deleted_at IS NULL OR OLD.deleted_at IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT count(*) INTO v_reports
+  FROM profiles
+  WHERE supervisor_id = NEW.id AND deleted_at IS NULL;
+
+  IF v_reports > 0 THEN
+    RAISE EXCEPTION '% still supervises % employee(s); reassign them before archiving', NEW.full_name, v_reports
+      USING ERRCODE = 'object_not_in_prerequisite_state';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_prevent_orphaned_reports ON public.profiles;
+CREATE TRIGGER trg_prevent_orphaned_reports
+  BEFORE UPDATE OF deleted_at ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_orphaned_reports();
+
+-- 3) Requests that follow a reassignment: waiting for the employee's
+-- current supervisor to verify them
+CREATE OR REPLACE FUNCTION public.get_supervisor_reassignment_impact(p_employee_ids uuid[])
+RETURNS TABLE (employee_id uuid, pending_verification_count integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT r.employee_id, count(*)::integer
+  FROM ot_requests r
+  JOIN profiles p ON p.id = r.employee_id
+  WHERE (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role))
+    AND r.employee_id = ANY(p_employee_ids)
+    AND r.status = 'pending_verification'
+    AND r.supervisor_id IS NOT DISTINCT FROM p.supervisor_id
+  GROUP BY r.employee_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reassign_supervisor(
+  p_employee_ids uuid[],
+  p_supervisor_id uuid,
+  p_move_pending_requests boolean DEFAULT true
+)
+RETURNS TABLE (reassigned_count integer, moved_request_count integer)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_employee profiles;
+  v_reassigned integer := 0;
+  v_moved integer := 0;
+  v_request_count integer;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+    RAISE EXCEPTION 'Only HR can reassign supervisors'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_supervisor_id IS NULL THEN
+    RAISE EXCEPTION 'Choose the new supervisor'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  -- One by one, so each move is checked against the moves before it
+  FOR v_employee IN
+    SELECT * FROM profiles
+    WHERE id = ANY(p_employee_ids) AND deleted_at IS NULL
+    ORDER BY full_name
+    FOR UPDATE
+  LOOP
+    CONTINUE WHEN v_employee.supervisor_id IS NOT DISTINCT FROM p_supervisor_id;
+
+    IF p_move_pending_requests THEN
+      WITH moved AS (
+        UPDATE ot_requests
+        SET supervisor_id = p_supervisor_id
+        WHERE employee_id = v_employee.id
+          AND status = 'pending_verification'
+          AND supervisor_id IS NOT DISTINCT FROM v_employee.supervisor_id
+        RETURNING id
+      ), logged AS (
+        INSERT INTO ot_request_events (request_id, event_type, actor_id, actor_role, remarks, changes)
+        SELECT moved.id, 'updated', auth.uid(), 'hr', 'Moved to the new supervisor',
+               jsonb_build_object('supervisor_id',
+                 jsonb_build_object('old', v_employee.supervisor_id, 'new', p_supervisor_id))
+        FROM moved
+        RETURNING 1
+      )
+      SELECT count(*) INTO v_request_count FROM logged;
+
+      v_moved := v_moved + v_request_count;
+    END IF;
+
+    UPDATE profiles SET supervisor_id = p_supervisor_id WHERE id = v_employee.id;
+    v_reassigned := v_reassigned + 1;
+  END LOOP;
+
+  RETURN QUERY SELECT v_reassigned, v_moved;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_supervisor_reassignment_impact(uuid[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.reassign_supervisor(uuid[], uuid, boolean) TO authenticated;
@@ -0,0 +1,724 @@
+-- Effective-dated employment history
+--
+-- Salary, OT base, department, position, work location and employment type
+-- were overwritten in place on profiles, so recalculating an old OT request
+-- paid it at today's salary and reported it under today's department.
+-- This migration:
+-- - adds employment_history, one row per change with the date it takes
+--   effect and only the fields that changed (a hire row holds them all)
+-- - adds employment_as_of(), the employee's details on a date; profiles
+--   keeps the details in effect today
+-- - records edits made straight to profiles (the employee form) as changes
+--   effective today, and adds record_employment_change() for salary
+--   revisions, transfers, promotions and location moves on any date, which
+--   recalculates the employee's OT from that date (frozen payroll periods
+--   are left alone)
+-- - brings profiles up to date each night when future-dated changes fall due
+-- - OT rates, formula variables, day types and budget consumption use the
+--   details as of the OT date
+
+-- 1) History
+CREATE TABLE IF NOT EXISTS public.employment_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  employee_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  company_id uuid REFERENCES public.companies(id),
+  effective_from date NOT NULL,
+  event_type text NOT NULL CHECK (event_type IN (
+    'hire', 'salary_revision', 'transfer', 'promotion', 'location_move', 'profile_update'
+  )),
+  -- Only the fields that changed; a null value clears the field
+  changes jsonb NOT NULL CHECK (jsonb_typeof(changes) = 'object' AND changes <> '{}'::jsonb),
+  remarks text,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_employment_history_employee
+  ON public.employment_history(employee_id, effective_from DESC, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_employment_history_company_id ON public.employment_history(company_id);
+
+DROP TRIGGER IF EXISTS set_employee_company_id ON public.employment_history;
+CREATE TRIGGER set_employee_company_id
+  BEFORE INSERT ON public.employment_history
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_employee_company_id();
+
+-- Written through record_employment_change() and the profiles trigger only
+ALTER TABLE public.employment_history ENABLE ROW LEVEL SECURITY;
+
+-- Management reports group OT by the department on the OT date
+DROP POLICY IF EXISTS "HR and management can view employment history" ON public.employment_history;
+CREATE POLICY "HR and management can view employment history"
+  ON public.employment_history FOR SELECT TO authenticated
+  USING (
+    has_role(auth.uid(), 'hr'::app_role)
+    OR has_role(auth.uid(), 'management'::app_role)
+    OR has_role(auth.uid(), 'admin'::app_role)
+  );
+
+DROP POLICY IF EXISTS "Employees can view own employment history" ON public.employment_history;
+CREATE POLICY "Employees can view own employment history"
+  ON public.employment_history FOR SELECT TO authenticated
+  USING (employee_id = auth.uid());
+
+DROP POLICY IF EXISTS "Active company only" ON public.employment_history;
+CREATE POLICY "Active company only"
+  ON public.employment_history AS RESTRICTIVE FOR ALL TO authenticated
+  USING (employee_id = auth.uid() OR company_id IS NULL OR company_id = (SELECT public.active_company_id()))
+  WITH CHECK (employee_id = auth.uid() OR company_id IS NULL OR company_id = (SELECT public.active_company_id()));
+
+-- Everyone starts from what their profile holds now
+INSERT INTO public.employment_history (employee_id, company_id, effective_from, event_type, changes, created_by, created_at)
+SELECT
+  p.id,
+  p.company_id,
+  COALESCE(p.joining_date, p.created_at::date),
+  'hire',
+  jsonb_build_object(
+    'basic_salary', p.basic_salary,
+    'ot_base', p.ot_base,
+    'department_id', p.department_id,
+    'position_id', p.position_id,
+    'position', p.position,
+    'work_location', p.work_location,
+    'state', p.state,
+    'employment_type', p.employment_type
+  ),
+  NULL,
+  p.created_at
+FROM public.profiles p
+WHERE NOT EXISTS (SELECT 1 FROM public.employment_history h WHERE h.employee_id = p.id);
+
+-- 2) Details on a date. Each field comes from the latest change in effect;
+-- dates before the first record use the earliest one, and fields never
+-- recorded fall back to the profile.
+CREATE OR REPLACE FUNCTION public.employment_as_of(p_employee_id uuid, p_date date)
+RETURNS TABLE (
+  basic_salary numeric,
+  ot_base numeric,
+  department_id uuid,
+  position_id uuid,
+  "position" text,
+  work_location text,
+  state text,
+  employment_type text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH latest AS (
+    SELECT DISTINCT ON (k.key) k.key, h.changes -> k.key AS value
+    FROM employment_history h
+    CROSS JOIN LATERAL jsonb_object_keys(h.changes) AS k(key)
+    WHERE h.employee_id = p_employee_id
+    ORDER BY
+      k.key,
+      (h.effective_from <= p_date) DESC,
+      CASE WHEN h.effective_from <= p_date THEN h.effective_from END DESC NULLS LAST,
+      h.effective_from,
+      h.created_at DESC
+  ),
+  resolved AS (
+    SELECT jsonb_object_agg(latest.key, latest.value) AS v FROM latest
+  )
+  SELECT
+    CASE WHEN r.v ? 'basic_salary' THEN (r.v ->> 'basic_salary')::numeric ELSE p.basic_salary END,
+    CASE WHEN r.v ? 'ot_base' THEN (r.v ->> 'ot_base')::numeric ELSE p.ot_base END,
+    CASE WHEN r.v ? 'department_id' THEN (r.v ->> 'department_id')::uuid ELSE p.department_id END,
+    CASE WHEN r.v ? 'position_id' THEN (r.v ->> 'position_id')::uuid ELSE p.position_id END,
+    CASE WHEN r.v ? 'position' THEN r.v ->> 'position' ELSE p.position END,
+    CASE WHEN r.v ? 'work_location' THEN r.v ->> 'work_location' ELSE p.work_location END,
+    CASE WHEN r.v ? 'state' THEN r.v ->> 'state' ELSE p.state END,
+    CASE WHEN r.v ? 'employment_type' THEN r.v ->> 'employment_type' ELSE p.employment_type END
+  FROM profiles p
+  CROSS JOIN resolved r
+  WHERE p.id = p_employee_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.employment_as_of(uuid, date) TO authenticated;
+
+-- 3) Bringing a profile to the details in effect today. The session flag
+-- stops the profiles trigger recording the sync as another change.
+CREATE OR REPLACE FUNCTION public.sync_employment_profile(p_employee_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_config('otms.employment_sync', 'on', true);
+
+  UPDATE public.profiles p
+  SET
+    basic_salary = e.basic_salary,
+    ot_base = e.ot_base,
+    department_id = e.department_id,
+    position_id = e.position_id,
+    position = e.position,
+    work_location = e.work_location,
+    state = e.state,
+    employment_type = e.employment_type
+  FROM public.employment_as_of(p_employee_id, current_date) e
+  WHERE p.id = p_employee_id
+    AND (p.basic_salary, p.ot_base, p.department_id, p.position_id, p.position, p.work_location, p.state, p.employment_type)
+      IS DISTINCT FROM
+        (e.basic_salary, e.ot_base, e.department_id, e.position_id, e.position, e.work_location, e.state, e.employment_type);
+
+  PERFORM set_config('otms.employment_sync', 'off', true);
+END;
+$$;
+
+-- Re-derives day types and amounts of the employee's OT from a date;
+-- returns how many requests that covers
+CREATE OR REPLACE FUNCTION public.recalculate_employee_ot_from(p_employee_id uuid, p_from date)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_dates date[];
+  v_count integer;
+BEGIN
+  PERFORM public.refresh_ot_day_types(p_employee_id, p_from, NULL);
+
+  SELECT array_agg(DISTINCT ot.ot_date), COUNT(*)
+  INTO v_dates, v_count
+  FROM public.ot_requests ot
+  WHERE ot.employee_id = p_employee_id
+    AND ot.ot_date >= p_from
+    AND ot.status <> 'rejected'
+    AND (public.frozen_payroll_period(ot.employee_id, ot.ot_date)).id IS NULL;
+
+  IF v_dates IS NOT NULL THEN
+    PERFORM public.recalculate_ot_amounts_for_dates(p_employee_id, v_dates);
+  END IF;
+
+  RETURN v_count;
+END;
+$$;
+
+-- 4) Profiles edited directly: new employees get a hire record, edits take
+-- effect today
+CREATE OR REPLACE FUNCTION public.record_profile_employment_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_changes jsonb := '{}'::jsonb;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.employment_history (employee_id, effective_from, event_type, changes)
+    VALUES (
+      NEW.id,
+      COALESCE(NEW.joining_date, current_date),
+      'hire',
+      jsonb_build_object(
+        'basic_salary', NEW.basic_salary,
+        'ot_base', NEW.ot_base,
+        'department_id', NEW.department_id,
+        'position_id', NEW.position_id,
+        'position', NEW.position,
+        'work_location', NEW.work_location,
+        'state', NEW.state,
+        'employment_type', NEW.employment_type
+      )
+    );
+    RETURN NULL;
+  END IF;
+
+  IF current_setting('otms.employment_sync', true) = 'on' THEN
+    RETURN NULL;
+  END IF;
+
+  IF NEW.basic_salary IS DISTINCT FROM OLD.basic_salary THEN
+    v_changes := v_changes || jsonb_build_object('basic_salary', NEW.basic_salary);
+  END IF;
+  IF NEW.ot_base IS DISTINCT FROM OLD.ot_base THEN
+    v_changes := v_changes || jsonb_build_object('ot_base', NEW.ot_base);
+  END IF;
+  IF NEW.department_id IS DISTINCT FROM OLD.department_id THEN
+    v_changes := v_changes || jsonb_build_object('department_id', NEW.department_id);
+  END IF;
+  IF NEW.position_id IS DISTINCT FROM OLD.position_id THEN
+    v_changes := v_changes || jsonb_build_object('position_id', NEW.position_id);
+  END IF;
+  IF NEW.position IS DISTINCT FROM OLD.position THEN
+    v_changes := v_changes || jsonb_build_object('position', NEW.position);
+  END IF;
+  IF NEW.work_location IS DISTINCT FROM OLD.work_location THEN
+    v_changes := v_changes || jsonb_build_object('work_location', NEW.work_location);
+  END IF;
+  IF NEW.state IS DISTINCT FROM OLD.state THEN
+    v_changes := v_changes || jsonb_build_object('state', NEW.state);
+  END IF;
+  IF NEW.employment_type IS DISTINCT FROM OLD.employment_type THEN
+    v_changes := v_changes || jsonb_build_object('employment_type', NEW.employment_type);
+  END IF;
+
+  IF v_changes = '{}'::jsonb THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.employment_history (employee_id, effective_from, event_type, changes)
+  VALUES (NEW.id, current_date, 'profile_update', v_changes);
+
+  PERFORM public.recalculate_employee_ot_from(NEW.id, current_date);
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_record_profile_employment_change ON public.profiles;
+CREATE TRIGGER trg_record_profile_employment_change
+  AFTER INSERT OR UPDATE OF basic_salary, ot_base, department_id, position_id, position, work_location, state, employment_type
+  ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_profile_employment_change();
+
+-- 5) Recording a change on any date. Past dates recalculate the OT already
+-- claimed; future dates reach the profile when they fall due.
+CREATE OR REPLACE FUNCTION public.record_employment_change(
+  p_employee_id uuid,
+  p_event_type text,
+  p_effective_from date,
+  p_changes jsonb,
+  p_remarks text DEFAULT NULL
+)
+RETURNS TABLE (history_id uuid, recalculated_count integer)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_history_id uuid;
+  v_unknown text;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+    RAISE EXCEPTION 'Only HR can record employment changes'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = p_employee_id AND deleted_at IS NULL) THEN
+    RAISE EXCEPTION 'Employee not found'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF p_event_type NOT IN ('salary_revision', 'transfer', 'promotion', 'location_move') THEN
+    RAISE EXCEPTION 'Unknown employment change %', p_event_type
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF p_changes IS NULL OR jsonb_typeof(p_changes) <> 'object' OR p_changes = '{}'::jsonb THEN
+    RAISE EXCEPTION 'Nothing to change'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  SELECT k INTO v_unknown
+  FROM jsonb_object_keys(p_changes) AS k
+  WHERE k NOT IN (
+    'basic_salary', 'ot_base', 'department_id', 'position_id', 'position', 'work_location', 'state', 'employment_type'
+  )
+  LIMIT 1;
+
+  IF v_unknown IS NOT NULL THEN
+    RAISE EXCEPTION '% is not part of the employment history', v_unknown
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF p_changes ? 'basic_salary' AND COALESCE((p_changes ->> 'basic_salary')::numeric, 0) <= 0 THEN
+    RAISE EXCEPTION 'Basic salary must be more than zero'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO employment_history (employee_id, effective_from, event_type, changes, remarks)
+  VALUES (p_employee_id, p_effective_from, p_event_type, p_changes, NULLIF(trim(p_remarks), ''))
+  RETURNING id INTO v_history_id;
+
+  PERFORM public.sync_employment_profile(p_employee_id);
+
+  RETURN QUERY SELECT v_history_id, public.recalculate_employee_ot_from(p_employee_id, p_effective_from);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_employment_change(uuid, text, date, jsonb, text) TO authenticated;
+
+-- 6) Future-dated changes reach the profile on the day. Syncing is a no-op
+-- for profiles already up to date, so a missed run catches up within a week.
+CREATE OR REPLACE FUNCTION public.apply_due_employment_changes()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_employee_id uuid;
+BEGIN
+  FOR v_employee_id IN
+    SELECT DISTINCT h.employee_id
+    FROM employment_history h
+    JOIN profiles p ON p.id = h.employee_id
+    WHERE h.effective_from > h.created_at::date
+      AND h.effective_from BETWEEN current_date - 7 AND current_date
+      AND p.deleted_at IS NULL
+  LOOP
+    PERFORM public.sync_employment_profile(v_employee_id);
+  END LOOP;
+END;
+$$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'daily-employment-changes') THEN
+    PERFORM cron.schedule(
+      'daily-employment-changes',
+      '5 0 * * *',
+      $cron$SELECT public.apply_due_employment_changes();$cron$
+    );
+  END IF;
+END;
+$$;
+
+-- 7) OT follows the details as of the OT date
+CREATE OR REPLACE FUNCTION public.determine_day_type_for_employee(
+  p_ot_date date,
+  p_employee_id uuid
+)
+RETURNS day_type
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  location_state text;
+  employee_state text;
+BEGIN
+  -- Prefer OT location state from existing sessions worked on the date (non-rejected)
+  SELECT ot.ot_location_state INTO location_state
+  FROM public.ot_requests ot
+  WHERE ot.employee_id = p_employee_id
+    AND (ot.ot_date = p_ot_date OR (ot.ot_date = p_ot_date - 1 AND ot.overnight_hours > 0))
+    AND ot.status <> 'rejected'
+    AND ot.ot_location_state IS NOT NULL
+  ORDER BY ot.ot_date DESC, ot.created_at ASC NULLS LAST
+  LIMIT 1;
+
+  -- Fallback: the employee's state on the date
+  SELECT e.state INTO employee_state
+  FROM public.employment_as_of(p_employee_id, p_ot_date) e;
+
+  RETURN public.determine_roster_day_type(p_employee_id, p_ot_date, COALESCE(location_state, employee_state));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.calculate_daily_ot_distribution(
+  p_employee_id uuid,
+  p_ot_date date,
+  p_day_type day_type DEFAULT NULL
+)
+RETURNS TABLE(
+  request_id uuid,
+  session_hours numeric,
+  session_orp numeric,
+  session_hrp numeric,
+  session_ot_amount numeric,
+  total_daily_hours numeric,
+  daily_ot_amount numeric
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  emp_salary numeric;
+  emp_category text;
+  formula record;
+  calculated_orp numeric;
+  calculated_hrp numeric;
+  daily_total_hours numeric;
+  total_ot_amount numeric;
+  verified_day_type day_type;
+BEGIN
+  -- Salary (prefer ot_base over basic_salary) and employment type on the date
+  SELECT COALESCE(e.ot_base, e.basic_salary), e.employment_type INTO emp_salary, emp_category
+  FROM public.employment_as_of(p_employee_id, p_ot_date) e;
+
+  IF emp_salary IS NULL THEN
+    RAISE EXCEPTION 'Employee salary not found for employee_id: %', p_employee_id;
+  END IF;
+
+  verified_day_type := public.determine_day_type_for_employee(p_ot_date, p_employee_id);
+
+  calculated_orp := emp_salary / 26;
+  calculated_hrp := calculated_orp / 8;
+
+  SELECT COALESCE(SUM(portion.hours), 0) INTO daily_total_hours
+  FROM public.ot_session_portions(p_employee_id, p_ot_date) portion;
+
+  IF daily_total_hours = 0 THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO formula
+  FROM get_active_formula(verified_day_type, COALESCE(emp_category, 'All'), p_ot_date);
+
+  BEGIN
+    IF formula.formula_id IS NULL THEN
+      RAISE EXCEPTION 'No active formula';
+    END IF;
+
+    total_ot_amount := evaluate_ot_formula(
+      formula.formula_text,
+      calculated_orp,
+      calculated_hrp,
+      daily_total_hours,
+      verified_day_type
+    );
+  EXCEPTION
+    WHEN OTHERS THEN
+      -- Standard Malaysian rates when there is no formula or it fails
+      CASE verified_day_type
+        WHEN 'weekday' THEN
+          total_ot_amount := 1.5 * calculated_hrp * daily_total_hours;
+        WHEN 'saturday' THEN
+          total_ot_amount := 2 * calculated_hrp * daily_total_hours;
+        WHEN 'sunday' THEN
+          IF daily_total_hours <= 4 THEN
+            total_ot_amount := 0.5 * calculated_orp;
+          ELSIF daily_total_hours <= 8 THEN
+            total_ot_amount := 1 * calculated_orp;
+          ELSE
+            total_ot_amount := (1 * calculated_orp) + (2 * calculated_hrp * (daily_total_hours - 8));
+          END IF;
+        WHEN 'public_holiday' THEN
+          IF daily_total_hours <= 8 THEN
+            total_ot_amount := 2 * calculated_orp;
+          ELSE
+            total_ot_amount := (2 * calculated_orp) + (3 * calculated_hrp * (daily_total_hours - 8));
+          END IF;
+      END CASE;
+  END;
+
+  RETURN QUERY
+  SELECT
+    portion.request_id,
+    portion.hours,
+    calculated_orp,
+    calculated_hrp,
+    (portion.hours / daily_total_hours) * total_ot_amount,
+    daily_total_hours,
+    total_ot_amount
+  FROM public.ot_session_portions(p_employee_id, p_ot_date) portion;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.calculate_and_set_ot_amount()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  emp_salary numeric;
+  emp_category text;
+  employee_state text;
+  formula record;
+BEGIN
+  -- Default OT location state to the employee's state on the OT date if not provided
+  IF NEW.ot_location_state IS NULL OR NEW.ot_location_state = '' THEN
+    SELECT e.state INTO employee_state
+    FROM public.employment_as_of(NEW.employee_id, NEW.ot_date) e;
+    NEW.ot_location_state := employee_state;
+  END IF;
+
+  -- Enforce a single OT location per employee per date (required for daily distribution logic)
+  IF NEW.ot_location_state IS NOT NULL THEN
+    PERFORM 1
+    FROM public.ot_requests ot
+    WHERE ot.employee_id = NEW.employee_id
+      AND ot.ot_date = NEW.ot_date
+      AND ot.status <> 'rejected'
+      AND (NEW.id IS NULL OR ot.id <> NEW.id)
+      AND ot.ot_location_state IS NOT NULL
+      AND ot.ot_location_state <> NEW.ot_location_state
+    LIMIT 1;
+
+    IF FOUND THEN
+      RAISE EXCEPTION 'OT Location (State) must match existing OT sessions for this date.'
+        USING ERRCODE = '23514';
+    END IF;
+  END IF;
+
+  -- Force day_type based on date + OT location state (holidays) and the employee's roster
+  NEW.day_type := public.determine_roster_day_type(NEW.employee_id, NEW.ot_date, NEW.ot_location_state);
+
+  -- Hours after midnight are paid as part of the next date
+  NEW.overnight_hours := public.ot_overnight_hours(NEW.start_time, NEW.end_time, NEW.total_hours);
+  NEW.overnight_day_type := CASE
+    WHEN NEW.overnight_hours > 0 THEN public.determine_roster_day_type(NEW.employee_id, NEW.ot_date + 1, NEW.ot_location_state)
+  END;
+
+  -- Salary (prefer ot_base over basic_salary) and employment type on the OT date
+  SELECT COALESCE(e.ot_base, e.basic_salary), e.employment_type INTO emp_salary, emp_category
+  FROM public.employment_as_of(NEW.employee_id, NEW.ot_date) e;
+
+  IF emp_salary IS NULL THEN
+    RAISE EXCEPTION 'Employee salary not found for employee_id: %', NEW.employee_id;
+  END IF;
+
+  -- Calculate base rates
+  NEW.orp := emp_salary / 26;
+  NEW.hrp := NEW.orp / 8;
+
+  -- Get active formula for this day type and employee category
+  SELECT * INTO formula
+  FROM public.get_active_formula(NEW.day_type, COALESCE(emp_category, 'All'), NEW.ot_date);
+
+  -- Store formula_id for reference
+  IF formula.formula_id IS NOT NULL THEN
+    NEW.formula_id := formula.formula_id;
+  END IF;
+
+  -- Per-session ot_amount over both dates (recalculated by the AFTER trigger)
+  SELECT COALESCE(SUM(dist.session_ot_amount), 0) INTO NEW.ot_amount
+  FROM unnest(ARRAY[NEW.ot_date, NEW.ot_date + 1]) AS d(date)
+  CROSS JOIN LATERAL public.calculate_daily_ot_distribution(NEW.employee_id, d.date, NEW.day_type) dist
+  WHERE dist.request_id = NEW.id;
+
+  RETURN NEW;
+END;
+$$;
+
+COMMENT ON FUNCTION public.calculate_and_set_ot_amount() IS
+'BEFORE trigger: sets ot_location_state default, enforces per-day location consistency, derives day_type from holidays and the roster, splits overnight hours and calculates base rates from the employment details on the OT date.';
+
+CREATE OR REPLACE FUNCTION public.ot_formula_day_variables(p_employee_id uuid, p_ot_date date)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_employment record;
+  v_hours numeric;
+  v_night_hours numeric;
+  v_location_state text;
+  v_month_hours numeric;
+  v_ot_base numeric;
+  v_orp numeric;
+  v_normal_hours numeric;
+BEGIN
+  SELECT e.basic_salary, e.ot_base, e.employment_type, e.state INTO v_employment
+  FROM public.employment_as_of(p_employee_id, p_ot_date) e;
+
+  SELECT
+    COALESCE(SUM(portion.hours), 0),
+    COALESCE(SUM(public.ot_night_hours(portion.start_time, portion.end_time)), 0),
+    MIN(portion.ot_location_state)
+  INTO v_hours, v_night_hours, v_location_state
+  FROM public.ot_session_portions(p_employee_id, p_ot_date) portion;
+
+  SELECT COALESCE(SUM(ot.total_hours), 0) INTO v_month_hours
+  FROM public.ot_requests ot
+  WHERE ot.employee_id = p_employee_id
+    AND ot.ot_date >= date_trunc('month', p_ot_date)::date
+    AND ot.ot_date < p_ot_date
+    AND ot.status <> 'rejected';
+
+  SELECT r.normal_hours INTO v_normal_hours
+  FROM public.employee_roster_day(p_employee_id, p_ot_date) r;
+
+  v_ot_base := COALESCE(v_employment.ot_base, v_employment.basic_salary);
+  v_orp := v_ot_base / 26;
+
+  RETURN jsonb_build_object(
+    'Hours', v_hours,
+    'ORP', v_orp,
+    'HRP', v_orp / 8,
+    'Basic', v_employment.basic_salary,
+    'OTBase', v_ot_base,
+    'DayType', public.determine_day_type_for_employee(p_ot_date, p_employee_id)::text,
+    'IsStateHoliday', (EXISTS (
+      SELECT 1 FROM public.malaysian_holidays h
+      WHERE h.date = p_ot_date
+        AND h.state <> 'ALL'
+        AND h.state = COALESCE(v_location_state, v_employment.state)
+    ))::integer,
+    'HoursBeyondNormal', GREATEST(v_hours - COALESCE(v_normal_hours, 8), 0),
+    'NightHours', v_night_hours,
+    'EmploymentType', COALESCE(v_employment.employment_type, ''),
+    'MonthHoursToDate', v_month_hours
+  );
+END;
+$$;
+
+-- 8) Budgets count OT against the department the employee was in that day
+CREATE OR REPLACE FUNCTION public.get_ot_budget_status(p_from date, p_to date)
+RETURNS TABLE (
+  budget_id uuid,
+  company_id uuid,
+  department_id uuid,
+  scope_name text,
+  month date,
+  budget_amount numeric,
+  approved_amount numeric,
+  pending_amount numeric,
+  committed_amount numeric,
+  notes text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (
+    has_role(auth.uid(), 'supervisor'::app_role)
+    OR has_role(auth.uid(), 'hr'::app_role)
+    OR has_role(auth.uid(), 'management'::app_role)
+    OR has_role(auth.uid(), 'admin'::app_role)
+    OR has_role(auth.uid(), 'bod'::app_role)
+    OR EXISTS (SELECT 1 FROM departments d WHERE d.head_id = auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to view OT budgets'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    b.id,
+    b.company_id,
+    b.department_id,
+    COALESCE(d.name, c.name),
+    b.month,
+    b.amount,
+    COALESCE(s.approved, 0),
+    COALESCE(s.pending, 0),
+    COALESCE(s.approved, 0) + COALESCE(s.pending, 0),
+    b.notes
+  FROM ot_budgets b
+  LEFT JOIN departments d ON d.id = b.department_id
+  LEFT JOIN companies c ON c.id = b.company_id
+  LEFT JOIN LATERAL (
+    SELECT
+      SUM(r.ot_amount) FILTER (WHERE r.status IN ('hr_certified', 'management_approved')) AS approved,
+      SUM(r.ot_amount) FILTER (WHERE r.status NOT IN ('hr_certified', 'management_approved')) AS pending
+    FROM ot_requests r
+    JOIN profiles p ON p.id = r.employee_id
+    CROSS JOIN LATERAL public.employment_as_of(r.employee_id, r.ot_date) e
+    WHERE r.status <> 'rejected'
+      AND date_trunc('month', r.ot_date)::date = b.month
+      AND (e.department_id = b.department_id OR p.company_id = b.company_id)
+  ) s ON true
+  WHERE b.month BETWEEN date_trunc('month', p_from)::date AND date_trunc('month', p_to)::date
+  ORDER BY b.month, (b.department_id IS NULL), COALESCE(d.name, c.name);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_ot_budget_status(date, date) TO authenticated;
@@ -0,0 +1,303 @@
+-- Bulk OT decisions
+--
+-- Management's bulk approval pushed every selected request through one
+-- all-or-nothing transition, so a single stale request failed the whole
+-- batch, and nothing recorded which manager made the decision.
+-- This migration:
+-- - adds ot_requests.management_id, set by the transition engine when
+--   management approves or sends a request back (backfilled from the event log)
+-- - adds decide_ot_requests(), which applies a list of approve/reject
+--   decisions one request at a time and reports each outcome instead of
+--   failing the batch
+
+-- 1) Management reviewer
+ALTER TABLE public.ot_requests
+  ADD COLUMN IF NOT EXISTS management_id uuid REFERENCES public.profiles(id);
+
+-- OT in locked payroll periods is backfilled too (enforce_payroll_period_lock)
+SELECT set_config('otms.payroll_lock_bypass', 'on', true);
+
+UPDATE public.ot_requests r SET
+  management_id = e.actor_id
+FROM (
+  SELECT DISTINCT ON (ev.request_id) ev.request_id, ev.actor_id
+  FROM public.ot_request_events ev
+  WHERE ev.actor_role = 'management'
+    AND ev.event_type = 'status_changed'
+  ORDER BY ev.request_id, ev.created_at DESC
+) e
+WHERE e.request_id = r.id
+  AND r.management_reviewed_at IS NOT NULL
+  AND r.management_id IS NULL;
+
+SELECT set_config('otms.payroll_lock_bypass', 'off', true);
+
+-- 2) Transition engine: record the management reviewer
+CREATE OR REPLACE FUNCTION public.transition_ot_request(
+  p_request_ids uuid[],
+  p_to_status ot_status,
+  p_remarks text DEFAULT NULL,
+  p_rejection_stage text DEFAULT NULL
+)
+RETURNS TABLE (
+  request_id uuid,
+  from_status ot_status,
+  to_status ot_status,
+  actor text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_remarks text := NULLIF(btrim(p_remarks), '');
+  v_now timestamptz := now();
+  v_request public.ot_requests;
+  v_actor text;
+  v_requires_remarks boolean;
+  v_final_status ot_status;
+  v_found int := 0;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'not authenticated';
+  END IF;
+
+  IF p_request_ids IS NULL OR cardinality(p_request_ids) = 0 THEN
+    RAISE EXCEPTION 'no OT requests supplied';
+  END IF;
+
+  IF v_remarks IS NOT NULL AND length(v_remarks) > 500 THEN
+    RAISE EXCEPTION 'remarks cannot exceed 500 characters';
+  END IF;
+
+  -- Allows the status change through enforce_ot_status_transition for this transaction
+  PERFORM set_config('otms.transition_engine', 'on', true);
+
+  FOR v_request IN
+    SELECT *
+    FROM public.ot_requests r
+    WHERE r.id = ANY(p_request_ids)
+    ORDER BY r.ot_date, r.start_time
+    FOR UPDATE
+  LOOP
+    v_found := v_found + 1;
+    v_actor := public.resolve_ot_transition_actor(v_request, v_user_id, p_to_status);
+
+    IF v_actor IS NULL THEN
+      RAISE EXCEPTION 'transition of % from % to % is not allowed for this user',
+        v_request.ticket_number, v_request.status, p_to_status
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    SELECT t.requires_remarks INTO v_requires_remarks
+    FROM public.ot_status_transitions t
+    WHERE t.from_status = v_request.status
+      AND t.to_status = p_to_status
+      AND t.actor = v_actor;
+
+    IF v_requires_remarks AND v_remarks IS NULL THEN
+      RAISE EXCEPTION 'remarks are required to move % to %', v_request.ticket_number, p_to_status;
+    END IF;
+
+    -- Transition-specific guards
+    IF v_actor = 'respective_supervisor' AND p_to_status = 'rejected' AND length(v_remarks) < 10 THEN
+      RAISE EXCEPTION 'denial remarks must be at least 10 characters';
+    END IF;
+
+    IF v_actor = 'supervisor'
+       AND p_to_status = 'pending_respective_supervisor_confirmation'
+       AND v_request.respective_supervisor_id IS NULL THEN
+      RAISE EXCEPTION '% has no respective supervisor assigned', v_request.ticket_number;
+    END IF;
+
+    IF v_actor = 'hr' AND p_to_status IN ('pending_verification', 'pending_respective_supervisor_confirmation') THEN
+      IF (v_request.respective_supervisor_id IS NOT NULL) <> (p_to_status = 'pending_respective_supervisor_confirmation') THEN
+        RAISE EXCEPTION '% must be reset to the start of its own route', v_request.ticket_number;
+      END IF;
+    END IF;
+
+    IF v_actor = 'hr' AND p_to_status = 'hr_certified' AND v_request.status = 'hr_certified'
+       AND v_request.management_remarks IS NULL THEN
+      RAISE EXCEPTION '% has not been sent back by management', v_request.ticket_number;
+    END IF;
+
+    IF v_actor = 'management' AND v_request.status = 'hr_certified' AND v_request.management_remarks IS NOT NULL THEN
+      RAISE EXCEPTION '% is awaiting HR recertification', v_request.ticket_number;
+    END IF;
+
+    -- Tells log_ot_request_event which role made the change
+    PERFORM set_config('otms.transition_actor', v_actor, true);
+
+    -- Apply the transition together with the stage fields it owns
+    IF v_actor = 'supervisor' THEN
+      UPDATE public.ot_requests r SET
+        status = p_to_status,
+        supervisor_remarks = COALESCE(v_remarks, r.supervisor_remarks),
+        supervisor_verified_at = CASE
+          WHEN p_to_status IN ('supervisor_confirmed', 'supervisor_verified', 'rejected') THEN v_now
+          ELSE r.supervisor_verified_at END,
+        supervisor_confirmation_at = CASE
+          WHEN p_to_status IN ('supervisor_confirmed', 'supervisor_verified') THEN v_now
+          ELSE r.supervisor_confirmation_at END,
+        rejection_stage = CASE
+          WHEN p_to_status = 'rejected' THEN COALESCE(p_rejection_stage, 'supervisor')
+          ELSE r.rejection_stage END
+      WHERE r.id = v_request.id;
+
+    ELSIF v_actor = 'respective_supervisor' THEN
+      IF p_to_status = 'rejected' THEN
+        UPDATE public.ot_requests r SET
+          status = p_to_status,
+          respective_supervisor_denied_at = v_now,
+          respective_supervisor_denial_remarks = v_remarks,
+          rejection_stage = COALESCE(p_rejection_stage, 'respective_supervisor_verification')
+        WHERE r.id = v_request.id;
+      ELSE
+        UPDATE public.ot_requests r SET
+          status = p_to_status,
+          respective_supervisor_confirmed_at = v_now,
+          respective_supervisor_remarks = v_remarks
+        WHERE r.id = v_request.id;
+      END IF;
+
+    ELSIF v_actor = 'department_head' THEN
+      UPDATE public.ot_requests r SET
+        status = p_to_status,
+        department_head_id = v_user_id,
+        department_head_remarks = v_remarks,
+        department_head_approved_at = CASE
+          WHEN p_to_status = 'department_head_approved' THEN v_now
+          ELSE r.department_head_approved_at END,
+        rejection_stage = CASE
+          WHEN p_to_status = 'rejected' THEN COALESCE(p_rejection_stage, 'department_head')
+          ELSE r.rejection_stage END
+      WHERE r.id = v_request.id;
+
+    ELSIF v_actor = 'hr' THEN
+      UPDATE public.ot_requests r SET
+        status = p_to_status,
+        hr_id = v_user_id,
+        hr_remarks = v_remarks,
+        hr_approved_at = CASE
+          WHEN p_to_status = 'hr_certified' THEN v_now
+          -- Sent back for amendment: the request must be certified again
+          WHEN p_to_status IN ('pending_verification', 'pending_respective_supervisor_confirmation') THEN NULL
+          ELSE r.hr_approved_at END,
+        -- Recertification clears the send-back so the request returns to management's queue
+        management_remarks = CASE
+          WHEN v_request.status = 'hr_certified' AND p_to_status = 'hr_certified' THEN NULL
+          ELSE r.management_remarks END,
+        management_reviewed_at = CASE
+          WHEN v_request.status = 'hr_certified' AND p_to_status = 'hr_certified' THEN NULL
+          ELSE r.management_reviewed_at END,
+        rejection_stage = CASE
+          WHEN p_to_status = 'rejected' THEN COALESCE(p_rejection_stage, 'hr')
+          ELSE r.rejection_stage END
+      WHERE r.id = v_request.id;
+
+    ELSE
+      UPDATE public.ot_requests r SET
+        status = p_to_status,
+        management_id = v_user_id,
+        management_remarks = v_remarks,
+        management_reviewed_at = v_now
+      WHERE r.id = v_request.id;
+    END IF;
+
+    v_final_status := p_to_status;
+
+    -- Chains without a management step end at HR certification
+    IF v_actor = 'hr' AND p_to_status = 'hr_certified'
+       AND NOT ('management' = ANY(v_request.approval_steps)) THEN
+      PERFORM set_config('otms.transition_actor', 'system', true);
+
+      UPDATE public.ot_requests r SET
+        status = 'management_approved'
+      WHERE r.id = v_request.id;
+
+      v_final_status := 'management_approved';
+    END IF;
+
+    request_id := v_request.id;
+    from_status := v_request.status;
+    to_status := v_final_status;
+    actor := v_actor;
+    RETURN NEXT;
+  END LOOP;
+
+  IF v_found <> cardinality(p_request_ids) THEN
+    RAISE EXCEPTION 'one or more OT requests were not found';
+  END IF;
+END;
+$$;
+
+-- 3) Bulk decisions: each request succeeds or fails on its own
+-- p_decisions: [{ "request_id": uuid, "to_status": ot_status, "remarks": text, "rejection_stage": text }]
+CREATE OR REPLACE FUNCTION public.decide_ot_requests(p_decisions jsonb)
+RETURNS TABLE (
+  request_id uuid,
+  employee_id uuid,
+  ok boolean,
+  from_status ot_status,
+  to_status ot_status,
+  error text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_decision jsonb;
+  v_result record;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'not authenticated';
+  END IF;
+
+  IF p_decisions IS NULL OR jsonb_typeof(p_decisions) <> 'array' OR jsonb_array_length(p_decisions) = 0 THEN
+    RAISE EXCEPTION 'no decisions supplied'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  FOR v_decision IN SELECT value FROM jsonb_array_elements(p_decisions)
+  LOOP
+    request_id := (v_decision->>'request_id')::uuid;
+    to_status := (v_decision->>'to_status')::ot_status;
+
+    SELECT r.employee_id, r.status INTO employee_id, from_status
+    FROM public.ot_requests r
+    WHERE r.id = request_id;
+
+    IF NOT FOUND THEN
+      ok := false;
+      error := 'OT request not found';
+      RETURN NEXT;
+      CONTINUE;
+    END IF;
+
+    -- A failed decision rolls back only its own changes
+    BEGIN
+      SELECT t.from_status, t.to_status INTO v_result
+      FROM public.transition_ot_request(
+        ARRAY[request_id],
+        to_status,
+        v_decision->>'remarks',
+        v_decision->>'rejection_stage'
+      ) t;
+
+      ok := true;
+      from_status := v_result.from_status;
+      to_status := v_result.to_status;
+      error := NULL;
+    EXCEPTION WHEN OTHERS THEN
+      ok := false;
+      error := SQLERRM;
+    END;
+
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.decide_ot_requests(jsonb) TO authenticated;
@@ -0,0 +1,204 @@
+-- Inventory room badge verification
+--
+-- The profile page's inventory QR carried the employee's name and department
+-- in plain text next to a token nothing ever checked, and the app chose the
+-- token and its expiry itself. This migration:
+-- - issues tokens in the database (issue_inventory_access_token) with a
+--   fixed 30 minute expiry, retiring the employee's earlier unused tokens;
+--   the QR now carries only the token
+-- - adds inventory_kiosks, the store counter scanners, which authenticate
+--   with a key of their own (only its hash is kept)
+-- - adds consume_inventory_access_token(), used by the
+--   verify-inventory-access edge function: a token lets its holder in once,
+--   before it expires, at a kiosk of the holder's company
+-- - logs every scan, whatever its outcome, in inventory_access_scans
+
+-- 1) Tokens are issued here, not by the app
+DROP POLICY IF EXISTS "Users can insert their own tokens" ON public.inventory_access_tokens;
+
+CREATE OR REPLACE FUNCTION public.issue_inventory_access_token()
+RETURNS TABLE (token uuid, expires_at timestamptz)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'not authenticated';
+  END IF;
+
+  -- Only the latest QR works
+  UPDATE public.inventory_access_tokens t SET
+    is_active = false
+  WHERE t.user_id = v_user_id
+    AND t.is_active
+    AND t.used_at IS NULL;
+
+  RETURN QUERY
+  INSERT INTO public.inventory_access_tokens (user_id, token, generated_at, expires_at, is_active)
+  VALUES (v_user_id, gen_random_uuid(), now(), now() + interval '30 minutes', true)
+  RETURNING inventory_access_tokens.token, inventory_access_tokens.expires_at;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.issue_inventory_access_token() TO authenticated;
+
+-- 2) Kiosks
+CREATE TABLE IF NOT EXISTS public.inventory_kiosks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id uuid NOT NULL DEFAULT public.active_company_id() REFERENCES public.companies(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (btrim(name) <> ''),
+  -- sha256 of the kiosk key, hex encoded
+  key_hash text NOT NULL UNIQUE,
+  is_active boolean NOT NULL DEFAULT true,
+  last_seen_at timestamptz,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.inventory_kiosks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Inventory kiosks managed by admins" ON public.inventory_kiosks;
+CREATE POLICY "Inventory kiosks managed by admins"
+  ON public.inventory_kiosks FOR ALL TO authenticated
+  USING (has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+DROP POLICY IF EXISTS "Active company only" ON public.inventory_kiosks;
+CREATE POLICY "Active company only"
+  ON public.inventory_kiosks AS RESTRICTIVE FOR ALL TO authenticated
+  USING (company_id = (SELECT public.active_company_id()))
+  WITH CHECK (company_id = (SELECT public.active_company_id()));
+
+-- The key is shown once, to the admin registering the kiosk
+CREATE OR REPLACE FUNCTION public.register_inventory_kiosk(p_name text)
+RETURNS TABLE (kiosk_id uuid, kiosk_key text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_key text := replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can register inventory kiosks'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_name IS NULL OR btrim(p_name) = '' THEN
+    RAISE EXCEPTION 'Kiosk name is required'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  INSERT INTO public.inventory_kiosks (name, key_hash)
+  VALUES (btrim(p_name), encode(sha256(convert_to(v_key, 'UTF8')), 'hex'))
+  RETURNING id INTO kiosk_id;
+
+  kiosk_key := v_key;
+  RETURN NEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.register_inventory_kiosk(text) TO authenticated;
+
+-- 3) Scan log
+CREATE TABLE IF NOT EXISTS public.inventory_access_scans (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id uuid NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  kiosk_id uuid REFERENCES public.inventory_kiosks(id) ON DELETE SET NULL,
+  token_id uuid REFERENCES public.inventory_access_tokens(id) ON DELETE SET NULL,
+  employee_id uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  result text NOT NULL CHECK (result IN ('granted', 'unknown', 'expired', 'used', 'revoked', 'other_company')),
+  scanned_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_access_scans_company ON public.inventory_access_scans(company_id, scanned_at DESC);
+
+ALTER TABLE public.inventory_access_scans ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view inventory scans" ON public.inventory_access_scans;
+CREATE POLICY "Admins can view inventory scans"
+  ON public.inventory_access_scans FOR SELECT TO authenticated
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+DROP POLICY IF EXISTS "Active company only" ON public.inventory_access_scans;
+CREATE POLICY "Active company only"
+  ON public.inventory_access_scans AS RESTRICTIVE FOR ALL TO authenticated
+  USING (company_id = (SELECT public.active_company_id()))
+  WITH CHECK (company_id = (SELECT public.active_company_id()));
+
+-- 4) Verification: checks a scanned token, uses it up when it lets the holder in, logs the scan
+CREATE OR REPLACE FUNCTION public.consume_inventory_access_token(p_kiosk_key text, p_token text)
+RETURNS TABLE (
+  scan_id uuid,
+  result text,
+  employee_id uuid,
+  kiosk_id uuid,
+  kiosk_name text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_kiosk public.inventory_kiosks;
+  v_token public.inventory_access_tokens;
+  v_employee public.profiles;
+BEGIN
+  SELECT * INTO v_kiosk
+  FROM public.inventory_kiosks k
+  WHERE k.key_hash = encode(sha256(convert_to(coalesce(p_kiosk_key, ''), 'UTF8')), 'hex')
+    AND k.is_active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'unknown or inactive kiosk'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE public.inventory_kiosks k SET last_seen_at = now() WHERE k.id = v_kiosk.id;
+
+  kiosk_id := v_kiosk.id;
+  kiosk_name := v_kiosk.name;
+
+  IF p_token ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+    -- Locked so two scanners cannot both use the same token
+    SELECT * INTO v_token
+    FROM public.inventory_access_tokens t
+    WHERE t.token = p_token::uuid
+    FOR UPDATE;
+  END IF;
+
+  IF v_token.id IS NULL THEN
+    result := 'unknown';
+  ELSE
+    SELECT * INTO v_employee FROM public.profiles p WHERE p.id = v_token.user_id;
+    employee_id := v_employee.id;
+
+    result := CASE
+      WHEN v_token.used_at IS NOT NULL THEN 'used'
+      WHEN v_token.expires_at <= now() THEN 'expired'
+      WHEN NOT coalesce(v_token.is_active, false) OR v_employee.id IS NULL OR v_employee.status = 'inactive' THEN 'revoked'
+      WHEN v_employee.company_id IS DISTINCT FROM v_kiosk.company_id THEN 'other_company'
+      ELSE 'granted'
+    END;
+
+    IF result = 'granted' THEN
+      UPDATE public.inventory_access_tokens t SET
+        used_at = now(),
+        is_active = false
+      WHERE t.id = v_token.id;
+    END IF;
+  END IF;
+
+  INSERT INTO public.inventory_access_scans (company_id, kiosk_id, token_id, employee_id, result)
+  VALUES (v_kiosk.company_id, v_kiosk.id, v_token.id, employee_id, result)
+  RETURNING id INTO scan_id;
+
+  RETURN NEXT;
+END;
+$$;
+
+-- Kiosks are not signed in; only the edge function (service role) calls this
+REVOKE EXECUTE ON FUNCTION public.consume_inventory_access_token(text, text) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,46 @@
+-- Department head policies without RLS recursion
+--
+-- otr_department_head_read looked the employee's department up in profiles,
+-- and the profiles supervisor policies look requests up in ot_requests, so
+-- Postgres raised "infinite recursion detected in policy" on ordinary reads
+-- of either table. The department head check now runs in a SECURITY DEFINER
+-- helper, which reads profiles and departments without their policies.
+
+-- 1) Membership helper
+CREATE OR REPLACE FUNCTION public.is_department_head_of(p_employee_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.profiles p
+    JOIN public.departments d ON d.id = p.department_id
+    WHERE p.id = p_employee_id
+      AND d.head_id = auth.uid()
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_department_head_of(uuid) TO authenticated;
+
+-- 2) Policies
+DROP POLICY IF EXISTS otr_department_head_read ON public.ot_requests;
+CREATE POLICY otr_department_head_read ON public.ot_requests
+  FOR SELECT TO authenticated
+  USING (public.is_department_head_of(employee_id));
+
+DROP POLICY IF EXISTS "ot_request_events_read_department_head" ON public.ot_request_events;
+CREATE POLICY "ot_request_events_read_department_head"
+  ON public.ot_request_events
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.ot_requests r
+      WHERE r.id = ot_request_events.request_id
+        AND public.is_department_head_of(r.employee_id)
+    )
+  );
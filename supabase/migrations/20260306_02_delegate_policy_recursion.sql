@@ -0,0 +1,47 @@
+-- Delegate policies without RLS recursion
+--
+-- prof_delegate_read looked up the employees of the delegator's requests in
+-- ot_requests, whose policies look employees up in profiles again, so reads
+-- of either table failed with "infinite recursion detected in policy". The
+-- supervisor delegate check now runs in a SECURITY DEFINER helper.
+
+-- 1) Membership helper: the signed-in user stands in for the employee's
+-- supervisor, or for the respective supervisor on one of their requests
+CREATE OR REPLACE FUNCTION public.is_supervisor_delegate_for(p_employee_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.profiles p
+    WHERE p.id = p_employee_id
+      AND p.supervisor_id = ANY(public.active_delegator_ids(auth.uid(), 'supervisor'))
+  )
+  OR EXISTS (
+    SELECT 1
+    FROM public.ot_requests r
+    WHERE r.employee_id = p_employee_id
+      AND r.respective_supervisor_id = ANY(public.active_delegator_ids(auth.uid(), 'supervisor'))
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_supervisor_delegate_for(uuid) TO authenticated;
+
+-- 2) Policy
+DROP POLICY IF EXISTS prof_delegate_read ON public.profiles;
+CREATE POLICY prof_delegate_read ON public.profiles
+  FOR SELECT TO authenticated
+  USING (
+    -- Both sides of a delegation can see each other
+    id IN (
+      SELECT d.delegate_id FROM public.approval_delegations d WHERE d.delegator_id = auth.uid()
+      UNION
+      SELECT d.delegator_id FROM public.approval_delegations d WHERE d.delegate_id = auth.uid()
+    )
+    OR public.is_supervisor_delegate_for(id)
+    OR cardinality(public.active_delegator_ids(auth.uid(), 'hr')) > 0
+    OR cardinality(public.active_delegator_ids(auth.uid(), 'management')) > 0
+  );
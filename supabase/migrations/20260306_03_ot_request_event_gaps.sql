@@ -0,0 +1,418 @@
+-- OT request event log gaps
+--
+-- log_ot_request_event skipped every update that left the status unchanged,
+-- so the two transitions that stay in hr_certified were never recorded:
+-- management sending a request back to HR, and HR recertifying it. Requests
+-- created before the event log also only had their backfilled submission, so
+-- timelines lost the review history the stage columns still hold.
+-- This migration:
+-- - has transition_ot_request mark the request it is updating, and logs every
+--   update the engine makes to that request, including same-status transitions
+-- - restarts the SLA clock only for that request; sibling sessions the amount
+--   recalculation touches in the same transaction keep theirs
+-- - backfills status events for the stages recorded on older requests
+
+-- 1) Transition engine: mark the request being transitioned
+CREATE OR REPLACE FUNCTION public.transition_ot_request(
+  p_request_ids uuid[],
+  p_to_status ot_status,
+  p_remarks text DEFAULT NULL,
+  p_rejection_stage text DEFAULT NULL
+)
+RETURNS TABLE (
+  request_id uuid,
+  from_status ot_status,
+  to_status ot_status,
+  actor text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_remarks text := NULLIF(btrim(p_remarks), '');
+  v_now timestamptz := now();
+  v_request public.ot_requests;
+  v_actor text;
+  v_requires_remarks boolean;
+  v_final_status ot_status;
+  v_found int := 0;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'not authenticated';
+  END IF;
+
+  IF p_request_ids IS NULL OR cardinality(p_request_ids) = 0 THEN
+    RAISE EXCEPTION 'no OT requests supplied';
+  END IF;
+
+  IF v_remarks IS NOT NULL AND length(v_remarks) > 500 THEN
+    RAISE EXCEPTION 'remarks cannot exceed 500 characters';
+  END IF;
+
+  -- Allows the status change through enforce_ot_status_transition for this transaction
+  PERFORM set_config('otms.transition_engine', 'on', true);
+
+  FOR v_request IN
+    SELECT *
+    FROM public.ot_requests r
+    WHERE r.id = ANY(p_request_ids)
+    ORDER BY r.ot_date, r.start_time
+    FOR UPDATE
+  LOOP
+    v_found := v_found + 1;
+    v_actor := public.resolve_ot_transition_actor(v_request, v_user_id, p_to_status);
+
+    IF v_actor IS NULL THEN
+      RAISE EXCEPTION 'transition of % from % to % is not allowed for this user',
+        v_request.ticket_number, v_request.status, p_to_status
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    SELECT t.requires_remarks INTO v_requires_remarks
+    FROM public.ot_status_transitions t
+    WHERE t.from_status = v_request.status
+      AND t.to_status = p_to_status
+      AND t.actor = v_actor;
+
+    IF v_requires_remarks AND v_remarks IS NULL THEN
+      RAISE EXCEPTION 'remarks are required to move % to %', v_request.ticket_number, p_to_status;
+    END IF;
+
+    -- Transition-specific guards
+    IF v_actor = 'respective_supervisor' AND p_to_status = 'rejected' AND length(v_remarks) < 10 THEN
+      RAISE EXCEPTION 'denial remarks must be at least 10 characters';
+    END IF;
+
+    IF v_actor = 'supervisor'
+       AND p_to_status = 'pending_respective_supervisor_confirmation'
+       AND v_request.respective_supervisor_id IS NULL THEN
+      RAISE EXCEPTION '% has no respective supervisor assigned', v_request.ticket_number;
+    END IF;
+
+    IF v_actor = 'hr' AND p_to_status IN ('pending_verification', 'pending_respective_supervisor_confirmation') THEN
+      IF (v_request.respective_supervisor_id IS NOT NULL) <> (p_to_status = 'pending_respective_supervisor_confirmation') THEN
+        RAISE EXCEPTION '% must be reset to the start of its own route', v_request.ticket_number;
+      END IF;
+    END IF;
+
+    IF v_actor = 'hr' AND p_to_status = 'hr_certified' AND v_request.status = 'hr_certified'
+       AND v_request.management_remarks IS NULL THEN
+      RAISE EXCEPTION '% has not been sent back by management', v_request.ticket_number;
+    END IF;
+
+    IF v_actor = 'management' AND v_request.status = 'hr_certified' AND v_request.management_remarks IS NOT NULL THEN
+      RAISE EXCEPTION '% is awaiting HR recertification', v_request.ticket_number;
+    END IF;
+
+    -- Tells log_ot_request_event which role made the change, and that this
+    -- request's update is a transition even when the status stays the same
+    PERFORM set_config('otms.transition_actor', v_actor, true);
+    PERFORM set_config('otms.transition_request', v_request.id::text, true);
+
+    -- Apply the transition together with the stage fields it owns
+    IF v_actor = 'supervisor' THEN
+      UPDATE public.ot_requests r SET
+        status = p_to_status,
+        supervisor_remarks = COALESCE(v_remarks, r.supervisor_remarks),
+        supervisor_verified_at = CASE
+          WHEN p_to_status IN ('supervisor_confirmed', 'supervisor_verified', 'rejected') THEN v_now
+          ELSE r.supervisor_verified_at END,
+        supervisor_confirmation_at = CASE
+          WHEN p_to_status IN ('supervisor_confirmed', 'supervisor_verified') THEN v_now
+          ELSE r.supervisor_confirmation_at END,
+        rejection_stage = CASE
+          WHEN p_to_status = 'rejected' THEN COALESCE(p_rejection_stage, 'supervisor')
+          ELSE r.rejection_stage END
+      WHERE r.id = v_request.id;
+
+    ELSIF v_actor = 'respective_supervisor' THEN
+      IF p_to_status = 'rejected' THEN
+        UPDATE public.ot_requests r SET
+          status = p_to_status,
+          respective_supervisor_denied_at = v_now,
+          respective_supervisor_denial_remarks = v_remarks,
+          rejection_stage = COALESCE(p_rejection_stage, 'respective_supervisor_verification')
+        WHERE r.id = v_request.id;
+      ELSE
+        UPDATE public.ot_requests r SET
+          status = p_to_status,
+          respective_supervisor_confirmed_at = v_now,
+          respective_supervisor_remarks = v_remarks
+        WHERE r.id = v_request.id;
+      END IF;
+
+    ELSIF v_actor = 'department_head' THEN
+      UPDATE public.ot_requests r SET
+        status = p_to_status,
+        department_head_id = v_user_id,
+        department_head_remarks = v_remarks,
+        department_head_approved_at = CASE
+          WHEN p_to_status = 'department_head_approved' THEN v_now
+          ELSE r.department_head_approved_at END,
+        rejection_stage = CASE
+          WHEN p_to_status = 'rejected' THEN COALESCE(p_rejection_stage, 'department_head')
+          ELSE r.rejection_stage END
+      WHERE r.id = v_request.id;
+
+    ELSIF v_actor = 'hr' THEN
+      UPDATE public.ot_requests r SET
+        status = p_to_status,
+        hr_id = v_user_id,
+        hr_remarks = v_remarks,
+        hr_approved_at = CASE
+          WHEN p_to_status = 'hr_certified' THEN v_now
+          -- Sent back for amendment: the request must be certified again
+          WHEN p_to_status IN ('pending_verification', 'pending_respective_supervisor_confirmation') THEN NULL
+          ELSE r.hr_approved_at END,
+        -- Recertification clears the send-back so the request returns to management's queue
+        management_remarks = CASE
+          WHEN v_request.status = 'hr_certified' AND p_to_status = 'hr_certified' THEN NULL
+          ELSE r.management_remarks END,
+        management_reviewed_at = CASE
+          WHEN v_request.status = 'hr_certified' AND p_to_status = 'hr_certified' THEN NULL
+          ELSE r.management_reviewed_at END,
+        rejection_stage = CASE
+          WHEN p_to_status = 'rejected' THEN COALESCE(p_rejection_stage, 'hr')
+          ELSE r.rejection_stage END
+      WHERE r.id = v_request.id;
+
+    ELSE
+      UPDATE public.ot_requests r SET
+        status = p_to_status,
+        management_id = v_user_id,
+        management_remarks = v_remarks,
+        management_reviewed_at = v_now
+      WHERE r.id = v_request.id;
+    END IF;
+
+    v_final_status := p_to_status;
+
+    -- Chains without a management step end at HR certification
+    IF v_actor = 'hr' AND p_to_status = 'hr_certified'
+       AND NOT ('management' = ANY(v_request.approval_steps)) THEN
+      PERFORM set_config('otms.transition_actor', 'system', true);
+
+      UPDATE public.ot_requests r SET
+        status = 'management_approved'
+      WHERE r.id = v_request.id;
+
+      v_final_status := 'management_approved';
+    END IF;
+
+    request_id := v_request.id;
+    from_status := v_request.status;
+    to_status := v_final_status;
+    actor := v_actor;
+    RETURN NEXT;
+  END LOOP;
+
+  IF v_found <> cardinality(p_request_ids) THEN
+    RAISE EXCEPTION 'one or more OT requests were not found';
+  END IF;
+END;
+$$;
+
+-- 2) SLA clock: only the request being transitioned restarts
+CREATE OR REPLACE FUNCTION public.set_ot_status_changed_at()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  -- Engine transitions that keep the status (HR recertification) restart the clock too
+  IF NEW.status IS DISTINCT FROM OLD.status
+     OR current_setting('otms.transition_request', true) = NEW.id::text THEN
+    NEW.status_changed_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- 3) Log engine transitions even when the status is unchanged
+CREATE OR REPLACE FUNCTION public.log_ot_request_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor_id uuid := auth.uid();
+  v_actor_role text;
+  v_engine_actor text := NULLIF(current_setting('otms.transition_actor', true), '');
+  v_is_transition boolean;
+  v_on_behalf_of uuid;
+  v_changes jsonb;
+  v_remarks text;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.ot_request_events (
+      request_id, event_type, actor_id, actor_role, to_status, changes
+    )
+    VALUES (
+      NEW.id, 'submitted', NEW.employee_id, 'employee', NEW.status, '{}'::jsonb
+    );
+    RETURN NEW;
+  END IF;
+
+  -- A same-status transition restarts the SLA clock; the amount recalculation
+  -- that follows it updates the row again without doing so
+  v_is_transition := NEW.status IS DISTINCT FROM OLD.status
+    OR (current_setting('otms.transition_request', true) = NEW.id::text
+        AND NEW.status_changed_at IS DISTINCT FROM OLD.status_changed_at);
+
+  -- Only record workflow-relevant updates; amount recalculations on sibling
+  -- sessions (recalculate_daily_ot_amounts) would otherwise flood the log
+  IF NOT v_is_transition
+     AND (NEW.ot_date, NEW.start_time, NEW.end_time, NEW.total_hours, NEW.day_type,
+          NEW.reason, NEW.attachment_urls, NEW.ot_location_state, NEW.respective_supervisor_id)
+         IS NOT DISTINCT FROM
+         (OLD.ot_date, OLD.start_time, OLD.end_time, OLD.total_hours, OLD.day_type,
+          OLD.reason, OLD.attachment_urls, OLD.ot_location_state, OLD.respective_supervisor_id) THEN
+    RETURN NEW;
+  END IF;
+
+  v_changes := public.ot_request_field_diff(OLD, NEW);
+
+  IF v_actor_id IS NULL THEN
+    v_actor_role := 'system';
+  ELSIF v_is_transition THEN
+    v_actor_role := COALESCE(
+      v_engine_actor,
+      public.resolve_ot_transition_actor(OLD, v_actor_id, NEW.status),
+      'system'
+    );
+  ELSIF v_actor_id = NEW.employee_id THEN
+    v_actor_role := 'employee';
+  ELSIF has_role(v_actor_id, 'hr'::app_role) OR has_role(v_actor_id, 'admin'::app_role) THEN
+    v_actor_role := 'hr';
+  ELSE
+    v_actor_role := 'system';
+  END IF;
+
+  IF v_actor_role = 'system' THEN
+    v_actor_id := NULL;
+  ELSIF v_is_transition THEN
+    v_on_behalf_of := public.ot_transition_on_behalf_of(OLD, v_actor_id, v_actor_role);
+  END IF;
+
+  -- The remarks written by this change, whichever stage column holds them
+  v_remarks := COALESCE(
+    v_changes -> 'respective_supervisor_denial_remarks' ->> 'new',
+    v_changes -> 'respective_supervisor_remarks' ->> 'new',
+    v_changes -> 'supervisor_remarks' ->> 'new',
+    v_changes -> 'supervisor_confirmation_remarks' ->> 'new',
+    v_changes -> 'department_head_remarks' ->> 'new',
+    v_changes -> 'hr_remarks' ->> 'new',
+    v_changes -> 'management_remarks' ->> 'new'
+  );
+
+  INSERT INTO public.ot_request_events (
+    request_id, event_type, actor_id, actor_role, on_behalf_of, from_status, to_status, remarks, changes
+  )
+  VALUES (
+    NEW.id,
+    CASE WHEN v_is_transition THEN 'status_changed' ELSE 'updated' END,
+    v_actor_id,
+    v_actor_role,
+    v_on_behalf_of,
+    OLD.status,
+    NEW.status,
+    v_remarks,
+    v_changes
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+-- 4) Backfill stage events for requests that predate the event log
+-- Those requests carry the backfilled submission (no to_status). Each stage
+-- column pair becomes one event, unless the log already covers that time.
+-- Rejections after the supervisor stage have no timestamp of their own, so
+-- the time the request entered its current status is used.
+WITH backfilled AS (
+  SELECT
+    r.*,
+    CASE WHEN r.respective_supervisor_id IS NULL THEN 'supervisor_confirmed' ELSE 'supervisor_verified' END::ot_status
+      AS supervisor_stage_status,
+    (
+      SELECT min(e.created_at)
+      FROM public.ot_request_events e
+      WHERE e.request_id = r.id
+        AND NOT (e.event_type = 'submitted' AND e.to_status IS NULL)
+    ) AS first_logged_at
+  FROM public.ot_requests r
+  WHERE EXISTS (
+    SELECT 1
+    FROM public.ot_request_events e
+    WHERE e.request_id = r.id
+      AND e.event_type = 'submitted'
+      AND e.to_status IS NULL
+  )
+)
+INSERT INTO public.ot_request_events (
+  request_id, event_type, actor_id, actor_role, from_status, to_status, remarks, created_at
+)
+SELECT b.id, 'status_changed', s.actor_id, s.actor_role, s.from_status, s.to_status, s.remarks, s.at
+FROM backfilled b
+CROSS JOIN LATERAL (
+  VALUES
+    (
+      b.respective_supervisor_confirmed_at, b.respective_supervisor_id, 'respective_supervisor',
+      'pending_respective_supervisor_confirmation'::ot_status, 'respective_supervisor_confirmed'::ot_status,
+      b.respective_supervisor_remarks
+    ),
+    (
+      b.respective_supervisor_denied_at, b.respective_supervisor_id, 'respective_supervisor',
+      'pending_respective_supervisor_confirmation'::ot_status, 'rejected'::ot_status,
+      b.respective_supervisor_denial_remarks
+    ),
+    (
+      b.supervisor_verified_at, b.supervisor_id, 'supervisor',
+      CASE WHEN b.respective_supervisor_id IS NULL THEN 'pending_verification' ELSE 'respective_supervisor_confirmed' END::ot_status,
+      CASE WHEN b.status = 'rejected' AND b.rejection_stage = 'supervisor' THEN 'rejected'::ot_status
+        ELSE b.supervisor_stage_status END,
+      b.supervisor_remarks
+    ),
+    (
+      b.department_head_approved_at, b.department_head_id, 'department_head',
+      b.supervisor_stage_status, 'department_head_approved'::ot_status,
+      b.department_head_remarks
+    ),
+    (
+      b.hr_approved_at, b.hr_id, 'hr',
+      CASE WHEN b.department_head_approved_at IS NULL THEN b.supervisor_stage_status
+        ELSE 'department_head_approved' END::ot_status,
+      'hr_certified'::ot_status,
+      b.hr_remarks
+    ),
+    (
+      b.management_reviewed_at, b.management_id, 'management',
+      'hr_certified'::ot_status,
+      CASE WHEN b.status = 'management_approved' THEN 'management_approved' ELSE 'hr_certified' END::ot_status,
+      b.management_remarks
+    ),
+    (
+      CASE WHEN b.status = 'rejected' AND b.rejection_stage IN ('department_head', 'hr') THEN b.status_changed_at END,
+      CASE WHEN b.rejection_stage = 'department_head' THEN b.department_head_id ELSE b.hr_id END,
+      CASE WHEN b.rejection_stage = 'department_head' THEN 'department_head' ELSE 'hr' END,
+      CASE
+        WHEN b.hr_approved_at IS NOT NULL THEN 'hr_certified'::ot_status
+        WHEN b.department_head_approved_at IS NOT NULL THEN 'department_head_approved'::ot_status
+        ELSE b.supervisor_stage_status
+      END,
+      'rejected'::ot_status,
+      CASE WHEN b.rejection_stage = 'department_head' THEN b.department_head_remarks ELSE b.hr_remarks END
+    )
+) AS s(at, actor_id, actor_role, from_status, to_status, remarks)
+WHERE s.at IS NOT NULL
+  AND (b.first_logged_at IS NULL OR s.at < b.first_logged_at)
+  AND NOT EXISTS (
+    SELECT 1
+    FROM public.ot_request_events e
+    WHERE e.request_id = b.id
+      AND e.event_type = 'status_changed'
+      AND e.created_at = s.at
+  );
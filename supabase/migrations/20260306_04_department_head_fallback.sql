@@ -0,0 +1,137 @@
+-- Department head step without an eligible head
+--
+-- A chain's department head step waited for the head of the employee's
+-- department, and HR could not certify before it. When the department had
+-- no head, or the employee was the head, nobody could act and the request
+-- sat in the queue for good. This migration:
+-- - drops the step when resolving a request's chain if nobody can take it
+-- - drops it from requests already waiting for a head when the department's
+--   head is removed or changed, or the employee moves department
+
+-- 1) The head who approves an employee's OT
+CREATE OR REPLACE FUNCTION public.ot_department_head_id(p_employee_id uuid)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NULLIF(d.head_id, p.id)
+  FROM public.profiles p
+  JOIN public.departments d ON d.id = p.department_id
+  WHERE p.id = p_employee_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.ot_department_head_id(uuid) TO authenticated;
+
+-- 2) Chain resolution skips the step
+CREATE OR REPLACE FUNCTION public.resolve_ot_approval_steps(p_request public.ot_requests)
+RETURNS text[]
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_company_id uuid;
+  v_department_id uuid;
+  v_chain_id uuid;
+  v_steps text[];
+BEGIN
+  SELECT p.company_id, p.department_id
+  INTO v_company_id, v_department_id
+  FROM public.profiles p
+  WHERE p.id = p_request.employee_id;
+
+  SELECT c.id INTO v_chain_id
+  FROM public.approval_chains c
+  WHERE c.is_active
+    AND (c.company_id IS NULL OR c.company_id = v_company_id)
+    AND (c.department_id IS NULL OR c.department_id = v_department_id)
+  ORDER BY (c.department_id IS NOT NULL) DESC, (c.company_id IS NOT NULL) DESC, c.created_at
+  LIMIT 1;
+
+  IF v_chain_id IS NULL THEN
+    RETURN ARRAY['hr', 'management'];
+  END IF;
+
+  SELECT COALESCE(array_agg(s.role ORDER BY array_position(ARRAY['department_head', 'hr', 'management'], s.role)), '{}')
+  INTO v_steps
+  FROM public.approval_chain_steps s
+  WHERE s.chain_id = v_chain_id
+    AND CASE s.skip_rule
+      WHEN 'when_condition_met' THEN NOT public.ot_approval_condition_matches(s.condition, p_request, v_department_id)
+      WHEN 'when_condition_not_met' THEN public.ot_approval_condition_matches(s.condition, p_request, v_department_id)
+      ELSE true
+    END;
+
+  -- HR certification is never skipped, even if the step was removed from the chain
+  IF NOT ('hr' = ANY(v_steps)) THEN
+    v_steps := array_remove(v_steps, 'management') || 'hr'::text
+      || CASE WHEN 'management' = ANY(v_steps) THEN ARRAY['management'] ELSE '{}'::text[] END;
+  END IF;
+
+  -- Nobody could take the department head step
+  IF 'department_head' = ANY(v_steps) AND public.ot_department_head_id(p_request.employee_id) IS NULL THEN
+    v_steps := array_remove(v_steps, 'department_head');
+  END IF;
+
+  RETURN v_steps;
+END;
+$$;
+
+-- 3) Requests already waiting for a head that is gone
+-- Requests in a locked payroll period cannot change and are left alone
+CREATE OR REPLACE FUNCTION public.skip_unstaffed_department_head_steps(p_employee_ids uuid[])
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.ot_requests r SET
+    approval_steps = array_remove(r.approval_steps, 'department_head')
+  WHERE r.employee_id = ANY(p_employee_ids)
+    AND 'department_head' = ANY(r.approval_steps)
+    AND r.status IN ('supervisor_confirmed', 'supervisor_verified', 'respective_supervisor_confirmed')
+    AND public.ot_department_head_id(r.employee_id) IS NULL
+    AND (public.frozen_payroll_period(r.employee_id, r.ot_date)).id IS NULL;
+$$;
+
+REVOKE ALL ON FUNCTION public.skip_unstaffed_department_head_steps(uuid[]) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.skip_department_head_steps_on_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'departments' THEN
+    PERFORM public.skip_unstaffed_department_head_steps(
+      ARRAY(SELECT p.id FROM public.profiles p WHERE p.department_id = NEW.id)
+    );
+  ELSE
+    PERFORM public.skip_unstaffed_department_head_steps(ARRAY[NEW.id]);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_skip_department_head_steps ON public.departments;
+CREATE TRIGGER trg_skip_department_head_steps
+  AFTER UPDATE OF head_id ON public.departments
+  FOR EACH ROW
+  WHEN (OLD.head_id IS DISTINCT FROM NEW.head_id)
+  EXECUTE FUNCTION public.skip_department_head_steps_on_change();
+
+DROP TRIGGER IF EXISTS trg_skip_department_head_steps ON public.profiles;
+CREATE TRIGGER trg_skip_department_head_steps
+  AFTER UPDATE OF department_id ON public.profiles
+  FOR EACH ROW
+  WHEN (OLD.department_id IS DISTINCT FROM NEW.department_id)
+  EXECUTE FUNCTION public.skip_department_head_steps_on_change();
+
+SELECT public.skip_unstaffed_department_head_steps(
+  ARRAY(SELECT p.id FROM public.profiles p)
+);
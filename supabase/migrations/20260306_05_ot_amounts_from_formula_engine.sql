@@ -0,0 +1,116 @@
+-- OT amounts from the rate formula engine
+--
+-- calculate_daily_ot_distribution read formula.formula_text, a column
+-- get_active_formula does not return, and swallowed the error in an
+-- EXCEPTION WHEN OTHERS block. Every amount therefore came from the
+-- hard-coded statutory rates, whatever formula HR had published. This
+-- migration:
+-- - evaluates the active version's base formula against the day's variables
+--   (ot_formula_day_variables) times its multiplier, like
+--   preview_ot_formula_version_impact and the HR formula preview
+-- - raises instead of falling back when there is no active formula or the
+--   formula cannot be evaluated
+-- - rewrites the four seeded default formulas, which were never applied and
+--   gave an hourly or daily rate rather than an amount, as the statutory
+--   rates the fallback paid
+
+-- 1) Seeded defaults. The rows are immutable versions, but no amount was
+-- ever calculated with them.
+ALTER TABLE public.ot_rate_formulas DISABLE TRIGGER trg_protect_ot_rate_formula_version;
+
+UPDATE public.ot_rate_formulas f
+SET base_formula = v.base_formula,
+    multiplier = v.multiplier
+FROM (VALUES
+  ('Weekday Standard Rate', 'weekday'::day_type, 'Basic / 26 / 8', 1.5,
+   'HRP * Hours', 1.5),
+  ('Saturday Standard Rate', 'saturday'::day_type, 'Basic / 26 / 8', 2.0,
+   'HRP * Hours', 2.0),
+  ('Sunday Standard Rate', 'sunday'::day_type, 'Basic / 26', 1.0,
+   'IF(Hours <= 4, 0.5 * ORP, IF(Hours <= 8, ORP, ORP + 2 * HRP * (Hours - 8)))', 1.0),
+  ('Public Holiday Standard Rate', 'public_holiday'::day_type, 'Basic / 26', 2.0,
+   'IF(Hours <= 8, 2 * ORP, 2 * ORP + 3 * HRP * (Hours - 8))', 1.0)
+) AS v(formula_name, day_type, seeded_formula, seeded_multiplier, base_formula, multiplier)
+WHERE f.formula_name = v.formula_name
+  AND f.day_type = v.day_type
+  AND f.base_formula = v.seeded_formula
+  AND f.multiplier = v.seeded_multiplier;
+
+ALTER TABLE public.ot_rate_formulas ENABLE TRIGGER trg_protect_ot_rate_formula_version;
+
+-- 2) Daily amounts from the engine
+CREATE OR REPLACE FUNCTION public.calculate_daily_ot_distribution(
+  p_employee_id uuid,
+  p_ot_date date,
+  p_day_type day_type DEFAULT NULL
+)
+RETURNS TABLE(
+  request_id uuid,
+  session_hours numeric,
+  session_orp numeric,
+  session_hrp numeric,
+  session_ot_amount numeric,
+  total_daily_hours numeric,
+  daily_ot_amount numeric
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  emp_salary numeric;
+  emp_category text;
+  formula record;
+  calculated_orp numeric;
+  calculated_hrp numeric;
+  daily_total_hours numeric;
+  total_ot_amount numeric;
+  verified_day_type day_type;
+BEGIN
+  -- Salary (prefer ot_base over basic_salary) and employment type on the date
+  SELECT COALESCE(e.ot_base, e.basic_salary), e.employment_type INTO emp_salary, emp_category
+  FROM public.employment_as_of(p_employee_id, p_ot_date) e;
+
+  IF emp_salary IS NULL THEN
+    RAISE EXCEPTION 'Employee salary not found for employee_id: %', p_employee_id;
+  END IF;
+
+  verified_day_type := public.determine_day_type_for_employee(p_ot_date, p_employee_id);
+
+  calculated_orp := emp_salary / 26;
+  calculated_hrp := calculated_orp / 8;
+
+  SELECT COALESCE(SUM(portion.hours), 0) INTO daily_total_hours
+  FROM public.ot_session_portions(p_employee_id, p_ot_date) portion;
+
+  IF daily_total_hours = 0 THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO formula
+  FROM get_active_formula(verified_day_type, COALESCE(emp_category, 'All'), p_ot_date);
+
+  IF formula.formula_id IS NULL THEN
+    RAISE EXCEPTION 'No active % rate formula for % employees on %',
+      verified_day_type, COALESCE(emp_category, 'All'), p_ot_date
+      USING ERRCODE = 'object_not_in_prerequisite_state';
+  END IF;
+
+  -- Raises 22023 or 22012 when the formula cannot be evaluated
+  total_ot_amount := public.ot_formula_evaluate(
+    formula.base_formula,
+    public.ot_formula_day_variables(p_employee_id, p_ot_date)
+  ) * formula.multiplier;
+
+  RETURN QUERY
+  SELECT
+    portion.request_id,
+    portion.hours,
+    calculated_orp,
+    calculated_hrp,
+    (portion.hours / daily_total_hours) * total_ot_amount,
+    daily_total_hours,
+    total_ot_amount
+  FROM public.ot_session_portions(p_employee_id, p_ot_date) portion;
+END;
+$$;
@@ -0,0 +1,8 @@
+-- Rate formula impact preview
+--
+-- preview_ot_formula_version_impact collects its per-day results in a
+-- temporary table, but was declared STABLE, and PL/pgSQL refuses TRUNCATE
+-- and INSERT in a non-volatile function: every preview failed. It writes
+-- only to its own temporary table, so it is now VOLATILE.
+
+ALTER FUNCTION public.preview_ot_formula_version_impact(day_type, text, text, numeric, date, date) VOLATILE;
@@ -0,0 +1,177 @@
+-- Payroll adjustments in payroll exports
+--
+-- Corrections to frozen OT are recorded as ot_payroll_adjustments against the
+-- open payroll period that pays them, but export batches only picked up
+-- approved requests dated in the export range, so adjustments never reached
+-- payroll. This migration:
+-- - adds payroll_export_batch_adjustments, the adjustments in a batch, with
+--   the same one-live-batch rule as requests
+-- - exports the adjustments of the payroll periods a batch covers together
+--   with its requests, counted in the batch totals
+-- - releases them again when the batch is voided
+
+-- 1) Adjustments in a batch
+ALTER TABLE public.payroll_export_batches
+  ADD COLUMN IF NOT EXISTS adjustment_count integer NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS public.payroll_export_batch_adjustments (
+  batch_id uuid NOT NULL REFERENCES public.payroll_export_batches(id) ON DELETE CASCADE,
+  adjustment_id uuid NOT NULL REFERENCES public.ot_payroll_adjustments(id) ON DELETE RESTRICT,
+  -- Copied at export so re-downloads match what payroll received
+  hours numeric NOT NULL,
+  amount numeric NOT NULL,
+  voided boolean NOT NULL DEFAULT false,
+  PRIMARY KEY (batch_id, adjustment_id)
+);
+
+-- An adjustment is in at most one live batch
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payroll_export_batch_adjustments_live
+  ON public.payroll_export_batch_adjustments (adjustment_id)
+  WHERE NOT voided;
+
+ALTER TABLE public.payroll_export_batch_adjustments ENABLE ROW LEVEL SECURITY;
+
+-- Written only through create_payroll_export_batch and void_payroll_export_batch
+DROP POLICY IF EXISTS "payroll_export_batch_adjustments_read_hr" ON public.payroll_export_batch_adjustments;
+CREATE POLICY "payroll_export_batch_adjustments_read_hr"
+  ON public.payroll_export_batch_adjustments
+  FOR SELECT
+  TO authenticated
+  USING (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role));
+
+-- 2) Creating a batch from the approved OT and adjustments not yet exported
+CREATE OR REPLACE FUNCTION public.create_payroll_export_batch(
+  p_layout_id uuid,
+  p_period_start date,
+  p_period_end date,
+  p_company_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_batch_id uuid;
+  v_batch_no text;
+  v_sequence integer;
+  v_count integer;
+  v_adjustment_count integer;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+    RAISE EXCEPTION 'Only HR or admin can export OT to payroll'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_period_end < p_period_start THEN
+    RAISE EXCEPTION 'Export period ends before it starts'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  -- Serialise batch numbering and the "not yet exported" check
+  PERFORM pg_advisory_xact_lock(hashtext('payroll_export_batches'));
+
+  SELECT COUNT(*) + 1 INTO v_sequence
+  FROM public.payroll_export_batches
+  WHERE batch_no LIKE 'PX-' || to_char(p_period_start, 'YYYYMM') || '-%';
+
+  v_batch_no := 'PX-' || to_char(p_period_start, 'YYYYMM') || '-' || lpad(v_sequence::text, 3, '0');
+
+  INSERT INTO public.payroll_export_batches (batch_no, layout_id, period_start, period_end, company_id, exported_by)
+  VALUES (v_batch_no, p_layout_id, p_period_start, p_period_end, p_company_id, auth.uid())
+  RETURNING id INTO v_batch_id;
+
+  INSERT INTO public.payroll_export_batch_items (batch_id, ot_request_id, hours, amount)
+  SELECT v_batch_id, ot.id, COALESCE(ot.total_hours, 0), COALESCE(ot.ot_amount, 0)
+  FROM public.ot_requests ot
+  JOIN public.profiles p ON p.id = ot.employee_id
+  WHERE ot.status = 'management_approved'
+    AND ot.ot_date BETWEEN p_period_start AND p_period_end
+    AND (p_company_id IS NULL OR p.company_id = p_company_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.payroll_export_batch_items i
+      WHERE i.ot_request_id = ot.id AND NOT i.voided
+    );
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  -- Adjustments are paid in their target period, whatever the OT's date
+  INSERT INTO public.payroll_export_batch_adjustments (batch_id, adjustment_id, hours, amount)
+  SELECT v_batch_id, a.id, a.hours_delta, a.amount_delta
+  FROM public.ot_payroll_adjustments a
+  JOIN public.payroll_periods target ON target.id = a.target_period_id
+  WHERE target.period_start <= p_period_end
+    AND target.period_end >= p_period_start
+    AND (p_company_id IS NULL OR target.company_id = p_company_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.payroll_export_batch_adjustments ba
+      WHERE ba.adjustment_id = a.id AND NOT ba.voided
+    );
+
+  GET DIAGNOSTICS v_adjustment_count = ROW_COUNT;
+
+  IF v_count = 0 AND v_adjustment_count = 0 THEN
+    RAISE EXCEPTION 'No approved OT or payroll adjustment in this period is waiting to be exported'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  UPDATE public.payroll_export_batches b
+  SET request_count = v_count,
+      adjustment_count = v_adjustment_count,
+      total_hours = totals.hours,
+      total_amount = totals.amount
+  FROM (
+    SELECT COALESCE(SUM(hours), 0) AS hours, COALESCE(SUM(amount), 0) AS amount
+    FROM (
+      SELECT hours, amount FROM public.payroll_export_batch_items WHERE batch_id = v_batch_id
+      UNION ALL
+      SELECT hours, amount FROM public.payroll_export_batch_adjustments WHERE batch_id = v_batch_id
+    ) lines
+  ) totals
+  WHERE b.id = v_batch_id;
+
+  RETURN v_batch_id;
+END;
+$$;
+
+-- 3) Voiding a batch releases its adjustments too
+CREATE OR REPLACE FUNCTION public.void_payroll_export_batch(p_batch_id uuid, p_reason text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+    RAISE EXCEPTION 'Only HR or admin can void payroll exports'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF COALESCE(btrim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to void a payroll export'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  UPDATE public.payroll_export_batches
+  SET status = 'voided',
+      voided_by = auth.uid(),
+      voided_at = now(),
+      void_reason = btrim(p_reason)
+  WHERE id = p_batch_id
+    AND status = 'exported';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payroll export batch % does not exist or is already voided', p_batch_id
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  -- Release the requests and adjustments for the next export
+  UPDATE public.payroll_export_batch_items
+  SET voided = true
+  WHERE batch_id = p_batch_id;
+
+  UPDATE public.payroll_export_batch_adjustments
+  SET voided = true
+  WHERE batch_id = p_batch_id;
+END;
+$$;
@@ -0,0 +1,54 @@
+-- Rejecting unpaid OT in locked payroll periods
+--
+-- enforce_payroll_period_lock froze every change to OT dated in a locked
+-- period, including the decision on requests still waiting for approval when
+-- the period locked. They could not be rejected and stayed in the approvers'
+-- queues for good. Rejecting OT that was never approved changes no pay, so
+-- the lock now lets it through; approving it is still refused, the OT is
+-- paid through an adjustment instead.
+
+CREATE OR REPLACE FUNCTION public.enforce_payroll_period_lock()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_period public.payroll_periods;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW IS NOT DISTINCT FROM OLD THEN
+    RETURN NEW;
+  END IF;
+
+  -- Migrations backfilling new columns set this for their own transaction;
+  -- nothing they change is paid
+  IF TG_OP = 'UPDATE' AND current_setting('otms.payroll_lock_bypass', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  -- Unpaid OT can still be turned down; its hours and date stay as they were
+  IF TG_OP = 'UPDATE'
+     AND NEW.status = 'rejected'
+     AND OLD.status NOT IN ('management_approved', 'rejected')
+     AND (NEW.employee_id, NEW.ot_date, NEW.start_time, NEW.end_time, NEW.total_hours)
+         IS NOT DISTINCT FROM (OLD.employee_id, OLD.ot_date, OLD.start_time, OLD.end_time, OLD.total_hours) THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    v_period := public.frozen_payroll_period(OLD.employee_id, OLD.ot_date);
+  END IF;
+
+  IF v_period.id IS NULL AND TG_OP IN ('INSERT', 'UPDATE') THEN
+    v_period := public.frozen_payroll_period(NEW.employee_id, NEW.ot_date);
+  END IF;
+
+  IF v_period.id IS NOT NULL THEN
+    RAISE EXCEPTION 'The payroll period % to % is %; OT dated in it can no longer change. Ask HR for a payroll adjustment instead.',
+      v_period.period_start, v_period.period_end, v_period.status
+      USING ERRCODE = 'object_not_in_prerequisite_state';
+  END IF;
+
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$;
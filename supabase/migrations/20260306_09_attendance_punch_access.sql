@@ -0,0 +1,90 @@
+-- Attendance punch access and OT draft submissions
+--
+-- Every supervisor and manager could read every employee's punches, and an
+-- employee could mark an OT draft submitted against any OT request id. This
+-- migration:
+-- - limits punches to the employee, their supervisors (direct, or respective
+--   on one of their requests) and anyone standing in for them, HR and admin
+-- - requires a submitted draft to reference the employee's own OT request for
+--   the draft's date
+
+-- 1) Supervisor helper, like is_department_head_of: checked as definer so the
+-- policy does not go through the profiles and ot_requests policies
+CREATE OR REPLACE FUNCTION public.is_supervisor_of(p_employee_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.profiles p
+    WHERE p.id = p_employee_id
+      AND p.supervisor_id = auth.uid()
+  )
+  OR EXISTS (
+    SELECT 1
+    FROM public.ot_requests r
+    WHERE r.employee_id = p_employee_id
+      AND r.respective_supervisor_id = auth.uid()
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_supervisor_of(uuid) TO authenticated;
+
+-- 2) Punches
+DROP POLICY IF EXISTS "Employees and approvers can view punches" ON public.attendance_punches;
+CREATE POLICY "Employees and approvers can view punches"
+  ON public.attendance_punches
+  FOR SELECT
+  TO authenticated
+  USING (
+    employee_id = auth.uid()
+    OR public.is_supervisor_of(employee_id)
+    OR public.is_supervisor_delegate_for(employee_id)
+    OR has_role(auth.uid(), 'hr'::app_role)
+    OR has_role(auth.uid(), 'admin'::app_role)
+  );
+
+-- 3) Drafts are submitted as the employee's own OT on the same date
+CREATE OR REPLACE FUNCTION public.protect_ot_request_draft()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.employee_id <> OLD.employee_id
+     OR NEW.ot_date <> OLD.ot_date
+     OR NEW.start_time <> OLD.start_time
+     OR NEW.end_time <> OLD.end_time
+     OR NEW.total_hours <> OLD.total_hours THEN
+    RAISE EXCEPTION 'An OT draft''s session cannot be changed; submit it with the correct times instead'
+      USING ERRCODE = 'restrict_violation';
+  END IF;
+
+  IF OLD.status <> 'pending' AND NEW.status <> OLD.status THEN
+    RAISE EXCEPTION 'This OT draft has already been %', OLD.status
+      USING ERRCODE = 'object_not_in_prerequisite_state';
+  END IF;
+
+  IF NEW.status = 'submitted' AND NEW.ot_request_id IS NULL THEN
+    RAISE EXCEPTION 'A submitted OT draft must reference its OT request'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF NEW.ot_request_id IS DISTINCT FROM OLD.ot_request_id
+     AND NEW.ot_request_id IS NOT NULL
+     AND NOT EXISTS (
+       SELECT 1 FROM public.ot_requests r
+       WHERE r.id = NEW.ot_request_id
+         AND r.employee_id = NEW.employee_id
+         AND r.ot_date = NEW.ot_date
+     ) THEN
+    RAISE EXCEPTION 'An OT draft can only be submitted as the employee''s OT request for %', NEW.ot_date
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,1385 @@
+-- Company checks in definer functions
+--
+-- has_role() answers for the caller's active company, but the SECURITY
+-- DEFINER functions that take request, employee or batch ids never checked
+-- that the row belongs to that company, and they bypass the "Active company
+-- only" policies. Management of one company could approve another company's
+-- OT through decide_ot_requests, and HR could reassign, adjust, export or
+-- read the records of any company. This migration:
+-- - adds is_active_company_employee(), the definer counterpart of the
+--   policies: employees without a company stay visible to every company
+-- - lets HR and management act on OT only in their active company, so
+--   transition_ot_request and decide_ot_requests refuse other companies'
+--   requests (decide_ot_requests reports them as not found)
+-- - checks the company of the employees, requests, exceptions, batches,
+--   layouts, patterns, departments, positions and cost centres passed to
+--   the HR functions. Ids of another company are reported as not found
+-- - exports payroll for the active company only; a batch without a company
+--   now belongs to the active company instead of covering the whole group
+-- - offers delegates from the active company only, and previews formula
+--   changes on the active company's OT only
+-- - sends HR and management notifications, SLA reminders and escalations
+--   only to members of the OT request's company (user_company_roles)
+
+-- 1) Employees of the active company
+CREATE OR REPLACE FUNCTION public.is_active_company_employee(p_employee_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.profiles p
+    WHERE p.id = p_employee_id
+      AND (p.company_id IS NULL OR p.company_id = public.active_company_id())
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_active_company_employee(uuid) TO authenticated;
+
+-- 2) OT workflow
+CREATE OR REPLACE FUNCTION public.resolve_ot_transition_actor(
+  p_request public.ot_requests,
+  p_user_id uuid,
+  p_to_status ot_status
+)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT t.actor
+  FROM public.ot_status_transitions t
+  WHERE t.from_status = p_request.status
+    AND t.to_status = p_to_status
+    -- Nobody acts on their own OT
+    AND p_request.employee_id <> p_user_id
+    AND (
+      (
+        t.actor = 'supervisor'
+        AND (
+          p_request.supervisor_id = p_user_id
+          OR p_request.supervisor_id = ANY(public.active_delegator_ids(p_user_id, 'supervisor'))
+        )
+      )
+      OR (
+        t.actor = 'respective_supervisor'
+        AND (
+          p_request.respective_supervisor_id = p_user_id
+          OR p_request.respective_supervisor_id = ANY(public.active_delegator_ids(p_user_id, 'supervisor'))
+        )
+      )
+      OR (
+        t.actor = 'department_head'
+        AND 'department_head' = ANY(p_request.approval_steps)
+        AND EXISTS (
+          SELECT 1
+          FROM public.profiles p
+          JOIN public.departments d ON d.id = p.department_id
+          WHERE p.id = p_request.employee_id
+            AND d.head_id = p_user_id
+        )
+      )
+      OR (
+        t.actor = 'hr'
+        AND (
+          has_role(p_user_id, 'hr'::app_role)
+          OR has_role(p_user_id, 'admin'::app_role)
+          OR cardinality(public.active_delegator_ids(p_user_id, 'hr')) > 0
+        )
+        AND (p_request.company_id IS NULL OR p_request.company_id = public.active_company_id())
+        -- HR waits for the department head when the chain has that step
+        AND NOT (
+          'department_head' = ANY(p_request.approval_steps)
+          AND t.from_status IN ('supervisor_confirmed', 'supervisor_verified', 'respective_supervisor_confirmed')
+        )
+      )
+      OR (
+        t.actor = 'management'
+        AND (
+          has_role(p_user_id, 'management'::app_role)
+          OR cardinality(public.active_delegator_ids(p_user_id, 'management')) > 0
+        )
+        AND (p_request.company_id IS NULL OR p_request.company_id = public.active_company_id())
+      )
+    )
+  ORDER BY CASE t.actor
+    WHEN 'respective_supervisor' THEN 1
+    WHEN 'supervisor' THEN 2
+    WHEN 'department_head' THEN 3
+    WHEN 'hr' THEN 4
+    ELSE 5
+  END
+  LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION public.decide_ot_requests(p_decisions jsonb)
+RETURNS TABLE (
+  request_id uuid,
+  employee_id uuid,
+  ok boolean,
+  from_status ot_status,
+  to_status ot_status,
+  error text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_decision jsonb;
+  v_result record;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'not authenticated';
+  END IF;
+
+  IF p_decisions IS NULL OR jsonb_typeof(p_decisions) <> 'array' OR jsonb_array_length(p_decisions) = 0 THEN
+    RAISE EXCEPTION 'no decisions supplied'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  FOR v_decision IN SELECT value FROM jsonb_array_elements(p_decisions)
+  LOOP
+    request_id := (v_decision->>'request_id')::uuid;
+    to_status := (v_decision->>'to_status')::ot_status;
+
+    SELECT r.employee_id, r.status INTO employee_id, from_status
+    FROM public.ot_requests r
+    WHERE r.id = request_id
+      AND (r.company_id IS NULL OR r.company_id = public.active_company_id());
+
+    IF NOT FOUND THEN
+      ok := false;
+      error := 'OT request not found';
+      RETURN NEXT;
+      CONTINUE;
+    END IF;
+
+    -- A failed decision rolls back only its own changes
+    BEGIN
+      SELECT t.from_status, t.to_status INTO v_result
+      FROM public.transition_ot_request(
+        ARRAY[request_id],
+        to_status,
+        v_decision->>'remarks',
+        v_decision->>'rejection_stage'
+      ) t;
+
+      ok := true;
+      from_status := v_result.from_status;
+      to_status := v_result.to_status;
+      error := NULL;
+    EXCEPTION WHEN OTHERS THEN
+      ok := false;
+      error := SQLERRM;
+    END;
+
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+-- 3) Supervisor reassignment
+CREATE OR REPLACE FUNCTION public.get_supervisor_reassignment_impact(p_employee_ids uuid[])
+RETURNS TABLE (employee_id uuid, pending_verification_count integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT r.employee_id, count(*)::integer
+  FROM ot_requests r
+  JOIN profiles p ON p.id = r.employee_id
+  WHERE (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role))
+    AND r.employee_id = ANY(p_employee_ids)
+    AND public.is_active_company_employee(r.employee_id)
+    AND r.status = 'pending_verification'
+    AND r.supervisor_id IS NOT DISTINCT FROM p.supervisor_id
+  GROUP BY r.employee_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reassign_supervisor(
+  p_employee_ids uuid[],
+  p_supervisor_id uuid,
+  p_move_pending_requests boolean DEFAULT true
+)
+RETURNS TABLE (reassigned_count integer, moved_request_count integer)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_employee profiles;
+  v_reassigned integer := 0;
+  v_moved integer := 0;
+  v_request_count integer;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+    RAISE EXCEPTION 'Only HR can reassign supervisors'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_supervisor_id IS NULL THEN
+    RAISE EXCEPTION 'Choose the new supervisor'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF NOT public.is_active_company_employee(p_supervisor_id) THEN
+    RAISE EXCEPTION 'The new supervisor must be an employee of this company'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  -- One by one, so each move is checked against the moves before it
+  FOR v_employee IN
+    SELECT * FROM profiles
+    WHERE id = ANY(p_employee_ids) AND deleted_at IS NULL
+      AND (company_id IS NULL OR company_id = public.active_company_id())
+    ORDER BY full_name
+    FOR UPDATE
+  LOOP
+    CONTINUE WHEN v_employee.supervisor_id IS NOT DISTINCT FROM p_supervisor_id;
+
+    IF p_move_pending_requests THEN
+      WITH moved AS (
+        UPDATE ot_requests
+        SET supervisor_id = p_supervisor_id
+        WHERE employee_id = v_employee.id
+          AND status = 'pending_verification'
+          AND supervisor_id IS NOT DISTINCT FROM v_employee.supervisor_id
+        RETURNING id
+      ), logged AS (
+        INSERT INTO ot_request_events (request_id, event_type, actor_id, actor_role, remarks, changes)
+        SELECT moved.id, 'updated', auth.uid(), 'hr', 'Moved to the new supervisor',
+               jsonb_build_object('supervisor_id',
+                 jsonb_build_object('old', v_employee.supervisor_id, 'new', p_supervisor_id))
+        FROM moved
+        RETURNING 1
+      )
+      SELECT count(*) INTO v_request_count FROM logged;
+
+      v_moved := v_moved + v_request_count;
+    END IF;
+
+    UPDATE profiles SET supervisor_id = p_supervisor_id WHERE id = v_employee.id;
+    v_reassigned := v_reassigned + 1;
+  END LOOP;
+
+  RETURN QUERY SELECT v_reassigned, v_moved;
+END;
+$$;
+
+-- 4) Budgets
+CREATE OR REPLACE FUNCTION public.get_ot_budget_status(p_from date, p_to date)
+RETURNS TABLE (
+  budget_id uuid,
+  company_id uuid,
+  department_id uuid,
+  scope_name text,
+  month date,
+  budget_amount numeric,
+  approved_amount numeric,
+  pending_amount numeric,
+  committed_amount numeric,
+  notes text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (
+    has_role(auth.uid(), 'supervisor'::app_role)
+    OR has_role(auth.uid(), 'hr'::app_role)
+    OR has_role(auth.uid(), 'management'::app_role)
+    OR has_role(auth.uid(), 'admin'::app_role)
+    OR has_role(auth.uid(), 'bod'::app_role)
+    OR EXISTS (SELECT 1 FROM departments d WHERE d.head_id = auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to view OT budgets'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    b.id,
+    b.company_id,
+    b.department_id,
+    COALESCE(d.name, c.name),
+    b.month,
+    b.amount,
+    COALESCE(s.approved, 0),
+    COALESCE(s.pending, 0),
+    COALESCE(s.approved, 0) + COALESCE(s.pending, 0),
+    b.notes
+  FROM ot_budgets b
+  LEFT JOIN departments d ON d.id = b.department_id
+  LEFT JOIN companies c ON c.id = b.company_id
+  LEFT JOIN LATERAL (
+    SELECT
+      SUM(r.ot_amount) FILTER (WHERE r.status IN ('hr_certified', 'management_approved')) AS approved,
+      SUM(r.ot_amount) FILTER (WHERE r.status NOT IN ('hr_certified', 'management_approved')) AS pending
+    FROM ot_requests r
+    JOIN profiles p ON p.id = r.employee_id
+    CROSS JOIN LATERAL public.employment_as_of(r.employee_id, r.ot_date) e
+    WHERE r.status <> 'rejected'
+      AND date_trunc('month', r.ot_date)::date = b.month
+      AND (e.department_id = b.department_id OR p.company_id = b.company_id)
+  ) s ON true
+  WHERE b.month BETWEEN date_trunc('month', p_from)::date AND date_trunc('month', p_to)::date
+    AND (b.company_id = public.active_company_id() OR d.company_id = public.active_company_id())
+  ORDER BY b.month, (b.department_id IS NULL), COALESCE(d.name, c.name);
+END;
+$$;
+
+-- 5) Payroll exports and adjustments
+CREATE OR REPLACE FUNCTION public.create_payroll_export_batch(
+  p_layout_id uuid,
+  p_period_start date,
+  p_period_end date,
+  p_company_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_batch_id uuid;
+  v_batch_no text;
+  v_sequence integer;
+  v_count integer;
+  v_adjustment_count integer;
+  -- Without a company, the batch holds the active company's OT
+  v_company_id uuid := COALESCE(p_company_id, public.active_company_id());
+BEGIN
+  IF NOT (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+    RAISE EXCEPTION 'Only HR or admin can export OT to payroll'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF v_company_id IS DISTINCT FROM public.active_company_id() THEN
+    RAISE EXCEPTION 'Switch to the company to export its OT to payroll'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.payroll_export_layouts l
+    WHERE l.id = p_layout_id AND l.company_id IS NOT DISTINCT FROM v_company_id
+  ) THEN
+    RAISE EXCEPTION 'Payroll export layout % not found', p_layout_id
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF p_period_end < p_period_start THEN
+    RAISE EXCEPTION 'Export period ends before it starts'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  -- Serialise batch numbering and the "not yet exported" check
+  PERFORM pg_advisory_xact_lock(hashtext('payroll_export_batches'));
+
+  SELECT COUNT(*) + 1 INTO v_sequence
+  FROM public.payroll_export_batches
+  WHERE batch_no LIKE 'PX-' || to_char(p_period_start, 'YYYYMM') || '-%';
+
+  v_batch_no := 'PX-' || to_char(p_period_start, 'YYYYMM') || '-' || lpad(v_sequence::text, 3, '0');
+
+  INSERT INTO public.payroll_export_batches (batch_no, layout_id, period_start, period_end, company_id, exported_by)
+  VALUES (v_batch_no, p_layout_id, p_period_start, p_period_end, v_company_id, auth.uid())
+  RETURNING id INTO v_batch_id;
+
+  INSERT INTO public.payroll_export_batch_items (batch_id, ot_request_id, hours, amount)
+  SELECT v_batch_id, ot.id, COALESCE(ot.total_hours, 0), COALESCE(ot.ot_amount, 0)
+  FROM public.ot_requests ot
+  JOIN public.profiles p ON p.id = ot.employee_id
+  WHERE ot.status = 'management_approved'
+    AND ot.ot_date BETWEEN p_period_start AND p_period_end
+    AND (p.company_id IS NULL OR p.company_id = v_company_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.payroll_export_batch_items i
+      WHERE i.ot_request_id = ot.id AND NOT i.voided
+    );
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  -- Adjustments are paid in their target period, whatever the OT's date
+  INSERT INTO public.payroll_export_batch_adjustments (batch_id, adjustment_id, hours, amount)
+  SELECT v_batch_id, a.id, a.hours_delta, a.amount_delta
+  FROM public.ot_payroll_adjustments a
+  JOIN public.payroll_periods target ON target.id = a.target_period_id
+  WHERE target.period_start <= p_period_end
+    AND target.period_end >= p_period_start
+    AND target.company_id = v_company_id
+    AND NOT EXISTS (
+      SELECT 1 FROM public.payroll_export_batch_adjustments ba
+      WHERE ba.adjustment_id = a.id AND NOT ba.voided
+    );
+
+  GET DIAGNOSTICS v_adjustment_count = ROW_COUNT;
+
+  IF v_count = 0 AND v_adjustment_count = 0 THEN
+    RAISE EXCEPTION 'No approved OT or payroll adjustment in this period is waiting to be exported'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  UPDATE public.payroll_export_batches b
+  SET request_count = v_count,
+      adjustment_count = v_adjustment_count,
+      total_hours = totals.hours,
+      total_amount = totals.amount
+  FROM (
+    SELECT COALESCE(SUM(hours), 0) AS hours, COALESCE(SUM(amount), 0) AS amount
+    FROM (
+      SELECT hours, amount FROM public.payroll_export_batch_items WHERE batch_id = v_batch_id
+      UNION ALL
+      SELECT hours, amount FROM public.payroll_export_batch_adjustments WHERE batch_id = v_batch_id
+    ) lines
+  ) totals
+  WHERE b.id = v_batch_id;
+
+  RETURN v_batch_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.void_payroll_export_batch(p_batch_id uuid, p_reason text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+    RAISE EXCEPTION 'Only HR or admin can void payroll exports'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF COALESCE(btrim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to void a payroll export'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  UPDATE public.payroll_export_batches
+  SET status = 'voided',
+      voided_by = auth.uid(),
+      voided_at = now(),
+      void_reason = btrim(p_reason)
+  WHERE id = p_batch_id
+    AND status = 'exported'
+    AND (company_id IS NULL OR company_id = public.active_company_id());
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payroll export batch % does not exist or is already voided', p_batch_id
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  -- Release the requests and adjustments for the next export
+  UPDATE public.payroll_export_batch_items
+  SET voided = true
+  WHERE batch_id = p_batch_id;
+
+  UPDATE public.payroll_export_batch_adjustments
+  SET voided = true
+  WHERE batch_id = p_batch_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_payroll_export_download(p_batch_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+    RAISE EXCEPTION 'Only HR or admin can export OT to payroll'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE public.payroll_export_batches
+  SET download_count = download_count + 1,
+      last_downloaded_at = now()
+  WHERE id = p_batch_id
+    AND status = 'exported'
+    AND (company_id IS NULL OR company_id = public.active_company_id());
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payroll export batch % does not exist or has been voided', p_batch_id
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_ot_payroll_adjustment(
+  p_ot_request_id uuid,
+  p_hours_delta numeric,
+  p_amount_delta numeric,
+  p_reason text
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request record;
+  v_source public.payroll_periods;
+  v_target public.payroll_periods;
+  v_id uuid;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+    RAISE EXCEPTION 'Only HR or admin can record payroll adjustments'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF COALESCE(btrim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required for a payroll adjustment'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  SELECT ot.id, ot.employee_id, ot.ot_date, p.company_id INTO v_request
+  FROM public.ot_requests ot
+  JOIN public.profiles p ON p.id = ot.employee_id
+  WHERE ot.id = p_ot_request_id
+    AND (ot.company_id IS NULL OR ot.company_id = public.active_company_id());
+
+  IF v_request.id IS NULL THEN
+    RAISE EXCEPTION 'OT request % not found', p_ot_request_id
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  v_source := public.frozen_payroll_period(v_request.employee_id, v_request.ot_date);
+  IF v_source.id IS NULL THEN
+    RAISE EXCEPTION 'The OT request is in an open payroll period; correct the request itself'
+      USING ERRCODE = 'object_not_in_prerequisite_state';
+  END IF;
+
+  v_target := public.next_open_payroll_period(v_request.company_id, v_source.period_end);
+  IF v_target.id IS NULL THEN
+    RAISE EXCEPTION 'There is no open payroll period after % to carry the adjustment into', v_source.period_end
+      USING ERRCODE = 'object_not_in_prerequisite_state';
+  END IF;
+
+  INSERT INTO public.ot_payroll_adjustments (
+    ot_request_id, employee_id, source_period_id, target_period_id, hours_delta, amount_delta, reason, created_by
+  ) VALUES (
+    v_request.id, v_request.employee_id, v_source.id, v_target.id,
+    COALESCE(p_hours_delta, 0), p_amount_delta, btrim(p_reason), auth.uid()
+  )
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+-- 6) OT hour limits
+CREATE OR REPLACE FUNCTION public.request_ot_cap_exception(
+  p_employee_id uuid,
+  p_month date,
+  p_extra_hours numeric,
+  p_justification text
+)
+RETURNS public.ot_cap_exceptions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_exception ot_cap_exceptions;
+BEGIN
+  IF NOT (
+    has_role(auth.uid(), 'hr'::app_role)
+    OR has_role(auth.uid(), 'management'::app_role)
+    OR has_role(auth.uid(), 'admin'::app_role)
+  ) THEN
+    RAISE EXCEPTION 'Only HR or management can request an OT cap exception'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF length(btrim(COALESCE(p_justification, ''))) < 20 THEN
+    RAISE EXCEPTION 'Explain why the cap must be exceeded (at least 20 characters)'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF NOT public.is_active_company_employee(p_employee_id) THEN
+    RAISE EXCEPTION 'Employee not found'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM ot_cap_exceptions
+    WHERE employee_id = p_employee_id
+      AND month = date_trunc('month', p_month)::date
+      AND status = 'pending'
+  ) THEN
+    RAISE EXCEPTION 'An exception for this employee and month is already waiting for a decision'
+      USING ERRCODE = 'object_not_in_prerequisite_state';
+  END IF;
+
+  INSERT INTO ot_cap_exceptions (employee_id, month, extra_hours, justification, requested_by)
+  VALUES (p_employee_id, date_trunc('month', p_month)::date, p_extra_hours, btrim(p_justification), auth.uid())
+  RETURNING * INTO v_exception;
+
+  RETURN v_exception;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.decide_ot_cap_exception(
+  p_exception_id uuid,
+  p_approve boolean,
+  p_note text DEFAULT NULL
+)
+RETURNS public.ot_cap_exceptions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_exception ot_cap_exceptions;
+BEGIN
+  IF NOT (
+    has_role(auth.uid(), 'hr'::app_role)
+    OR has_role(auth.uid(), 'management'::app_role)
+    OR has_role(auth.uid(), 'admin'::app_role)
+  ) THEN
+    RAISE EXCEPTION 'Only HR or management can decide an OT cap exception'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO v_exception
+  FROM ot_cap_exceptions
+  WHERE id = p_exception_id
+    AND (company_id IS NULL OR company_id = public.active_company_id())
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'OT cap exception % not found', p_exception_id
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF v_exception.status <> 'pending' THEN
+    RAISE EXCEPTION 'This exception has already been %', v_exception.status
+      USING ERRCODE = 'object_not_in_prerequisite_state';
+  END IF;
+
+  IF v_exception.requested_by = auth.uid() THEN
+    RAISE EXCEPTION 'An exception must be decided by someone other than the person who requested it'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE ot_cap_exceptions
+  SET status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+      decided_by = auth.uid(),
+      decided_at = now(),
+      decision_note = NULLIF(btrim(COALESCE(p_note, '')), '')
+  WHERE id = p_exception_id
+  RETURNING * INTO v_exception;
+
+  RETURN v_exception;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_ot_hours_summary(p_employee_id uuid, p_month date)
+RETURNS TABLE (
+  month date,
+  used_hours numeric,
+  statutory_cap_hours numeric,
+  exception_hours numeric,
+  monthly_limit_hours numeric,
+  monthly_limit_mode text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_dept uuid;
+BEGIN
+  IF p_employee_id IS DISTINCT FROM auth.uid()
+     AND NOT (
+       (
+         has_role(auth.uid(), 'hr'::app_role)
+         OR has_role(auth.uid(), 'management'::app_role)
+         OR has_role(auth.uid(), 'admin'::app_role)
+       )
+       AND public.is_active_company_employee(p_employee_id)
+     ) THEN
+    RAISE EXCEPTION 'Not allowed to view OT hours for this employee'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT department_id INTO v_dept FROM profiles WHERE id = p_employee_id;
+
+  RETURN QUERY
+  SELECT
+    date_trunc('month', p_month)::date,
+    (
+      SELECT COALESCE(SUM(r.total_hours), 0)
+      FROM ot_requests r
+      WHERE r.employee_id = p_employee_id
+        AND date_trunc('month', r.ot_date) = date_trunc('month', p_month)
+        AND r.status <> 'rejected'
+        AND ot_reason_counts_toward_limits(r.reason_id)
+    ),
+    COALESCE((SELECT s.statutory_monthly_cap_hours FROM ot_settings s LIMIT 1), 104),
+    get_ot_cap_exception_hours(p_employee_id, p_month),
+    t.monthly_limit_hours,
+    t.monthly_limit_mode
+  FROM (SELECT 1) AS one
+  LEFT JOIN LATERAL (
+    SELECT th.monthly_limit_hours, th.monthly_limit_mode
+    FROM ot_approval_thresholds th
+    WHERE th.is_active
+      AND (array_length(th.applies_to_department_ids, 1) IS NULL OR v_dept = ANY(th.applies_to_department_ids))
+    ORDER BY th.created_at DESC
+    LIMIT 1
+  ) t ON true;
+END;
+$$;
+
+-- 7) Rosters, employment history and cost allocations
+CREATE OR REPLACE FUNCTION public.get_employee_roster(p_employee_id uuid, p_from date, p_to date)
+RETURNS TABLE(
+  roster_date date,
+  day_kind text,
+  shift_template_id uuid,
+  shift_name text,
+  shift_start time,
+  shift_end time,
+  normal_hours numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_employee_id <> auth.uid()
+     AND NOT (
+       (
+         has_role(auth.uid(), 'supervisor'::app_role)
+         OR has_role(auth.uid(), 'hr'::app_role)
+         OR has_role(auth.uid(), 'management'::app_role)
+         OR has_role(auth.uid(), 'admin'::app_role)
+       )
+       AND public.is_active_company_employee(p_employee_id)
+     ) THEN
+    RAISE EXCEPTION 'Not allowed to view this roster'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_to < p_from OR p_to - p_from > 366 THEN
+    RAISE EXCEPTION 'A roster can be listed for up to a year at a time'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  RETURN QUERY
+  SELECT day::date, r.*
+  FROM generate_series(p_from, p_to, interval '1 day') AS day
+  CROSS JOIN LATERAL public.employee_roster_day(p_employee_id, day::date) r;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.assign_shift_pattern(
+  p_employee_id uuid,
+  p_pattern_id uuid,
+  p_effective_from date,
+  p_cycle_start_date date DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_assignment_id uuid;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+    RAISE EXCEPTION 'Only HR can assign rosters'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NOT public.is_active_company_employee(p_employee_id) THEN
+    RAISE EXCEPTION 'Employee not found'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.shift_patterns sp
+    WHERE sp.id = p_pattern_id AND sp.company_id = public.active_company_id()
+  ) THEN
+    RAISE EXCEPTION 'Shift pattern % not found', p_pattern_id
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.employee_shift_assignments a
+    WHERE a.employee_id = p_employee_id
+      AND a.effective_from >= p_effective_from
+  ) THEN
+    RAISE EXCEPTION 'The employee already has a roster starting on or after %; remove it first', p_effective_from
+      USING ERRCODE = 'object_not_in_prerequisite_state';
+  END IF;
+
+  UPDATE public.employee_shift_assignments
+  SET effective_to = p_effective_from - 1
+  WHERE employee_id = p_employee_id
+    AND (effective_to IS NULL OR effective_to >= p_effective_from);
+
+  INSERT INTO public.employee_shift_assignments (
+    employee_id, pattern_id, effective_from, cycle_start_date, created_by
+  )
+  VALUES (
+    p_employee_id, p_pattern_id, p_effective_from, COALESCE(p_cycle_start_date, p_effective_from), auth.uid()
+  )
+  RETURNING id INTO v_assignment_id;
+
+  RETURN v_assignment_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_employment_change(
+  p_employee_id uuid,
+  p_event_type text,
+  p_effective_from date,
+  p_changes jsonb,
+  p_remarks text DEFAULT NULL
+)
+RETURNS TABLE (history_id uuid, recalculated_count integer)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_history_id uuid;
+  v_unknown text;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+    RAISE EXCEPTION 'Only HR can record employment changes'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = p_employee_id AND deleted_at IS NULL)
+     OR NOT public.is_active_company_employee(p_employee_id) THEN
+    RAISE EXCEPTION 'Employee not found'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF p_event_type NOT IN ('salary_revision', 'transfer', 'promotion', 'location_move') THEN
+    RAISE EXCEPTION 'Unknown employment change %', p_event_type
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF p_changes IS NULL OR jsonb_typeof(p_changes) <> 'object' OR p_changes = '{}'::jsonb THEN
+    RAISE EXCEPTION 'Nothing to change'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  SELECT k INTO v_unknown
+  FROM jsonb_object_keys(p_changes) AS k
+  WHERE k NOT IN (
+    'basic_salary', 'ot_base', 'department_id', 'position_id', 'position', 'work_location', 'state', 'employment_type'
+  )
+  LIMIT 1;
+
+  IF v_unknown IS NOT NULL THEN
+    RAISE EXCEPTION '% is not part of the employment history', v_unknown
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF p_changes ->> 'department_id' IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM departments
+    WHERE id = (p_changes ->> 'department_id')::uuid AND company_id = public.active_company_id()
+  ) THEN
+    RAISE EXCEPTION 'Department not found'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF p_changes ->> 'position_id' IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM positions
+    WHERE id = (p_changes ->> 'position_id')::uuid AND company_id = public.active_company_id()
+  ) THEN
+    RAISE EXCEPTION 'Position not found'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF p_changes ? 'basic_salary' AND COALESCE((p_changes ->> 'basic_salary')::numeric, 0) <= 0 THEN
+    RAISE EXCEPTION 'Basic salary must be more than zero'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO employment_history (employee_id, effective_from, event_type, changes, remarks)
+  VALUES (p_employee_id, p_effective_from, p_event_type, p_changes, NULLIF(trim(p_remarks), ''))
+  RETURNING id INTO v_history_id;
+
+  PERFORM public.sync_employment_profile(p_employee_id);
+
+  RETURN QUERY SELECT v_history_id, public.recalculate_employee_ot_from(p_employee_id, p_effective_from);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_ot_cost_allocations(p_request_id uuid, p_allocations jsonb)
+RETURNS SETOF public.ot_session_cost_allocations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request ot_requests;
+  v_total numeric;
+BEGIN
+  SELECT * INTO v_request
+  FROM ot_requests
+  WHERE id = p_request_id
+    AND (employee_id = auth.uid() OR company_id IS NULL OR company_id = public.active_company_id())
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'OT request % not found', p_request_id
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF NOT (
+    has_role(auth.uid(), 'hr'::app_role)
+    OR has_role(auth.uid(), 'admin'::app_role)
+    OR (
+      v_request.employee_id = auth.uid()
+      AND v_request.status NOT IN ('hr_certified', 'management_approved', 'rejected')
+    )
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to change the cost allocation of this OT request'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF jsonb_typeof(p_allocations) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Allocations must be a list'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_allocations) a
+    WHERE COALESCE((a->>'hours')::numeric, 0) <= 0
+  ) THEN
+    RAISE EXCEPTION 'Every cost allocation needs a positive number of hours'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_allocations) a
+    LEFT JOIN cost_centres c ON c.id = (a->>'cost_centre_id')::uuid
+    WHERE c.id IS NULL OR NOT c.is_active
+       OR c.company_id IS DISTINCT FROM COALESCE(v_request.company_id, c.company_id)
+  ) THEN
+    RAISE EXCEPTION 'Cost centres must exist, be active and belong to the OT request''s company'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT COALESCE(SUM((a->>'hours')::numeric), 0) INTO v_total
+  FROM jsonb_array_elements(p_allocations) a;
+
+  IF jsonb_array_length(p_allocations) > 0 AND abs(v_total - v_request.total_hours) > 0.01 THEN
+    RAISE EXCEPTION 'Allocated hours (%) must add up to the session''s % hours', v_total, v_request.total_hours
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  DELETE FROM ot_session_cost_allocations WHERE ot_request_id = p_request_id;
+
+  RETURN QUERY
+  INSERT INTO ot_session_cost_allocations (ot_request_id, cost_centre_id, hours)
+  SELECT p_request_id, (a->>'cost_centre_id')::uuid, SUM((a->>'hours')::numeric)
+  FROM jsonb_array_elements(p_allocations) a
+  GROUP BY (a->>'cost_centre_id')::uuid
+  RETURNING *;
+END;
+$$;
+
+-- 8) Delegates and notification recipients
+CREATE OR REPLACE FUNCTION public.get_delegate_candidates()
+RETURNS TABLE (id uuid, full_name text, employee_id text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.id, p.full_name, p.employee_id
+  FROM public.profiles p
+  WHERE p.status = 'active'
+    AND p.deleted_at IS NULL
+    AND p.id <> auth.uid()
+    AND (p.company_id IS NULL OR p.company_id = public.active_company_id())
+  ORDER BY p.full_name;
+$$;
+
+-- With a company, only its members are notified, directly or as delegates
+DROP FUNCTION IF EXISTS public.resolve_approval_notification_recipients(uuid[], text);
+CREATE OR REPLACE FUNCTION public.resolve_approval_notification_recipients(
+  p_user_ids uuid[],
+  p_role text,
+  p_company_id uuid DEFAULT NULL
+)
+RETURNS TABLE (recipient_id uuid, on_behalf_of uuid)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT DISTINCT ON (COALESCE(d.delegate_id, u.user_id))
+    COALESCE(d.delegate_id, u.user_id) AS recipient_id,
+    CASE WHEN d.delegate_id IS NOT NULL THEN u.user_id END AS on_behalf_of
+  FROM unnest(p_user_ids) AS u(user_id)
+  LEFT JOIN public.approval_delegations d
+    ON d.delegator_id = u.user_id
+   AND d.role = p_role
+   AND d.revoked_at IS NULL
+   AND CURRENT_DATE BETWEEN d.starts_on AND d.ends_on
+   AND (p_company_id IS NULL OR EXISTS (
+     SELECT 1 FROM public.user_company_roles ucr
+     WHERE ucr.user_id = d.delegate_id AND ucr.company_id = p_company_id
+   ))
+  WHERE u.user_id IS NOT NULL
+    AND (p_company_id IS NULL OR EXISTS (
+      SELECT 1 FROM public.user_company_roles ucr
+      WHERE ucr.user_id = u.user_id AND ucr.company_id = p_company_id
+    ))
+  -- Prefer notifying someone directly over as a delegate
+  ORDER BY COALESCE(d.delegate_id, u.user_id), (d.delegate_id IS NOT NULL);
+$$;
+
+REVOKE ALL ON FUNCTION public.resolve_approval_notification_recipients(uuid[], text, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.resolve_approval_notification_recipients(uuid[], text, uuid) TO service_role;
+
+-- 9) SLA reminders and escalations
+-- Admin is global; HR and management are those of the request's company.
+-- Requests without a company keep going to every holder of the role.
+DROP FUNCTION IF EXISTS public.ot_sla_role_user_ids(text);
+CREATE OR REPLACE FUNCTION public.ot_sla_role_user_ids(p_role text, p_company_id uuid)
+RETURNS uuid[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(array_agg(DISTINCT holders.user_id), '{}')
+  FROM (
+    SELECT ur.user_id
+    FROM public.user_roles ur
+    WHERE ur.role = p_role::app_role
+      AND (p_role = 'admin' OR p_company_id IS NULL)
+    UNION
+    SELECT ucr.user_id
+    FROM public.user_company_roles ucr
+    WHERE ucr.role = p_role::app_role
+      AND p_role <> 'admin'
+      AND ucr.company_id = p_company_id
+  ) holders
+  JOIN public.profiles p ON p.id = holders.user_id
+  WHERE p.deleted_at IS NULL;
+$$;
+
+REVOKE ALL ON FUNCTION public.ot_sla_role_user_ids(text, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.ot_sla_role_user_ids(text, uuid) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.ot_sla_stage_approvers(p_request public.ot_requests)
+RETURNS TABLE (approver_ids uuid[], delegation_role text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    CASE
+      WHEN p_request.status IN ('pending_verification', 'pending_supervisor_verification')
+        THEN ARRAY[p_request.supervisor_id]
+      WHEN p_request.status = 'pending_respective_supervisor_confirmation'
+        THEN ARRAY[p_request.respective_supervisor_id]
+      WHEN p_request.status IN ('supervisor_confirmed', 'supervisor_verified', 'respective_supervisor_confirmed')
+        AND 'department_head' = ANY(p_request.approval_steps)
+        THEN ARRAY(
+          SELECT d.head_id
+          FROM public.profiles p
+          JOIN public.departments d ON d.id = p.department_id
+          WHERE p.id = p_request.employee_id AND d.head_id IS NOT NULL
+        )
+      WHEN p_request.status = 'hr_certified'
+        THEN public.ot_sla_role_user_ids('management', p_request.company_id)
+      ELSE public.ot_sla_role_user_ids('hr', p_request.company_id)
+    END,
+    CASE
+      WHEN p_request.status IN ('pending_verification', 'pending_supervisor_verification', 'pending_respective_supervisor_confirmation')
+        THEN 'supervisor'
+      WHEN p_request.status = 'hr_certified' THEN 'management'
+      WHEN p_request.status IN ('supervisor_confirmed', 'supervisor_verified', 'respective_supervisor_confirmed')
+        AND 'department_head' = ANY(p_request.approval_steps)
+        THEN NULL -- department head duties are not delegable
+      ELSE 'hr'
+    END;
+$$;
+
+-- The request's supervisors are named on it; HR and management delegates
+-- must belong to its company
+DROP FUNCTION IF EXISTS public.ot_sla_resolve_recipients(uuid[], text);
+CREATE OR REPLACE FUNCTION public.ot_sla_resolve_recipients(p_user_ids uuid[], p_role text, p_company_id uuid)
+RETURNS uuid[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p_role IS NULL THEN p_user_ids
+    ELSE (
+      SELECT COALESCE(array_agg(DISTINCT r.recipient_id), '{}')
+      FROM public.resolve_approval_notification_recipients(
+        p_user_ids,
+        p_role,
+        CASE WHEN p_role IN ('hr', 'management') THEN p_company_id END
+      ) r
+    )
+  END;
+$$;
+
+REVOKE ALL ON FUNCTION public.ot_sla_resolve_recipients(uuid[], text, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.ot_sla_resolve_recipients(uuid[], text, uuid) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.claim_due_ot_sla_alerts()
+RETURNS TABLE (
+  request_id uuid,
+  ticket_number text,
+  status ot_status,
+  kind text,
+  threshold_hours integer,
+  hours_waiting integer,
+  employee_name text,
+  escalate_to text,
+  recipient_ids uuid[]
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  r record;
+  v_request public.ot_requests;
+  v_hours numeric;
+  v_kind text;
+  v_threshold integer;
+  v_approvers uuid[];
+  v_delegation_role text;
+  v_recipients uuid[];
+  v_manager_ids uuid[];
+BEGIN
+  FOR r IN
+    SELECT
+      req.id AS req_id,
+      s.reminder_hours,
+      s.sla_hours,
+      s.escalate_to AS sla_escalate_to,
+      p.full_name AS req_employee_name
+    FROM public.ot_requests req
+    JOIN public.ot_approval_slas s ON s.status = req.status AND s.is_active
+    JOIN public.profiles p ON p.id = req.employee_id
+    WHERE req.status_changed_at <= now() - make_interval(hours => LEAST(
+        s.sla_hours,
+        COALESCE((SELECT min(h) FROM unnest(s.reminder_hours) h), s.sla_hours)
+      ))
+      -- Sent back by management: HR acts next, not the management queue
+      AND NOT (req.status = 'hr_certified' AND req.management_remarks IS NOT NULL)
+    ORDER BY req.status_changed_at
+  LOOP
+    SELECT * INTO v_request FROM public.ot_requests WHERE id = r.req_id;
+    v_hours := EXTRACT(EPOCH FROM now() - v_request.status_changed_at) / 3600;
+
+    IF v_hours >= r.sla_hours THEN
+      v_kind := 'escalation';
+      v_threshold := r.sla_hours;
+    ELSE
+      v_kind := 'reminder';
+      SELECT max(h) INTO v_threshold FROM unnest(r.reminder_hours) h WHERE h <= v_hours;
+    END IF;
+
+    CONTINUE WHEN v_threshold IS NULL;
+
+    SELECT a.approver_ids, a.delegation_role
+    INTO v_approvers, v_delegation_role
+    FROM public.ot_sla_stage_approvers(v_request) a;
+
+    IF v_kind = 'reminder' THEN
+      v_recipients := public.ot_sla_resolve_recipients(
+        array_remove(v_approvers, NULL), v_delegation_role, v_request.company_id
+      );
+    ELSIF r.sla_escalate_to = 'supervisor_manager' THEN
+      SELECT COALESCE(array_agg(DISTINCT p.supervisor_id), '{}')
+      INTO v_manager_ids
+      FROM public.profiles p
+      WHERE p.id = ANY(v_approvers) AND p.supervisor_id IS NOT NULL;
+
+      -- Supervisors without a supervisor of their own escalate to HR
+      v_recipients := CASE
+        WHEN cardinality(v_manager_ids) > 0
+          THEN public.ot_sla_resolve_recipients(v_manager_ids, 'supervisor', v_request.company_id)
+        ELSE public.ot_sla_resolve_recipients(
+          public.ot_sla_role_user_ids('hr', v_request.company_id), 'hr', v_request.company_id
+        )
+      END;
+    ELSE
+      v_recipients := public.ot_sla_resolve_recipients(
+        public.ot_sla_role_user_ids(r.sla_escalate_to, v_request.company_id),
+        CASE WHEN r.sla_escalate_to IN ('hr', 'management') THEN r.sla_escalate_to END,
+        v_request.company_id
+      );
+    END IF;
+
+    -- Nobody is notified about their own OT
+    v_recipients := array_remove(v_recipients, v_request.employee_id);
+
+    INSERT INTO public.ot_request_sla_alerts (
+      request_id, status, stage_entered_at, kind, threshold_hours, recipient_ids
+    )
+    VALUES (
+      v_request.id, v_request.status, v_request.status_changed_at, v_kind, v_threshold, v_recipients
+    )
+    ON CONFLICT ON CONSTRAINT ot_request_sla_alerts_once DO NOTHING;
+
+    CONTINUE WHEN NOT FOUND;
+
+    IF v_kind = 'escalation' THEN
+      INSERT INTO public.ot_request_events (
+        request_id, event_type, actor_id, actor_role, from_status, to_status, remarks
+      )
+      VALUES (
+        v_request.id,
+        'escalated',
+        NULL,
+        'system',
+        v_request.status,
+        v_request.status,
+        format(
+          'No action for %s hours; escalated to %s',
+          r.sla_hours,
+          CASE r.sla_escalate_to
+            WHEN 'supervisor_manager' THEN 'the approver''s supervisor'
+            WHEN 'hr' THEN 'HR'
+            WHEN 'management' THEN 'Management'
+            ELSE 'Admin'
+          END
+        )
+      );
+    END IF;
+
+    request_id := v_request.id;
+    ticket_number := v_request.ticket_number;
+    status := v_request.status;
+    kind := v_kind;
+    threshold_hours := v_threshold;
+    hours_waiting := floor(v_hours)::integer;
+    employee_name := r.req_employee_name;
+    escalate_to := r.sla_escalate_to;
+    recipient_ids := v_recipients;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_due_ot_sla_alerts() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_due_ot_sla_alerts() TO service_role;
+
+-- 10) Rate formula impact preview
+CREATE OR REPLACE FUNCTION public.preview_ot_formula_version_impact(
+  p_day_type day_type,
+  p_employee_category text,
+  p_base_formula text,
+  p_multiplier numeric,
+  p_from date,
+  p_to date DEFAULT NULL
+)
+RETURNS TABLE(
+  employee_id uuid,
+  employee_name text,
+  month text,
+  ot_days integer,
+  total_hours numeric,
+  current_amount numeric,
+  proposed_amount numeric,
+  delta numeric,
+  failed_days integer
+)
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_day record;
+  v_value numeric;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'hr'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+    RAISE EXCEPTION 'Only HR or admin can preview rate formula changes'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  PERFORM public.ot_formula_parse(p_base_formula);
+
+  CREATE TEMP TABLE IF NOT EXISTS ot_formula_impact_days (
+    employee_id uuid,
+    ot_date date,
+    hours numeric,
+    current_amount numeric,
+    proposed_amount numeric
+  ) ON COMMIT DROP;
+  TRUNCATE ot_formula_impact_days;
+
+  -- Formulas apply to a day's total hours, like calculate_daily_ot_distribution
+  FOR v_day IN
+    SELECT ot.employee_id, ot.ot_date, SUM(ot.total_hours) AS hours, SUM(COALESCE(ot.ot_amount, 0)) AS current_amount
+    FROM public.ot_requests ot
+    JOIN public.profiles p ON p.id = ot.employee_id
+    WHERE ot.status <> 'rejected'
+      AND ot.day_type = p_day_type
+      AND ot.ot_date >= p_from
+      AND (p_to IS NULL OR ot.ot_date <= p_to)
+      AND (p_employee_category = 'All' OR p.employment_type = p_employee_category)
+      AND (p.company_id IS NULL OR p.company_id = public.active_company_id())
+    GROUP BY ot.employee_id, ot.ot_date
+  LOOP
+    BEGIN
+      v_value := public.ot_formula_evaluate(
+        p_base_formula,
+        public.ot_formula_day_variables(v_day.employee_id, v_day.ot_date)
+      ) * p_multiplier;
+    EXCEPTION
+      WHEN OTHERS THEN
+        v_value := NULL;
+    END;
+
+    INSERT INTO ot_formula_impact_days
+    VALUES (v_day.employee_id, v_day.ot_date, v_day.hours, v_day.current_amount, v_value);
+  END LOOP;
+
+  RETURN QUERY
+  SELECT
+    d.employee_id,
+    p.full_name,
+    to_char(d.ot_date, 'YYYY-MM'),
+    COUNT(*)::integer,
+    SUM(d.hours),
+    ROUND(SUM(d.current_amount), 2),
+    ROUND(SUM(COALESCE(d.proposed_amount, d.current_amount)), 2),
+    ROUND(SUM(COALESCE(d.proposed_amount, d.current_amount) - d.current_amount), 2),
+    (COUNT(*) FILTER (WHERE d.proposed_amount IS NULL))::integer
+  FROM ot_formula_impact_days d
+  JOIN public.profiles p ON p.id = d.employee_id
+  GROUP BY d.employee_id, p.full_name, to_char(d.ot_date, 'YYYY-MM')
+  ORDER BY 3, 2;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.preview_ot_formula_version_impact(day_type, text, text, numeric, date, date) TO authenticated;
@@ -0,0 +1,78 @@
+-- Claiming employee import rows
+--
+-- import-employees read a job's pending rows and marked each one only after
+-- creating the employee, so two calls for the same job (a retried request, a
+-- second tab resuming it) could both pick the same rows and create the
+-- employee twice. This migration:
+-- - adds the 'processing' row status and claimed_at
+-- - adds claim_employee_import_rows(), which moves a batch of pending rows to
+--   processing in one statement, skipping rows another call has locked.
+--   Rows claimed by a call that died are claimable again after ten minutes
+-- - counts processing rows as outstanding in refresh_employee_import_job
+
+-- 1) Row claims
+ALTER TABLE public.employee_import_rows
+  DROP CONSTRAINT IF EXISTS employee_import_rows_status_check;
+ALTER TABLE public.employee_import_rows
+  ADD CONSTRAINT employee_import_rows_status_check CHECK (status IN ('pending', 'processing', 'imported', 'failed'));
+
+ALTER TABLE public.employee_import_rows
+  ADD COLUMN IF NOT EXISTS claimed_at timestamptz;
+
+CREATE OR REPLACE FUNCTION public.claim_employee_import_rows(p_job_id uuid, p_limit integer)
+RETURNS SETOF public.employee_import_rows
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.employee_import_rows r
+  SET status = 'processing',
+      claimed_at = now()
+  WHERE r.id IN (
+    SELECT c.id
+    FROM public.employee_import_rows c
+    WHERE c.job_id = p_job_id
+      AND (c.status = 'pending' OR (c.status = 'processing' AND c.claimed_at < now() - interval '10 minutes'))
+    ORDER BY c.position
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING r.*;
+$$;
+
+-- Called by import-employees with the service role only
+REVOKE EXECUTE ON FUNCTION public.claim_employee_import_rows(uuid, integer) FROM PUBLIC, authenticated;
+
+-- 2) Progress: claimed rows are not done yet
+CREATE OR REPLACE FUNCTION public.refresh_employee_import_job(p_job_id uuid)
+RETURNS public.employee_import_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job public.employee_import_jobs;
+BEGIN
+  UPDATE public.employee_import_jobs j
+  SET imported_count = counts.imported,
+      failed_count = counts.failed,
+      status = CASE
+        WHEN j.status = 'cancelled' THEN 'cancelled'
+        WHEN counts.pending = 0 THEN 'completed'
+        ELSE 'running'
+      END,
+      completed_at = CASE WHEN counts.pending = 0 AND j.status <> 'cancelled' THEN now() ELSE j.completed_at END
+  FROM (
+    SELECT
+      count(*) FILTER (WHERE status = 'imported') AS imported,
+      count(*) FILTER (WHERE status = 'failed') AS failed,
+      count(*) FILTER (WHERE status IN ('pending', 'processing')) AS pending
+    FROM public.employee_import_rows
+    WHERE job_id = p_job_id
+  ) counts
+  WHERE j.id = p_job_id
+  RETURNING j.* INTO v_job;
+
+  RETURN v_job;
+END;
+$$;
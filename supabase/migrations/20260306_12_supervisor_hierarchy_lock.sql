@@ -0,0 +1,63 @@
+-- Serialised supervisor hierarchy checks
+--
+-- validate_supervisor_hierarchy walked the supervisor chain without a lock,
+-- so two concurrent changes (A to report to B, and B to report to A) each
+-- saw the chain before the other committed and both passed, leaving a loop.
+-- Supervisor changes now take a transaction-level advisory lock before the
+-- walk, so each one sees the changes committed before it.
+
+CREATE OR REPLACE FUNCTION public.validate_supervisor_hierarchy()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_supervisor profiles;
+  v_loop text;
+BEGIN
+  IF NEW.supervisor_id IS NULL
+     OR (TG_OP = 'UPDATE' AND NEW.supervisor_id IS NOT DISTINCT FROM OLD.supervisor_id) THEN
+    RETURN NEW;
+  END IF;
+
+  -- One supervisor change at a time; released at commit, after which the
+  -- next change's walk sees this one
+  PERFORM pg_advisory_xact_lock(hashtext('profiles.supervisor_id'));
+
+  IF NEW.supervisor_id = NEW.id THEN
+    RAISE EXCEPTION '% cannot supervise themselves', NEW.full_name
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO v_supervisor FROM profiles WHERE id = NEW.supervisor_id;
+
+  IF NOT FOUND OR v_supervisor.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION '% cannot report to an archived employee', NEW.full_name
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Walk up from the new supervisor; reaching the employee means a loop
+  WITH RECURSIVE chain AS (
+    SELECT p.id, p.supervisor_id, ARRAY[p.full_name] AS names, 1 AS depth
+    FROM profiles p
+    WHERE p.id = NEW.supervisor_id
+    UNION ALL
+    SELECT p.id, p.supervisor_id, chain.names || p.full_name, chain.depth + 1
+    FROM chain
+    JOIN profiles p ON p.id = chain.supervisor_id
+    WHERE chain.id <> NEW.id AND chain.depth < 100
+  )
+  SELECT array_to_string(names, ' → ') INTO v_loop
+  FROM chain
+  WHERE id = NEW.id;
+
+  IF v_loop IS NOT NULL THEN
+    RAISE EXCEPTION '% cannot report to %, who already reports up to them (% → %)',
+      NEW.full_name, v_supervisor.full_name, NEW.full_name, v_loop
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,85 @@
+-- Bulk decisions on requests the caller cannot act on
+--
+-- decide_ot_requests looked requests up as definer and reported the employee
+-- and status of any request in the active company, so anyone could probe
+-- request ids they cannot see. A malformed request id or status also aborted
+-- the whole batch, because it was cast before the per-decision block. This
+-- migration:
+-- - reports a request as not found unless the caller may make the decision
+--   on it (resolve_ot_transition_actor), without its employee or status
+-- - reads each decision inside its own block, so a malformed one fails on
+--   its own
+
+CREATE OR REPLACE FUNCTION public.decide_ot_requests(p_decisions jsonb)
+RETURNS TABLE (
+  request_id uuid,
+  employee_id uuid,
+  ok boolean,
+  from_status ot_status,
+  to_status ot_status,
+  error text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_decision jsonb;
+  v_request public.ot_requests;
+  v_result record;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'not authenticated';
+  END IF;
+
+  IF p_decisions IS NULL OR jsonb_typeof(p_decisions) <> 'array' OR jsonb_array_length(p_decisions) = 0 THEN
+    RAISE EXCEPTION 'no decisions supplied'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  FOR v_decision IN SELECT value FROM jsonb_array_elements(p_decisions)
+  LOOP
+    request_id := NULL;
+    employee_id := NULL;
+    from_status := NULL;
+    to_status := NULL;
+
+    -- A failed decision rolls back only its own changes
+    BEGIN
+      request_id := (v_decision->>'request_id')::uuid;
+      to_status := (v_decision->>'to_status')::ot_status;
+
+      SELECT r.* INTO v_request
+      FROM public.ot_requests r
+      WHERE r.id = request_id;
+
+      -- Requests the caller cannot decide on look the same as missing ones
+      IF NOT FOUND OR public.resolve_ot_transition_actor(v_request, auth.uid(), to_status) IS NULL THEN
+        RAISE EXCEPTION 'OT request not found'
+          USING ERRCODE = 'no_data_found';
+      END IF;
+
+      employee_id := v_request.employee_id;
+      from_status := v_request.status;
+
+      SELECT t.from_status, t.to_status INTO v_result
+      FROM public.transition_ot_request(
+        ARRAY[request_id],
+        to_status,
+        v_decision->>'remarks',
+        v_decision->>'rejection_stage'
+      ) t;
+
+      ok := true;
+      from_status := v_result.from_status;
+      to_status := v_result.to_status;
+      error := NULL;
+    EXCEPTION WHEN OTHERS THEN
+      ok := false;
+      error := SQLERRM;
+    END;
+
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
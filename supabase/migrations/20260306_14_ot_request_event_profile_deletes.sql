@@ -0,0 +1,29 @@
+-- Deleting profiles that acted on OT
+--
+-- actor_id and on_behalf_of reference profiles ON DELETE SET NULL, and that
+-- SET NULL is an UPDATE on ot_request_events, which the append-only trigger
+-- refused. Hard-deleting any supervisor, HR or management user who ever
+-- acted on an OT request therefore failed. The trigger now lets an update
+-- through when all it does is clear those two columns; the event keeps its
+-- actor_role, and every other change is still refused.
+
+CREATE OR REPLACE FUNCTION public.prevent_ot_request_event_mutation()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' AND COALESCE(auth.role(), '') = 'service_role' THEN
+    RETURN OLD;
+  END IF;
+
+  -- A deleted profile is cleared from the events it acted in
+  IF TG_OP = 'UPDATE'
+     AND (NEW.actor_id IS NULL OR NEW.actor_id = OLD.actor_id)
+     AND (NEW.on_behalf_of IS NULL OR NEW.on_behalf_of = OLD.on_behalf_of)
+     AND to_jsonb(NEW) - ARRAY['actor_id', 'on_behalf_of'] = to_jsonb(OLD) - ARRAY['actor_id', 'on_behalf_of'] THEN
+    RETURN NEW;
+  END IF;
+
+  RAISE EXCEPTION 'ot_request_events is append-only';
+END;
+$$;
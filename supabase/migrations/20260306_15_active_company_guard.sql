@@ -0,0 +1,53 @@
+-- Switching companies only through set_active_company
+--
+-- prof_hr_update lets HR write any column of any profile, their own
+-- included. Writing profiles.active_company_id directly skipped
+-- set_active_company's membership check, so HR could act in a company they
+-- have no role in. This migration:
+-- - refuses changes to active_company_id outside set_active_company
+-- - still lets it be cleared, as moving an employee to another company and
+--   deleting a company do
+
+CREATE OR REPLACE FUNCTION public.set_active_company(p_company_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.my_company_ids() AS id WHERE id = p_company_id) THEN
+    RAISE EXCEPTION 'You have no role in this company' USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM set_config('otms.active_company_switch', 'on', true);
+  UPDATE public.profiles SET active_company_id = p_company_id WHERE id = auth.uid();
+  PERFORM set_config('otms.active_company_switch', 'off', true);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.guard_active_company_id()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.active_company_id IS NOT NULL
+     AND COALESCE(current_setting('otms.active_company_switch', true), '') <> 'on' THEN
+    RAISE EXCEPTION 'The active company can only be changed with set_active_company'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_active_company_id ON public.profiles;
+CREATE TRIGGER guard_active_company_id
+  BEFORE UPDATE OF active_company_id ON public.profiles
+  FOR EACH ROW
+  WHEN (OLD.active_company_id IS DISTINCT FROM NEW.active_company_id)
+  EXECUTE FUNCTION public.guard_active_company_id();
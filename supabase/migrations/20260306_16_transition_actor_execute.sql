@@ -0,0 +1,10 @@
+-- Transition actor lookup is internal
+--
+-- resolve_ot_transition_actor is SECURITY DEFINER and kept the default
+-- EXECUTE for PUBLIC, so anyone, anon included, could call it with any
+-- request and user id and learn who may act on a request and in which
+-- role. Only transition_ot_request, decide_ot_requests and the event log
+-- trigger call it, and they run as definer; it is no longer callable
+-- through the API.
+
+REVOKE EXECUTE ON FUNCTION public.resolve_ot_transition_actor(public.ot_requests, uuid, ot_status) FROM PUBLIC, anon, authenticated;
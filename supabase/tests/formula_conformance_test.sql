@@ -0,0 +1,67 @@
+-- Generated by tests/unit/formula-engine.test.ts from tests/fixtures/formula-vectors.ts.
+-- Do not edit by hand: change the vectors and run `npx vitest run tests/unit/formula-engine.test.ts -u`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+SELECT plan(58);
+
+SELECT is(round(public.ot_formula_evaluate($f$1.5 * HRP * Hours$f$, '{"ORP":100,"HRP":12.5,"Basic":2600,"Hours":3}'::jsonb), 6), round(56.25::numeric, 6), 'weekday rate');
+SELECT is(round(public.ot_formula_evaluate($f$2 + 3 * 4$f$, '{}'::jsonb), 6), round(14::numeric, 6), 'precedence');
+SELECT is(round(public.ot_formula_evaluate($f$(2 + 3) * 4$f$, '{}'::jsonb), 6), round(20::numeric, 6), 'parentheses');
+SELECT is(round(public.ot_formula_evaluate($f$7 - 2 - 1$f$, '{}'::jsonb), 6), round(4::numeric, 6), 'left-associative subtraction');
+SELECT is(round(public.ot_formula_evaluate($f$16 / 4 / 2$f$, '{}'::jsonb), 6), round(2::numeric, 6), 'left-associative division');
+SELECT is(round(public.ot_formula_evaluate($f$-2 * -3$f$, '{}'::jsonb), 6), round(6::numeric, 6), 'unary minus');
+SELECT is(round(public.ot_formula_evaluate($f$.5 * ORP$f$, '{"ORP":100,"HRP":12.5,"Basic":2600}'::jsonb), 6), round(50::numeric, 6), 'leading decimal point');
+SELECT is(round(public.ot_formula_evaluate($f$2 × HRP ÷ 4$f$, '{"ORP":100,"HRP":12.5,"Basic":2600}'::jsonb), 6), round(6.25::numeric, 6), 'operator aliases');
+SELECT is(round(public.ot_formula_evaluate($f$Basic / 26 / 8 / 3$f$, '{"ORP":100,"HRP":12.5,"Basic":2600}'::jsonb), 6), round(4.166667::numeric, 6), 'repeating fraction');
+SELECT is(round(public.ot_formula_evaluate($f$IF(Hours <= 4, 0.5 * ORP, IF(Hours <= 8, 1 * ORP, (1 * ORP) + (2 * HRP * (Hours - 8))))$f$, '{"ORP":100,"HRP":12.5,"Basic":2600,"Hours":3}'::jsonb), 6), round(50::numeric, 6), 'sunday up to 4 hours');
+SELECT is(round(public.ot_formula_evaluate($f$IF(Hours <= 4, 0.5 * ORP, IF(Hours <= 8, 1 * ORP, (1 * ORP) + (2 * HRP * (Hours - 8))))$f$, '{"ORP":100,"HRP":12.5,"Basic":2600,"Hours":6}'::jsonb), 6), round(100::numeric, 6), 'sunday up to 8 hours');
+SELECT is(round(public.ot_formula_evaluate($f$IF(Hours <= 4, 0.5 * ORP, IF(Hours <= 8, 1 * ORP, (1 * ORP) + (2 * HRP * (Hours - 8))))$f$, '{"ORP":100,"HRP":12.5,"Basic":2600,"Hours":10}'::jsonb), 6), round(150::numeric, 6), 'sunday over 8 hours');
+SELECT is(round(public.ot_formula_evaluate($f$IF(Hours <= 8, 2 * ORP, (2 * ORP) + (3 * HRP * (Hours - 8)))$f$, '{"ORP":100,"HRP":12.5,"Basic":2600,"Hours":8}'::jsonb), 6), round(200::numeric, 6), 'public holiday up to 8 hours');
+SELECT is(round(public.ot_formula_evaluate($f$IF(Hours <= 8, 2 * ORP, (2 * ORP) + (3 * HRP * (Hours - 8)))$f$, '{"ORP":100,"HRP":12.5,"Basic":2600,"Hours":9}'::jsonb), 6), round(237.5::numeric, 6), 'public holiday over 8 hours');
+SELECT is(round(public.ot_formula_evaluate($f$MIN(Hours, 4) * HRP$f$, '{"ORP":100,"HRP":12.5,"Basic":2600,"Hours":6}'::jsonb), 6), round(50::numeric, 6), 'MIN caps hours');
+SELECT is(round(public.ot_formula_evaluate($f$MAX(Hours - 8, 0)$f$, '{"Hours":5}'::jsonb), 6), round(0::numeric, 6), 'MAX floors at zero');
+SELECT is(round(public.ot_formula_evaluate($f$MAX(1, 5, 3)$f$, '{}'::jsonb), 6), round(5::numeric, 6), 'MAX of several values');
+SELECT is(round(public.ot_formula_evaluate($f$ROUND(2.675, 2)$f$, '{}'::jsonb), 6), round(2.68::numeric, 6), 'ROUND half away from zero');
+SELECT is(round(public.ot_formula_evaluate($f$ROUND(-2.5)$f$, '{}'::jsonb), 6), round(-3::numeric, 6), 'ROUND negative half');
+SELECT is(round(public.ot_formula_evaluate($f$ROUND(1234.5678, -2)$f$, '{}'::jsonb), 6), round(1200::numeric, 6), 'ROUND to hundreds');
+SELECT is(round(public.ot_formula_evaluate($f$ROUND(Basic / 27, 2)$f$, '{"ORP":100,"HRP":12.5,"Basic":2600}'::jsonb), 6), round(96.3::numeric, 6), 'ROUND computed rate');
+SELECT is(round(public.ot_formula_evaluate($f$round(max(Hours, 1.25), 1)$f$, '{"Hours":1}'::jsonb), 6), round(1.3::numeric, 6), 'case-insensitive functions');
+SELECT is(round(public.ot_formula_evaluate($f$Hours >= 8$f$, '{"Hours":8}'::jsonb), 6), round(1::numeric, 6), 'greater or equal');
+SELECT is(round(public.ot_formula_evaluate($f$Hours <> 8$f$, '{"Hours":8}'::jsonb), 6), round(0::numeric, 6), 'not equal');
+SELECT is(round(public.ot_formula_evaluate($f$Hours == 8$f$, '{"Hours":8}'::jsonb), 6), round(1::numeric, 6), 'double equals alias');
+SELECT is(round(public.ot_formula_evaluate($f$Hours != 8$f$, '{"Hours":8}'::jsonb), 6), round(0::numeric, 6), 'bang equals alias');
+SELECT is(round(public.ot_formula_evaluate($f$IF(Hours > 4 AND Hours <= 8, 1, 0)$f$, '{"Hours":6}'::jsonb), 6), round(1::numeric, 6), 'AND range');
+SELECT is(round(public.ot_formula_evaluate($f$IF(Hours < 2 or Hours > 10, 1, 0)$f$, '{"Hours":6}'::jsonb), 6), round(0::numeric, 6), 'OR range');
+SELECT is(round(public.ot_formula_evaluate($f$NOT Hours > 4$f$, '{"Hours":6}'::jsonb), 6), round(0::numeric, 6), 'NOT comparison');
+SELECT is(round(public.ot_formula_evaluate($f$NOT 0 AND 0$f$, '{}'::jsonb), 6), round(0::numeric, 6), 'NOT binds tighter than AND');
+SELECT is(round(public.ot_formula_evaluate($f$NOT (0 AND 0)$f$, '{}'::jsonb), 6), round(1::numeric, 6), 'NOT of a group');
+SELECT is(round(public.ot_formula_evaluate($f$1 OR 0 AND 0$f$, '{}'::jsonb), 6), round(1::numeric, 6), 'AND binds tighter than OR');
+SELECT is(round(public.ot_formula_evaluate($f$(Hours > 8) * HRP$f$, '{"ORP":100,"HRP":12.5,"Basic":2600,"Hours":9}'::jsonb), 6), round(12.5::numeric, 6), 'boolean result as factor');
+SELECT is(round(public.ot_formula_evaluate($f$IF(DayType = 'sunday', 2, 1)$f$, '{"DayType":"sunday"}'::jsonb), 6), round(2::numeric, 6), 'text equality');
+SELECT is(round(public.ot_formula_evaluate($f$DayType = 'SUNDAY'$f$, '{"DayType":"sunday"}'::jsonb), 6), round(1::numeric, 6), 'text comparison ignores case');
+SELECT is(round(public.ot_formula_evaluate($f$EmploymentType <> "Contract"$f$, '{"EmploymentType":"Permanent"}'::jsonb), 6), round(1::numeric, 6), 'double-quoted text');
+SELECT is(round(public.ot_formula_evaluate($f$IF(Hours > 8, 'long', 'short') = 'long'$f$, '{"Hours":9}'::jsonb), 6), round(1::numeric, 6), 'text from IF branches');
+SELECT is(round(public.ot_formula_evaluate($f$IF(DayType = 'sunday', MIN(Hours, 8) * 2 * HRP + HoursBeyondNormal * 3 * HRP, 1.5 * HRP * Hours)$f$, '{"ORP":100,"HRP":12.5,"Basic":2600,"DayType":"sunday","Hours":10,"HoursBeyondNormal":2}'::jsonb), 6), round(275::numeric, 6), 'rest day bands');
+SELECT is(round(public.ot_formula_evaluate($f$IF(Hours = 0, 0, ORP / Hours)$f$, '{"ORP":100,"HRP":12.5,"Basic":2600,"Hours":0}'::jsonb), 6), round(0::numeric, 6), 'IF guards division');
+SELECT is(round(public.ot_formula_evaluate($f$Hours > 0 AND ORP / Hours > 10$f$, '{"ORP":100,"HRP":12.5,"Basic":2600,"Hours":0}'::jsonb), 6), round(0::numeric, 6), 'AND guards division');
+SELECT is(round(public.ot_formula_evaluate($f$Hours = 0 OR ORP / Hours > 10$f$, '{"ORP":100,"HRP":12.5,"Basic":2600,"Hours":0}'::jsonb), 6), round(1::numeric, 6), 'OR guards division');
+SELECT throws_ok($q$SELECT public.ot_formula_evaluate($f$  $f$, '{}'::jsonb)$q$, '22023', NULL, 'empty formula');
+SELECT throws_ok($q$SELECT public.ot_formula_evaluate($f$2 +$f$, '{}'::jsonb)$q$, '22023', NULL, 'dangling operator');
+SELECT throws_ok($q$SELECT public.ot_formula_evaluate($f$(Hours * 2$f$, '{"Hours":1}'::jsonb)$q$, '22023', NULL, 'unbalanced parentheses');
+SELECT throws_ok($q$SELECT public.ot_formula_evaluate($f$IF(Hours > 1, 1)$f$, '{"Hours":1}'::jsonb)$q$, '22023', NULL, 'IF arity');
+SELECT throws_ok($q$SELECT public.ot_formula_evaluate($f$FLOOR(Hours)$f$, '{"Hours":1}'::jsonb)$q$, '22023', NULL, 'unknown function');
+SELECT throws_ok($q$SELECT public.ot_formula_evaluate($f$1 < Hours < 3$f$, '{"Hours":2}'::jsonb)$q$, '22023', NULL, 'chained comparison');
+SELECT throws_ok($q$SELECT public.ot_formula_evaluate($f$Hours ^ 2$f$, '{"Hours":2}'::jsonb)$q$, '22023', NULL, 'unsupported operator');
+SELECT throws_ok($q$SELECT public.ot_formula_evaluate($f$Salary * 2$f$, '{"ORP":100,"HRP":12.5,"Basic":2600}'::jsonb)$q$, '22023', NULL, 'unknown variable');
+SELECT throws_ok($q$SELECT public.ot_formula_evaluate($f$hours * 2$f$, '{"Hours":2}'::jsonb)$q$, '22023', NULL, 'variables are case-sensitive');
+SELECT throws_ok($q$SELECT public.ot_formula_evaluate($f$ROUND(1.5, 0.5)$f$, '{}'::jsonb)$q$, '22023', NULL, 'fractional ROUND decimals');
+SELECT throws_ok($q$SELECT public.ot_formula_evaluate($f$DayType * 2$f$, '{"DayType":"sunday"}'::jsonb)$q$, '22023', NULL, 'arithmetic on text');
+SELECT throws_ok($q$SELECT public.ot_formula_evaluate($f$DayType > 'saturday'$f$, '{"DayType":"sunday"}'::jsonb)$q$, '22023', NULL, 'ordering text');
+SELECT throws_ok($q$SELECT public.ot_formula_evaluate($f$DayType = 1$f$, '{"DayType":"sunday"}'::jsonb)$q$, '22023', NULL, 'text compared with a number');
+SELECT throws_ok($q$SELECT public.ot_formula_evaluate($f$NOT DayType$f$, '{"DayType":"sunday"}'::jsonb)$q$, '22023', NULL, 'NOT of text');
+SELECT throws_ok($q$SELECT public.ot_formula_evaluate($f$IF(Hours > 8, 'long', 'short')$f$, '{"Hours":9}'::jsonb)$q$, '22023', NULL, 'text result');
+SELECT throws_ok($q$SELECT public.ot_formula_evaluate($f$DayType = 'sunday$f$, '{"DayType":"sunday"}'::jsonb)$q$, '22023', NULL, 'unterminated text');
+SELECT throws_ok($q$SELECT public.ot_formula_evaluate($f$ORP / (Hours - 8)$f$, '{"ORP":100,"HRP":12.5,"Basic":2600,"Hours":8}'::jsonb)$q$, '22012', NULL, 'division by zero');
+
+SELECT * FROM finish();
+ROLLBACK;
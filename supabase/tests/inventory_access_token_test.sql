@@ -0,0 +1,106 @@
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+SELECT plan(11);
+
+INSERT INTO public.companies (id, name, code) VALUES
+  ('b0000000-0000-0000-0000-000000000001', 'Store Test Co', 'STC'),
+  ('b0000000-0000-0000-0000-000000000002', 'Other Store Co', 'OSC');
+INSERT INTO public.departments (id, code, name, company_id) VALUES
+  ('b0000000-0000-0000-0000-0000000000d1', 'STR', 'Stores', 'b0000000-0000-0000-0000-000000000001'),
+  ('b0000000-0000-0000-0000-0000000000d2', 'STR', 'Stores', 'b0000000-0000-0000-0000-000000000002');
+INSERT INTO auth.users (id, email) VALUES
+  ('b0000000-0000-0000-0000-00000000000e', 'store-employee@example.com'),
+  ('b0000000-0000-0000-0000-00000000001e', 'store-leaver@example.com'),
+  ('b0000000-0000-0000-0000-00000000002e', 'other-store-employee@example.com');
+INSERT INTO public.profiles (id, employee_id, full_name, email, department_id, basic_salary, company_id, state, status) VALUES
+  ('b0000000-0000-0000-0000-00000000000e', 'ST001', 'Store Employee', 'store-employee@example.com',
+   'b0000000-0000-0000-0000-0000000000d1', 2600, 'b0000000-0000-0000-0000-000000000001', 'Selangor', 'active'),
+  ('b0000000-0000-0000-0000-00000000001e', 'ST002', 'Store Leaver', 'store-leaver@example.com',
+   'b0000000-0000-0000-0000-0000000000d1', 2600, 'b0000000-0000-0000-0000-000000000001', 'Selangor', 'inactive'),
+  ('b0000000-0000-0000-0000-00000000002e', 'OS001', 'Other Store Employee', 'other-store-employee@example.com',
+   'b0000000-0000-0000-0000-0000000000d2', 2600, 'b0000000-0000-0000-0000-000000000002', 'Selangor', 'active');
+
+-- The counter scanner of the first company, with key 'store-kiosk-key'
+INSERT INTO public.inventory_kiosks (id, company_id, name, key_hash) VALUES
+  ('b0000000-0000-0000-0000-0000000000c1', 'b0000000-0000-0000-0000-000000000001', 'Main store counter',
+   encode(sha256(convert_to('store-kiosk-key', 'UTF8')), 'hex'));
+
+INSERT INTO public.inventory_access_tokens (user_id, token, expires_at, is_active) VALUES
+  ('b0000000-0000-0000-0000-00000000000e', 'b1000000-0000-0000-0000-000000000001', now() + interval '30 minutes', true),
+  ('b0000000-0000-0000-0000-00000000000e', 'b1000000-0000-0000-0000-000000000002', now() - interval '1 minute', true),
+  ('b0000000-0000-0000-0000-00000000000e', 'b1000000-0000-0000-0000-000000000003', now() + interval '30 minutes', false),
+  ('b0000000-0000-0000-0000-00000000001e', 'b1000000-0000-0000-0000-000000000004', now() + interval '30 minutes', true),
+  ('b0000000-0000-0000-0000-00000000002e', 'b1000000-0000-0000-0000-000000000005', now() + interval '30 minutes', true);
+
+SELECT is(
+  (SELECT result FROM public.consume_inventory_access_token('store-kiosk-key', 'b1000000-0000-0000-0000-000000000001')),
+  'granted',
+  'a fresh token lets its holder in'
+);
+
+SELECT is(
+  (SELECT result FROM public.consume_inventory_access_token('store-kiosk-key', 'b1000000-0000-0000-0000-000000000001')),
+  'used',
+  'a token lets its holder in only once'
+);
+
+SELECT is(
+  (SELECT result FROM public.consume_inventory_access_token('store-kiosk-key', 'b1000000-0000-0000-0000-000000000002')),
+  'expired',
+  'an expired token is refused'
+);
+
+SELECT is(
+  (SELECT result FROM public.consume_inventory_access_token('store-kiosk-key', 'b1000000-0000-0000-0000-000000000003')),
+  'revoked',
+  'a token retired by a newer QR is refused'
+);
+
+SELECT is(
+  (SELECT result FROM public.consume_inventory_access_token('store-kiosk-key', 'b1000000-0000-0000-0000-000000000004')),
+  'revoked',
+  'the token of an inactive employee is refused'
+);
+
+SELECT is(
+  (SELECT result FROM public.consume_inventory_access_token('store-kiosk-key', 'b1000000-0000-0000-0000-000000000005')),
+  'other_company',
+  'a token is refused at another company''s kiosk'
+);
+
+SELECT is(
+  (SELECT used_at FROM public.inventory_access_tokens WHERE token = 'b1000000-0000-0000-0000-000000000005'),
+  NULL,
+  'a refused token is not used up'
+);
+
+SELECT is(
+  (SELECT result FROM public.consume_inventory_access_token('store-kiosk-key', 'not-a-token')),
+  'unknown',
+  'a QR that is not a token is reported as unknown'
+);
+
+SELECT is(
+  (SELECT array_agg(result ORDER BY scanned_at, result)::text
+   FROM public.inventory_access_scans
+   WHERE kiosk_id = 'b0000000-0000-0000-0000-0000000000c1'
+     AND company_id = 'b0000000-0000-0000-0000-000000000001'),
+  '{expired,granted,other_company,revoked,revoked,unknown,used}',
+  'every scan is logged against the kiosk, whatever its outcome'
+);
+
+SELECT throws_ok(
+  $$SELECT * FROM public.consume_inventory_access_token('wrong-key', 'b1000000-0000-0000-0000-000000000005')$$,
+  '42501', NULL, 'an unknown kiosk key is refused'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub":"b0000000-0000-0000-0000-00000000000e","role":"authenticated"}', true);
+SET LOCAL ROLE authenticated;
+
+SELECT throws_ok(
+  $$SELECT * FROM public.consume_inventory_access_token('store-kiosk-key', 'b1000000-0000-0000-0000-000000000005')$$,
+  '42501', NULL, 'signed-in users cannot consume tokens themselves'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
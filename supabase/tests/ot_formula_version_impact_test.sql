@@ -0,0 +1,87 @@
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+SELECT plan(7);
+
+INSERT INTO public.companies (id, name, code) VALUES
+  ('a0000000-0000-0000-0000-000000000001', 'Impact Test Co', 'ITC'),
+  ('a0000000-0000-0000-0000-000000000002', 'Other Impact Co', 'OIC');
+INSERT INTO public.departments (id, code, name, company_id) VALUES
+  ('a0000000-0000-0000-0000-0000000000d1', 'OPS', 'Operations', 'a0000000-0000-0000-0000-000000000001'),
+  ('a0000000-0000-0000-0000-0000000000d2', 'OPS', 'Operations', 'a0000000-0000-0000-0000-000000000002');
+INSERT INTO auth.users (id, email) VALUES
+  ('a0000000-0000-0000-0000-00000000000e', 'impact-employee@example.com'),
+  ('a0000000-0000-0000-0000-0000000000a1', 'impact-hr@example.com'),
+  ('a0000000-0000-0000-0000-0000000000b1', 'other-impact-employee@example.com');
+INSERT INTO public.profiles (id, employee_id, full_name, email, department_id, basic_salary, company_id, state, status) VALUES
+  ('a0000000-0000-0000-0000-00000000000e', 'IT001', 'Impact Employee', 'impact-employee@example.com',
+   'a0000000-0000-0000-0000-0000000000d1', 2600, 'a0000000-0000-0000-0000-000000000001', 'Selangor', 'active'),
+  ('a0000000-0000-0000-0000-0000000000a1', 'IT002', 'Impact HR', 'impact-hr@example.com',
+   'a0000000-0000-0000-0000-0000000000d1', 5000, 'a0000000-0000-0000-0000-000000000001', 'Selangor', 'active'),
+  ('a0000000-0000-0000-0000-0000000000b1', 'OI001', 'Other Impact Employee', 'other-impact-employee@example.com',
+   'a0000000-0000-0000-0000-0000000000d2', 2600, 'a0000000-0000-0000-0000-000000000002', 'Selangor', 'active');
+INSERT INTO public.user_roles (user_id, role) VALUES
+  ('a0000000-0000-0000-0000-00000000000e', 'employee'),
+  ('a0000000-0000-0000-0000-0000000000a1', 'hr'),
+  ('a0000000-0000-0000-0000-0000000000b1', 'employee');
+
+-- Weekday OT in another company
+SELECT set_config('request.jwt.claims', '{"sub":"a0000000-0000-0000-0000-0000000000b1","role":"authenticated"}', true);
+SET LOCAL ROLE authenticated;
+INSERT INTO public.ot_requests (employee_id, ot_date, start_time, end_time, total_hours, reason) VALUES
+  ('a0000000-0000-0000-0000-0000000000b1', '2026-03-03', '18:00', '20:00', 2, 'Stock take');
+RESET ROLE;
+
+-- Two weekday sessions (HRP 12.50): 3 hours paid 56.25 and 4 hours paid 75.00
+SELECT set_config('request.jwt.claims', '{"sub":"a0000000-0000-0000-0000-00000000000e","role":"authenticated"}', true);
+SET LOCAL ROLE authenticated;
+INSERT INTO public.ot_requests (employee_id, ot_date, start_time, end_time, total_hours, reason) VALUES
+  ('a0000000-0000-0000-0000-00000000000e', '2026-03-03', '18:00', '21:00', 3, 'Month end closing'),
+  ('a0000000-0000-0000-0000-00000000000e', '2026-03-04', '18:00', '22:00', 4, 'Month end closing');
+
+SELECT throws_ok(
+  $$SELECT * FROM public.preview_ot_formula_version_impact('weekday', 'All', 'HRP * Hours', 2, '2026-03-01', '2026-03-31')$$,
+  '42501', NULL, 'employees cannot preview formula changes'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub":"a0000000-0000-0000-0000-0000000000a1","role":"authenticated"}', true);
+
+SELECT is(
+  (SELECT ROW(ot_days, total_hours, current_amount, proposed_amount, delta, failed_days)::text
+   FROM public.preview_ot_formula_version_impact('weekday', 'All', 'HRP * Hours', 2, '2026-03-01', '2026-03-31')),
+  ROW(2, 7.00, 131.25, 175.00, 43.75, 0)::text,
+  'a draft is applied to each OT day in the range'
+);
+
+SELECT is(
+  (SELECT ROW(ot_days, proposed_amount, failed_days)::text
+   FROM public.preview_ot_formula_version_impact('weekday', 'All', 'ORP / (Hours - 3)', 1, '2026-03-01', '2026-03-31')),
+  ROW(2, 156.25, 1)::text,
+  'days the draft cannot evaluate keep their current amount and are counted'
+);
+
+SELECT is(
+  (SELECT count(*) FROM public.preview_ot_formula_version_impact('weekday', 'All', 'HRP * Hours', 2, '2026-03-04', NULL)),
+  1::bigint,
+  'days before the range are left out'
+);
+
+SELECT is(
+  (SELECT count(*) FROM public.preview_ot_formula_version_impact('saturday', 'All', 'HRP * Hours', 2, '2026-03-01', '2026-03-31')),
+  0::bigint,
+  'other day types are left out'
+);
+
+SELECT is(
+  (SELECT array_agg(employee_id)
+   FROM public.preview_ot_formula_version_impact('weekday', 'All', 'HRP * Hours', 2, '2026-03-01', '2026-03-31')),
+  ARRAY['a0000000-0000-0000-0000-00000000000e'::uuid],
+  'OT of other companies is left out'
+);
+
+SELECT throws_ok(
+  $$SELECT * FROM public.preview_ot_formula_version_impact('weekday', 'All', 'HRP *', 2, '2026-03-01', '2026-03-31')$$,
+  '22023', NULL, 'a draft with a syntax error is refused'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,65 @@
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+SELECT plan(5);
+
+INSERT INTO public.companies (id, name, code) VALUES
+  ('c0000000-0000-0000-0000-000000000001', 'Event Test Co', 'ETC');
+INSERT INTO public.departments (id, code, name, company_id) VALUES
+  ('c0000000-0000-0000-0000-0000000000d1', 'OPS', 'Operations', 'c0000000-0000-0000-0000-000000000001');
+INSERT INTO auth.users (id, email) VALUES
+  ('c0000000-0000-0000-0000-00000000000e', 'event-employee@example.com'),
+  ('c0000000-0000-0000-0000-00000000005a', 'event-supervisor@example.com'),
+  ('c0000000-0000-0000-0000-00000000005b', 'event-delegate@example.com');
+INSERT INTO public.profiles (id, employee_id, full_name, email, department_id, basic_salary, company_id, state, status) VALUES
+  ('c0000000-0000-0000-0000-00000000000e', 'EV001', 'Event Employee', 'event-employee@example.com',
+   'c0000000-0000-0000-0000-0000000000d1', 2600, 'c0000000-0000-0000-0000-000000000001', 'Selangor', 'active'),
+  ('c0000000-0000-0000-0000-00000000005a', 'EV002', 'Event Supervisor', 'event-supervisor@example.com',
+   'c0000000-0000-0000-0000-0000000000d1', 4000, 'c0000000-0000-0000-0000-000000000001', 'Selangor', 'active'),
+  ('c0000000-0000-0000-0000-00000000005b', 'EV003', 'Event Delegate', 'event-delegate@example.com',
+   'c0000000-0000-0000-0000-0000000000d1', 4000, 'c0000000-0000-0000-0000-000000000001', 'Selangor', 'active');
+
+SELECT set_config('request.jwt.claims', '{"sub":"c0000000-0000-0000-0000-00000000000e","role":"authenticated"}', true);
+SET LOCAL ROLE authenticated;
+INSERT INTO public.ot_requests (id, employee_id, ot_date, start_time, end_time, total_hours, reason) VALUES
+  ('c1000000-0000-0000-0000-000000000001', 'c0000000-0000-0000-0000-00000000000e', '2026-03-03', '18:00', '21:00', 3, 'Month end closing');
+RESET ROLE;
+
+-- The delegate verified the request for the supervisor
+INSERT INTO public.ot_request_events (request_id, event_type, actor_id, actor_role, on_behalf_of, from_status, to_status) VALUES
+  ('c1000000-0000-0000-0000-000000000001', 'status_changed', 'c0000000-0000-0000-0000-00000000005b', 'supervisor',
+   'c0000000-0000-0000-0000-00000000005a', 'pending_verification', 'supervisor_verified');
+
+SELECT throws_ok(
+  $$UPDATE public.ot_request_events SET remarks = 'Edited later'
+    WHERE actor_id = 'c0000000-0000-0000-0000-00000000005b'$$,
+  'P0001', 'ot_request_events is append-only', 'events cannot be edited'
+);
+
+SELECT throws_ok(
+  $$UPDATE public.ot_request_events SET actor_id = 'c0000000-0000-0000-0000-00000000000e'
+    WHERE actor_id = 'c0000000-0000-0000-0000-00000000005b'$$,
+  'P0001', 'ot_request_events is append-only', 'an event cannot be given another actor'
+);
+
+SELECT lives_ok(
+  $$DELETE FROM public.profiles
+    WHERE id IN ('c0000000-0000-0000-0000-00000000005a', 'c0000000-0000-0000-0000-00000000005b')$$,
+  'profiles that acted on OT can be deleted'
+);
+
+SELECT is(
+  (SELECT ROW(actor_id, on_behalf_of, actor_role, to_status)::text
+   FROM public.ot_request_events
+   WHERE request_id = 'c1000000-0000-0000-0000-000000000001' AND event_type = 'status_changed'),
+  ROW(NULL::uuid, NULL::uuid, 'supervisor', 'supervisor_verified'::ot_status)::text,
+  'their events stay, without the deleted profiles'
+);
+
+SELECT is(
+  (SELECT count(*) FROM public.ot_request_events WHERE request_id = 'c1000000-0000-0000-0000-000000000001'),
+  2::bigint,
+  'no event is removed'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
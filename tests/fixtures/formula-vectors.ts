@@ -0,0 +1,105 @@
+/**
+ * Formula Engine Conformance Vectors
+ * Each vector is checked against the TypeScript engine and rendered into the
+ * pgTAP suite supabase/tests/formula_conformance_test.sql, so browser, Deno
+ * and SQL evaluation stay in agreement.
+ */
+
+export type FormulaVectorError = 'invalid_formula' | 'division_by_zero';
+
+export interface FormulaVector {
+  name: string;
+  formula: string;
+  variables: Record<string, number | string>;
+  expected: number | { error: FormulaVectorError };
+}
+
+/** SQLSTATE raised by the SQL engine for each error kind */
+export const FORMULA_ERROR_SQLSTATE: Record<FormulaVectorError, string> = {
+  invalid_formula: '22023',
+  division_by_zero: '22012',
+};
+
+const rates = { ORP: 100, HRP: 12.5, Basic: 2600 };
+
+const SUNDAY_FORMULA = 'IF(Hours <= 4, 0.5 * ORP, IF(Hours <= 8, 1 * ORP, (1 * ORP) + (2 * HRP * (Hours - 8))))';
+const PUBLIC_HOLIDAY_FORMULA = 'IF(Hours <= 8, 2 * ORP, (2 * ORP) + (3 * HRP * (Hours - 8)))';
+
+export const FORMULA_VECTORS: FormulaVector[] = [
+  // Arithmetic
+  { name: 'weekday rate', formula: '1.5 * HRP * Hours', variables: { ...rates, Hours: 3 }, expected: 56.25 },
+  { name: 'precedence', formula: '2 + 3 * 4', variables: {}, expected: 14 },
+  { name: 'parentheses', formula: '(2 + 3) * 4', variables: {}, expected: 20 },
+  { name: 'left-associative subtraction', formula: '7 - 2 - 1', variables: {}, expected: 4 },
+  { name: 'left-associative division', formula: '16 / 4 / 2', variables: {}, expected: 2 },
+  { name: 'unary minus', formula: '-2 * -3', variables: {}, expected: 6 },
+  { name: 'leading decimal point', formula: '.5 * ORP', variables: rates, expected: 50 },
+  { name: 'operator aliases', formula: '2 × HRP ÷ 4', variables: rates, expected: 6.25 },
+  { name: 'repeating fraction', formula: 'Basic / 26 / 8 / 3', variables: rates, expected: 4.166667 },
+
+  // Seeded day-type formulas
+  { name: 'sunday up to 4 hours', formula: SUNDAY_FORMULA, variables: { ...rates, Hours: 3 }, expected: 50 },
+  { name: 'sunday up to 8 hours', formula: SUNDAY_FORMULA, variables: { ...rates, Hours: 6 }, expected: 100 },
+  { name: 'sunday over 8 hours', formula: SUNDAY_FORMULA, variables: { ...rates, Hours: 10 }, expected: 150 },
+  { name: 'public holiday up to 8 hours', formula: PUBLIC_HOLIDAY_FORMULA, variables: { ...rates, Hours: 8 }, expected: 200 },
+  { name: 'public holiday over 8 hours', formula: PUBLIC_HOLIDAY_FORMULA, variables: { ...rates, Hours: 9 }, expected: 237.5 },
+
+  // Functions
+  { name: 'MIN caps hours', formula: 'MIN(Hours, 4) * HRP', variables: { ...rates, Hours: 6 }, expected: 50 },
+  { name: 'MAX floors at zero', formula: 'MAX(Hours - 8, 0)', variables: { Hours: 5 }, expected: 0 },
+  { name: 'MAX of several values', formula: 'MAX(1, 5, 3)', variables: {}, expected: 5 },
+  { name: 'ROUND half away from zero', formula: 'ROUND(2.675, 2)', variables: {}, expected: 2.68 },
+  { name: 'ROUND negative half', formula: 'ROUND(-2.5)', variables: {}, expected: -3 },
+  { name: 'ROUND to hundreds', formula: 'ROUND(1234.5678, -2)', variables: {}, expected: 1200 },
+  { name: 'ROUND computed rate', formula: 'ROUND(Basic / 27, 2)', variables: rates, expected: 96.3 },
+  { name: 'case-insensitive functions', formula: 'round(max(Hours, 1.25), 1)', variables: { Hours: 1 }, expected: 1.3 },
+
+  // Comparisons and boolean operators
+  { name: 'greater or equal', formula: 'Hours >= 8', variables: { Hours: 8 }, expected: 1 },
+  { name: 'not equal', formula: 'Hours <> 8', variables: { Hours: 8 }, expected: 0 },
+  { name: 'double equals alias', formula: 'Hours == 8', variables: { Hours: 8 }, expected: 1 },
+  { name: 'bang equals alias', formula: 'Hours != 8', variables: { Hours: 8 }, expected: 0 },
+  { name: 'AND range', formula: 'IF(Hours > 4 AND Hours <= 8, 1, 0)', variables: { Hours: 6 }, expected: 1 },
+  { name: 'OR range', formula: 'IF(Hours < 2 or Hours > 10, 1, 0)', variables: { Hours: 6 }, expected: 0 },
+  { name: 'NOT comparison', formula: 'NOT Hours > 4', variables: { Hours: 6 }, expected: 0 },
+  { name: 'NOT binds tighter than AND', formula: 'NOT 0 AND 0', variables: {}, expected: 0 },
+  { name: 'NOT of a group', formula: 'NOT (0 AND 0)', variables: {}, expected: 1 },
+  { name: 'AND binds tighter than OR', formula: '1 OR 0 AND 0', variables: {}, expected: 1 },
+  { name: 'boolean result as factor', formula: '(Hours > 8) * HRP', variables: { ...rates, Hours: 9 }, expected: 12.5 },
+
+  // Text values
+  { name: 'text equality', formula: "IF(DayType = 'sunday', 2, 1)", variables: { DayType: 'sunday' }, expected: 2 },
+  { name: 'text comparison ignores case', formula: "DayType = 'SUNDAY'", variables: { DayType: 'sunday' }, expected: 1 },
+  { name: 'double-quoted text', formula: 'EmploymentType <> "Contract"', variables: { EmploymentType: 'Permanent' }, expected: 1 },
+  { name: 'text from IF branches', formula: "IF(Hours > 8, 'long', 'short') = 'long'", variables: { Hours: 9 }, expected: 1 },
+  {
+    name: 'rest day bands',
+    formula: "IF(DayType = 'sunday', MIN(Hours, 8) * 2 * HRP + HoursBeyondNormal * 3 * HRP, 1.5 * HRP * Hours)",
+    variables: { ...rates, DayType: 'sunday', Hours: 10, HoursBeyondNormal: 2 },
+    expected: 275,
+  },
+
+  // Only the needed operand is evaluated
+  { name: 'IF guards division', formula: 'IF(Hours = 0, 0, ORP / Hours)', variables: { ...rates, Hours: 0 }, expected: 0 },
+  { name: 'AND guards division', formula: 'Hours > 0 AND ORP / Hours > 10', variables: { ...rates, Hours: 0 }, expected: 0 },
+  { name: 'OR guards division', formula: 'Hours = 0 OR ORP / Hours > 10', variables: { ...rates, Hours: 0 }, expected: 1 },
+
+  // Errors
+  { name: 'empty formula', formula: '  ', variables: {}, expected: { error: 'invalid_formula' } },
+  { name: 'dangling operator', formula: '2 +', variables: {}, expected: { error: 'invalid_formula' } },
+  { name: 'unbalanced parentheses', formula: '(Hours * 2', variables: { Hours: 1 }, expected: { error: 'invalid_formula' } },
+  { name: 'IF arity', formula: 'IF(Hours > 1, 1)', variables: { Hours: 1 }, expected: { error: 'invalid_formula' } },
+  { name: 'unknown function', formula: 'FLOOR(Hours)', variables: { Hours: 1 }, expected: { error: 'invalid_formula' } },
+  { name: 'chained comparison', formula: '1 < Hours < 3', variables: { Hours: 2 }, expected: { error: 'invalid_formula' } },
+  { name: 'unsupported operator', formula: 'Hours ^ 2', variables: { Hours: 2 }, expected: { error: 'invalid_formula' } },
+  { name: 'unknown variable', formula: 'Salary * 2', variables: rates, expected: { error: 'invalid_formula' } },
+  { name: 'variables are case-sensitive', formula: 'hours * 2', variables: { Hours: 2 }, expected: { error: 'invalid_formula' } },
+  { name: 'fractional ROUND decimals', formula: 'ROUND(1.5, 0.5)', variables: {}, expected: { error: 'invalid_formula' } },
+  { name: 'arithmetic on text', formula: 'DayType * 2', variables: { DayType: 'sunday' }, expected: { error: 'invalid_formula' } },
+  { name: 'ordering text', formula: "DayType > 'saturday'", variables: { DayType: 'sunday' }, expected: { error: 'invalid_formula' } },
+  { name: 'text compared with a number', formula: 'DayType = 1', variables: { DayType: 'sunday' }, expected: { error: 'invalid_formula' } },
+  { name: 'NOT of text', formula: 'NOT DayType', variables: { DayType: 'sunday' }, expected: { error: 'invalid_formula' } },
+  { name: 'text result', formula: "IF(Hours > 8, 'long', 'short')", variables: { Hours: 9 }, expected: { error: 'invalid_formula' } },
+  { name: 'unterminated text', formula: "DayType = 'sunday", variables: { DayType: 'sunday' }, expected: { error: 'invalid_formula' } },
+  { name: 'division by zero', formula: 'ORP / (Hours - 8)', variables: { ...rates, Hours: 8 }, expected: { error: 'division_by_zero' } },
+];
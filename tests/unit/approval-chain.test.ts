@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { resolveApprovalSteps, selectApprovalChain } from '@/lib/approvalChain';
+import { ApprovalChain, ApprovalChainStep } from '@/types/otms';
+
+const step = (overrides: Partial<ApprovalChainStep>): ApprovalChainStep => ({
+  id: `step-${overrides.role}`,
+  chain_id: 'chain-1',
+  role: 'hr',
+  condition: {},
+  skip_rule: 'never',
+  created_at: '2026-02-11T00:00:00Z',
+  ...overrides,
+});
+
+const chain = (overrides: Partial<ApprovalChain>): ApprovalChain => ({
+  id: 'chain-1',
+  name: 'Chain',
+  company_id: null,
+  department_id: null,
+  is_active: true,
+  created_at: '2026-02-11T00:00:00Z',
+  updated_at: '2026-02-11T00:00:00Z',
+  approval_chain_steps: [],
+  ...overrides,
+});
+
+const request = {
+  total_hours: 3,
+  ot_amount: 120,
+  day_type: 'weekday' as const,
+  department_id: 'dept-1',
+};
+
+describe('Approval chain resolution', () => {
+  it('should fall back to HR then management when no chain applies', () => {
+    expect(resolveApprovalSteps(null, request)).toEqual(['hr', 'management']);
+  });
+
+  it('should skip management for requests under the amount threshold', () => {
+    const smallClaims = chain({
+      approval_chain_steps: [
+        step({ role: 'hr' }),
+        step({ role: 'management', condition: { max_amount: 200 }, skip_rule: 'when_condition_met' }),
+      ],
+    });
+
+    expect(resolveApprovalSteps(smallClaims, request)).toEqual(['hr']);
+    expect(resolveApprovalSteps(smallClaims, { ...request, ot_amount: 450 })).toEqual(['hr', 'management']);
+  });
+
+  it('should only add the department head step when its condition matches', () => {
+    const holidayReview = chain({
+      approval_chain_steps: [
+        step({ role: 'management' }),
+        step({ role: 'department_head', condition: { day_types: ['public_holiday'] }, skip_rule: 'when_condition_not_met' }),
+      ],
+    });
+
+    expect(resolveApprovalSteps(holidayReview, request)).toEqual(['hr', 'management']);
+    expect(resolveApprovalSteps(holidayReview, { ...request, day_type: 'public_holiday' })).toEqual([
+      'department_head',
+      'hr',
+      'management',
+    ]);
+  });
+
+  it('should skip the department head step when nobody can take it', () => {
+    const headReview = chain({
+      approval_chain_steps: [step({ role: 'department_head' }), step({ role: 'hr' })],
+    });
+
+    expect(resolveApprovalSteps(headReview, request)).toEqual(['department_head', 'hr']);
+    expect(resolveApprovalSteps(headReview, { ...request, has_department_head: false })).toEqual(['hr']);
+  });
+
+  it('should prefer the most specific active chain', () => {
+    const global = chain({ id: 'global' });
+    const company = chain({ id: 'company', company_id: 'co-1' });
+    const department = chain({ id: 'department', company_id: 'co-1', department_id: 'dept-1' });
+    const inactive = chain({ id: 'inactive', department_id: 'dept-1', is_active: false });
+
+    expect(selectApprovalChain([global, company, department, inactive], 'co-1', 'dept-1')?.id).toBe('department');
+    expect(selectApprovalChain([global, company, department], 'co-1', 'dept-2')?.id).toBe('company');
+    expect(selectApprovalChain([global, company], 'co-2', 'dept-1')?.id).toBe('global');
+    expect(selectApprovalChain([company, inactive], 'co-2', 'dept-1')).toBeNull();
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { getDelegatorIds, isDelegationActive, toDelegationDate } from '@/lib/approvalDelegation';
+import { validateSupervisorApproval } from '@/services/ot-workflow';
+import { ApprovalDelegation, OTRequest } from '@/types/otms';
+
+const today = toDelegationDate();
+
+const delegation = (overrides: Partial<ApprovalDelegation>): ApprovalDelegation => ({
+  id: 'del-1',
+  delegator_id: 'sup-1',
+  delegate_id: 'sup-2',
+  role: 'supervisor',
+  starts_on: today,
+  ends_on: today,
+  reason: null,
+  revoked_at: null,
+  created_by: 'sup-1',
+  created_at: '2026-02-12T00:00:00Z',
+  updated_at: '2026-02-12T00:00:00Z',
+  ...overrides,
+});
+
+describe('Approval delegation', () => {
+  it('should be active only within its date range and until revoked', () => {
+    const range = delegation({ starts_on: '2026-03-01', ends_on: '2026-03-05' });
+
+    expect(isDelegationActive(range, '2026-03-01')).toBe(true);
+    expect(isDelegationActive(range, '2026-03-05')).toBe(true);
+    expect(isDelegationActive(range, '2026-02-28')).toBe(false);
+    expect(isDelegationActive(range, '2026-03-06')).toBe(false);
+    expect(isDelegationActive({ ...range, revoked_at: '2026-03-02T09:00:00Z' }, '2026-03-03')).toBe(false);
+  });
+
+  it('should list delegators for the requested role only', () => {
+    const delegations = [
+      delegation({ id: 'a', delegator_id: 'sup-1' }),
+      delegation({ id: 'b', delegator_id: 'hr-1', role: 'hr' }),
+      delegation({ id: 'c', delegator_id: 'sup-3', revoked_at: '2026-02-12T08:00:00Z' }),
+    ];
+
+    expect(getDelegatorIds(delegations, 'supervisor')).toEqual(['sup-1']);
+    expect(getDelegatorIds(delegations)).toEqual(['sup-1', 'hr-1']);
+  });
+
+  it('should let a delegate approve requests assigned to the supervisor they cover', () => {
+    const request = { status: 'pending_verification', supervisor_id: 'sup-1' } as OTRequest;
+
+    expect(validateSupervisorApproval(request, 'sup-2').valid).toBe(false);
+    expect(validateSupervisorApproval(request, 'sup-2', ['sup-1']).valid).toBe(true);
+    expect(validateSupervisorApproval(request, 'sup-2', ['sup-9']).valid).toBe(false);
+  });
+});
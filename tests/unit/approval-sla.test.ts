@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { formatWaitingTime, getSlaState, parseReminderHours } from '@/lib/approvalSla';
+import { OTApprovalSla } from '@/types/otms';
+
+const sla = (overrides: Partial<OTApprovalSla>): OTApprovalSla => ({
+  id: `sla-${overrides.status}`,
+  status: 'pending_verification',
+  reminder_hours: [24, 48],
+  sla_hours: 72,
+  escalate_to: 'supervisor_manager',
+  is_active: true,
+  created_at: '2026-02-13T00:00:00Z',
+  updated_at: '2026-02-13T00:00:00Z',
+  ...overrides,
+});
+
+const now = new Date('2026-02-20T12:00:00Z');
+const hoursAgo = (hours: number) => new Date(now.getTime() - hours * 36e5).toISOString();
+
+describe('Approval SLA state', () => {
+  const slas = [sla({}), sla({ status: 'hr_certified', sla_hours: 120, escalate_to: 'admin', is_active: false })];
+
+  it('should flag requests waiting past the stage SLA as overdue', () => {
+    expect(getSlaState({ status: 'pending_verification', status_changed_at: hoursAgo(30) }, slas, now)).toMatchObject({
+      slaHours: 72,
+      overdue: false,
+    });
+    expect(getSlaState({ status: 'pending_verification', status_changed_at: hoursAgo(72) }, slas, now)?.overdue).toBe(true);
+  });
+
+  it('should ignore stages without an active SLA and requests sent back by management', () => {
+    expect(getSlaState({ status: 'hr_certified', status_changed_at: hoursAgo(200) }, slas, now)).toBeNull();
+    expect(getSlaState({ status: 'supervisor_confirmed', status_changed_at: hoursAgo(200) }, slas, now)).toBeNull();
+
+    const active = [sla({ status: 'hr_certified', sla_hours: 120, escalate_to: 'admin' })];
+    expect(getSlaState({ status: 'hr_certified', status_changed_at: hoursAgo(200) }, active, now)?.overdue).toBe(true);
+    expect(
+      getSlaState({ status: 'hr_certified', status_changed_at: hoursAgo(200), management_remarks: 'Check hours' }, active, now)
+    ).toBeNull();
+  });
+
+  it('should parse reminder thresholds below the SLA', () => {
+    expect(parseReminderHours('48, 24, 24', 72)).toEqual([24, 48]);
+    expect(parseReminderHours('', 72)).toEqual([]);
+    expect(parseReminderHours('24, 72', 72)).toBeNull();
+    expect(parseReminderHours('1.5', 72)).toBeNull();
+    expect(formatWaitingTime(30.4)).toBe('30 hours');
+    expect(formatWaitingTime(75)).toBe('3 days');
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeOvertimeSessions,
+  getCalendarShift,
+  getUnpunchedMinutes,
+  pairPunches,
+  parsePunchFile,
+  parsePunchTimestamp,
+} from '@/lib/attendance';
+
+const noHolidays = getCalendarShift(new Set());
+
+describe('Attendance import', () => {
+  it('should parse a terminal CSV export with aliased headers and in/out states', () => {
+    const csv = [
+      'AC-No.;Name;Date Time;State;Device SN',
+      '"E001";"Aminah";2026-03-02 08:55:12;C/In;TERM-01',
+      'E001;Aminah;2026-03-02 20:30:00;C/Out;TERM-01',
+      'E001;Aminah;2026-03-02 20:30:00;C/Out;TERM-01',
+      ';Nobody;2026-03-02 09:00;0;TERM-01',
+      'E002;Ravi;31/02/2026 09:00;0;TERM-02',
+    ].join('\n');
+
+    const { punches, errors } = parsePunchFile(csv, 'csv');
+
+    expect(punches).toEqual([
+      { row: 2, employee_no: 'E001', punched_at: '2026-03-02T08:55:12', direction: 'in', device_id: 'TERM-01' },
+      { row: 3, employee_no: 'E001', punched_at: '2026-03-02T20:30:00', direction: 'out', device_id: 'TERM-01' },
+    ]);
+    expect(errors).toEqual([
+      { row: 5, error: 'Missing employee number' },
+      { row: 6, error: 'Unrecognised punch time "31/02/2026 09:00"' },
+    ]);
+  });
+
+  it('should parse JSON exports with separate date and time fields', () => {
+    const json = JSON.stringify({
+      data: [
+        { userId: 1042, date: '2026-03-07', time: '08:00', checkType: 'I' },
+        { userId: 1042, date: '2026-03-07', time: '01:15 PM', checkType: 'O' },
+      ],
+    });
+
+    const { punches, errors } = parsePunchFile(json, 'json');
+
+    expect(errors).toEqual([]);
+    expect(punches.map((punch) => [punch.employee_no, punch.punched_at, punch.direction])).toEqual([
+      ['1042', '2026-03-07T08:00:00', 'in'],
+      ['1042', '2026-03-07T13:15:00', 'out'],
+    ]);
+  });
+
+  it('should accept day-first dates and ignore UTC offsets', () => {
+    expect(parsePunchTimestamp('2/3/2026 6:05 PM')).toBe('2026-03-02T18:05:00');
+    expect(parsePunchTimestamp('2026-03-02T18:05:00+08:00')).toBe('2026-03-02T18:05:00');
+    expect(parsePunchTimestamp('2026-03-02 25:00')).toBeNull();
+  });
+
+  it('should pair unmarked punches, ignoring double scans and missed clock-outs', () => {
+    const intervals = pairPunches([
+      { punched_at: '2026-03-02T08:50:00', direction: null },
+      { punched_at: '2026-03-02T08:51:00', direction: null },
+      { punched_at: '2026-03-02T19:40:00', direction: null },
+      // Clocked in the next morning but never out
+      { punched_at: '2026-03-03T08:45:00', direction: null },
+      { punched_at: '2026-03-04T08:55:00', direction: 'in' },
+      { punched_at: '2026-03-04T18:00:00', direction: 'out' },
+    ]);
+
+    expect(intervals).toEqual([
+      { start: '2026-03-02T08:50:00', end: '2026-03-02T19:40:00' },
+      { start: '2026-03-04T08:55:00', end: '2026-03-04T18:00:00' },
+    ]);
+  });
+
+  it('should draft time beyond the shift on work days and the whole interval on days off', () => {
+    const sessions = computeOvertimeSessions(
+      [
+        // Monday: 20 minutes early (too short) and 2h40 late
+        { start: '2026-03-02T08:40:00', end: '2026-03-02T20:40:00' },
+        // Saturday
+        { start: '2026-03-07T08:00:00', end: '2026-03-07T13:15:00' },
+        // Tuesday into Wednesday
+        { start: '2026-03-03T09:00:00', end: '2026-03-04T01:30:00' },
+      ],
+      noHolidays
+    );
+
+    expect(sessions).toEqual([
+      { ot_date: '2026-03-02', start_time: '18:00', end_time: '20:40', total_hours: 2.7 },
+      { ot_date: '2026-03-07', start_time: '08:00', end_time: '13:15', total_hours: 5.3 },
+      { ot_date: '2026-03-03', start_time: '18:00', end_time: '01:30', total_hours: 7.5 },
+    ]);
+  });
+
+  it('should treat holidays as days off', () => {
+    const sessions = computeOvertimeSessions(
+      [{ start: '2026-03-02T10:00:00', end: '2026-03-02T14:00:00' }],
+      getCalendarShift(new Set(['2026-03-02']))
+    );
+
+    expect(sessions).toEqual([{ ot_date: '2026-03-02', start_time: '10:00', end_time: '14:00', total_hours: 4 }]);
+  });
+
+  it('should follow a rostered night shift that ends the next morning', () => {
+    const nights = (date: string) => (date === '2026-03-02' ? { start: '20:00', end: '08:00' } : null);
+
+    const sessions = computeOvertimeSessions([{ start: '2026-03-02T19:55:00', end: '2026-03-03T10:30:00' }], nights);
+
+    expect(sessions).toEqual([{ ot_date: '2026-03-03', start_time: '08:00', end_time: '10:30', total_hours: 2.5 }]);
+  });
+
+  it('should measure claimed time not covered by punches, across midnight', () => {
+    const intervals = [{ start: '2026-03-03T08:55:00', end: '2026-03-04T00:30:00' }];
+
+    expect(getUnpunchedMinutes({ ot_date: '2026-03-03', start_time: '18:00', end_time: '00:30' }, intervals)).toBe(0);
+    expect(getUnpunchedMinutes({ ot_date: '2026-03-03', start_time: '18:00', end_time: '02:00' }, intervals)).toBe(90);
+    expect(getUnpunchedMinutes({ ot_date: '2026-03-05', start_time: '18:00', end_time: '20:00' }, intervals)).toBe(120);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { BulkOTDecisionResult, OTRequest } from '@/types/otms';
+import { getDecisionStatus, validateApproverDecision } from '@/services/ot-workflow';
+import {
+  countBulkDecisions,
+  describeBulkDecisions,
+  expandRowDecisions,
+  groupDecisionNotifications,
+} from '@/lib/bulkOTDecisions';
+
+const result = (
+  request_id: string,
+  employee_id: string,
+  decision: 'approve' | 'reject',
+  ok = true
+): BulkOTDecisionResult => ({
+  request_id,
+  employee_id,
+  decision,
+  ok,
+  from_status: 'hr_certified',
+  to_status: ok ? 'management_approved' : null,
+  error: ok ? null : 'transition not allowed',
+});
+
+describe('Bulk OT decisions', () => {
+  it('should send management rejections back to HR and reject outright for other roles', () => {
+    expect(getDecisionStatus('management', 'approve')).toBe('management_approved');
+    expect(getDecisionStatus('management', 'reject')).toBe('hr_certified');
+    expect(getDecisionStatus('hr', 'reject')).toBe('rejected');
+    expect(getDecisionStatus('department_head', 'approve')).toBe('department_head_approved');
+  });
+
+  it('should verify requests the respective supervisor already confirmed', () => {
+    const routeA = { respective_supervisor_id: null, respective_supervisor_confirmed_at: null };
+    const routeB = { respective_supervisor_id: 'sup-2', respective_supervisor_confirmed_at: '2026-03-04T09:00:00Z' };
+
+    expect(getDecisionStatus('supervisor', 'approve', routeA)).toBe('supervisor_confirmed');
+    expect(getDecisionStatus('supervisor', 'approve', routeB)).toBe('supervisor_verified');
+    expect(
+      validateApproverDecision(
+        { status: 'respective_supervisor_confirmed', supervisor_id: 'sup-1', ...routeB } as OTRequest,
+        'supervisor',
+        'approve',
+        { userId: 'sup-1' }
+      ).valid
+    ).toBe(true);
+  });
+
+  it('should validate each request for the deciding role', () => {
+    const certified = { status: 'hr_certified', management_remarks: null } as OTRequest;
+    const sentBack = { status: 'hr_certified', management_remarks: 'Check hours' } as OTRequest;
+    const confirmed = { status: 'supervisor_confirmed', hr_approved_at: null } as OTRequest;
+
+    expect(validateApproverDecision(certified, 'management', 'approve', { userId: 'mgr-1' }).valid).toBe(true);
+    expect(validateApproverDecision(sentBack, 'management', 'approve', { userId: 'mgr-1' }).valid).toBe(false);
+    expect(validateApproverDecision(confirmed, 'management', 'approve', { userId: 'mgr-1' }).valid).toBe(false);
+    expect(validateApproverDecision(confirmed, 'hr', 'approve', { userId: 'hr-1' }).valid).toBe(true);
+  });
+
+  it('should require remarks to reject', () => {
+    const certified = { status: 'hr_certified', management_remarks: null } as OTRequest;
+
+    expect(validateApproverDecision(certified, 'management', 'reject', { userId: 'mgr-1' }).valid).toBe(false);
+    expect(
+      validateApproverDecision(certified, 'management', 'reject', { userId: 'mgr-1', remarks: 'Hours exceed roster' }).valid
+    ).toBe(true);
+  });
+
+  it('should only let the assigned supervisor or their delegate decide', () => {
+    const request = { status: 'pending_verification', supervisor_id: 'sup-1' } as OTRequest;
+
+    expect(validateApproverDecision(request, 'supervisor', 'approve', { userId: 'sup-2' }).valid).toBe(false);
+    expect(
+      validateApproverDecision(request, 'supervisor', 'approve', { userId: 'sup-2', delegatorIds: ['sup-1'] }).valid
+    ).toBe(true);
+  });
+
+  it('should decide every session of a queue row', () => {
+    const rows = [
+      { id: 'a1', request_ids: ['a1', 'a2'] },
+      { id: 'b1', request_ids: ['b1'] },
+      { id: 'c1', request_ids: ['c1'] },
+    ];
+
+    expect(
+      expandRowDecisions(rows, { a1: { decision: 'approve' }, b1: { decision: 'reject', remarks: 'Duplicate' } })
+    ).toEqual([
+      { request_id: 'a1', decision: 'approve' },
+      { request_id: 'a2', decision: 'approve' },
+      { request_id: 'b1', decision: 'reject', remarks: 'Duplicate' },
+    ]);
+  });
+
+  it('should notify each employee once for their applied decisions', () => {
+    const results = [
+      result('r1', 'emp-1', 'approve'),
+      result('r2', 'emp-1', 'reject'),
+      result('r3', 'emp-2', 'approve'),
+      result('r4', 'emp-2', 'approve', false),
+      result('r5', 'emp-3', 'approve', false),
+    ];
+
+    const grouped = groupDecisionNotifications(results);
+
+    expect([...grouped.keys()]).toEqual(['emp-1', 'emp-2']);
+    expect(grouped.get('emp-1')).toEqual([
+      { requestId: 'r1', notificationType: 'approved' },
+      { requestId: 'r2', notificationType: 'rejected' },
+    ]);
+    expect(grouped.get('emp-2')).toEqual([{ requestId: 'r3', notificationType: 'approved' }]);
+  });
+
+  it('should summarize the outcome', () => {
+    const counts = countBulkDecisions([
+      result('r1', 'emp-1', 'approve'),
+      result('r2', 'emp-1', 'approve'),
+      result('r3', 'emp-2', 'reject'),
+      result('r4', 'emp-2', 'approve', false),
+    ]);
+
+    expect(counts).toEqual({ approved: 2, rejected: 1, failed: 1 });
+    expect(describeBulkDecisions(counts)).toBe('2 approved, 1 rejected, 1 failed');
+  });
+});
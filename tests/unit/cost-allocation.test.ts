@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { splitByCostShares, totalByCostCentre, validateCostAllocations } from '@/lib/costAllocation';
+
+const PROJECT = { code: 'PRJ-1', name: 'Plant upgrade', hours: 2 };
+const WORK_ORDER = { code: 'WO-7', name: 'Pump repair', hours: 1 };
+
+describe('Cost allocation', () => {
+  it('should require splits that add up to the session', () => {
+    expect(validateCostAllocations([{ cost_centre_id: 'a', hours: 3 }], 3)).toBeNull();
+    expect(validateCostAllocations([{ cost_centre_id: 'a', hours: 1.5 }, { cost_centre_id: 'b', hours: 1 }], 3)).toBe(
+      'Split hours add up to 2.5 but the session is 3 hours'
+    );
+    expect(validateCostAllocations([{ cost_centre_id: 'a', hours: 2 }, { cost_centre_id: 'a', hours: 1 }], 3)).toBe(
+      'Each cost centre can only be used once'
+    );
+    expect(validateCostAllocations([{ cost_centre_id: '', hours: 3 }], 3)).toBe('Select a cost centre for every split');
+  });
+
+  it('should share hours and amount by allocated hours, keeping the rounding on the last code', () => {
+    expect(splitByCostShares(3, 100, [PROJECT, WORK_ORDER])).toEqual([
+      { code: 'PRJ-1', name: 'Plant upgrade', hours: 2, amount: 66.67 },
+      { code: 'WO-7', name: 'Pump repair', hours: 1, amount: 33.33 },
+    ]);
+  });
+
+  it('should keep the split when the session hours change after tagging', () => {
+    expect(splitByCostShares(6, 150, [PROJECT, WORK_ORDER]).map((part) => part.hours)).toEqual([4, 2]);
+  });
+
+  it('should total by code, with untagged sessions unallocated', () => {
+    expect(
+      totalByCostCentre([
+        { hours: 3, amount: 90, cost_allocations: [PROJECT, WORK_ORDER] },
+        { hours: 2, amount: 50, cost_allocations: [{ ...WORK_ORDER, hours: 2 }] },
+        { hours: 1, amount: 20, cost_allocations: [] },
+      ])
+    ).toEqual([
+      { code: 'WO-7', name: 'Pump repair', hours: 3, amount: 80 },
+      { code: 'PRJ-1', name: 'Plant upgrade', hours: 2, amount: 60 },
+      { code: '', name: 'Unallocated', hours: 1, amount: 20 },
+    ]);
+  });
+});
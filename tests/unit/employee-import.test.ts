@@ -0,0 +1,211 @@
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import {
+  EmployeeImportReference,
+  getUnmappedRequiredFields,
+  guessEmployeeColumnMapping,
+  parseImportAmount,
+  parseImportDate,
+  validateEmployeeImport,
+} from '@/lib/employeeImport';
+import { parseCsvTable, readXlsxTable } from '@/lib/spreadsheet';
+
+const HEADER = 'Staff No,Name,Email,Dept,Job Title,Location,Reporting To,Basic Salary,Employment Type,Date Joined,Role';
+
+const reference: EmployeeImportReference = {
+  employees: [
+    { id: 'sup-1', employee_id: 'S001', email: 'lim@acme.my', roles: ['supervisor'] },
+    { id: 'emp-1', employee_id: 'E001', email: 'aminah@acme.my', roles: ['employee'] },
+  ],
+  departments: [
+    { id: 'dept-ops', code: 'OPS', name: 'Operations' },
+    { id: 'dept-fin', code: 'FIN', name: 'Finance' },
+  ],
+  positions: [
+    { id: 'pos-tech', department_id: 'dept-ops', title: 'Technician' },
+    { id: 'pos-lead', department_id: 'dept-ops', title: 'Team Lead' },
+    { id: 'pos-acc', department_id: 'dept-fin', title: 'Accountant' },
+  ],
+  locations: [{ id: 'loc-shah', location_name: 'Shah Alam', state_code: 'SGR' }],
+};
+
+const check = (...lines: string[]) => {
+  const table = parseCsvTable([HEADER, ...lines].join('\n'));
+  return validateEmployeeImport(table, guessEmployeeColumnMapping(table.headers), reference);
+};
+
+const byRow = (preview: ReturnType<typeof check>, row: number) => preview.rows.find((r) => r.row === row)!;
+
+describe('Employee import', () => {
+  it('should guess columns from common header names', () => {
+    const mapping = guessEmployeeColumnMapping(HEADER.split(','));
+
+    expect(mapping).toMatchObject({
+      employee_id: 0,
+      full_name: 1,
+      email: 2,
+      department: 3,
+      position: 4,
+      work_location: 5,
+      supervisor: 6,
+      basic_salary: 7,
+      employment_type: 8,
+      joining_date: 9,
+      role: 10,
+    });
+    expect(getUnmappedRequiredFields(mapping)).toEqual([]);
+    expect(getUnmappedRequiredFields({ employee_id: 0 }).map((f) => f.field)).toContain('full_name');
+  });
+
+  it('should build the profile of a valid row', () => {
+    const preview = check('E100,Ravi Kumar,ravi@acme.my,OPS,technician,Shah Alam,S001,"RM 3,200.00",permanent,02/03/2026,');
+
+    expect(preview.validCount).toBe(1);
+    expect(preview.rows[0].payload).toMatchObject({
+      employee_id: 'E100',
+      email: 'ravi@acme.my',
+      department_id: 'dept-ops',
+      position_id: 'pos-tech',
+      position: 'Technician',
+      work_location: 'loc-shah',
+      state: 'SGR',
+      basic_salary: 3200,
+      employment_type: 'Permanent',
+      joining_date: '2026-03-02',
+      role: 'employee',
+      is_ot_eligible: true,
+      supervisor_id: 'sup-1',
+      supervisor_employee_no: null,
+    });
+  });
+
+  it('should report duplicate employee numbers and emails against employees and the file', () => {
+    const preview = check(
+      'E001,Existing No,new@acme.my,OPS,Technician,Shah Alam,S001,3000,Permanent,2026-03-02,',
+      'E101,Existing Email,AMINAH@acme.my,OPS,Technician,Shah Alam,S001,3000,Permanent,2026-03-02,',
+      'E102,First,same@acme.my,OPS,Technician,Shah Alam,S001,3000,Permanent,2026-03-02,',
+      'E102,Second,same@acme.my,OPS,Technician,Shah Alam,S001,3000,Permanent,2026-03-02,'
+    );
+
+    expect(byRow(preview, 2).errors).toContain('Employee No E001 already exists');
+    expect(byRow(preview, 3).errors).toContain('AMINAH@acme.my is already used by Employee No E001');
+    expect(byRow(preview, 4).errors).toEqual([]);
+    expect(byRow(preview, 5).errors).toEqual([
+      'Employee No E102 is repeated from row 4',
+      'same@acme.my is repeated from row 4',
+    ]);
+  });
+
+  it('should report unknown departments, positions and locations', () => {
+    const preview = check(
+      'E110,No Dept,,HR,Technician,Shah Alam,S001,3000,Permanent,2026-03-02,',
+      'E111,Wrong Position,,FIN,Technician,Shah Alam,S001,3000,Permanent,2026-03-02,',
+      'E112,No Site,,Operations,Technician,Penang,S001,3000,Permanent,2026-03-02,'
+    );
+
+    expect(byRow(preview, 2).errors).toEqual(['Unknown department "HR"']);
+    expect(byRow(preview, 3).errors).toEqual(['Unknown position "Technician" in Finance']);
+    expect(byRow(preview, 4).errors).toEqual(['Unknown location "Penang"']);
+    expect(preview.errorCount).toBe(3);
+  });
+
+  it('should warn, not fail, when a row has no email', () => {
+    const preview = check('E120,No Email,,OPS,Technician,Shah Alam,S001,3000,Permanent,2026-03-02,');
+
+    expect(preview.rows[0].errors).toEqual([]);
+    expect(preview.rows[0].warnings).toHaveLength(1);
+    expect(preview.rows[0].payload?.email).toBeNull();
+  });
+
+  it('should reject supervisors that are unknown, not supervisors or the employee themselves', () => {
+    const preview = check(
+      'E130,Unknown Boss,,OPS,Technician,Shah Alam,X999,3000,Permanent,2026-03-02,',
+      'E131,Peer Boss,,OPS,Technician,Shah Alam,E001,3000,Permanent,2026-03-02,',
+      'E132,Own Boss,,OPS,Technician,Shah Alam,E132,3000,Permanent,2026-03-02,',
+      'E133,No Boss,,OPS,Technician,Shah Alam,,3000,Permanent,2026-03-02,',
+      'E134,Head,,OPS,Team Lead,Shah Alam,,9000,Permanent,2026-03-02,management',
+      'E135,Admin,,OPS,Team Lead,Shah Alam,S001,9000,Permanent,2026-03-02,admin'
+    );
+
+    expect(byRow(preview, 2).errors).toEqual(['Reporting To "X999" is not an employee or a row in this file']);
+    expect(byRow(preview, 3).errors).toEqual(['Employee No E001 is not a supervisor']);
+    expect(byRow(preview, 4).errors).toEqual(['An employee cannot report to themselves']);
+    expect(byRow(preview, 5).errors).toEqual(['Reporting To is required for this role']);
+    expect(byRow(preview, 6).errors).toEqual([]);
+    expect(byRow(preview, 7).errors).toEqual(['Role "admin" cannot be imported']);
+  });
+
+  it('should import supervisors in the file before their reports', () => {
+    const preview = check(
+      'E140,Report,,OPS,Technician,Shah Alam,E141,3000,Permanent,2026-03-02,',
+      'E141,New Lead,,OPS,Team Lead,Shah Alam,S001,5000,Permanent,2026-03-02,supervisor',
+      'E142,Report Of Plain,,OPS,Technician,Shah Alam,E143,3000,Permanent,2026-03-02,',
+      'E143,Plain,,OPS,Technician,Shah Alam,S001,3000,Permanent,2026-03-02,'
+    );
+
+    expect(preview.rows.filter((r) => r.payload).map((r) => r.employee_no)).toEqual(['E141', 'E140', 'E143']);
+    expect(byRow(preview, 2).payload?.supervisor_employee_no).toBe('E141');
+    expect(byRow(preview, 4).errors).toEqual(['Reporting To E143 (row 5) is not given a supervising role']);
+  });
+
+  it('should fail reporting lines that form a loop or depend on a failed row', () => {
+    const preview = check(
+      'E150,A,,OPS,Team Lead,Shah Alam,E151,5000,Permanent,2026-03-02,supervisor',
+      'E151,B,,OPS,Team Lead,Shah Alam,E150,5000,Permanent,2026-03-02,supervisor',
+      'E152,Bad Lead,,OPS,Team Lead,Shah Alam,S001,0,Permanent,2026-03-02,supervisor',
+      'E153,Report,,OPS,Technician,Shah Alam,E152,3000,Permanent,2026-03-02,'
+    );
+
+    expect(preview.validCount).toBe(0);
+    expect(byRow(preview, 2).errors).toContain('Reporting lines in the file form a loop');
+    expect(byRow(preview, 5).errors).toEqual(['Reporting To E152 (row 4) cannot be imported']);
+  });
+
+  it('should parse dates and amounts in the formats HR sheets use', () => {
+    expect(parseImportDate('2026-03-02')).toBe('2026-03-02');
+    expect(parseImportDate('2/3/2026')).toBe('2026-03-02');
+    expect(parseImportDate('46083')).toBe('2026-03-02');
+    expect(parseImportDate('31/02/2026')).toBeNull();
+    expect(parseImportDate('March 2')).toBeNull();
+
+    expect(parseImportAmount('RM 3,500.50')).toBe(3500.5);
+    expect(parseImportAmount('2800')).toBe(2800);
+    expect(parseImportAmount('-100')).toBeNull();
+    expect(parseImportAmount('')).toBeNull();
+  });
+
+  it('should keep file row numbers past blank lines', () => {
+    const table = parseCsvTable('\uFEFFNo;Name\n\nE1;"Lee, Mei"\n\nE2;Ali\n');
+
+    expect(table.headers).toEqual(['No', 'Name']);
+    expect(table.rows).toEqual([
+      { row: 3, cells: ['E1', 'Lee, Mei'] },
+      { row: 5, cells: ['E2', 'Ali'] },
+    ]);
+  });
+
+  it('should read the first worksheet of an Excel workbook', async () => {
+    const zip = new JSZip();
+    zip.file(
+      'xl/workbook.xml',
+      '<workbook xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="Staff" r:id="rId1"/></sheets></workbook>'
+    );
+    zip.file(
+      'xl/_rels/workbook.xml.rels',
+      '<Relationships><Relationship Id="rId1" Target="worksheets/staff.xml"/></Relationships>'
+    );
+    zip.file('xl/sharedStrings.xml', '<sst><si><t>Staff No</t></si><si><t>Joined</t></si><si><r><t>E</t></r><r><t>200</t></r></si></sst>');
+    zip.file(
+      'xl/worksheets/staff.xml',
+      '<worksheet><sheetData>' +
+        '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="C1" t="s"><v>1</v></c></row>' +
+        '<row r="3"><c r="A3" t="s"><v>2</v></c><c r="C3"><v>46083</v></c></row>' +
+        '</sheetData></worksheet>'
+    );
+
+    const table = await readXlsxTable(await zip.generateAsync({ type: 'uint8array' }));
+
+    expect(table.headers).toEqual(['Staff No', '', 'Joined']);
+    expect(table.rows).toEqual([{ row: 3, cells: ['E200', '', '46083'] }]);
+  });
+});
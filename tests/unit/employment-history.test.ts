@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { EmploymentDetails, EmploymentHistoryRecord } from '@/types/otms';
+import { getEmploymentChanges, resolveEmploymentAsOf } from '@/lib/employmentHistory';
+
+const current: EmploymentDetails = {
+  basic_salary: 4200,
+  ot_base: null,
+  department_id: 'finance',
+  position_id: 'senior-clerk',
+  position: 'Senior Clerk',
+  work_location: 'penang-hq',
+  state: 'PNG',
+  employment_type: 'Permanent',
+};
+
+const record = (
+  effective_from: string,
+  changes: Partial<EmploymentDetails>,
+  created_at = `${effective_from}T09:00:00Z`
+): Pick<EmploymentHistoryRecord, 'effective_from' | 'created_at' | 'changes'> => ({
+  effective_from,
+  created_at,
+  changes,
+});
+
+const history = [
+  record('2024-01-15', {
+    basic_salary: 3000,
+    ot_base: 2800,
+    department_id: 'operations',
+    position_id: 'clerk',
+    position: 'Clerk',
+    work_location: 'kl-office',
+    state: 'KUL',
+    employment_type: 'Contract',
+  }),
+  record('2025-01-01', { basic_salary: 3500 }),
+  record('2025-06-01', { department_id: 'finance', ot_base: null }),
+  record('2025-09-01', { position_id: 'senior-clerk', position: 'Senior Clerk', basic_salary: 4200 }),
+  record('2025-09-01', { work_location: 'penang-hq', state: 'PNG', employment_type: 'Permanent' }),
+];
+
+describe('Employment history', () => {
+  it('should take each field from the latest record in effect on the date', () => {
+    expect(resolveEmploymentAsOf(history, '2025-03-10', current)).toEqual({
+      basic_salary: 3500,
+      ot_base: 2800,
+      department_id: 'operations',
+      position_id: 'clerk',
+      position: 'Clerk',
+      work_location: 'kl-office',
+      state: 'KUL',
+      employment_type: 'Contract',
+    });
+  });
+
+  it('should apply a change from its effective date, including cleared fields', () => {
+    const beforeTransfer = resolveEmploymentAsOf(history, '2025-05-31', current);
+    const afterTransfer = resolveEmploymentAsOf(history, '2025-06-01', current);
+
+    expect(beforeTransfer.department_id).toBe('operations');
+    expect(beforeTransfer.ot_base).toBe(2800);
+    expect(afterTransfer.department_id).toBe('finance');
+    expect(afterTransfer.ot_base).toBeNull();
+    expect(resolveEmploymentAsOf(history, '2025-12-01', current)).toEqual(current);
+  });
+
+  it('should prefer the later recorded change when two share a date', () => {
+    const corrected = [
+      ...history,
+      record('2025-01-01', { basic_salary: 3600 }, '2025-02-03T10:00:00Z'),
+    ];
+
+    expect(resolveEmploymentAsOf(corrected, '2025-04-01', current).basic_salary).toBe(3600);
+  });
+
+  it('should use the earliest record before the first one and the profile for unrecorded fields', () => {
+    expect(resolveEmploymentAsOf(history, '2023-12-01', current).basic_salary).toBe(3000);
+    expect(resolveEmploymentAsOf([record('2025-01-01', { basic_salary: 3500 })], '2025-03-01', current)).toEqual({
+      ...current,
+      basic_salary: 3500,
+    });
+    expect(resolveEmploymentAsOf([], '2025-03-01', current)).toEqual(current);
+  });
+
+  it('should keep only the fields that changed', () => {
+    expect(
+      getEmploymentChanges(current, { basic_salary: 4500, ot_base: null, department_id: 'finance', work_location: '' })
+    ).toEqual({ basic_salary: 4500, work_location: null });
+    expect(getEmploymentChanges(current, { position: 'Senior Clerk' })).toEqual({});
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import {
+  FormulaError,
+  evaluateFormulaExpression,
+  getNightHours,
+  getOTFormulaVariables,
+  getSessionHours,
+  parseFormula,
+} from '@/lib/formulaEngine';
+import { evaluateFormula, getFormulaCompletions, validateFormulaSyntax } from '@/lib/formulaValidator';
+import { FORMULA_ERROR_SQLSTATE, FORMULA_VECTORS, FormulaVector } from '../fixtures/formula-vectors';
+
+const sqlCall = (vector: FormulaVector) =>
+  `public.ot_formula_evaluate($f$${vector.formula}$f$, '${JSON.stringify(vector.variables)}'::jsonb)`;
+
+/** pgTAP suite asserting the SQL engine against the same vectors */
+function renderConformanceSql(): string {
+  const lines = FORMULA_VECTORS.map((vector) =>
+    typeof vector.expected === 'number'
+      ? `SELECT is(round(${sqlCall(vector)}, 6), round(${vector.expected}::numeric, 6), '${vector.name}');`
+      : `SELECT throws_ok($q$SELECT ${sqlCall(vector)}$q$, '${FORMULA_ERROR_SQLSTATE[vector.expected.error]}', NULL, '${vector.name}');`
+  );
+
+  return [
+    '-- Generated by tests/unit/formula-engine.test.ts from tests/fixtures/formula-vectors.ts.',
+    '-- Do not edit by hand: change the vectors and run `npx vitest run tests/unit/formula-engine.test.ts -u`.',
+    'BEGIN;',
+    'CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;',
+    `SELECT plan(${FORMULA_VECTORS.length});`,
+    '',
+    ...lines,
+    '',
+    'SELECT * FROM finish();',
+    'ROLLBACK;',
+    '',
+  ].join('\n');
+}
+
+describe('Formula engine conformance', () => {
+  it.each(FORMULA_VECTORS)('$name', (vector) => {
+    const evaluate = () => evaluateFormulaExpression(vector.formula, vector.variables);
+
+    if (typeof vector.expected === 'number') {
+      expect(evaluate().value).toBeCloseTo(vector.expected, 6);
+    } else {
+      expect(evaluate).toThrow(FormulaError);
+      if (vector.expected.error === 'division_by_zero') expect(evaluate).toThrow('Division by zero');
+    }
+  });
+
+  it('should keep the SQL conformance suite in sync with the vectors', async () => {
+    await expect(renderConformanceSql()).toMatchFileSnapshot('../../supabase/tests/formula_conformance_test.sql');
+  });
+});
+
+describe('Formula engine breakdown', () => {
+  it('should record IF decisions and function results in evaluation order', () => {
+    const { value, steps } = evaluateFormulaExpression('IF(Hours > 8, MIN(Hours - 8, 2) * HRP, 0)', { Hours: 11, HRP: 10 });
+
+    expect(value).toBe(20);
+    expect(steps).toEqual([
+      { expression: 'Hours', value: 11 },
+      { expression: 'HRP', value: 10 },
+      { expression: 'Hours > 8', value: 1, detail: 'true → MIN(Hours - 8, 2) * HRP' },
+      { expression: 'MIN(Hours - 8, 2)', value: 2 },
+    ]);
+  });
+
+  it('should report error positions from the source text', () => {
+    expect(() => parseFormula('Hours * * 2')).toThrow('at position 9');
+  });
+
+  it('should validate against the OT variables and include workings in the preview', () => {
+    expect(validateFormulaSyntax('IF(Hours <= 8, 2 * ORP, 3 * HRP)')).toEqual({ isValid: true, errors: [] });
+    expect(validateFormulaSyntax('Rate * Hours').errors).toEqual(['Unknown variables: Rate']);
+
+    const result = evaluateFormula('IF(Hours <= 8, 2 * ORP, 3 * HRP)', { basicSalary: 2600, hours: 4 }, 1.5);
+    expect(result.otAmount).toBe(300);
+    expect(result.breakdown).toContain('Hours <= 8: true → 2 * ORP');
+    expect(result.breakdown).toContain('Final OT Amount: RM 300.00');
+  });
+});
+
+describe('OT formula variables', () => {
+  it('should derive rates from the OT base and expose day and employee attributes', () => {
+    expect(
+      getOTFormulaVariables({
+        basicSalary: 2600,
+        otBase: 5200,
+        hours: 10,
+        dayType: 'sunday',
+        isStateHoliday: true,
+        nightHours: 1.5,
+        employmentType: 'Contract',
+        monthHoursToDate: 40,
+      })
+    ).toEqual({
+      Hours: 10,
+      ORP: 200,
+      HRP: 25,
+      Basic: 2600,
+      OTBase: 5200,
+      DayType: 'sunday',
+      IsStateHoliday: 1,
+      HoursBeyondNormal: 2,
+      NightHours: 1.5,
+      EmploymentType: 'Contract',
+      MonthHoursToDate: 40,
+    });
+
+    expect(getOTFormulaVariables({ basicSalary: 2600, hours: 3 })).toMatchObject({
+      ORP: 100,
+      OTBase: 2600,
+      DayType: 'weekday',
+      HoursBeyondNormal: 0,
+      EmploymentType: '',
+    });
+  });
+
+  it('should count hours beyond the rostered normal hours', () => {
+    expect(getOTFormulaVariables({ basicSalary: 2600, hours: 10, normalHours: 12 }).HoursBeyondNormal).toBe(0);
+    expect(getOTFormulaVariables({ basicSalary: 2600, hours: 10, normalHours: 7.5 }).HoursBeyondNormal).toBe(2.5);
+    expect(getOTFormulaVariables({ basicSalary: 2600, hours: 10, normalHours: null }).HoursBeyondNormal).toBe(2);
+  });
+
+  it('should count night hours between 22:00 and 06:00, including past midnight', () => {
+    expect(getNightHours('18:00', '22:00')).toBe(0);
+    expect(getNightHours('20:00', '23:30')).toBe(1.5);
+    expect(getNightHours('21:00', '02:00')).toBe(4);
+    expect(getNightHours('04:00', '08:00')).toBe(2);
+    expect(getSessionHours('21:00', '02:00')).toBe(5);
+  });
+
+  it('should suggest variables and functions for the word at the caret', () => {
+    const formula = 'MIN(Hours, 8) * Ho';
+    expect(getFormulaCompletions(formula, formula.length)).toMatchObject({
+      from: 16,
+      to: 18,
+      suggestions: [{ label: 'Hours' }, { label: 'HoursBeyondNormal' }],
+    });
+    expect(getFormulaCompletions('ro', 2)?.suggestions).toMatchObject([{ label: 'ROUND', insertText: 'ROUND(' }]);
+    expect(getFormulaCompletions("DayType = 'su", 13)).toBeNull();
+    expect(getFormulaCompletions('Hours', 2)).toBeNull();
+  });
+});
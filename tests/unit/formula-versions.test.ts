@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { getVersionInEffect, groupFormulaVersions, summarizeFormulaImpact } from '@/lib/formulaVersions';
+import { FormulaImpactRow, RateFormula } from '@/types/otms';
+
+const version = (overrides: Partial<RateFormula>): RateFormula => ({
+  id: 'v1',
+  formula_name: 'Weekday OT',
+  day_type: 'weekday',
+  employee_category: 'All',
+  multiplier: 1.5,
+  base_formula: 'HRP * Hours',
+  is_active: true,
+  effective_from: '2025-01-01',
+  effective_to: null,
+  version_group_id: 'g1',
+  version: 1,
+  supersedes_id: null,
+  created_at: '2025-01-01T00:00:00Z',
+  updated_at: '2025-01-01T00:00:00Z',
+  ...overrides,
+});
+
+describe('Formula versions', () => {
+  const v1 = version({ effective_to: '2025-06-30' });
+  const v2 = version({ id: 'v2', version: 2, supersedes_id: 'v1', effective_from: '2025-07-01', multiplier: 2 });
+  const other = version({ id: 'o1', version_group_id: 'o1', formula_name: 'Evening OT' });
+
+  it('should group versions with the latest first', () => {
+    const groups = groupFormulaVersions([v1, other, v2]);
+
+    expect(groups.map((g) => g.groupId)).toEqual(['o1', 'g1']);
+    expect(groups[1].latest).toBe(v2);
+    expect(groups[1].versions).toEqual([v2, v1]);
+  });
+
+  it('should find the version in effect on a date', () => {
+    const [group] = groupFormulaVersions([v1, v2]);
+
+    expect(getVersionInEffect(group, '2025-06-30')).toBe(v1);
+    expect(getVersionInEffect(group, '2025-07-01')).toBe(v2);
+    expect(getVersionInEffect(group, '2024-12-31')).toBeUndefined();
+  });
+
+  it('should total a what-if preview', () => {
+    const row = (overrides: Partial<FormulaImpactRow>): FormulaImpactRow => ({
+      employee_id: 'e1',
+      employee_name: 'Aminah',
+      month: '2025-07',
+      ot_days: 2,
+      total_hours: 6,
+      current_amount: 100,
+      proposed_amount: 133.33,
+      delta: 33.33,
+      failed_days: 0,
+      ...overrides,
+    });
+
+    expect(
+      summarizeFormulaImpact([
+        row({}),
+        row({ month: '2025-08', total_hours: 2.5, current_amount: 50.1, proposed_amount: 40, failed_days: 1 }),
+        row({ employee_id: 'e2' }),
+      ])
+    ).toEqual({
+      employees: 2,
+      totalHours: 14.5,
+      currentAmount: 250.1,
+      proposedAmount: 306.66,
+      delta: 56.56,
+      failedDays: 1,
+    });
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { parseBadgeToken } from '@/lib/inventoryAccess';
+
+const token = '3f2b8c1e-9d4a-4c7b-8e21-5a6f0d9c1b42';
+
+describe('Inventory badge scans', () => {
+  it('should read the token a badge holds', () => {
+    expect(parseBadgeToken(token)).toBe(token);
+    expect(parseBadgeToken(`  ${token.toUpperCase()}\n`)).toBe(token);
+  });
+
+  it('should read the token from badges generated before tokens were issued by the database', () => {
+    const legacy = JSON.stringify({
+      userId: 'user-1',
+      employeeId: 'E1001',
+      fullName: 'Aminah Binti Yusof',
+      department: 'Finance',
+      token,
+    });
+
+    expect(parseBadgeToken(legacy)).toBe(token);
+  });
+
+  it('should find no token in anything else', () => {
+    expect(parseBadgeToken('https://example.com/not-a-badge')).toBeNull();
+    expect(parseBadgeToken(JSON.stringify({ token: 'abc' }))).toBeNull();
+    expect(parseBadgeToken('')).toBeNull();
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildQueuedDecisions,
+  collectAttachmentUrls,
+  describeStaleDecisions,
+  getDecisionTargetStatus,
+  hideQueuedDecisions,
+  isOfflineApprovalQuery,
+  isStaleDecisionError,
+} from '@/lib/offlineApprovals';
+import { GroupedOTRequest, OTRequest } from '@/types/otms';
+
+const request = (overrides: Partial<OTRequest> = {}): OTRequest =>
+  ({
+    id: 'req-1',
+    ticket_number: 'OT-0001',
+    ot_date: '2026-03-10',
+    status: 'pending_verification',
+    respective_supervisor_id: null,
+    respective_supervisor_confirmed_at: null,
+    attachment_urls: [],
+    updated_at: '2026-03-10T09:00:00.123456+00:00',
+    profiles: { id: 'emp-1', employee_id: 'E001', full_name: 'Aina Rahman' },
+    ...overrides,
+  }) as OTRequest;
+
+describe('Offline approvals', () => {
+  it('should move requests to the statuses the online decisions would', () => {
+    expect(getDecisionTargetStatus('approve', request())).toBe('supervisor_confirmed');
+    expect(getDecisionTargetStatus('confirm', request())).toBe('supervisor_confirmed');
+    expect(
+      getDecisionTargetStatus(
+        'confirm',
+        request({ respective_supervisor_id: 'sv-2', respective_supervisor_confirmed_at: '2026-03-10T10:00:00Z' })
+      )
+    ).toBe('supervisor_verified');
+    expect(getDecisionTargetStatus('confirm_respective', request())).toBe('pending_supervisor_verification');
+    expect(getDecisionTargetStatus('deny_respective', request())).toBe('rejected');
+  });
+
+  it('should queue a decision against the request as the supervisor saw it', () => {
+    const [decision] = buildQueuedDecisions('reject', [request()], {
+      approverId: 'sv-1',
+      remarks: '  Hours not worked  ',
+      now: new Date('2026-03-11T08:00:00Z'),
+    });
+
+    expect(decision).toMatchObject({
+      approver_id: 'sv-1',
+      request_id: 'req-1',
+      employee_name: 'Aina Rahman',
+      to_status: 'rejected',
+      expected_status: 'pending_verification',
+      expected_updated_at: '2026-03-10T09:00:00.123456+00:00',
+      remarks: 'Hours not worked',
+      rejection_stage: 'supervisor',
+      status: 'pending',
+      queued_at: '2026-03-11T08:00:00.000Z',
+    });
+  });
+
+  it('should refuse decisions whose remarks would not pass', () => {
+    expect(() => buildQueuedDecisions('reject', [request()], { approverId: 'sv-1' })).toThrow(/required/);
+    expect(() =>
+      buildQueuedDecisions('deny_respective', [request()], { approverId: 'sv-1', remarks: 'No' })
+    ).toThrow(/at least 10/);
+    expect(() => buildQueuedDecisions('approve', [], { approverId: 'sv-1' })).toThrow(/not saved/);
+  });
+
+  it('should hide requests only while their decisions wait to sync', () => {
+    const groups = [
+      { request_ids: ['req-1', 'req-2'] },
+      { request_ids: ['req-3'] },
+    ] as GroupedOTRequest[];
+    const [first, second, third] = buildQueuedDecisions(
+      'approve',
+      [request(), request({ id: 'req-2' }), request({ id: 'req-3' })],
+      { approverId: 'sv-1' }
+    );
+
+    expect(hideQueuedDecisions(groups, [first, second])).toEqual([groups[1]]);
+    expect(hideQueuedDecisions(groups, [first])).toEqual(groups);
+    expect(hideQueuedDecisions(groups, [{ ...third, status: 'stale' }])).toEqual(groups);
+  });
+
+  it('should recognise stale decisions, saved queries and attachments to keep', () => {
+    expect(isStaleDecisionError({ code: '55000', message: 'OT-0001 changed to rejected' })).toBe(true);
+    expect(isStaleDecisionError({ code: '42501', message: 'not allowed' })).toBe(false);
+    expect(describeStaleDecisions(['OT-0001', 'OT-0002', 'OT-0003'])).toMatch(
+      /^OT-0001, OT-0002 and OT-0003 changed while you were offline, so your decisions were not applied/
+    );
+
+    expect(isOfflineApprovalQuery(['supervisor-ot-approvals', 'all'])).toBe(true);
+    expect(isOfflineApprovalQuery(['auth', 'user', 'roles', 'sv-1'])).toBe(true);
+    expect(isOfflineApprovalQuery(['auth', 'session'])).toBe(false);
+    expect(isOfflineApprovalQuery(['hr-ot-approvals', 'all'])).toBe(false);
+
+    expect(
+      collectAttachmentUrls([
+        request({ attachment_urls: ['https://x/a.jpg', 'https://x/b.pdf'] }),
+        request({ status: 'pending_supervisor_verification', attachment_urls: ['https://x/a.jpg'] }),
+        request({ status: 'hr_certified', attachment_urls: ['https://x/c.jpg'] }),
+      ])
+    ).toEqual(['https://x/a.jpg', 'https://x/b.pdf']);
+  });
+});
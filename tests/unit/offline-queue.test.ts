@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { findQueueConflict, isNetworkError } from '@/lib/offlineQueue';
+import { QueuedOTPayload } from '@/types/otms';
+
+const payload: QueuedOTPayload = {
+  ot_date: '2026-03-10',
+  ot_location_state: 'SGR',
+  start_time: '18:00',
+  end_time: '21:00',
+  total_hours: 3,
+  day_type: 'weekday',
+  reason: 'Unexpected breakdown',
+  attachment_urls: [],
+};
+
+const context = {
+  now: new Date(2026, 2, 11, 9, 0),
+  cutoffDay: 10,
+  gracePeriodEnabled: false,
+  existingRequests: [],
+};
+
+describe('Offline OT queue', () => {
+  it('should let a queued submission through when nothing has changed', () => {
+    expect(findQueueConflict(payload, context)).toBeNull();
+  });
+
+  it('should hold back a submission whose deadline passed while it was queued', () => {
+    expect(findQueueConflict(payload, { ...context, now: new Date(2026, 2, 25, 9, 0) })?.kind).toBe('deadline_passed');
+    expect(
+      findQueueConflict(payload, { ...context, now: new Date(2026, 2, 25, 9, 0), gracePeriodEnabled: true })
+    ).toBeNull();
+  });
+
+  it('should hold back a submission overlapping a request made in the meantime', () => {
+    const conflict = findQueueConflict(payload, {
+      ...context,
+      existingRequests: [{ ot_date: '2026-03-10', start_time: '20:00', end_time: '22:00' }],
+    });
+
+    expect(conflict).toEqual({
+      kind: 'overlap',
+      message: 'Overlaps your OT request for 2026-03-10 from 20:00 to 22:00',
+    });
+  });
+
+  it('should not treat an earlier replay of the same submission as an overlap', () => {
+    expect(
+      findQueueConflict(payload, {
+        ...context,
+        submissionId: 'queued-1',
+        existingRequests: [
+          { ot_date: '2026-03-10', start_time: '18:00', end_time: '21:00', client_submission_id: 'queued-1' },
+        ],
+      })
+    ).toBeNull();
+  });
+
+  it('should tell a lost connection from a refused submission', () => {
+    expect(isNetworkError(new TypeError('Failed to fetch'))).toBe(true);
+    expect(isNetworkError({ name: 'FunctionsFetchError', message: 'Failed to send a request to the Edge Function' })).toBe(
+      true
+    );
+    expect(isNetworkError(new Error('You are not eligible to submit OT requests'))).toBe(false);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { AppRole } from '@/types/otms';
+import { buildOrgChart, getReassignmentError, getReportIds, OrgChartEmployee, OrgChartNode } from '@/lib/orgChart';
+
+const employee = (id: string, supervisorId: string | null, roles: AppRole[] = ['employee']): OrgChartEmployee => ({
+  id,
+  employee_id: id.toUpperCase(),
+  full_name: id,
+  position: null,
+  supervisor_id: supervisorId,
+  roles,
+});
+
+const outline = (node: OrgChartNode): unknown =>
+  node.reports.length ? { [node.employee.id]: node.reports.map(outline) } : node.employee.id;
+
+const company = [
+  employee('ceo', null, ['management']),
+  employee('lim', 'ceo', ['supervisor']),
+  employee('siti', 'ceo', ['supervisor']),
+  employee('ravi', 'lim'),
+  employee('aminah', 'lim'),
+  employee('chong', 'siti'),
+];
+
+describe('Org chart', () => {
+  it('should build the hierarchy with reports in name order and team sizes', () => {
+    const chart = buildOrgChart(company);
+
+    expect(chart.roots.map(outline)).toEqual([{ ceo: [{ lim: ['aminah', 'ravi'] }, { siti: ['chong'] }] }]);
+    expect(chart.roots[0].teamSize).toBe(5);
+    expect(chart.roots[0].reports[0].teamSize).toBe(2);
+    expect(chart.issues).toEqual([]);
+  });
+
+  it('should report employees without a supervisor unless their role sits at the top', () => {
+    const chart = buildOrgChart([employee('head', null, ['management']), employee('loose', null)]);
+
+    expect(chart.roots.map((root) => root.employee.id)).toEqual(['head', 'loose']);
+    expect(chart.issues).toEqual([
+      { employeeId: 'loose', type: 'no_supervisor', message: 'loose has no supervisor' },
+    ]);
+  });
+
+  it('should show employees whose supervisor is missing or themselves as roots', () => {
+    const chart = buildOrgChart([employee('left-behind', 'archived'), employee('own-boss', 'own-boss')]);
+
+    expect(chart.roots.map((root) => root.employee.id)).toEqual(['left-behind', 'own-boss']);
+    expect(chart.issues.map((issue) => [issue.employeeId, issue.type])).toEqual([
+      ['left-behind', 'missing_supervisor'],
+      ['own-boss', 'self'],
+    ]);
+  });
+
+  it('should place every member of a reporting loop once and flag the loop', () => {
+    const chart = buildOrgChart([employee('b', 'a'), employee('a', 'c'), employee('c', 'b'), employee('d', 'b')]);
+
+    expect(chart.roots.map(outline)).toEqual([{ a: [{ b: ['c', 'd'] }] }]);
+    expect(chart.issues.filter((issue) => issue.type === 'cycle').map((issue) => issue.employeeId).sort()).toEqual([
+      'a',
+      'b',
+      'c',
+    ]);
+    expect(chart.issues[0].message).toBe('Reporting loop: a → c → b → a');
+  });
+
+  it('should list everyone below an employee', () => {
+    expect([...getReportIds(company, 'lim')].sort()).toEqual(['aminah', 'ravi']);
+    expect(getReportIds(company, 'ceo').size).toBe(5);
+    expect(getReportIds(company, 'chong').size).toBe(0);
+  });
+
+  it('should refuse reassignments that loop or go to non-supervisors', () => {
+    expect(getReassignmentError(company, 'ravi', 'siti')).toBeNull();
+    expect(getReassignmentError(company, 'lim', 'siti')).toBeNull();
+    expect(getReassignmentError(company, 'lim', 'lim')).toBe('lim cannot supervise themselves');
+    expect(getReassignmentError(company, 'ceo', 'lim')).toBe('lim already reports up to ceo');
+    expect(getReassignmentError(company, 'ravi', 'aminah')).toBe('aminah does not have a supervising role');
+    expect(getReassignmentError(company, 'ravi', 'gone')).toBe('Employee not found');
+  });
+});
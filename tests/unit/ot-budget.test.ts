@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { findBudgetWarnings, formatBudgetWarning, getBudgetForecast } from '@/lib/otBudget';
+import { OTBudgetStatus } from '@/types/otms';
+
+const budget = (overrides: Partial<OTBudgetStatus> = {}): OTBudgetStatus => ({
+  budget_id: 'b-eng',
+  company_id: null,
+  department_id: 'eng',
+  scope_name: 'Engineering',
+  month: '2026-03-01',
+  budget_amount: 10000,
+  approved_amount: 4000,
+  pending_amount: 2000,
+  committed_amount: 6000,
+  notes: null,
+  ...overrides,
+});
+
+describe('OT budgets', () => {
+  it('should project the current month from the run rate', () => {
+    // 6,000 committed in 10 of 31 days
+    const forecast = getBudgetForecast(budget(), new Date(2026, 2, 10));
+
+    expect(forecast.forecast).toBeCloseTo(18600);
+    expect(forecast.utilisation).toBe(60);
+    expect(forecast.state).toBe('at_risk');
+  });
+
+  it('should not project past months', () => {
+    expect(getBudgetForecast(budget(), new Date(2026, 3, 2))).toEqual({
+      forecast: 6000,
+      utilisation: 60,
+      state: 'within',
+    });
+    expect(getBudgetForecast(budget({ committed_amount: 10500 }), new Date(2026, 3, 2)).state).toBe('over');
+  });
+
+  it('should warn when approving would take the department and company over budget', () => {
+    const budgets = [
+      budget({ budget_id: 'b-co', department_id: null, company_id: 'co', scope_name: 'Acme', budget_amount: 50000 }),
+      budget(),
+      budget({ budget_id: 'b-eng-apr', month: '2026-04-01', approved_amount: 0 }),
+    ];
+    const request = {
+      ot_date: '2026-03-20',
+      ot_amount: 6500,
+      status: 'pending_verification' as const,
+      department_id: 'eng',
+      company_id: 'co',
+    };
+
+    const warnings = findBudgetWarnings(request, budgets);
+
+    expect(warnings.map((warning) => [warning.budget.budget_id, warning.projected])).toEqual([['b-eng', 10500]]);
+    expect(formatBudgetWarning(warnings[0])).toBe('Engineering: RM 10,500.00 of RM 10,000.00 budget (RM 500.00 over)');
+    expect(findBudgetWarnings({ ...request, ot_amount: 47000 }, budgets).map((w) => w.budget.budget_id)).toEqual([
+      'b-eng',
+      'b-co',
+    ]);
+  });
+
+  it('should not warn about approved or rejected requests', () => {
+    const request = { ot_date: '2026-03-20', ot_amount: 6500, department_id: 'eng' };
+
+    expect(findBudgetWarnings({ ...request, status: 'hr_certified' }, [budget()])).toEqual([]);
+    expect(findBudgetWarnings({ ...request, status: 'rejected' }, [budget()])).toEqual([]);
+  });
+});
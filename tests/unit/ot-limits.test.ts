@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { formatLimitViolation, getLimitViolations, getMonthlyAllowance } from '@/lib/otLimits';
+import { OTHoursSummary } from '@/types/otms';
+
+const summary = (overrides: Partial<OTHoursSummary> = {}): OTHoursSummary => ({
+  month: '2026-03-01',
+  used_hours: 90,
+  statutory_cap_hours: 104,
+  exception_hours: 0,
+  monthly_limit_hours: null,
+  monthly_limit_mode: null,
+  ...overrides,
+});
+
+describe('OT limits', () => {
+  it('should measure the remaining hours against the statutory cap', () => {
+    expect(getMonthlyAllowance(summary())).toEqual({
+      hardLimit: 104,
+      hardLimitSource: 'statutory',
+      remaining: 14,
+      softLimit: null,
+    });
+    expect(getMonthlyAllowance(summary({ used_hours: 110 })).remaining).toBe(0);
+  });
+
+  it('should raise the cap by approved exceptions', () => {
+    expect(getMonthlyAllowance(summary({ exception_hours: 20 }))).toMatchObject({ hardLimit: 124, remaining: 34 });
+  });
+
+  it('should apply a lower hard monthly limit, and report a lower soft one', () => {
+    expect(getMonthlyAllowance(summary({ monthly_limit_hours: 80, monthly_limit_mode: 'hard', used_hours: 60 })))
+      .toEqual({ hardLimit: 80, hardLimitSource: 'threshold', remaining: 20, softLimit: null });
+    expect(getMonthlyAllowance(summary({ monthly_limit_hours: 80, monthly_limit_mode: 'soft', used_hours: 60 })))
+      .toEqual({ hardLimit: 104, hardLimitSource: 'statutory', remaining: 44, softLimit: 80 });
+    expect(getMonthlyAllowance(summary({ monthly_limit_hours: 120, monthly_limit_mode: 'hard' })).hardLimit).toBe(104);
+  });
+
+  it('should read violations recorded before limits were enforced as none', () => {
+    expect(getLimitViolations({})).toEqual([]);
+    expect(getLimitViolations(null)).toEqual([]);
+    expect(
+      getLimitViolations({
+        violations: [{ type: 'daily', limit: 4, current: 5, exceeded_by: 1, hard: false }],
+        auto_block: false,
+        threshold_name: 'Standard',
+      })
+    ).toHaveLength(1);
+  });
+
+  it('should describe violations in hours or ringgit', () => {
+    expect(
+      formatLimitViolation({ type: 'statutory_monthly', limit: 104, current: 110.5, exceeded_by: 6.5, hard: true })
+    ).toBe('Statutory monthly cap: 110.5 of 104 hrs (6.5 over)');
+    expect(formatLimitViolation({ type: 'monthly_amount', limit: 1000, current: 1250, exceeded_by: 250, hard: false }))
+      .toMatch(/^Monthly amount limit: RM/);
+  });
+});
@@ -66,8 +66,43 @@ vi.mock('@/hooks/useSupervisors', () => ({
   useSupervisors: () => ({ data: [] }),
 }));
 
+vi.mock('@/hooks/usePayrollPeriods', () => ({
+  usePayrollPeriods: () => ({ data: [] }),
+}));
+
+vi.mock('@/hooks/useEmployeeRoster', () => ({
+  useEmployeeRoster: () => ({ data: [] }),
+}));
+
+vi.mock('@/hooks/useCostCentres', () => ({
+  useCostCentres: () => ({ data: [] }),
+}));
+
+vi.mock('@/hooks/useOTReasons', () => ({
+  useOTReasons: () => ({
+    data: [
+      {
+        id: 'reason-maintenance',
+        label: 'System maintenance',
+        description: null,
+        company_id: null,
+        applies_to_department_ids: [],
+        requires_details: false,
+        requires_attachment: false,
+        requires_respective_supervisor: false,
+        max_hours: null,
+        counts_toward_limits: true,
+        sort_order: 10,
+        is_active: true,
+      },
+    ],
+  }),
+}));
+
 vi.mock('@/utils/otValidation', () => ({
   canSubmitOTForDate: () => ({ isAllowed: true }),
+  validateOTTimeForWorkDay: () => ({ isAllowed: true }),
+  validateOTTimeForRoster: () => ({ isAllowed: true }),
 }));
 
 vi.mock('@/components/hr/StateSelector', () => ({
@@ -234,7 +269,7 @@ describe('OTForm - OT location & day type (state holiday)', () => {
           ot_location_state: 'JHR',
           start_time: '09:00',
           end_time: '10:00',
-          reason_dropdown: 'System maintenance',
+          reason_id: 'reason-maintenance',
         }}
       />
     );
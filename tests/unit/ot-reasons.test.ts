@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { checkReasonRules, getAvailableReasons, getReasonText, totalByReason } from '@/lib/otReasons';
+import { OTReason } from '@/types/otms';
+
+const reason = (overrides: Partial<OTReason>): OTReason => ({
+  id: 'r1',
+  label: 'Project deadline',
+  description: null,
+  company_id: null,
+  applies_to_department_ids: [],
+  requires_details: false,
+  requires_attachment: false,
+  requires_respective_supervisor: false,
+  max_hours: null,
+  counts_toward_limits: true,
+  sort_order: 10,
+  is_active: true,
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+  ...overrides,
+});
+
+describe('OT reasons', () => {
+  it('should offer active reasons for the employee\'s company and department, in order', () => {
+    const reasons = [
+      reason({ id: 'other', label: 'Other', sort_order: 100 }),
+      reason({ id: 'shutdown', label: 'Plant shutdown', company_id: 'c1', sort_order: 5 }),
+      reason({ id: 'elsewhere', label: 'Audit', company_id: 'c2' }),
+      reason({ id: 'it', label: 'Server patching', applies_to_department_ids: ['d-it'] }),
+      reason({ id: 'old', label: 'Stocktake', is_active: false }),
+      reason({ id: 'deadline' }),
+    ];
+
+    expect(getAvailableReasons(reasons, { company_id: 'c1', department_id: 'd-ops' }).map((r) => r.id)).toEqual([
+      'shutdown',
+      'deadline',
+      'other',
+    ]);
+    expect(getAvailableReasons(reasons, { company_id: 'c2', department_id: 'd-it' }).map((r) => r.id)).toEqual([
+      'elsewhere',
+      'deadline',
+      'it',
+      'other',
+    ]);
+  });
+
+  it('should report every rule a session breaks', () => {
+    const strict = reason({
+      label: 'Breakdown',
+      requires_details: true,
+      requires_attachment: true,
+      requires_respective_supervisor: true,
+      max_hours: 4,
+    });
+
+    expect(checkReasonRules(strict, { total_hours: 5, details: 'Pump', attachment_count: 0 }).map((v) => v.field)).toEqual([
+      'details',
+      'attachment',
+      'respective_supervisor',
+      'hours',
+    ]);
+    expect(
+      checkReasonRules(strict, {
+        total_hours: 4,
+        details: 'Cooling pump failed on line 2',
+        attachment_count: 1,
+        respective_supervisor_id: 'sup-1',
+      })
+    ).toEqual([]);
+  });
+
+  it('should store the employee\'s details only for reasons that ask for them', () => {
+    expect(getReasonText(reason({ label: 'Other', requires_details: true }), '  Covering the night audit ')).toBe(
+      'Covering the night audit'
+    );
+    expect(getReasonText(reason({}), 'ignored')).toBe('Project deadline');
+  });
+
+  it('should total requests by reason, with uncatalogued requests grouped', () => {
+    expect(
+      totalByReason([
+        { reason_label: 'Project deadline', hours: 3, amount: 90 },
+        { reason_label: 'Breakdown', hours: 4.5, amount: 150 },
+        { reason_label: 'Project deadline', hours: 2, amount: 60 },
+        { reason_label: null, hours: 1, amount: 20 },
+      ])
+    ).toEqual([
+      { label: 'Project deadline', requests: 2, hours: 5, amount: 150 },
+      { label: 'Breakdown', requests: 1, hours: 4.5, amount: 150 },
+      { label: 'Uncatalogued', requests: 1, hours: 1, amount: 20 },
+    ]);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { getEventFieldChanges, getEventTitle } from '@/lib/otRequestEvents';
+import { OTRequestEvent } from '@/types/otms';
+
+const baseEvent: OTRequestEvent = {
+  id: 'evt-1',
+  request_id: 'req-1',
+  event_type: 'status_changed',
+  actor_id: 'user-1',
+  actor_role: 'hr',
+  from_status: 'supervisor_verified',
+  to_status: 'hr_certified',
+  remarks: null,
+  changes: {},
+  created_at: '2026-02-10T08:00:00Z',
+};
+
+describe('OT request event helpers', () => {
+  it('should title status changes with the target status and actor role', () => {
+    expect(getEventTitle(baseEvent)).toBe('Certified by HR');
+  });
+
+  it('should distinguish a management send-back from an HR recertification', () => {
+    const loop = { ...baseEvent, from_status: 'hr_certified' as const, to_status: 'hr_certified' as const };
+
+    expect(getEventTitle({ ...loop, actor_role: 'management' })).toBe('Sent back to HR by Management');
+    expect(getEventTitle({ ...loop, actor_role: 'hr' })).toBe('Recertified by HR');
+  });
+
+  it('should title rejections by the rejecting role', () => {
+    expect(getEventTitle({ ...baseEvent, actor_role: 'supervisor', to_status: 'rejected' })).toBe(
+      'Rejected by Supervisor'
+    );
+  });
+
+  it('should only list employee-facing field changes', () => {
+    const changes = getEventFieldChanges({
+      ...baseEvent,
+      event_type: 'updated',
+      changes: {
+        end_time: { old: '18:00:00', new: '20:00:00' },
+        hr_remarks: { old: null, new: 'ok' },
+        attachment_urls: { old: [], new: ['a.pdf', 'b.pdf'] },
+      },
+    });
+
+    expect(changes).toEqual([
+      { field: 'end_time', label: 'End time', oldValue: '18:00:00', newValue: '20:00:00' },
+      { field: 'attachment_urls', label: 'Attachments', oldValue: '0', newValue: '2' },
+    ]);
+  });
+});
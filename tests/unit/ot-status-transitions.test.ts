@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { VALID_CONFIRMATION_TRANSITIONS, canTransition } from '@/types/otms';
+import { validateStatusTransition } from '@/services/ot-workflow';
+
+describe('OT status transition table', () => {
+  it('should not allow any role to skip from pending_verification to management_approved', () => {
+    for (const role of ['supervisor', 'respective_supervisor', 'hr', 'management']) {
+      expect(canTransition('pending_verification', 'management_approved', role)).toBe(false);
+    }
+  });
+
+  it('should only let management approve HR certified requests', () => {
+    expect(canTransition('hr_certified', 'management_approved', 'management')).toBe(true);
+    expect(canTransition('hr_certified', 'management_approved', 'hr')).toBe(false);
+    expect(canTransition('supervisor_confirmed', 'management_approved', 'management')).toBe(false);
+  });
+
+  it('should reserve Route B confirmation for the respective supervisor', () => {
+    expect(
+      canTransition('pending_respective_supervisor_confirmation', 'pending_supervisor_verification', 'respective_supervisor')
+    ).toBe(true);
+    expect(
+      canTransition('pending_respective_supervisor_confirmation', 'pending_supervisor_verification', 'supervisor')
+    ).toBe(false);
+  });
+
+  it('should require remarks for every rejection', () => {
+    const rejections = VALID_CONFIRMATION_TRANSITIONS.filter((t) => t.to === 'rejected');
+
+    expect(rejections.length).toBeGreaterThan(0);
+    rejections.forEach((t) => expect(t.requiresRemarks).toBe(true));
+  });
+
+  it('should never move a request out of rejected', () => {
+    expect(VALID_CONFIRMATION_TRANSITIONS.some((t) => t.from === 'rejected')).toBe(false);
+  });
+
+  it('should have no duplicate entries', () => {
+    const keys = VALID_CONFIRMATION_TRANSITIONS.map((t) => `${t.from}|${t.to}|${t.role}`);
+    expect(new Set(keys).size).toBe(keys.length);
+  });
+
+  it('should report an error for disallowed transitions', () => {
+    const result = validateStatusTransition('pending_verification', 'hr_certified', 'hr');
+
+    expect(result.valid).toBe(false);
+    expect(result.error).toContain("'pending_verification'");
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { calculateTotalHours, formatTimeRange, isOvernightSession } from '@/lib/otCalculations';
+import { findOverlappingSession, getSessionPortionOnDate, sessionsOverlap, splitSessionByDate } from '@/lib/otSessions';
+import { validateOTTimeForWorkDay } from '@/utils/otValidation';
+
+describe('Overnight OT sessions', () => {
+  const nightShift = { ot_date: '2026-03-14', start_time: '22:00', end_time: '03:00', total_hours: 5 };
+
+  it('should treat an end time earlier than the start time as the next day', () => {
+    expect(isOvernightSession('22:00', '03:00')).toBe(true);
+    expect(isOvernightSession('18:00', '22:00')).toBe(false);
+    expect(calculateTotalHours('22:00', '03:00')).toBe(5);
+    expect(formatTimeRange('22:00', '03:00')).toBe('10:00 PM - 3:00 AM (+1 day)');
+  });
+
+  it('should split hours at midnight', () => {
+    expect(splitSessionByDate(nightShift)).toEqual([
+      { date: '2026-03-14', start_time: '22:00', end_time: '24:00', hours: 2 },
+      { date: '2026-03-15', start_time: '00:00', end_time: '03:00', hours: 3 },
+    ]);
+    expect(splitSessionByDate({ ...nightShift, end_time: '23:00', total_hours: 1 })).toHaveLength(1);
+  });
+
+  it('should split across months and handle database time strings', () => {
+    const portions = splitSessionByDate({
+      ot_date: '2026-01-31',
+      start_time: '23:30:00',
+      end_time: '01:15:00',
+      total_hours: 1.8,
+    });
+
+    expect(portions.map((portion) => [portion.date, portion.hours])).toEqual([
+      ['2026-01-31', 0.55],
+      ['2026-02-01', 1.25],
+    ]);
+  });
+
+  it('should find the portion worked on a date', () => {
+    expect(getSessionPortionOnDate(nightShift, '2026-03-15')?.hours).toBe(3);
+    expect(getSessionPortionOnDate(nightShift, '2026-03-16')).toBeUndefined();
+  });
+
+  it('should detect overlaps with sessions on the next date', () => {
+    const earlyMorning = { ot_date: '2026-03-15', start_time: '02:00', end_time: '04:00' };
+    const afterShift = { ot_date: '2026-03-15', start_time: '03:00', end_time: '05:00' };
+    const previousNight = { ot_date: '2026-03-13', start_time: '21:00', end_time: '23:00' };
+
+    expect(sessionsOverlap(nightShift, earlyMorning)).toBe(true);
+    expect(sessionsOverlap(nightShift, afterShift)).toBe(false);
+    expect(findOverlappingSession(nightShift, [previousNight, afterShift, earlyMorning])).toBe(earlyMorning);
+  });
+
+  it('should check business hours against the day type of each date', () => {
+    // Sunday night into a Monday: the part after midnight must end by 09:00
+    expect(validateOTTimeForWorkDay('22:00', '08:00', 'sunday', 'weekday').isAllowed).toBe(true);
+    expect(validateOTTimeForWorkDay('22:00', '10:00', 'sunday', 'weekday').isAllowed).toBe(false);
+    // Friday evening into a Saturday
+    expect(validateOTTimeForWorkDay('17:00', '02:00', 'weekday', 'saturday').isAllowed).toBe(false);
+    expect(validateOTTimeForWorkDay('19:00', '11:00', 'weekday', 'saturday').isAllowed).toBe(true);
+  });
+});
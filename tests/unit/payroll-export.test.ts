@@ -0,0 +1,191 @@
+import { describe, it, expect } from 'vitest';
+import {
+  PayrollExportError,
+  PayrollSourceRow,
+  buildPayrollExportFile,
+  buildPayrollRecords,
+  renderPayrollExport,
+  validatePayrollExportLayout,
+} from '@/lib/payrollExport';
+import { PayrollExportBatch, PayrollExportLayout } from '@/types/otms';
+
+const layout = (overrides: Partial<PayrollExportLayout> = {}): PayrollExportLayout => ({
+  id: 'layout-1',
+  name: 'Payroll',
+  format: 'csv',
+  columns: [
+    { field: 'employee_no', header: 'EMPNO' },
+    { field: 'employee_name', header: 'NAME' },
+    { field: 'ot_date', header: 'DATE' },
+    { field: 'pay_code', header: 'CODE' },
+    { field: 'hours', header: 'HOURS', decimals: 1 },
+    { field: 'amount', header: 'AMOUNT' },
+  ],
+  pay_codes: { weekday: 'OT15', sunday: 'OT20' },
+  date_format: 'dd/MM/yyyy',
+  delimiter: ',',
+  include_header: true,
+  group_by: 'request',
+  is_active: true,
+  created_at: '',
+  updated_at: '',
+  ...overrides,
+});
+
+const row = (overrides: Partial<PayrollSourceRow>): PayrollSourceRow => ({
+  request_id: 'r1',
+  employee_id: 'e1',
+  employee_no: 'EMP002',
+  employee_name: 'Tan, Wei Ming',
+  department: 'Operations',
+  company_id: 'c1',
+  company_code: 'HQ',
+  ot_date: '2026-01-05',
+  day_type: 'weekday',
+  hours: 3,
+  amount: 81.74,
+  ...overrides,
+});
+
+const ROWS = [
+  row({}),
+  row({ request_id: 'r2', ot_date: '2026-01-07', hours: 2, amount: 54.49 }),
+  row({ request_id: 'r3', employee_no: 'EMP001', employee_name: 'Siti "Ina" Rahman', ot_date: '2026-01-11', day_type: 'sunday', hours: 8, amount: 290.6 }),
+];
+
+const batch: PayrollExportBatch = {
+  id: 'b1',
+  batch_no: 'PX-202601-001',
+  layout_id: 'layout-1',
+  period_start: '2026-01-01',
+  period_end: '2026-01-31',
+  company_id: null,
+  status: 'exported',
+  request_count: 2,
+  adjustment_count: 0,
+  total_hours: 5,
+  total_amount: 100,
+  download_count: 1,
+  exported_by: null,
+  exported_at: '',
+  last_downloaded_at: '',
+  voided_by: null,
+  voided_at: null,
+  void_reason: null,
+  payroll_export_batch_items: [
+    { ot_request_id: 'r1', hours: 3, amount: 80, voided: false },
+    { ot_request_id: 'r3', hours: 8, amount: 290.6, voided: false },
+  ],
+};
+
+describe('Payroll export', () => {
+  it('should render CSV with pay codes, date formats and quoting', () => {
+    const csv = renderPayrollExport(layout(), buildPayrollRecords(layout(), batch, ROWS));
+
+    expect(csv.split('\r\n')).toEqual([
+      'EMPNO,NAME,DATE,CODE,HOURS,AMOUNT',
+      'EMP001,"Siti ""Ina"" Rahman",11/01/2026,OT20,8.0,290.60',
+      'EMP002,"Tan, Wei Ming",05/01/2026,OT15,3.0,81.74',
+      'EMP002,"Tan, Wei Ming",07/01/2026,OT15,2.0,54.49',
+      '',
+    ]);
+  });
+
+  it('should pad and truncate fixed-width records', () => {
+    const fixed = layout({
+      format: 'fixed_width',
+      include_header: false,
+      date_format: 'yyyyMMdd',
+      columns: [
+        { field: 'employee_no', header: '', width: 8 },
+        { field: 'employee_name', header: '', width: 6 },
+        { field: 'ot_date', header: '', width: 8 },
+        { field: 'amount', header: '', width: 9, align: 'right', pad: '0' },
+      ],
+    });
+
+    expect(renderPayrollExport(fixed, buildPayrollRecords(fixed, batch, [ROWS[0]]))).toBe(
+      'EMP002  Tan, W20260105000081.74\r\n'
+    );
+  });
+
+  it('should group by employee and pay code and type numbers in JSON', () => {
+    const json = layout({
+      format: 'json',
+      group_by: 'employee_pay_code',
+      columns: [
+        { field: 'employee_no', header: 'employee' },
+        { field: 'ot_date', header: 'date' },
+        { field: 'pay_code', header: 'code' },
+        { field: 'hours', header: 'hours' },
+      ],
+    });
+
+    expect(JSON.parse(renderPayrollExport(json, buildPayrollRecords(json, batch, ROWS)))).toEqual([
+      { employee: 'EMP001', date: '31/01/2026', code: 'OT20', hours: 8 },
+      { employee: 'EMP002', date: '31/01/2026', code: 'OT15', hours: 5 },
+    ]);
+  });
+
+  it('should split records by cost centre when the layout has a cost centre column', () => {
+    const costed = layout({
+      group_by: 'employee_pay_code',
+      columns: [
+        { field: 'employee_no', header: 'EMPNO' },
+        { field: 'cost_centre', header: 'CC' },
+        { field: 'hours', header: 'HOURS' },
+        { field: 'amount', header: 'AMOUNT' },
+      ],
+    });
+    const rows = [
+      row({
+        cost_allocations: [
+          { code: 'PRJ-1', name: 'Plant upgrade', hours: 2 },
+          { code: 'WO-7', name: 'Pump repair', hours: 1 },
+        ],
+      }),
+      row({ request_id: 'r2', ot_date: '2026-01-07', hours: 2, amount: 54.49, cost_allocations: [{ code: 'WO-7', name: 'Pump repair', hours: 2 }] }),
+      row({ request_id: 'r4', ot_date: '2026-01-08', hours: 1, amount: 27.25 }),
+    ];
+
+    expect(renderPayrollExport(costed, buildPayrollRecords(costed, batch, rows)).split('\r\n')).toEqual([
+      'EMPNO,CC,HOURS,AMOUNT',
+      'EMP002,PRJ-1,2.00,54.49',
+      'EMP002,WO-7,3.00,81.74',
+      'EMP002,,1.00,27.25',
+      '',
+    ]);
+  });
+
+  it('should rebuild a batch from its recorded amounts', () => {
+    const file = buildPayrollExportFile(layout(), batch, ROWS);
+
+    expect(file.filename).toBe('PX-202601-001.csv');
+    expect(file.content).toContain('EMP002,"Tan, Wei Ming",05/01/2026,OT15,3.0,80.00');
+    expect(file.content).not.toContain('07/01/2026');
+  });
+
+  it('should refuse to rebuild a batch whose requests left the report', () => {
+    expect(() => buildPayrollExportFile(layout(), batch, [ROWS[0]])).toThrow(PayrollExportError);
+  });
+
+  it('should export payroll adjustments with the requests of their batch', () => {
+    const adjustment = row({ request_id: 'r0', adjustment_id: 'a1', ot_date: '2025-12-30', hours: 1, amount: 27.25 });
+    const withAdjustment: PayrollExportBatch = {
+      ...batch,
+      adjustment_count: 1,
+      payroll_export_batch_adjustments: [{ adjustment_id: 'a1', hours: 1, amount: 27.25, voided: false }],
+    };
+
+    expect(buildPayrollExportFile(layout(), withAdjustment, [...ROWS, adjustment]).content).toContain(
+      'EMP002,"Tan, Wei Ming",30/12/2025,OT15,1.0,27.25'
+    );
+    expect(() => buildPayrollExportFile(layout(), withAdjustment, ROWS)).toThrow(PayrollExportError);
+  });
+
+  it('should require widths for fixed-width layouts', () => {
+    expect(
+      validatePayrollExportLayout({ name: 'X', format: 'fixed_width', delimiter: ',', columns: [{ field: 'hours', header: '' }] })
+    ).toEqual(['Column 1 needs a width']);
+  });
+});
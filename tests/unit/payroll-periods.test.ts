@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import {
+  PAYROLL_PERIOD_TRANSITIONS,
+  findFrozenPeriod,
+  frozenPeriodMessage,
+  getNextPayrollPeriodRange,
+} from '@/lib/payrollPeriods';
+import { PayrollPeriod } from '@/types/otms';
+
+const period = (overrides: Partial<PayrollPeriod>): PayrollPeriod => ({
+  id: 'p1',
+  company_id: 'c1',
+  period_start: '2026-01-01',
+  period_end: '2026-01-31',
+  status: 'open',
+  locked_at: null,
+  locked_by: null,
+  closed_at: null,
+  closed_by: null,
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+  ...overrides,
+});
+
+describe('Payroll periods', () => {
+  const january = period({ status: 'closed' });
+  const february = period({ id: 'p2', period_start: '2026-02-01', period_end: '2026-02-28', status: 'locked' });
+  const march = period({ id: 'p3', period_start: '2026-03-01', period_end: '2026-03-31' });
+
+  it('should find the frozen period covering a date, including its boundaries', () => {
+    const periods = [january, february, march];
+
+    expect(findFrozenPeriod(periods, '2026-01-31')?.id).toBe('p1');
+    expect(findFrozenPeriod(periods, '2026-02-01')?.id).toBe('p2');
+    expect(findFrozenPeriod(periods, '2026-03-15')).toBeUndefined();
+    expect(findFrozenPeriod(periods, '2025-12-31')).toBeUndefined();
+  });
+
+  it('should only allow closing a locked period and never reopening a closed one', () => {
+    expect(PAYROLL_PERIOD_TRANSITIONS.open).toEqual(['locked']);
+    expect(PAYROLL_PERIOD_TRANSITIONS.locked).toContain('closed');
+    expect(PAYROLL_PERIOD_TRANSITIONS.closed).toEqual([]);
+  });
+
+  it('should point users to a payroll adjustment', () => {
+    expect(frozenPeriodMessage(february)).toBe(
+      'The payroll period 1 Feb – 28 Feb 2026 is locked. Ask HR for a payroll adjustment instead.'
+    );
+  });
+
+  it('should start with the current month when a company has no periods', () => {
+    expect(getNextPayrollPeriodRange([], new Date(2026, 4, 17))).toEqual({
+      period_start: '2026-05-01',
+      period_end: '2026-05-31',
+    });
+  });
+
+  it('should continue after the latest period', () => {
+    expect(getNextPayrollPeriodRange([february, january])).toEqual({
+      period_start: '2026-03-01',
+      period_end: '2026-03-31',
+    });
+
+    const midMonth = period({ period_start: '2026-01-16', period_end: '2026-02-15' });
+    expect(getNextPayrollPeriodRange([midMonth])).toEqual({
+      period_start: '2026-02-16',
+      period_end: '2026-03-15',
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findOverlappingShift,
+  getPatternDayIndex,
+  getRosterDayType,
+  getShiftHours,
+  getShiftRangesForDate,
+} from '@/lib/shiftRoster';
+import { validateOTTimeForRoster } from '@/utils/otValidation';
+import { RosterDay } from '@/types/otms';
+
+const work = (date: string, start: string, end: string, name = 'Day'): RosterDay => ({
+  roster_date: date,
+  day_kind: 'work',
+  shift_template_id: `tpl-${name}`,
+  shift_name: name,
+  shift_start: `${start}:00`,
+  shift_end: `${end}:00`,
+  normal_hours: 8,
+});
+
+const dayOff = (date: string, kind: 'off' | 'rest'): RosterDay => ({
+  roster_date: date,
+  day_kind: kind,
+  shift_template_id: null,
+  shift_name: null,
+  shift_start: null,
+  shift_end: null,
+  normal_hours: 0,
+});
+
+describe('Shift rosters', () => {
+  it('should place dates in the pattern cycle, before and after the cycle start', () => {
+    // 4-on/4-off starting Monday 2 March
+    expect(getPatternDayIndex('2026-03-02', '2026-03-02', 8)).toBe(0);
+    expect(getPatternDayIndex('2026-03-09', '2026-03-02', 8)).toBe(7);
+    expect(getPatternDayIndex('2026-03-10', '2026-03-02', 8)).toBe(0);
+    expect(getPatternDayIndex('2026-03-01', '2026-03-02', 8)).toBe(7);
+  });
+
+  it('should take day types from the roster, except on holidays', () => {
+    expect(getRosterDayType(work('2026-03-07', '08:00', '17:00'), 'saturday')).toBe('weekday');
+    expect(getRosterDayType(dayOff('2026-03-04', 'off'), 'weekday')).toBe('saturday');
+    expect(getRosterDayType(dayOff('2026-03-04', 'rest'), 'weekday')).toBe('sunday');
+    expect(getRosterDayType(dayOff('2026-03-04', 'rest'), 'public_holiday')).toBe('public_holiday');
+    expect(getRosterDayType(undefined, 'sunday')).toBe('sunday');
+  });
+
+  it('should measure overnight shifts past midnight', () => {
+    expect(getShiftHours(work('2026-03-02', '20:00', '08:00', 'Night'))).toEqual({ start: 20, end: 32 });
+    expect(getShiftHours(dayOff('2026-03-02', 'off'))).toBeNull();
+    expect(getShiftRangesForDate('2026-03-03', [work('2026-03-02', '20:00', '08:00', 'Night')])).toEqual([
+      { start: 0, end: 8 },
+    ]);
+  });
+
+  it('should reject OT overlapping a night shift from the previous date', () => {
+    const roster = [work('2026-03-02', '20:00', '08:00', 'Night'), dayOff('2026-03-03', 'off')];
+
+    expect(findOverlappingShift({ ot_date: '2026-03-03', start_time: '07:00', end_time: '10:00' }, roster)).toBe(
+      roster[0]
+    );
+    expect(
+      validateOTTimeForRoster({ ot_date: '2026-03-03', start_time: '08:00', end_time: '12:00' }, roster).isAllowed
+    ).toBe(true);
+  });
+
+  it('should allow OT during business hours on a rostered day off, and during shifts on holidays', () => {
+    const roster = [dayOff('2026-03-04', 'off'), work('2026-03-05', '09:00', '18:00')];
+    const session = { ot_date: '2026-03-05', start_time: '10:00', end_time: '14:00' };
+
+    expect(
+      validateOTTimeForRoster({ ot_date: '2026-03-04', start_time: '10:00', end_time: '14:00' }, roster).isAllowed
+    ).toBe(true);
+    expect(validateOTTimeForRoster(session, roster).message).toMatch(/rostered shift/);
+    expect(validateOTTimeForRoster(session, roster, (date) => date === '2026-03-05').isAllowed).toBe(true);
+  });
+});